@@ -5,6 +5,7 @@ import { LanguageSwitcher } from './ui/components/LanguageSwitcher';
 import { PipeLossCalculator, PipeLossCalculatorHandle } from './ui/features/PipeLossCalculator';
 import { MultiSegmentCalculator, MultiSegmentCalculatorHandle } from './ui/features/MultiSegmentCalculator';
 import { RouteEditor, RouteEditorHandle } from './ui/features/RouteEditor';
+import { SprinklerCalculator, SprinklerCalculatorHandle } from './ui/features/SprinklerCalculator';
 import { PumpChart, PumpSelectionInput, PumpResultSummary, SourceTab } from './ui/features/PumpChart';
 import { ExplanationTab } from './ui/features/explanation/ExplanationTab';
 import type { ExplanationSnapshot, PumpExplanationSnapshot } from './ui/features/explanation/types';
@@ -13,6 +14,7 @@ import {
   SingleSegmentProjectData,
   MultiSegmentProjectData,
   RouteProjectData,
+  SprinklerProjectData,
 } from './infrastructure/persistence/projectFile';
 import {
   downloadProjectFile,
@@ -20,11 +22,13 @@ import {
   createSingleSegmentProject,
   createMultiSegmentProject,
   createRouteProject,
+  createSprinklerProject,
   downloadProjectListFile,
   openProjectListFile,
 } from './infrastructure/persistence/fileIO';
+import type { PumpCurveData } from './infrastructure/dataLoader';
 
-type TabKey = 'single' | 'multi' | 'route' | 'pump' | 'explain';
+type TabKey = 'single' | 'multi' | 'route' | 'sprinkler' | 'pump' | 'explain';
 
 const STORAGE_KEY = 'pipingDesignKit_projectList';
 
@@ -54,7 +58,7 @@ function AppContent() {
 
   // Tab locking: when a calculation is performed, lock other calc tabs
   const [lockedTab, setLockedTab] = useState<TabKey | null>(null);
-  const calcTabs: TabKey[] = ['single', 'multi', 'route'];
+  const calcTabs: TabKey[] = ['single', 'multi', 'route', 'sprinkler'];
   const isTabDisabled = (tab: TabKey) =>
     lockedTab !== null && calcTabs.includes(tab) && tab !== lockedTab;
 
@@ -62,6 +66,7 @@ function AppContent() {
   const singleRef = useRef<PipeLossCalculatorHandle>(null);
   const multiRef = useRef<MultiSegmentCalculatorHandle>(null);
   const routeRef = useRef<RouteEditorHandle>(null);
+  const sprinklerRef = useRef<SprinklerCalculatorHandle>(null);
 
   // Loaded project data (for passing initial state after import)
   const [loadedProject, setLoadedProject] = useState<ProjectFile | null>(null);
@@ -75,6 +80,9 @@ function AppContent() {
   // Pump selection input from pressure loss calculation
   const [pumpInput, setPumpInput] = useState<PumpSelectionInput | null>(null);
 
+  // User-imported pump curves (saved with the project)
+  const [userPumps, setUserPumps] = useState<PumpCurveData[]>([]);
+
   // Pump result summary (for quick view in calculator tabs)
   const [pumpResult, setPumpResult] = useState<PumpResultSummary | null>(null);
 
@@ -137,6 +145,9 @@ function AppContent() {
     setPumpInput(input);
   }, []);
 
+  const withUserPumps = (project: ProjectFile): ProjectFile =>
+    userPumps.length > 0 ? { ...project, pumpCurves: userPumps } : project;
+
   const handleExport = () => {
     setImportError(null);
     const name = projectName.trim() || t('project.default_name');
@@ -148,11 +159,13 @@ function AppContent() {
       project = createMultiSegmentProject(name, multiRef.current.getProjectData());
     } else if (activeTab === 'route' && routeRef.current) {
       project = createRouteProject(name, routeRef.current.getProjectData());
+    } else if (activeTab === 'sprinkler' && sprinklerRef.current) {
+      project = createSprinklerProject(name, sprinklerRef.current.getProjectData());
     } else {
       return;
     }
 
-    downloadProjectFile(project);
+    downloadProjectFile(withUserPumps(project));
   };
 
   const handleImport = async () => {
@@ -164,6 +177,7 @@ function AppContent() {
       setLoadedProject(project);
       setActiveTab(project.type as TabKey);
       setProjectName(project.name);
+      setUserPumps(project.pumpCurves ?? []);
       setMountKey(prev => prev + 1);
     } catch (e) {
       setImportError(e instanceof Error ? e.message : String(e));
@@ -183,17 +197,20 @@ function AppContent() {
       project = createMultiSegmentProject(name, multiRef.current.getProjectData());
     } else if (activeTab === 'route' && routeRef.current) {
       project = createRouteProject(name, routeRef.current.getProjectData());
+    } else if (activeTab === 'sprinkler' && sprinklerRef.current) {
+      project = createSprinklerProject(name, sprinklerRef.current.getProjectData());
     } else {
       return;
     }
 
-    setProjectList(prev => [...prev, project]);
+    setProjectList(prev => [...prev, withUserPumps(project)]);
   };
 
   const handleLoadFromList = useCallback((project: ProjectFile) => {
     setLoadedProject(project);
     setActiveTab(project.type as TabKey);
     setProjectName(project.name);
+    setUserPumps(project.pumpCurves ?? []);
     setMountKey(prev => prev + 1);
   }, []);
 
@@ -224,6 +241,8 @@ function AppContent() {
     ? loadedProject.data as MultiSegmentProjectData : undefined;
   const routeInitial = loadedProject?.type === 'route'
     ? loadedProject.data as RouteProjectData : undefined;
+  const sprinklerInitial = loadedProject?.type === 'sprinkler'
+    ? loadedProject.data as SprinklerProjectData : undefined;
 
   return (
     <div style={{ display: 'flex', maxWidth: isMobile ? '100%' : '1600px', margin: '0 auto', fontFamily: 'sans-serif' }}>
@@ -286,6 +305,7 @@ function AppContent() {
           <TabButton label={t('tab.single')} active={activeTab === 'single'} onClick={() => setActiveTab('single')} compact={isMobile} disabled={isTabDisabled('single')} />
           <TabButton label={t('tab.multi')} active={activeTab === 'multi'} onClick={() => setActiveTab('multi')} compact={isMobile} disabled={isTabDisabled('multi')} />
           <TabButton label={t('tab.route')} active={activeTab === 'route'} onClick={() => setActiveTab('route')} compact={isMobile} disabled={isTabDisabled('route')} />
+          <TabButton label={t('tab.sprinkler')} active={activeTab === 'sprinkler'} onClick={() => setActiveTab('sprinkler')} compact={isMobile} disabled={isTabDisabled('sprinkler')} />
           <TabButton label={t('tab.pump')} active={activeTab === 'pump'} onClick={() => setActiveTab('pump')} compact={isMobile} />
           <TabButton label={t('tab.explain')} active={activeTab === 'explain'} onClick={() => setActiveTab('explain')} compact={isMobile} />
           {lockedTab && (
@@ -314,8 +334,11 @@ function AppContent() {
         <div style={{ display: activeTab === 'route' ? 'block' : 'none' }}>
           <RouteEditor key={`route-${mountKey}`} ref={routeRef} initialData={routeInitial} onSendToPump={handleSendToPump} onSendToExplanation={handleSendToExplanation} pumpResult={pumpResult} onGoToPumpTab={handleGoToPumpTab} onCalculated={() => handleCalculated('route')} onReset={handleReset} onUpdatePumpSilently={handleUpdatePumpSilently} />
         </div>
+        <div style={{ display: activeTab === 'sprinkler' ? 'block' : 'none' }}>
+          <SprinklerCalculator key={`sprinkler-${mountKey}`} ref={sprinklerRef} initialData={sprinklerInitial} onCalculated={() => handleCalculated('sprinkler')} onReset={handleReset} />
+        </div>
         <div style={{ display: activeTab === 'pump' ? 'block' : 'none' }}>
-          <PumpChart initialInput={pumpInput} onInputConsumed={() => setPumpInput(null)} onSendPumpToExplanation={handleSendPumpToExplanation} onPumpResultUpdate={handlePumpResultUpdate} onGoToSourceTab={handleGoToSourceTab} />
+          <PumpChart initialInput={pumpInput} onInputConsumed={() => setPumpInput(null)} onSendPumpToExplanation={handleSendPumpToExplanation} onPumpResultUpdate={handlePumpResultUpdate} onGoToSourceTab={handleGoToSourceTab} userPumps={userPumps} onUserPumpsChange={setUserPumps} />
         </div>
         <div style={{ display: activeTab === 'explain' ? 'block' : 'none' }}>
           <ExplanationTab snapshot={explanationSnapshot} pumpSnapshot={pumpExplanation} />
@@ -331,6 +354,7 @@ const typeLabel: Record<string, string> = {
   single: 'Single',
   multi: 'Multi',
   route: 'Route',
+  sprinkler: 'Sprinkler',
 };
 
 function ProjectListPanel({ projects, onLoad, onRemove, onBulkExport, onBulkImport, t }: {
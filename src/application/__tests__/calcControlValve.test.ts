@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { calcMultiSegment } from '../calcMultiSegment';
+import { calcControlValve } from '../calcControlValve';
+import { PipeSpec, PipeMaterial } from '@domain/types';
+import { WaterData, getWaterProperties } from '@domain/fluid/waterProperties';
+import { getSolutionProperties, calcSolutionVaporPressure } from '@domain/fluid/aqueousSolution';
+import { MelinderData } from '@domain/fluid/solutionTypes';
+import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { ControlValveCatalog, ControlValveConditions } from '@domain/valve/types';
+
+import waterJson from '@data/fluid-properties/water.json';
+import darby3kJson from '@data/fittings-db/darby-3k.json';
+import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+import valveJson from '@data/valve-specs/sample-control-valves.json';
+import melinderEgJson from '@data/fluid-properties/melinder-eg-water.json';
+
+const waterData = waterJson as unknown as WaterData;
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+const catalog = valveJson as unknown as ControlValveCatalog;
+const melinderEgData = melinderEgJson as unknown as MelinderData;
+
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const conditions: ControlValveConditions = {
+  inletPressure_kpa: 500,
+  valveDp_kpa: 100,
+  criticalPressure_kpa: 22064,
+  characteristic: 'equal_percentage',
+  maxOpening: 0.8,
+};
+
+describe('calcControlValve', () => {
+  const systemResult = calcMultiSegment(
+    {
+      temperature_c: 20,
+      flowRate_m3h: 10,
+      segments: [{
+        pipe: pipe2inch, material: carbonSteel, length_m: 100, elevation_m: 20,
+        fittings: [{ fittingId: 'elbow_90_lr_welded', quantity: 4 }],
+      }],
+    },
+    waterData, darby3kData, entranceExitData
+  );
+  const fluid = getWaterProperties(20, waterData);
+
+  it('should use friction and fitting losses (not elevation) as the rest-of-system drop', () => {
+    const r = calcControlValve({ flowRate_m3h: 10, fluid, vaporPressure_kpa: fluid.pressure, conditions }, systemResult, catalog);
+    const systemDp_kpa = (systemResult.dp_friction_total + systemResult.dp_fittings_total) / 1000;
+    expect(r.authority).toBeCloseTo(100 / (100 + systemDp_kpa), 10);
+    expect(r.specificGravity).toBeCloseTo(fluid.density / 1000, 10);
+  });
+
+  it('should select an acceptable valve for the design flow', () => {
+    const r = calcControlValve({ flowRate_m3h: 10, fluid, vaporPressure_kpa: fluid.pressure, conditions }, systemResult, catalog);
+    expect(r.selectedIndex).not.toBeNull();
+    const selected = r.candidates[r.selectedIndex!];
+    expect(selected.valve.characteristic).toBe('equal_percentage');
+    expect(selected.opening).toBeLessThanOrEqual(0.8);
+    expect(r.installedCharacteristics).toBeDefined();
+  });
+
+  it('should use the given vapor pressure rather than the solution pressure field', () => {
+    // 水溶液の物性は pressure に大気圧を持つため、蒸気圧はラウール則で別に求める
+    const glycol = getSolutionProperties(20, 30, 'wt%', { method: 'melinder', data: melinderEgData });
+    expect(glycol.pressure).toBeCloseTo(101.325, 3);
+    const vaporPressure_kpa = calcSolutionVaporPressure(30, 'wt%', 'melinder', fluid.pressure, { molarMass_g_mol: 62.07, dissociation: 1 });
+    expect(vaporPressure_kpa).toBeLessThan(fluid.pressure);
+
+    const lowInlet: ControlValveConditions = { ...conditions, inletPressure_kpa: 300, valveDp_kpa: 200 };
+    const r = calcControlValve({ flowRate_m3h: 10, fluid: glycol, vaporPressure_kpa, conditions: lowInlet }, systemResult, catalog);
+    expect(r.ff).toBeCloseTo(0.96 - 0.28 * Math.sqrt(vaporPressure_kpa / lowInlet.criticalPressure_kpa), 10);
+    expect(r.warnings.map(w => w.messageKey)).not.toContain('warn.valve_choked');
+    expect(r.warnings.map(w => w.messageKey)).not.toContain('warn.valve_flashing');
+
+    // 大気圧を蒸気圧とみなすと出口圧 100 kPa がそれを下回り、フラッシングと誤判定する
+    const atmospheric = calcControlValve({ flowRate_m3h: 10, fluid: glycol, vaporPressure_kpa: glycol.pressure, conditions: lowInlet }, systemResult, catalog);
+    expect(atmospheric.warnings.map(w => w.messageKey)).toContain('warn.valve_flashing');
+  });
+});
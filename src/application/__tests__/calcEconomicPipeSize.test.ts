@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { calcEconomicPipeSize } from '../calcEconomicPipeSize';
+import { CalcEconomicPipeSizeInput } from '../types';
+import { PipeSpec, PipeMaterial } from '@domain/types';
+import { getWaterProperties, WaterData } from '@domain/fluid/waterProperties';
+import { calcEconomicDiameter } from '@domain/system/economicDiameter';
+import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+
+import waterJson from '@data/fluid-properties/water.json';
+import darby3kJson from '@data/fittings-db/darby-3k.json';
+import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+
+const waterData = waterJson as unknown as WaterData;
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+function sch40(nps: string, dn: number, od_mm: number, wall_mm: number, id_mm: number): PipeSpec {
+  return { standard: 'ASME B36.10M', nps, dn, od_mm, wall_mm, id_mm, schedule: '40' };
+}
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const input: CalcEconomicPipeSizeInput = {
+  temperature_c: 20,
+  flowRate_m3h: 20,
+  candidates: [
+    { pipe: sch40('2', 50, 60.3, 3.91, 52.50), installedCost_per_m: 115 },
+    { pipe: sch40('3', 80, 88.9, 5.49, 77.93), installedCost_per_m: 175 },
+  ],
+  material: carbonSteel,
+  length_m: 500,
+  fittings: [],
+  costs: {
+    pumpEfficiency: 0.7,
+    operatingHours_h_yr: 8000,
+    electricityPrice_per_kwh: 0.15,
+    discountRate: 0.05,
+    lifetime_yr: 20,
+  },
+};
+
+describe('calcEconomicPipeSize', () => {
+  it('should convert m³/h and default to water properties at the given temperature', () => {
+    const result = calcEconomicPipeSize(input, waterData, darby3kData, entranceExitData);
+    const expected = calcEconomicDiameter(
+      {
+        ...input,
+        fluid: getWaterProperties(20, waterData),
+        flowRate_m3s: 20 / 3600,
+      },
+      darby3kData, entranceExitData
+    );
+    expect(result.rows.map(r => r.totalCost)).toEqual(expected.rows.map(r => r.totalCost));
+    expect(result.optimumIndex).toBe(expected.optimumIndex);
+  });
+
+  it('should use the supplied fluid when given', () => {
+    const water = getWaterProperties(20, waterData);
+    const heavy = calcEconomicPipeSize(
+      { ...input, fluid: { ...water, density: water.density * 1.2 } },
+      waterData, darby3kData, entranceExitData
+    );
+    const base = calcEconomicPipeSize(input, waterData, darby3kData, entranceExitData);
+    expect(heavy.rows[0].dp_pa).toBeGreaterThan(base.rows[0].dp_pa);
+  });
+});
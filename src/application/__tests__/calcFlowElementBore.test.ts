@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { calcFlowElementBore } from '../calcFlowElementBore';
+import { calcSingleSegment } from '../calcSingleSegment';
+import { PipeSpec, PipeMaterial } from '@domain/types';
+import { WaterData } from '@domain/fluid/waterProperties';
+import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+
+import waterJson from '@data/fluid-properties/water.json';
+import darby3kJson from '@data/fittings-db/darby-3k.json';
+import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+
+const waterData = waterJson as unknown as WaterData;
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+const pipe4inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '4',
+  dn: 100,
+  od_mm: 114.3,
+  wall_mm: 6.02,
+  id_mm: 102.26,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+describe('calcFlowElementBore', () => {
+  it('should size a bore that reproduces the target dp when used as a fitting at maximum flow', () => {
+    const sized = calcFlowElementBore(
+      { elementId: 'orifice_flange', pipe: pipe4inch, temperature_c: 20, maxFlowRate_m3h: 40, targetDp_kpa: 25 },
+      waterData
+    );
+    expect(sized.beta).toBeGreaterThan(0.1);
+    expect(sized.beta).toBeLessThan(0.75);
+
+    const res = calcSingleSegment(
+      {
+        temperature_c: 20, pipe: pipe4inch, material: carbonSteel, flowRate_m3h: 40, length_m: 0, elevation_m: 0,
+        fittings: [{ fittingId: 'orifice_flange', quantity: 1, boreDiameter_mm: sized.bore_mm }],
+      },
+      waterData, darby3kData, entranceExitData
+    );
+    const detail = res.fittingDetails[0].flowElement!;
+    expect(detail.measuredDp_pa).toBeCloseTo(25000, 3);
+    expect(res.dp_fittings).toBeCloseTo(detail.permanentLoss_pa, 6);
+  });
+
+  it('should reject a fitting id that is not a flow element', () => {
+    expect(() => calcFlowElementBore(
+      { elementId: 'elbow_90_lr_welded', pipe: pipe4inch, temperature_c: 20, maxFlowRate_m3h: 40, targetDp_kpa: 25 },
+      waterData
+    )).toThrow('Not a flow element');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { calcGasSegment } from '../calcGasSegment';
+import { CalcGasSegmentInput } from '../types';
+import { PipeSpec, PipeMaterial } from '@domain/types';
+import { GasData, calcNormalDensity } from '@domain/fluid/gasProperties';
+import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+
+import gasesJson from '@data/fluid-properties/gases.json';
+import darby3kJson from '@data/fittings-db/darby-3k.json';
+import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+
+const gasData = gasesJson as unknown as GasData;
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+// 2" Sch40 ANSI pipe
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const baseInput: CalcGasSegmentInput = {
+  gasId: 'air',
+  temperature_c: 20,
+  inletPressure_kpa: 700,
+  flowRate_Nm3h: 300,
+  pipe: pipe2inch,
+  material: carbonSteel,
+  length_m: 100,
+  elevation_m: 0,
+  fittings: [{ fittingId: 'elbow_90_lr_welded', quantity: 2 }],
+  flowModel: 'isothermal',
+};
+
+describe('calcGasSegment', () => {
+  it('should convert Nm³/h to mass flow using the normal density', () => {
+    const result = calcGasSegment(baseInput, gasData, darby3kData, entranceExitData);
+    const air = gasData.gases.find(g => g.id === 'air')!;
+    expect(result.massFlow_kg_s).toBeCloseTo(300 * calcNormalDensity(air) / 3600, 10);
+    // 300 Nm³/h ≈ 0.108 kg/s
+    expect(result.massFlow_kg_s).toBeCloseTo(0.108, 3);
+  });
+
+  it('should carry the gas data reference', () => {
+    const result = calcGasSegment(baseInput, gasData, darby3kData, entranceExitData);
+    expect(result.references.some(r => r.source === gasData.referenceId)).toBe(true);
+    expect(result.inletPressure_kpa).toBe(700);
+    expect(result.outletPressure_kpa).toBeLessThan(700);
+  });
+
+  it('should give a larger pressure drop for natural gas at equal mass flow when velocity is higher', () => {
+    const air = calcGasSegment(baseInput, gasData, darby3kData, entranceExitData);
+    const methane = calcGasSegment({ ...baseInput, gasId: 'methane' }, gasData, darby3kData, entranceExitData);
+    // 同じ Nm³/h では質量流量が小さいが密度も小さい → 体積流速は同一、ΔP は密度比でおおむね小さい
+    expect(methane.inletVelocity_m_s).toBeCloseTo(air.inletVelocity_m_s, 1);
+    expect(methane.dp_flow).toBeLessThan(air.dp_flow);
+  });
+
+  it('should throw for an unknown gas id', () => {
+    expect(() => calcGasSegment({ ...baseInput, gasId: 'argon' }, gasData, darby3kData, entranceExitData)).toThrow('Unknown gas');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { calcMultiSegment } from '../calcMultiSegment';
+import { calcMultiSegment, calcMultiSegmentSystemCurve } from '../calcMultiSegment';
 import { calcSingleSegment } from '../calcSingleSegment';
 import { CalcMultiSegmentInput, SegmentDefinition } from '../types';
 import { PipeSpec, PipeMaterial } from '@domain/types';
@@ -118,4 +118,55 @@ describe('calcMultiSegment', () => {
     expect(result80C.segmentResults[0].reynolds).toBeGreaterThan(100000);
     expect(result80C.segmentResults[0].flowRegime).toBe('turbulent');
   });
+
+  it('should march temperature with the water table when a heat-loss model is given', () => {
+    const seg: SegmentDefinition = { pipe: pipe2inch, material: carbonSteel, length_m: 300, elevation_m: 0, fittings: [] };
+    const heatLoss = {
+      ambientTemperature_c: 0, insulationThickness_mm: 25, insulationConductivity_w_mk: 0.04, outerFilmCoefficient_w_m2k: 10,
+    };
+
+    const result = calcMultiSegment(
+      { temperature_c: 80, flowRate_m3h: 1, segments: [seg, seg], heatLoss },
+      waterData, darby3kData, entranceExitData
+    );
+
+    expect(result.outletTemperature_c).toBeLessThan(80);
+    expect(result.heatLoss_total_w).toBeGreaterThan(0);
+    expect(result.segmentResults[1].thermal!.inletTemperature_c)
+      .toBeCloseTo(result.segmentResults[0].thermal!.outletTemperature_c, 10);
+  });
+
+  it('should require a property resolver for a custom fluid with heat loss', () => {
+    const seg: SegmentDefinition = { pipe: pipe2inch, material: carbonSteel, length_m: 10, elevation_m: 0, fittings: [] };
+    const fluid = { density: 1050, viscosity: 3e-3, temperature: 40, pressure: 101.325, reference: { source: 'test' } };
+    const heatLoss = {
+      ambientTemperature_c: 0, insulationThickness_mm: 25, insulationConductivity_w_mk: 0.04, outerFilmCoefficient_w_m2k: 10,
+    };
+
+    expect(() => calcMultiSegment(
+      { temperature_c: 40, flowRate_m3h: 1, segments: [seg], fluid, heatLoss },
+      waterData, darby3kData, entranceExitData
+    )).toThrow('resolveFluid');
+  });
+});
+
+describe('calcMultiSegmentSystemCurve', () => {
+  it('re-evaluates the system at the design flow to the same head', () => {
+    const input: CalcMultiSegmentInput = {
+      temperature_c: 20,
+      flowRate_m3h: 10,
+      segments: [
+        { pipe: pipe2inch, material: carbonSteel, length_m: 30, elevation_m: 3, fittings: [{ fittingId: 'elbow_90_lr_welded', quantity: 2 }] },
+        { pipe: pipe3inch, material: carbonSteel, length_m: 50, elevation_m: 2, fittings: [] },
+      ],
+    };
+    const res = calcMultiSegment(input, waterData, darby3kData, entranceExitData);
+    const curve = calcMultiSegmentSystemCurve(input, waterData, darby3kData, entranceExitData);
+
+    expect(curve[0].head_m).toBeCloseTo(res.head_elevation_total_m, 10);
+    const atDesign = curve.find(p => Math.abs(p.flow_m3h - 10) < 1e-9)!;
+    expect(atDesign.head_m).toBeCloseTo(
+      res.head_elevation_total_m + res.head_friction_total_m + res.head_fittings_total_m, 10
+    );
+  });
 });
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { calcPipeSizing } from '../calcPipeSizing';
+import { calcSingleSegment } from '../calcSingleSegment';
+import { CalcPipeSizingInput } from '../types';
+import { PipeSpec, PipeMaterial } from '@domain/types';
+import { WaterData } from '@domain/fluid/waterProperties';
+import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+
+import waterJson from '@data/fluid-properties/water.json';
+import darby3kJson from '@data/fittings-db/darby-3k.json';
+import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+
+const waterData = waterJson as unknown as WaterData;
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+function sch40(nps: string, dn: number, od_mm: number, wall_mm: number, id_mm: number): PipeSpec {
+  return { standard: 'ASME B36.10M', nps, dn, od_mm, wall_mm, id_mm, schedule: '40' };
+}
+
+const pipe1inch = sch40('1', 25, 33.4, 3.38, 26.64);
+const pipe2inch = sch40('2', 50, 60.3, 3.91, 52.50);
+const pipe2_5inch = sch40('2-1/2', 65, 73.0, 5.16, 62.68);
+const pipe3inch = sch40('3', 80, 88.9, 5.49, 77.93);
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const baseInput: CalcPipeSizingInput = {
+  temperature_c: 20,
+  flowRate_m3h: 20,
+  candidates: [pipe3inch, pipe1inch, pipe2_5inch, pipe2inch],
+  material: carbonSteel,
+  criteria: { maxVelocity_m_s: 3, maxDpPer100m_kpa: 40 },
+};
+
+describe('calcPipeSizing', () => {
+  it('should rank candidates from the smallest inner diameter', () => {
+    const result = calcPipeSizing(baseInput, waterData, darby3kData, entranceExitData);
+    expect(result.rows.map(r => r.pipe.nps)).toEqual(['1', '2', '2-1/2', '3']);
+    for (let i = 1; i < result.rows.length; i++) {
+      expect(result.rows[i].velocity_m_s).toBeLessThan(result.rows[i - 1].velocity_m_s);
+      expect(result.rows[i].dpPer100m_pa).toBeLessThan(result.rows[i - 1].dpPer100m_pa);
+    }
+  });
+
+  it('should report the friction loss of a 100 m straight run', () => {
+    const result = calcPipeSizing(baseInput, waterData, darby3kData, entranceExitData);
+    const single = calcSingleSegment(
+      {
+        temperature_c: 20, pipe: pipe2inch, material: carbonSteel, flowRate_m3h: 20,
+        length_m: 100, elevation_m: 0, fittings: [],
+      },
+      waterData, darby3kData, entranceExitData
+    );
+    const row = result.rows[1];
+    expect(row.velocity_m_s).toBeCloseTo(single.velocity_m_s, 10);
+    expect(row.reynolds).toBeCloseTo(single.reynolds, 6);
+    expect(row.dpPer100m_pa).toBeCloseTo(single.dp_friction, 6);
+  });
+
+  it('should recommend the smallest size meeting both velocity and dp limits', () => {
+    const result = calcPipeSizing(baseInput, waterData, darby3kData, entranceExitData);
+    // 2" は流速 ≈ 2.6 m/s だが圧損 > 40 kPa/100m、2-1/2" も圧損超過
+    expect(result.rows[1].velocity_m_s).toBeLessThan(3);
+    expect(result.rows[1].meetsCriteria).toBe(false);
+    expect(result.recommendedIndex).toBe(3);
+    expect(result.rows[3].pipe.nps).toBe('3');
+    expect(result.rows[3].meetsCriteria).toBe(true);
+  });
+
+  it('should be governed by velocity when the dp limit is loose', () => {
+    const result = calcPipeSizing(
+      { ...baseInput, criteria: { maxVelocity_m_s: 3, maxDpPer100m_kpa: 1000 } },
+      waterData, darby3kData, entranceExitData
+    );
+    expect(result.rows[result.recommendedIndex!].pipe.nps).toBe('2');
+  });
+
+  it('should return null when no candidate meets the criteria', () => {
+    const result = calcPipeSizing(
+      { ...baseInput, flowRate_m3h: 500 },
+      waterData, darby3kData, entranceExitData
+    );
+    expect(result.recommendedIndex).toBeNull();
+    expect(result.rows.every(r => !r.meetsCriteria)).toBe(true);
+  });
+
+  it('should carry segment warnings for each candidate', () => {
+    const result = calcPipeSizing(baseInput, waterData, darby3kData, entranceExitData);
+    expect(result.rows[0].warnings.some(w => w.messageKey === 'warn.high_velocity')).toBe(true);
+    expect(result.rows[3].warnings.some(w => w.messageKey === 'warn.high_velocity')).toBe(false);
+  });
+
+  it('should throw for non-positive flow rate', () => {
+    expect(() => calcPipeSizing({ ...baseInput, flowRate_m3h: 0 }, waterData, darby3kData, entranceExitData))
+      .toThrow('Flow rate must be positive');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { calcRoute } from '../calcRoute';
+import { calcRouteSurge } from '../calcRouteSurge';
+import { CalcRouteInput } from '../types';
+import { PipeSpec, PipeMaterial } from '@domain/types';
+import { WaterData, getWaterProperties } from '@domain/fluid/waterProperties';
+import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { PipeWallElasticity, SurgeConditions } from '@domain/transient/types';
+
+import waterJson from '@data/fluid-properties/water.json';
+import darby3kJson from '@data/fittings-db/darby-3k.json';
+import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+
+const waterData = waterJson as unknown as WaterData;
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const steelWall: PipeWallElasticity = {
+  elasticModulus_pa: 207e9,
+  poissonRatio: 0.3,
+  reference: { source: 'Wylie & Streeter, 1993' },
+};
+
+const conditions: SurgeConditions = {
+  closureTime_s: 2,
+  operatingPressure_kpa: 300,
+  designPressure_kpa: 1000,
+  bulkModulus_gpa: 2.19,
+  anchorage: 'anchored',
+};
+
+const routeInput: CalcRouteInput = {
+  temperature_c: 20,
+  flowRate_m3h: 10,
+  route: {
+    nodes: [
+      { id: 'A', position: { x: 0, y: 0, z: 0 }, additionalFittings: [] },
+      { id: 'B', position: { x: 300, y: 0, z: 0 }, additionalFittings: [] },
+      { id: 'C', position: { x: 300, y: 400, z: 0 }, additionalFittings: [] },
+    ],
+  },
+  pipe: pipe2inch,
+  material: carbonSteel,
+  conversionConfig: { elbowConnection: 'welded', use90LongRadius: true },
+};
+
+describe('calcRouteSurge', () => {
+  const routeResult = calcRoute(routeInput, waterData, darby3kData, entranceExitData);
+  const fluid = getWaterProperties(20, waterData);
+
+  it('should use the total route length and the outlet velocity', () => {
+    const r = calcRouteSurge({ route: routeInput.route, pipe: pipe2inch, wall: steelWall, fluid, conditions }, routeResult);
+    // L = 300 + 400 = 700 m
+    expect(r.period_s).toBeCloseTo(1400 / r.waveSpeed_m_s, 10);
+    const v = routeResult.segmentResults[1].velocity_m_s;
+    expect(r.joukowskySurge_pa).toBeCloseTo(fluid.density * r.waveSpeed_m_s * v, 6);
+  });
+
+  it('should switch to slow closure when tc exceeds 2L/a', () => {
+    const rapid = calcRouteSurge({ route: routeInput.route, pipe: pipe2inch, wall: steelWall, fluid, conditions: { ...conditions, closureTime_s: 0.5 } }, routeResult);
+    const slow = calcRouteSurge({ route: routeInput.route, pipe: pipe2inch, wall: steelWall, fluid, conditions: { ...conditions, closureTime_s: 10 } }, routeResult);
+    expect(rapid.closureType).toBe('rapid');
+    expect(slow.closureType).toBe('slow');
+    expect(slow.surge_pa).toBeLessThan(rapid.surge_pa);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { calcRoute } from '../calcRoute';
+import { calcRouteTransient } from '../calcRouteTransient';
+import { CalcRouteInput } from '../types';
+import { PipeSpec, PipeMaterial } from '@domain/types';
+import { WaterData, getWaterProperties } from '@domain/fluid/waterProperties';
+import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { PipeWallElasticity, TransientSettings } from '@domain/transient/types';
+
+import waterJson from '@data/fluid-properties/water.json';
+import darby3kJson from '@data/fittings-db/darby-3k.json';
+import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+
+const waterData = waterJson as unknown as WaterData;
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const steelWall: PipeWallElasticity = {
+  elasticModulus_pa: 207e9,
+  poissonRatio: 0.3,
+  reference: { source: 'Wylie & Streeter, 1993' },
+};
+
+const routeInput: CalcRouteInput = {
+  temperature_c: 20,
+  flowRate_m3h: 10,
+  route: {
+    nodes: [
+      { id: 'A', position: { x: 0, y: 0, z: 0 }, additionalFittings: [] },
+      { id: 'B', position: { x: 200, y: 0, z: 0 }, additionalFittings: [] },
+      { id: 'C', position: { x: 200, y: 0, z: 10 }, additionalFittings: [] },
+    ],
+  },
+  pipe: pipe2inch,
+  material: carbonSteel,
+  conversionConfig: { elbowConnection: 'welded', use90LongRadius: true },
+};
+
+const settings: TransientSettings = {
+  scenario: { type: 'valve_closure', upstreamHead_m: 60, downstreamHead_m: 10, closureTime_s: 5, closureExponent: 1 },
+  duration_s: 10,
+  bulkModulus_gpa: 2.19,
+  anchorage: 'anchored',
+  designPressure_kpa: 1000,
+};
+
+describe('calcRouteTransient', () => {
+  const routeResult = calcRoute(routeInput, waterData, darby3kData, entranceExitData);
+  const fluid = getWaterProperties(20, waterData);
+
+  it('should start from a steady HGL matching the route friction and fitting losses', () => {
+    const r = calcRouteTransient({ route: routeInput.route, pipe: pipe2inch, wall: steelWall, fluid, vaporPressure_kpa: fluid.pressure, settings }, routeResult);
+    const first = r.nodes[0];
+    const last = r.nodes[r.nodes.length - 1];
+    expect(first.steadyHead_m - last.steadyHead_m)
+      .toBeCloseTo(routeResult.head_friction_total_m + routeResult.head_fittings_total_m, 6);
+  });
+
+  it('should place grid points along both straight runs including the riser', () => {
+    const r = calcRouteTransient({ route: routeInput.route, pipe: pipe2inch, wall: steelWall, fluid, vaporPressure_kpa: fluid.pressure, settings }, routeResult);
+    const last = r.nodes[r.nodes.length - 1];
+    expect(last.distance_m).toBeCloseTo(210, 6);
+    expect(last.elevation_m).toBeCloseTo(10, 6);
+    expect(r.nodes.find(n => n.routeNodeIndex === 1)!.distance_m).toBeCloseTo(200, 6);
+  });
+});
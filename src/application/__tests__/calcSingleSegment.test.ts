@@ -3,15 +3,17 @@ import { calcSingleSegment } from '../calcSingleSegment';
 import { CalcSingleSegmentInput } from '../types';
 import { PipeSpec, PipeMaterial, GRAVITY } from '@domain/types';
 import { WaterData } from '@domain/fluid/waterProperties';
-import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { Darby3KData, EntranceExitData, CraneData } from '@domain/fittings/fittingLoss';
 
 import waterJson from '@data/fluid-properties/water.json';
 import darby3kJson from '@data/fittings-db/darby-3k.json';
 import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+import craneJson from '@data/fittings-db/crane-tp410.json';
 
 const waterData = waterJson as unknown as WaterData;
 const darby3kData = darby3kJson as unknown as Darby3KData;
 const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+const craneData = craneJson as unknown as CraneData;
 
 // 2" Sch40 ANSI pipe (same as pressureDrop.test.ts)
 const pipe2inch: PipeSpec = {
@@ -97,4 +99,44 @@ describe('calcSingleSegment', () => {
     expect(result.dp_fittings).toBeGreaterThan(1000);
     expect(result.dp_fittings).toBeLessThan(1500);
   });
+
+  it('should pass the selected friction method through to the domain', () => {
+    const input: CalcSingleSegmentInput = {
+      temperature_c: 20,
+      pipe: pipe2inch,
+      material: carbonSteel,
+      flowRate_m3h: 10,
+      length_m: 50,
+      elevation_m: 0,
+      fittings: [],
+      frictionMethod: 'haaland',
+    };
+
+    const result = calcSingleSegment(input, waterData, darby3kData, entranceExitData);
+
+    expect(result.frictionFactorMethod).toBe('haaland');
+    expect(result.references.some(r => r.source.includes('Haaland'))).toBe(true);
+  });
+
+  it('should resolve fittings with Crane L/D when selected', () => {
+    const input: CalcSingleSegmentInput = {
+      temperature_c: 20,
+      pipe: pipe2inch,
+      material: carbonSteel,
+      flowRate_m3h: 10,
+      length_m: 50,
+      elevation_m: 0,
+      fittings: [{ fittingId: 'valve_globe_full', quantity: 1 }],
+      fittingMethod: 'l_over_d',
+    };
+
+    const crane = calcSingleSegment(input, waterData, darby3kData, entranceExitData, craneData);
+    const darby = calcSingleSegment({ ...input, fittingMethod: undefined }, waterData, darby3kData, entranceExitData);
+
+    expect(crane.fittingDetails[0].method).toBe('l_over_d');
+    expect(crane.references.some(r => r.source.includes('Crane'))).toBe(true);
+    expect(darby.fittingDetails[0].method).toBe('3k');
+    // 直管損失は継手手法に依存しない
+    expect(crane.dp_friction).toBeCloseTo(darby.dp_friction, 6);
+  });
 });
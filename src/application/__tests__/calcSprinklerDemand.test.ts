@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { calcSprinklerDemand } from '../calcSprinklerDemand';
+import { CalcSprinklerDemandInput } from '../types';
+import { PipeSpec, PipeMaterial } from '@domain/types';
+import { getWaterProperties, WaterData } from '@domain/fluid/waterProperties';
+import { calcSprinklerSystem } from '@domain/sprinkler/sprinklerHydraulics';
+import { SprinklerFittingData } from '@domain/sprinkler/types';
+
+import waterJson from '@data/fluid-properties/water.json';
+import fittingJson from '@data/fittings-db/nfpa13-equivalent-length.json';
+
+const waterData = waterJson as unknown as WaterData;
+const fittingData = fittingJson as unknown as SprinklerFittingData;
+
+const pipe1inch: PipeSpec = {
+  standard: 'ASME B36.10M', nps: '1', dn: 25, od_mm: 33.4, wall_mm: 3.38, id_mm: 26.64, schedule: '40',
+};
+
+const blackSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  hazenWilliamsC: 120,
+  reference: { source: 'Moody, 1944' },
+};
+
+const input: CalcSprinklerDemandInput = {
+  temperature_c: 15,
+  nodes: [{ id: 'S', elevation_m: 0 }, { id: 'A', elevation_m: 4 }],
+  pipes: [{ id: 'P1', upstreamNodeId: 'S', downstreamNodeId: 'A', pipe: pipe1inch, length_m: 6, fittings: [{ type: 'elbow_90', quantity: 2 }] }],
+  heads: [{ id: 'H1', nodeId: 'A', kFactor: 80, minPressure_kpa: 50, coverageArea_m2: 12 }],
+  supplyNodeId: 'S',
+  material: blackSteel,
+  design: { density_mm_min: 5, areaOfOperation_m2: 12, hoseAllowance_lpm: 0 },
+};
+
+describe('calcSprinklerDemand', () => {
+  it('should use water properties at the given temperature', () => {
+    const result = calcSprinklerDemand(input, waterData, fittingData);
+    const { temperature_c: _t, ...system } = input;
+    const expected = calcSprinklerSystem({ ...system, fluid: getWaterProperties(15, waterData) }, fittingData);
+    expect(result.requiredPressure_kpa).toBeCloseTo(expected.requiredPressure_kpa, 10);
+    expect(result.references).toContainEqual(getWaterProperties(15, waterData).reference);
+  });
+});
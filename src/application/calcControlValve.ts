@@ -0,0 +1,43 @@
+/**
+ * 調節弁サイジングユースケース
+ *
+ * calcMultiSegment の結果（弁以外の系統損失）と流体物性から、
+ * IEC 60534-2-1 による必要 Cv・カタログ選定・弁オーソリティをドメイン計算で評価する。
+ *
+ * 依存: domain/ のみ（レイヤールール遵守）
+ */
+
+import { SystemResult } from '@domain/types';
+import { ControlValveCatalog, ControlValveSizingResult } from '@domain/valve/types';
+import { sizeControlValve } from '@domain/valve/controlValveSizing';
+import { CalcControlValveInput } from './types';
+
+/**
+ * 系統に設置する液体用調節弁をサイジングする
+ *
+ * 弁オーソリティの系統損失には流量に依存する直管・継手損失のみを用い、
+ * 位置損失（静水頭）は含めない。
+ *
+ * @param input - ユーザー入力（flowRate_m3h, fluid は calcMultiSegment と共通、蒸気圧は別途指定）
+ * @param systemResult - 弁を除いた系統の calcMultiSegment 結果
+ * @param catalog - 調節弁カタログ
+ * @returns ControlValveSizingResult
+ */
+export function calcControlValve(
+  input: CalcControlValveInput,
+  systemResult: SystemResult,
+  catalog: ControlValveCatalog
+): ControlValveSizingResult {
+  const systemDp_kpa = (systemResult.dp_friction_total + systemResult.dp_fittings_total) / 1000;
+
+  return sizeControlValve(
+    {
+      flowRate_m3h: input.flowRate_m3h,
+      density: input.fluid.density,
+      vaporPressure_kpa: input.vaporPressure_kpa,
+      systemDp_kpa,
+      conditions: input.conditions,
+    },
+    catalog
+  );
+}
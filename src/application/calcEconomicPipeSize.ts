@@ -0,0 +1,51 @@
+/**
+ * 経済口径ユースケース
+ *
+ * ユーザー入力 (CalcEconomicPipeSizeInput) を受け取り、
+ * 流体物性取得 → 単位変換 → ライフサイクルコスト比較を実行する。
+ *
+ * 依存: domain/ のみ（レイヤールール遵守）
+ */
+
+import { getWaterProperties, WaterData } from '@domain/fluid/waterProperties';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '@domain/fittings/fittingLoss';
+import { flowRateToM3s } from '@domain/system/unitConversion';
+import { calcEconomicDiameter, EconomicDiameterResult } from '@domain/system/economicDiameter';
+import { CalcEconomicPipeSizeInput } from './types';
+
+/**
+ * 候補口径のライフサイクルコストを比較して経済口径を求める
+ *
+ * @param input - ユーザー入力（candidates, material は解決済み）
+ * @param waterData - 水物性データ
+ * @param darby3kData - Darby 3-K 継手データ
+ * @param entranceExitData - 入口/出口K値データ
+ * @param craneData - Crane L/D 継手データ（fittingMethod = 'l_over_d' の場合に必須）
+ * @param hooperData - Hooper 2-K 継手データ（fittingMethod = '2k' の場合に必須）
+ * @returns EconomicDiameterResult
+ */
+export function calcEconomicPipeSize(
+  input: CalcEconomicPipeSizeInput,
+  waterData: WaterData,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): EconomicDiameterResult {
+  const fluid = input.fluid ?? getWaterProperties(input.temperature_c, waterData);
+
+  return calcEconomicDiameter(
+    {
+      candidates: input.candidates,
+      material: input.material,
+      fluid,
+      flowRate_m3s: flowRateToM3s(input.flowRate_m3h, 'm3/h'),
+      length_m: input.length_m,
+      fittings: input.fittings,
+      frictionMethod: input.frictionMethod,
+      fittingMethod: input.fittingMethod,
+      costs: input.costs,
+    },
+    darby3kData, entranceExitData, craneData, hooperData
+  );
+}
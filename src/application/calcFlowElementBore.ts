@@ -0,0 +1,41 @@
+/**
+ * 差圧式流量計の絞り径選定ユースケース
+ *
+ * 最大流量で目標差圧となるオリフィス・ノズル・ベンチュリの絞り径を
+ * ISO 5167 の流出係数から逆算する。
+ *
+ * 依存: domain/ のみ（レイヤールール遵守）
+ */
+
+import { FlowElementDetail } from '@domain/types';
+import { WaterData, getWaterProperties } from '@domain/fluid/waterProperties';
+import { calcFlowArea, calcVelocity, calcReynolds } from '@domain/pipe/pipeGeometry';
+import { calcNonNewtonianFlow } from '@domain/pipe/nonNewtonian';
+import { findFlowElement, sizeFlowElementBore } from '@domain/fittings/flowElement';
+import { flowRateToM3s } from '@domain/system/unitConversion';
+import { CalcFlowElementBoreInput } from './types';
+
+/**
+ * 最大流量・目標差圧から流量計の絞り径を求める
+ *
+ * @param input - ユーザー入力（pipe は解決済み）
+ * @param waterData - 水物性データ（fluid 未指定時に使用）
+ * @returns 求めた絞り径での FlowElementDetail
+ */
+export function calcFlowElementBore(
+  input: CalcFlowElementBoreInput,
+  waterData: WaterData
+): FlowElementDetail {
+  const element = findFlowElement(input.elementId);
+  if (!element) throw new Error(`Not a flow element: ${input.elementId}`);
+
+  const fluid = input.fluid ?? getWaterProperties(input.temperature_c, waterData);
+  const flowRate_m3s = flowRateToM3s(input.maxFlowRate_m3h, 'm3/h');
+  const velocity = calcVelocity(flowRate_m3s, calcFlowArea(input.pipe.id_mm));
+  // 区間計算と同じく、非ニュートン流体は一般化 Re を用いる
+  const reynolds = fluid.rheology
+    ? calcNonNewtonianFlow(fluid.rheology, fluid.density, velocity, input.pipe.id_mm).reynolds
+    : calcReynolds(fluid.density, velocity, input.pipe.id_mm / 1000, fluid.viscosity);
+
+  return sizeFlowElementBore(element, input.pipe.id_mm, flowRate_m3s, fluid.density, reynolds, input.targetDp_kpa * 1000);
+}
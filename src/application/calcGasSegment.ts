@@ -0,0 +1,56 @@
+/**
+ * 気体区間計算ユースケース
+ *
+ * ユーザー入力 (CalcGasSegmentInput) を受け取り、
+ * 気体物性取得 → ノルマル流量の質量流量換算 → GasSegmentInput 組立 → ドメイン計算を実行する。
+ *
+ * 依存: domain/ のみ（レイヤールール遵守）
+ */
+
+import { GasSegmentInput, GasSegmentResult } from '@domain/types';
+import { getGasProperties, calcNormalDensity, GasData } from '@domain/fluid/gasProperties';
+import { calcGasSegmentPressureDrop } from '@domain/system/gasPressureDrop';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '@domain/fittings/fittingLoss';
+import { CalcGasSegmentInput } from './types';
+
+/**
+ * 気体区間の圧損計算を実行する
+ *
+ * @param input - ユーザー入力（pipe, material は解決済み）
+ * @param gasData - 気体物性データ
+ * @param darby3kData - Darby 3-K 継手データ
+ * @param entranceExitData - 入口/出口K値データ
+ * @param craneData - Crane L/D 継手データ（fittingMethod = 'l_over_d' の場合に必須）
+ * @param hooperData - Hooper 2-K 継手データ（fittingMethod = '2k' の場合に必須）
+ * @returns GasSegmentResult
+ */
+export function calcGasSegment(
+  input: CalcGasSegmentInput,
+  gasData: GasData,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): GasSegmentResult {
+  // 1. 気体物性を取得（入口温度・入口圧力）
+  const entry = gasData.gases.find(g => g.id === input.gasId);
+  if (!entry) throw new Error(`Unknown gas: ${input.gasId}`);
+  const gas = getGasProperties(input.temperature_c, input.inletPressure_kpa, entry, { source: gasData.referenceId });
+
+  // 2. GasSegmentInput を組み立て（Nm³/h → kg/s 変換）
+  const segmentInput: GasSegmentInput = {
+    pipe: input.pipe,
+    material: input.material,
+    gas,
+    massFlow_kg_s: input.flowRate_Nm3h * calcNormalDensity(entry) / 3600,
+    length_m: input.length_m,
+    elevation_m: input.elevation_m,
+    fittings: input.fittings,
+    flowModel: input.flowModel,
+    frictionMethod: input.frictionMethod,
+    fittingMethod: input.fittingMethod,
+  };
+
+  // 3. ドメイン計算を実行
+  return calcGasSegmentPressureDrop(segmentInput, darby3kData, entranceExitData, craneData, hooperData);
+}
@@ -3,14 +3,18 @@
  *
  * ユーザー入力 (CalcMultiSegmentInput) を受け取り、
  * 流体物性取得 → SystemInput 組立 → ドメイン計算を実行する。
+ * heatLoss 指定時は区間ごとの温度変化と物性更新をドメイン計算に委ねる。
+ * ポンプ選定用に、同じ入力を流量ごとに再計算した系統抵抗曲線も提供する。
  *
  * 依存: domain/ のみ（レイヤールール遵守）
  */
 
-import { SystemInput, SystemResult } from '@domain/types';
+import { SystemInput, SystemResult, SystemThermalInput } from '@domain/types';
 import { getWaterProperties, WaterData } from '@domain/fluid/waterProperties';
 import { calcSystemPressureDrop } from '@domain/system/systemPressureDrop';
-import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { ResistanceCurvePoint } from '@domain/system/pumpSelection';
+import { calcSystemCurve } from '@domain/system/systemCurve';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '@domain/fittings/fittingLoss';
 import { flowRateToM3s } from '@domain/system/unitConversion';
 import { CalcMultiSegmentInput } from './types';
 
@@ -21,23 +25,56 @@ import { CalcMultiSegmentInput } from './types';
  * @param waterData - 水物性データ
  * @param darby3kData - Darby 3-K 継手データ
  * @param entranceExitData - 入口/出口K値データ
+ * @param craneData - Crane L/D 継手データ（fittingMethod = 'l_over_d' の場合に必須）
+ * @param hooperData - Hooper 2-K 継手データ（fittingMethod = '2k' の場合に必須）
  * @returns SystemResult
  */
 export function calcMultiSegment(
   input: CalcMultiSegmentInput,
   waterData: WaterData,
   darby3kData: Darby3KData,
-  entranceExitData: EntranceExitData
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
 ): SystemResult {
+  return calcSystemPressureDrop(buildSystemInput(input, waterData), darby3kData, entranceExitData, craneData, hooperData);
+}
+
+/**
+ * マルチセグメントの系統抵抗曲線を流量ごとの再計算で生成する
+ *
+ * @param input - ユーザー入力（flowRate_m3h を設計流量とする）
+ * @returns 設計流量の 1.5 倍までの抵抗曲線
+ */
+export function calcMultiSegmentSystemCurve(
+  input: CalcMultiSegmentInput,
+  waterData: WaterData,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): ResistanceCurvePoint[] {
+  return calcSystemCurve(buildSystemInput(input, waterData), darby3kData, entranceExitData, craneData, hooperData);
+}
+
+function buildSystemInput(input: CalcMultiSegmentInput, waterData: WaterData): SystemInput {
   // 1. 流体物性を取得（input.fluid 指定時はそれを使用、なければ水物性テーブルから補間）
   const fluid = input.fluid ?? getWaterProperties(input.temperature_c, waterData);
 
+  // 熱損失モデル指定時の物性再取得（水物性テーブル以外の流体は resolveFluid が必須）
+  if (input.heatLoss && input.fluid && !input.resolveFluid) {
+    throw new Error('resolveFluid is required when heatLoss is used with a custom fluid');
+  }
+  const thermal: SystemThermalInput | undefined = input.heatLoss
+    ? { heatLoss: input.heatLoss, resolveFluid: input.resolveFluid ?? (t => getWaterProperties(t, waterData)) }
+    : undefined;
+
   // 2. 流量変換（系統共通）
   const flowRate_m3s = flowRateToM3s(input.flowRate_m3h, 'm3/h');
 
   // 3. SystemInput を組み立て
-  const systemInput: SystemInput = {
-    segments: input.segments.map(seg => ({
+  return {
+    segments: input.segments.map((seg, i) => ({
       pipe: seg.pipe,
       material: seg.material,
       fluid,
@@ -45,9 +82,14 @@ export function calcMultiSegment(
       length_m: seg.length_m,
       elevation_m: seg.elevation_m,
       fittings: seg.fittings,
+      frictionMethod: input.frictionMethod,
+      fittingMethod: input.fittingMethod,
+      compareFittingMethods: input.compareFittingMethods,
+      // 内径が異なる区間の縮小・拡大損失は calcSystemPressureDrop が自動付加する
+      inletTransition: i > 0 && seg.transitionAngle_deg !== undefined
+        ? { upstream_id_mm: input.segments[i - 1].pipe.id_mm, angle_deg: seg.transitionAngle_deg }
+        : undefined,
     })),
+    thermal,
   };
-
-  // 4. ドメイン計算を実行
-  return calcSystemPressureDrop(systemInput, darby3kData, entranceExitData);
 }
@@ -0,0 +1,66 @@
+/**
+ * 口径選定ユースケース
+ *
+ * 候補口径ごとに直管 100 m（継手・高低差なし）の圧損を計算し、
+ * 流速と 100 m あたり圧損の上限を満たす最小口径を推奨する。
+ *
+ * 依存: domain/ のみ（レイヤールール遵守）
+ */
+
+import { WaterData } from '@domain/fluid/waterProperties';
+import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { calcSingleSegment } from './calcSingleSegment';
+import { CalcPipeSizingInput, PipeSizingResult, PipeSizingRow } from './types';
+
+/** 圧損評価の基準管長 (m) */
+const REFERENCE_LENGTH_M = 100;
+
+/**
+ * 候補口径を評価して小径順の一覧と推奨口径を返す
+ *
+ * @param input - ユーザー入力（candidates, material は解決済み）
+ * @param waterData - 水物性データ
+ * @param darby3kData - Darby 3-K 継手データ
+ * @param entranceExitData - 入口/出口K値データ
+ * @returns PipeSizingResult
+ */
+export function calcPipeSizing(
+  input: CalcPipeSizingInput,
+  waterData: WaterData,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData
+): PipeSizingResult {
+  const { criteria } = input;
+  if (input.flowRate_m3h <= 0) throw new Error('Flow rate must be positive');
+
+  const candidates = [...input.candidates].sort((a, b) => a.id_mm - b.id_mm);
+  const rows: PipeSizingRow[] = candidates.map(pipe => {
+    const res = calcSingleSegment(
+      {
+        temperature_c: input.temperature_c,
+        pipe,
+        material: input.material,
+        flowRate_m3h: input.flowRate_m3h,
+        length_m: REFERENCE_LENGTH_M,
+        elevation_m: 0,
+        fittings: [],
+        fluid: input.fluid,
+        frictionMethod: input.frictionMethod,
+      },
+      waterData, darby3kData, entranceExitData
+    );
+    return {
+      pipe,
+      velocity_m_s: res.velocity_m_s,
+      reynolds: res.reynolds,
+      flowRegime: res.flowRegime,
+      dpPer100m_pa: res.dp_friction,
+      meetsCriteria: res.velocity_m_s <= criteria.maxVelocity_m_s
+        && res.dp_friction <= criteria.maxDpPer100m_kpa * 1000,
+      warnings: res.warnings,
+    };
+  });
+
+  const recommendedIndex = rows.findIndex(r => r.meetsCriteria);
+  return { rows, recommendedIndex: recommendedIndex >= 0 ? recommendedIndex : null };
+}
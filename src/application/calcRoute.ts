@@ -3,14 +3,18 @@
  *
  * ユーザー入力 (CalcRouteInput) を受け取り、
  * 流体物性取得 → ルート → セグメント変換 → ドメイン計算を実行する。
+ * heatLoss 指定時は区間ごとの温度変化と物性更新をドメイン計算に委ねる。
+ * ポンプ選定用に、同じ入力を流量ごとに再計算した系統抵抗曲線も提供する。
  *
  * 依存: domain/ のみ（レイヤールール遵守）
  */
 
-import { SystemResult } from '@domain/types';
+import { SystemInput, SystemResult, SystemThermalInput } from '@domain/types';
 import { getWaterProperties, WaterData } from '@domain/fluid/waterProperties';
 import { calcSystemPressureDrop } from '@domain/system/systemPressureDrop';
-import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { ResistanceCurvePoint } from '@domain/system/pumpSelection';
+import { calcSystemCurve } from '@domain/system/systemCurve';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '@domain/fittings/fittingLoss';
 import { flowRateToM3s } from '@domain/system/unitConversion';
 import { convertRouteToSegments } from '@domain/route/routeToSegments';
 import { CalcRouteInput } from './types';
@@ -22,21 +26,54 @@ import { CalcRouteInput } from './types';
  * @param waterData - 水物性データ
  * @param darby3kData - Darby 3-K 継手データ
  * @param entranceExitData - 入口/出口K値データ
+ * @param craneData - Crane L/D 継手データ（fittingMethod = 'l_over_d' の場合に必須）
+ * @param hooperData - Hooper 2-K 継手データ（fittingMethod = '2k' の場合に必須）
  * @returns SystemResult
  */
 export function calcRoute(
   input: CalcRouteInput,
   waterData: WaterData,
   darby3kData: Darby3KData,
-  entranceExitData: EntranceExitData
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
 ): SystemResult {
+  return calcSystemPressureDrop(buildSystemInput(input, waterData), darby3kData, entranceExitData, craneData, hooperData);
+}
+
+/**
+ * ルートの系統抵抗曲線を流量ごとの再計算で生成する
+ *
+ * @param input - ユーザー入力（flowRate_m3h を設計流量とする）
+ * @returns 設計流量の 1.5 倍までの抵抗曲線
+ */
+export function calcRouteSystemCurve(
+  input: CalcRouteInput,
+  waterData: WaterData,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): ResistanceCurvePoint[] {
+  return calcSystemCurve(buildSystemInput(input, waterData), darby3kData, entranceExitData, craneData, hooperData);
+}
+
+function buildSystemInput(input: CalcRouteInput, waterData: WaterData): SystemInput {
   // 1. 流体物性を取得（input.fluid 指定時はそれを使用、なければ水物性テーブルから補間）
   const fluid = input.fluid ?? getWaterProperties(input.temperature_c, waterData);
 
+  // 熱損失モデル指定時の物性再取得（水物性テーブル以外の流体は resolveFluid が必須）
+  if (input.heatLoss && input.fluid && !input.resolveFluid) {
+    throw new Error('resolveFluid is required when heatLoss is used with a custom fluid');
+  }
+  const thermal: SystemThermalInput | undefined = input.heatLoss
+    ? { heatLoss: input.heatLoss, resolveFluid: input.resolveFluid ?? (t => getWaterProperties(t, waterData)) }
+    : undefined;
+
   // 2. 流量変換
   const flowRate_m3s = flowRateToM3s(input.flowRate_m3h, 'm3/h');
 
-  // 3. ルートからセグメントへ変換
+  // 3. ルートからセグメントへ変換（摩擦係数・継手手法はルート共通）
   const segments = convertRouteToSegments(
     input.route,
     input.pipe,
@@ -44,8 +81,7 @@ export function calcRoute(
     fluid,
     flowRate_m3s,
     input.conversionConfig
-  );
+  ).map(seg => ({ ...seg, frictionMethod: input.frictionMethod, fittingMethod: input.fittingMethod }));
 
-  // 4. ドメイン計算を実行
-  return calcSystemPressureDrop({ segments }, darby3kData, entranceExitData);
+  return { segments, thermal };
 }
@@ -0,0 +1,39 @@
+/**
+ * ルート水撃評価ユースケース
+ *
+ * calcRoute の結果（定常流速）とルート形状（管路長）から、
+ * ルート出口の弁を閉鎖したときの水撃圧をドメイン計算で評価する。
+ *
+ * 依存: domain/ のみ（レイヤールール遵守）
+ */
+
+import { SystemResult } from '@domain/types';
+import { WaterHammerResult } from '@domain/transient/types';
+import { calcWaterHammer } from '@domain/transient/waterHammer';
+import { calcStraightRuns } from '@domain/route/routeGeometry';
+import { CalcRouteSurgeInput } from './types';
+
+/**
+ * ルート出口の弁閉鎖による水撃圧を評価する
+ *
+ * 管路長はルートの直管長の合計、流速は弁直上流（最終区間）の定常流速を用いる。
+ *
+ * @param input - ユーザー入力（route, pipe は calcRoute と共通）
+ * @param routeResult - 同じルートの calcRoute 結果
+ * @returns WaterHammerResult
+ */
+export function calcRouteSurge(input: CalcRouteSurgeInput, routeResult: SystemResult): WaterHammerResult {
+  const lastSegment = routeResult.segmentResults[routeResult.segmentResults.length - 1];
+  if (!lastSegment) throw new Error('Route result has no segments');
+
+  const length_m = calcStraightRuns(input.route.nodes).reduce((sum, run) => sum + run.length_m, 0);
+
+  return calcWaterHammer({
+    pipe: input.pipe,
+    wall: input.wall,
+    fluid: input.fluid,
+    length_m,
+    velocity_m_s: lastSegment.velocity_m_s,
+    conditions: input.conditions,
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * ルート過渡解析ユースケース
+ *
+ * calcRoute の結果から初期定常流量と等価摩擦係数を求め、
+ * ルート全体を特性曲線法 (MOC) で解析する。
+ *
+ * 依存: domain/ のみ（レイヤールール遵守）
+ */
+
+import { SystemResult, GRAVITY } from '@domain/types';
+import { TransientResult } from '@domain/transient/types';
+import { simulateTransient } from '@domain/transient/characteristics';
+import { calcStraightRuns } from '@domain/route/routeGeometry';
+import { calcFlowArea } from '@domain/pipe/pipeGeometry';
+import { CalcRouteTransientInput } from './types';
+
+/**
+ * ルートの過渡解析を実行する
+ *
+ * 継手損失は直管全長に分布させ、定常損失 (摩擦 + 継手) が calcRoute と一致する
+ * 等価 Darcy 摩擦係数 f_eq = 2gD·h_loss/(L·V²) として扱う。
+ *
+ * @param input - ユーザー入力（route, pipe は calcRoute と共通）
+ * @param routeResult - 同じルートの calcRoute 結果
+ * @returns TransientResult
+ */
+export function calcRouteTransient(input: CalcRouteTransientInput, routeResult: SystemResult): TransientResult {
+  const lastSegment = routeResult.segmentResults[routeResult.segmentResults.length - 1];
+  if (!lastSegment) throw new Error('Route result has no segments');
+
+  const velocity = lastSegment.velocity_m_s;
+  const length_m = calcStraightRuns(input.route.nodes).reduce((sum, run) => sum + run.length_m, 0);
+  const headLoss = routeResult.head_friction_total_m + routeResult.head_fittings_total_m;
+  const frictionFactor = 2 * GRAVITY * (input.pipe.id_mm / 1000) * headLoss / (length_m * velocity * velocity);
+
+  return simulateTransient({
+    route: input.route,
+    pipe: input.pipe,
+    wall: input.wall,
+    fluid: input.fluid,
+    vaporPressure_kpa: input.vaporPressure_kpa,
+    flowRate_m3s: velocity * calcFlowArea(input.pipe.id_mm),
+    frictionFactor,
+    settings: input.settings,
+  });
+}
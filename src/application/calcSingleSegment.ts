@@ -3,14 +3,17 @@
  *
  * ユーザー入力 (CalcSingleSegmentInput) を受け取り、
  * 流体物性取得 → SegmentInput 組立 → ドメイン計算を実行する。
+ * ポンプ選定用に、同じ入力を流量ごとに再計算した系統抵抗曲線も提供する。
  *
  * 依存: domain/ のみ（レイヤールール遵守）
  */
 
 import { SegmentInput, SegmentResult } from '@domain/types';
+import { ResistanceCurvePoint } from '@domain/system/pumpSelection';
+import { calcSystemCurve } from '@domain/system/systemCurve';
 import { getWaterProperties, WaterData } from '@domain/fluid/waterProperties';
 import { calcSegmentPressureDrop } from '@domain/system/pressureDrop';
-import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '@domain/fittings/fittingLoss';
 import { flowRateToM3s } from '@domain/system/unitConversion';
 import { CalcSingleSegmentInput } from './types';
 
@@ -21,19 +24,44 @@ import { CalcSingleSegmentInput } from './types';
  * @param waterData - 水物性データ
  * @param darby3kData - Darby 3-K 継手データ
  * @param entranceExitData - 入口/出口K値データ
+ * @param craneData - Crane L/D 継手データ（fittingMethod = 'l_over_d' の場合に必須）
+ * @param hooperData - Hooper 2-K 継手データ（fittingMethod = '2k' の場合に必須）
  * @returns SegmentResult
  */
 export function calcSingleSegment(
   input: CalcSingleSegmentInput,
   waterData: WaterData,
   darby3kData: Darby3KData,
-  entranceExitData: EntranceExitData
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
 ): SegmentResult {
+  return calcSegmentPressureDrop(buildSegmentInput(input, waterData), darby3kData, entranceExitData, craneData, hooperData);
+}
+
+/**
+ * 単セグメントの系統抵抗曲線を流量ごとの再計算で生成する
+ *
+ * @param input - ユーザー入力（flowRate_m3h を設計流量とする）
+ * @returns 設計流量の 1.5 倍までの抵抗曲線
+ */
+export function calcSingleSegmentSystemCurve(
+  input: CalcSingleSegmentInput,
+  waterData: WaterData,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): ResistanceCurvePoint[] {
+  return calcSystemCurve({ segments: [buildSegmentInput(input, waterData)] }, darby3kData, entranceExitData, craneData, hooperData);
+}
+
+function buildSegmentInput(input: CalcSingleSegmentInput, waterData: WaterData): SegmentInput {
   // 1. 流体物性を取得（input.fluid 指定時はそれを使用、なければ水物性テーブルから補間）
   const fluid = input.fluid ?? getWaterProperties(input.temperature_c, waterData);
 
   // 2. SegmentInput を組み立て（flowRate_m3h → m3s 変換）
-  const segmentInput: SegmentInput = {
+  return {
     pipe: input.pipe,
     material: input.material,
     fluid,
@@ -41,8 +69,8 @@ export function calcSingleSegment(
     length_m: input.length_m,
     elevation_m: input.elevation_m,
     fittings: input.fittings,
+    frictionMethod: input.frictionMethod,
+    fittingMethod: input.fittingMethod,
+    compareFittingMethods: input.compareFittingMethods,
   };
-
-  // 3. ドメイン計算を実行
-  return calcSegmentPressureDrop(segmentInput, darby3kData, entranceExitData);
 }
@@ -0,0 +1,33 @@
+/**
+ * スプリンクラー水理計算ユースケース
+ *
+ * ユーザー入力 (CalcSprinklerDemandInput) を受け取り、
+ * 水の物性取得 → 枝状配管の水理計算を実行する。
+ *
+ * 依存: domain/ のみ（レイヤールール遵守）
+ */
+
+import { getWaterProperties, WaterData } from '@domain/fluid/waterProperties';
+import { calcSprinklerSystem } from '@domain/sprinkler/sprinklerHydraulics';
+import { SprinklerFittingData, SprinklerSystemResult } from '@domain/sprinkler/types';
+import { CalcSprinklerDemandInput } from './types';
+
+/**
+ * 最遠ヘッドから供給点までの必要流量・必要圧力を求める
+ *
+ * @param input - ユーザー入力（pipe, material は解決済み）
+ * @param waterData - 水物性データ
+ * @param fittingData - 継手の相当管長表
+ * @returns SprinklerSystemResult
+ */
+export function calcSprinklerDemand(
+  input: CalcSprinklerDemandInput,
+  waterData: WaterData,
+  fittingData: SprinklerFittingData
+): SprinklerSystemResult {
+  const { temperature_c, ...system } = input;
+  return calcSprinklerSystem(
+    { ...system, fluid: getWaterProperties(temperature_c, waterData) },
+    fittingData
+  );
+}
@@ -5,8 +5,17 @@
  * application/ は domain/ のみに依存する。
  */
 
-import { PipeSpec, PipeMaterial, FittingInput, FluidProperties } from '@domain/types';
+import {
+  PipeSpec, PipeMaterial, FittingInput, FluidProperties, FrictionFactorMethod, DarcyFrictionFactorMethod, FittingMethod, GasFlowModel,
+  HeatLossModel, FluidPropertyResolver, FlowRegime, CalcWarning,
+} from '@domain/types';
 import { PipeRoute, RouteConversionConfig } from '@domain/route/types';
+import { PipeWallElasticity, SurgeConditions, TransientSettings } from '@domain/transient/types';
+import { EconomicDiameterCandidate, LifecycleCostParams } from '@domain/system/economicDiameter';
+import {
+  SprinklerNode, SprinklerPipe, SprinklerHead, SprinklerDesignBasis, WaterSupplyTest,
+} from '@domain/sprinkler/types';
+import { ControlValveConditions } from '@domain/valve/types';
 
 /** 単セグメント計算のユースケース入力 */
 export interface CalcSingleSegmentInput {
@@ -18,6 +27,9 @@ export interface CalcSingleSegmentInput {
   readonly elevation_m: number;
   readonly fittings: FittingInput[];
   readonly fluid?: FluidProperties;  // 事前に解決済みの流体物性（指定時は temperature_c を無視）
+  readonly frictionMethod?: FrictionFactorMethod;  // 省略時は Churchill
+  readonly fittingMethod?: FittingMethod;          // 省略時は Darby 3-K
+  readonly compareFittingMethods?: boolean;        // 継手ごとに全手法の K 値を併記（計算解説用）
 }
 
 /** マルチセグメント計算の個別セグメント定義 */
@@ -27,6 +39,7 @@ export interface SegmentDefinition {
   readonly length_m: number;
   readonly elevation_m: number;
   readonly fittings: FittingInput[];
+  readonly transitionAngle_deg?: number;  // 前区間との口径変化部の全頂角（省略時は 180° = 急縮小/急拡大）
 }
 
 /** マルチセグメント計算のユースケース入力 */
@@ -35,6 +48,11 @@ export interface CalcMultiSegmentInput {
   readonly flowRate_m3h: number;       // 系統共通（直列 = 質量保存）
   readonly segments: SegmentDefinition[];
   readonly fluid?: FluidProperties;    // 事前に解決済みの流体物性（指定時は temperature_c を無視）
+  readonly frictionMethod?: FrictionFactorMethod;  // 系統共通（省略時は Churchill）
+  readonly fittingMethod?: FittingMethod;          // 系統共通（省略時は Darby 3-K）
+  readonly compareFittingMethods?: boolean;        // 継手ごとに全手法の K 値を併記（計算解説用）
+  readonly heatLoss?: HeatLossModel;               // 省略時は断熱系（温度変化なし）
+  readonly resolveFluid?: FluidPropertyResolver;   // 熱損失計算での物性再取得（fluid 指定時は必須、省略時は水）
 }
 
 /** ルート計算のユースケース入力 */
@@ -46,4 +64,133 @@ export interface CalcRouteInput {
   readonly material: PipeMaterial;      // ルート全体で共通
   readonly conversionConfig: RouteConversionConfig;
   readonly fluid?: FluidProperties;    // 事前に解決済みの流体物性（指定時は temperature_c を無視）
+  readonly frictionMethod?: FrictionFactorMethod;  // ルート全体で共通（省略時は Churchill）
+  readonly fittingMethod?: FittingMethod;          // ルート全体で共通（省略時は Darby 3-K）
+  readonly heatLoss?: HeatLossModel;               // 省略時は断熱系（温度変化なし）
+  readonly resolveFluid?: FluidPropertyResolver;   // 熱損失計算での物性再取得（fluid 指定時は必須、省略時は水）
+}
+
+/** ルート水撃評価のユースケース入力 */
+export interface CalcRouteSurgeInput {
+  readonly route: PipeRoute;
+  readonly pipe: PipeSpec;              // calcRoute と共通
+  readonly wall: PipeWallElasticity;    // infrastructure で解決済み
+  readonly fluid: FluidProperties;      // calcRoute に渡した流体物性
+  readonly conditions: SurgeConditions;
+}
+
+/** ルート過渡解析 (MOC) のユースケース入力 */
+export interface CalcRouteTransientInput {
+  readonly route: PipeRoute;
+  readonly pipe: PipeSpec;              // calcRoute と共通
+  readonly wall: PipeWallElasticity;    // infrastructure で解決済み
+  readonly fluid: FluidProperties;      // calcRoute に渡した流体物性
+  readonly vaporPressure_kpa: number;   // 飽和蒸気圧 (kPa abs)。水溶液の fluid.pressure は大気圧のため別に与える
+  readonly settings: TransientSettings;
+}
+
+/** 気体区間計算のユースケース入力 */
+export interface CalcGasSegmentInput {
+  readonly gasId: string;
+  readonly temperature_c: number;      // 入口温度
+  readonly inletPressure_kpa: number;  // 入口圧力（絶対圧）
+  readonly flowRate_Nm3h: number;      // ユーザー入力単位 (Nm³/h, 0 °C・101.325 kPa)
+  readonly pipe: PipeSpec;             // infrastructure で解決済み
+  readonly material: PipeMaterial;     // infrastructure で解決済み
+  readonly length_m: number;
+  readonly elevation_m: number;
+  readonly fittings: FittingInput[];
+  readonly flowModel: GasFlowModel;
+  readonly frictionMethod?: DarcyFrictionFactorMethod;  // 省略時は Churchill（Hazen-Williams は水専用のため不可）
+  readonly fittingMethod?: FittingMethod;          // 省略時は Darby 3-K
+}
+
+// ── 口径選定 ──
+
+/** 口径選定の判定基準 */
+export interface PipeSizingCriteria {
+  readonly maxVelocity_m_s: number;
+  /** 直管 100 m あたりの摩擦圧損の上限 (kPa) */
+  readonly maxDpPer100m_kpa: number;
+}
+
+/** 口径選定のユースケース入力 */
+export interface CalcPipeSizingInput {
+  readonly temperature_c: number;
+  readonly flowRate_m3h: number;       // ユーザー入力単位 (m³/h)
+  readonly candidates: PipeSpec[];     // infrastructure で解決済み（同一規格・スケジュール）
+  readonly material: PipeMaterial;     // infrastructure で解決済み
+  readonly criteria: PipeSizingCriteria;
+  readonly fluid?: FluidProperties;    // 事前に解決済みの流体物性（指定時は temperature_c を無視）
+  readonly frictionMethod?: FrictionFactorMethod;  // 省略時は Churchill
+}
+
+/** 候補口径ごとの評価結果 */
+export interface PipeSizingRow {
+  readonly pipe: PipeSpec;
+  readonly velocity_m_s: number;
+  readonly reynolds: number;
+  readonly flowRegime: FlowRegime;
+  readonly dpPer100m_pa: number;
+  readonly meetsCriteria: boolean;
+  readonly warnings: readonly CalcWarning[];
+}
+
+/** 口径選定結果（小径順） */
+export interface PipeSizingResult {
+  readonly rows: PipeSizingRow[];
+  /** 基準を満たす最小口径の rows インデックス（該当なしは null） */
+  readonly recommendedIndex: number | null;
+}
+
+// ── 経済口径 ──
+
+/** 経済口径計算のユースケース入力 */
+export interface CalcEconomicPipeSizeInput {
+  readonly temperature_c: number;
+  readonly flowRate_m3h: number;       // ユーザー入力単位 (m³/h)
+  readonly candidates: EconomicDiameterCandidate[];  // infrastructure で解決済み（管仕様 + 据付費）
+  readonly material: PipeMaterial;     // infrastructure で解決済み
+  readonly length_m: number;
+  readonly fittings: FittingInput[];
+  readonly costs: LifecycleCostParams;
+  readonly fluid?: FluidProperties;    // 事前に解決済みの流体物性（指定時は temperature_c を無視）
+  readonly frictionMethod?: FrictionFactorMethod;  // 省略時は Churchill
+  readonly fittingMethod?: FittingMethod;          // 省略時は Darby 3-K
+}
+
+// ── スプリンクラー水理計算 ──
+
+/** スプリンクラー水理計算のユースケース入力（流体は水） */
+export interface CalcSprinklerDemandInput {
+  readonly temperature_c: number;
+  readonly nodes: SprinklerNode[];
+  readonly pipes: SprinklerPipe[];     // pipe は infrastructure で解決済み
+  readonly heads: SprinklerHead[];
+  readonly supplyNodeId: string;
+  readonly material: PipeMaterial;     // infrastructure で解決済み（Hazen-Williams C を含む）
+  readonly design: SprinklerDesignBasis;
+  readonly supply?: WaterSupplyTest;   // 省略時は供給曲線と比較しない
+}
+
+// ── 調節弁サイジング ──
+
+/** 調節弁サイジングのユースケース入力 */
+export interface CalcControlValveInput {
+  readonly flowRate_m3h: number;        // calcMultiSegment と共通
+  readonly fluid: FluidProperties;      // calcMultiSegment に渡した流体物性
+  readonly vaporPressure_kpa: number;   // 弁入口温度での蒸気圧 (kPa abs)。水溶液の fluid.pressure は大気圧のため別に与える
+  readonly conditions: ControlValveConditions;
+}
+
+// ── 差圧式流量計の絞り径選定 ──
+
+/** 流量計絞り径選定のユースケース入力 */
+export interface CalcFlowElementBoreInput {
+  readonly elementId: string;           // 流量計継手 ID（orifice_corner など）
+  readonly pipe: PipeSpec;              // infrastructure で解決済み
+  readonly temperature_c: number;
+  readonly maxFlowRate_m3h: number;     // 流量計の最大流量 (m³/h)
+  readonly targetDp_kpa: number;        // 最大流量時の目標差圧 (kPa)
+  readonly fluid?: FluidProperties;     // 事前に解決済みの流体物性（指定時は temperature_c を無視）
 }
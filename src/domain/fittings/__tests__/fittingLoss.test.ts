@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { resolveFittings, Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '../fittingLoss';
+import { calcFtFullyTurbulent } from '../../pipe/frictionFactor';
+import darby3kJson from '../../../../data/fittings-db/darby-3k.json';
+import entranceExitJson from '../../../../data/fittings-db/entrance-exit-k.json';
+import craneJson from '../../../../data/fittings-db/crane-tp410.json';
+import hooperJson from '../../../../data/fittings-db/hooper-2k.json';
+
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+const craneData = craneJson as unknown as CraneData;
+const hooperData = hooperJson as unknown as Hooper2KData;
+
+// 2" Sch40 / 水 20°C / 約 1.3 m/s
+const id_mm = 52.50;
+const density = 998.2;
+const velocity = 1.28;
+const reynolds = 67000;
+
+describe('resolveFittings - Crane L/D method', () => {
+  it('should compute K = f_T × L/D using f_T for the pipe size', () => {
+    const [elbow] = resolveFittings(
+      [{ fittingId: 'elbow_90_welded_r1', quantity: 1 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity,
+      'l_over_d', craneData
+    );
+    const ft = calcFtFullyTurbulent(0.046, id_mm).f;
+
+    expect(elbow.method).toBe('l_over_d');
+    expect(elbow.k_value).toBeCloseTo(ft * 20, 10);
+    expect(elbow.reference.source).toContain('Crane');
+    // Crane TP-410: 2" の f_T ≈ 0.019 → K ≈ 0.38
+    expect(elbow.k_value).toBeGreaterThan(0.35);
+    expect(elbow.k_value).toBeLessThan(0.42);
+  });
+
+  it('should give larger K for smaller pipe sizes (f_T increases)', () => {
+    const fittings = [{ fittingId: 'valve_gate_full', quantity: 1 }];
+    const [small] = resolveFittings(fittings, darby3kData, entranceExitData, reynolds, 26.64, density, velocity, 'l_over_d', craneData);
+    const [large] = resolveFittings(fittings, darby3kData, entranceExitData, reynolds, 154.05, density, velocity, 'l_over_d', craneData);
+    expect(small.k_value).toBeGreaterThan(large.k_value);
+  });
+
+  it('should multiply loss by quantity', () => {
+    const [one] = resolveFittings([{ fittingId: 'valve_globe_full', quantity: 1 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity, 'l_over_d', craneData);
+    const [three] = resolveFittings([{ fittingId: 'valve_globe_full', quantity: 3 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity, 'l_over_d', craneData);
+    expect(three.dp_pa).toBeCloseTo(one.dp_pa * 3, 6);
+  });
+
+  it('should keep entrances, exits and overrides independent of the fitting method', () => {
+    const results = resolveFittings(
+      [
+        { fittingId: 'entrance_sharp', quantity: 1 },
+        { fittingId: 'custom_k', quantity: 1, kOverride: 2.5 },
+      ],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity,
+      'l_over_d', craneData
+    );
+    expect(results[0].method).toBe('fixed_k');
+    expect(results[0].k_value).toBe(0.5);
+    expect(results[1].method).toBe('fixed_k');
+    expect(results[1].k_value).toBe(2.5);
+  });
+
+  it('should default to Darby 3-K', () => {
+    const [elbow] = resolveFittings(
+      [{ fittingId: 'elbow_90_welded_r1', quantity: 1 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity
+    );
+    expect(elbow.method).toBe('3k');
+  });
+
+  it('should cover every Darby 3-K fitting id in the Crane data', () => {
+    for (const f of darby3kData.fittings) {
+      expect(craneData.fittings.some(c => c.id === f.id)).toBe(true);
+    }
+  });
+
+  it('should throw when Crane data is missing', () => {
+    expect(() => resolveFittings(
+      [{ fittingId: 'elbow_90_welded_r1', quantity: 1 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity, 'l_over_d'
+    )).toThrow('Crane');
+  });
+});
+
+describe('resolveFittings - Hooper 2-K method', () => {
+  it('should compute K = K₁/Re + K∞(1 + 1/D_inch)', () => {
+    const [elbow] = resolveFittings(
+      [{ fittingId: 'elbow_90_threaded_r1', quantity: 1 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity,
+      '2k', undefined, hooperData
+    );
+    const entry = hooperData.fittings.find(f => f.id === 'elbow_90_threaded_r1')!;
+    expect(elbow.method).toBe('2k');
+    expect(elbow.k_value).toBeCloseTo(entry.k1 / reynolds + entry.k_inf * (1 + 25.4 / id_mm), 10);
+    expect(elbow.reference.source).toContain('Hooper');
+  });
+
+  it('should cover every Darby 3-K fitting id in the Hooper data', () => {
+    for (const f of darby3kData.fittings) {
+      expect(hooperData.fittings.some(h => h.id === f.id)).toBe(true);
+    }
+  });
+
+  it('should throw when Hooper data is missing', () => {
+    expect(() => resolveFittings(
+      [{ fittingId: 'elbow_90_welded_r1', quantity: 1 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity, '2k', craneData
+    )).toThrow('Hooper');
+  });
+});
+
+describe('resolveFittings - method comparison', () => {
+  const compare = (fittingId: string, re: number, method: '3k' | '2k' | 'l_over_d' = '3k') =>
+    resolveFittings(
+      [{ fittingId, quantity: 1 }],
+      darby3kData, entranceExitData, re, id_mm, density, velocity, method, craneData, hooperData, true
+    )[0];
+
+  it('should attach K from 3-K, 2-K and Crane L/D to a database fitting', () => {
+    const elbow = compare('elbow_90_threaded_r1', reynolds);
+    const values = elbow.kComparison!.values;
+    expect(values.map(v => v.method)).toEqual(['3k', '2k', 'l_over_d']);
+
+    // 計算に使用した手法の K 値と一致
+    expect(values[0].k_value).toBeCloseTo(elbow.k_value, 10);
+    expect(values[1].k_value).toBeCloseTo(compare('elbow_90_threaded_r1', reynolds, '2k').k_value, 10);
+    expect(values[2].k_value).toBeCloseTo(compare('elbow_90_threaded_r1', reynolds, 'l_over_d').k_value, 10);
+
+    // 2" ねじ込みエルボ: いずれの手法も K = 0.4–0.7 程度
+    for (const v of values) {
+      expect(v.k_value).toBeGreaterThan(0.4);
+      expect(v.k_value).toBeLessThan(0.7);
+    }
+    const ks = values.map(v => v.k_value);
+    expect(elbow.kComparison!.spread).toBeCloseTo(Math.max(...ks) / Math.min(...ks) - 1, 10);
+  });
+
+  it('should reflect Reynolds dependence only in 3-K and 2-K', () => {
+    const low = compare('valve_globe_full', 500).kComparison!.values;
+    const high = compare('valve_globe_full', 1e6).kComparison!.values;
+    expect(low[0].k_value).toBeGreaterThan(high[0].k_value);
+    expect(low[1].k_value).toBeGreaterThan(high[1].k_value);
+    expect(low[2].k_value).toBeCloseTo(high[2].k_value, 10);
+  });
+
+  it('should compare only the methods whose data is given', () => {
+    const [elbow] = resolveFittings(
+      [{ fittingId: 'elbow_90_welded_r1', quantity: 1 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity, '3k', undefined, undefined, true
+    );
+    expect(elbow.kComparison!.values.map(v => v.method)).toEqual(['3k']);
+    expect(elbow.kComparison!.spread).toBeNull();
+  });
+
+  it('should not attach a comparison to entrances, custom fittings or when not requested', () => {
+    const results = resolveFittings(
+      [
+        { fittingId: 'entrance_sharp', quantity: 1 },
+        { fittingId: 'custom_k', quantity: 1, kOverride: 2.5 },
+      ],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity, '3k', craneData, hooperData, true
+    );
+    expect(results.every(r => r.kComparison === undefined)).toBe(true);
+
+    const [elbow] = resolveFittings(
+      [{ fittingId: 'elbow_90_welded_r1', quantity: 1 }],
+      darby3kData, entranceExitData, reynolds, id_mm, density, velocity, '3k', craneData, hooperData
+    );
+    expect(elbow.kComparison).toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FLOW_ELEMENTS, findFlowElement, calcDischargeCoefficient, calcPermanentPressureLoss,
+  calcFlowElement, sizeFlowElementBore, FlowElementDefinition,
+} from '../flowElement';
+import { resolveFittings, Darby3KData, EntranceExitData } from '../fittingLoss';
+import darby3kJson from '../../../../data/fittings-db/darby-3k.json';
+import entranceExitJson from '../../../../data/fittings-db/entrance-exit-k.json';
+
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+const element = (id: string): FlowElementDefinition => findFlowElement(id)!;
+
+// 4" Sch40 (D = 102.26 mm) / 水 20°C
+const D = 102.26;
+const density = 998.2;
+
+describe('calcDischargeCoefficient', () => {
+  it('should reproduce the Reader-Harris/Gallagher corner-tap value at β = 0.5, Re_D = 10⁶', () => {
+    // 0.5961 + 0.0261β² − 0.216β⁸ + 0.000521(10⁶β/Re)^0.7 + (0.0188 + 0.0063A)β^3.5(10⁶/Re)^0.3
+    //   + (0.043 + 0.080 − 0.123)(1 − 0.11A)β⁴/(1 − β⁴)
+    const a = Math.pow(19000 * 0.5 / 1e6, 0.8);
+    const expected = 0.5961 + 0.0261 * 0.25 - 0.216 * Math.pow(0.5, 8)
+      + 0.000521 * Math.pow(0.5, 0.7)
+      + (0.0188 + 0.0063 * a) * Math.pow(0.5, 3.5);
+    expect(calcDischargeCoefficient(element('orifice_corner'), 0.5, 1e6, D)).toBeCloseTo(expected, 12);
+    expect(expected).toBeCloseTo(0.6038, 4);
+  });
+
+  it('should apply the D–D/2 tapping terms relative to corner taps', () => {
+    const beta = 0.6;
+    const re = 2e5;
+    const corner = calcDischargeCoefficient(element('orifice_corner'), beta, re, D);
+    const dd2 = calcDischargeCoefficient(element('orifice_d_d2'), beta, re, D);
+    // L₁ = 1, L₂' = 0.47 → M₂' = 2L₂'/(1 − β)
+    const a = Math.pow(19000 * beta / re, 0.8);
+    const m2 = 2 * 0.47 / (1 - beta);
+    const beta4 = Math.pow(beta, 4);
+    const upstream = (0.080 * Math.exp(-10) - 0.123 * Math.exp(-7) - (0.080 - 0.123)) * (1 - 0.11 * a) * beta4 / (1 - beta4);
+    const downstream = -0.031 * (m2 - 0.8 * Math.pow(m2, 1.1)) * Math.pow(beta, 1.3);
+    expect(dd2 - corner).toBeCloseTo(upstream + downstream, 12);
+  });
+
+  it('should add the small-pipe term below D = 71.12 mm', () => {
+    const e = element('orifice_corner');
+    const small = calcDischargeCoefficient(e, 0.5, 1e6, 52.5);
+    const reference = calcDischargeCoefficient(e, 0.5, 1e6, 71.12);
+    expect(small - reference).toBeCloseTo(0.011 * 0.25 * (2.8 - 52.5 / 25.4), 12);
+  });
+
+  it('should use the nozzle and Venturi equations', () => {
+    expect(calcDischargeCoefficient(element('nozzle_isa1932'), 0.5, 1e6, D))
+      .toBeCloseTo(0.99 - 0.2262 * Math.pow(0.5, 4.1) - (0.00175 * 0.25 - 0.0033 * Math.pow(0.5, 4.15)), 12);
+    expect(calcDischargeCoefficient(element('nozzle_long_radius'), 0.5, 1e6, D))
+      .toBeCloseTo(0.9965 - 0.00653 * Math.sqrt(0.5), 12);
+    expect(calcDischargeCoefficient(element('venturi'), 0.5, 1e6, D)).toBe(0.995);
+  });
+});
+
+describe('calcPermanentPressureLoss', () => {
+  it('should approach 1 − β^1.9 of the differential pressure for an orifice', () => {
+    const loss = calcPermanentPressureLoss(element('orifice_corner'), 0.5, 0.604, 10000);
+    expect(loss / 10000).toBeCloseTo(1 - Math.pow(0.5, 1.9), 1);
+  });
+
+  it('should be far smaller for a Venturi tube', () => {
+    expect(calcPermanentPressureLoss(element('venturi'), 0.5, 0.995, 10000)).toBeCloseTo(1000, 10);
+  });
+});
+
+describe('calcFlowElement', () => {
+  it('should satisfy the ISO 5167 flow equation with the computed C', () => {
+    const q = 40 / 3600;
+    const detail = calcFlowElement(element('orifice_flange'), D, 51.13, q, density, 1.4e5);
+    const area = Math.PI / 4 * Math.pow(0.05113, 2);
+    const e = 1 / Math.sqrt(1 - Math.pow(detail.beta, 4));
+    expect(detail.beta).toBeCloseTo(0.5, 10);
+    expect(detail.dischargeCoefficient * e * area * Math.sqrt(2 * detail.measuredDp_pa / density)).toBeCloseTo(q, 12);
+    expect(detail.permanentLoss_pa).toBeLessThan(detail.measuredDp_pa);
+    expect(detail.warnings).toEqual([]);
+  });
+
+  it('should warn outside the ISO 5167 validity limits', () => {
+    const venturi = calcFlowElement(element('venturi'), 300, 60, 0.01, density, 5e4);
+    const keys = venturi.warnings.map(w => w.messageKey);
+    expect(keys).toContain('warn.flow_element_beta_range');
+    expect(keys).toContain('warn.flow_element_pipe_diameter_range');
+    expect(keys).toContain('warn.flow_element_reynolds_low');
+
+    const orifice = calcFlowElement(element('orifice_corner'), 52.5, 10, 0.001, density, 3e4);
+    expect(orifice.warnings.find(w => w.messageKey === 'warn.flow_element_bore_small')?.messageParams)
+      .toEqual({ d: 10, min: 12.5 });
+  });
+
+  it('should reject a bore not smaller than the pipe', () => {
+    expect(() => calcFlowElement(element('orifice_corner'), D, D, 0.01, density, 1e5)).toThrow('bore diameter');
+  });
+});
+
+describe('sizeFlowElementBore', () => {
+  it('should find the bore giving the target differential pressure at maximum flow', () => {
+    const q = 40 / 3600;
+    const sized = sizeFlowElementBore(element('orifice_d_d2'), D, q, density, 1.4e5, 25000);
+    expect(sized.measuredDp_pa).toBeCloseTo(25000, 4);
+    const check = calcFlowElement(element('orifice_d_d2'), D, sized.bore_mm, q, density, 1.4e5);
+    expect(check.measuredDp_pa).toBeCloseTo(25000, 4);
+  });
+
+  it('should throw when the target cannot be reached', () => {
+    expect(() => sizeFlowElementBore(element('venturi'), D, 40 / 3600, density, 1.4e5, 1e9)).toThrow('not achievable');
+  });
+});
+
+describe('resolveFittings - flow elements', () => {
+  const id_mm = 52.50;
+  const velocity = 1.28;
+
+  it('should enter the permanent loss as an equivalent K value', () => {
+    const [fd] = resolveFittings(
+      [{ fittingId: 'orifice_corner', quantity: 2, boreDiameter_mm: 30 }],
+      darby3kData, entranceExitData, 67000, id_mm, density, velocity
+    );
+    expect(fd.method).toBe('iso5167');
+    expect(fd.flowElement).toBeDefined();
+    expect(fd.dp_pa).toBeCloseTo(2 * fd.flowElement!.permanentLoss_pa, 6);
+    expect(fd.k_value * density * velocity * velocity / 2).toBeCloseTo(fd.flowElement!.permanentLoss_pa, 6);
+    expect(fd.reference.source).toBe('ISO 5167-2:2003');
+  });
+
+  it('should require a bore diameter', () => {
+    expect(() => resolveFittings(
+      [{ fittingId: 'venturi', quantity: 1 }], darby3kData, entranceExitData, 67000, id_mm, density, velocity
+    )).toThrow('boreDiameter_mm');
+  });
+
+  it('should not collide with database fitting ids', () => {
+    const ids = new Set([
+      ...darby3kData.fittings.map(f => f.id),
+      ...entranceExitData.entrances.map(e => e.id),
+      ...entranceExitData.exits.map(e => e.id),
+    ]);
+    expect(FLOW_ELEMENTS.filter(e => ids.has(e.id))).toEqual([]);
+  });
+});
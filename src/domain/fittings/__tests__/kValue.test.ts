@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { calcKCrane, calcK3K, calcKFromCv, calcFittingLoss, calcTotalFittingLoss } from '../kValue';
+import { calcKCrane, calcK3K, calcK2K, calcKFromCv, calcFittingLoss, calcTotalFittingLoss } from '../kValue';
 
 describe('calcKCrane (L/D method)', () => {
   it('should calculate K = f_T × L/D for L/D=14, f_T=0.019', () => {
@@ -35,6 +35,18 @@ describe('calcK3K', () => {
   });
 });
 
+describe('calcK2K', () => {
+  it('should calculate 2-K value for 90° threaded elbow in 2" pipe at Re=1e5', () => {
+    // K = 800/100000 + 0.40 × (1 + 1/2) = 0.008 + 0.60 = 0.608
+    expect(calcK2K(1e5, 2.0, 800, 0.40)).toBeCloseTo(0.608, 3);
+  });
+
+  it('should approach K∞ for large diameter at high Re', () => {
+    const k = calcK2K(1e8, 1000, 800, 0.25);
+    expect(k).toBeCloseTo(0.25, 3);
+  });
+});
+
 describe('calcKFromCv', () => {
   it('should convert Cv=100 to K for 2" Sch40 pipe (ID=52.50mm)', () => {
     // d_inch = 52.50/25.4 = 2.0669"
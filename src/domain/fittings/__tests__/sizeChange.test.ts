@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { calcKContraction, calcKExpansion, resolveTransition } from '../sizeChange';
+
+describe('calcKContraction', () => {
+  it('should give K = 0.5(1 − β²) for a sudden contraction', () => {
+    // β = 0.5 → K = 0.5 × 0.75 = 0.375
+    expect(calcKContraction(0.5, 180)).toBeCloseTo(0.375, 6);
+  });
+
+  it('should give a lower K for a gradual contraction', () => {
+    // θ = 30°: K = 0.8 × sin15° × 0.75 = 0.1553
+    expect(calcKContraction(0.5, 30)).toBeCloseTo(0.8 * Math.sin(15 * Math.PI / 180) * 0.75, 6);
+    expect(calcKContraction(0.5, 30)).toBeLessThan(calcKContraction(0.5, 180));
+  });
+
+  it('should be zero for equal diameters', () => {
+    expect(calcKContraction(1, 180)).toBe(0);
+  });
+
+  it('should reject invalid β and angle', () => {
+    expect(() => calcKContraction(1.2, 180)).toThrow('β');
+    expect(() => calcKContraction(0.5, 0)).toThrow('angle');
+  });
+});
+
+describe('calcKExpansion', () => {
+  it('should give Borda-Carnot K = (1 − β²)² for a sudden expansion', () => {
+    // β = 0.5 → K = 0.75² = 0.5625
+    expect(calcKExpansion(0.5, 180)).toBeCloseTo(0.5625, 6);
+  });
+
+  it('should give K = 2.6 sin(θ/2)(1 − β²)² for a conical diffuser', () => {
+    const expected = 2.6 * Math.sin(5 * Math.PI / 180) * 0.5625;
+    expect(calcKExpansion(0.5, 10)).toBeCloseTo(expected, 6);
+  });
+});
+
+describe('resolveTransition', () => {
+  const density = 998.2;
+
+  it('should reference a contraction to the downstream (small) velocity', () => {
+    // 3" → 2" 急縮小、下流 2" の流速 1.28 m/s
+    const r = resolveTransition({ upstream_id_mm: 77.93 }, 52.50, 1.28, density)!;
+    const beta = 52.50 / 77.93;
+
+    expect(r.method).toBe('size_change');
+    expect(r.id).toBe('contraction_sudden');
+    expect(r.k_value).toBeCloseTo(0.5 * (1 - beta ** 2), 6);
+    expect(r.basis_id_mm).toBe(52.50);
+    expect(r.basis_velocity_m_s).toBeCloseTo(1.28, 10);
+    expect(r.dp_pa).toBeCloseTo(r.k_value * density * 1.28 ** 2 / 2, 6);
+  });
+
+  it('should reference an expansion to the upstream (small) velocity', () => {
+    // 2" → 3" 急拡大、下流 3" の流速 0.58 m/s
+    const r = resolveTransition({ upstream_id_mm: 52.50 }, 77.93, 0.58, density)!;
+    const v_small = 0.58 * (77.93 / 52.50) ** 2;
+
+    expect(r.id).toBe('expansion_sudden');
+    expect(r.basis_id_mm).toBe(52.50);
+    expect(r.basis_velocity_m_s).toBeCloseTo(v_small, 10);
+    // Borda-Carnot: ΔP = ρ(V₁ − V₂)²/2
+    expect(r.dp_pa).toBeCloseTo(density * (v_small - 0.58) ** 2 / 2, 4);
+  });
+
+  it('should use the conical formula when an included angle is given', () => {
+    const r = resolveTransition({ upstream_id_mm: 52.50, angle_deg: 20 }, 77.93, 0.58, density)!;
+    expect(r.id).toBe('expansion_conical');
+    expect(r.description).toContain('20°');
+  });
+
+  it('should return null for equal diameters', () => {
+    expect(resolveTransition({ upstream_id_mm: 52.50 }, 52.50, 1.28, density)).toBeNull();
+  });
+});
@@ -3,10 +3,24 @@
  *
  * darby-3k.json と entrance-exit-k.json を使い、
  * 継手ID + パイプサイズ + Re → K値 → 圧損を計算する。
+ * fittingMethod = 'l_over_d' の場合は crane-tp410.json の L/D と
+ * パイプサイズの f_T から K = f_T × (L/D) を求める。
+ * fittingMethod = '2k' の場合は hooper-2k.json の K₁, K∞ から Hooper 2-K 法で求める。
+ *
+ * 差圧式流量計（オリフィス板・ノズル・ベンチュリ管）は flowElement.ts で
+ * ISO 5167 の流出係数から永久圧力損失を求め、等価 K 値として返す。
+ *
+ * 比較オプション指定時は、データベース継手ごとに Darby 3-K / Hooper 2-K / Crane L/D の
+ * K 値とばらつきを FittingResult.kComparison に併記する（手法間のばらつき確認用）。
  */
 
-import { FittingResult, FittingInput, KValueMethod } from '../types';
-import { calcK3K, calcKFromCv, calcFittingLoss, DARBY_3K_REF, CV_REF, USER_K_REF } from './kValue';
+import { FittingResult, FittingInput, KValueMethod, FittingMethod, FittingKComparison, FittingKComparisonSet } from '../types';
+import {
+  calcK3K, calcK2K, calcKCrane, calcKFromCv, calcFittingLoss,
+  DARBY_3K_REF, HOOPER_2K_REF, CRANE_REF, CV_REF, USER_K_REF,
+} from './kValue';
+import { calcFtFullyTurbulent } from '../pipe/frictionFactor';
+import { findFlowElement, resolveFlowElementFitting } from './flowElement';
 
 /** darby-3k.json の fitting エントリ */
 export interface Darby3KFittingEntry {
@@ -19,6 +33,25 @@ export interface Darby3KFittingEntry {
   readonly kd: number;
 }
 
+/** hooper-2k.json の fitting エントリ */
+export interface Hooper2KFittingEntry {
+  readonly id: string;
+  readonly type: string;
+  readonly description: string;
+  readonly description_ja?: string;
+  readonly k1: number;
+  readonly k_inf: number;
+}
+
+/** crane-tp410.json の fitting エントリ */
+export interface CraneFittingEntry {
+  readonly id: string;
+  readonly type: string;
+  readonly description: string;
+  readonly description_ja?: string;
+  readonly l_over_d: number;
+}
+
 /** entrance-exit-k.json の entrance/exit エントリ */
 export interface FixedKEntry {
   readonly id: string;
@@ -32,6 +65,18 @@ export interface Darby3KData {
   readonly fittings: readonly Darby3KFittingEntry[];
 }
 
+/** hooper-2k.json のルート型 */
+export interface Hooper2KData {
+  readonly fittings: readonly Hooper2KFittingEntry[];
+}
+
+/** crane-tp410.json のルート型 */
+export interface CraneData {
+  /** f_T 算出に用いる基準粗度 (mm)。Crane は新しい商用鋼管で表を作成している */
+  readonly ft_roughness_mm: number;
+  readonly fittings: readonly CraneFittingEntry[];
+}
+
 /** entrance-exit-k.json のルート型 */
 export interface EntranceExitData {
   readonly entrances: readonly FixedKEntry[];
@@ -45,6 +90,12 @@ const ENTRANCE_EXIT_REF = {
 
 /**
  * 継手入力リストから計算済みFittingResultリストを生成する
+ *
+ * @param fittingMethod データベース継手の K 値算出手法（省略時は Darby 3-K）
+ * @param craneData fittingMethod = 'l_over_d' の場合に必須
+ * @param hooperData fittingMethod = '2k' の場合に必須
+ * @param compare true の場合、データベース継手に手法間の K 値比較を付加する
+ *                （与えられたデータセットの手法のみ）
  */
 export function resolveFittings(
   inputs: readonly FittingInput[],
@@ -53,9 +104,28 @@ export function resolveFittings(
   reynolds: number,
   id_mm: number,
   density: number,
-  velocity: number
+  velocity: number,
+  fittingMethod: FittingMethod = '3k',
+  craneData?: CraneData,
+  hooperData?: Hooper2KData,
+  compare = false
 ): FittingResult[] {
-  return inputs.map(input => resolveSingleFitting(input, darby3kData, entranceExitData, reynolds, id_mm, density, velocity));
+  if (fittingMethod === 'l_over_d' && !craneData) {
+    throw new Error('Crane L/D data is required for fitting method "l_over_d"');
+  }
+  if (fittingMethod === '2k' && !hooperData) {
+    throw new Error('Hooper 2-K data is required for fitting method "2k"');
+  }
+  return inputs.map(input => {
+    const result = resolveSingleFitting(
+      input, darby3kData, entranceExitData, reynolds, id_mm, density, velocity, fittingMethod, craneData, hooperData
+    );
+    if (!compare || (result.method !== '3k' && result.method !== '2k' && result.method !== 'l_over_d')) {
+      return result;
+    }
+    const kComparison = compareFittingKValues(input.fittingId, darby3kData, hooperData, craneData, reynolds, id_mm);
+    return { ...result, kComparison };
+  });
 }
 
 function resolveSingleFitting(
@@ -65,7 +135,10 @@ function resolveSingleFitting(
   reynolds: number,
   id_mm: number,
   density: number,
-  velocity: number
+  velocity: number,
+  fittingMethod: FittingMethod,
+  craneData: CraneData | undefined,
+  hooperData: Hooper2KData | undefined
 ): FittingResult {
   // K value override の場合
   if (input.kOverride !== undefined && input.kOverride >= 0) {
@@ -84,6 +157,8 @@ function resolveSingleFitting(
       method: 'fixed_k' as KValueMethod,
       dp_pa: loss.dp_pa * input.quantity,
       head_loss_m: loss.head_m * input.quantity,
+      basis_id_mm: id_mm,
+      basis_velocity_m_s: velocity,
       reference: USER_K_REF,
       warning,
     };
@@ -110,6 +185,8 @@ function resolveSingleFitting(
       method: 'cv' as KValueMethod,
       dp_pa: loss.dp_pa * input.quantity,
       head_loss_m: loss.head_m * input.quantity,
+      basis_id_mm: id_mm,
+      basis_velocity_m_s: velocity,
       reference: CV_REF,
       warning,
     };
@@ -120,6 +197,12 @@ function resolveSingleFitting(
     throw new Error(`Custom fitting "${input.fittingId}" requires kOverride or cvOverride`);
   }
 
+  // 差圧式流量計 (ISO 5167)
+  const flowElement = findFlowElement(input.fittingId);
+  if (flowElement) {
+    return resolveFlowElementFitting(flowElement, input, id_mm, density, velocity, reynolds);
+  }
+
   // 固定K: entrances
   const entrance = entranceExitData.entrances.find(e => e.id === input.fittingId);
   if (entrance) {
@@ -132,6 +215,8 @@ function resolveSingleFitting(
       method: 'fixed_k' as KValueMethod,
       dp_pa: loss.dp_pa * input.quantity,
       head_loss_m: loss.head_m * input.quantity,
+      basis_id_mm: id_mm,
+      basis_velocity_m_s: velocity,
       reference: ENTRANCE_EXIT_REF,
     };
   }
@@ -148,10 +233,61 @@ function resolveSingleFitting(
       method: 'fixed_k' as KValueMethod,
       dp_pa: loss.dp_pa * input.quantity,
       head_loss_m: loss.head_m * input.quantity,
+      basis_id_mm: id_mm,
+      basis_velocity_m_s: velocity,
       reference: ENTRANCE_EXIT_REF,
     };
   }
 
+  // L/D法 (Crane TP-410): fittings
+  if (fittingMethod === 'l_over_d' && craneData) {
+    const entry = craneData.fittings.find(f => f.id === input.fittingId);
+    if (!entry) {
+      throw new Error(`Fitting not found in Crane data: ${input.fittingId}`);
+    }
+
+    const ft = calcFtFullyTurbulent(craneData.ft_roughness_mm, id_mm).f;
+    const k = calcKCrane(entry.l_over_d, ft);
+    const loss = calcFittingLoss(k, density, velocity);
+
+    return {
+      id: input.fittingId,
+      description: entry.description,
+      quantity: input.quantity,
+      k_value: k,
+      method: 'l_over_d' as KValueMethod,
+      dp_pa: loss.dp_pa * input.quantity,
+      head_loss_m: loss.head_m * input.quantity,
+      basis_id_mm: id_mm,
+      basis_velocity_m_s: velocity,
+      reference: CRANE_REF,
+    };
+  }
+
+  // Hooper 2-K法: fittings
+  if (fittingMethod === '2k' && hooperData) {
+    const entry = hooperData.fittings.find(f => f.id === input.fittingId);
+    if (!entry) {
+      throw new Error(`Fitting not found in Hooper 2-K data: ${input.fittingId}`);
+    }
+
+    const k = calcK2K(reynolds, id_mm / 25.4, entry.k1, entry.k_inf);
+    const loss = calcFittingLoss(k, density, velocity);
+
+    return {
+      id: input.fittingId,
+      description: entry.description,
+      quantity: input.quantity,
+      k_value: k,
+      method: '2k' as KValueMethod,
+      dp_pa: loss.dp_pa * input.quantity,
+      head_loss_m: loss.head_m * input.quantity,
+      basis_id_mm: id_mm,
+      basis_velocity_m_s: velocity,
+      reference: HOOPER_2K_REF,
+    };
+  }
+
   // Darby 3-K法: fittings
   const fitting = darby3kData.fittings.find(f => f.id === input.fittingId);
   if (!fitting) {
@@ -170,6 +306,59 @@ function resolveSingleFitting(
     method: '3k' as KValueMethod,
     dp_pa: loss.dp_pa * input.quantity,
     head_loss_m: loss.head_m * input.quantity,
+    basis_id_mm: id_mm,
+    basis_velocity_m_s: velocity,
     reference: DARBY_3K_REF,
   };
 }
+
+/**
+ * 同一継手の K 値を全手法で算出して比較する
+ *
+ * 現在の Re と管径で Darby 3-K / Hooper 2-K / Crane L/D を評価し、
+ * データが存在する手法のみを並べる。
+ */
+function compareFittingKValues(
+  fittingId: string,
+  darby3kData: Darby3KData,
+  hooperData: Hooper2KData | undefined,
+  craneData: CraneData | undefined,
+  reynolds: number,
+  id_mm: number
+): FittingKComparisonSet {
+  const id_inch = id_mm / 25.4;
+  const values: FittingKComparison[] = [];
+
+  const darby = darby3kData.fittings.find(f => f.id === fittingId);
+  if (darby) {
+    values.push({
+      method: '3k',
+      k_value: calcK3K(reynolds, id_inch, darby.k1, darby.ki, darby.kd),
+      reference: DARBY_3K_REF,
+    });
+  }
+
+  const hooper = hooperData?.fittings.find(f => f.id === fittingId);
+  if (hooper) {
+    values.push({
+      method: '2k',
+      k_value: calcK2K(reynolds, id_inch, hooper.k1, hooper.k_inf),
+      reference: HOOPER_2K_REF,
+    });
+  }
+
+  const crane = craneData?.fittings.find(f => f.id === fittingId);
+  if (craneData && crane) {
+    const ft = calcFtFullyTurbulent(craneData.ft_roughness_mm, id_mm).f;
+    values.push({
+      method: 'l_over_d',
+      k_value: calcKCrane(crane.l_over_d, ft),
+      reference: CRANE_REF,
+    });
+  }
+
+  const ks = values.map(v => v.k_value);
+  const kMin = Math.min(...ks);
+  const spread = values.length >= 2 && kMin > 0 ? Math.max(...ks) / kMin - 1 : null;
+  return { values, spread };
+}
@@ -0,0 +1,350 @@
+/**
+ * 差圧式流量計（ISO 5167）— オリフィス板・ノズル・ベンチュリ管
+ *
+ * 流量式:  q_v = C/√(1−β⁴) × (π/4)d² × √(2Δp/ρ)  （液体のため膨張補正係数 ε = 1）
+ *
+ * 流出係数 C:
+ *   オリフィス板:        Reader-Harris/Gallagher 式（コーナー / フランジ / D–D/2 タップ）
+ *   ISA 1932 ノズル:     C = 0.9900 − 0.2262β^4.1 − (0.00175β² − 0.0033β^4.15)(10⁶/Re_D)^1.15
+ *   長円ノズル:          C = 0.9965 − 0.00653β^0.5 (10⁶/Re_D)^0.5
+ *   古典ベンチュリ管:    C = 0.995（機械加工縮流部）
+ *
+ * 永久圧力損失 Δϖ:
+ *   オリフィス板・ノズル: Δϖ = (√(1−β⁴(1−C²)) − Cβ²) / (√(1−β⁴(1−C²)) + Cβ²) × Δp
+ *   ベンチュリ管:         Δϖ = 0.1 Δp（ISO 5167-4 に示される 5–20 % の代表値）
+ *
+ * Re_D は管内径 D 基準のレイノルズ数。適用範囲外の条件は計算を止めず CalcWarning で返す。
+ */
+
+import { FittingInput, FittingResult, FlowElementDetail, Reference } from '../types';
+import { calcFittingLoss } from './kValue';
+import { generateFlowElementWarnings } from '../system/calcWarnings';
+
+export type FlowElementKind = 'orifice' | 'nozzle_isa1932' | 'nozzle_long_radius' | 'venturi';
+
+/** オリフィス板の差圧取出し方式 */
+export type OrificeTapping = 'corner' | 'flange' | 'd_d2';
+
+/** 流量計継手の定義（ISO 5167 の適用範囲を含む） */
+export interface FlowElementDefinition {
+  readonly id: string;
+  readonly kind: FlowElementKind;
+  /** オリフィス板のみ */
+  readonly tapping?: OrificeTapping;
+  readonly description: string;
+  readonly description_ja: string;
+  /** 適用管内径 D の範囲 (mm) */
+  readonly pipeDiameterMin_mm: number;
+  readonly pipeDiameterMax_mm: number;
+  /** 適用絞り直径比 β の範囲 */
+  readonly betaMin: number;
+  readonly betaMax: number;
+  /** 最小絞り径 d (mm)。規定のない形式は省略 */
+  readonly boreMin_mm?: number;
+  readonly reference: Reference;
+}
+
+const ORIFICE_REF: Reference = {
+  source: 'ISO 5167-2:2003',
+  equation: 'Reader-Harris/Gallagher (1998)',
+};
+
+const ISA_NOZZLE_REF: Reference = {
+  source: 'ISO 5167-3:2020',
+  equation: 'C = 0.9900 − 0.2262β^4.1 − (0.00175β² − 0.0033β^4.15)(10⁶/Re_D)^1.15',
+};
+
+const LONG_RADIUS_NOZZLE_REF: Reference = {
+  source: 'ISO 5167-3:2020',
+  equation: 'C = 0.9965 − 0.00653β^0.5(10⁶/Re_D)^0.5',
+};
+
+const VENTURI_REF: Reference = {
+  source: 'ISO 5167-4:2003',
+  equation: 'C = 0.995',
+};
+
+const orifice = (tapping: OrificeTapping, description: string, description_ja: string): FlowElementDefinition => ({
+  id: `orifice_${tapping}`,
+  kind: 'orifice',
+  tapping,
+  description,
+  description_ja,
+  pipeDiameterMin_mm: 50,
+  pipeDiameterMax_mm: 1000,
+  betaMin: 0.1,
+  betaMax: 0.75,
+  boreMin_mm: 12.5,
+  reference: ORIFICE_REF,
+});
+
+/** 流量計継手の一覧（UI 選択肢・継手解決用） */
+export const FLOW_ELEMENTS: readonly FlowElementDefinition[] = [
+  orifice('corner', 'Orifice plate (corner taps)', 'オリフィス板（コーナータップ）'),
+  orifice('flange', 'Orifice plate (flange taps)', 'オリフィス板（フランジタップ）'),
+  orifice('d_d2', 'Orifice plate (D and D/2 taps)', 'オリフィス板（D–D/2 タップ）'),
+  {
+    id: 'nozzle_isa1932',
+    kind: 'nozzle_isa1932',
+    description: 'ISA 1932 nozzle',
+    description_ja: 'ISA 1932 ノズル',
+    pipeDiameterMin_mm: 50,
+    pipeDiameterMax_mm: 500,
+    betaMin: 0.3,
+    betaMax: 0.8,
+    reference: ISA_NOZZLE_REF,
+  },
+  {
+    id: 'nozzle_long_radius',
+    kind: 'nozzle_long_radius',
+    description: 'Long radius nozzle',
+    description_ja: '長円ノズル',
+    pipeDiameterMin_mm: 50,
+    pipeDiameterMax_mm: 630,
+    betaMin: 0.2,
+    betaMax: 0.8,
+    reference: LONG_RADIUS_NOZZLE_REF,
+  },
+  {
+    id: 'venturi',
+    kind: 'venturi',
+    description: 'Classical Venturi tube (machined convergent)',
+    description_ja: '古典ベンチュリ管（機械加工縮流部）',
+    pipeDiameterMin_mm: 50,
+    pipeDiameterMax_mm: 250,
+    betaMin: 0.4,
+    betaMax: 0.75,
+    reference: VENTURI_REF,
+  },
+];
+
+/** ベンチュリ管の永久圧力損失 / 差圧 */
+const VENTURI_LOSS_RATIO = 0.1;
+
+/** 絞り径逆算時の β 探索範囲 */
+const BETA_SEARCH_MIN = 0.05;
+const BETA_SEARCH_MAX = 0.95;
+const BISECTION_ITERATIONS = 60;
+
+/**
+ * 継手 ID から流量計の定義を取得する（流量計でなければ undefined）
+ */
+export function findFlowElement(fittingId: string): FlowElementDefinition | undefined {
+  return FLOW_ELEMENTS.find(e => e.id === fittingId);
+}
+
+/**
+ * 差圧取出し位置 L₁ = l₁/D, L₂' = l₂'/D（オリフィス板）
+ */
+function tappingDistances(tapping: OrificeTapping, pipeDiameter_mm: number): { l1: number; l2: number } {
+  switch (tapping) {
+    case 'corner':
+      return { l1: 0, l2: 0 };
+    case 'd_d2':
+      return { l1: 1, l2: 0.47 };
+    case 'flange':
+      return { l1: 25.4 / pipeDiameter_mm, l2: 25.4 / pipeDiameter_mm };
+  }
+}
+
+/**
+ * 流出係数 C
+ *
+ * @param element - 流量計の定義
+ * @param beta - 絞り直径比 β = d/D
+ * @param reynolds - 管内径基準のレイノルズ数 Re_D
+ * @param pipeDiameter_mm - 管内径 D (mm)
+ */
+export function calcDischargeCoefficient(
+  element: FlowElementDefinition,
+  beta: number,
+  reynolds: number,
+  pipeDiameter_mm: number
+): number {
+  if (reynolds <= 0) throw new Error('Reynolds number must be positive');
+  switch (element.kind) {
+    case 'orifice': {
+      const { l1, l2 } = tappingDistances(element.tapping ?? 'corner', pipeDiameter_mm);
+      const a = Math.pow(19000 * beta / reynolds, 0.8);
+      const m2 = 2 * l2 / (1 - beta);
+      const beta4 = Math.pow(beta, 4);
+      let c = 0.5961 + 0.0261 * beta * beta - 0.216 * Math.pow(beta, 8)
+        + 0.000521 * Math.pow(1e6 * beta / reynolds, 0.7)
+        + (0.0188 + 0.0063 * a) * Math.pow(beta, 3.5) * Math.pow(1e6 / reynolds, 0.3)
+        + (0.043 + 0.080 * Math.exp(-10 * l1) - 0.123 * Math.exp(-7 * l1)) * (1 - 0.11 * a) * beta4 / (1 - beta4)
+        - 0.031 * (m2 - 0.8 * Math.pow(m2, 1.1)) * Math.pow(beta, 1.3);
+      // 小口径管 (D < 71.12 mm) の補正項
+      if (pipeDiameter_mm < 71.12) {
+        c += 0.011 * (0.75 - beta) * (2.8 - pipeDiameter_mm / 25.4);
+      }
+      return c;
+    }
+    case 'nozzle_isa1932':
+      return 0.9900 - 0.2262 * Math.pow(beta, 4.1)
+        - (0.00175 * beta * beta - 0.0033 * Math.pow(beta, 4.15)) * Math.pow(1e6 / reynolds, 1.15);
+    case 'nozzle_long_radius':
+      return 0.9965 - 0.00653 * Math.sqrt(beta) * Math.sqrt(1e6 / reynolds);
+    case 'venturi':
+      return 0.995;
+  }
+}
+
+/**
+ * 永久圧力損失 Δϖ (Pa)
+ *
+ * @param element - 流量計の定義
+ * @param beta - 絞り直径比
+ * @param dischargeCoefficient - 流出係数 C
+ * @param measuredDp_pa - 測定差圧 Δp (Pa)
+ */
+export function calcPermanentPressureLoss(
+  element: FlowElementDefinition,
+  beta: number,
+  dischargeCoefficient: number,
+  measuredDp_pa: number
+): number {
+  if (element.kind === 'venturi') return VENTURI_LOSS_RATIO * measuredDp_pa;
+  const cb2 = dischargeCoefficient * beta * beta;
+  const root = Math.sqrt(1 - Math.pow(beta, 4) * (1 - dischargeCoefficient * dischargeCoefficient));
+  return (root - cb2) / (root + cb2) * measuredDp_pa;
+}
+
+/**
+ * Re_D の適用範囲（ISO 5167-2/3/4）
+ */
+function reynoldsLimits(element: FlowElementDefinition, beta: number, pipeDiameter_mm: number): { min: number; max?: number } {
+  switch (element.kind) {
+    case 'orifice':
+      if (element.tapping === 'flange') return { min: Math.max(5000, 170 * beta * beta * pipeDiameter_mm) };
+      return { min: beta <= 0.56 ? 5000 : 16000 * beta * beta };
+    case 'nozzle_isa1932':
+      return { min: beta < 0.44 ? 7e4 : 2e4, max: 1e7 };
+    case 'nozzle_long_radius':
+      return { min: 1e4, max: 1e7 };
+    case 'venturi':
+      return { min: 2e5, max: 1e6 };
+  }
+}
+
+/**
+ * 流量計の差圧・永久圧力損失を計算する
+ *
+ * @param element - 流量計の定義
+ * @param pipeDiameter_mm - 管内径 D (mm)
+ * @param bore_mm - 絞り径 d (mm)
+ * @param flowRate_m3s - 体積流量 (m³/s)
+ * @param density - 密度 (kg/m³)
+ * @param reynolds - 管内径基準のレイノルズ数 Re_D
+ * @returns FlowElementDetail（1 個あたり）
+ */
+export function calcFlowElement(
+  element: FlowElementDefinition,
+  pipeDiameter_mm: number,
+  bore_mm: number,
+  flowRate_m3s: number,
+  density: number,
+  reynolds: number
+): FlowElementDetail {
+  if (!(bore_mm > 0 && bore_mm < pipeDiameter_mm)) {
+    throw new Error(`${element.description}: bore diameter must be between 0 and the pipe inner diameter`);
+  }
+  const beta = bore_mm / pipeDiameter_mm;
+  const dischargeCoefficient = calcDischargeCoefficient(element, beta, reynolds, pipeDiameter_mm);
+  const boreArea_m2 = Math.PI / 4 * Math.pow(bore_mm / 1000, 2);
+  const velocityOfApproach = 1 / Math.sqrt(1 - Math.pow(beta, 4));
+  const measuredDp_pa = density / 2 * Math.pow(flowRate_m3s / (dischargeCoefficient * velocityOfApproach * boreArea_m2), 2);
+  const permanentLoss_pa = calcPermanentPressureLoss(element, beta, dischargeCoefficient, measuredDp_pa);
+
+  const limits = reynoldsLimits(element, beta, pipeDiameter_mm);
+  const warnings = generateFlowElementWarnings({
+    pipeDiameter_mm,
+    bore_mm,
+    beta,
+    reynolds,
+    pipeDiameterMin_mm: element.pipeDiameterMin_mm,
+    pipeDiameterMax_mm: element.pipeDiameterMax_mm,
+    betaMin: element.betaMin,
+    betaMax: element.betaMax,
+    boreMin_mm: element.boreMin_mm,
+    reynoldsMin: limits.min,
+    reynoldsMax: limits.max,
+  });
+
+  return { bore_mm, beta, dischargeCoefficient, measuredDp_pa, permanentLoss_pa, warnings };
+}
+
+/**
+ * 最大流量で目標差圧となる絞り径を求める
+ *
+ * 差圧は β に対して単調減少するため、β を二分法で探索する。
+ *
+ * @param element - 流量計の定義
+ * @param pipeDiameter_mm - 管内径 D (mm)
+ * @param flowRate_m3s - 最大体積流量 (m³/s)
+ * @param density - 密度 (kg/m³)
+ * @param reynolds - 最大流量時の Re_D
+ * @param targetDp_pa - 最大流量時の目標差圧 (Pa)
+ * @returns 求めた絞り径での FlowElementDetail
+ */
+export function sizeFlowElementBore(
+  element: FlowElementDefinition,
+  pipeDiameter_mm: number,
+  flowRate_m3s: number,
+  density: number,
+  reynolds: number,
+  targetDp_pa: number
+): FlowElementDetail {
+  if (flowRate_m3s <= 0) throw new Error('Flow rate must be positive');
+  if (targetDp_pa <= 0) throw new Error('Target differential pressure must be positive');
+
+  const evaluate = (beta: number) =>
+    calcFlowElement(element, pipeDiameter_mm, beta * pipeDiameter_mm, flowRate_m3s, density, reynolds);
+
+  let lo = BETA_SEARCH_MIN;
+  let hi = BETA_SEARCH_MAX;
+  if (targetDp_pa > evaluate(lo).measuredDp_pa || targetDp_pa < evaluate(hi).measuredDp_pa) {
+    throw new Error(`${element.description}: target differential pressure is not achievable for β in [${BETA_SEARCH_MIN}, ${BETA_SEARCH_MAX}]`);
+  }
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (evaluate(mid).measuredDp_pa > targetDp_pa) lo = mid;
+    else hi = mid;
+  }
+  return evaluate((lo + hi) / 2);
+}
+
+/**
+ * 流量計継手を FittingResult に解決する（継手損失には永久圧力損失を計上）
+ *
+ * @param velocity - 管内流速 (m/s)。等価 K 値の基準
+ */
+export function resolveFlowElementFitting(
+  element: FlowElementDefinition,
+  input: FittingInput,
+  id_mm: number,
+  density: number,
+  velocity: number,
+  reynolds: number
+): FittingResult {
+  if (input.boreDiameter_mm === undefined) {
+    throw new Error(`Flow element "${input.fittingId}" requires boreDiameter_mm`);
+  }
+  const flowRate_m3s = velocity * Math.PI / 4 * Math.pow(id_mm / 1000, 2);
+  const detail = calcFlowElement(element, id_mm, input.boreDiameter_mm, flowRate_m3s, density, reynolds);
+  const k = velocity > 0 ? detail.permanentLoss_pa / (density * velocity * velocity / 2) : 0;
+  const loss = calcFittingLoss(k, density, velocity);
+
+  return {
+    id: input.fittingId,
+    description: element.description,
+    quantity: input.quantity,
+    k_value: k,
+    method: 'iso5167',
+    dp_pa: loss.dp_pa * input.quantity,
+    head_loss_m: loss.head_m * input.quantity,
+    basis_id_mm: id_mm,
+    basis_velocity_m_s: velocity,
+    reference: element.reference,
+    flowElement: detail,
+  };
+}
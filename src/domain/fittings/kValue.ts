@@ -3,6 +3,7 @@
  *
  * - L/D法: K = f_T × (L/D)
  * - Darby 3-K法: K = K₁/Re + K_i × (1 + K_d/D^0.3)
+ * - Hooper 2-K法: K = K₁/Re + K∞ × (1 + 1/D)
  * - Cv変換: K = 894 × d⁴ / Cv² (d in inches)
  * - 固定K: 入口・出口など（パイプサイズ非依存）
  */
@@ -14,6 +15,17 @@ const DARBY_3K_REF: Reference = {
   equation: 'K = K₁/Re + K_i×(1 + K_d/D^0.3)',
 };
 
+const HOOPER_2K_REF: Reference = {
+  source: 'Hooper, 1981',
+  equation: 'K = K₁/Re + K∞×(1 + 1/D)',
+};
+
+const CRANE_REF: Reference = {
+  source: 'Crane TP-410, 2013',
+  page: 'A-27 – A-30',
+  equation: 'K = f_T × (L/D)',
+};
+
 const CV_REF: Reference = {
   source: 'ISA-75.01 / IEC 60534',
   equation: 'K = 894 × d⁴ / Cv²',
@@ -50,6 +62,24 @@ export function calcK3K(
   return k1 / re + ki * (1 + kd / Math.pow(id_inch, 0.3));
 }
 
+/**
+ * Hooper 2-K法でK値を計算
+ * K = K₁/Re + K∞ × (1 + 1/D_inch)
+ *
+ * @param re レイノルズ数
+ * @param id_inch 管内径 (inches)
+ * @param k1 K₁ 係数
+ * @param kInf K∞ 係数
+ */
+export function calcK2K(
+  re: number,
+  id_inch: number,
+  k1: number,
+  kInf: number
+): number {
+  return k1 / re + kInf * (1 + 1 / id_inch);
+}
+
 /**
  * Cv値からK値に変換
  * K = 894 × d⁴ / Cv²
@@ -101,4 +131,4 @@ const USER_K_REF: Reference = {
   equation: 'K = (user-specified)',
 };
 
-export { DARBY_3K_REF, CV_REF, USER_K_REF };
+export { DARBY_3K_REF, HOOPER_2K_REF, CRANE_REF, CV_REF, USER_K_REF };
@@ -0,0 +1,116 @@
+/**
+ * 口径変化（縮小・拡大）の損失係数
+ *
+ * Crane TP-410 の式で K を算出する。K は小径側の流速を基準とする:
+ *   β = d_small / d_large
+ *   急縮小・円錐縮小 (θ ≤ 45°):  K = 0.8 sin(θ/2) (1 − β²)
+ *   急縮小・円錐縮小 (θ > 45°):  K = 0.5 √sin(θ/2) (1 − β²)
+ *   急拡大・円錐拡大 (θ ≤ 45°):  K = 2.6 sin(θ/2) (1 − β²)²
+ *   急拡大・円錐拡大 (θ > 45°):  K = (1 − β²)²
+ *
+ * θ は円錐部の全頂角。θ = 180° で急縮小・急拡大となる。
+ */
+
+import { FittingResult, PipeTransition, Reference } from '../types';
+import { calcFittingLoss } from './kValue';
+
+/** 急縮小・急拡大の全頂角 (deg) */
+export const SUDDEN_TRANSITION_ANGLE_DEG = 180;
+
+const CONTRACTION_REF: Reference = {
+  source: 'Crane TP-410, 2013',
+  page: 'A-26',
+  equation: 'K₁ = 0.8 sin(θ/2)(1−β²) (θ≤45°), 0.5√sin(θ/2)(1−β²) (θ>45°)',
+};
+
+const EXPANSION_REF: Reference = {
+  source: 'Crane TP-410, 2013',
+  page: 'A-26',
+  equation: 'K₁ = 2.6 sin(θ/2)(1−β²)² (θ≤45°), (1−β²)² (θ>45°)',
+};
+
+function validateTransition(beta: number, angle_deg: number): void {
+  if (!(beta > 0 && beta <= 1)) throw new Error('Diameter ratio β must be in (0, 1]');
+  if (!(angle_deg > 0 && angle_deg <= 180)) throw new Error('Transition angle must be in (0, 180] degrees');
+}
+
+/**
+ * 縮小部の K 値（小径 = 下流側の流速基準）
+ *
+ * @param beta 径比 d_small / d_large
+ * @param angle_deg 全頂角 (deg)
+ */
+export function calcKContraction(beta: number, angle_deg: number): number {
+  validateTransition(beta, angle_deg);
+  const halfAngle = (angle_deg / 2) * Math.PI / 180;
+  const area = 1 - beta * beta;
+  return angle_deg <= 45
+    ? 0.8 * Math.sin(halfAngle) * area
+    : 0.5 * Math.sqrt(Math.sin(halfAngle)) * area;
+}
+
+/**
+ * 拡大部の K 値（小径 = 上流側の流速基準）
+ *
+ * @param beta 径比 d_small / d_large
+ * @param angle_deg 全頂角 (deg)
+ */
+export function calcKExpansion(beta: number, angle_deg: number): number {
+  validateTransition(beta, angle_deg);
+  const halfAngle = (angle_deg / 2) * Math.PI / 180;
+  const area = 1 - beta * beta;
+  return angle_deg <= 45
+    ? 2.6 * Math.sin(halfAngle) * area * area
+    : area * area;
+}
+
+/**
+ * 上流区間との口径変化を FittingResult として解決する
+ *
+ * 損失は小径側の流速で評価し、基準内径・基準流速を結果に明示する。
+ * 上流と下流の内径が等しい場合は null を返す。
+ *
+ * @param transition 上流内径と全頂角
+ * @param id_mm 下流（当該区間）の管内径 (mm)
+ * @param velocity 下流（当該区間）の流速 (m/s)
+ * @param density 流体密度 (kg/m³)
+ */
+export function resolveTransition(
+  transition: PipeTransition,
+  id_mm: number,
+  velocity: number,
+  density: number
+): FittingResult | null {
+  const upstream_id_mm = transition.upstream_id_mm;
+  if (upstream_id_mm <= 0) throw new Error('Upstream diameter must be positive');
+  if (upstream_id_mm === id_mm) return null;
+
+  const angle_deg = transition.angle_deg ?? SUDDEN_TRANSITION_ANGLE_DEG;
+  const isContraction = upstream_id_mm > id_mm;
+  const small_id_mm = Math.min(upstream_id_mm, id_mm);
+  const beta = small_id_mm / Math.max(upstream_id_mm, id_mm);
+
+  // 連続式: V_small = V × (D / D_small)²
+  const basis_velocity = velocity * (id_mm / small_id_mm) ** 2;
+  const k = isContraction ? calcKContraction(beta, angle_deg) : calcKExpansion(beta, angle_deg);
+  const loss = calcFittingLoss(k, density, basis_velocity);
+
+  const sudden = angle_deg === SUDDEN_TRANSITION_ANGLE_DEG;
+  const kind = isContraction
+    ? (sudden ? 'Sudden contraction' : `Conical contraction θ=${angle_deg}°`)
+    : (sudden ? 'Sudden expansion' : `Conical expansion θ=${angle_deg}°`);
+  const idPrefix = isContraction ? 'contraction' : 'expansion';
+
+  return {
+    id: `${idPrefix}_${sudden ? 'sudden' : 'conical'}`,
+    description: `${kind} ${upstream_id_mm.toFixed(1)} → ${id_mm.toFixed(1)} mm`,
+    quantity: 1,
+    k_value: k,
+    method: 'size_change',
+    dp_pa: loss.dp_pa,
+    head_loss_m: loss.head_m,
+    basis_id_mm: small_id_mm,
+    basis_velocity_m_s: basis_velocity,
+    reference: isContraction ? CONTRACTION_REF : EXPANSION_REF,
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { calcSolutionVaporPressure } from '../aqueousSolution';
+
+describe('calcSolutionVaporPressure', () => {
+  const pw = 2.339; // 水 20°C
+
+  it('returns the water vapor pressure at zero concentration', () => {
+    expect(calcSolutionVaporPressure(0, 'wt%', 'melinder', pw, { molarMass_g_mol: 62.07, dissociation: 1 })).toBeCloseTo(pw, 10);
+  });
+
+  it('lowers the vapor pressure by the water mole fraction (Raoult)', () => {
+    // EG 30 wt%: n_w = 0.7/18.015 = 0.03886, n_s = 0.3/62.07 = 0.004833 → x_w = 0.8894
+    const pv = calcSolutionVaporPressure(30, 'wt%', 'melinder', pw, { molarMass_g_mol: 62.07, dissociation: 1 });
+    expect(pv / pw).toBeCloseTo(0.8894, 3);
+  });
+
+  it('counts dissociated ions for electrolytes', () => {
+    const nonDissociated = calcSolutionVaporPressure(10, 'wt%', 'laliberte', pw, { molarMass_g_mol: 58.44, dissociation: 1 });
+    const nacl = calcSolutionVaporPressure(10, 'wt%', 'laliberte', pw, { molarMass_g_mol: 58.44, dissociation: 2 });
+    expect(nacl).toBeLessThan(nonDissociated);
+    // NaCl 10 wt%: n_w = 0.04996, 2·n_s = 0.003422 → x_w = 0.9359
+    expect(nacl / pw).toBeCloseTo(0.9359, 3);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { getGasProperties, calcCompressibilityFactor, calcNormalDensity, GasData } from '../gasProperties';
+import gasesJson from '../../../../data/fluid-properties/gases.json';
+
+const gasData = gasesJson as unknown as GasData;
+const gas = (id: string) => gasData.gases.find(g => g.id === id)!;
+const ref = { source: gasData.referenceId };
+
+describe('getGasProperties', () => {
+  it('should give the ideal-gas density of air at 20 °C, 101.325 kPa', () => {
+    const air = getGasProperties(20, 101.325, gas('air'), ref);
+    // ρ = P/(RT) = 101325 / (287.05 × 293.15) ≈ 1.204 kg/m³
+    expect(air.density).toBeCloseTo(1.204, 3);
+    expect(air.gasConstant).toBeCloseTo(287.05, 1);
+    expect(air.viscosity).toBeCloseTo(1.813e-5, 8);
+    expect(air.gamma).toBe(1.4);
+  });
+
+  it('should scale density linearly with absolute pressure', () => {
+    const low = getGasProperties(20, 100, gas('nitrogen'), ref);
+    const high = getGasProperties(20, 800, gas('nitrogen'), ref);
+    expect(high.density / low.density).toBeCloseTo(8, 10);
+  });
+
+  it('should interpolate viscosity between table points', () => {
+    const air = getGasProperties(35, 101.325, gas('air'), ref);
+    expect(air.viscosity).toBeCloseTo((1.813e-5 + 1.957e-5) / 2, 9);
+  });
+
+  it('should throw outside the viscosity table range', () => {
+    expect(() => getGasProperties(400, 101.325, gas('air'), ref)).toThrow(RangeError);
+  });
+
+  it('should reject non-positive absolute pressure', () => {
+    expect(() => getGasProperties(20, 0, gas('air'), ref)).toThrow('Absolute pressure');
+  });
+});
+
+describe('calcCompressibilityFactor', () => {
+  it('should be close to 1 for air at atmospheric pressure', () => {
+    expect(calcCompressibilityFactor(293.15, 101.325, gas('air'))).toBeCloseTo(1, 2);
+  });
+
+  it('should deviate strongly for CO₂ near its critical point', () => {
+    // T_r ≈ 0.96, P_r ≈ 0.68 → Z ≈ 0.73
+    const z = calcCompressibilityFactor(293.15, 5000, gas('carbon_dioxide'));
+    expect(z).toBeLessThan(0.8);
+  });
+});
+
+describe('calcNormalDensity', () => {
+  it('should give ≈ 1.292 kg/Nm³ for air (M = 28.96)', () => {
+    expect(calcNormalDensity(gas('air'))).toBeCloseTo(1.292, 3);
+  });
+});
@@ -227,3 +227,41 @@ export function getSolutionProperties(
     }
   }
 }
+
+// ── 蒸気圧（ラウール則） ──
+
+/** 不揮発性溶質の分子量と解離で生じる粒子数（ファントホッフ係数 i） */
+export interface NonVolatileSolute {
+  readonly molarMass_g_mol: number;
+  readonly dissociation: number;
+}
+
+/** 水の分子量 (g/mol) */
+const WATER_MOLAR_MASS = 18.015;
+
+/**
+ * 不揮発性溶質の水溶液の蒸気圧（ラウール則・理想溶液近似）
+ *
+ * p_v = x_w · p_sat,w(T),  x_w = n_w / (n_w + i·n_s)
+ * 揮発性溶質（アルコール・塩酸など）には適用できない。
+ *
+ * @param concentration - 濃度（単位は concentrationUnit に依存）
+ * @param concentrationUnit - 濃度単位
+ * @param method - 物性計算モデル（濃度変換に使用）
+ * @param waterVaporPressure_kpa - 同温度の水の飽和蒸気圧 (kPa)
+ * @param solute - 溶質の分子量・解離数
+ * @returns 蒸気圧 (kPa)
+ */
+export function calcSolutionVaporPressure(
+  concentration: number,
+  concentrationUnit: ConcentrationUnit,
+  method: SolutionMethod,
+  waterVaporPressure_kpa: number,
+  solute: NonVolatileSolute
+): number {
+  const w = toMassFraction(concentration, concentrationUnit, method);
+  if (w < 0 || w >= 1) throw new Error('Mass fraction must be in [0, 1)');
+  const nWater = (1 - w) / WATER_MOLAR_MASS;
+  const nSolute = solute.dissociation * w / solute.molarMass_g_mol;
+  return waterVaporPressure_kpa * nWater / (nWater + nSolute);
+}
@@ -2,7 +2,7 @@
  * 汎用流体物性取得 — テーブル補間方式
  *
  * 任意の流体データ (FluidTableData) に対して
- * 温度から密度・粘度を線形補間で取得する。
+ * 温度から密度・粘度・比熱を線形補間で取得する。
  * water.json / seawater.json / ethylene-glycol-*.json 等すべてに対応。
  */
 
@@ -40,12 +40,14 @@ export function getFluidProperties(
   const densityTable: TablePoint[] = table.map(e => ({ x: e.temp_c, y: e.density_kg_m3 }));
   const viscosityTable: TablePoint[] = table.map(e => ({ x: e.temp_c, y: e.viscosity_pa_s }));
   const pressureTable: TablePoint[] = table.map(e => ({ x: e.temp_c, y: e.pressure_kpa }));
+  const specificHeatTable: TablePoint[] = table.map(e => ({ x: e.temp_c, y: e.specific_heat_j_kgk }));
 
   return {
     density: linearInterpolate(temp_c, densityTable),
     viscosity: linearInterpolate(temp_c, viscosityTable),
     temperature: temp_c,
     pressure: linearInterpolate(temp_c, pressureTable),
+    specificHeat: linearInterpolate(temp_c, specificHeatTable),
     reference,
   };
 }
@@ -0,0 +1,104 @@
+/**
+ * 気体物性 — 理想気体 + 粘度テーブル補間
+ *
+ * 密度は理想気体の状態方程式 ρ = P/(RT)、粘度は低圧粘度テーブルの線形補間
+ * （粘度の圧力依存は無視）。圧縮係数 Z は理想気体仮定の妥当性判定のため
+ * Pitzer の第 2 ビリアル相関 (Abbott 式) で推算する:
+ *   Z = 1 + (B⁰ + ωB¹) P_r/T_r
+ *   B⁰ = 0.083 − 0.422/T_r^1.6,  B¹ = 0.139 − 0.172/T_r^4.2
+ */
+
+import { GasProperties, Reference } from '../types';
+import { linearInterpolate, TablePoint } from './interpolate';
+
+/** 一般気体定数 R₀ (J/(kmol·K)) */
+export const UNIVERSAL_GAS_CONSTANT = 8314.462618;
+
+/** 絶対温度への換算オフセット (K) */
+export const KELVIN_OFFSET = 273.15;
+
+/** ノルマル状態 (Nm³) の圧力 (kPa abs) */
+export const NORMAL_PRESSURE_KPA = 101.325;
+
+/** ノルマル状態 (Nm³) の温度 (°C) */
+export const NORMAL_TEMPERATURE_C = 0;
+
+export interface GasViscosityEntry {
+  readonly temp_c: number;
+  readonly viscosity_pa_s: number;
+}
+
+/** 気体データのエントリ型 */
+export interface GasEntry {
+  readonly id: string;
+  readonly name: string;
+  readonly name_ja: string;
+  readonly molarMass_kg_kmol: number;
+  readonly gamma: number;
+  readonly criticalTemperature_k: number;
+  readonly criticalPressure_kpa: number;
+  readonly acentricFactor: number;
+  readonly viscosity_table: readonly GasViscosityEntry[];
+}
+
+/** 気体データのルート型 */
+export interface GasData {
+  readonly referenceId: string;
+  readonly description: string;
+  readonly gases: readonly GasEntry[];
+}
+
+/**
+ * Pitzer 第 2 ビリアル相関による圧縮係数 Z の推算
+ *
+ * 適用目安は V_r ≥ 2（概ね P_r が小さい領域）。理想気体からの乖離の判定に用いる。
+ *
+ * @param temperature_k 絶対温度 (K)
+ * @param pressure_kpa 絶対圧 (kPa)
+ * @param gas 気体データ
+ */
+export function calcCompressibilityFactor(temperature_k: number, pressure_kpa: number, gas: GasEntry): number {
+  if (temperature_k <= 0) throw new Error('Absolute temperature must be positive');
+  const tr = temperature_k / gas.criticalTemperature_k;
+  const pr = pressure_kpa / gas.criticalPressure_kpa;
+  const b0 = 0.083 - 0.422 / Math.pow(tr, 1.6);
+  const b1 = 0.139 - 0.172 / Math.pow(tr, 4.2);
+  return 1 + (b0 + gas.acentricFactor * b1) * pr / tr;
+}
+
+/**
+ * 温度 (°C)・絶対圧 (kPa) から気体物性を取得する。
+ * 粘度テーブル範囲外は RangeError をスローする。
+ */
+export function getGasProperties(
+  temp_c: number,
+  pressure_kpa: number,
+  gas: GasEntry,
+  reference: Reference
+): GasProperties {
+  if (pressure_kpa <= 0) throw new Error('Absolute pressure must be positive');
+
+  const viscosityTable: TablePoint[] = gas.viscosity_table.map(e => ({ x: e.temp_c, y: e.viscosity_pa_s }));
+  const temperature_k = temp_c + KELVIN_OFFSET;
+  const gasConstant = UNIVERSAL_GAS_CONSTANT / gas.molarMass_kg_kmol;
+
+  return {
+    molarMass: gas.molarMass_kg_kmol,
+    gamma: gas.gamma,
+    gasConstant,
+    viscosity: linearInterpolate(temp_c, viscosityTable),
+    density: pressure_kpa * 1000 / (gasConstant * temperature_k),
+    compressibility: calcCompressibilityFactor(temperature_k, pressure_kpa, gas),
+    temperature: temp_c,
+    pressure_kpa,
+    reference,
+  };
+}
+
+/**
+ * ノルマル状態 (0 °C, 101.325 kPa abs) の理想気体密度 (kg/Nm³)
+ */
+export function calcNormalDensity(gas: GasEntry): number {
+  const gasConstant = UNIVERSAL_GAS_CONSTANT / gas.molarMass_kg_kmol;
+  return NORMAL_PRESSURE_KPA * 1000 / (gasConstant * (NORMAL_TEMPERATURE_C + KELVIN_OFFSET));
+}
@@ -2,7 +2,7 @@
  * 水の物性取得 — テーブル補間方式
  *
  * data/fluid-properties/water.json の飽和水テーブルを使用し、
- * 温度を指定して密度・粘度を線形補間で取得する。
+ * 温度を指定して密度・粘度・比熱を線形補間で取得する。
  */
 
 import { FluidProperties, Reference } from '../types';
@@ -43,12 +43,14 @@ export function getWaterProperties(
   const densityTable: TablePoint[] = table.map(e => ({ x: e.temp_c, y: e.density_kg_m3 }));
   const viscosityTable: TablePoint[] = table.map(e => ({ x: e.temp_c, y: e.viscosity_pa_s }));
   const pressureTable: TablePoint[] = table.map(e => ({ x: e.temp_c, y: e.pressure_kpa }));
+  const specificHeatTable: TablePoint[] = table.map(e => ({ x: e.temp_c, y: e.specific_heat_j_kgk }));
 
   return {
     density: linearInterpolate(temp_c, densityTable),
     viscosity: linearInterpolate(temp_c, viscosityTable),
     temperature: temp_c,
     pressure: linearInterpolate(temp_c, pressureTable),
+    specificHeat: linearInterpolate(temp_c, specificHeatTable),
     reference: WATER_REFERENCE,
   };
 }
@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { solveNetwork } from '../networkSolver';
+import { NetworkInput, NetworkLink, NetworkNode } from '../types';
+import { calcSegmentPressureDrop } from '../../system/pressureDrop';
+import { PipeSpec, PipeMaterial, FluidProperties, GRAVITY } from '../../types';
+import { Darby3KData, EntranceExitData } from '../../fittings/fittingLoss';
+import darby3kJson from '../../../../data/fittings-db/darby-3k.json';
+import entranceExitJson from '../../../../data/fittings-db/entrance-exit-k.json';
+
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+// 2" Sch40 ANSI pipe
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+// 3" Sch40 ANSI pipe
+const pipe3inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '3',
+  dn: 80,
+  od_mm: 88.9,
+  wall_mm: 5.49,
+  id_mm: 77.93,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const water20C: FluidProperties = {
+  density: 998.2,
+  viscosity: 1.002e-3,
+  temperature: 20,
+  pressure: 2.339,
+  reference: { source: 'IAPWS-IF97' },
+};
+
+const link = (id: string, from: string, to: string, length_m: number, pipe = pipe2inch): NetworkLink => ({
+  id, fromNodeId: from, toNodeId: to, pipe, material: carbonSteel, length_m, fittings: [],
+});
+
+const demandNode = (id: string, demand_m3h: number, elevation_m = 0): NetworkNode => ({
+  id, elevation_m, boundary: { type: 'fixed_demand', demand_m3s: demand_m3h / 3600 },
+});
+
+const pressureNode = (id: string, pressure_pa: number, elevation_m = 0): NetworkNode => ({
+  id, elevation_m, boundary: { type: 'fixed_pressure', pressure_pa },
+});
+
+describe('solveNetwork', () => {
+  it('series network should match calcSegmentPressureDrop', () => {
+    // 供給源 → 1 本の管路 → 需要 10 m³/h（高低差 +5 m）
+    const input: NetworkInput = {
+      nodes: [pressureNode('S', 300000), demandNode('D', 10, 5)],
+      links: [link('L1', 'S', 'D', 50)],
+      fluid: water20C,
+    };
+    const result = solveNetwork(input, darby3kData, entranceExitData);
+
+    const direct = calcSegmentPressureDrop({
+      pipe: pipe2inch,
+      material: carbonSteel,
+      fluid: water20C,
+      flowRate_m3s: 10 / 3600,
+      length_m: 50,
+      elevation_m: 5,
+      fittings: [],
+    }, darby3kData, entranceExitData);
+
+    expect(result.converged).toBe(true);
+    expect(result.links[0].flowRate_m3s).toBeCloseTo(10 / 3600, 8);
+    expect(result.links[0].dp_pa).toBeCloseTo(direct.dp_total, 0);
+    const nodeD = result.nodes.find(n => n.nodeId === 'D')!;
+    expect(nodeD.pressure_pa).toBeCloseTo(300000 - direct.dp_total, 0);
+  });
+
+  it('identical parallel branches should split flow equally', () => {
+    const input: NetworkInput = {
+      nodes: [pressureNode('S', 200000), demandNode('A', 0), demandNode('B', 20)],
+      links: [
+        link('feed', 'S', 'A', 10, pipe3inch),
+        link('br1', 'A', 'B', 30),
+        link('br2', 'A', 'B', 30),
+      ],
+      fluid: water20C,
+    };
+    const result = solveNetwork(input, darby3kData, entranceExitData);
+
+    expect(result.converged).toBe(true);
+    expect(result.links[1].flowRate_m3s).toBeCloseTo(10 / 3600, 8);
+    expect(result.links[2].flowRate_m3s).toBeCloseTo(10 / 3600, 8);
+  });
+
+  it('shorter parallel branch should carry more flow with equal head loss', () => {
+    const input: NetworkInput = {
+      nodes: [pressureNode('S', 200000), demandNode('B', 20)],
+      links: [link('short', 'S', 'B', 20), link('long', 'S', 'B', 80)],
+      fluid: water20C,
+    };
+    const result = solveNetwork(input, darby3kData, entranceExitData);
+    const [short, long] = result.links;
+
+    expect(short.flowRate_m3s).toBeGreaterThan(long.flowRate_m3s);
+    expect(short.flowRate_m3s + long.flowRate_m3s).toBeCloseTo(20 / 3600, 8);
+    // 並列枝の損失は等しい
+    expect(short.dp_pa).toBeCloseTo(long.dp_pa, 0);
+  });
+
+  it('looped network should satisfy continuity and loop head balance', () => {
+    // S → A → B → C → A のリング + B, C で需要
+    const input: NetworkInput = {
+      nodes: [
+        pressureNode('S', 400000),
+        demandNode('A', 0),
+        demandNode('B', 8, 2),
+        demandNode('C', 12, -1),
+      ],
+      links: [
+        link('feed', 'S', 'A', 20, pipe3inch),
+        link('AB', 'A', 'B', 60),
+        link('BC', 'B', 'C', 40),
+        link('AC', 'A', 'C', 90),
+      ],
+      fluid: water20C,
+    };
+    const result = solveNetwork(input, darby3kData, entranceExitData);
+    expect(result.converged).toBe(true);
+
+    const q = Object.fromEntries(result.links.map(l => [l.linkId, l.flowRate_m3s]));
+    // ノード連続式
+    expect(q.feed).toBeCloseTo(20 / 3600, 8);
+    expect(q.AB - q.BC).toBeCloseTo(8 / 3600, 8);
+    expect(q.BC + q.AC).toBeCloseTo(12 / 3600, 8);
+
+    // ループの水頭収支: A→B→C と A→C のピエゾ水頭差が一致
+    const head = Object.fromEntries(result.nodes.map(n => [n.nodeId, n.head_m]));
+    const byId = Object.fromEntries(result.links.map(l => [l.linkId, l]));
+    const lossHead = (id: string) =>
+      Math.sign(byId[id].flowRate_m3s) *
+      (byId[id].segmentResult.head_friction_m + byId[id].segmentResult.head_fittings_m);
+    expect(head.A - head.C).toBeCloseTo(lossHead('AB') + lossHead('BC'), 3);
+    expect(head.A - head.C).toBeCloseTo(lossHead('AC'), 3);
+  });
+
+  it('should report supply at fixed-pressure nodes and node pressure from head', () => {
+    const input: NetworkInput = {
+      nodes: [pressureNode('S', 250000, 3), demandNode('D', 15)],
+      links: [link('L1', 'S', 'D', 40)],
+      fluid: water20C,
+    };
+    const result = solveNetwork(input, darby3kData, entranceExitData);
+    const s = result.nodes.find(n => n.nodeId === 'S')!;
+
+    expect(s.outflow_m3s).toBeCloseTo(-15 / 3600, 8);
+    expect(s.head_m).toBeCloseTo(250000 / (998.2 * GRAVITY) + 3, 6);
+  });
+
+  it('should solve reverse flow between two reservoirs', () => {
+    // to 側の圧力が高い → 負の流量
+    const input: NetworkInput = {
+      nodes: [pressureNode('A', 100000), pressureNode('B', 150000)],
+      links: [link('L1', 'A', 'B', 50)],
+      fluid: water20C,
+    };
+    const result = solveNetwork(input, darby3kData, entranceExitData);
+
+    expect(result.converged).toBe(true);
+    expect(result.links[0].flowRate_m3s).toBeLessThan(0);
+    expect(result.links[0].dp_pa).toBeCloseTo(50000, 0);
+  });
+
+  it('should collect references and link warnings', () => {
+    const input: NetworkInput = {
+      nodes: [pressureNode('S', 300000), demandNode('D', 40)],
+      links: [link('L1', 'S', 'D', 50)],
+      fluid: water20C,
+    };
+    const result = solveNetwork(input, darby3kData, entranceExitData);
+
+    expect(result.references.some(r => r.source.includes('Todini'))).toBe(true);
+    // 2" に 40 m³/h → 流速 > 3 m/s
+    expect(result.links[0].warnings.some(w => w.messageKey === 'warn.high_velocity')).toBe(true);
+    expect(result.warnings.some(w => w.messageKey === 'warn.high_velocity')).toBe(true);
+  });
+
+  it('should warn when the iteration limit is reached', () => {
+    const input: NetworkInput = {
+      nodes: [pressureNode('S', 200000), demandNode('B', 20)],
+      links: [link('short', 'S', 'B', 20), link('long', 'S', 'B', 80)],
+      fluid: water20C,
+    };
+    const result = solveNetwork(input, darby3kData, entranceExitData, { maxIterations: 1, tolerance: 1e-12 });
+
+    expect(result.converged).toBe(false);
+    const w = result.warnings.find(w => w.messageKey === 'warn.network_not_converged');
+    expect(w).toBeDefined();
+    expect(w!.category).toBe('network');
+  });
+
+  it('should reject networks without a fixed-pressure node', () => {
+    const input: NetworkInput = {
+      nodes: [demandNode('A', -10), demandNode('B', 10)],
+      links: [link('L1', 'A', 'B', 10)],
+      fluid: water20C,
+    };
+    expect(() => solveNetwork(input, darby3kData, entranceExitData)).toThrow('fixed-pressure');
+  });
+
+  it('should reject disconnected nodes and unknown link endpoints', () => {
+    const disconnected: NetworkInput = {
+      nodes: [pressureNode('S', 100000), demandNode('A', 1), demandNode('X', 1)],
+      links: [link('L1', 'S', 'A', 10)],
+      fluid: water20C,
+    };
+    expect(() => solveNetwork(disconnected, darby3kData, entranceExitData)).toThrow('not connected');
+
+    const unknown: NetworkInput = {
+      nodes: [pressureNode('S', 100000)],
+      links: [link('L1', 'S', 'Z', 10)],
+      fluid: water20C,
+    };
+    expect(() => solveNetwork(unknown, darby3kData, entranceExitData)).toThrow('unknown node');
+  });
+});
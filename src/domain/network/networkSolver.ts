@@ -0,0 +1,340 @@
+/**
+ * 配管網ソルバー — Global Gradient Algorithm (Todini & Pilati, 1988)
+ *
+ * 未知数: 需要固定ノードのピエゾ水頭 H と全リンクの流量 Q
+ *
+ * リンク式:   H_from − H_to = h(Q)          （h は摩擦 + 継手損失水頭）
+ * ノード式:   Σ Q_in − Σ Q_out = demand
+ *
+ * リンク式を Q まわりで線形化 (g = dh/dQ) し、ノード式に代入して
+ * H の連立一次方程式を解く Newton 反復。高低差はピエゾ水頭に含める。
+ * 各リンクの損失は calcSegmentPressureDrop をそのまま用いる。
+ *
+ * 外部ライブラリ非依存（domain レイヤールール遵守）
+ */
+
+import { GRAVITY, SegmentResult, Reference, CalcWarning } from '../types';
+import { calcSegmentPressureDrop } from '../system/pressureDrop';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '../fittings/fittingLoss';
+import { calcFlowArea } from '../pipe/pipeGeometry';
+import {
+  NetworkInput, NetworkLink, NetworkSolverOptions,
+  NetworkResult, NetworkLinkResult, NetworkNodeResult,
+} from './types';
+
+const GGA_REF: Reference = {
+  source: 'Todini & Pilati, 1988',
+  equation: 'Global Gradient Algorithm',
+};
+
+export const DEFAULT_NETWORK_SOLVER_OPTIONS: NetworkSolverOptions = {
+  maxIterations: 100,
+  tolerance: 1e-6,
+};
+
+/** ゼロ流量での Re = 0 を避けるための最小流量 (m³/s) */
+const MIN_FLOW_M3S = 1e-9;
+
+/** 数値微分の相対刻み */
+const DERIVATIVE_STEP = 1e-4;
+
+/** 初期流量の想定流速 (m/s) */
+const INITIAL_VELOCITY = 1.0;
+
+/**
+ * 配管網の流量配分とノード圧力を解く
+ *
+ * @param input - ノード・リンク・流体物性
+ * @param darby3kData - Darby 3-K 継手データ
+ * @param entranceExitData - 入口/出口K値データ
+ * @param options - 反復設定
+ * @param craneData - Crane L/D 継手データ（fittingMethod = 'l_over_d' の場合に必須）
+ * @param hooperData - Hooper 2-K 継手データ（fittingMethod = '2k' の場合に必須）
+ * @returns NetworkResult
+ */
+export function solveNetwork(
+  input: NetworkInput,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  options: NetworkSolverOptions = DEFAULT_NETWORK_SOLVER_OPTIONS,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): NetworkResult {
+  const { nodes, links, fluid } = input;
+  const rhoG = fluid.density * GRAVITY;
+
+  validateNetwork(input);
+
+  const nodeIndex = new Map(nodes.map((n, i) => [n.id, i]));
+  const fromIdx = links.map(l => nodeIndex.get(l.fromNodeId)!);
+  const toIdx = links.map(l => nodeIndex.get(l.toNodeId)!);
+
+  // 未知ノード（需要固定）の連番
+  const unknownIndex = new Map<number, number>();
+  nodes.forEach((n, i) => {
+    if (n.boundary.type === 'fixed_demand') unknownIndex.set(i, unknownIndex.size);
+  });
+  const nUnknown = unknownIndex.size;
+
+  // ピエゾ水頭の初期値: 圧力固定ノードは既知、需要固定ノードは仮に 0
+  const heads = nodes.map(n =>
+    n.boundary.type === 'fixed_pressure' ? n.boundary.pressure_pa / rhoG + n.elevation_m : 0
+  );
+
+  // 流量初期値: 想定流速 1 m/s 相当を from → to 方向に
+  const flows = links.map(l => INITIAL_VELOCITY * calcFlowArea(l.pipe.id_mm));
+
+  const lossHead = (link: NetworkLink, q: number): number => {
+    const r = calcSegmentPressureDrop(
+      {
+        pipe: link.pipe,
+        material: link.material,
+        fluid,
+        flowRate_m3s: Math.max(Math.abs(q), MIN_FLOW_M3S),
+        length_m: link.length_m,
+        elevation_m: 0,
+        fittings: link.fittings,
+        frictionMethod: input.frictionMethod,
+        fittingMethod: input.fittingMethod,
+      },
+      darby3kData,
+      entranceExitData,
+      craneData,
+      hooperData
+    );
+    return r.head_friction_m + r.head_fittings_m;
+  };
+
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < options.maxIterations) {
+    iterations++;
+
+    // リンク損失 h と勾配 g = dh/dQ
+    const h: number[] = [];
+    const g: number[] = [];
+    for (let i = 0; i < links.length; i++) {
+      const qAbs = Math.max(Math.abs(flows[i]), MIN_FLOW_M3S);
+      const h0 = lossHead(links[i], qAbs);
+      const dq = qAbs * DERIVATIVE_STEP;
+      const h1 = lossHead(links[i], qAbs + dq);
+      h.push(Math.sign(flows[i] || 1) * h0);
+      g.push(Math.max((h1 - h0) / dq, Number.EPSILON));
+    }
+
+    // H の連立方程式 Σ c(H_j − H_other) = Σ_in q0 − Σ_out q0 − demand
+    const A: number[][] = Array.from({ length: nUnknown }, () => new Array(nUnknown).fill(0));
+    const b: number[] = new Array(nUnknown).fill(0);
+
+    nodes.forEach((n, j) => {
+      if (n.boundary.type === 'fixed_demand') b[unknownIndex.get(j)!] -= n.boundary.demand_m3s;
+    });
+
+    for (let i = 0; i < links.length; i++) {
+      const c = 1 / g[i];
+      const q0 = flows[i] - h[i] / g[i];
+      const f = fromIdx[i];
+      const t = toIdx[i];
+      const uf = unknownIndex.get(f);
+      const ut = unknownIndex.get(t);
+
+      if (ut !== undefined) {
+        A[ut][ut] += c;
+        b[ut] += q0;
+        if (uf !== undefined) A[ut][uf] -= c;
+        else b[ut] += c * heads[f];
+      }
+      if (uf !== undefined) {
+        A[uf][uf] += c;
+        b[uf] -= q0;
+        if (ut !== undefined) A[uf][ut] -= c;
+        else b[uf] += c * heads[t];
+      }
+    }
+
+    const solved = solveLinearSystem(A, b);
+    unknownIndex.forEach((u, j) => { heads[j] = solved[u]; });
+
+    // 流量更新 Q_new = Q − h/g + (H_from − H_to)/g
+    let sumDq = 0;
+    let sumQ = 0;
+    for (let i = 0; i < links.length; i++) {
+      const qNew = flows[i] + (heads[fromIdx[i]] - heads[toIdx[i]] - h[i]) / g[i];
+      sumDq += Math.abs(qNew - flows[i]);
+      sumQ += Math.abs(qNew);
+      flows[i] = qNew;
+    }
+
+    if (sumDq <= options.tolerance * Math.max(sumQ, MIN_FLOW_M3S)) {
+      converged = true;
+      break;
+    }
+  }
+
+  // リンク結果: 実際の流れ方向・高低差で再計算
+  const linkResults: NetworkLinkResult[] = links.map((link, i) => {
+    const q = Math.abs(flows[i]) < MIN_FLOW_M3S ? 0 : flows[i];
+    const forward = q >= 0;
+    const upstream = nodes[forward ? fromIdx[i] : toIdx[i]];
+    const downstream = nodes[forward ? toIdx[i] : fromIdx[i]];
+    const segmentResult: SegmentResult = calcSegmentPressureDrop(
+      {
+        pipe: link.pipe,
+        material: link.material,
+        fluid,
+        flowRate_m3s: Math.max(Math.abs(q), MIN_FLOW_M3S),
+        length_m: link.length_m,
+        elevation_m: downstream.elevation_m - upstream.elevation_m,
+        fittings: link.fittings,
+        frictionMethod: input.frictionMethod,
+        fittingMethod: input.fittingMethod,
+      },
+      darby3kData,
+      entranceExitData,
+      craneData,
+      hooperData
+    );
+    return {
+      linkId: link.id,
+      fromNodeId: link.fromNodeId,
+      toNodeId: link.toNodeId,
+      flowRate_m3s: q,
+      velocity_m_s: segmentResult.velocity_m_s,
+      reynolds: segmentResult.reynolds,
+      dp_pa: segmentResult.dp_total,
+      segmentResult,
+      warnings: segmentResult.warnings,
+    };
+  });
+
+  // ノード結果: 流出量は最終流量の収支から求める
+  const outflows = new Array(nodes.length).fill(0);
+  for (let i = 0; i < links.length; i++) {
+    outflows[fromIdx[i]] -= flows[i];
+    outflows[toIdx[i]] += flows[i];
+  }
+  const nodeResults: NetworkNodeResult[] = nodes.map((n, j) => ({
+    nodeId: n.id,
+    pressure_pa: (heads[j] - n.elevation_m) * rhoG,
+    head_m: heads[j],
+    outflow_m3s: n.boundary.type === 'fixed_demand' ? n.boundary.demand_m3s : outflows[j],
+  }));
+
+  // 出典の集約（重複排除）
+  const allRefs = [GGA_REF, ...linkResults.flatMap(r => r.segmentResult.references)];
+  const seen = new Set<string>();
+  const references: Reference[] = [];
+  for (const ref of allRefs) {
+    const key = `${ref.source}|${ref.page ?? ''}|${ref.equation ?? ''}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      references.push(ref);
+    }
+  }
+
+  // 警告の集約（重複排除）
+  const warningKeys = new Set<string>();
+  const warnings: CalcWarning[] = [];
+  if (!converged) {
+    warnings.push({
+      severity: 'caution',
+      category: 'network',
+      messageKey: 'warn.network_not_converged',
+      messageParams: { iterations },
+    });
+    warningKeys.add('warn.network_not_converged');
+  }
+  for (const lr of linkResults) {
+    for (const w of lr.warnings) {
+      if (!warningKeys.has(w.messageKey)) {
+        warningKeys.add(w.messageKey);
+        warnings.push(w);
+      }
+    }
+  }
+
+  return {
+    links: linkResults,
+    nodes: nodeResults,
+    iterations,
+    converged,
+    references,
+    warnings,
+  };
+}
+
+/**
+ * 入力の整合性チェック
+ *
+ * - ノード ID の重複なし
+ * - リンク端点が既存ノードを参照し、自己ループでない
+ * - 圧力固定ノードが 1 つ以上（水頭の基準）
+ * - すべてのノードが圧力固定ノードに連結している
+ */
+function validateNetwork(input: NetworkInput): void {
+  const { nodes, links } = input;
+  const ids = new Set<string>();
+  for (const n of nodes) {
+    if (ids.has(n.id)) throw new Error(`Duplicate node id: ${n.id}`);
+    ids.add(n.id);
+  }
+  for (const l of links) {
+    if (!ids.has(l.fromNodeId)) throw new Error(`Link ${l.id}: unknown node ${l.fromNodeId}`);
+    if (!ids.has(l.toNodeId)) throw new Error(`Link ${l.id}: unknown node ${l.toNodeId}`);
+    if (l.fromNodeId === l.toNodeId) throw new Error(`Link ${l.id}: from and to nodes are identical`);
+  }
+  if (!nodes.some(n => n.boundary.type === 'fixed_pressure')) {
+    throw new Error('Network requires at least one fixed-pressure node');
+  }
+
+  // 圧力固定ノードからの到達可能性（無向グラフ）
+  const adjacency = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  for (const l of links) {
+    adjacency.get(l.fromNodeId)!.push(l.toNodeId);
+    adjacency.get(l.toNodeId)!.push(l.fromNodeId);
+  }
+  const visited = new Set<string>();
+  const stack = nodes.filter(n => n.boundary.type === 'fixed_pressure').map(n => n.id);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...adjacency.get(id)!);
+  }
+  for (const n of nodes) {
+    if (!visited.has(n.id)) {
+      throw new Error(`Node ${n.id} is not connected to any fixed-pressure node`);
+    }
+  }
+}
+
+/**
+ * 連立一次方程式 A x = b を部分ピボット付きガウス消去で解く
+ */
+function solveLinearSystem(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-300) throw new Error('Network matrix is singular');
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= factor * M[col][c];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+}
@@ -0,0 +1,111 @@
+/**
+ * 配管網型定義
+ *
+ * 分岐・合流・ループを含む配管網をノードとリンク（管路）で表現する。
+ * 各リンクは SegmentInput と同じ配管仕様・材質・継手を持ち、
+ * 流量は解析で決まるため入力には含めない。
+ *
+ * 内部計算はすべて SI 単位系 (m, Pa, m³/s)
+ */
+
+import {
+  PipeSpec, PipeMaterial, FluidProperties, FittingInput,
+  SegmentResult, Reference, CalcWarning, FrictionFactorMethod, FittingMethod,
+} from '@domain/types';
+
+// ── 境界条件 ──
+
+/** 圧力固定ノード（水槽・ヘッダ・供給源など） */
+export interface FixedPressureBoundary {
+  readonly type: 'fixed_pressure';
+  /** ノード圧力 (Pa, ゲージ) */
+  readonly pressure_pa: number;
+}
+
+/** 需要固定ノード（分岐点・消費点） */
+export interface FixedDemandBoundary {
+  readonly type: 'fixed_demand';
+  /** ノードからの流出量 (m³/s)。流入の場合は負値、単なる接続点は 0 */
+  readonly demand_m3s: number;
+}
+
+export type NodeBoundary = FixedPressureBoundary | FixedDemandBoundary;
+
+// ── ノード・リンク ──
+
+/** 配管網ノード */
+export interface NetworkNode {
+  readonly id: string;
+  /** ノード標高 (m) */
+  readonly elevation_m: number;
+  readonly boundary: NodeBoundary;
+}
+
+/** 配管網リンク（from → to を正方向とする管路） */
+export interface NetworkLink {
+  readonly id: string;
+  readonly fromNodeId: string;
+  readonly toNodeId: string;
+  readonly pipe: PipeSpec;
+  readonly material: PipeMaterial;
+  readonly length_m: number;
+  readonly fittings: FittingInput[];
+}
+
+/** 配管網入力（流体物性は網全体で共通） */
+export interface NetworkInput {
+  readonly nodes: readonly NetworkNode[];
+  readonly links: readonly NetworkLink[];
+  readonly fluid: FluidProperties;
+  /** 摩擦係数の計算手法（網全体で共通、省略時は Churchill） */
+  readonly frictionMethod?: FrictionFactorMethod;
+  /** 継手 K 値の算出手法（網全体で共通、省略時は Darby 3-K） */
+  readonly fittingMethod?: FittingMethod;
+}
+
+/** ソルバー設定 */
+export interface NetworkSolverOptions {
+  /** 最大反復回数 */
+  readonly maxIterations: number;
+  /** 収束判定: Σ|ΔQ| / Σ|Q| */
+  readonly tolerance: number;
+}
+
+// ── 解析結果 ──
+
+/** リンクごとの解析結果 */
+export interface NetworkLinkResult {
+  readonly linkId: string;
+  readonly fromNodeId: string;
+  readonly toNodeId: string;
+  /** 流量 (m³/s)。from → to が正、逆流は負 */
+  readonly flowRate_m3s: number;
+  readonly velocity_m_s: number;
+  readonly reynolds: number;
+  /** 流れ方向の圧損 (Pa)。摩擦 + 継手 + 高低差 */
+  readonly dp_pa: number;
+  /** 流れ方向で計算したセグメント詳細 */
+  readonly segmentResult: SegmentResult;
+  readonly warnings: readonly CalcWarning[];
+}
+
+/** ノードごとの解析結果 */
+export interface NetworkNodeResult {
+  readonly nodeId: string;
+  /** ノード圧力 (Pa, ゲージ) */
+  readonly pressure_pa: number;
+  /** ピエゾ水頭 H = p/(ρg) + z (m) */
+  readonly head_m: number;
+  /** ノードからの流出量 (m³/s)。圧力固定ノードでは解析で決まる値 */
+  readonly outflow_m3s: number;
+}
+
+/** 配管網解析結果 */
+export interface NetworkResult {
+  readonly links: readonly NetworkLinkResult[];
+  readonly nodes: readonly NetworkNodeResult[];
+  readonly iterations: number;
+  readonly converged: boolean;
+  readonly references: Reference[];
+  readonly warnings: CalcWarning[];
+}
@@ -2,6 +2,10 @@ import { describe, it, expect } from 'vitest';
 import {
   churchillFrictionFactor,
   swameeJainFrictionFactor,
+  colebrookWhiteFrictionFactor,
+  haalandFrictionFactor,
+  serghidesFrictionFactor,
+  calcFrictionFactor,
   calcFtFullyTurbulent,
 } from '../frictionFactor';
 
@@ -54,6 +58,59 @@ describe('swameeJainFrictionFactor', () => {
   });
 });
 
+describe('colebrookWhiteFrictionFactor', () => {
+  it('should satisfy the Colebrook-White equation at convergence', () => {
+    const re = 1e5;
+    const relRoughness = 0.046 / 52.5;
+    const { f, method } = colebrookWhiteFrictionFactor(re, 0.046, 52.5);
+    const rhs = -2 * Math.log10(relRoughness / 3.7 + 2.51 / (re * Math.sqrt(f)));
+    expect(1 / Math.sqrt(f)).toBeCloseTo(rhs, 8);
+    expect(method).toBe('colebrook');
+  });
+
+  it('should match the smooth-pipe Moody value (Re=1e5, ε→0)', () => {
+    // 滑らかな管 Re=1e5 → f ≈ 0.0180
+    const result = colebrookWhiteFrictionFactor(1e5, 1e-9, 52.5);
+    expect(result.f).toBeCloseTo(0.0180, 3);
+  });
+});
+
+describe('explicit Colebrook approximations', () => {
+  const cases: [number, number][] = [[1e4, 0.046], [1e5, 0.046], [1e6, 0.26], [1e7, 0.0015]];
+
+  it.each(cases)('Serghides should agree with Colebrook within 0.01%% (Re=%d, ε=%d mm)', (re, eps) => {
+    const cw = colebrookWhiteFrictionFactor(re, eps, 52.5).f;
+    const sg = serghidesFrictionFactor(re, eps, 52.5).f;
+    expect(Math.abs(sg - cw) / cw).toBeLessThan(1e-4);
+  });
+
+  it.each(cases)('Haaland should agree with Colebrook within 2%% (Re=%d, ε=%d mm)', (re, eps) => {
+    const cw = colebrookWhiteFrictionFactor(re, eps, 52.5).f;
+    const ha = haalandFrictionFactor(re, eps, 52.5).f;
+    expect(Math.abs(ha - cw) / cw).toBeLessThan(0.02);
+  });
+});
+
+describe('calcFrictionFactor', () => {
+  it('should dispatch to the selected correlation and return its reference', () => {
+    expect(calcFrictionFactor('churchill', 1e5, 0.046, 52.5).method).toBe('churchill');
+    expect(calcFrictionFactor('colebrook', 1e5, 0.046, 52.5).method).toBe('colebrook');
+    expect(calcFrictionFactor('swamee-jain', 1e5, 0.046, 52.5).method).toBe('swamee-jain');
+    expect(calcFrictionFactor('haaland', 1e5, 0.046, 52.5).reference.source).toContain('Haaland');
+    expect(calcFrictionFactor('serghides', 1e5, 0.046, 52.5).reference.source).toContain('Serghides');
+  });
+
+  it('should fall back to 64/Re in laminar flow for turbulent-only correlations', () => {
+    const result = calcFrictionFactor('colebrook', 1000, 0.046, 52.5);
+    expect(result.method).toBe('hagen-poiseuille');
+    expect(result.f).toBeCloseTo(0.064, 10);
+  });
+
+  it('should keep Churchill across all regimes', () => {
+    expect(calcFrictionFactor('churchill', 1000, 0.046, 52.5).method).toBe('churchill');
+  });
+});
+
 describe('calcFtFullyTurbulent', () => {
   it('should compute f_T ≈ 0.019 for 2" pipe via Colebrook equation', () => {
     // 2" Sch40: ID=52.50mm, ε=0.046mm → fully turbulent f_T
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { calcHazenWilliamsGradient, calcHazenWilliamsFrictionFactor } from '../hazenWilliams';
+import { calcStraightPipeLoss, pressureToHead } from '../straightPipeLoss';
+
+describe('calcHazenWilliamsGradient', () => {
+  it('should calculate the gradient for 4" Sch40 at 20 L/s, C = 120', () => {
+    // h_f/L = 10.67 × 0.02^1.852 / (120^1.852 × 0.10226^4.87) ≈ 0.0714 m/m
+    const gradient = calcHazenWilliamsGradient(120, 0.02, 102.26);
+    expect(gradient).toBeCloseTo(0.0714, 4);
+  });
+
+  it('should scale with C^-1.852', () => {
+    const c120 = calcHazenWilliamsGradient(120, 0.02, 102.26);
+    const c100 = calcHazenWilliamsGradient(100, 0.02, 102.26);
+    expect(c100 / c120).toBeCloseTo(Math.pow(1.2, 1.852), 10);
+  });
+
+  it('should throw for non-positive C or diameter', () => {
+    expect(() => calcHazenWilliamsGradient(0, 0.02, 102.26)).toThrow('C-factor must be positive');
+    expect(() => calcHazenWilliamsGradient(120, 0.02, 0)).toThrow('Diameter must be positive');
+  });
+});
+
+describe('calcHazenWilliamsFrictionFactor', () => {
+  it('should return the equivalent Darcy f that reproduces the Hazen-Williams head loss', () => {
+    const id_mm = 102.26;
+    const id_m = id_mm / 1000;
+    const velocity = 0.02 / (Math.PI * id_m * id_m / 4);
+    const result = calcHazenWilliamsFrictionFactor(120, velocity, id_mm);
+
+    expect(result.method).toBe('hazen-williams');
+    expect(result.reference.source).toContain('Hazen');
+    expect(result.f).toBeCloseTo(0.02415, 4);
+
+    // Darcy-Weisbach に戻すと h_f = (h_f/L) × L
+    const head = pressureToHead(calcStraightPipeLoss(result.f, 100, id_mm, 998.2, velocity), 998.2);
+    expect(head).toBeCloseTo(calcHazenWilliamsGradient(120, 0.02, id_mm) * 100, 8);
+  });
+
+  it('should throw for non-positive velocity', () => {
+    expect(() => calcHazenWilliamsFrictionFactor(120, 0, 102.26)).toThrow('Velocity must be positive');
+  });
+});
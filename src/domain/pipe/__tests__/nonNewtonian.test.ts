@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcLaminarWallShearStress,
+  calcMetznerReedReynolds,
+  calcBinghamReynolds,
+  calcHedstromNumber,
+  calcRyanJohnsonCriticalRe,
+  calcHanksCriticalRe,
+  dodgeMetznerFrictionFactor,
+  darbyMelsonFrictionFactor,
+  calcNonNewtonianFlow,
+} from '../nonNewtonian';
+import { calcReynolds } from '../pipeGeometry';
+import { colebrookWhiteFrictionFactor } from '../frictionFactor';
+
+// 2" Sch40
+const id_mm = 52.50;
+const id_m = id_mm / 1000;
+const density = 1200;
+
+describe('calcLaminarWallShearStress', () => {
+  it('should match the power-law closed form τw = K((3n+1)/(4n))ⁿ(8V/D)ⁿ', () => {
+    const tau = calcLaminarWallShearStress({ model: 'power_law', k: 0.5, n: 0.6 }, 1.2, id_m);
+    const expected = 0.5 * Math.pow(2.8 / 2.4, 0.6) * Math.pow(8 * 1.2 / id_m, 0.6);
+    expect(tau).toBeCloseTo(expected, 10);
+  });
+
+  it('should satisfy the Buckingham equation for a Bingham plastic', () => {
+    const tauY = 10;
+    const muP = 0.05;
+    const tau = calcLaminarWallShearStress({ model: 'bingham', yieldStress_pa: tauY, plasticViscosity: muP }, 0.8, id_m);
+    const phi = tauY / tau;
+    // 8V/D = (τw/μp)(1 − 4φ/3 + φ⁴/3)
+    expect(tau / muP * (1 - 4 * phi / 3 + phi ** 4 / 3)).toBeCloseTo(8 * 0.8 / id_m, 6);
+  });
+
+  it('should reduce Herschel-Bulkley to power law and Bingham', () => {
+    const v = 1.0;
+    const hbNoYield = calcLaminarWallShearStress({ model: 'herschel_bulkley', yieldStress_pa: 0, k: 0.5, n: 0.6 }, v, id_m);
+    const powerLaw = calcLaminarWallShearStress({ model: 'power_law', k: 0.5, n: 0.6 }, v, id_m);
+    expect(hbNoYield).toBeCloseTo(powerLaw, 10);
+
+    const hbLinear = calcLaminarWallShearStress({ model: 'herschel_bulkley', yieldStress_pa: 8, k: 0.04, n: 1 }, v, id_m);
+    const bingham = calcLaminarWallShearStress({ model: 'bingham', yieldStress_pa: 8, plasticViscosity: 0.04 }, v, id_m);
+    expect(hbLinear).toBeCloseTo(bingham, 8);
+  });
+
+  it('should reject invalid rheology parameters', () => {
+    expect(() => calcLaminarWallShearStress({ model: 'power_law', k: 0.5, n: 0 }, 1, id_m)).toThrow('n');
+    expect(() => calcLaminarWallShearStress({ model: 'bingham', yieldStress_pa: 1, plasticViscosity: 0 }, 1, id_m)).toThrow('Plastic');
+  });
+});
+
+describe('calcMetznerReedReynolds', () => {
+  it('should equal ρVD/μ for a power-law fluid with n = 1', () => {
+    const re = calcMetznerReedReynolds({ model: 'power_law', k: 1.002e-3, n: 1 }, 998.2, 1.283, id_m);
+    expect(re).toBeCloseTo(calcReynolds(998.2, 1.283, id_m, 1.002e-3), 6);
+  });
+
+  it('should match the power-law form ρV^(2−n)Dⁿ/(K8^(n−1)((3n+1)/(4n))ⁿ)', () => {
+    const k = 0.5;
+    const n = 0.6;
+    const v = 1.5;
+    const expected = density * Math.pow(v, 2 - n) * Math.pow(id_m, n)
+      / (k * Math.pow(8, n - 1) * Math.pow((3 * n + 1) / (4 * n), n));
+    expect(calcMetznerReedReynolds({ model: 'power_law', k, n }, density, v, id_m)).toBeCloseTo(expected, 6);
+  });
+
+  it('should be lower than the plastic Reynolds number for a Bingham plastic', () => {
+    const rheology = { model: 'bingham', yieldStress_pa: 10, plasticViscosity: 0.05 } as const;
+    const reMR = calcMetznerReedReynolds(rheology, density, 1.0, id_m);
+    const reB = calcBinghamReynolds(density, 1.0, id_m, 0.05);
+    expect(reMR).toBeLessThan(reB);
+  });
+});
+
+describe('critical Reynolds numbers', () => {
+  it('should give ≈ 2100 for Newtonian fluids (Ryan-Johnson n = 1)', () => {
+    expect(calcRyanJohnsonCriticalRe(1)).toBeCloseTo(2100, -1);
+  });
+
+  it('should give a higher laminar limit for shear-thinning fluids', () => {
+    // Ryan-Johnson: 最大値 ≈ 2400 (n ≈ 0.4)
+    expect(calcRyanJohnsonCriticalRe(0.4)).toBeGreaterThan(2350);
+    expect(calcRyanJohnsonCriticalRe(0.4)).toBeLessThan(2450);
+  });
+
+  it('should approach 2100 as the Hedstrom number vanishes (Hanks)', () => {
+    expect(calcHanksCriticalRe(0).plasticReynolds).toBe(2100);
+    expect(calcHanksCriticalRe(1).plasticReynolds).toBeCloseTo(2100, -1);
+  });
+
+  it('should increase with the Hedstrom number (Hanks)', () => {
+    const low = calcHanksCriticalRe(1e4);
+    const high = calcHanksCriticalRe(1e6);
+    expect(low.plasticReynolds).toBeGreaterThan(2100);
+    expect(high.plasticReynolds).toBeGreaterThan(low.plasticReynolds);
+    expect(high.metznerReed).toBeLessThan(high.plasticReynolds);
+  });
+
+  it('should compute He = ρD²τy/μp²', () => {
+    expect(calcHedstromNumber(1200, 0.05, 10, 0.05)).toBeCloseTo(1200 * 0.0025 * 10 / 0.0025, 6);
+  });
+});
+
+describe('dodgeMetznerFrictionFactor', () => {
+  it('should reduce to the smooth-pipe law for n′ = 1', () => {
+    const dm = dodgeMetznerFrictionFactor(1e5, 1);
+    const smooth = colebrookWhiteFrictionFactor(1e5, 0, 100);
+    expect(Math.abs(dm.f - smooth.f) / smooth.f).toBeLessThan(0.02);
+    expect(dm.method).toBe('dodge-metzner');
+  });
+
+  it('should give lower friction for shear-thinning fluids at equal Re_MR', () => {
+    expect(dodgeMetznerFrictionFactor(1e4, 0.5).f).toBeLessThan(dodgeMetznerFrictionFactor(1e4, 1).f);
+  });
+});
+
+describe('darbyMelsonFrictionFactor', () => {
+  it('should approach the laminar value 64/Re_MR at low Re_B', () => {
+    const r = darbyMelsonFrictionFactor(500, 600, 1e4);
+    expect(r.f).toBeCloseTo(64 / 500, 6);
+    expect(r.method).toBe('darby-melson');
+  });
+
+  it('should not be smaller than either the laminar or turbulent component', () => {
+    const reB = 2e4;
+    const he = 1e5;
+    const r = darbyMelsonFrictionFactor(1.5e4, reB, he);
+    const a = -1.47 * (1 + 0.146 * Math.exp(-2.9e-5 * he));
+    const fT = 4 * Math.pow(10, a) * Math.pow(reB, -0.193);
+    expect(r.f).toBeGreaterThanOrEqual(fT);
+    expect(r.f).toBeGreaterThanOrEqual(64 / 1.5e4);
+  });
+});
+
+describe('calcNonNewtonianFlow', () => {
+  it('should use f = 64/Re_MR for laminar flow', () => {
+    const flow = calcNonNewtonianFlow({ model: 'power_law', k: 0.5, n: 0.6 }, density, 1.0, id_mm);
+    expect(flow.flowRegime).toBe('laminar');
+    expect(flow.friction.method).toBe('metzner-reed');
+    expect(flow.friction.f).toBeCloseTo(64 / flow.reynolds, 10);
+    expect(flow.flowBehaviorIndex).toBe(0.6);
+    expect(flow.criticalReynolds).toBeGreaterThan(2100);
+  });
+
+  it('should switch to Dodge-Metzner beyond the laminar limit', () => {
+    const flow = calcNonNewtonianFlow({ model: 'power_law', k: 0.02, n: 0.8 }, density, 3.0, id_mm);
+    expect(flow.flowRegime).toBe('turbulent');
+    expect(flow.friction.method).toBe('dodge-metzner');
+  });
+
+  it('should use Darby-Melson for a turbulent Bingham plastic and report Re_B and He', () => {
+    const flow = calcNonNewtonianFlow({ model: 'bingham', yieldStress_pa: 2, plasticViscosity: 0.005 }, density, 3.0, id_mm);
+    expect(flow.hedstrom).toBeCloseTo(calcHedstromNumber(density, id_m, 2, 0.005), 6);
+    expect(flow.plasticReynolds).toBeCloseTo(calcBinghamReynolds(density, 3.0, id_m, 0.005), 6);
+    expect(flow.flowRegime).toBe('turbulent');
+    expect(flow.friction.method).toBe('darby-melson');
+  });
+
+  it('should compute n′ < 1 for a Bingham plastic', () => {
+    const flow = calcNonNewtonianFlow({ model: 'bingham', yieldStress_pa: 10, plasticViscosity: 0.05 }, density, 0.5, id_mm);
+    expect(flow.flowBehaviorIndex).toBeGreaterThan(0);
+    expect(flow.flowBehaviorIndex).toBeLessThan(1);
+    expect(flow.friction.method).toBe('metzner-reed');
+  });
+});
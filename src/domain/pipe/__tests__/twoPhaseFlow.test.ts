@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcHomogeneousDensity,
+  calcVoidFraction,
+  calcMomentumDensityTerm,
+  chisholmC,
+  friedelMultiplier,
+  calcTwoPhaseFriction,
+  TwoPhaseConditions,
+} from '../twoPhaseFlow';
+import { calcFrictionFactor } from '../frictionFactor';
+
+// 2" Sch40
+const id_mm = 52.50;
+const id_m = id_mm / 1000;
+
+// 飽和水 / 飽和蒸気 100 °C
+const steamWater: TwoPhaseConditions = {
+  massFlux: 300,
+  quality: 0.05,
+  liquidDensity: 958.4,
+  gasDensity: 0.598,
+  liquidViscosity: 2.82e-4,
+  gasViscosity: 1.23e-5,
+  surfaceTension: 0.0589,
+};
+
+describe('calcHomogeneousDensity', () => {
+  it('should equal the phase densities at x = 0 and x = 1', () => {
+    expect(calcHomogeneousDensity(0, 958.4, 0.598)).toBeCloseTo(958.4, 10);
+    expect(calcHomogeneousDensity(1, 958.4, 0.598)).toBeCloseTo(0.598, 10);
+  });
+
+  it('should combine specific volumes linearly in quality', () => {
+    const rho = calcHomogeneousDensity(0.05, 958.4, 0.598);
+    expect(1 / rho).toBeCloseTo(0.05 / 0.598 + 0.95 / 958.4, 12);
+  });
+});
+
+describe('calcVoidFraction', () => {
+  it('should be bounded by 0 and 1 and increase with quality', () => {
+    const { massFlux, liquidDensity, gasDensity, surfaceTension } = steamWater;
+    expect(calcVoidFraction(0, massFlux, liquidDensity, gasDensity, surfaceTension)).toBe(0);
+    expect(calcVoidFraction(1, massFlux, liquidDensity, gasDensity, surfaceTension)).toBe(1);
+    const low = calcVoidFraction(0.01, massFlux, liquidDensity, gasDensity, surfaceTension);
+    const high = calcVoidFraction(0.2, massFlux, liquidDensity, gasDensity, surfaceTension);
+    expect(low).toBeGreaterThan(0);
+    expect(high).toBeGreaterThan(low);
+    expect(high).toBeLessThan(1);
+  });
+
+  it('should be lower than the homogeneous void fraction (phase slip)', () => {
+    const { massFlux, quality, liquidDensity, gasDensity, surfaceTension } = steamWater;
+    const homogeneous = (quality / gasDensity) / (quality / gasDensity + (1 - quality) / liquidDensity);
+    expect(calcVoidFraction(quality, massFlux, liquidDensity, gasDensity, surfaceTension)).toBeLessThan(homogeneous);
+  });
+});
+
+describe('calcMomentumDensityTerm', () => {
+  it('should reduce to 1/ρ_H for the homogeneous void fraction', () => {
+    const x = 0.1;
+    const alphaH = (x / 0.598) / (x / 0.598 + (1 - x) / 958.4);
+    expect(calcMomentumDensityTerm(x, alphaH, 958.4, 0.598)).toBeCloseTo(1 / calcHomogeneousDensity(x, 958.4, 0.598), 10);
+  });
+});
+
+describe('chisholmC', () => {
+  it('should return the Chisholm constants for each flow combination', () => {
+    expect(chisholmC(true, true)).toBe(20);
+    expect(chisholmC(false, true)).toBe(12);
+    expect(chisholmC(true, false)).toBe(10);
+    expect(chisholmC(false, false)).toBe(5);
+  });
+});
+
+describe('friedelMultiplier', () => {
+  it('should approach 1 as quality vanishes', () => {
+    expect(friedelMultiplier({ ...steamWater, quality: 1e-9 }, id_m, 0.02, 0.02)).toBeCloseTo(1, 2);
+  });
+
+  it('should increase with quality in the low-quality range', () => {
+    const low = friedelMultiplier({ ...steamWater, quality: 0.01 }, id_m, 0.02, 0.015);
+    const high = friedelMultiplier({ ...steamWater, quality: 0.1 }, id_m, 0.02, 0.015);
+    expect(high).toBeGreaterThan(low);
+  });
+});
+
+describe('calcTwoPhaseFriction', () => {
+  it('should compute φ²_L = 1 + C/X + 1/X² for Lockhart-Martinelli', () => {
+    const r = calcTwoPhaseFriction('lockhart-martinelli', steamWater, 'churchill', 0.046, id_mm);
+    const G = steamWater.massFlux;
+    const x = steamWater.quality;
+    const reL = G * (1 - x) * id_m / steamWater.liquidViscosity;
+    const fL = calcFrictionFactor('churchill', reL, 0.046, id_mm).f;
+    const dpdzL = fL * (G * (1 - x)) ** 2 / (2 * id_m * steamWater.liquidDensity);
+    const X = r.martinelliParameter;
+    expect(r.pressureGradient).toBeCloseTo((1 + 20 / X + 1 / (X * X)) * dpdzL, 8);
+    expect(r.reference.source).toContain('Lockhart');
+  });
+
+  it('should report φ²_LO relative to the liquid-only gradient', () => {
+    const r = calcTwoPhaseFriction('friedel', steamWater, 'churchill', 0.046, id_mm);
+    const reLO = steamWater.massFlux * id_m / steamWater.liquidViscosity;
+    const fLO = calcFrictionFactor('churchill', reLO, 0.046, id_mm).f;
+    expect(r.liquidOnlyReynolds).toBeCloseTo(reLO, 6);
+    expect(r.liquidOnlyGradient).toBeCloseTo(fLO * 300 ** 2 / (2 * id_m * 958.4), 8);
+    expect(r.multiplier).toBeCloseTo(r.pressureGradient / r.liquidOnlyGradient, 10);
+    // 低圧の水-蒸気では φ²_LO は均質流の値 1 + x(ρ_L/ρ_G − 1) ≈ 81 と同程度
+    expect(r.multiplier).toBeGreaterThan(40);
+    expect(r.multiplier).toBeLessThan(120);
+  });
+
+  it('should reduce to the liquid-only gradient at x = 0 (φ²_LO = 1)', () => {
+    for (const method of ['friedel', 'lockhart-martinelli'] as const) {
+      const r = calcTwoPhaseFriction(method, { ...steamWater, quality: 0 }, 'churchill', 0.046, id_mm);
+      expect(r.multiplier).toBe(1);
+      expect(r.pressureGradient).toBeCloseTo(r.liquidOnlyGradient, 10);
+    }
+    // 端点は Friedel 式の極限と連続
+    const nearZero = calcTwoPhaseFriction('friedel', { ...steamWater, quality: 1e-9 }, 'churchill', 0.046, id_mm);
+    expect(nearZero.multiplier).toBeCloseTo(1, 3);
+  });
+
+  it('should reduce to the gas-only gradient at x = 1', () => {
+    const G = steamWater.massFlux;
+    const reGO = G * id_m / steamWater.gasViscosity;
+    const fGO = calcFrictionFactor('churchill', reGO, 0.046, id_mm).f;
+    const gasOnly = fGO * G * G / (2 * id_m * steamWater.gasDensity);
+    for (const method of ['friedel', 'lockhart-martinelli'] as const) {
+      const r = calcTwoPhaseFriction(method, { ...steamWater, quality: 1 }, 'churchill', 0.046, id_mm);
+      expect(r.pressureGradient).toBeCloseTo(gasOnly, 8);
+      expect(r.martinelliParameter).toBe(0);
+    }
+  });
+
+  it('should reject the water-only Hazen-Williams friction method', () => {
+    // @ts-expect-error 二相流の単相摩擦係数は Darcy 相関式に限定
+    expect(() => calcTwoPhaseFriction('friedel', steamWater, 'hazen-williams', 0.046, id_mm)).toThrow('Hazen-Williams applies to water only');
+  });
+
+  it('should reject quality outside [0, 1]', () => {
+    expect(() => calcTwoPhaseFriction('friedel', { ...steamWater, quality: -0.01 }, 'churchill', 0.046, id_mm)).toThrow('Quality');
+    expect(() => calcTwoPhaseFriction('friedel', { ...steamWater, quality: 1.01 }, 'churchill', 0.046, id_mm)).toThrow('Quality');
+  });
+});
@@ -2,11 +2,16 @@
  * 摩擦係数の計算
  *
  * - Churchill (1977): 全流動領域対応、反復計算不要
- * - Swamee-Jain (1976): 乱流域の陽的近似（参考用）
+ * - Colebrook-White (1939): 乱流域の陰的式（反復解）
+ * - Swamee-Jain (1976): 乱流域の陽的近似
+ * - Haaland (1983): 乱流域の陽的近似
+ * - Serghides (1984): Steffensen 加速による Colebrook の陽的解
  * - Von Kármán: 完全乱流域の f_T（継手K値計算用）
+ *
+ * 乱流域専用の相関式は、層流域 (Re < 2100) では Hagen-Poiseuille f = 64/Re に切り替える。
  */
 
-import { Reference } from '../types';
+import { Reference, FrictionFactorMethod, DarcyFrictionFactorMethod } from '../types';
 
 const CHURCHILL_REF: Reference = {
   source: 'Churchill, S.W., 1977',
@@ -18,6 +23,26 @@ const SWAMEE_JAIN_REF: Reference = {
   equation: 'f = 0.25/[log₁₀(ε/(3.7D) + 5.74/Re⁰·⁹)]²',
 };
 
+const COLEBROOK_REF: Reference = {
+  source: 'Colebrook, C.F., 1939',
+  equation: '1/√f = −2×log₁₀(ε/(3.7D) + 2.51/(Re√f))',
+};
+
+const HAALAND_REF: Reference = {
+  source: 'Haaland, S.E., 1983',
+  equation: '1/√f = −1.8×log₁₀[(ε/(3.7D))^1.11 + 6.9/Re]',
+};
+
+const SERGHIDES_REF: Reference = {
+  source: 'Serghides, T.K., 1984',
+  equation: 'f = [A − (B−A)²/(C−2B+A)]⁻²',
+};
+
+const HAGEN_POISEUILLE_REF: Reference = {
+  source: 'Hagen-Poiseuille',
+  equation: 'f = 64/Re',
+};
+
 const VON_KARMAN_REF: Reference = {
   source: 'Von Kármán, 1930; Colebrook & White, 1937',
   equation: 'f_T = 1/[2×log₁₀(3.7D/ε)]²',
@@ -85,6 +110,137 @@ export function swameeJainFrictionFactor(
   return { f, method: 'swamee-jain', reference: SWAMEE_JAIN_REF };
 }
 
+/**
+ * Colebrook-White (1939) 式 — 反復解
+ *
+ * 1/√f = −2 × log₁₀(ε/(3.7D) + 2.51/(Re√f))
+ *
+ * 1/√f を未知数として固定点反復する。初期値は Swamee-Jain。
+ * 乱流域の基準式（Moody 線図の元式）。
+ */
+export function colebrookWhiteFrictionFactor(
+  re: number,
+  roughness_mm: number,
+  id_mm: number
+): FrictionFactorResult {
+  if (re <= 0) throw new Error('Reynolds number must be positive');
+
+  const relRoughness = roughness_mm / id_mm;
+  const MAX_ITERATIONS = 50;
+  const TOLERANCE = 1e-10;
+
+  let x = 1 / Math.sqrt(swameeJainFrictionFactor(re, roughness_mm, id_mm).f);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const next = -2 * Math.log10(relRoughness / 3.7 + 2.51 * x / re);
+    if (Math.abs(next - x) < TOLERANCE * Math.abs(next)) {
+      x = next;
+      break;
+    }
+    x = next;
+  }
+
+  return { f: 1 / (x * x), method: 'colebrook', reference: COLEBROOK_REF };
+}
+
+/**
+ * Haaland (1983) 陽的近似 — 乱流域のみ
+ *
+ * 1/√f = −1.8 × log₁₀[(ε/(3.7D))^1.11 + 6.9/Re]
+ *
+ * Colebrook-White式に対して±2%の精度 (4000 ≤ Re ≤ 10⁸)
+ */
+export function haalandFrictionFactor(
+  re: number,
+  roughness_mm: number,
+  id_mm: number
+): FrictionFactorResult {
+  if (re <= 0) throw new Error('Reynolds number must be positive');
+
+  const relRoughness = roughness_mm / id_mm;
+  const x = -1.8 * Math.log10(Math.pow(relRoughness / 3.7, 1.11) + 6.9 / re);
+
+  return { f: 1 / (x * x), method: 'haaland', reference: HAALAND_REF };
+}
+
+/**
+ * Serghides (1984) 陽的解 — 乱流域のみ
+ *
+ * A = −2 log₁₀(ε/(3.7D) + 12/Re)
+ * B = −2 log₁₀(ε/(3.7D) + 2.51A/Re)
+ * C = −2 log₁₀(ε/(3.7D) + 2.51B/Re)
+ * f = [A − (B−A)²/(C−2B+A)]⁻²
+ *
+ * Colebrook-White式に対して±0.0023%の精度
+ */
+export function serghidesFrictionFactor(
+  re: number,
+  roughness_mm: number,
+  id_mm: number
+): FrictionFactorResult {
+  if (re <= 0) throw new Error('Reynolds number must be positive');
+
+  const e = roughness_mm / id_mm / 3.7;
+  const A = -2 * Math.log10(e + 12 / re);
+  const B = -2 * Math.log10(e + 2.51 * A / re);
+  const C = -2 * Math.log10(e + 2.51 * B / re);
+  const x = A - (B - A) ** 2 / (C - 2 * B + A);
+
+  return { f: 1 / (x * x), method: 'serghides', reference: SERGHIDES_REF };
+}
+
+/**
+ * 層流域の Hagen-Poiseuille 式 f = 64/Re
+ */
+export function laminarFrictionFactor(re: number): FrictionFactorResult {
+  if (re <= 0) throw new Error('Reynolds number must be positive');
+  return { f: 64 / re, method: 'hagen-poiseuille', reference: HAGEN_POISEUILLE_REF };
+}
+
+/** 乱流域専用相関式を層流式に切り替える Re の上限 */
+const LAMINAR_RE_LIMIT = 2100;
+
+/**
+ * 摩擦係数手法が Re と相対粗度による Darcy 相関式であることを確認する
+ *
+ * Hazen-Williams は水専用の経験式のため、気体・二相流の計算では受け付けない。
+ */
+export function requireDarcyFrictionMethod(method: FrictionFactorMethod): asserts method is DarcyFrictionFactorMethod {
+  if (method === 'hazen-williams') {
+    throw new Error('Hazen-Williams applies to water only and cannot be used for gas or two-phase flow');
+  }
+}
+
+/**
+ * 指定手法で Darcy 摩擦係数を計算する
+ *
+ * Churchill 以外（乱流域専用の相関式）は Re < 2100 で Hagen-Poiseuille に切り替え、
+ * 実際に用いた式を method / reference に返す。
+ * Hazen-Williams は流速と C 係数を要するため、乱流域では calcHazenWilliamsFrictionFactor を用いる。
+ *
+ * @param method 摩擦係数の計算手法
+ * @param re レイノルズ数 (> 0)
+ * @param roughness_mm 管粗度 ε (mm)
+ * @param id_mm 管内径 D (mm)
+ */
+export function calcFrictionFactor(
+  method: FrictionFactorMethod,
+  re: number,
+  roughness_mm: number,
+  id_mm: number
+): FrictionFactorResult {
+  if (method === 'churchill') return churchillFrictionFactor(re, roughness_mm, id_mm);
+  if (re < LAMINAR_RE_LIMIT) return laminarFrictionFactor(re);
+
+  switch (method) {
+    case 'colebrook': return colebrookWhiteFrictionFactor(re, roughness_mm, id_mm);
+    case 'swamee-jain': return swameeJainFrictionFactor(re, roughness_mm, id_mm);
+    case 'haaland': return haalandFrictionFactor(re, roughness_mm, id_mm);
+    case 'serghides': return serghidesFrictionFactor(re, roughness_mm, id_mm);
+    case 'hazen-williams':
+      throw new Error('Hazen-Williams requires velocity and C-factor (use calcHazenWilliamsFrictionFactor)');
+  }
+}
+
 /**
  * Von Kármán式で完全乱流摩擦係数 f_T を計算
  *
@@ -0,0 +1,59 @@
+/**
+ * Hazen-Williams 式 — 水配管の経験的損失水頭
+ *
+ * h_f/L = 10.67 × Q^1.852 / (C^1.852 × D^4.87)  [SI: Q m³/s, D m]
+ *
+ * 上水道・消火設備の審査で用いられる。常温の水の乱流にのみ適用でき、
+ * 粘度・密度・粗度を含まないため他の流体や温度には外挿できない。
+ * 計算パイプラインに載せるため、損失水頭を等価な Darcy 摩擦係数
+ * f = (h_f/L) × 2gD / V² に換算して返す。
+ */
+
+import { Reference, GRAVITY } from '../types';
+import { FrictionFactorResult } from './frictionFactor';
+
+const HAZEN_WILLIAMS_REF: Reference = {
+  source: 'Williams & Hazen, 1920',
+  equation: 'h_f/L = 10.67 × Q^1.852 / (C^1.852 × D^4.87)',
+};
+
+/**
+ * Hazen-Williams 式の動水勾配 h_f/L (m/m)
+ *
+ * @param c 流速係数 C (−)
+ * @param flowRate_m3s 流量 Q (m³/s)
+ * @param id_mm 管内径 D (mm)
+ */
+export function calcHazenWilliamsGradient(
+  c: number,
+  flowRate_m3s: number,
+  id_mm: number
+): number {
+  if (c <= 0) throw new Error('Hazen-Williams C-factor must be positive');
+  if (id_mm <= 0) throw new Error('Diameter must be positive');
+  const id_m = id_mm / 1000;
+  return 10.67 * Math.pow(Math.abs(flowRate_m3s), 1.852) / (Math.pow(c, 1.852) * Math.pow(id_m, 4.87));
+}
+
+/**
+ * Hazen-Williams 式の損失を等価な Darcy 摩擦係数として返す
+ *
+ * f = (h_f/L) × 2gD / V²
+ *
+ * @param c 流速係数 C (−)
+ * @param velocity_m_s 流速 V (m/s, > 0)
+ * @param id_mm 管内径 D (mm)
+ */
+export function calcHazenWilliamsFrictionFactor(
+  c: number,
+  velocity_m_s: number,
+  id_mm: number
+): FrictionFactorResult {
+  if (velocity_m_s <= 0) throw new Error('Velocity must be positive');
+  const id_m = id_mm / 1000;
+  const flowRate_m3s = velocity_m_s * Math.PI * id_m * id_m / 4;
+  const gradient = calcHazenWilliamsGradient(c, flowRate_m3s, id_mm);
+  const f = gradient * 2 * GRAVITY * id_m / (velocity_m_s * velocity_m_s);
+
+  return { f, method: 'hazen-williams', reference: HAZEN_WILLIAMS_REF };
+}
@@ -0,0 +1,326 @@
+/**
+ * 非ニュートン流体の管内流れ
+ *
+ * - 一般化レイノルズ数: Metzner & Reed (1955) Re_MR = 8ρV²/τ_w
+ * - 層流壁面せん断応力: Herschel-Bulkley 流体の Rabinowitsch-Mooney 式（べき乗則・ビンガムを包含）
+ * - 臨界 Re: Ryan & Johnson (1959)（べき乗則・HB）、Hanks (1963)（ビンガム）
+ * - 乱流摩擦係数: Dodge & Metzner (1959)（べき乗則・HB, 滑らかな管）、
+ *   Darby & Melson (1981) / Darby, Mun & Boger (1992)（ビンガム）
+ *
+ * 層流では定義上 Fanning f = 16/Re_MR（Darcy f = 64/Re_MR）が厳密に成り立つ。
+ * 返す摩擦係数はニュートン流体と同じ Darcy 摩擦係数。
+ */
+
+import { Rheology, FlowRegime, Reference } from '../types';
+import { classifyFlow } from './pipeGeometry';
+import { FrictionFactorResult } from './frictionFactor';
+
+const METZNER_REED_REF: Reference = {
+  source: 'Metzner & Reed, 1955',
+  equation: "f = 64/Re_MR, Re_MR = ρV^(2−n')Dⁿ'/(K'8^(n'−1))",
+};
+
+const DODGE_METZNER_REF: Reference = {
+  source: 'Dodge & Metzner, 1959',
+  equation: "1/√f_F = (4/n'^0.75)log₁₀(Re_MR f_F^(1−n'/2)) − 0.4/n'^1.2",
+};
+
+const DARBY_MELSON_REF: Reference = {
+  source: 'Darby & Melson, 1981; Darby, Mun & Boger, 1992',
+  equation: 'f_F = (f_L^m + f_T^m)^(1/m), f_T = 10^a Re_B^−0.193',
+};
+
+export interface NonNewtonianFlowResult {
+  /** 一般化レイノルズ数 Re_MR (−) */
+  readonly reynolds: number;
+  /** 層流限界の一般化レイノルズ数 (−) */
+  readonly criticalReynolds: number;
+  readonly flowRegime: FlowRegime;
+  /** 層流理論による壁面せん断応力 τ_w (Pa) */
+  readonly wallShearStress_pa: number;
+  /** 見かけの流動指数 n' = d ln τ_w / d ln(8V/D) (−) */
+  readonly flowBehaviorIndex: number;
+  /** 見かけ粘度 μ_app = τ_w / (8V/D) (Pa·s) */
+  readonly apparentViscosity: number;
+  readonly friction: FrictionFactorResult;
+  /** ビンガムレイノルズ数 Re_B = ρVD/μ_p（ビンガムのみ） */
+  readonly plasticReynolds?: number;
+  /** ヘドストロム数 He = ρD²τ_y/μ_p²（ビンガムのみ） */
+  readonly hedstrom?: number;
+}
+
+function validateRheology(rheology: Rheology): void {
+  if (rheology.model === 'bingham') {
+    if (!(rheology.plasticViscosity > 0)) throw new Error('Plastic viscosity must be positive');
+    if (!(rheology.yieldStress_pa >= 0)) throw new Error('Yield stress must be non-negative');
+    return;
+  }
+  if (!(rheology.k > 0)) throw new Error('Consistency index K must be positive');
+  if (!(rheology.n > 0)) throw new Error('Flow behavior index n must be positive');
+  if (rheology.model === 'herschel_bulkley' && !(rheology.yieldStress_pa >= 0)) {
+    throw new Error('Yield stress must be non-negative');
+  }
+}
+
+/** レオロジーを Herschel-Bulkley パラメータ (τ_y, K, n) に統一する */
+function toHerschelBulkley(rheology: Rheology): { tauY: number; k: number; n: number } {
+  switch (rheology.model) {
+    case 'power_law': return { tauY: 0, k: rheology.k, n: rheology.n };
+    case 'bingham': return { tauY: rheology.yieldStress_pa, k: rheology.plasticViscosity, n: 1 };
+    case 'herschel_bulkley': return { tauY: rheology.yieldStress_pa, k: rheology.k, n: rheology.n };
+  }
+}
+
+/**
+ * Herschel-Bulkley 流体の層流見かけせん断速度 8V/D（Rabinowitsch-Mooney 式の閉形式）
+ *
+ * 8V/D = (4n/K^(1/n)) τ_w⁻³ (τ_w−τ_y)^(1+1/n)
+ *        × [(τ_w−τ_y)²/(1+3n) + 2τ_y(τ_w−τ_y)/(1+2n) + τ_y²/(1+n)]
+ */
+function hbNominalShearRate(tauW: number, tauY: number, k: number, n: number): number {
+  if (tauW <= tauY) return 0;
+  const x = tauW - tauY;
+  const bracket = x * x / (1 + 3 * n) + 2 * tauY * x / (1 + 2 * n) + tauY * tauY / (1 + n);
+  return (4 * n / Math.pow(k, 1 / n)) * Math.pow(tauW, -3) * Math.pow(x, 1 + 1 / n) * bracket;
+}
+
+/**
+ * 層流の壁面せん断応力 τ_w を求める
+ *
+ * べき乗則は閉形式 τ_w = K((3n+1)/(4n))ⁿ(8V/D)ⁿ。
+ * 降伏応力を持つ場合は 8V/D(τ_w) が τ_w > τ_y で単調増加のため二分法で解く。
+ *
+ * @param rheology レオロジー
+ * @param velocity 流速 (m/s)
+ * @param id_m 内径 (m)
+ * @returns τ_w (Pa)
+ */
+export function calcLaminarWallShearStress(rheology: Rheology, velocity: number, id_m: number): number {
+  validateRheology(rheology);
+  if (velocity <= 0) throw new Error('Velocity must be positive');
+  if (id_m <= 0) throw new Error('Diameter must be positive');
+
+  const { tauY, k, n } = toHerschelBulkley(rheology);
+  const target = 8 * velocity / id_m;
+  if (tauY === 0) return k * Math.pow((3 * n + 1) / (4 * n), n) * Math.pow(target, n);
+
+  let lo = tauY;
+  let hi = tauY + k * Math.pow((3 * n + 1) / (4 * n), n) * Math.pow(target, n);
+  while (hbNominalShearRate(hi, tauY, k, n) < target) hi *= 2;
+
+  const MAX_ITERATIONS = 200;
+  const TOLERANCE = 1e-13;
+  for (let i = 0; i < MAX_ITERATIONS && hi - lo > TOLERANCE * hi; i++) {
+    const mid = (lo + hi) / 2;
+    if (hbNominalShearRate(mid, tauY, k, n) < target) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Metzner-Reed 一般化レイノルズ数 Re_MR = 8ρV²/τ_w
+ *
+ * τ_w は層流理論の壁面せん断応力。べき乗則では
+ * Re_MR = ρV^(2−n)Dⁿ / (K 8^(n−1) ((3n+1)/(4n))ⁿ) に一致する。
+ */
+export function calcMetznerReedReynolds(
+  rheology: Rheology,
+  density: number,
+  velocity: number,
+  id_m: number
+): number {
+  const tauW = calcLaminarWallShearStress(rheology, velocity, id_m);
+  return 8 * density * velocity * velocity / tauW;
+}
+
+/**
+ * 見かけの流動指数 n' = d ln τ_w / d ln(8V/D)
+ *
+ * べき乗則では n' = n。降伏応力を持つ流体は流速の前後差分で求める。
+ */
+function calcFlowBehaviorIndex(rheology: Rheology, velocity: number, id_m: number): number {
+  if (rheology.model === 'power_law') return rheology.n;
+  const h = 1e-4;
+  const up = calcLaminarWallShearStress(rheology, velocity * (1 + h), id_m);
+  const down = calcLaminarWallShearStress(rheology, velocity * (1 - h), id_m);
+  return Math.log(up / down) / Math.log((1 + h) / (1 - h));
+}
+
+/** ビンガムレイノルズ数 Re_B = ρVD/μ_p */
+export function calcBinghamReynolds(
+  density: number,
+  velocity: number,
+  id_m: number,
+  plasticViscosity: number
+): number {
+  if (plasticViscosity <= 0) throw new Error('Plastic viscosity must be positive');
+  return density * velocity * id_m / plasticViscosity;
+}
+
+/** ヘドストロム数 He = ρD²τ_y/μ_p² */
+export function calcHedstromNumber(
+  density: number,
+  id_m: number,
+  yieldStress_pa: number,
+  plasticViscosity: number
+): number {
+  if (plasticViscosity <= 0) throw new Error('Plastic viscosity must be positive');
+  return density * id_m * id_m * yieldStress_pa / (plasticViscosity * plasticViscosity);
+}
+
+/**
+ * Ryan-Johnson 臨界一般化レイノルズ数
+ *
+ * Re_MR,c = 6464n(2+n)^((2+n)/(1+n)) / (1+3n)²
+ * n = 1 で 2100 に一致する。
+ */
+export function calcRyanJohnsonCriticalRe(n: number): number {
+  if (n <= 0) throw new Error('Flow behavior index n must be positive');
+  return 6464 * n * Math.pow(2 + n, (2 + n) / (1 + n)) / ((1 + 3 * n) ** 2);
+}
+
+/** ビンガム流体の Buckingham 補正 1 − 4φ/3 + φ⁴/3（φ = τ_y/τ_w） */
+function buckinghamFactor(phi: number): number {
+  return 1 - 4 * phi / 3 + Math.pow(phi, 4) / 3;
+}
+
+/**
+ * Hanks 臨界レイノルズ数（ビンガム流体）
+ *
+ * x_c/(1−x_c)³ = He/16800
+ * Re_B,c = He/(8x_c) × (1 − 4x_c/3 + x_c⁴/3)
+ *
+ * 層流では Re_MR = Re_B × (1 − 4φ/3 + φ⁴/3) のため、Re_MR 基準の値も返す。
+ */
+export function calcHanksCriticalRe(hedstrom: number): { plasticReynolds: number; metznerReed: number } {
+  if (hedstrom < 0) throw new Error('Hedstrom number must be non-negative');
+  // He → 0 の極限で x_c ≈ He/16800、Re_B,c → 2100（ニュートン流体）
+  if (hedstrom < 1e-6) return { plasticReynolds: 2100, metznerReed: 2100 };
+
+  const target = hedstrom / 16800;
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 200 && hi - lo > 1e-15; i++) {
+    const mid = (lo + hi) / 2;
+    if (mid / (1 - mid) ** 3 < target) lo = mid;
+    else hi = mid;
+  }
+  const xc = (lo + hi) / 2;
+  const plasticReynolds = hedstrom / (8 * xc) * buckinghamFactor(xc);
+  return { plasticReynolds, metznerReed: plasticReynolds * buckinghamFactor(xc) };
+}
+
+/**
+ * Dodge-Metzner 式（滑らかな管の乱流）— Darcy 摩擦係数
+ *
+ * 1/√f_F = (4/n'^0.75) log₁₀(Re_MR f_F^(1−n'/2)) − 0.4/n'^1.2
+ *
+ * x = 1/√f_F として固定点反復する。n' = 1 で Nikuradse の滑面式に一致する。
+ */
+export function dodgeMetznerFrictionFactor(reMR: number, nPrime: number): FrictionFactorResult {
+  if (reMR <= 0) throw new Error('Reynolds number must be positive');
+  if (nPrime <= 0) throw new Error('Flow behavior index n must be positive');
+
+  const a = 4 / Math.pow(nPrime, 0.75);
+  const b = 0.4 / Math.pow(nPrime, 1.2);
+  const MAX_ITERATIONS = 100;
+  const TOLERANCE = 1e-10;
+
+  let x = 10;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    // f_F^(1−n'/2) = x^−(2−n')
+    const next = a * Math.log10(reMR * Math.pow(x, -(2 - nPrime))) - b;
+    if (Math.abs(next - x) < TOLERANCE * Math.abs(next)) {
+      x = next;
+      break;
+    }
+    x = next;
+  }
+
+  return { f: 4 / (x * x), method: 'dodge-metzner', reference: DODGE_METZNER_REF };
+}
+
+/**
+ * Darby-Melson 式（ビンガム流体、全流動領域）— Darcy 摩擦係数
+ *
+ * f_F = (f_L^m + f_T^m)^(1/m)
+ * f_L = 16/Re_MR（Buckingham 式と等価）
+ * f_T = 10^a Re_B^−0.193, a = −1.47[1 + 0.146 exp(−2.9×10⁻⁵ He)]
+ * m = 1.7 + 40000/Re_B
+ */
+export function darbyMelsonFrictionFactor(
+  reMR: number,
+  plasticReynolds: number,
+  hedstrom: number
+): FrictionFactorResult {
+  if (reMR <= 0 || plasticReynolds <= 0) throw new Error('Reynolds number must be positive');
+
+  const fL = 16 / reMR;
+  const a = -1.47 * (1 + 0.146 * Math.exp(-2.9e-5 * hedstrom));
+  const fT = Math.pow(10, a) * Math.pow(plasticReynolds, -0.193);
+  const m = 1.7 + 40000 / plasticReynolds;
+  // 低 Re_B で m が大きくなってもアンダーフローしないよう大きい方で正規化する
+  const hi = Math.max(fL, fT);
+  const lo = Math.min(fL, fT);
+  const fF = hi * Math.pow(1 + Math.pow(lo / hi, m), 1 / m);
+
+  return { f: 4 * fF, method: 'darby-melson', reference: DARBY_MELSON_REF };
+}
+
+/**
+ * 非ニュートン流体の Re・流動状態・摩擦係数をまとめて求める
+ *
+ * 層流（Re_MR < 臨界値）では f = 64/Re_MR。
+ * それ以外はべき乗則・HB が Dodge-Metzner、ビンガムが Darby-Melson。
+ *
+ * @param rheology レオロジー
+ * @param density 密度 (kg/m³)
+ * @param velocity 流速 (m/s)
+ * @param id_mm 内径 (mm)
+ */
+export function calcNonNewtonianFlow(
+  rheology: Rheology,
+  density: number,
+  velocity: number,
+  id_mm: number
+): NonNewtonianFlowResult {
+  const id_m = id_mm / 1000;
+  const wallShearStress_pa = calcLaminarWallShearStress(rheology, velocity, id_m);
+  const reynolds = 8 * density * velocity * velocity / wallShearStress_pa;
+  const flowBehaviorIndex = calcFlowBehaviorIndex(rheology, velocity, id_m);
+  const apparentViscosity = wallShearStress_pa / (8 * velocity / id_m);
+
+  let criticalReynolds: number;
+  let plasticReynolds: number | undefined;
+  let hedstrom: number | undefined;
+  if (rheology.model === 'bingham') {
+    plasticReynolds = calcBinghamReynolds(density, velocity, id_m, rheology.plasticViscosity);
+    hedstrom = calcHedstromNumber(density, id_m, rheology.yieldStress_pa, rheology.plasticViscosity);
+    criticalReynolds = calcHanksCriticalRe(hedstrom).metznerReed;
+  } else {
+    criticalReynolds = calcRyanJohnsonCriticalRe(flowBehaviorIndex);
+  }
+
+  const flowRegime = classifyFlow(reynolds, criticalReynolds);
+  let friction: FrictionFactorResult;
+  if (flowRegime === 'laminar') {
+    friction = { f: 64 / reynolds, method: 'metzner-reed', reference: METZNER_REED_REF };
+  } else if (plasticReynolds !== undefined && hedstrom !== undefined) {
+    friction = darbyMelsonFrictionFactor(reynolds, plasticReynolds, hedstrom);
+  } else {
+    friction = dodgeMetznerFrictionFactor(reynolds, flowBehaviorIndex);
+  }
+
+  return {
+    reynolds,
+    criticalReynolds,
+    flowRegime,
+    wallShearStress_pa,
+    flowBehaviorIndex,
+    apparentViscosity,
+    friction,
+    ...(plasticReynolds !== undefined ? { plasticReynolds } : {}),
+    ...(hedstrom !== undefined ? { hedstrom } : {}),
+  };
+}
@@ -45,14 +45,26 @@ export function calcReynolds(
   return (density * velocity * id_m) / viscosity;
 }
 
+/** ニュートン流体の層流限界 Re */
+export const NEWTONIAN_CRITICAL_RE = 2100;
+
+/** ニュートン流体の乱流下限 Re */
+const NEWTONIAN_TURBULENT_RE = 4000;
+
 /**
  * 流動状態を判定する
- * - laminar: Re < 2100
- * - transitional: 2100 ≤ Re < 4000
- * - turbulent: Re ≥ 4000
+ * - laminar: Re < Re_c
+ * - transitional: Re_c ≤ Re < Re_c × (4000/2100)
+ * - turbulent: Re ≥ Re_c × (4000/2100)
+ *
+ * ニュートン流体は Re_c = 2100。非ニュートン流体は一般化 Re とモデル別の臨界値
+ * （Ryan-Johnson, Hanks）を渡す。遷移域の幅はニュートン流体の比率を準用する。
+ *
+ * @param re レイノルズ数（非ニュートン流体では一般化 Re）
+ * @param criticalRe 層流限界 Re
  */
-export function classifyFlow(re: number): FlowRegime {
-  if (re < 2100) return 'laminar';
-  if (re < 4000) return 'transitional';
+export function classifyFlow(re: number, criticalRe: number = NEWTONIAN_CRITICAL_RE): FlowRegime {
+  if (re < criticalRe) return 'laminar';
+  if (re < criticalRe * (NEWTONIAN_TURBULENT_RE / NEWTONIAN_CRITICAL_RE)) return 'transitional';
   return 'turbulent';
 }
@@ -0,0 +1,217 @@
+/**
+ * 気液二相流 — 摩擦損失倍率・ボイド率
+ *
+ * - 分離流モデル: Lockhart & Martinelli (1949)（Chisholm (1967) の C 値による φ²_L = 1 + C/X + 1/X²）
+ * - Friedel (1979): 全量液相基準の倍率 φ²_LO（水平・垂直上昇流、μ_L/μ_G < 1000 で推奨）
+ * - ボイド率: Rouhani-Axelsson 式の Steiner (1993) 水平管版
+ * - 均質流密度 ρ_H = [x/ρ_G + (1−x)/ρ_L]⁻¹
+ *
+ * 単相摩擦係数はニュートン流体と同じ Darcy 摩擦係数（calcFrictionFactor）を用いる。
+ */
+
+import { DarcyFrictionFactorMethod, Reference, TwoPhaseMethod, GRAVITY } from '../types';
+import { NEWTONIAN_CRITICAL_RE } from './pipeGeometry';
+import { calcFrictionFactor, requireDarcyFrictionMethod, FrictionFactorResult } from './frictionFactor';
+
+const LOCKHART_MARTINELLI_REF: Reference = {
+  source: 'Lockhart & Martinelli, 1949; Chisholm, 1967',
+  equation: 'φ²_L = 1 + C/X + 1/X², X² = (dp/dz)_L/(dp/dz)_G',
+};
+
+const FRIEDEL_REF: Reference = {
+  source: 'Friedel, 1979',
+  equation: 'φ²_LO = E + 3.24FH/(Fr^0.045·We^0.035)',
+};
+
+/** 二相流の物性・流動条件（摩擦損失倍率の計算用） */
+export interface TwoPhaseConditions {
+  /** 質量流束 G (kg/(m²·s)) */
+  readonly massFlux: number;
+  /** クオリティ x (0 ≤ x ≤ 1。x = 0 は飽和液、x = 1 は飽和蒸気) */
+  readonly quality: number;
+  readonly liquidDensity: number;    // kg/m³
+  readonly gasDensity: number;       // kg/m³
+  readonly liquidViscosity: number;  // Pa·s
+  readonly gasViscosity: number;     // Pa·s
+  readonly surfaceTension: number;   // N/m
+}
+
+export interface TwoPhaseFrictionResult {
+  /** 二相摩擦損失勾配 (dp/dz)_TP (Pa/m) */
+  readonly pressureGradient: number;
+  /** 全量液相流れの摩擦損失勾配 (dp/dz)_LO (Pa/m) */
+  readonly liquidOnlyGradient: number;
+  /** 全量液相基準の倍率 φ²_LO */
+  readonly multiplier: number;
+  /** Lockhart-Martinelli パラメータ X（x = 0 で ∞、x = 1 で 0） */
+  readonly martinelliParameter: number;
+  /** 全量液相流れの Re_LO = GD/μ_L */
+  readonly liquidOnlyReynolds: number;
+  /** 全量液相流れの摩擦係数 f_LO */
+  readonly liquidOnlyFriction: FrictionFactorResult;
+  readonly reference: Reference;
+}
+
+function validateConditions(c: TwoPhaseConditions): void {
+  if (!(c.quality >= 0 && c.quality <= 1)) throw new Error('Quality must be between 0 and 1');
+  if (!(c.massFlux > 0)) throw new Error('Mass flux must be positive');
+  if (!(c.gasDensity > 0 && c.gasDensity < c.liquidDensity)) {
+    throw new Error('Gas density must be positive and lower than liquid density');
+  }
+  if (!(c.liquidViscosity > 0 && c.gasViscosity > 0)) throw new Error('Viscosity must be positive');
+  if (!(c.surfaceTension > 0)) throw new Error('Surface tension must be positive');
+}
+
+/**
+ * 均質流密度 ρ_H = [x/ρ_G + (1−x)/ρ_L]⁻¹ (kg/m³)
+ */
+export function calcHomogeneousDensity(quality: number, liquidDensity: number, gasDensity: number): number {
+  return 1 / (quality / gasDensity + (1 - quality) / liquidDensity);
+}
+
+/**
+ * ボイド率 α — Rouhani-Axelsson 式（Steiner 1993 水平管版）
+ *
+ * α = (x/ρ_G)·{[1 + 0.12(1−x)](x/ρ_G + (1−x)/ρ_L) + 1.18(1−x)[gσ(ρ_L−ρ_G)]^0.25/(Gρ_L^0.5)}⁻¹
+ *
+ * x = 0 で α = 0、x = 1 で α = 1。
+ */
+export function calcVoidFraction(
+  quality: number,
+  massFlux: number,
+  liquidDensity: number,
+  gasDensity: number,
+  surfaceTension: number
+): number {
+  if (quality <= 0) return 0;
+  if (quality >= 1) return 1;
+  const x = quality;
+  const drift = 1.18 * (1 - x) * Math.pow(GRAVITY * surfaceTension * (liquidDensity - gasDensity), 0.25)
+    / (massFlux * Math.sqrt(liquidDensity));
+  return (x / gasDensity)
+    / ((1 + 0.12 * (1 - x)) * (x / gasDensity + (1 - x) / liquidDensity) + drift);
+}
+
+/**
+ * 分離流の運動量流束 / G²: ψ = x²/(ρ_G α) + (1−x)²/(ρ_L(1−α))
+ *
+ * 加速損失は ΔP_acc = G²(ψ_out − ψ_in)。
+ */
+export function calcMomentumDensityTerm(
+  quality: number,
+  voidFraction: number,
+  liquidDensity: number,
+  gasDensity: number
+): number {
+  if (quality <= 0) return 1 / liquidDensity;
+  if (quality >= 1) return 1 / gasDensity;
+  return quality * quality / (gasDensity * voidFraction)
+    + (1 - quality) * (1 - quality) / (liquidDensity * (1 - voidFraction));
+}
+
+/**
+ * Chisholm の C 値（液相単独・気相単独流れの層流/乱流の組合せ）
+ *
+ * tt = 20, vt = 12, tv = 10, vv = 5（v: 層流、t: 乱流。1 文字目が液相）
+ */
+export function chisholmC(liquidTurbulent: boolean, gasTurbulent: boolean): number {
+  if (liquidTurbulent) return gasTurbulent ? 20 : 10;
+  return gasTurbulent ? 12 : 5;
+}
+
+/**
+ * Friedel 相関による全量液相基準の二相摩擦損失倍率 φ²_LO
+ *
+ * E = (1−x)² + x²(ρ_L f_GO)/(ρ_G f_LO)
+ * F = x^0.78 (1−x)^0.224
+ * H = (ρ_L/ρ_G)^0.91 (μ_G/μ_L)^0.19 (1 − μ_G/μ_L)^0.7
+ * Fr = G²/(gDρ_H²), We = G²D/(σρ_H)
+ *
+ * @param fLO 全量液相流れの摩擦係数
+ * @param fGO 全量気相流れの摩擦係数
+ */
+export function friedelMultiplier(c: TwoPhaseConditions, id_m: number, fLO: number, fGO: number): number {
+  const x = c.quality;
+  const rhoH = calcHomogeneousDensity(x, c.liquidDensity, c.gasDensity);
+  const e = (1 - x) * (1 - x) + x * x * (c.liquidDensity * fGO) / (c.gasDensity * fLO);
+  const f = Math.pow(x, 0.78) * Math.pow(1 - x, 0.224);
+  const muRatio = c.gasViscosity / c.liquidViscosity;
+  const h = Math.pow(c.liquidDensity / c.gasDensity, 0.91) * Math.pow(muRatio, 0.19)
+    * Math.pow(Math.max(1 - muRatio, 0), 0.7);
+  const fr = c.massFlux * c.massFlux / (GRAVITY * id_m * rhoH * rhoH);
+  const we = c.massFlux * c.massFlux * id_m / (c.surfaceTension * rhoH);
+  return e + 3.24 * f * h / (Math.pow(fr, 0.045) * Math.pow(we, 0.035));
+}
+
+/**
+ * 二相摩擦損失勾配を計算する
+ *
+ * Lockhart-Martinelli は液相単独流れ基準の φ²_L を求め、結果は φ²_LO に換算して返す。
+ * 単相の端点では相関式によらず x = 0 で φ²_LO = 1（全量液相の勾配）、
+ * x = 1 で全量気相の勾配とする（Friedel 式の端点値と一致）。
+ */
+export function calcTwoPhaseFriction(
+  method: TwoPhaseMethod,
+  c: TwoPhaseConditions,
+  frictionMethod: DarcyFrictionFactorMethod,
+  roughness_mm: number,
+  id_mm: number
+): TwoPhaseFrictionResult {
+  validateConditions(c);
+  requireDarcyFrictionMethod(frictionMethod);
+  const id_m = id_mm / 1000;
+  const G = c.massFlux;
+  const x = c.quality;
+
+  // 全量液相・全量気相流れ
+  const reLO = G * id_m / c.liquidViscosity;
+  const reGO = G * id_m / c.gasViscosity;
+  const fLO = calcFrictionFactor(frictionMethod, reLO, roughness_mm, id_mm);
+  const fGO = calcFrictionFactor(frictionMethod, reGO, roughness_mm, id_mm);
+  const liquidOnlyGradient = fLO.f * G * G / (2 * id_m * c.liquidDensity);
+  const reference = method === 'lockhart-martinelli' ? LOCKHART_MARTINELLI_REF : FRIEDEL_REF;
+
+  // 単相の端点（各相単独流れの一方が存在しない）
+  if (x === 0 || x === 1) {
+    const pressureGradient = x === 0
+      ? liquidOnlyGradient
+      : fGO.f * G * G / (2 * id_m * c.gasDensity);
+    return {
+      pressureGradient,
+      liquidOnlyGradient,
+      multiplier: pressureGradient / liquidOnlyGradient,
+      martinelliParameter: x === 0 ? Infinity : 0,
+      liquidOnlyReynolds: reLO,
+      liquidOnlyFriction: fLO,
+      reference,
+    };
+  }
+
+  // 液相単独・気相単独流れ（各相が単独で管内を流れる場合）
+  const reL = G * (1 - x) * id_m / c.liquidViscosity;
+  const reG = G * x * id_m / c.gasViscosity;
+  const fL = calcFrictionFactor(frictionMethod, reL, roughness_mm, id_mm).f;
+  const fG = calcFrictionFactor(frictionMethod, reG, roughness_mm, id_mm).f;
+  const dpdzL = fL * Math.pow(G * (1 - x), 2) / (2 * id_m * c.liquidDensity);
+  const dpdzG = fG * Math.pow(G * x, 2) / (2 * id_m * c.gasDensity);
+  const martinelliParameter = Math.sqrt(dpdzL / dpdzG);
+
+  let pressureGradient: number;
+  if (method === 'lockhart-martinelli') {
+    const C = chisholmC(reL >= NEWTONIAN_CRITICAL_RE, reG >= NEWTONIAN_CRITICAL_RE);
+    const X = martinelliParameter;
+    pressureGradient = (1 + C / X + 1 / (X * X)) * dpdzL;
+  } else {
+    pressureGradient = friedelMultiplier(c, id_m, fLO.f, fGO.f) * liquidOnlyGradient;
+  }
+
+  return {
+    pressureGradient,
+    liquidOnlyGradient,
+    multiplier: pressureGradient / liquidOnlyGradient,
+    martinelliParameter,
+    liquidOnlyReynolds: reLO,
+    liquidOnlyFriction: fLO,
+    reference,
+  };
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcSprinklerSystem, calcHeadFlow, calcAvailableSupplyPressure, calcSprinklerFittingLength,
+} from '../sprinklerHydraulics';
+import { SprinklerSystemInput, SprinklerFittingData, SprinklerHead } from '../types';
+import { PipeSpec, PipeMaterial, FluidProperties, GRAVITY } from '../../types';
+import { calcHazenWilliamsGradient } from '../../pipe/hazenWilliams';
+import fittingJson from '../../../../data/fittings-db/nfpa13-equivalent-length.json';
+
+const fittingData = fittingJson as unknown as SprinklerFittingData;
+
+const pipe1inch: PipeSpec = {
+  standard: 'ASME B36.10M', nps: '1', dn: 25, od_mm: 33.4, wall_mm: 3.38, id_mm: 26.64, schedule: '40',
+};
+
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M', nps: '2', dn: 50, od_mm: 60.3, wall_mm: 3.91, id_mm: 52.50, schedule: '40',
+};
+
+const blackSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  hazenWilliamsC: 120,
+  reference: { source: 'Moody, 1944' },
+};
+
+const water20C: FluidProperties = {
+  density: 998.2,
+  viscosity: 1.002e-3,
+  temperature: 20,
+  pressure: 2.339,
+  reference: { source: 'IAPWS-IF97' },
+};
+
+const head = (id: string, nodeId: string, overrides: Partial<SprinklerHead> = {}): SprinklerHead => ({
+  id, nodeId, kFactor: 80, minPressure_kpa: 50, coverageArea_m2: 12, ...overrides,
+});
+
+/** 供給点 S → 1 本の管路 → ヘッド 1 個 */
+const singleHeadInput: SprinklerSystemInput = {
+  nodes: [{ id: 'S', elevation_m: 0 }, { id: 'A', elevation_m: 0 }],
+  pipes: [{ id: 'P1', upstreamNodeId: 'S', downstreamNodeId: 'A', pipe: pipe1inch, length_m: 3, fittings: [] }],
+  heads: [head('H1', 'A')],
+  supplyNodeId: 'S',
+  material: blackSteel,
+  fluid: water20C,
+  design: { density_mm_min: 0, areaOfOperation_m2: 12, hoseAllowance_lpm: 0 },
+};
+
+/** 供給点 S → 分岐点 T → 長い枝 (B) と短い枝 (C) */
+const branchedInput: SprinklerSystemInput = {
+  nodes: [
+    { id: 'S', elevation_m: 0 },
+    { id: 'T', elevation_m: 0 },
+    { id: 'B', elevation_m: 0 },
+    { id: 'C', elevation_m: 0 },
+  ],
+  pipes: [
+    { id: 'main', upstreamNodeId: 'S', downstreamNodeId: 'T', pipe: pipe2inch, length_m: 10, fittings: [{ type: 'elbow_90', quantity: 1 }] },
+    { id: 'long', upstreamNodeId: 'T', downstreamNodeId: 'B', pipe: pipe1inch, length_m: 8, fittings: [] },
+    { id: 'short', upstreamNodeId: 'T', downstreamNodeId: 'C', pipe: pipe1inch, length_m: 2, fittings: [] },
+  ],
+  heads: [head('HB', 'B'), head('HC', 'C')],
+  supplyNodeId: 'S',
+  material: blackSteel,
+  fluid: water20C,
+  design: { density_mm_min: 0, areaOfOperation_m2: 24, hoseAllowance_lpm: 0 },
+};
+
+describe('calcHeadFlow', () => {
+  it('should give Q = K√P with P in bar', () => {
+    // K80 at 1 bar → 80 L/min
+    expect(calcHeadFlow(80, 100)).toBeCloseTo(80, 10);
+    expect(calcHeadFlow(80, 50)).toBeCloseTo(80 * Math.sqrt(0.5), 10);
+  });
+});
+
+describe('calcAvailableSupplyPressure', () => {
+  const supply = { staticPressure_kpa: 500, residualPressure_kpa: 350, residualFlow_lpm: 2000 };
+
+  it('should pass through the static and residual points', () => {
+    expect(calcAvailableSupplyPressure(supply, 0)).toBe(500);
+    expect(calcAvailableSupplyPressure(supply, 2000)).toBeCloseTo(350, 10);
+  });
+
+  it('should reject a residual pressure above the static pressure', () => {
+    expect(() => calcAvailableSupplyPressure({ ...supply, residualPressure_kpa: 600 }, 100))
+      .toThrow('Residual pressure');
+  });
+});
+
+describe('calcSprinklerFittingLength', () => {
+  it('should convert the table value for Sch 40 at C = 120', () => {
+    // 1" 90° elbow = 2 ft
+    const length = calcSprinklerFittingLength([{ type: 'elbow_90', quantity: 1 }], pipe1inch, 120, fittingData);
+    expect(length).toBeCloseTo(2 * 0.3048, 10);
+  });
+
+  it('should apply the C-factor multiplier', () => {
+    const length = calcSprinklerFittingLength([{ type: 'elbow_90', quantity: 2 }], pipe1inch, 150, fittingData);
+    // (150/120)^1.852 ≈ 1.51
+    expect(length / (4 * 0.3048)).toBeCloseTo(1.51, 2);
+  });
+
+  it('should throw when the table has no value for the fitting', () => {
+    expect(() => calcSprinklerFittingLength([{ type: 'butterfly_valve', quantity: 1 }], pipe1inch, 120, fittingData))
+      .toThrow('No equivalent length');
+  });
+});
+
+describe('calcSprinklerSystem', () => {
+  it('should work back from a single head through one pipe', () => {
+    const result = calcSprinklerSystem(singleHeadInput, fittingData);
+    const q = 80 * Math.sqrt(0.5);
+    const pf = calcHazenWilliamsGradient(120, q / 60000, 26.64) * 998.2 * GRAVITY / 1000 * 3;
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0].flow_lpm).toBeCloseTo(q, 8);
+    expect(result.rows[0].addedFlow_lpm).toBeCloseTo(q, 8);
+    expect(result.rows[0].pressureDownstream_kpa).toBeCloseTo(50, 8);
+    expect(result.rows[0].frictionPressure_kpa).toBeCloseTo(pf, 8);
+    expect(result.requiredPressure_kpa).toBeCloseTo(50 + pf, 8);
+    expect(result.sprinklerDemand_lpm).toBeCloseTo(q, 8);
+    expect(result.mostRemoteHeadId).toBe('H1');
+  });
+
+  it('should start from the density × area flow when it exceeds K√P_min', () => {
+    const result = calcSprinklerSystem(
+      { ...singleHeadInput, design: { ...singleHeadInput.design, density_mm_min: 5 } }, fittingData
+    );
+    // 5 mm/min × 12 m² = 60 L/min > 56.6 L/min → P = (60/80)² bar
+    expect(result.heads[0].minFlow_lpm).toBeCloseTo(60, 10);
+    expect(result.rows[0].pressureDownstream_kpa).toBeCloseTo(56.25, 8);
+  });
+
+  it('should add the elevation pressure when the head is above the supply', () => {
+    const flat = calcSprinklerSystem(singleHeadInput, fittingData);
+    const raised = calcSprinklerSystem({
+      ...singleHeadInput,
+      nodes: [{ id: 'S', elevation_m: 0 }, { id: 'A', elevation_m: 10 }],
+    }, fittingData);
+    expect(raised.requiredPressure_kpa - flat.requiredPressure_kpa).toBeCloseTo(10 * 998.2 * GRAVITY / 1000, 6);
+  });
+
+  it('should balance the short branch up to the governing junction pressure', () => {
+    const result = calcSprinklerSystem(branchedInput, fittingData);
+    const hb = result.heads.find(h => h.headId === 'HB')!;
+    const hc = result.heads.find(h => h.headId === 'HC')!;
+    const longRow = result.rows.find(r => r.pipeId === 'long')!;
+    const shortRow = result.rows.find(r => r.pipeId === 'short')!;
+    const mainRow = result.rows.find(r => r.pipeId === 'main')!;
+
+    // 長い枝が支配し、最遠ヘッドはその末端
+    expect(result.mostRemoteHeadId).toBe('HB');
+    expect(hb.flow_lpm).toBeCloseTo(hb.minFlow_lpm, 10);
+    expect(hc.flow_lpm).toBeGreaterThan(hc.minFlow_lpm);
+
+    // 短い枝の流量は Q√(P_T/P) で調整され、幹線の q に計上される
+    const ratio = Math.sqrt(longRow.pressureUpstream_kpa / shortRow.pressureUpstream_kpa);
+    expect(mainRow.addedFlow_lpm).toBeCloseTo(shortRow.flow_lpm * ratio, 8);
+    expect(mainRow.flow_lpm).toBeCloseTo(longRow.flow_lpm + shortRow.flow_lpm * ratio, 8);
+    expect(mainRow.pressureDownstream_kpa).toBeCloseTo(longRow.pressureUpstream_kpa, 10);
+    expect(result.sprinklerDemand_lpm).toBeCloseTo(hb.flow_lpm + hc.flow_lpm, 8);
+
+    // 計算順: 末端の枝が先、幹線が最後
+    expect(result.rows[result.rows.length - 1].pipeId).toBe('main');
+    expect(mainRow.fittingLength_m).toBeCloseTo(5 * 0.3048, 10);
+  });
+
+  it('should compare the demand with the water supply curve including hose allowance', () => {
+    const result = calcSprinklerSystem({
+      ...branchedInput,
+      design: { ...branchedInput.design, hoseAllowance_lpm: 400 },
+      supply: { staticPressure_kpa: 500, residualPressure_kpa: 350, residualFlow_lpm: 2000 },
+    }, fittingData);
+    expect(result.totalDemand_lpm).toBeCloseTo(result.sprinklerDemand_lpm + 400, 10);
+    expect(result.availablePressure_kpa).toBeCloseTo(
+      500 - 150 * Math.pow(result.totalDemand_lpm / 2000, 1.85), 8
+    );
+    expect(result.safetyMargin_kpa).toBeGreaterThan(0);
+    expect(result.warnings.find(w => w.messageKey === 'warn.sprinkler_supply_insufficient')).toBeUndefined();
+  });
+
+  it('should warn when the supply cannot meet the demand', () => {
+    const result = calcSprinklerSystem({
+      ...branchedInput,
+      supply: { staticPressure_kpa: 80, residualPressure_kpa: 40, residualFlow_lpm: 200 },
+    }, fittingData);
+    expect(result.safetyMargin_kpa).toBeLessThan(0);
+    expect(result.warnings.find(w => w.messageKey === 'warn.sprinkler_supply_insufficient')).toBeDefined();
+  });
+
+  it('should warn when the calculated heads do not cover the area of operation', () => {
+    const result = calcSprinklerSystem(
+      { ...branchedInput, design: { ...branchedInput.design, areaOfOperation_m2: 139 } }, fittingData
+    );
+    const warning = result.warnings.find(w => w.messageKey === 'warn.sprinkler_design_area');
+    expect(warning?.messageParams).toEqual({ covered: 24, required: 139 });
+  });
+
+  it('should reject a node fed by two pipes', () => {
+    expect(() => calcSprinklerSystem({
+      ...branchedInput,
+      pipes: [
+        ...branchedInput.pipes,
+        { id: 'loop', upstreamNodeId: 'B', downstreamNodeId: 'C', pipe: pipe1inch, length_m: 2, fittings: [] },
+      ],
+    }, fittingData)).toThrow('more than one upstream pipe');
+  });
+
+  it('should reject a node that is not connected to the supply', () => {
+    expect(() => calcSprinklerSystem({
+      ...singleHeadInput,
+      nodes: [...singleHeadInput.nodes, { id: 'X', elevation_m: 0 }],
+    }, fittingData)).toThrow('not connected');
+  });
+
+  it('should require a Hazen-Williams C-factor on the material', () => {
+    const material: PipeMaterial = { ...blackSteel, hazenWilliamsC: undefined };
+    expect(() => calcSprinklerSystem({ ...singleHeadInput, material }, fittingData))
+      .toThrow('C-factor is not defined');
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * スプリンクラー水理計算 — 枝状配管の最遠ヘッドからの逆算（NFPA 13 方式）
+ *
+ * 1. 各ヘッドの最低放水量 q = max(K√P_min, 散水密度 × 防護面積) と、その放水圧力から出発する
+ * 2. 末端から供給点へ管路ごとに P_上流 = P_下流 + P_e + P_f を積み上げる
+ *    P_f は Hazen-Williams 式（継手は相当管長で直管長に加算）
+ * 3. 合流点では必要圧力の高い側を支配とし、他方の流量を等価 K による
+ *    Q' = Q√(P_支配/P) で調整する（手計算の水理計算書と同じ近似）
+ * 4. 供給点の需要流量に消火栓加算水量を加え、水源の供給曲線と比較する
+ */
+
+import { PipeSpec, Reference, GRAVITY } from '../types';
+import { calcFlowArea } from '../pipe/pipeGeometry';
+import { calcHazenWilliamsGradient } from '../pipe/hazenWilliams';
+import { generateHazenWilliamsWarnings, generateSprinklerWarnings } from '../system/calcWarnings';
+import {
+  SprinklerSystemInput, SprinklerSystemResult, SprinklerCalcRow, SprinklerHeadResult,
+  SprinklerFittingData, SprinklerFittingInput, SprinklerPipe, WaterSupplyTest,
+} from './types';
+
+const NFPA_13_REF: Reference = {
+  source: 'NFPA 13, 2022',
+  equation: 'Q = K√P; P = P_s − (P_s − P_r)(Q/Q_r)^1.85',
+};
+
+const HAZEN_WILLIAMS_REF: Reference = {
+  source: 'Williams & Hazen, 1920',
+  equation: 'h_f/L = 10.67 × Q^1.852 / (C^1.852 × D^4.87)',
+};
+
+const FT_TO_M = 0.3048;
+const LPM_PER_M3S = 60000;
+
+/**
+ * ヘッド放水量 Q = K√P
+ *
+ * @param kFactor K ファクター (L/min/bar^0.5)
+ * @param pressure_kpa 放水圧力 (kPa)
+ * @returns 放水量 (L/min)
+ */
+export function calcHeadFlow(kFactor: number, pressure_kpa: number): number {
+  return kFactor * Math.sqrt(Math.max(pressure_kpa, 0) / 100);
+}
+
+/**
+ * 放水試験結果から、指定流量での供給可能圧力を求める
+ *
+ * P = P_s − (P_s − P_r)(Q/Q_r)^1.85
+ *
+ * @param supply 放水試験結果
+ * @param flow_lpm 流量 (L/min)
+ * @returns 供給可能圧力 (kPa)。流量が大きいと負値になる
+ */
+export function calcAvailableSupplyPressure(supply: WaterSupplyTest, flow_lpm: number): number {
+  const { staticPressure_kpa, residualPressure_kpa, residualFlow_lpm } = supply;
+  if (residualFlow_lpm <= 0) throw new Error('Residual flow must be positive');
+  if (residualPressure_kpa < 0 || residualPressure_kpa > staticPressure_kpa) {
+    throw new Error('Residual pressure must be between 0 and the static pressure');
+  }
+  return staticPressure_kpa
+    - (staticPressure_kpa - residualPressure_kpa) * Math.pow(Math.max(flow_lpm, 0) / residualFlow_lpm, 1.85);
+}
+
+/**
+ * 継手・弁の相当管長 (m)
+ *
+ * 表の値 (Sch 40 鋼管、C = baseC) に C 係数補正 (C/baseC)^1.852 と
+ * 内径補正 (d/d_Sch40)^4.87 を乗じる。
+ */
+export function calcSprinklerFittingLength(
+  fittings: readonly SprinklerFittingInput[],
+  pipe: PipeSpec,
+  cFactor: number,
+  data: SprinklerFittingData
+): number {
+  if (fittings.length === 0) return 0;
+  const size = data.sizes.find(s => s.dn === pipe.dn);
+  if (!size) throw new Error(`No equivalent-length data for DN ${pipe.dn}`);
+  const factor = Math.pow(cFactor / data.baseC, 1.852) * Math.pow(pipe.id_mm / size.sch40Id_mm, 4.87);
+  return fittings.reduce((sum, fitting) => {
+    const length_ft = size.equivalentLength_ft[fitting.type];
+    if (length_ft === undefined) {
+      throw new Error(`No equivalent length for ${fitting.type} at DN ${pipe.dn}`);
+    }
+    return sum + length_ft * FT_TO_M * fitting.quantity * factor;
+  }, 0);
+}
+
+/** ノードに集まる需要（ヘッドまたは下流側の管路） */
+interface Demand {
+  readonly flow_lpm: number;
+  readonly pressure_kpa: number;
+  /** 需要に含まれるヘッド（合流点での流量調整の対象） */
+  readonly headIds: readonly string[];
+  /** 需要の発生元（支配経路の追跡用） */
+  readonly source: { readonly type: 'head' | 'pipe'; readonly id: string };
+}
+
+/** ノードでの合流・調整後の需要 */
+interface NodeDemand {
+  readonly flow_lpm: number;
+  readonly pressure_kpa: number;
+  readonly headIds: readonly string[];
+  /** 支配する下流管路以外から加わる流量 (L/min) */
+  readonly addedFlow_lpm: number;
+}
+
+/**
+ * 枝状スプリンクラー配管の水理計算
+ *
+ * @param input - 配管網・ヘッド・設計基準・水源条件
+ * @param fittingData - 継手の相当管長表
+ * @returns SprinklerSystemResult
+ */
+export function calcSprinklerSystem(
+  input: SprinklerSystemInput,
+  fittingData: SprinklerFittingData
+): SprinklerSystemResult {
+  validateTree(input);
+  const { fluid, material, design } = input;
+  const cFactor = material.hazenWilliamsC;
+  if (cFactor === undefined) {
+    throw new Error(`Hazen-Williams C-factor is not defined for material: ${material.id}`);
+  }
+
+  const nodeById = new Map(input.nodes.map(n => [n.id, n]));
+  const rhoG_kpa_m = fluid.density * GRAVITY / 1000;
+
+  // ヘッドごとの出発点（最低放水量とその圧力）
+  const headStart = new Map(input.heads.map(h => {
+    if (h.kFactor <= 0) throw new Error(`Sprinkler ${h.id}: K-factor must be positive`);
+    const minFlow = Math.max(calcHeadFlow(h.kFactor, h.minPressure_kpa), design.density_mm_min * h.coverageArea_m2);
+    if (minFlow <= 0) throw new Error(`Sprinkler ${h.id}: minimum pressure or coverage area is required`);
+    const pressure = 100 * Math.pow(minFlow / h.kFactor, 2);
+    return [h.id, { minFlow, pressure }];
+  }));
+  // 合流点での流量調整の累積倍率（圧力は倍率の 2 乗）
+  const headScale = new Map(input.heads.map(h => [h.id, 1]));
+  const governingSource = new Map<string, Demand['source']>();
+  const rows: SprinklerCalcRow[] = [];
+
+  const calcPipeRow = (p: SprinklerPipe, downstream: NodeDemand): SprinklerCalcRow => {
+    const flow_m3s = downstream.flow_lpm / LPM_PER_M3S;
+    const fittingLength = calcSprinklerFittingLength(p.fittings, p.pipe, cFactor, fittingData);
+    const totalLength = p.length_m + fittingLength;
+    const frictionLoss = calcHazenWilliamsGradient(cFactor, flow_m3s, p.pipe.id_mm) * rhoG_kpa_m;
+    const elevationPressure = (nodeById.get(p.downstreamNodeId)!.elevation_m
+      - nodeById.get(p.upstreamNodeId)!.elevation_m) * rhoG_kpa_m;
+    const frictionPressure = frictionLoss * totalLength;
+    return {
+      pipeId: p.id,
+      downstreamNodeId: p.downstreamNodeId,
+      upstreamNodeId: p.upstreamNodeId,
+      elevation_m: nodeById.get(p.downstreamNodeId)!.elevation_m,
+      addedFlow_lpm: downstream.addedFlow_lpm,
+      flow_lpm: downstream.flow_lpm,
+      pipe: p.pipe,
+      cFactor,
+      fittings: p.fittings,
+      length_m: p.length_m,
+      fittingLength_m: fittingLength,
+      totalLength_m: totalLength,
+      frictionLoss_kpa_m: frictionLoss,
+      pressureDownstream_kpa: downstream.pressure_kpa,
+      elevationPressure_kpa: elevationPressure,
+      frictionPressure_kpa: frictionPressure,
+      pressureUpstream_kpa: downstream.pressure_kpa + elevationPressure + frictionPressure,
+      velocity_m_s: flow_m3s / calcFlowArea(p.pipe.id_mm),
+    };
+  };
+
+  // 末端から順に（後行順）需要を積み上げる。放水ヘッドのない枝は null
+  const demandAt = (nodeId: string): NodeDemand | null => {
+    const demands: Demand[] = input.heads
+      .filter(h => h.nodeId === nodeId)
+      .map(h => ({
+        flow_lpm: headStart.get(h.id)!.minFlow,
+        pressure_kpa: headStart.get(h.id)!.pressure,
+        headIds: [h.id],
+        source: { type: 'head', id: h.id },
+      }));
+    for (const p of input.pipes.filter(pp => pp.upstreamNodeId === nodeId)) {
+      const downstream = demandAt(p.downstreamNodeId);
+      if (!downstream) continue;
+      const row = calcPipeRow(p, downstream);
+      rows.push(row);
+      demands.push({
+        flow_lpm: row.flow_lpm,
+        pressure_kpa: row.pressureUpstream_kpa,
+        headIds: downstream.headIds,
+        source: { type: 'pipe', id: p.id },
+      });
+    }
+    if (demands.length === 0) return null;
+
+    // 支配側（必要圧力最大）に合わせて他の需要の流量を調整
+    const governing = demands.reduce((best, d) => (d.pressure_kpa > best.pressure_kpa ? d : best));
+    governingSource.set(nodeId, governing.source);
+    let flow = 0;
+    for (const d of demands) {
+      if (d === governing) {
+        flow += d.flow_lpm;
+        continue;
+      }
+      if (d.pressure_kpa <= 0) {
+        throw new Error(`Cannot balance flows at node ${nodeId}: non-positive branch pressure`);
+      }
+      const ratio = Math.sqrt(governing.pressure_kpa / d.pressure_kpa);
+      for (const id of d.headIds) headScale.set(id, headScale.get(id)! * ratio);
+      flow += d.flow_lpm * ratio;
+    }
+    return {
+      flow_lpm: flow,
+      pressure_kpa: governing.pressure_kpa,
+      headIds: demands.flatMap(d => d.headIds),
+      addedFlow_lpm: flow - (governing.source.type === 'pipe' ? governing.flow_lpm : 0),
+    };
+  };
+
+  const supplyDemand = demandAt(input.supplyNodeId)!;
+
+  // 供給点から支配経路をたどり、最遠ヘッドを特定
+  let source = governingSource.get(input.supplyNodeId)!;
+  while (source.type === 'pipe') {
+    const pipeId = source.id;
+    source = governingSource.get(input.pipes.find(p => p.id === pipeId)!.downstreamNodeId)!;
+  }
+
+  const heads: SprinklerHeadResult[] = input.heads.map(h => {
+    const start = headStart.get(h.id)!;
+    const scale = headScale.get(h.id)!;
+    return {
+      headId: h.id,
+      nodeId: h.nodeId,
+      minFlow_lpm: start.minFlow,
+      flow_lpm: start.minFlow * scale,
+      pressure_kpa: start.pressure * scale * scale,
+    };
+  });
+
+  const totalDemand = supplyDemand.flow_lpm + design.hoseAllowance_lpm;
+  const availablePressure = input.supply
+    ? calcAvailableSupplyPressure(input.supply, totalDemand)
+    : undefined;
+  const coveredArea = input.heads.reduce((sum, h) => sum + h.coverageArea_m2, 0);
+
+  const warnings = [
+    ...generateSprinklerWarnings({
+      coveredArea_m2: coveredArea,
+      areaOfOperation_m2: design.areaOfOperation_m2,
+      requiredPressure_kpa: supplyDemand.pressure_kpa,
+      availablePressure_kpa: availablePressure,
+      totalDemand_lpm: totalDemand,
+    }),
+    ...generateHazenWilliamsWarnings({
+      temperature_c: fluid.temperature,
+      kinematicViscosity_m2s: fluid.viscosity / fluid.density,
+    }),
+  ];
+
+  return {
+    rows,
+    heads,
+    mostRemoteHeadId: source.id,
+    sprinklerDemand_lpm: supplyDemand.flow_lpm,
+    hoseAllowance_lpm: design.hoseAllowance_lpm,
+    totalDemand_lpm: totalDemand,
+    requiredPressure_kpa: supplyDemand.pressure_kpa,
+    coveredArea_m2: coveredArea,
+    availablePressure_kpa: availablePressure,
+    safetyMargin_kpa: availablePressure !== undefined ? availablePressure - supplyDemand.pressure_kpa : undefined,
+    references: [
+      NFPA_13_REF, HAZEN_WILLIAMS_REF,
+      ...(material.hazenWilliamsReference ? [material.hazenWilliamsReference] : []),
+      material.reference, fluid.reference,
+    ],
+    warnings,
+  };
+}
+
+/**
+ * 配管網が供給点を根とする木構造であることを検証する
+ */
+function validateTree(input: SprinklerSystemInput): void {
+  const nodeIds = new Set(input.nodes.map(n => n.id));
+  if (nodeIds.size !== input.nodes.length) throw new Error('Node ids must be unique');
+  if (!nodeIds.has(input.supplyNodeId)) throw new Error(`Supply node not found: ${input.supplyNodeId}`);
+  if (input.heads.length === 0) throw new Error('At least one sprinkler head is required');
+
+  const upstreamCount = new Map<string, number>();
+  for (const p of input.pipes) {
+    if (!nodeIds.has(p.upstreamNodeId) || !nodeIds.has(p.downstreamNodeId)) {
+      throw new Error(`Pipe ${p.id} references an unknown node`);
+    }
+    if (p.length_m < 0) throw new Error(`Pipe ${p.id}: length must be non-negative`);
+    upstreamCount.set(p.downstreamNodeId, (upstreamCount.get(p.downstreamNodeId) ?? 0) + 1);
+  }
+  if (upstreamCount.has(input.supplyNodeId)) throw new Error('The supply node must not have an upstream pipe');
+
+  // 供給点から到達できないノード（ループを含む）を検出
+  const reached = new Set([input.supplyNodeId]);
+  const stack = [input.supplyNodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    for (const p of input.pipes.filter(pp => pp.upstreamNodeId === id)) {
+      if ((upstreamCount.get(p.downstreamNodeId) ?? 0) > 1) {
+        throw new Error(`Node ${p.downstreamNodeId} has more than one upstream pipe (only branched trees are supported)`);
+      }
+      reached.add(p.downstreamNodeId);
+      stack.push(p.downstreamNodeId);
+    }
+  }
+  for (const id of nodeIds) {
+    if (!reached.has(id)) throw new Error(`Node ${id} is not connected to the supply node`);
+  }
+  for (const h of input.heads) {
+    if (!nodeIds.has(h.nodeId)) throw new Error(`Sprinkler ${h.id} references an unknown node`);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * スプリンクラー水理計算型定義（NFPA 13 方式）
+ *
+ * 供給点を根とする枝状配管（木構造）にスプリンクラーヘッドを配置し、
+ * 最遠ヘッドから供給点へ遡って必要流量・必要圧力を求める。
+ * 入力・出力は防火設備の慣用単位（L/min, kPa ゲージ, m）。
+ */
+
+import { PipeSpec, PipeMaterial, FluidProperties, Reference, CalcWarning } from '@domain/types';
+
+// ── 継手の相当管長データ ──
+
+/** 相当管長表の継手種別 */
+export type SprinklerFittingType =
+  | 'elbow_45' | 'elbow_90' | 'elbow_90_long' | 'tee_branch'
+  | 'butterfly_valve' | 'gate_valve' | 'swing_check';
+
+/** 全継手種別（UI 選択肢・入力検証用） */
+export const SPRINKLER_FITTING_TYPES: readonly SprinklerFittingType[] = [
+  'elbow_45', 'elbow_90', 'elbow_90_long', 'tee_branch', 'butterfly_valve', 'gate_valve', 'swing_check',
+];
+
+export interface SprinklerFittingSize {
+  readonly dn: number;
+  /** 表の基準となる Sch 40 鋼管の内径 (mm) */
+  readonly sch40Id_mm: number;
+  /** 相当管長 (ft)。表に値のない継手は省略 */
+  readonly equivalentLength_ft: Partial<Record<SprinklerFittingType, number>>;
+}
+
+/** 相当管長表（Sch 40 鋼管・C = baseC 基準） */
+export interface SprinklerFittingData {
+  readonly referenceId: string;
+  readonly baseC: number;
+  readonly sizes: readonly SprinklerFittingSize[];
+}
+
+// ── 配管網（木構造） ──
+
+export interface SprinklerFittingInput {
+  readonly type: SprinklerFittingType;
+  readonly quantity: number;
+}
+
+export interface SprinklerNode {
+  readonly id: string;
+  /** ノード標高 (m) */
+  readonly elevation_m: number;
+}
+
+/** 枝状配管の管路（upstream → downstream が供給方向） */
+export interface SprinklerPipe {
+  readonly id: string;
+  readonly upstreamNodeId: string;
+  readonly downstreamNodeId: string;
+  readonly pipe: PipeSpec;
+  readonly length_m: number;
+  readonly fittings: readonly SprinklerFittingInput[];
+}
+
+/** スプリンクラーヘッド（Q = K√P） */
+export interface SprinklerHead {
+  readonly id: string;
+  readonly nodeId: string;
+  /** K ファクター (L/min/bar^0.5) */
+  readonly kFactor: number;
+  /** 最低放水圧力 (kPa) */
+  readonly minPressure_kpa: number;
+  /** 1 ヘッドの防護面積 (m²)。設計散水密度 × 防護面積が最低放水量となる */
+  readonly coverageArea_m2: number;
+}
+
+/** 設計基準（散水密度・作動面積・屋内外消火栓の加算水量） */
+export interface SprinklerDesignBasis {
+  /** 設計散水密度 (mm/min = L/min/m²) */
+  readonly density_mm_min: number;
+  /** 作動面積 (m²) */
+  readonly areaOfOperation_m2: number;
+  /** 消火栓加算水量 (L/min)。供給点の需要流量に加える */
+  readonly hoseAllowance_lpm: number;
+}
+
+/** 水源の放水試験結果（供給曲線 P = P_s − (P_s − P_r)(Q/Q_r)^1.85） */
+export interface WaterSupplyTest {
+  /** 静水圧 P_s (kPa) */
+  readonly staticPressure_kpa: number;
+  /** 残圧 P_r (kPa) */
+  readonly residualPressure_kpa: number;
+  /** 残圧測定時の流量 Q_r (L/min) */
+  readonly residualFlow_lpm: number;
+}
+
+export interface SprinklerSystemInput {
+  readonly nodes: readonly SprinklerNode[];
+  readonly pipes: readonly SprinklerPipe[];
+  readonly heads: readonly SprinklerHead[];
+  /** 供給点（木構造の根） */
+  readonly supplyNodeId: string;
+  /** 管材質（Hazen-Williams C 係数を用いる） */
+  readonly material: PipeMaterial;
+  readonly fluid: FluidProperties;
+  readonly design: SprinklerDesignBasis;
+  /** 省略時は供給曲線との比較を行わない */
+  readonly supply?: WaterSupplyTest;
+}
+
+// ── 計算結果 ──
+
+/** 水理計算表の 1 行（1 管路、最遠側から供給点へ向かう計算順） */
+export interface SprinklerCalcRow {
+  readonly pipeId: string;
+  readonly downstreamNodeId: string;
+  readonly upstreamNodeId: string;
+  /** 下流ノードの標高 (m) */
+  readonly elevation_m: number;
+  /** 下流ノードで加わる流量 q (L/min)。ヘッド放水量と、調整後の合流枝管流量 */
+  readonly addedFlow_lpm: number;
+  /** 管路流量 Q (L/min) */
+  readonly flow_lpm: number;
+  readonly pipe: PipeSpec;
+  readonly cFactor: number;
+  readonly fittings: readonly SprinklerFittingInput[];
+  readonly length_m: number;
+  /** 継手の相当管長 (m) */
+  readonly fittingLength_m: number;
+  readonly totalLength_m: number;
+  /** 単位長さあたり摩擦損失 p_f (kPa/m) */
+  readonly frictionLoss_kpa_m: number;
+  /** 下流端の圧力 P_t (kPa) */
+  readonly pressureDownstream_kpa: number;
+  /** 高低差による圧力 P_e (kPa)。下流が高い場合に正 */
+  readonly elevationPressure_kpa: number;
+  /** 摩擦損失 P_f (kPa) */
+  readonly frictionPressure_kpa: number;
+  /** 上流端の圧力 P_t + P_e + P_f (kPa) */
+  readonly pressureUpstream_kpa: number;
+  readonly velocity_m_s: number;
+}
+
+export interface SprinklerHeadResult {
+  readonly headId: string;
+  readonly nodeId: string;
+  /** 最低放水量 max(K√P_min, 散水密度 × 防護面積) (L/min) */
+  readonly minFlow_lpm: number;
+  /** 合流点の圧力調整後の放水量 (L/min) */
+  readonly flow_lpm: number;
+  /** 合流点の圧力調整後の放水圧力 (kPa) */
+  readonly pressure_kpa: number;
+}
+
+export interface SprinklerSystemResult {
+  readonly rows: SprinklerCalcRow[];
+  readonly heads: SprinklerHeadResult[];
+  /** 水理的最遠ヘッド（最低放水量で供給点まで支配的となるヘッド） */
+  readonly mostRemoteHeadId: string;
+  /** スプリンクラー需要流量 (L/min) */
+  readonly sprinklerDemand_lpm: number;
+  readonly hoseAllowance_lpm: number;
+  /** 供給点の総需要流量 = スプリンクラー + 消火栓 (L/min) */
+  readonly totalDemand_lpm: number;
+  /** 供給点の必要圧力 (kPa) */
+  readonly requiredPressure_kpa: number;
+  /** 計算対象ヘッドの防護面積合計 (m²) */
+  readonly coveredArea_m2: number;
+  /** 総需要流量での供給可能圧力 (kPa)。供給条件の省略時は undefined */
+  readonly availablePressure_kpa?: number;
+  /** 余裕圧力 = 供給可能圧力 − 必要圧力 (kPa) */
+  readonly safetyMargin_kpa?: number;
+  readonly references: Reference[];
+  readonly warnings: CalcWarning[];
+}
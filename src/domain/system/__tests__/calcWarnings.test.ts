@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateSegmentWarnings, WarningCheckParams } from '../calcWarnings';
+import { generateSegmentWarnings, generateHazenWilliamsWarnings, WarningCheckParams } from '../calcWarnings';
 import type { FittingResult } from '../../types';
 
 /** Helper: 正常条件（警告が出ない）のベースパラメータ */
@@ -27,6 +27,8 @@ function makeFitting(overrides?: Partial<FittingResult>): FittingResult {
     method: '3k',
     dp_pa: 100,
     head_loss_m: 0.01,
+    basis_id_mm: 52.5,
+    basis_velocity_m_s: 2.0,
     reference: { source: 'Darby (2001)' },
     ...overrides,
   };
@@ -199,3 +201,21 @@ describe('generateSegmentWarnings', () => {
     expect(keys).toContain('warn.large_elevation');
   });
 });
+
+describe('generateHazenWilliamsWarnings', () => {
+  it('does not warn for water at 20 °C', () => {
+    expect(generateHazenWilliamsWarnings({ temperature_c: 20, kinematicViscosity_m2s: 1.004e-6 })).toHaveLength(0);
+  });
+
+  it('warns for hot water', () => {
+    const warnings = generateHazenWilliamsWarnings({ temperature_c: 80, kinematicViscosity_m2s: 0.365e-6 });
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].messageKey).toBe('warn.hazen_williams_scope');
+    expect(warnings[0].messageParams).toEqual({ t: 80, nu: 0.365 });
+  });
+
+  it('warns for a viscous fluid at ordinary temperature', () => {
+    const warnings = generateHazenWilliamsWarnings({ temperature_c: 20, kinematicViscosity_m2s: 4.3e-6 });
+    expect(warnings[0]?.messageKey).toBe('warn.hazen_williams_scope');
+  });
+});
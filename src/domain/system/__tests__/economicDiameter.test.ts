@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { calcEconomicDiameter, calcPresentWorthFactor, EconomicDiameterInput } from '../economicDiameter';
+import { PipeSpec, PipeMaterial, FluidProperties } from '../../types';
+import { Darby3KData, EntranceExitData } from '../../fittings/fittingLoss';
+import darby3kJson from '../../../../data/fittings-db/darby-3k.json';
+import entranceExitJson from '../../../../data/fittings-db/entrance-exit-k.json';
+
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+function sch40(nps: string, dn: number, od_mm: number, wall_mm: number, id_mm: number): PipeSpec {
+  return { standard: 'ASME B36.10M', nps, dn, od_mm, wall_mm, id_mm, schedule: '40' };
+}
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const water20C: FluidProperties = {
+  density: 998.2,
+  viscosity: 1.002e-3,
+  temperature: 20,
+  pressure: 2.339,
+  reference: { source: 'IAPWS-IF97' },
+};
+
+// 20 m³/h を 1 km 送水（据付費は sample-pipe-cost-data と同じ値）
+const baseInput: EconomicDiameterInput = {
+  candidates: [
+    { pipe: sch40('4', 100, 114.3, 6.02, 102.26), installedCost_per_m: 230 },
+    { pipe: sch40('1-1/2', 40, 48.3, 3.68, 40.89), installedCost_per_m: 95 },
+    { pipe: sch40('2', 50, 60.3, 3.91, 52.50), installedCost_per_m: 115 },
+    { pipe: sch40('2-1/2', 65, 73.0, 5.16, 62.68), installedCost_per_m: 150 },
+    { pipe: sch40('3', 80, 88.9, 5.49, 77.93), installedCost_per_m: 175 },
+  ],
+  material: carbonSteel,
+  fluid: water20C,
+  flowRate_m3s: 20 / 3600,
+  length_m: 1000,
+  fittings: [{ fittingId: 'elbow_90_lr_welded', quantity: 10 }],
+  costs: {
+    pumpEfficiency: 0.7,
+    operatingHours_h_yr: 8000,
+    electricityPrice_per_kwh: 0.15,
+    discountRate: 0.05,
+    lifetime_yr: 20,
+  },
+};
+
+describe('calcPresentWorthFactor', () => {
+  it('matches the uniform-series present worth factor', () => {
+    // (1 − 1.05^−20) / 0.05 = 12.4622
+    expect(calcPresentWorthFactor(0.05, 20)).toBeCloseTo(12.4622, 4);
+  });
+
+  it('equals the lifetime at zero discount rate', () => {
+    expect(calcPresentWorthFactor(0, 15)).toBe(15);
+  });
+
+  it('throws for invalid inputs', () => {
+    expect(() => calcPresentWorthFactor(0.05, 0)).toThrow('Lifetime must be positive');
+    expect(() => calcPresentWorthFactor(-0.01, 10)).toThrow('Discount rate must be non-negative');
+  });
+});
+
+describe('calcEconomicDiameter', () => {
+  it('sorts candidates by inner diameter with rising capital and falling energy cost', () => {
+    const result = calcEconomicDiameter(baseInput, darby3kData, entranceExitData);
+    expect(result.rows.map(r => r.pipe.nps)).toEqual(['1-1/2', '2', '2-1/2', '3', '4']);
+    for (let i = 1; i < result.rows.length; i++) {
+      expect(result.rows[i].capitalCost).toBeGreaterThan(result.rows[i - 1].capitalCost);
+      expect(result.rows[i].annualEnergyCost).toBeLessThan(result.rows[i - 1].annualEnergyCost);
+    }
+  });
+
+  it('prices pump energy from friction and fittings loss', () => {
+    const result = calcEconomicDiameter(baseInput, darby3kData, entranceExitData);
+    const row = result.rows[1];
+    const power = (20 / 3600) * row.dp_pa / 0.7 / 1000;
+    expect(row.pumpPower_kw).toBeCloseTo(power, 6);
+    expect(row.annualEnergyCost).toBeCloseTo(power * 8000 * 0.15, 4);
+    expect(row.energyPresentValue).toBeCloseTo(row.annualEnergyCost * result.presentWorthFactor, 4);
+    expect(row.capitalCost).toBe(115 * 1000);
+    expect(row.totalCost).toBeCloseTo(row.capitalCost + row.energyPresentValue, 6);
+  });
+
+  it('selects the size with the minimum lifecycle cost', () => {
+    const result = calcEconomicDiameter(baseInput, darby3kData, entranceExitData);
+    expect(result.rows[result.optimumIndex].pipe.nps).toBe('3');
+    const minTotal = Math.min(...result.rows.map(r => r.totalCost));
+    expect(result.rows[result.optimumIndex].totalCost).toBe(minTotal);
+  });
+
+  it('moves to the smallest size when energy is free and the largest when it is expensive', () => {
+    const free = calcEconomicDiameter(
+      { ...baseInput, costs: { ...baseInput.costs, electricityPrice_per_kwh: 0 } },
+      darby3kData, entranceExitData
+    );
+    expect(free.optimumIndex).toBe(0);
+
+    const expensive = calcEconomicDiameter(
+      { ...baseInput, costs: { ...baseInput.costs, electricityPrice_per_kwh: 5 } },
+      darby3kData, entranceExitData
+    );
+    expect(expensive.optimumIndex).toBe(4);
+  });
+
+  it('throws for invalid inputs', () => {
+    expect(() => calcEconomicDiameter({ ...baseInput, candidates: [] }, darby3kData, entranceExitData))
+      .toThrow('At least one candidate size is required');
+    expect(() => calcEconomicDiameter({ ...baseInput, length_m: 0 }, darby3kData, entranceExitData))
+      .toThrow('Pipeline length must be positive');
+    expect(() => calcEconomicDiameter(
+      { ...baseInput, costs: { ...baseInput.costs, operatingHours_h_yr: 9000 } }, darby3kData, entranceExitData
+    )).toThrow('Operating hours must be between 0 and 8760 h/yr');
+  });
+});
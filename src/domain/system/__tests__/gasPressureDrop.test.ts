@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { calcGasSegmentPressureDrop, calcFannoResistance, calcIsothermalMaxResistance } from '../gasPressureDrop';
+import { calcStraightPipeLoss } from '../../pipe/straightPipeLoss';
+import { GasSegmentInput, PipeSpec, PipeMaterial } from '../../types';
+import { getGasProperties, GasData } from '../../fluid/gasProperties';
+import { Darby3KData, EntranceExitData } from '../../fittings/fittingLoss';
+import gasesJson from '../../../../data/fluid-properties/gases.json';
+import darby3kJson from '../../../../data/fittings-db/darby-3k.json';
+import entranceExitJson from '../../../../data/fittings-db/entrance-exit-k.json';
+
+const gasData = gasesJson as unknown as GasData;
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+// 2" Sch40 ANSI pipe
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const air = gasData.gases.find(g => g.id === 'air')!;
+const airAt = (pressure_kpa: number) => getGasProperties(20, pressure_kpa, air, { source: gasData.referenceId });
+
+const baseInput: GasSegmentInput = {
+  pipe: pipe2inch,
+  material: carbonSteel,
+  gas: airAt(700),
+  massFlow_kg_s: 0.05,
+  length_m: 50,
+  elevation_m: 0,
+  fittings: [],
+  flowModel: 'isothermal',
+};
+
+describe('Fanno and isothermal limiting resistance', () => {
+  it('should match tabulated Fanno (fL/D)* for γ = 1.4', () => {
+    // Shapiro 表: M = 0.5 → 4f_F L*/D = 1.06908
+    expect(calcFannoResistance(0.5, 1.4)).toBeCloseTo(1.0691, 3);
+    expect(calcFannoResistance(1, 1.4)).toBeCloseTo(0, 10);
+  });
+
+  it('should give (fL/D)_max = (1 − γM²)/(γM²) + ln(γM²) for isothermal flow', () => {
+    expect(calcIsothermalMaxResistance(0.5, 1.4)).toBeCloseTo(0.65 / 0.35 + Math.log(0.35), 10);
+    expect(calcIsothermalMaxResistance(1 / Math.sqrt(1.4), 1.4)).toBeCloseTo(0, 10);
+  });
+});
+
+describe('calcGasSegmentPressureDrop', () => {
+  it('should reduce to Darcy-Weisbach at low Mach number and small pressure drop', () => {
+    const r = calcGasSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    const incompressible = calcStraightPipeLoss(r.frictionFactor, 50, 52.50, r.inletDensity, r.inletVelocity_m_s);
+
+    expect(r.choked).toBe(false);
+    expect(r.inletMach).toBeLessThan(0.05);
+    expect(Math.abs(r.dp_flow - incompressible) / incompressible).toBeLessThan(0.01);
+    expect(r.outletPressure_kpa).toBeCloseTo(700 - r.dp_total / 1000, 10);
+    expect(r.outletTemperature_c).toBe(20);
+  });
+
+  it('should agree between isothermal and adiabatic models at low Mach number', () => {
+    const iso = calcGasSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    const adi = calcGasSegmentPressureDrop({ ...baseInput, flowModel: 'adiabatic' }, darby3kData, entranceExitData);
+    expect(Math.abs(adi.dp_flow - iso.dp_flow) / iso.dp_flow).toBeLessThan(0.005);
+  });
+
+  it('should satisfy the Fanno relation between inlet and outlet Mach numbers', () => {
+    const r = calcGasSegmentPressureDrop(
+      { ...baseInput, gas: airAt(200), massFlow_kg_s: 0.3, flowModel: 'adiabatic' }, darby3kData, entranceExitData
+    );
+    expect(r.choked).toBe(false);
+    expect(r.outletMach).toBeGreaterThan(r.inletMach);
+    expect(calcFannoResistance(r.inletMach, 1.4) - calcFannoResistance(r.outletMach, 1.4))
+      .toBeCloseTo(r.totalResistance, 6);
+    // 断熱膨張で出口温度は低下
+    expect(r.outletTemperature_c).toBeLessThan(20);
+  });
+
+  it('should keep pM constant in isothermal flow', () => {
+    const r = calcGasSegmentPressureDrop({ ...baseInput, gas: airAt(200), massFlow_kg_s: 0.3 }, darby3kData, entranceExitData);
+    expect(r.outletPressure_kpa * r.outletMach).toBeCloseTo(r.inletPressure_kpa * r.inletMach, 6);
+    expect(r.warnings.some(w => w.messageKey === 'warn.gas_high_mach')).toBe(true);
+  });
+
+  it('should include fitting K-values in the total resistance', () => {
+    const withFittings = calcGasSegmentPressureDrop(
+      { ...baseInput, fittings: [{ fittingId: 'elbow_90_lr_welded', quantity: 4 }] }, darby3kData, entranceExitData
+    );
+    const pipeOnly = calcGasSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    expect(withFittings.sumK).toBeGreaterThan(0);
+    expect(withFittings.totalResistance).toBeCloseTo(pipeOnly.totalResistance + withFittings.sumK, 10);
+    expect(withFittings.dp_flow).toBeGreaterThan(pipeOnly.dp_flow);
+  });
+
+  it('should detect choked flow and report the critical outlet state', () => {
+    const input = { ...baseInput, gas: airAt(150), massFlow_kg_s: 0.3, length_m: 500 };
+    const adi = calcGasSegmentPressureDrop({ ...input, flowModel: 'adiabatic' }, darby3kData, entranceExitData);
+    expect(adi.choked).toBe(true);
+    expect(adi.outletMach).toBe(1);
+    expect(adi.totalResistance).toBeGreaterThan(adi.maxResistance);
+    expect(adi.warnings.some(w => w.messageKey === 'warn.gas_choked' && w.severity === 'caution')).toBe(true);
+
+    const iso = calcGasSegmentPressureDrop(input, darby3kData, entranceExitData);
+    expect(iso.choked).toBe(true);
+    expect(iso.outletMach).toBeCloseTo(1 / Math.sqrt(1.4), 10);
+  });
+
+  it('should warn when the ideal-gas assumption breaks down', () => {
+    const co2 = gasData.gases.find(g => g.id === 'carbon_dioxide')!;
+    const r = calcGasSegmentPressureDrop(
+      { ...baseInput, gas: getGasProperties(20, 5000, co2, { source: gasData.referenceId }), massFlow_kg_s: 0.5 },
+      darby3kData, entranceExitData
+    );
+    expect(r.warnings.some(w => w.messageKey === 'warn.gas_non_ideal' && w.category === 'fluid')).toBe(true);
+  });
+
+  it('should add elevation head using the mean density', () => {
+    const r = calcGasSegmentPressureDrop({ ...baseInput, elevation_m: 20 }, darby3kData, entranceExitData);
+    expect(r.dp_elevation).toBeCloseTo((r.inletDensity + r.outletDensity) / 2 * 9.80665 * 20, 6);
+    expect(r.dp_total).toBeCloseTo(r.dp_flow + r.dp_elevation, 6);
+  });
+
+  it('should reject an inlet already at or above the limiting Mach number', () => {
+    // 700 kPa の空気、2" 管で 6 kg/s → M₁ ≈ 0.95（等温の限界 1/√γ ≈ 0.845 を超え、音速未満）
+    const fast = { ...baseInput, massFlow_kg_s: 6 };
+    expect(() => calcGasSegmentPressureDrop(fast, darby3kData, entranceExitData)).toThrow('Inlet is already choked');
+
+    const adiabatic = calcGasSegmentPressureDrop({ ...fast, flowModel: 'adiabatic' }, darby3kData, entranceExitData);
+    expect(adiabatic.inletMach).toBeGreaterThan(1 / Math.sqrt(1.4));
+    expect(adiabatic.choked).toBe(true);
+    expect(adiabatic.dp_flow).toBeGreaterThan(0);
+
+    expect(() => calcGasSegmentPressureDrop({ ...baseInput, massFlow_kg_s: 8, flowModel: 'adiabatic' }, darby3kData, entranceExitData))
+      .toThrow('Inlet is already choked');
+  });
+
+  it('should reject the water-only Hazen-Williams friction method', () => {
+    // @ts-expect-error GasSegmentInput の frictionMethod は Darcy 相関式に限定
+    const input: GasSegmentInput = { ...baseInput, frictionMethod: 'hazen-williams' };
+    expect(() => calcGasSegmentPressureDrop(input, darby3kData, entranceExitData)).toThrow('Hazen-Williams applies to water only');
+  });
+
+  it('should reject non-positive mass flow', () => {
+    expect(() => calcGasSegmentPressureDrop({ ...baseInput, massFlow_kg_s: 0 }, darby3kData, entranceExitData)).toThrow('Mass flow');
+  });
+});
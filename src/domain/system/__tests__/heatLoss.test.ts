@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { calcPipeThermalResistance, calcOutletTemperature, marchSegmentTemperature } from '../heatLoss';
+import { HeatLossModel, FluidProperties } from '../../types';
+import { getWaterProperties, WaterData } from '../../fluid/waterProperties';
+import waterJson from '../../../../data/fluid-properties/water.json';
+
+const waterData = waterJson as unknown as WaterData;
+
+const insulated: HeatLossModel = {
+  ambientTemperature_c: 0,
+  insulationThickness_mm: 50,
+  insulationConductivity_w_mk: 0.045,
+  outerFilmCoefficient_w_m2k: 10,
+};
+
+// 2" Sch40 OD
+const od_mm = 60.3;
+
+describe('calcPipeThermalResistance', () => {
+  it('should add insulation conduction and outer film resistances', () => {
+    const r_o = 0.03015;
+    const r_ins = r_o + 0.05;
+    const expected = Math.log(r_ins / r_o) / (2 * Math.PI * 0.045) + 1 / (2 * Math.PI * r_ins * 10);
+    expect(calcPipeThermalResistance(od_mm, insulated)).toBeCloseTo(expected, 10);
+  });
+
+  it('should reduce to the outer film resistance for a bare pipe', () => {
+    const bare = { ...insulated, insulationThickness_mm: 0, insulationConductivity_w_mk: 0 };
+    expect(calcPipeThermalResistance(od_mm, bare)).toBeCloseTo(1 / (Math.PI * 0.0603 * 10), 10);
+  });
+
+  it('should reject a non-positive film coefficient', () => {
+    expect(() => calcPipeThermalResistance(od_mm, { ...insulated, outerFilmCoefficient_w_m2k: 0 })).toThrow('film');
+  });
+});
+
+describe('calcOutletTemperature', () => {
+  it('should decay exponentially toward ambient temperature', () => {
+    const t = calcOutletTemperature(80, 0, 100, 1.0, 4000, 2.0);
+    expect(t).toBeCloseTo(80 * Math.exp(-100 / (1.0 * 4000 * 2.0)), 10);
+    expect(calcOutletTemperature(80, 0, 1e7, 1.0, 4000, 2.0)).toBeCloseTo(0, 6);
+  });
+
+  it('should heat a cold fluid in a warm environment', () => {
+    expect(calcOutletTemperature(5, 30, 100, 0.5, 4000, 1.0)).toBeGreaterThan(5);
+  });
+});
+
+describe('marchSegmentTemperature', () => {
+  const resolveWater = (t: number) => getWaterProperties(t, waterData);
+
+  it('should balance heat loss with the enthalpy drop of the fluid', () => {
+    const { fluid, thermal } = marchSegmentTemperature(
+      80, 0.5, 200, od_mm, { heatLoss: insulated, resolveFluid: resolveWater }
+    );
+    expect(thermal.outletTemperature_c).toBeLessThan(80);
+    expect(thermal.meanTemperature_c).toBeCloseTo((80 + thermal.outletTemperature_c) / 2, 10);
+    expect(fluid.temperature).toBeCloseTo(thermal.meanTemperature_c, 10);
+    expect(thermal.heatLoss_w).toBeCloseTo(0.5 * fluid.specificHeat! * (80 - thermal.outletTemperature_c), 6);
+    // 熱損失 ≈ ΔT_mean / R' × L
+    const approx = (thermal.meanTemperature_c - 0) / thermal.thermalResistance_mk_w * 200;
+    expect(Math.abs(thermal.heatLoss_w - approx) / approx).toBeLessThan(0.01);
+  });
+
+  it('should fall back to the model specific heat when the fluid has none', () => {
+    const noCp = (t: number): FluidProperties => ({ ...resolveWater(t), specificHeat: undefined });
+    expect(() => marchSegmentTemperature(80, 0.5, 200, od_mm, { heatLoss: insulated, resolveFluid: noCp }))
+      .toThrow('Specific heat');
+    const withCp = marchSegmentTemperature(
+      80, 0.5, 200, od_mm, { heatLoss: { ...insulated, specificHeat_j_kgk: 2000 }, resolveFluid: noCp }
+    );
+    const withWaterCp = marchSegmentTemperature(80, 0.5, 200, od_mm, { heatLoss: insulated, resolveFluid: resolveWater });
+    // 比熱が小さいほど温度降下が大きい
+    expect(withCp.thermal.outletTemperature_c).toBeLessThan(withWaterCp.thermal.outletTemperature_c);
+  });
+});
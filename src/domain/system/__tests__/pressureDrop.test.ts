@@ -115,3 +115,156 @@ describe('calcSegmentPressureDrop - unit conversion consistency', () => {
     expect(result.head_fittings_m).toBeCloseTo(expectedHeadFittings, 4);
   });
 });
+
+describe('calcSegmentPressureDrop - friction method selection', () => {
+  const baseInput: SegmentInput = {
+    pipe: pipe2inch,
+    material: carbonSteel,
+    fluid: water20C,
+    flowRate_m3s: 10 / 3600,
+    length_m: 50,
+    elevation_m: 0,
+    fittings: [],
+  };
+
+  it('should default to Churchill when frictionMethod is omitted', () => {
+    const result = calcSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    expect(result.frictionFactorMethod).toBe('churchill');
+    expect(result.references[0].source).toContain('Churchill');
+  });
+
+  it('should use the selected correlation and carry its reference', () => {
+    const result = calcSegmentPressureDrop(
+      { ...baseInput, frictionMethod: 'colebrook' }, darby3kData, entranceExitData
+    );
+    expect(result.frictionFactorMethod).toBe('colebrook');
+    expect(result.references.some(r => r.source.includes('Colebrook'))).toBe(true);
+    expect(result.references.some(r => r.source.includes('Churchill'))).toBe(false);
+
+    // Churchill と Colebrook は乱流域で 1% 以内
+    const churchill = calcSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    expect(Math.abs(result.dp_friction - churchill.dp_friction) / churchill.dp_friction).toBeLessThan(0.01);
+  });
+});
+
+describe('calcSegmentPressureDrop - Hazen-Williams', () => {
+  const hwInput: SegmentInput = {
+    pipe: pipe2inch,
+    material: { ...carbonSteel, hazenWilliamsC: 120 },
+    fluid: water20C,
+    flowRate_m3s: 10 / 3600,
+    length_m: 50,
+    elevation_m: 0,
+    fittings: [],
+    frictionMethod: 'hazen-williams',
+  };
+
+  it('should reproduce the Hazen-Williams head loss through the Darcy pipeline', () => {
+    const result = calcSegmentPressureDrop(hwInput, darby3kData, entranceExitData);
+    // h_f = 50 × 10.67 × Q^1.852 / (120^1.852 × 0.0525^4.87)
+    const q = 10 / 3600;
+    const expectedHead = 50 * 10.67 * Math.pow(q, 1.852) / (Math.pow(120, 1.852) * Math.pow(0.0525, 4.87));
+    expect(result.frictionFactorMethod).toBe('hazen-williams');
+    expect(result.head_friction_m).toBeCloseTo(expectedHead, 6);
+    expect(result.dp_friction).toBeCloseTo(expectedHead * 998.2 * GRAVITY, 2);
+    expect(result.references[0].source).toContain('Hazen');
+    expect(result.warnings.find(w => w.messageKey === 'warn.hazen_williams_scope')).toBeUndefined();
+  });
+
+  it('should cite the C-factor table when the material carries one', () => {
+    const cTable = { source: 'nfpa-13-2022' };
+    const material = { ...carbonSteel, hazenWilliamsC: 120, hazenWilliamsReference: cTable };
+    const result = calcSegmentPressureDrop({ ...hwInput, material }, darby3kData, entranceExitData);
+    expect(result.references).toContainEqual(cTable);
+
+    // C 係数を使わない手法では引用しない
+    const churchill = calcSegmentPressureDrop({ ...hwInput, material, frictionMethod: 'churchill' }, darby3kData, entranceExitData);
+    expect(churchill.references).not.toContainEqual(cTable);
+  });
+
+  it('should warn when the fluid is not water at ordinary temperature', () => {
+    const glycol: FluidProperties = { ...water20C, density: 1050, viscosity: 4.5e-3 };
+    const result = calcSegmentPressureDrop({ ...hwInput, fluid: glycol }, darby3kData, entranceExitData);
+    expect(result.warnings.find(w => w.messageKey === 'warn.hazen_williams_scope')).toBeDefined();
+  });
+
+  it('should fall back to Hagen-Poiseuille in laminar flow', () => {
+    const result = calcSegmentPressureDrop(
+      { ...hwInput, flowRate_m3s: 0.05 / 3600 }, darby3kData, entranceExitData
+    );
+    expect(result.flowRegime).toBe('laminar');
+    expect(result.frictionFactorMethod).toBe('hagen-poiseuille');
+  });
+
+  it('should throw when the material has no C-factor', () => {
+    expect(() => calcSegmentPressureDrop({ ...hwInput, material: carbonSteel }, darby3kData, entranceExitData))
+      .toThrow('C-factor is not defined');
+  });
+});
+
+describe('calcSegmentPressureDrop - flow elements', () => {
+  it('should add the permanent loss to the segment total and surface ISO 5167 warnings', () => {
+    const base: SegmentInput = {
+      pipe: pipe2inch,
+      material: carbonSteel,
+      fluid: water20C,
+      flowRate_m3s: 10 / 3600,
+      length_m: 10,
+      elevation_m: 0,
+      fittings: [],
+    };
+    const plain = calcSegmentPressureDrop(base, darby3kData, entranceExitData);
+    const metered = calcSegmentPressureDrop(
+      { ...base, fittings: [{ fittingId: 'orifice_flange', quantity: 1, boreDiameter_mm: 42 }] },
+      darby3kData, entranceExitData
+    );
+    const fd = metered.fittingDetails[0];
+    expect(metered.dp_total - plain.dp_total).toBeCloseTo(fd.flowElement!.permanentLoss_pa, 6);
+    // β = 0.8 > 0.75
+    expect(metered.warnings.find(w => w.messageKey === 'warn.flow_element_beta_range')).toBeDefined();
+  });
+});
+
+describe('calcSegmentPressureDrop - non-Newtonian fluids', () => {
+  const slurry: FluidProperties = {
+    ...water20C,
+    rheology: { model: 'power_law', k: 0.5, n: 0.6 },
+  };
+  const baseInput: SegmentInput = {
+    pipe: pipe2inch,
+    material: carbonSteel,
+    fluid: slurry,
+    flowRate_m3s: 10 / 3600,
+    length_m: 50,
+    elevation_m: 0,
+    fittings: [],
+  };
+
+  it('should give ΔP = 4τw(L/D) in laminar flow', () => {
+    const result = calcSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    const v = result.velocity_m_s;
+    const tauW = 0.5 * Math.pow(2.8 / 2.4, 0.6) * Math.pow(8 * v / 0.0525, 0.6);
+
+    expect(result.flowRegime).toBe('laminar');
+    expect(result.frictionFactorMethod).toBe('metzner-reed');
+    expect(result.dp_friction).toBeCloseTo(4 * tauW * 50 / 0.0525, 4);
+    expect(result.references[0].source).toContain('Metzner');
+  });
+
+  it('should ignore the Newtonian friction method selection', () => {
+    const result = calcSegmentPressureDrop({ ...baseInput, frictionMethod: 'colebrook' }, darby3kData, entranceExitData);
+    expect(result.frictionFactorMethod).toBe('metzner-reed');
+  });
+
+  it('should use the generalized Re in the 3-K K₁/Re term', () => {
+    const fittings = [{ fittingId: 'valve_globe_full', quantity: 1 }];
+    const nonNewtonian = calcSegmentPressureDrop({ ...baseInput, fittings }, darby3kData, entranceExitData);
+    const newtonian = calcSegmentPressureDrop({ ...baseInput, fluid: water20C, fittings }, darby3kData, entranceExitData);
+
+    const globe = darby3kData.fittings.find(f => f.id === 'valve_globe_full')!;
+    const k1Term = (re: number) => globe.k1 / re;
+    expect(nonNewtonian.fittingDetails[0].k_value - newtonian.fittingDetails[0].k_value)
+      .toBeCloseTo(k1Term(nonNewtonian.reynolds) - k1Term(newtonian.reynolds), 10);
+    expect(nonNewtonian.fittingDetails[0].k_value).toBeGreaterThan(newtonian.fittingDetails[0].k_value);
+  });
+});
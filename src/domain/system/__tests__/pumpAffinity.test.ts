@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scalePumpCurveBySpeed, scalePumpCurveByDiameter, calcRequiredSpeed, calcTrimDiameter,
+  scalePumpCurveCoefficientsBySpeed,
+} from '../pumpAffinity';
+import { fitPumpCurve, evaluatePolynomial } from '../pumpCurveFit';
+import { findOperatingPoint, calcResistanceCurve, PumpCurvePoint } from '../pumpSelection';
+import pumpJson from '../../../../data/pump-curves/sample-centrifugal.json';
+
+const curve = pumpJson.performance_curve as PumpCurvePoint[];
+
+describe('scalePumpCurveBySpeed', () => {
+  it('scales flow linearly and head, NPSHr quadratically', () => {
+    const scaled = scalePumpCurveBySpeed(curve, 0.8);
+    expect(scaled[5].flow_m3h).toBeCloseTo(15 * 0.8, 10);
+    expect(scaled[5].head_m).toBeCloseTo(17.5 * 0.64, 10);
+    expect(scaled[5].npshr_m).toBeCloseTo(1.8 * 0.64, 10);
+    expect(scaled[5].efficiency_pct).toBe(70);
+  });
+
+  it('returns the same curve at ratio 1', () => {
+    expect(scalePumpCurveBySpeed(curve, 1)).toEqual(curve);
+  });
+
+  it('throws for non-positive ratio', () => {
+    expect(() => scalePumpCurveBySpeed(curve, 0)).toThrow('Speed ratio must be positive');
+  });
+});
+
+describe('scalePumpCurveByDiameter', () => {
+  it('scales flow and head but keeps NPSHr', () => {
+    const scaled = scalePumpCurveByDiameter(curve, 0.9);
+    expect(scaled[4].flow_m3h).toBeCloseTo(12 * 0.9, 10);
+    expect(scaled[4].head_m).toBeCloseTo(20 * 0.81, 10);
+    expect(scaled[4].npshr_m).toBe(1.5);
+  });
+
+  it('rejects enlarging the impeller', () => {
+    expect(() => scalePumpCurveByDiameter(curve, 1.05)).toThrow('Diameter ratio must be in (0, 1]');
+  });
+});
+
+describe('calcRequiredSpeed', () => {
+  it('scaled curve passes through the design point on the system curve', () => {
+    // 抵抗曲線 H = 5 + 10 (Q/12)² の設計点 Q = 12 m³/h, H = 15 m
+    const speed = calcRequiredSpeed(curve, 2900, 12, 15)!;
+    expect(speed).toBeLessThan(2900);
+
+    const scaled = scalePumpCurveBySpeed(curve, speed / 2900);
+    const op = findOperatingPoint(scaled, calcResistanceCurve(5, 10, 12, 30, 1.5))!;
+    // 区分線形補間の誤差を許容
+    expect(op.flow_m3h).toBeCloseTo(12, 0);
+    expect(op.head_m).toBeCloseTo(15, 0);
+  });
+
+  it('returns the rated speed for a point on the catalog curve', () => {
+    expect(calcRequiredSpeed(curve, 2900, 15, 17.5)).toBeCloseTo(2900, 3);
+  });
+
+  it('returns null when the design point needs more than 1.5× rated speed', () => {
+    expect(calcRequiredSpeed(curve, 2900, 15, 100)).toBeNull();
+  });
+});
+
+describe('calcTrimDiameter', () => {
+  it('trims the impeller to meet a lower duty', () => {
+    const d = calcTrimDiameter(curve, 200, 12, 15)!;
+    expect(d).toBeGreaterThan(150);
+    expect(d).toBeLessThan(200);
+    // 同じ相似則のため回転数比と外径比は一致する
+    expect(d / 200).toBeCloseTo(calcRequiredSpeed(curve, 2900, 12, 15)! / 2900, 10);
+  });
+
+  it('returns null when the design point is above the full-diameter curve', () => {
+    expect(calcTrimDiameter(curve, 200, 15, 20)).toBeNull();
+  });
+});
+
+describe('scalePumpCurveCoefficientsBySpeed', () => {
+  it('matches fitting the speed-scaled catalog curve', () => {
+    const rated = fitPumpCurve(curve, 3).coefficients;
+    const scaled = scalePumpCurveCoefficientsBySpeed(rated, 0.8);
+    const refit = fitPumpCurve(scalePumpCurveBySpeed(curve, 0.8), 3).coefficients;
+    for (const q of [0, 6, 12, 18]) {
+      expect(evaluatePolynomial(scaled.head, q)).toBeCloseTo(evaluatePolynomial(refit.head, q), 8);
+      expect(evaluatePolynomial(scaled.efficiency, q)).toBeCloseTo(evaluatePolynomial(refit.efficiency, q), 8);
+      expect(evaluatePolynomial(scaled.npshr, q)).toBeCloseTo(evaluatePolynomial(refit.npshr, q), 8);
+    }
+    expect(scaled.maxFlow_m3h).toBeCloseTo(27 * 0.8, 10);
+  });
+});
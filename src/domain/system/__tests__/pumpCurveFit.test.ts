@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluatePolynomial, fitPolynomial, fitPumpCurve, evaluatePumpCurveCoefficients,
+  findFittedOperatingPoint, calcBestEfficiencyFlow, sampleFittedPumpCurve, EXTRAPOLATION_LIMIT,
+} from '../pumpCurveFit';
+import { calcResistanceCurve, findOperatingPoint, PumpCurvePoint } from '../pumpSelection';
+import { calcViscosityCorrection, applyViscosityCorrection } from '../pumpViscosity';
+import pumpJson from '../../../../data/pump-curves/sample-centrifugal.json';
+
+const curve = pumpJson.performance_curve as PumpCurvePoint[];
+
+describe('fitPolynomial', () => {
+  it('recovers an exact quadratic', () => {
+    const points = [0, 1, 2, 3, 4, 5].map(x => ({ x, y: 3 - 2 * x + 0.5 * x * x }));
+    const fit = fitPolynomial(points, 2);
+    expect(fit.coefficients[0]).toBeCloseTo(3, 8);
+    expect(fit.coefficients[1]).toBeCloseTo(-2, 8);
+    expect(fit.coefficients[2]).toBeCloseTo(0.5, 8);
+    expect(fit.rSquared).toBeCloseTo(1, 10);
+    expect(fit.rmse).toBeCloseTo(0, 8);
+  });
+
+  it('reports the residual of a lower-order fit', () => {
+    const points = [0, 1, 2, 3, 4].map(x => ({ x, y: x * x }));
+    const fit = fitPolynomial(points, 1);
+    expect(fit.rSquared).toBeLessThan(1);
+    expect(fit.rmse).toBeGreaterThan(0);
+  });
+
+  it('requires degree + 1 points', () => {
+    expect(() => fitPolynomial([{ x: 0, y: 0 }, { x: 1, y: 1 }], 2)).toThrow('At least 3 points are required for degree 2');
+  });
+});
+
+describe('evaluatePolynomial', () => {
+  it('evaluates ascending coefficients', () => {
+    expect(evaluatePolynomial([1, 2, 3], 2)).toBe(1 + 4 + 12);
+  });
+});
+
+describe('fitPumpCurve', () => {
+  it('fits the sample catalog head curve closely with a cubic', () => {
+    const fit = fitPumpCurve(curve, 3);
+    expect(fit.head.rSquared).toBeGreaterThan(0.999);
+    expect(fit.coefficients.head).toHaveLength(4);
+    expect(fit.coefficients.minFlow_m3h).toBe(0);
+    expect(fit.coefficients.maxFlow_m3h).toBe(27);
+  });
+
+  it('evaluates stored coefficients to the same statistics', () => {
+    const fit = fitPumpCurve(curve, 3);
+    const stored = evaluatePumpCurveCoefficients(fit.coefficients, curve);
+    expect(stored.head.rmse).toBeCloseTo(fit.head.rmse, 12);
+    expect(stored.npshr.rSquared).toBeCloseTo(fit.npshr.rSquared, 12);
+  });
+
+  it('samples the fitted curve over the catalog range', () => {
+    const sampled = sampleFittedPumpCurve(fitPumpCurve(curve, 3).coefficients, 9);
+    expect(sampled).toHaveLength(10);
+    expect(sampled[9].flow_m3h).toBe(27);
+  });
+
+  it('locates the BEP near the catalog efficiency peak', () => {
+    expect(calcBestEfficiencyFlow(fitPumpCurve(curve, 3).coefficients)).toBeCloseTo(18, -1);
+  });
+});
+
+describe('findFittedOperatingPoint', () => {
+  const coefficients = fitPumpCurve(curve, 3).coefficients;
+
+  it('agrees with the linear-interpolation operating point inside the catalog range', () => {
+    const resistance = calcResistanceCurve(5, 10, 15, 30, 1.5);
+    const { operatingPoint: fitted, warnings } = findFittedOperatingPoint(coefficients, resistance);
+    const linear = findOperatingPoint(curve, resistance)!;
+    expect(fitted!.flow_m3h).toBeCloseTo(linear.flow_m3h, 0);
+    expect(fitted!.head_m).toBeCloseTo(linear.head_m, 0);
+    expect(fitted!.extrapolated).toBe(false);
+    expect(warnings).toHaveLength(0);
+  });
+
+  it('extrapolates beyond the last catalog point with a warning', () => {
+    // 低抵抗の系統: 線形補間ではカタログ範囲内に交点がない
+    const resistance = calcResistanceCurve(0, 0.5, 28, 30, 1.5);
+    expect(findOperatingPoint(curve, resistance)).toBeNull();
+    const { operatingPoint: fitted, warnings } = findFittedOperatingPoint(coefficients, resistance);
+    expect(fitted!.extrapolated).toBe(true);
+    expect(fitted!.flow_m3h).toBeGreaterThan(27);
+    expect(warnings.map(w => w.messageKey)).toContain('warn.pump_beyond_curve');
+  });
+
+  it('warns in the shutoff region', () => {
+    const resistance = calcResistanceCurve(24, 5, 5, 30, 2);
+    const { operatingPoint: fitted, warnings } = findFittedOperatingPoint(coefficients, resistance);
+    expect(fitted!.flow_m3h).toBeLessThan(5);
+    expect(warnings.map(w => w.messageKey)).toContain('warn.pump_shutoff_region');
+  });
+
+  it('keeps the extrapolation warning when refitted to a viscosity-corrected curve', () => {
+    const water = sampleFittedPumpCurve(coefficients);
+    const correction = calcViscosityCorrection(water, pumpJson.rated_speed_rpm, 100);
+    const viscous = applyViscosityCorrection(water, correction);
+    const refit = fitPumpCurve(viscous, 3).coefficients;
+    expect(refit.maxFlow_m3h).toBeCloseTo(coefficients.maxFlow_m3h * correction.cQ, 8);
+    const resistance = calcResistanceCurve(0, 0.5, 28, 30, 1.5);
+    expect(findOperatingPoint(viscous, resistance)).toBeNull();
+    const { operatingPoint: fitted, warnings } = findFittedOperatingPoint(refit, resistance);
+    expect(fitted!.extrapolated).toBe(true);
+    expect(warnings.map(w => w.messageKey)).toContain('warn.pump_beyond_curve');
+  });
+
+  it('warns when the intersection lies beyond the extrapolation limit', () => {
+    // 揚程が緩やかに下がる近似曲線と低抵抗の系統: 外挿の上限 24 m³/h でもポンプ揚程が上回る
+    const flat = {
+      head: [40, -0.5], efficiency: [0, 6], npshr: [1, 0.1], minFlow_m3h: 0, maxFlow_m3h: 20,
+    };
+    const resistance = calcResistanceCurve(5, 5, 20, 30, 3);
+    const { operatingPoint, warnings } = findFittedOperatingPoint(flat, resistance);
+    expect(operatingPoint).toBeNull();
+    expect(warnings.map(w => w.messageKey)).toEqual(['warn.pump_beyond_extrapolation_limit']);
+    expect(warnings[0].messageParams?.limit).toBeCloseTo(20 * EXTRAPOLATION_LIMIT, 2);
+  });
+
+  it('returns no operating point when the system head exceeds the pump head', () => {
+    const { operatingPoint, warnings } = findFittedOperatingPoint(coefficients, calcResistanceCurve(40, 10, 15, 30, 1.5));
+    expect(operatingPoint).toBeNull();
+    expect(warnings).toHaveLength(0);
+  });
+});
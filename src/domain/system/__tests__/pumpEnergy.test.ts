@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { calcPumpEnergy, PumpEnergyInput } from '../pumpEnergy';
+import { calcResistanceCurve, PumpCurvePoint } from '../pumpSelection';
+import { calcPumpPower } from '../pumpRequirements';
+import pumpJson from '../../../../data/pump-curves/sample-centrifugal.json';
+
+const curve = pumpJson.performance_curve as PumpCurvePoint[];
+
+// H = 5 + 10 (Q/15)²、設計点 15 m³/h では定格回転数の揚程 17.5 m に対し系統揚程 15 m
+const base: PumpEnergyInput = {
+  curve,
+  speed_rpm: 2900,
+  resistanceCurve: calcResistanceCurve(5, 10, 15),
+  designFlow_m3h: 15,
+  density_kg_m3: 1000,
+  dutyCycle: [
+    { flowPercent: 100, hours_h_yr: 2000 },
+    { flowPercent: 80, hours_h_yr: 4000 },
+    { flowPercent: 60, hours_h_yr: 2000 },
+  ],
+  motorEfficiency: 0.9,
+  vfdEfficiency: 0.97,
+  electricityPrice_per_kwh: 0.2,
+};
+
+describe('calcPumpEnergy', () => {
+  it('runs the throttled pump on its curve and adds motor losses', () => {
+    const row = calcPumpEnergy(base).rows[0];
+    const shaft = calcPumpPower(1000, 15 / 3600, 17.5, 0.7);
+    expect(row.throttle!.head_m).toBe(17.5);
+    expect(row.throttle!.speed_rpm).toBe(2900);
+    expect(row.throttle!.shaftPower_kW).toBeCloseTo(shaft, 10);
+    expect(row.throttle!.inputPower_kW).toBeCloseTo(shaft / 0.9, 10);
+    expect(row.throttle!.energy_kWh_yr).toBeCloseTo(shaft / 0.9 * 2000, 8);
+  });
+
+  it('slows the VFD-driven pump onto the system curve', () => {
+    const row = calcPumpEnergy(base).rows[0];
+    // 抵抗曲線の折れ線補間のため 15 m からわずかにずれる
+    expect(row.systemHead_m).toBeCloseTo(15, 1);
+    expect(row.vfd!.head_m).toBe(row.systemHead_m);
+    expect(row.vfd!.speed_rpm).toBeLessThan(2900);
+    expect(row.vfd!.inputPower_kW).toBeCloseTo(row.vfd!.shaftPower_kW / (0.9 * 0.97), 10);
+  });
+
+  it('sums annual energy and cost and shows VFD savings at part flow', () => {
+    const r = calcPumpEnergy(base);
+    const throttle = r.rows.reduce((s, row) => s + row.throttle!.energy_kWh_yr, 0);
+    expect(r.throttle.energy_kWh_yr).toBeCloseTo(throttle, 8);
+    expect(r.throttle.cost_yr).toBeCloseTo(throttle * 0.2, 8);
+    expect(r.savings_kWh_yr).toBeGreaterThan(0);
+    expect(r.savingsCost_yr).toBeCloseTo(r.savings_kWh_yr * 0.2, 8);
+    expect(r.warnings).toHaveLength(0);
+  });
+
+  it('treats identical parallel pumps as one curve with N times the flow', () => {
+    const single = calcPumpEnergy({ ...base, curve: curve.map(p => ({ ...p, flow_m3h: p.flow_m3h * 2 })) });
+    const parallel = calcPumpEnergy({ ...base, pumpCount: 2, arrangement: 'parallel' });
+    expect(parallel.throttle.energy_kWh_yr).toBeCloseTo(single.throttle.energy_kWh_yr, 8);
+    expect(parallel.vfd.energy_kWh_yr).toBeCloseTo(single.vfd.energy_kWh_yr, 8);
+  });
+
+  it('excludes and warns about flows the pump cannot deliver', () => {
+    const r = calcPumpEnergy({ ...base, dutyCycle: [...base.dutyCycle, { flowPercent: 140, hours_h_yr: 500 }] });
+    expect(r.rows[3].throttle).toBeNull();
+    expect(r.rows[3].vfd).toBeNull();
+    expect(r.throttle.energy_kWh_yr).toBeCloseTo(calcPumpEnergy(base).throttle.energy_kWh_yr, 8);
+    expect(r.warnings.map(w => w.messageKey)).toEqual(['warn.duty_point_unreachable']);
+  });
+
+  it('rejects more than 8760 h/yr', () => {
+    expect(() => calcPumpEnergy({ ...base, dutyCycle: [{ flowPercent: 100, hours_h_yr: 9000 }] })).toThrow('8760');
+  });
+});
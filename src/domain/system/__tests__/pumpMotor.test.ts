@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { selectMotor, calcMaxShaftPower, MotorRating, DEFAULT_MOTOR_SERVICE_FACTOR } from '../pumpMotor';
+import { PumpCurvePoint } from '../pumpSelection';
+import { calcPumpPower } from '../pumpRequirements';
+import pumpJson from '../../../../data/pump-curves/sample-centrifugal.json';
+import motorJson from '../../../../data/pump-specs/iec-motor-ratings.json';
+
+const curve = pumpJson.performance_curve as PumpCurvePoint[];
+const ratings = motorJson.ratings as MotorRating[];
+
+describe('calcMaxShaftPower', () => {
+  it('takes the largest shaft power over the curve, skipping zero-efficiency points', () => {
+    const expected = Math.max(...curve
+      .filter(p => p.efficiency_pct > 0)
+      .map(p => calcPumpPower(1000, p.flow_m3h / 3600, p.head_m, p.efficiency_pct / 100)));
+    expect(calcMaxShaftPower(curve, 1000)).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('selectMotor', () => {
+  it('picks the smallest IEC rating above duty power times the service factor', () => {
+    const m = selectMotor({ dutyPower_kW: 3.2 }, ratings);
+    expect(m.serviceFactor).toBe(DEFAULT_MOTOR_SERVICE_FACTOR);
+    expect(m.requiredPower_kW).toBeCloseTo(3.68, 10);
+    expect(m.motor.rating_kW).toBe(4);
+    expect(m.motor.efficiency_pct).toBe(88.6);
+    expect(m.loadFactor).toBeCloseTo(0.8, 10);
+    expect(m.nonOverloading).toBeNull();
+  });
+
+  it('warns when the end-of-curve power exceeds the motor rating', () => {
+    const ok = selectMotor({ dutyPower_kW: 1.0, maxPower_kW: 1.05, serviceFactor: 1.1 }, ratings);
+    expect(ok.motor.rating_kW).toBe(1.1);
+    expect(ok.nonOverloading).toBe(true);
+    expect(ok.warnings).toHaveLength(0);
+
+    const over = selectMotor({ dutyPower_kW: 1.0, maxPower_kW: 1.3, serviceFactor: 1.1 }, ratings);
+    expect(over.nonOverloading).toBe(false);
+    expect(over.warnings.map(w => w.messageKey)).toEqual(['warn.motor_end_of_curve_overload']);
+  });
+
+  it('rejects a duty above the largest rating and a service factor below 1', () => {
+    expect(() => selectMotor({ dutyPower_kW: 1000 }, ratings)).toThrow('largest standard rating');
+    expect(() => selectMotor({ dutyPower_kW: 1, serviceFactor: 0.9 }, ratings)).toThrow('Service factor');
+  });
+});
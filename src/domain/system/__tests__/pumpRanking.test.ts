@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePumpCandidate, rankPumps, PumpCandidate } from '../pumpRanking';
+import { calcResistanceCurve, PumpCurvePoint } from '../pumpSelection';
+import { calcPumpPower } from '../pumpRequirements';
+import pumpJson from '../../../../data/pump-curves/sample-centrifugal.json';
+
+const curve = pumpJson.performance_curve as PumpCurvePoint[];
+
+// H = 5 + 10 (Q/15)²、設計点 Q = 15 m³/h（大容量ポンプの運転点まで延ばす）
+const resistanceCurve = calcResistanceCurve(5, 10, 15, 40, 4);
+
+const sample: PumpCandidate = { id: 'sample', curve };
+// 流量だけを 3 倍にした大容量ポンプ（BEP 54 m³/h、運転点は BEP の 40% 付近）
+const oversized: PumpCandidate = { id: 'oversized', curve: curve.map(p => ({ ...p, flow_m3h: p.flow_m3h * 3 })) };
+// 締切揚程が実揚程に届かないポンプ
+const lowHead: PumpCandidate = { id: 'low-head', curve: curve.map(p => ({ ...p, head_m: p.head_m * 0.1 })) };
+
+describe('evaluatePumpCandidate', () => {
+  it('reports operating point, BEP ratio, NPSH margin and shaft power', () => {
+    const entry = evaluatePumpCandidate(sample, { resistanceCurve, npsha_m: 10, density_kg_m3: 998.2 });
+    const op = entry.operatingPoint!;
+    expect(op.flow_m3h).toBeGreaterThan(15);
+    expect(op.flow_m3h).toBeLessThan(18);
+    expect(entry.bepFlow_m3h).toBe(18);
+    expect(entry.bepRatio).toBeCloseTo(op.flow_m3h / 18, 10);
+    expect(entry.npshMargin!.margin_m).toBeCloseTo(10 - op.npshr_m, 10);
+    expect(entry.shaftPower_kW).toBeCloseTo(calcPumpPower(998.2, op.flow_m3h / 3600, op.head_m, op.efficiency_pct / 100), 10);
+    expect(entry.suitability).toBe('suitable');
+  });
+
+  it('skips NPSH and power when NPSHa and density are not given', () => {
+    const entry = evaluatePumpCandidate(sample, { resistanceCurve });
+    expect(entry.npshMargin).toBeNull();
+    expect(entry.shaftPower_kW).toBeNull();
+  });
+
+  it('is marginal outside the preferred operating region', () => {
+    const entry = evaluatePumpCandidate(oversized, { resistanceCurve, npsha_m: 10 });
+    expect(entry.bepRatio!).toBeLessThan(0.7);
+    expect(entry.suitability).toBe('marginal');
+  });
+
+  it('is marginal below the NPSH margin ratio and unsuitable below NPSHr', () => {
+    const op = evaluatePumpCandidate(sample, { resistanceCurve }).operatingPoint!;
+    expect(evaluatePumpCandidate(sample, { resistanceCurve, npsha_m: op.npshr_m * 1.05 }).suitability).toBe('marginal');
+    expect(evaluatePumpCandidate(sample, { resistanceCurve, npsha_m: op.npshr_m * 0.9 }).suitability).toBe('unsuitable');
+  });
+
+  it('is unsuitable without an operating point', () => {
+    const entry = evaluatePumpCandidate(lowHead, { resistanceCurve });
+    expect(entry.operatingPoint).toBeNull();
+    expect(entry.bepRatio).toBeNull();
+    expect(entry.suitability).toBe('unsuitable');
+  });
+});
+
+describe('rankPumps', () => {
+  it('sorts by suitability, then distance from BEP', () => {
+    const ranking = rankPumps([lowHead, oversized, sample], { resistanceCurve, npsha_m: 10, density_kg_m3: 998.2 });
+    expect(ranking.map(e => e.id)).toEqual(['sample', 'oversized', 'low-head']);
+  });
+
+  it('prefers the pump running closer to its BEP among suitable pumps', () => {
+    // 流量を 1.1 倍にしたポンプは BEP 19.8 m³/h に対し運転点がやや離れる
+    const larger: PumpCandidate = { id: 'larger', curve: curve.map(p => ({ ...p, flow_m3h: p.flow_m3h * 1.1 })) };
+    const ranking = rankPumps([larger, sample], { resistanceCurve });
+    expect(ranking[0].suitability).toBe('suitable');
+    expect(Math.abs(ranking[0].bepRatio! - 1)).toBeLessThanOrEqual(Math.abs(ranking[1].bepRatio! - 1));
+  });
+});
@@ -4,6 +4,7 @@ import {
   classifyPumpType,
   calcBEPRecommendation,
   calcPumpSuggestion,
+  calcPumpPower,
   PumpTypeClassification,
 } from '../pumpRequirements';
 
@@ -175,3 +176,15 @@ describe('calcPumpSuggestion', () => {
     expect(withDefault.estimatedPower_kW).toBeCloseTo(withExplicit.estimatedPower_kW, 3);
   });
 });
+
+describe('calcPumpPower', () => {
+  it('computes shaft power from ρgQH/η', () => {
+    // 998 × 9.80665 × (36/3600) × 20 / (0.8 × 1000) ≈ 2.447 kW
+    expect(calcPumpPower(998, 36 / 3600, 20, 0.8)).toBeCloseTo(2.447, 3);
+  });
+
+  it('throws for efficiency outside (0, 1]', () => {
+    expect(() => calcPumpPower(998, 0.01, 20, 0)).toThrow('Pump efficiency must be in (0, 1]');
+    expect(() => calcPumpPower(998, 0.01, 20, 75)).toThrow('Pump efficiency must be in (0, 1]');
+  });
+});
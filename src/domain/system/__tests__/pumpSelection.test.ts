@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { calcNPSHa, calcResistanceCurve, findOperatingPoint, PumpCurvePoint } from '../pumpSelection';
+import {
+  calcNPSHa, calcResistanceCurve, findOperatingPoint, PumpCurvePoint,
+  calcAtmosphericPressure, calcSuctionLine, calcNPSHMargin, HI_MIN_NPSH_MARGIN_RATIO,
+  calcCombinedPumpCurve, findCombinedOperatingPoint,
+} from '../pumpSelection';
+import { SegmentResult } from '../../types';
 
 describe('calcNPSHa', () => {
   it('calculates NPSHa for standard conditions', () => {
@@ -31,6 +36,71 @@ describe('calcNPSHa', () => {
   });
 });
 
+describe('calcAtmosphericPressure', () => {
+  it('returns the standard atmosphere at sea level', () => {
+    expect(calcAtmosphericPressure(0)).toBeCloseTo(101.325, 6);
+  });
+
+  it('follows the ISO 2533 troposphere', () => {
+    // 1000 m → 89.87 kPa, 2000 m → 79.50 kPa
+    expect(calcAtmosphericPressure(1000)).toBeCloseTo(89.87, 1);
+    expect(calcAtmosphericPressure(2000)).toBeCloseTo(79.50, 1);
+  });
+
+  it('rejects altitudes above the troposphere', () => {
+    expect(() => calcAtmosphericPressure(12000)).toThrow('troposphere');
+  });
+});
+
+describe('calcSuctionLine', () => {
+  const seg = (head_elevation_m: number, head_friction_m: number, head_fittings_m: number) =>
+    ({ head_elevation_m, head_friction_m, head_fittings_m }) as SegmentResult;
+
+  it('sums friction and fitting losses and flips the elevation sign', () => {
+    // 液面から 2 m 下ってポンプへ（押込み）→ hs = +2
+    const line = calcSuctionLine([seg(-1.5, 0.3, 0.2), seg(-0.5, 0.1, 0.05)]);
+    expect(line.staticHead_m).toBeCloseTo(2.0, 10);
+    expect(line.frictionLoss_m).toBeCloseTo(0.65, 10);
+  });
+
+  it('adds the liquid level above the suction inlet', () => {
+    // 吸上げ: 配管が 3 m 上昇、液面は入口より 0.5 m 上
+    const line = calcSuctionLine([seg(3, 0.4, 0.1)], 0.5);
+    expect(line.staticHead_m).toBeCloseTo(-2.5, 10);
+  });
+
+  it('requires at least one segment', () => {
+    expect(() => calcSuctionLine([])).toThrow('suction segment');
+  });
+});
+
+describe('calcNPSHMargin', () => {
+  it('returns margin and ratio without warnings when the ratio is sufficient', () => {
+    const result = calcNPSHMargin(6, 4);
+    expect(result.margin_m).toBeCloseTo(2, 10);
+    expect(result.ratio).toBeCloseTo(1.5, 10);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it('warns when the ratio is below the HI 9.6.1 minimum', () => {
+    const result = calcNPSHMargin(4.2, 4);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].messageKey).toBe('warn.npsh_margin_ratio_low');
+    expect(result.warnings[0].messageParams?.min).toBe(HI_MIN_NPSH_MARGIN_RATIO);
+  });
+
+  it('uses the given application ratio', () => {
+    expect(calcNPSHMargin(6, 4, 2.0).warnings[0].messageKey).toBe('warn.npsh_margin_ratio_low');
+  });
+
+  it('raises a caution when NPSHa is below NPSHr', () => {
+    const result = calcNPSHMargin(3, 4);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].severity).toBe('caution');
+    expect(result.warnings[0].messageKey).toBe('warn.npsh_insufficient');
+  });
+});
+
 describe('calcResistanceCurve', () => {
   it('generates correct number of points', () => {
     const curve = calcResistanceCurve(5.0, 10.0, 15.0, 10, 1.5);
@@ -109,3 +179,65 @@ describe('findOperatingPoint', () => {
     expect(op.npshr_m).toBeGreaterThan(1.0);
   });
 });
+
+describe('calcCombinedPumpCurve / findCombinedOperatingPoint', () => {
+  const pumpA: PumpCurvePoint[] = [
+    { flow_m3h:  0, head_m: 25.0, efficiency_pct:  0, npshr_m: 1.0 },
+    { flow_m3h: 12, head_m: 20.0, efficiency_pct: 63, npshr_m: 1.5 },
+    { flow_m3h: 24, head_m:  7.0, efficiency_pct: 58, npshr_m: 3.5 },
+  ];
+  // 締切揚程の低い小型ポンプ
+  const pumpB: PumpCurvePoint[] = [
+    { flow_m3h:  0, head_m: 18.0, efficiency_pct:  0, npshr_m: 0.8 },
+    { flow_m3h:  8, head_m: 14.0, efficiency_pct: 60, npshr_m: 1.2 },
+    { flow_m3h: 16, head_m:  6.0, efficiency_pct: 50, npshr_m: 2.0 },
+  ];
+
+  it('doubles the flow at equal head for two identical pumps in parallel', () => {
+    const curve = calcCombinedPumpCurve([pumpA, pumpA], 'parallel', 18);
+    const at20 = curve.find(p => Math.abs(p.head_m - 20) < 1e-9)!;
+    expect(at20.flow_m3h).toBeCloseTo(24, 10);
+    expect(curve[0]).toEqual({ flow_m3h: 0, head_m: 25 });
+  });
+
+  it('doubles the head at equal flow for two identical pumps in series', () => {
+    const curve = calcCombinedPumpCurve([pumpA, pumpA], 'series', 24);
+    const at12 = curve.find(p => Math.abs(p.flow_m3h - 12) < 1e-9)!;
+    expect(at12.head_m).toBeCloseTo(40, 10);
+  });
+
+  it('gives zero flow to a parallel pump whose shutoff head is exceeded', () => {
+    const resistance = calcResistanceCurve(19, 1, 5, 30, 2);
+    const op = findCombinedOperatingPoint([pumpA, pumpB], 'parallel', resistance)!;
+    expect(op.head_m).toBeGreaterThan(18);
+    expect(op.pumps[1].flow_m3h).toBe(0);
+    expect(op.pumps[0].flow_m3h).toBeCloseTo(op.flow_m3h, 6);
+    expect(op.efficiency_pct).toBeCloseTo(op.pumps[0].efficiency_pct, 6);
+  });
+
+  it('splits flow between dissimilar pumps in parallel at a common head', () => {
+    const resistance = calcResistanceCurve(5, 10, 20, 30, 1.5);
+    const op = findCombinedOperatingPoint([pumpA, pumpB], 'parallel', resistance)!;
+    expect(op.pumps[0].flow_m3h + op.pumps[1].flow_m3h).toBeCloseTo(op.flow_m3h, 6);
+    expect(op.pumps[0].head_m).toBe(op.head_m);
+    expect(op.pumps[1].head_m).toBe(op.head_m);
+    expect(op.npshr_m).toBe(Math.max(op.pumps[0].npshr_m, op.pumps[1].npshr_m));
+    // 合成効率は各ポンプ効率の間
+    const effs = op.pumps.map(p => p.efficiency_pct);
+    expect(op.efficiency_pct).toBeGreaterThanOrEqual(Math.min(...effs));
+    expect(op.efficiency_pct).toBeLessThanOrEqual(Math.max(...effs));
+  });
+
+  it('adds heads at a common flow in series and uses the first pump NPSHr', () => {
+    const resistance = calcResistanceCurve(20, 10, 10, 30, 2);
+    const op = findCombinedOperatingPoint([pumpB, pumpA], 'series', resistance)!;
+    expect(op.pumps[0].flow_m3h).toBe(op.flow_m3h);
+    expect(op.pumps[0].head_m + op.pumps[1].head_m).toBeCloseTo(op.head_m, 6);
+    expect(op.npshr_m).toBe(op.pumps[0].npshr_m);
+  });
+
+  it('returns null when the combined curve misses the resistance curve', () => {
+    const resistance = calcResistanceCurve(60, 10, 10, 30, 1.5);
+    expect(findCombinedOperatingPoint([pumpA, pumpA], 'parallel', resistance)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcViscosityCorrection, applyViscosityCorrection, calcHeadCorrectionFactor, calcKinematicViscosity_cSt,
+} from '../pumpViscosity';
+import { PumpCurvePoint } from '../pumpSelection';
+import { getWaterProperties, WaterData } from '../../fluid/waterProperties';
+import pumpJson from '../../../../data/pump-curves/sample-centrifugal.json';
+import highHeadJson from '../../../../data/pump-curves/sample-centrifugal-high-head.json';
+import waterJson from '../../../../data/fluid-properties/water.json';
+
+const curve = pumpJson.performance_curve as PumpCurvePoint[];
+const waterData = waterJson as unknown as WaterData;
+
+describe('calcKinematicViscosity_cSt', () => {
+  it('converts water at 20 °C to about 1 cSt', () => {
+    expect(calcKinematicViscosity_cSt(1.002e-3, 998.2)).toBeCloseTo(1.004, 3);
+  });
+});
+
+describe('calcViscosityCorrection', () => {
+  // BEP 750 gpm, 100 ft, 3550 rpm, 1000 cSt を SI 単位で与える
+  const bepCurve: PumpCurvePoint[] = [
+    { flow_m3h: 0, head_m: 36, efficiency_pct: 0, npshr_m: 2 },
+    { flow_m3h: 170.34, head_m: 30.48, efficiency_pct: 80, npshr_m: 3 },
+    { flow_m3h: 220, head_m: 25, efficiency_pct: 75, npshr_m: 4 },
+  ];
+
+  it('gives the same parameter B as the US customary form', () => {
+    const c = calcViscosityCorrection(bepCurve, 3550, 1000);
+    const bUs = 26.6 * Math.sqrt(1000) * Math.pow(100, 0.0625) / (Math.pow(750, 0.375) * Math.pow(3550, 0.25));
+    expect(c.parameterB).toBeCloseTo(bUs, 0);
+    expect(c.parameterB).toBeGreaterThan(12);
+    expect(c.parameterB).toBeLessThan(12.5);
+  });
+
+  it('reduces flow and efficiency for a viscous liquid', () => {
+    const c = calcViscosityCorrection(bepCurve, 3550, 1000);
+    expect(c.cQ).toBeCloseTo(0.81, 2);
+    expect(c.cEta).toBeCloseTo(0.46, 2);
+    expect(c.warnings).toHaveLength(0);
+  });
+
+  it('does not correct water (B ≤ 1)', () => {
+    const c = calcViscosityCorrection(curve, 2900, 1.0);
+    expect(c.parameterB).toBeLessThan(1);
+    expect(c.cQ).toBe(1);
+    expect(c.cEta).toBe(1);
+    expect(applyViscosityCorrection(curve, c)).toEqual(curve);
+  });
+
+  it('leaves the catalog curve unchanged for water at 0–20 °C', () => {
+    for (const pump of [pumpJson, highHeadJson]) {
+      const pumpCurve = pump.performance_curve as PumpCurvePoint[];
+      for (const temperature of [0, 10, 20]) {
+        const water = getWaterProperties(temperature, waterData);
+        const c = calcViscosityCorrection(pumpCurve, pump.rated_speed_rpm, calcKinematicViscosity_cSt(water.viscosity, water.density));
+        expect(c.required).toBe(false);
+        expect(c.cQ).toBe(1);
+        expect(c.cEta).toBe(1);
+        expect(applyViscosityCorrection(pumpCurve, c)).toEqual(pumpCurve);
+      }
+    }
+  });
+
+  it('warns when B exceeds the HI 9.6.7 limit', () => {
+    const c = calcViscosityCorrection(curve, 2900, 5000);
+    expect(c.parameterB).toBeGreaterThan(40);
+    expect(c.warnings.map(w => w.messageKey)).toEqual(['warn.viscosity_correction_out_of_range']);
+  });
+});
+
+describe('applyViscosityCorrection', () => {
+  it('keeps shutoff head, applies C_Q at BEP and scales efficiency by C_η', () => {
+    const c = calcViscosityCorrection(curve, 2900, 200);
+    const corrected = applyViscosityCorrection(curve, c);
+    // 締切点
+    expect(corrected[0].head_m).toBeCloseTo(curve[0].head_m, 10);
+    // BEP (18 m³/h)
+    expect(calcHeadCorrectionFactor(c, 18)).toBeCloseTo(c.cQ, 10);
+    expect(corrected[6].flow_m3h).toBeCloseTo(18 * c.cQ, 10);
+    expect(corrected[6].head_m).toBeCloseTo(14.5 * c.cQ, 10);
+    expect(corrected[6].efficiency_pct).toBeCloseTo(72 * c.cEta, 10);
+    expect(corrected[6].npshr_m).toBe(2.2);
+  });
+});
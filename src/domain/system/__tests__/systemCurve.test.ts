@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { calcSystemCurve } from '../systemCurve';
+import { calcSystemPressureDrop } from '../systemPressureDrop';
+import { calcResistanceCurve } from '../pumpSelection';
+import { SystemInput, PipeSpec, PipeMaterial, FluidProperties } from '../../types';
+import { Darby3KData, EntranceExitData } from '../../fittings/fittingLoss';
+import darby3kJson from '../../../../data/fittings-db/darby-3k.json';
+import entranceExitJson from '../../../../data/fittings-db/entrance-exit-k.json';
+
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+// 2" Sch40 ANSI pipe
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+const water20C: FluidProperties = {
+  density: 998.2,
+  viscosity: 1.002e-3,
+  temperature: 20,
+  pressure: 2.339,
+  reference: { source: 'IAPWS-IF97' },
+};
+
+// 高粘度油（設計流量で層流）
+const viscousOil: FluidProperties = {
+  density: 900,
+  viscosity: 0.5,
+  temperature: 20,
+  pressure: 0,
+  reference: { source: 'test' },
+};
+
+function systemInput(fluid: FluidProperties, flow_m3h: number): SystemInput {
+  return {
+    segments: [{
+      pipe: pipe2inch,
+      material: carbonSteel,
+      fluid,
+      flowRate_m3s: flow_m3h / 3600,
+      length_m: 100,
+      elevation_m: 5,
+      fittings: [{ fittingId: 'elbow_90_lr_welded', quantity: 4 }],
+    }],
+  };
+}
+
+describe('calcSystemCurve', () => {
+  it('starts at the static head and spans 1.5× design flow', () => {
+    const curve = calcSystemCurve(systemInput(water20C, 10), darby3kData, entranceExitData, undefined, undefined, 20, 1.5);
+    expect(curve).toHaveLength(21);
+    expect(curve[0]).toEqual({ flow_m3h: 0, head_m: 5 });
+    expect(curve[20].flow_m3h).toBeCloseTo(15, 10);
+  });
+
+  it('matches the hydraulic calculation at the design flow', () => {
+    const input = systemInput(water20C, 10);
+    const curve = calcSystemCurve(input, darby3kData, entranceExitData, undefined, undefined, 15, 1.5);
+    const design = calcSystemPressureDrop(input, darby3kData, entranceExitData);
+    const atDesign = curve.find(p => Math.abs(p.flow_m3h - 10) < 1e-9)!;
+    expect(atDesign.head_m).toBeCloseTo(
+      design.head_elevation_total_m + design.head_friction_total_m + design.head_fittings_total_m, 10
+    );
+  });
+
+  it('departs from the quadratic approximation in laminar flow', () => {
+    const input = systemInput(viscousOil, 5);
+    const curve = calcSystemCurve(input, darby3kData, entranceExitData, undefined, undefined, 10, 1.0);
+    const design = curve[10];
+    const quadratic = calcResistanceCurve(5, design.head_m - 5, 5, 10, 1.0);
+    // 層流の摩擦損失は Q にほぼ比例するため、2 乗近似は低流量側で損失を過小評価する
+    expect(curve[5].head_m - 5).toBeGreaterThan((quadratic[5].head_m - 5) * 1.5);
+  });
+
+  it('throws for empty input or zero design flow', () => {
+    expect(() => calcSystemCurve({ segments: [] }, darby3kData, entranceExitData)).toThrow('At least one segment is required');
+    expect(() => calcSystemCurve(systemInput(water20C, 0), darby3kData, entranceExitData)).toThrow('Design flow must be positive');
+  });
+});
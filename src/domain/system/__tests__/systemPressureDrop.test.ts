@@ -1,13 +1,16 @@
 import { describe, it, expect } from 'vitest';
 import { calcSystemPressureDrop } from '../systemPressureDrop';
 import { calcSegmentPressureDrop } from '../pressureDrop';
-import { SegmentInput, SystemInput, PipeSpec, PipeMaterial, FluidProperties, GRAVITY } from '../../types';
+import { SegmentInput, SystemInput, PipeSpec, PipeMaterial, FluidProperties, HeatLossModel, GRAVITY } from '../../types';
+import { getWaterProperties, WaterData } from '../../fluid/waterProperties';
 import { Darby3KData, EntranceExitData } from '../../fittings/fittingLoss';
 import darby3kJson from '../../../../data/fittings-db/darby-3k.json';
 import entranceExitJson from '../../../../data/fittings-db/entrance-exit-k.json';
+import waterJson from '../../../../data/fluid-properties/water.json';
 
 const darby3kData = darby3kJson as unknown as Darby3KData;
 const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+const waterData = waterJson as unknown as WaterData;
 
 // 2" Sch40 ANSI pipe
 const pipe2inch: PipeSpec = {
@@ -167,4 +170,131 @@ describe('calcSystemPressureDrop', () => {
     const uniqueSources = [...new Set(sources)];
     expect(sources.length).toBe(uniqueSources.length);
   });
+
+  it('should insert a contraction loss when the pipe size decreases', () => {
+    const seg1: SegmentInput = {
+      pipe: pipe3inch,
+      material: carbonSteel,
+      fluid: water20C,
+      flowRate_m3s: flowRate,
+      length_m: 10,
+      elevation_m: 0,
+      fittings: [],
+    };
+    const seg2: SegmentInput = { ...seg1, pipe: pipe2inch };
+
+    const result = calcSystemPressureDrop({ segments: [seg1, seg2] }, darby3kData, entranceExitData);
+    const direct2 = calcSegmentPressureDrop(seg2, darby3kData, entranceExitData);
+
+    expect(result.segmentResults[0].fittingDetails).toHaveLength(0);
+    const [transition] = result.segmentResults[1].fittingDetails;
+    expect(transition.id).toBe('contraction_sudden');
+    expect(transition.basis_id_mm).toBe(pipe2inch.id_mm);
+    expect(result.segmentResults[1].dp_fittings).toBeCloseTo(transition.dp_pa, 6);
+    expect(result.segmentResults[1].dp_total).toBeCloseTo(direct2.dp_total + transition.dp_pa, 6);
+  });
+
+  it('should insert an expansion loss referenced to the upstream velocity', () => {
+    const seg1: SegmentInput = {
+      pipe: pipe2inch,
+      material: carbonSteel,
+      fluid: water20C,
+      flowRate_m3s: flowRate,
+      length_m: 10,
+      elevation_m: 0,
+      fittings: [{ fittingId: 'valve_gate_full', quantity: 1 }],
+    };
+    const seg2: SegmentInput = { ...seg1, pipe: pipe3inch, inletTransition: { upstream_id_mm: 0, angle_deg: 20 } };
+
+    const result = calcSystemPressureDrop({ segments: [seg1, seg2] }, darby3kData, entranceExitData);
+    const details = result.segmentResults[1].fittingDetails;
+
+    expect(details).toHaveLength(2);
+    expect(details[0].id).toBe('expansion_conical');
+    // 上流内径は前区間から設定される（入力値は全頂角のみ使用）
+    expect(details[0].basis_id_mm).toBe(pipe2inch.id_mm);
+    expect(details[0].basis_velocity_m_s).toBeCloseTo(result.segmentResults[0].velocity_m_s, 10);
+    expect(details[1].basis_id_mm).toBe(pipe3inch.id_mm);
+  });
+
+  it('should not insert a transition between equal pipe sizes', () => {
+    const seg: SegmentInput = {
+      pipe: pipe2inch,
+      material: carbonSteel,
+      fluid: water20C,
+      flowRate_m3s: flowRate,
+      length_m: 10,
+      elevation_m: 0,
+      fittings: [],
+    };
+    const result = calcSystemPressureDrop({ segments: [seg, seg] }, darby3kData, entranceExitData);
+    expect(result.segmentResults[1].fittingDetails).toHaveLength(0);
+  });
+
+  it('should reject segments with different fluid densities without a heat-loss model', () => {
+    const seg: SegmentInput = {
+      pipe: pipe2inch, material: carbonSteel, fluid: water20C, flowRate_m3s: flowRate,
+      length_m: 10, elevation_m: 0, fittings: [],
+    };
+    const hot = { ...seg, fluid: getWaterProperties(90, waterData) };
+    expect(() => calcSystemPressureDrop({ segments: [seg, hot] }, darby3kData, entranceExitData)).toThrow('density');
+  });
+});
+
+describe('calcSystemPressureDrop with heat loss', () => {
+  const resolveFluid = (t: number) => getWaterProperties(t, waterData);
+  const bare: HeatLossModel = {
+    ambientTemperature_c: 0,
+    insulationThickness_mm: 0,
+    insulationConductivity_w_mk: 0.045,
+    outerFilmCoefficient_w_m2k: 15,
+  };
+  const inlet = resolveFluid(90);
+  const segment: SegmentInput = {
+    pipe: pipe2inch, material: carbonSteel, fluid: inlet, flowRate_m3s: 2 / 3600,
+    length_m: 200, elevation_m: 0, fittings: [],
+  };
+
+  it('should march temperature through the segments and re-resolve properties', () => {
+    const result = calcSystemPressureDrop(
+      { segments: [segment, segment, segment], thermal: { heatLoss: bare, resolveFluid } },
+      darby3kData, entranceExitData
+    );
+    const [s1, s2, s3] = result.segmentResults.map(r => r.thermal!);
+    expect(s1.inletTemperature_c).toBe(90);
+    expect(s2.inletTemperature_c).toBeCloseTo(s1.outletTemperature_c, 10);
+    expect(s3.inletTemperature_c).toBeCloseTo(s2.outletTemperature_c, 10);
+    expect(s3.outletTemperature_c).toBeLessThan(s1.outletTemperature_c);
+    expect(result.outletTemperature_c).toBe(s3.outletTemperature_c);
+    expect(result.heatLoss_total_w).toBeCloseTo(s1.heatLoss_w + s2.heatLoss_w + s3.heatLoss_w, 6);
+
+    // 冷えるほど粘度が上がり、同一寸法の区間でも摩擦損失が増える
+    expect(result.segmentResults[2].dp_friction).toBeGreaterThan(result.segmentResults[0].dp_friction);
+  });
+
+  it('should keep the mass flow constant while density changes', () => {
+    const result = calcSystemPressureDrop(
+      { segments: [segment, segment], thermal: { heatLoss: bare, resolveFluid } },
+      darby3kData, entranceExitData
+    );
+    const massFlow = 2 / 3600 * inlet.density;
+    for (const r of result.segmentResults) {
+      const fluid = resolveFluid(r.thermal!.meanTemperature_c);
+      const area = Math.PI * 0.0525 ** 2 / 4;
+      expect(r.velocity_m_s * area * fluid.density).toBeCloseTo(massFlow, 10);
+    }
+  });
+
+  it('should accept segments whose given densities differ when marching', () => {
+    const hot = { ...segment, fluid: resolveFluid(20) };
+    expect(() => calcSystemPressureDrop(
+      { segments: [segment, hot], thermal: { heatLoss: bare, resolveFluid } }, darby3kData, entranceExitData
+    )).not.toThrow();
+  });
+
+  it('should omit thermal results without a heat-loss model', () => {
+    const result = calcSystemPressureDrop({ segments: [segment] }, darby3kData, entranceExitData);
+    expect(result.outletTemperature_c).toBeUndefined();
+    expect(result.segmentResults[0].thermal).toBeUndefined();
+  });
 });
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { calcTwoPhaseSegmentPressureDrop } from '../twoPhasePressureDrop';
+import { calcTwoPhaseFriction, calcVoidFraction } from '../../pipe/twoPhaseFlow';
+import { TwoPhaseSegmentInput, PipeSpec, PipeMaterial, FluidProperties } from '../../types';
+import { Darby3KData, EntranceExitData } from '../../fittings/fittingLoss';
+import darby3kJson from '../../../../data/fittings-db/darby-3k.json';
+import entranceExitJson from '../../../../data/fittings-db/entrance-exit-k.json';
+
+const darby3kData = darby3kJson as unknown as Darby3KData;
+const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+
+// 2" Sch40 ANSI pipe
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const carbonSteel: PipeMaterial = {
+  id: 'carbon_steel_new',
+  name: 'Carbon steel (new)',
+  roughness_mm: 0.046,
+  reference: { source: 'Moody, 1944' },
+};
+
+// 飽和水 / 飽和蒸気 100 °C
+const water100C: FluidProperties = {
+  density: 958.4,
+  viscosity: 2.82e-4,
+  temperature: 100,
+  pressure: 101.325,
+  reference: { source: 'IAPWS-IF97' },
+};
+
+const steam100C: FluidProperties = {
+  density: 0.598,
+  viscosity: 1.23e-5,
+  temperature: 100,
+  pressure: 101.325,
+  reference: { source: 'IAPWS-IF97' },
+};
+
+const baseInput: TwoPhaseSegmentInput = {
+  pipe: pipe2inch,
+  material: carbonSteel,
+  liquid: water100C,
+  gas: steam100C,
+  surfaceTension_n_m: 0.0589,
+  massFlux_kg_m2s: 300,
+  quality: 0.05,
+  length_m: 20,
+  elevation_m: 0,
+  fittings: [],
+};
+
+describe('calcTwoPhaseSegmentPressureDrop', () => {
+  it('should default to Friedel and integrate the friction gradient over length', () => {
+    const r = calcTwoPhaseSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    const friction = calcTwoPhaseFriction('friedel', {
+      massFlux: 300, quality: 0.05, liquidDensity: 958.4, gasDensity: 0.598,
+      liquidViscosity: 2.82e-4, gasViscosity: 1.23e-5, surfaceTension: 0.0589,
+    }, 'churchill', 0.046, 52.50);
+
+    expect(r.method).toBe('friedel');
+    expect(r.dp_friction).toBeCloseTo(friction.pressureGradient * 20, 6);
+    expect(r.twoPhaseMultiplier).toBeCloseTo(friction.multiplier, 10);
+    expect(r.dp_acceleration).toBe(0);
+    expect(r.dp_total).toBeCloseTo(r.dp_friction + r.dp_fittings + r.dp_elevation + r.dp_acceleration, 6);
+    expect(r.references.some(ref => ref.source === 'Friedel, 1979')).toBe(true);
+  });
+
+  it('should report homogeneous velocity and liquid-only Reynolds number', () => {
+    const r = calcTwoPhaseSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    expect(r.velocity_m_s).toBeCloseTo(300 / r.homogeneousDensity, 10);
+    expect(r.reynolds).toBeCloseTo(300 * 0.0525 / 2.82e-4, 6);
+    expect(r.flowRegime).toBe('turbulent');
+  });
+
+  it('should use the void-fraction-based density for the gravitational term', () => {
+    const r = calcTwoPhaseSegmentPressureDrop({ ...baseInput, elevation_m: 5 }, darby3kData, entranceExitData);
+    const alpha = calcVoidFraction(0.05, 300, 958.4, 0.598, 0.0589);
+    const rhoTP = alpha * 0.598 + (1 - alpha) * 958.4;
+    expect(r.voidFraction).toBeCloseTo(alpha, 12);
+    expect(r.twoPhaseDensity).toBeCloseTo(rhoTP, 10);
+    expect(r.dp_elevation).toBeCloseTo(rhoTP * 9.80665 * 5, 6);
+    expect(r.head_elevation_m).toBeCloseTo(5, 10);
+    // 二相密度は均質流密度より大きい（気相のスリップ）
+    expect(r.twoPhaseDensity).toBeGreaterThan(r.homogeneousDensity);
+  });
+
+  it('should add a positive accelerational loss for flashing flow', () => {
+    const flashing = calcTwoPhaseSegmentPressureDrop({ ...baseInput, outletQuality: 0.1 }, darby3kData, entranceExitData);
+    const constant = calcTwoPhaseSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    expect(flashing.dp_acceleration).toBeGreaterThan(0);
+    expect(flashing.dp_friction).toBeGreaterThan(constant.dp_friction);
+
+    const condensing = calcTwoPhaseSegmentPressureDrop({ ...baseInput, outletQuality: 0.02 }, darby3kData, entranceExitData);
+    expect(condensing.dp_acceleration).toBeLessThan(0);
+  });
+
+  it('should accept saturated liquid at the inlet of a flashing line', () => {
+    const flashing = calcTwoPhaseSegmentPressureDrop({ ...baseInput, quality: 0, outletQuality: 0.05 }, darby3kData, entranceExitData);
+    expect(flashing.voidFraction).toBe(0);
+    expect(flashing.twoPhaseDensity).toBeCloseTo(water100C.density, 10);
+    expect(flashing.dp_acceleration).toBeGreaterThan(0);
+    expect(flashing.dp_friction).toBeGreaterThan(0);
+  });
+
+  it('should accept a condensate line that fully condenses (x_out = 0)', () => {
+    const condensing = calcTwoPhaseSegmentPressureDrop({ ...baseInput, outletQuality: 0 }, darby3kData, entranceExitData);
+    const liquidOnly = calcTwoPhaseFriction('friedel', {
+      massFlux: 300, quality: 0, liquidDensity: 958.4, gasDensity: 0.598,
+      liquidViscosity: 2.82e-4, gasViscosity: 1.23e-5, surfaceTension: 0.0589,
+    }, 'churchill', 0.046, 52.50);
+    expect(condensing.dp_acceleration).toBeLessThan(0);
+    expect(condensing.dp_friction).toBeGreaterThan(liquidOnly.pressureGradient * baseInput.length_m);
+  });
+
+  it('should evaluate fittings with the homogeneous model', () => {
+    const r = calcTwoPhaseSegmentPressureDrop(
+      { ...baseInput, fittings: [{ fittingId: 'elbow_90_lr_welded', quantity: 2 }] }, darby3kData, entranceExitData
+    );
+    const fd = r.fittingDetails[0];
+    expect(fd.dp_pa).toBeCloseTo(fd.k_value * fd.quantity * 300 ** 2 / (2 * r.homogeneousDensity), 6);
+    expect(r.references.some(ref => ref.source === 'Collier & Thome, 1994')).toBe(true);
+  });
+
+  it('should switch to Lockhart-Martinelli and flag it as outside its recommended range', () => {
+    const r = calcTwoPhaseSegmentPressureDrop({ ...baseInput, method: 'lockhart-martinelli' }, darby3kData, entranceExitData);
+    expect(r.method).toBe('lockhart-martinelli');
+    expect(r.martinelliParameter).toBeGreaterThan(0);
+    // μ_L/μ_G ≈ 23 < 1000、G = 300 ≥ 100
+    expect(r.warnings.some(w => w.messageKey === 'warn.two_phase_lm_range')).toBe(true);
+  });
+
+  it('should warn about the Friedel viscosity-ratio limit', () => {
+    const viscousLiquid = { ...water100C, viscosity: 0.05 };
+    const r = calcTwoPhaseSegmentPressureDrop({ ...baseInput, liquid: viscousLiquid }, darby3kData, entranceExitData);
+    expect(r.warnings.some(w => w.messageKey === 'warn.two_phase_friedel_range')).toBe(true);
+  });
+
+  it('should warn about stratified flow at low mass flux', () => {
+    const r = calcTwoPhaseSegmentPressureDrop({ ...baseInput, massFlux_kg_m2s: 50 }, darby3kData, entranceExitData);
+    expect(r.warnings.some(w => w.messageKey === 'warn.two_phase_stratified')).toBe(true);
+    const high = calcTwoPhaseSegmentPressureDrop(baseInput, darby3kData, entranceExitData);
+    expect(high.warnings.some(w => w.messageKey === 'warn.two_phase_stratified')).toBe(false);
+  });
+});
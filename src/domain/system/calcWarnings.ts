@@ -7,7 +7,9 @@
  * 警告は計算を中断せず、ユーザーへの注意喚起のみを目的とする。
  */
 
-import type { CalcWarning, FlowRegime, FittingResult } from '../types';
+import type { CalcWarning, FlowRegime, FittingResult, TwoPhaseMethod } from '../types';
+import type { ClosureType } from '../transient/types';
+import { GRAVITY } from '../types';
 
 export interface WarningCheckParams {
   readonly reynolds: number;
@@ -96,7 +98,11 @@ export function generateSegmentWarnings(params: WarningCheckParams): CalcWarning
 
   // 7. 継手損失が直管損失を上回る（継手支配の系統）
   if (params.length_m > 0 && params.fittingDetails.length > 0) {
-    const sumK = params.fittingDetails.reduce((s, f) => s + f.k_value * f.quantity, 0);
+    // K を当該区間の流速基準に換算して合計（口径変化は小径側基準のため）
+    const sumK = params.fittingDetails.reduce((s, f) => {
+      const ratio = params.velocity_m_s > 0 ? f.basis_velocity_m_s / params.velocity_m_s : 1;
+      return s + f.k_value * f.quantity * ratio * ratio;
+    }, 0);
     const fLD = params.frictionFactor * (params.length_m / (params.id_mm / 1000));
     if (sumK > fLD && fLD > 0) {
       warnings.push({
@@ -124,6 +130,633 @@ export function generateSegmentWarnings(params: WarningCheckParams): CalcWarning
   return warnings;
 }
 
+export interface HazenWilliamsWarningCheckParams {
+  readonly temperature_c: number;
+  /** 動粘度 ν = μ/ρ (m²/s) */
+  readonly kinematicViscosity_m2s: number;
+}
+
+/** Hazen-Williams 式の適用範囲（常温の水）: 温度 (°C) */
+const HAZEN_WILLIAMS_TEMP_RANGE = [5, 30] as const;
+/** 同: 動粘度 (m²/s)。5–30 °C の水の ν（約 1.52–0.80 mm²/s）を含む範囲 */
+const HAZEN_WILLIAMS_NU_RANGE = [0.75e-6, 1.6e-6] as const;
+
+/**
+ * Hazen-Williams 式の適用範囲外（常温の水以外）を検出する
+ *
+ * 流体の種類は判別できないため、温度と動粘度が常温の水の範囲にあるかで判定する。
+ */
+export function generateHazenWilliamsWarnings(params: HazenWilliamsWarningCheckParams): CalcWarning[] {
+  const { temperature_c, kinematicViscosity_m2s } = params;
+  const [tMin, tMax] = HAZEN_WILLIAMS_TEMP_RANGE;
+  const [nuMin, nuMax] = HAZEN_WILLIAMS_NU_RANGE;
+  if (temperature_c >= tMin && temperature_c <= tMax
+    && kinematicViscosity_m2s >= nuMin && kinematicViscosity_m2s <= nuMax) {
+    return [];
+  }
+  return [{
+    severity: 'warning',
+    category: 'friction',
+    messageKey: 'warn.hazen_williams_scope',
+    messageParams: {
+      t: round(temperature_c, 1),
+      nu: round(kinematicViscosity_m2s * 1e6, 3),
+    },
+  }];
+}
+
+export interface SprinklerWarningCheckParams {
+  readonly coveredArea_m2: number;
+  readonly areaOfOperation_m2: number;
+  readonly requiredPressure_kpa: number;
+  /** 総需要流量での供給可能圧力（水源条件の省略時は undefined） */
+  readonly availablePressure_kpa?: number;
+  readonly totalDemand_lpm: number;
+}
+
+/**
+ * スプリンクラー水理計算の結果に対して該当する警告を生成する
+ */
+export function generateSprinklerWarnings(params: SprinklerWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 1. 計算対象ヘッドの防護面積が作動面積に満たない
+  if (params.coveredArea_m2 < params.areaOfOperation_m2) {
+    warnings.push({
+      severity: 'warning',
+      category: 'sprinkler',
+      messageKey: 'warn.sprinkler_design_area',
+      messageParams: {
+        covered: round(params.coveredArea_m2, 1),
+        required: round(params.areaOfOperation_m2, 1),
+      },
+    });
+  }
+
+  // 2. 水源の供給圧力が必要圧力を下回る
+  if (params.availablePressure_kpa !== undefined && params.availablePressure_kpa < params.requiredPressure_kpa) {
+    warnings.push({
+      severity: 'caution',
+      category: 'sprinkler',
+      messageKey: 'warn.sprinkler_supply_insufficient',
+      messageParams: {
+        q: round(params.totalDemand_lpm, 0),
+        available: round(params.availablePressure_kpa, 1),
+        required: round(params.requiredPressure_kpa, 1),
+      },
+    });
+  }
+
+  return warnings;
+}
+
+export interface ControlValveWarningCheckParams {
+  readonly valveDp_kpa: number;
+  /** 選定弁（選定なしは最大の候補）の閉塞限界差圧 */
+  readonly chokedDp_kpa: number;
+  readonly outletPressure_kpa: number;
+  readonly vaporPressure_kpa: number;
+  readonly authority: number;
+  /** 選定弁（選定なしは最大の候補）の必要 Cv */
+  readonly requiredCv: number;
+  readonly selected: boolean;
+}
+
+/** 弁オーソリティの下限目安（これ未満では制御性が悪化する） */
+const MIN_VALVE_AUTHORITY = 0.25;
+
+/**
+ * 調節弁サイジング結果に対して該当する警告を生成する
+ */
+export function generateControlValveWarnings(params: ControlValveWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 1. 弁出口圧力が蒸気圧を下回る（フラッシング）、または閉塞流れ（キャビテーション）
+  if (params.outletPressure_kpa < params.vaporPressure_kpa) {
+    warnings.push({
+      severity: 'caution',
+      category: 'valve',
+      messageKey: 'warn.valve_flashing',
+      messageParams: {
+        p2: round(params.outletPressure_kpa, 1),
+        pv: round(params.vaporPressure_kpa, 2),
+      },
+    });
+  } else if (params.valveDp_kpa >= params.chokedDp_kpa) {
+    warnings.push({
+      severity: 'warning',
+      category: 'valve',
+      messageKey: 'warn.valve_choked',
+      messageParams: {
+        dp: round(params.valveDp_kpa, 1),
+        dp_max: round(params.chokedDp_kpa, 1),
+      },
+    });
+  }
+
+  // 2. カタログに条件を満たす弁がない
+  if (!params.selected) {
+    warnings.push({
+      severity: 'caution',
+      category: 'valve',
+      messageKey: 'warn.valve_no_catalog_match',
+      messageParams: { cv: round(params.requiredCv, 1) },
+    });
+  }
+
+  // 3. 弁オーソリティ不足（弁差圧が系統損失に対して小さい）
+  if (params.authority < MIN_VALVE_AUTHORITY) {
+    warnings.push({
+      severity: 'warning',
+      category: 'valve',
+      messageKey: 'warn.valve_low_authority',
+      messageParams: { n: round(params.authority, 2), min: MIN_VALVE_AUTHORITY },
+    });
+  }
+
+  return warnings;
+}
+
+export interface NPSHWarningCheckParams {
+  readonly npsha_m: number;
+  readonly npshr_m: number;
+  /** 必要 NPSH 余裕比 NPSHa/NPSHr の下限（HI 9.6.1 の用途別推奨値） */
+  readonly minMarginRatio: number;
+}
+
+/**
+ * ポンプ運転点の NPSH 余裕に対して該当する警告を生成する
+ */
+export function generateNPSHWarnings(params: NPSHWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+  const margin = params.npsha_m - params.npshr_m;
+  const ratio = params.npsha_m / params.npshr_m;
+
+  // 1. NPSHa < NPSHr（キャビテーション）、または余裕比が推奨値未満
+  if (margin < 0) {
+    warnings.push({
+      severity: 'caution',
+      category: 'pump',
+      messageKey: 'warn.npsh_insufficient',
+      messageParams: {
+        npsha: round(params.npsha_m, 2),
+        npshr: round(params.npshr_m, 2),
+      },
+    });
+  } else if (ratio < params.minMarginRatio) {
+    warnings.push({
+      severity: 'warning',
+      category: 'pump',
+      messageKey: 'warn.npsh_margin_ratio_low',
+      messageParams: {
+        ratio: round(ratio, 2),
+        min: params.minMarginRatio,
+        margin: round(margin, 2),
+      },
+    });
+  }
+
+  return warnings;
+}
+
+export interface PumpCurveWarningCheckParams {
+  readonly flow_m3h: number;
+  /** カタログ性能曲線の最大流量 */
+  readonly maxCatalogFlow_m3h: number;
+  readonly bepFlow_m3h: number;
+  /** 締切運転域とみなす BEP 流量に対する比 */
+  readonly shutoffRegionRatio: number;
+}
+
+/**
+ * 近似性能曲線上の運転点の位置に対して該当する警告を生成する
+ */
+export function generatePumpCurveWarnings(params: PumpCurveWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 1. カタログ最大流量を超える外挿
+  if (params.flow_m3h > params.maxCatalogFlow_m3h) {
+    warnings.push({
+      severity: 'caution',
+      category: 'pump',
+      messageKey: 'warn.pump_beyond_curve',
+      messageParams: {
+        flow: round(params.flow_m3h, 2),
+        max: round(params.maxCatalogFlow_m3h, 2),
+      },
+    });
+  }
+
+  // 2. 締切運転域（最小連続流量未満）
+  const minFlow = params.bepFlow_m3h * params.shutoffRegionRatio;
+  if (params.flow_m3h < minFlow) {
+    warnings.push({
+      severity: 'warning',
+      category: 'pump',
+      messageKey: 'warn.pump_shutoff_region',
+      messageParams: {
+        flow: round(params.flow_m3h, 2),
+        min: round(minFlow, 2),
+        bep: round(params.bepFlow_m3h, 2),
+      },
+    });
+  }
+
+  return warnings;
+}
+
+export interface PumpExtrapolationLimitWarningCheckParams {
+  /** カタログ性能曲線の最大流量 */
+  readonly maxCatalogFlow_m3h: number;
+  /** 外挿を許す上限流量 */
+  readonly limitFlow_m3h: number;
+}
+
+/**
+ * 交点が外挿の上限流量を超える（上限まで近似曲線の揚程が系統揚程を上回る）場合の警告を生成する
+ */
+export function generatePumpExtrapolationLimitWarnings(params: PumpExtrapolationLimitWarningCheckParams): CalcWarning[] {
+  return [{
+    severity: 'warning',
+    category: 'pump',
+    messageKey: 'warn.pump_beyond_extrapolation_limit',
+    messageParams: {
+      limit: round(params.limitFlow_m3h, 2),
+      max: round(params.maxCatalogFlow_m3h, 2),
+    },
+  }];
+}
+
+export interface ViscosityCorrectionWarningCheckParams {
+  /** HI 9.6.7 のパラメータ B */
+  readonly parameterB: number;
+  /** 補正法の適用上限とする B */
+  readonly maxParameterB: number;
+}
+
+/**
+ * 粘度補正（HI 9.6.7）の適用範囲に対して該当する警告を生成する
+ */
+export function generateViscosityCorrectionWarnings(params: ViscosityCorrectionWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  if (params.parameterB >= params.maxParameterB) {
+    warnings.push({
+      severity: 'warning',
+      category: 'pump',
+      messageKey: 'warn.viscosity_correction_out_of_range',
+      messageParams: {
+        b: round(params.parameterB, 1),
+        max: params.maxParameterB,
+      },
+    });
+  }
+
+  return warnings;
+}
+
+export interface MotorWarningCheckParams {
+  /** 性能曲線上の最大軸動力 [kW] */
+  readonly maxPower_kW: number | null;
+  /** 選定した電動機の定格出力 [kW] */
+  readonly rating_kW: number;
+}
+
+/**
+ * 電動機選定結果に対して該当する警告を生成する
+ */
+export function generateMotorWarnings(params: MotorWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 曲線末端（大流量側）での過負荷
+  if (params.maxPower_kW !== null && params.maxPower_kW > params.rating_kW) {
+    warnings.push({
+      severity: 'warning',
+      category: 'pump',
+      messageKey: 'warn.motor_end_of_curve_overload',
+      messageParams: {
+        max: round(params.maxPower_kW, 2),
+        rating: params.rating_kW,
+      },
+    });
+  }
+
+  return warnings;
+}
+
+export interface DutyCycleWarningCheckParams {
+  /** 運転できない運転パターンの流量比 [%] */
+  readonly unreachableFlowPercents: readonly number[];
+}
+
+/**
+ * 運転パターン（流量比ごとの運転時間）の評価結果に対して該当する警告を生成する
+ */
+export function generateDutyCycleWarnings(params: DutyCycleWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  for (const pct of params.unreachableFlowPercents) {
+    warnings.push({
+      severity: 'warning',
+      category: 'pump',
+      messageKey: 'warn.duty_point_unreachable',
+      messageParams: { pct: round(pct, 1) },
+    });
+  }
+
+  return warnings;
+}
+
+export interface FlowElementWarningCheckParams {
+  readonly pipeDiameter_mm: number;
+  readonly bore_mm: number;
+  readonly beta: number;
+  readonly reynolds: number;
+  readonly pipeDiameterMin_mm: number;
+  readonly pipeDiameterMax_mm: number;
+  readonly betaMin: number;
+  readonly betaMax: number;
+  readonly boreMin_mm?: number;
+  readonly reynoldsMin: number;
+  readonly reynoldsMax?: number;
+}
+
+/**
+ * 差圧式流量計（ISO 5167）の適用範囲チェック
+ *
+ * 範囲外では流出係数の不確かさが規格の値を保証されない。
+ */
+export function generateFlowElementWarnings(params: FlowElementWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 1. 絞り直径比 β
+  if (params.beta < params.betaMin || params.beta > params.betaMax) {
+    warnings.push({
+      severity: 'warning',
+      category: 'fittings',
+      messageKey: 'warn.flow_element_beta_range',
+      messageParams: { beta: round(params.beta, 3), min: params.betaMin, max: params.betaMax },
+    });
+  }
+
+  // 2. 管内径 D
+  if (params.pipeDiameter_mm < params.pipeDiameterMin_mm || params.pipeDiameter_mm > params.pipeDiameterMax_mm) {
+    warnings.push({
+      severity: 'warning',
+      category: 'fittings',
+      messageKey: 'warn.flow_element_pipe_diameter_range',
+      messageParams: { d: round(params.pipeDiameter_mm, 1), min: params.pipeDiameterMin_mm, max: params.pipeDiameterMax_mm },
+    });
+  }
+
+  // 3. 最小絞り径（オリフィス板）
+  if (params.boreMin_mm !== undefined && params.bore_mm < params.boreMin_mm) {
+    warnings.push({
+      severity: 'warning',
+      category: 'fittings',
+      messageKey: 'warn.flow_element_bore_small',
+      messageParams: { d: round(params.bore_mm, 2), min: params.boreMin_mm },
+    });
+  }
+
+  // 4. レイノルズ数 Re_D
+  if (params.reynolds < params.reynoldsMin) {
+    warnings.push({
+      severity: 'warning',
+      category: 'fittings',
+      messageKey: 'warn.flow_element_reynolds_low',
+      messageParams: { re: Math.round(params.reynolds), min: Math.round(params.reynoldsMin) },
+    });
+  } else if (params.reynoldsMax !== undefined && params.reynolds > params.reynoldsMax) {
+    warnings.push({
+      severity: 'warning',
+      category: 'fittings',
+      messageKey: 'warn.flow_element_reynolds_high',
+      messageParams: { re: Math.round(params.reynolds), max: params.reynoldsMax },
+    });
+  }
+
+  return warnings;
+}
+
+export interface GasWarningCheckParams {
+  readonly reynolds: number;
+  readonly flowRegime: FlowRegime;
+  /** 区間内の最大マッハ数（入口・出口の大きい方） */
+  readonly maxMach: number;
+  readonly choked: boolean;
+  /** 閉塞時のマッハ数（等温 1/√γ、断熱 1） */
+  readonly chokeMach: number;
+  /** 入口の圧縮係数 Z の推算値 */
+  readonly compressibility: number;
+  readonly pressure_kpa: number;
+}
+
+/**
+ * 気体区間の計算結果に対して該当する警告を生成する
+ */
+export function generateGasWarnings(params: GasWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 1. 閉塞流れ（所定流量を流せない）
+  if (params.choked) {
+    warnings.push({
+      severity: 'caution',
+      category: 'velocity',
+      messageKey: 'warn.gas_choked',
+      messageParams: { mach: round(params.chokeMach, 3) },
+    });
+  }
+
+  // 2. 高マッハ数（継手 K 値・粘度一定などの低マッハ数仮定が崩れる）
+  if (!params.choked && params.maxMach > 0.3) {
+    warnings.push({
+      severity: 'warning',
+      category: 'velocity',
+      messageKey: 'warn.gas_high_mach',
+      messageParams: { mach: round(params.maxMach, 3) },
+    });
+  }
+
+  // 3. 理想気体からの乖離（|Z − 1| > 5%）
+  if (Math.abs(params.compressibility - 1) > 0.05) {
+    warnings.push({
+      severity: 'warning',
+      category: 'fluid',
+      messageKey: 'warn.gas_non_ideal',
+      messageParams: { z: round(params.compressibility, 3), p: round(params.pressure_kpa, 0) },
+    });
+  }
+
+  // 4. 遷移域（Re 2100–4000）
+  if (params.flowRegime === 'transitional') {
+    warnings.push({
+      severity: 'warning',
+      category: 'friction',
+      messageKey: 'warn.transitional_flow',
+      messageParams: { re: Math.round(params.reynolds) },
+    });
+  }
+
+  return warnings;
+}
+
+export interface TwoPhaseWarningCheckParams {
+  readonly method: TwoPhaseMethod;
+  /** 質量流束 G (kg/(m²·s)) */
+  readonly massFlux: number;
+  readonly liquidDensity: number;
+  /** 粘度比 μ_L/μ_G */
+  readonly viscosityRatio: number;
+  readonly id_mm: number;
+}
+
+/**
+ * 気液二相区間の計算結果に対して該当する警告を生成する
+ *
+ * 相関式の推奨範囲は Whalley (1987):
+ * μ_L/μ_G < 1000 → Friedel、μ_L/μ_G > 1000 かつ G < 100 kg/(m²·s) → Lockhart-Martinelli
+ */
+export function generateTwoPhaseWarnings(params: TwoPhaseWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 1. 成層流（水平管、全量液相フルード数 Fr_LO < 0.04 — Kandlikar 1990）
+  const froude = params.massFlux * params.massFlux
+    / (params.liquidDensity * params.liquidDensity * GRAVITY * params.id_mm / 1000);
+  if (froude < 0.04) {
+    warnings.push({
+      severity: 'warning',
+      category: 'friction',
+      messageKey: 'warn.two_phase_stratified',
+      messageParams: { fr: round(froude, 4) },
+    });
+  }
+
+  // 2. Friedel の適用範囲外（粘度比が大きい）
+  if (params.method === 'friedel' && params.viscosityRatio > 1000) {
+    warnings.push({
+      severity: 'warning',
+      category: 'friction',
+      messageKey: 'warn.two_phase_friedel_range',
+      messageParams: { ratio: Math.round(params.viscosityRatio) },
+    });
+  }
+
+  // 3. Lockhart-Martinelli の推奨範囲外
+  if (params.method === 'lockhart-martinelli' && (params.viscosityRatio <= 1000 || params.massFlux >= 100)) {
+    warnings.push({
+      severity: 'info',
+      category: 'friction',
+      messageKey: 'warn.two_phase_lm_range',
+      messageParams: { ratio: Math.round(params.viscosityRatio), g: round(params.massFlux, 1) },
+    });
+  }
+
+  return warnings;
+}
+
+export interface WaterHammerWarningCheckParams {
+  /** 最大圧力 (Pa, ゲージ) */
+  readonly peakPressure_pa: number;
+  /** 設計圧力 (Pa, ゲージ) */
+  readonly designPressure_pa: number;
+  readonly closureType: ClosureType;
+  /** 管路の往復時間 2L/a (s) */
+  readonly period_s: number;
+}
+
+/**
+ * 水撃評価結果に対して該当する警告を生成する
+ */
+export function generateWaterHammerWarnings(params: WaterHammerWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 1. 最大圧力が設計圧力を超過
+  if (params.peakPressure_pa > params.designPressure_pa) {
+    warnings.push({
+      severity: 'caution',
+      category: 'transient',
+      messageKey: 'warn.surge_exceeds_design',
+      messageParams: {
+        peak: round(params.peakPressure_pa / 1000, 1),
+        design: round(params.designPressure_pa / 1000, 1),
+      },
+    });
+  }
+
+  // 2. 急閉鎖（Joukowsky の全圧力上昇が発生）
+  if (params.closureType === 'rapid') {
+    warnings.push({
+      severity: 'warning',
+      category: 'transient',
+      messageKey: 'warn.surge_rapid_closure',
+      messageParams: { period: round(params.period_s, 3) },
+    });
+  }
+
+  return warnings;
+}
+
+export interface TransientWarningCheckParams {
+  /** 最大・最小圧力 (Pa, ゲージ) */
+  readonly maxPressure_pa: number;
+  readonly minPressure_pa: number;
+  /** 飽和蒸気圧 (Pa, ゲージ) */
+  readonly vaporPressure_pa: number;
+  /** 設計圧力 (Pa, ゲージ) */
+  readonly designPressure_pa: number;
+  /** 最初に蒸気圧を下回る位置（ルート始点からの管路長 m） */
+  readonly columnSeparationDistance_m?: number;
+  /** 伝播速度の最大補正率 */
+  readonly waveSpeedAdjustment: number;
+}
+
+/**
+ * 特性曲線法による過渡解析結果に対して該当する警告を生成する
+ */
+export function generateTransientWarnings(params: TransientWarningCheckParams): CalcWarning[] {
+  const warnings: CalcWarning[] = [];
+
+  // 1. 最大圧力が設計圧力を超過
+  if (params.maxPressure_pa > params.designPressure_pa) {
+    warnings.push({
+      severity: 'caution',
+      category: 'transient',
+      messageKey: 'warn.surge_exceeds_design',
+      messageParams: {
+        peak: round(params.maxPressure_pa / 1000, 1),
+        design: round(params.designPressure_pa / 1000, 1),
+      },
+    });
+  }
+
+  // 2. 水柱分離（最小圧力が蒸気圧を下回る）
+  if (params.columnSeparationDistance_m !== undefined) {
+    warnings.push({
+      severity: 'caution',
+      category: 'transient',
+      messageKey: 'warn.column_separation',
+      messageParams: {
+        x: round(params.columnSeparationDistance_m, 1),
+        p_min: round(params.minPressure_pa / 1000, 1),
+        p_v: round(params.vaporPressure_pa / 1000, 1),
+      },
+    });
+  }
+
+  // 3. 格子に合わせた伝播速度の補正が大きい（短い区間の時間分解能不足）
+  if (params.waveSpeedAdjustment > 0.1) {
+    warnings.push({
+      severity: 'info',
+      category: 'transient',
+      messageKey: 'warn.transient_wave_speed_adjusted',
+      messageParams: { pct: round(params.waveSpeedAdjustment * 100, 1) },
+    });
+  }
+
+  return warnings;
+}
+
 function round(value: number, decimals: number): number {
   const factor = Math.pow(10, decimals);
   return Math.round(value * factor) / factor;
@@ -0,0 +1,164 @@
+/**
+ * 経済口径の選定 — 配管据付費とポンプ動力費のライフサイクルコスト最小化
+ *
+ * 候補口径ごとに:
+ *   建設費     C_cap = c_pipe(DN) × L
+ *   ポンプ動力 P = ρgQH_f / (η × 1000)  [kW]（H_f: 摩擦 + 継手損失水頭）
+ *   年間電力費 C_E = P × 運転時間 × 電力単価
+ *   総費用     C_total = C_cap + C_E × PWF,  PWF = (1 − (1 + i)^−n) / i
+ *
+ * 高低差による静水頭の動力は口径に依存しないため比較から除外する。
+ */
+
+import {
+  PipeSpec, PipeMaterial, FluidProperties, FittingInput, FrictionFactorMethod, FittingMethod, Reference, GRAVITY,
+} from '../types';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '../fittings/fittingLoss';
+import { calcSegmentPressureDrop } from './pressureDrop';
+import { calcPumpPower } from './pumpRequirements';
+
+// ── 入出力型 ──
+
+/** ライフサイクルコストの評価条件 */
+export interface LifecycleCostParams {
+  /** ポンプ効率 (−)。電動機効率を含めた総合効率を入れてもよい */
+  readonly pumpEfficiency: number;
+  /** 年間運転時間 (h/yr) */
+  readonly operatingHours_h_yr: number;
+  /** 電力単価（通貨/kWh、据付費と同じ通貨） */
+  readonly electricityPrice_per_kwh: number;
+  /** 割引率 (−) */
+  readonly discountRate: number;
+  /** 評価期間 (yr) */
+  readonly lifetime_yr: number;
+}
+
+export interface EconomicDiameterCandidate {
+  readonly pipe: PipeSpec;
+  /** 据付費（通貨/m） */
+  readonly installedCost_per_m: number;
+}
+
+export interface EconomicDiameterInput {
+  readonly candidates: readonly EconomicDiameterCandidate[];
+  readonly material: PipeMaterial;
+  readonly fluid: FluidProperties;
+  readonly flowRate_m3s: number;
+  readonly length_m: number;
+  readonly fittings: FittingInput[];
+  readonly frictionMethod?: FrictionFactorMethod;
+  readonly fittingMethod?: FittingMethod;
+  readonly costs: LifecycleCostParams;
+}
+
+export interface EconomicDiameterRow {
+  readonly pipe: PipeSpec;
+  readonly velocity_m_s: number;
+  /** 摩擦 + 継手の圧損 (Pa) */
+  readonly dp_pa: number;
+  readonly pumpPower_kw: number;
+  readonly capitalCost: number;
+  readonly annualEnergyCost: number;
+  /** 評価期間の電力費の現在価値 */
+  readonly energyPresentValue: number;
+  readonly totalCost: number;
+}
+
+export interface EconomicDiameterResult {
+  /** 小径順 */
+  readonly rows: EconomicDiameterRow[];
+  /** 総費用が最小となる rows インデックス */
+  readonly optimumIndex: number;
+  readonly presentWorthFactor: number;
+  readonly references: Reference[];
+}
+
+const PWF_REF: Reference = {
+  source: 'Peters, Timmerhaus & West, 2003',
+  page: 'Ch. 7 (uniform-series present worth)',
+  equation: 'PWF = (1 − (1 + i)^−n) / i',
+};
+
+const PUMP_POWER_REF: Reference = {
+  source: 'Pump Handbook, 4th Ed., Karassik et al., 2008',
+  page: 'Ch. 2 (pump power and efficiency)',
+  equation: 'P = ρgQH / (η × 1000)  [kW]',
+};
+
+/**
+ * 等額支払現価係数 PWF（年 1 回の等額費用を現在価値に換算する）
+ *
+ * i = 0 では n に一致する。
+ *
+ * @param discountRate 割引率 i (−)
+ * @param lifetime_yr 評価期間 n (yr)
+ */
+export function calcPresentWorthFactor(discountRate: number, lifetime_yr: number): number {
+  if (lifetime_yr <= 0) throw new Error('Lifetime must be positive');
+  if (discountRate < 0) throw new Error('Discount rate must be non-negative');
+  if (discountRate === 0) return lifetime_yr;
+  return (1 - Math.pow(1 + discountRate, -lifetime_yr)) / discountRate;
+}
+
+/**
+ * 候補口径のライフサイクルコストを比較し、経済口径を求める
+ */
+export function calcEconomicDiameter(
+  input: EconomicDiameterInput,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): EconomicDiameterResult {
+  const { fluid, flowRate_m3s, length_m, costs } = input;
+  if (input.candidates.length === 0) throw new Error('At least one candidate size is required');
+  if (flowRate_m3s <= 0) throw new Error('Flow rate must be positive');
+  if (length_m <= 0) throw new Error('Pipeline length must be positive');
+  if (costs.operatingHours_h_yr < 0 || costs.operatingHours_h_yr > 8760) {
+    throw new Error('Operating hours must be between 0 and 8760 h/yr');
+  }
+
+  const pwf = calcPresentWorthFactor(costs.discountRate, costs.lifetime_yr);
+  const candidates = [...input.candidates].sort((a, b) => a.pipe.id_mm - b.pipe.id_mm);
+
+  const rows: EconomicDiameterRow[] = candidates.map(({ pipe, installedCost_per_m }) => {
+    const seg = calcSegmentPressureDrop(
+      {
+        pipe,
+        material: input.material,
+        fluid,
+        flowRate_m3s,
+        length_m,
+        elevation_m: 0,
+        fittings: input.fittings,
+        frictionMethod: input.frictionMethod,
+        fittingMethod: input.fittingMethod,
+      },
+      darby3kData, entranceExitData, craneData, hooperData
+    );
+    const dp = seg.dp_friction + seg.dp_fittings;
+    const power = calcPumpPower(fluid.density, flowRate_m3s, dp / (fluid.density * GRAVITY), costs.pumpEfficiency);
+    const capitalCost = installedCost_per_m * length_m;
+    const annualEnergyCost = power * costs.operatingHours_h_yr * costs.electricityPrice_per_kwh;
+    const energyPresentValue = annualEnergyCost * pwf;
+    return {
+      pipe,
+      velocity_m_s: seg.velocity_m_s,
+      dp_pa: dp,
+      pumpPower_kw: power,
+      capitalCost,
+      annualEnergyCost,
+      energyPresentValue,
+      totalCost: capitalCost + energyPresentValue,
+    };
+  });
+
+  const optimumIndex = rows.reduce((best, row, i) => (row.totalCost < rows[best].totalCost ? i : best), 0);
+
+  return {
+    rows,
+    optimumIndex,
+    presentWorthFactor: pwf,
+    references: [PWF_REF, PUMP_POWER_REF, fluid.reference],
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * 気体区間の圧損計算 — 圧縮性流れ（等温流れ / 断熱 Fanno 流れ）
+ *
+ * 一定断面の直管で、運動量式を密度の圧力依存を含めて管長方向に積分した閉形式を用いる。
+ * 継手は K 値を等価抵抗として fL/D に加算する（N = fL/D + ΣK）。
+ *
+ * 等温流れ:
+ *   p₁² − p₂² = G²RT [N + 2 ln(p₁/p₂)]
+ *   閉塞: M = 1/√γ、N_max = (1 − γM₁²)/(γM₁²) + ln(γM₁²)
+ *
+ * 断熱流れ (Fanno):
+ *   (fL/D)* = (1 − M²)/(γM²) + (γ+1)/(2γ) ln[(γ+1)M² / (2 + (γ−1)M²)]
+ *   N = (fL/D)*(M₁) − (fL/D)*(M₂)、閉塞: M₂ = 1
+ *   T₂/T₁ = (2 + (γ−1)M₁²)/(2 + (γ−1)M₂²)、p₂/p₁ = (M₁/M₂)√(T₂/T₁)
+ *
+ * Re = GD/μ は質量流束一定のため管長方向に一定（断熱流れの粘度の温度変化は無視）。
+ * 高低差は入口・出口の平均密度による位置圧として別途加算する。
+ */
+
+import { GasSegmentInput, GasSegmentResult, Reference, GRAVITY } from '../types';
+import { calcFlowArea, classifyFlow } from '../pipe/pipeGeometry';
+import { calcFrictionFactor, requireDarcyFrictionMethod } from '../pipe/frictionFactor';
+import { resolveFittings, Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '../fittings/fittingLoss';
+import { KELVIN_OFFSET } from '../fluid/gasProperties';
+import { generateGasWarnings } from './calcWarnings';
+
+const ISOTHERMAL_REF: Reference = {
+  source: 'Shapiro, A.H., 1953',
+  equation: 'p₁² − p₂² = G²RT[fL/D + ΣK + 2ln(p₁/p₂)]',
+};
+
+const FANNO_REF: Reference = {
+  source: 'Shapiro, A.H., 1953',
+  equation: '(fL/D)* = (1−M²)/(γM²) + (γ+1)/(2γ)·ln[(γ+1)M²/(2+(γ−1)M²)]',
+};
+
+/**
+ * 断熱 Fanno 流れで、マッハ数 M から閉塞 (M = 1) までの抵抗 (fL/D)*
+ *
+ * @param mach マッハ数 (0 < M ≤ 1)
+ * @param gamma 比熱比
+ */
+export function calcFannoResistance(mach: number, gamma: number): number {
+  if (mach <= 0) throw new Error('Mach number must be positive');
+  const m2 = mach * mach;
+  return (1 - m2) / (gamma * m2)
+    + (gamma + 1) / (2 * gamma) * Math.log((gamma + 1) * m2 / (2 + (gamma - 1) * m2));
+}
+
+/**
+ * 等温流れで、マッハ数 M から閉塞 (M = 1/√γ) までの抵抗 (fL/D)_max
+ *
+ * @param mach マッハ数 (0 < M ≤ 1/√γ)
+ * @param gamma 比熱比
+ */
+export function calcIsothermalMaxResistance(mach: number, gamma: number): number {
+  if (mach <= 0) throw new Error('Mach number must be positive');
+  const gm2 = gamma * mach * mach;
+  return (1 - gm2) / gm2 + Math.log(gm2);
+}
+
+/** fn(lo) と fn(hi) の符号が異なる区間で根を二分法で求める */
+function bisect(fn: (x: number) => number, lo: number, hi: number): number {
+  const MAX_ITERATIONS = 200;
+  const TOLERANCE = 1e-12;
+  let fLo = fn(lo);
+  for (let i = 0; i < MAX_ITERATIONS && hi - lo > TOLERANCE * Math.abs(hi); i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = fn(mid);
+    if ((fMid < 0) === (fLo < 0)) {
+      lo = mid;
+      fLo = fMid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * 気体区間の圧損を計算する
+ *
+ * 所定の質量流量が閉塞条件を超える場合は choked = true とし、
+ * 出口状態として閉塞点（管端）の臨界状態を返す。
+ * 入口で既に限界マッハ数（等温: 1/√γ、断熱: 1）以上の場合は、
+ * 入口圧力でこの質量流量を流せないためエラーとする。
+ */
+export function calcGasSegmentPressureDrop(
+  input: GasSegmentInput,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): GasSegmentResult {
+  const { pipe, material, gas, massFlow_kg_s, length_m, elevation_m, fittings, flowModel } = input;
+  if (massFlow_kg_s <= 0) throw new Error('Mass flow rate must be positive');
+  const frictionMethod = input.frictionMethod ?? 'churchill';
+  requireDarcyFrictionMethod(frictionMethod);
+  const gamma = gas.gamma;
+  const R = gas.gasConstant;
+
+  // 入口状態
+  const id_m = pipe.id_mm / 1000;
+  const G = massFlow_kg_s / calcFlowArea(pipe.id_mm);   // 質量流束 (kg/(m²·s))
+  const p1 = gas.pressure_kpa * 1000;
+  const T1 = gas.temperature + KELVIN_OFFSET;
+  const rho1 = gas.density;
+  const v1 = G / rho1;
+  const M1 = v1 / Math.sqrt(gamma * R * T1);
+
+  // 限界マッハ数（等温: pM = 一定の閉塞点、断熱: 音速）。入口で到達していれば解なし
+  const machLimit = flowModel === 'isothermal' ? 1 / Math.sqrt(gamma) : 1;
+  if (M1 >= machLimit) {
+    throw new Error(
+      `Inlet is already choked: inlet Mach ${M1.toFixed(3)} is at or above the limiting Mach ${machLimit.toFixed(3)}`
+    );
+  }
+
+  // Re（管長方向に一定）・摩擦係数
+  const reynolds = G * id_m / gas.viscosity;
+  const flowRegime = classifyFlow(reynolds);
+  const frictionResult = calcFrictionFactor(frictionMethod, reynolds, material.roughness_mm, pipe.id_mm);
+  const f = frictionResult.f;
+
+  // 継手 K 値（入口流速基準）
+  const fittingDetails = resolveFittings(
+    fittings, darby3kData, entranceExitData, reynolds, pipe.id_mm, rho1, v1,
+    input.fittingMethod ?? '3k', craneData, hooperData
+  );
+  const sumK = fittingDetails.reduce((s, fd) => s + fd.k_value * fd.quantity, 0);
+  const totalResistance = f * length_m / id_m + sumK;
+
+  // 管長方向の積分（閉形式）
+  let p2: number;
+  let T2: number;
+  let M2: number;
+  let maxResistance: number;
+  let choked: boolean;
+  if (flowModel === 'isothermal') {
+    maxResistance = calcIsothermalMaxResistance(M1, gamma);
+    choked = totalResistance >= maxResistance;
+    T2 = T1;
+    // 等温流れでは pM = 一定
+    const pChoke = p1 * M1 / machLimit;
+    if (choked) {
+      p2 = pChoke;
+    } else {
+      const g2RT = G * G * R * T1;
+      p2 = bisect(p => p1 * p1 - p * p - g2RT * (totalResistance + 2 * Math.log(p1 / p)), pChoke, p1);
+    }
+    M2 = M1 * p1 / p2;
+  } else {
+    maxResistance = calcFannoResistance(M1, gamma);
+    choked = totalResistance >= maxResistance;
+    M2 = choked
+      ? 1
+      : bisect(m => calcFannoResistance(m, gamma) - (maxResistance - totalResistance), M1, 1);
+    const tRatio = (2 + (gamma - 1) * M1 * M1) / (2 + (gamma - 1) * M2 * M2);
+    T2 = T1 * tRatio;
+    p2 = p1 * (M1 / M2) * Math.sqrt(tRatio);
+  }
+
+  const rho2 = p2 / (R * T2);
+  const v2 = G / rho2;
+
+  const dp_flow = p1 - p2;
+  const dp_elevation = (rho1 + rho2) / 2 * GRAVITY * elevation_m;
+  const dp_total = dp_flow + dp_elevation;
+
+  const warnings = generateGasWarnings({
+    reynolds,
+    flowRegime,
+    maxMach: Math.max(M1, M2),
+    choked,
+    chokeMach: machLimit,
+    compressibility: gas.compressibility,
+    pressure_kpa: gas.pressure_kpa,
+  });
+
+  const references: Reference[] = [
+    flowModel === 'isothermal' ? ISOTHERMAL_REF : FANNO_REF,
+    frictionResult.reference,
+    gas.reference,
+    material.reference,
+    ...fittingDetails.map(fd => fd.reference),
+  ];
+
+  return {
+    flowModel,
+    massFlow_kg_s,
+    inletPressure_kpa: gas.pressure_kpa,
+    outletPressure_kpa: (p1 - dp_total) / 1000,
+    inletTemperature_c: gas.temperature,
+    outletTemperature_c: T2 - KELVIN_OFFSET,
+    inletDensity: rho1,
+    outletDensity: rho2,
+    inletVelocity_m_s: v1,
+    outletVelocity_m_s: v2,
+    inletMach: M1,
+    outletMach: M2,
+    reynolds,
+    flowRegime,
+    frictionFactor: f,
+    frictionFactorMethod: frictionResult.method,
+    sumK,
+    totalResistance,
+    maxResistance,
+    choked,
+    dp_flow,
+    dp_elevation,
+    dp_total,
+    fittingDetails,
+    references,
+    warnings,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * 配管の熱損失と区間温度の逐次計算
+ *
+ * 管長あたりの熱抵抗（保温材の伝導 + 外表面境膜）:
+ *   R' = ln(r_ins/r_o)/(2πk_ins) + 1/(2πr_ins·h_o)
+ *
+ * 区間内で比熱一定とした流体温度の指数減衰（エネルギー収支の解析解）:
+ *   T_out = T_amb + (T_in − T_amb)·exp(−L/(ṁ·c_p·R'))
+ *   Q = ṁ·c_p·(T_in − T_out)
+ *
+ * 物性は区間の平均温度で再取得し、出口温度と交互に更新して収束させる。
+ */
+
+import { HeatLossModel, FluidProperties, SystemThermalInput, SegmentThermalResult } from '../types';
+
+const MAX_ITERATIONS = 20;
+const TEMPERATURE_TOLERANCE_C = 1e-6;
+
+/**
+ * 管長あたりの熱抵抗 R' (m·K/W) を計算する
+ *
+ * @param od_mm 管外径 (mm)
+ * @param model 熱損失モデル
+ */
+export function calcPipeThermalResistance(od_mm: number, model: HeatLossModel): number {
+  if (od_mm <= 0) throw new Error('Outer diameter must be positive');
+  if (model.insulationThickness_mm < 0) throw new Error('Insulation thickness must be non-negative');
+  if (model.outerFilmCoefficient_w_m2k <= 0) throw new Error('Outer film coefficient must be positive');
+
+  const r_o = od_mm / 2000;
+  const r_ins = r_o + model.insulationThickness_mm / 1000;
+  let resistance = 1 / (2 * Math.PI * r_ins * model.outerFilmCoefficient_w_m2k);
+  if (model.insulationThickness_mm > 0) {
+    if (model.insulationConductivity_w_mk <= 0) throw new Error('Insulation conductivity must be positive');
+    resistance += Math.log(r_ins / r_o) / (2 * Math.PI * model.insulationConductivity_w_mk);
+  }
+  return resistance;
+}
+
+/**
+ * 区間出口温度 (°C) を計算する（比熱一定の解析解）
+ *
+ * @param inletTemperature_c 区間入口温度 (°C)
+ * @param ambientTemperature_c 周囲温度 (°C)
+ * @param length_m 区間長 (m)
+ * @param massFlow_kg_s 質量流量 (kg/s)
+ * @param specificHeat 定圧比熱 (J/(kg·K))
+ * @param thermalResistance_mk_w 管長あたりの熱抵抗 R' (m·K/W)
+ */
+export function calcOutletTemperature(
+  inletTemperature_c: number,
+  ambientTemperature_c: number,
+  length_m: number,
+  massFlow_kg_s: number,
+  specificHeat: number,
+  thermalResistance_mk_w: number
+): number {
+  if (massFlow_kg_s <= 0) throw new Error('Mass flow rate must be positive');
+  if (specificHeat <= 0) throw new Error('Specific heat must be positive');
+  const ntu = length_m / (massFlow_kg_s * specificHeat * thermalResistance_mk_w);
+  return ambientTemperature_c + (inletTemperature_c - ambientTemperature_c) * Math.exp(-ntu);
+}
+
+/**
+ * 1 区間の温度変化を計算し、平均温度での流体物性を返す
+ *
+ * @param inletTemperature_c 区間入口温度 (°C)
+ * @param massFlow_kg_s 質量流量 (kg/s)（直列系統で共通）
+ * @param length_m 区間長 (m)
+ * @param od_mm 管外径 (mm)
+ * @param thermal 熱損失モデルと物性再取得関数
+ */
+export function marchSegmentTemperature(
+  inletTemperature_c: number,
+  massFlow_kg_s: number,
+  length_m: number,
+  od_mm: number,
+  thermal: SystemThermalInput
+): { fluid: FluidProperties; thermal: SegmentThermalResult } {
+  const { heatLoss, resolveFluid } = thermal;
+  const resistance = calcPipeThermalResistance(od_mm, heatLoss);
+
+  let fluid = resolveFluid(inletTemperature_c);
+  let outlet = inletTemperature_c;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const cp = specificHeatOf(fluid, heatLoss);
+    const next = calcOutletTemperature(
+      inletTemperature_c, heatLoss.ambientTemperature_c, length_m, massFlow_kg_s, cp, resistance
+    );
+    const converged = Math.abs(next - outlet) < TEMPERATURE_TOLERANCE_C;
+    outlet = next;
+    fluid = resolveFluid((inletTemperature_c + outlet) / 2);
+    if (converged) break;
+  }
+
+  return {
+    fluid,
+    thermal: {
+      inletTemperature_c,
+      outletTemperature_c: outlet,
+      meanTemperature_c: (inletTemperature_c + outlet) / 2,
+      heatLoss_w: massFlow_kg_s * specificHeatOf(fluid, heatLoss) * (inletTemperature_c - outlet),
+      thermalResistance_mk_w: resistance,
+    },
+  };
+}
+
+function specificHeatOf(fluid: FluidProperties, model: HeatLossModel): number {
+  const cp = fluid.specificHeat ?? model.specificHeat_j_kgk;
+  if (cp === undefined) {
+    throw new Error('Specific heat is not available for this fluid; specify it in the heat-loss model');
+  }
+  return cp;
+}
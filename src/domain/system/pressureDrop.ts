@@ -4,8 +4,9 @@
  * Step 1: 流体物性（密度、粘度）
  * Step 2: 配管ジオメトリ（内径、流路面積）
  * Step 3: 流速 V = Q/A
- * Step 4: レイノルズ数 Re = ρVD/μ
- * Step 5: 摩擦係数 f（Churchill式）
+ * Step 4: レイノルズ数 Re = ρVD/μ（非ニュートン流体は Metzner-Reed 一般化 Re）
+ * Step 5: 摩擦係数 f（既定は Churchill式、frictionMethod で選択。非ニュートン流体はレオロジー別の式）
+ *         Hazen-Williams 選択時は材質の C 係数による損失を等価な Darcy f に換算する
  * Step 6: 直管圧損 ΔP = f(L/D)(ρV²/2)
  * Step 7: 継手圧損 ΔP = ΣK(ρV²/2)
  * Step 8: 高低差 ΔP = ρgΔz
@@ -13,13 +14,16 @@
  * Step 10: 出力（圧力・水頭変換）
  */
 
-import { SegmentInput, SegmentResult, Reference } from '../types';
+import { SegmentInput, SegmentResult, Reference, FlowRegime, PipeMaterial } from '../types';
 import { calcFlowArea, calcVelocity, calcReynolds, classifyFlow } from '../pipe/pipeGeometry';
-import { churchillFrictionFactor } from '../pipe/frictionFactor';
+import { calcFrictionFactor, FrictionFactorResult } from '../pipe/frictionFactor';
+import { calcHazenWilliamsFrictionFactor } from '../pipe/hazenWilliams';
+import { calcNonNewtonianFlow } from '../pipe/nonNewtonian';
 import { calcStraightPipeLoss, pressureToHead } from '../pipe/straightPipeLoss';
-import { resolveFittings, Darby3KData, EntranceExitData } from '../fittings/fittingLoss';
+import { resolveFittings, Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '../fittings/fittingLoss';
+import { resolveTransition } from '../fittings/sizeChange';
 import { calcElevationLoss } from './headLoss';
-import { generateSegmentWarnings } from './calcWarnings';
+import { generateSegmentWarnings, generateHazenWilliamsWarnings } from './calcWarnings';
 
 /**
  * 区間ごとの圧損を計算する
@@ -27,9 +31,12 @@ import { generateSegmentWarnings } from './calcWarnings';
 export function calcSegmentPressureDrop(
   input: SegmentInput,
   darby3kData: Darby3KData,
-  entranceExitData: EntranceExitData
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
 ): SegmentResult {
   const { pipe, material, fluid, flowRate_m3s, length_m, elevation_m, fittings } = input;
+  const frictionMethod = input.frictionMethod ?? 'churchill';
 
   // Step 2: ジオメトリ
   const area = calcFlowArea(pipe.id_mm);
@@ -37,28 +44,49 @@ export function calcSegmentPressureDrop(
   // Step 3: 流速
   const velocity = calcVelocity(flowRate_m3s, area);
 
-  // Step 4: レイノルズ数
-  const id_m = pipe.id_mm / 1000;
-  const reynolds = calcReynolds(fluid.density, velocity, id_m, fluid.viscosity);
-  const flowRegime = classifyFlow(reynolds);
-
-  // Step 5: 摩擦係数（Churchill式）
-  const frictionResult = churchillFrictionFactor(reynolds, material.roughness_mm, pipe.id_mm);
+  // Step 4–5: レイノルズ数と摩擦係数
+  // 非ニュートン流体は一般化 Re・モデル別の臨界 Re と摩擦係数式を用いる（frictionMethod は無視）
+  let reynolds: number;
+  let flowRegime: FlowRegime;
+  let frictionResult: FrictionFactorResult;
+  if (fluid.rheology) {
+    const flow = calcNonNewtonianFlow(fluid.rheology, fluid.density, velocity, pipe.id_mm);
+    reynolds = flow.reynolds;
+    flowRegime = flow.flowRegime;
+    frictionResult = flow.friction;
+  } else {
+    const id_m = pipe.id_mm / 1000;
+    reynolds = calcReynolds(fluid.density, velocity, id_m, fluid.viscosity);
+    flowRegime = classifyFlow(reynolds);
+    // Hazen-Williams は乱流域の経験式のため、層流域では他の手法と同様に Hagen-Poiseuille を用いる
+    frictionResult = frictionMethod === 'hazen-williams' && flowRegime !== 'laminar'
+      ? calcHazenWilliamsFrictionFactor(requireHazenWilliamsC(material), velocity, pipe.id_mm)
+      : calcFrictionFactor(frictionMethod, reynolds, material.roughness_mm, pipe.id_mm);
+  }
   const f = frictionResult.f;
 
   // Step 6: 直管圧損
   const dp_friction = calcStraightPipeLoss(f, length_m, pipe.id_mm, fluid.density, velocity);
 
-  // Step 7: 継手圧損（Darby 3-K法）
-  const fittingDetails = resolveFittings(
+  // Step 7: 継手圧損（Darby 3-K法 または L/D法）+ 入口側の口径変化
+  // 3-K 法の K₁/Re 項には Step 4 の Re（非ニュートン流体では一般化 Re）を用いる
+  const resolvedFittings = resolveFittings(
     fittings,
     darby3kData,
     entranceExitData,
     reynolds,
     pipe.id_mm,
     fluid.density,
-    velocity
+    velocity,
+    input.fittingMethod ?? '3k',
+    craneData,
+    hooperData,
+    input.compareFittingMethods
   );
+  const transition = input.inletTransition
+    ? resolveTransition(input.inletTransition, pipe.id_mm, velocity, fluid.density)
+    : null;
+  const fittingDetails = transition ? [transition, ...resolvedFittings] : resolvedFittings;
   const dp_fittings = fittingDetails.reduce((sum, fd) => sum + fd.dp_pa, 0);
 
   // Step 8: 高低差
@@ -85,10 +113,18 @@ export function calcSegmentPressureDrop(
     frictionFactor: f,
     length_m,
   });
+  if (frictionResult.method === 'hazen-williams') {
+    warnings.push(...generateHazenWilliamsWarnings({
+      temperature_c: fluid.temperature,
+      kinematicViscosity_m2s: fluid.viscosity / fluid.density,
+    }));
+  }
+  warnings.push(...fittingDetails.flatMap(fd => fd.flowElement?.warnings ?? []));
 
   // 出典集約
   const references: Reference[] = [
     frictionResult.reference,
+    ...(frictionResult.method === 'hazen-williams' && material.hazenWilliamsReference ? [material.hazenWilliamsReference] : []),
     fluid.reference,
     material.reference,
     ...fittingDetails.map(fd => fd.reference),
@@ -116,3 +152,13 @@ export function calcSegmentPressureDrop(
     warnings,
   };
 }
+
+/**
+ * Hazen-Williams 式に用いる材質の C 係数を取り出す
+ */
+function requireHazenWilliamsC(material: PipeMaterial): number {
+  if (material.hazenWilliamsC === undefined) {
+    throw new Error(`Hazen-Williams C-factor is not defined for material: ${material.id}`);
+  }
+  return material.hazenWilliamsC;
+}
@@ -0,0 +1,151 @@
+/**
+ * ポンプ相似則 — 回転数変更・インペラ外径カットによる性能曲線の換算
+ *
+ * 回転数:     Q₂ = Q₁ (n₂/n₁),  H₂ = H₁ (n₂/n₁)²,  NPSHr₂ = NPSHr₁ (n₂/n₁)²,  η₂ = η₁
+ * 外径カット: Q₂ = Q₁ (D₂/D₁),  H₂ = H₁ (D₂/D₁)²,  η₂ = η₁（一定回転数、Karassik の外径カット則）
+ *
+ * 外径カットでは NPSHr は小さくならないものとして、対応点の NPSHr を据え置く。
+ * 外径カット則は概ね 75% までの外径比を対象とする近似である。
+ *
+ * 外部ライブラリ依存なし（domain/ レイヤールール遵守）
+ */
+
+import { linearInterpolate, TablePoint } from '../fluid/interpolate';
+import { PumpCurvePoint } from './pumpSelection';
+import { PumpCurveCoefficients } from './pumpCurveFit';
+
+/** 外径カット則の適用下限とする外径比 */
+export const MIN_TRIM_RATIO = 0.75;
+
+/** 必要回転数の探索上限（定格回転数に対する比） */
+const MAX_SPEED_RATIO = 1.5;
+
+/** 二分法の反復回数 */
+const BISECTION_ITERATIONS = 60;
+
+/**
+ * 回転数比で性能曲線を換算する
+ *
+ * @param curve - 定格回転数の性能曲線
+ * @param speedRatio - 回転数比 n₂/n₁
+ */
+export function scalePumpCurveBySpeed(curve: readonly PumpCurvePoint[], speedRatio: number): PumpCurvePoint[] {
+  if (speedRatio <= 0) throw new Error('Speed ratio must be positive');
+  const r2 = speedRatio * speedRatio;
+  return curve.map(p => ({
+    flow_m3h: p.flow_m3h * speedRatio,
+    head_m: p.head_m * r2,
+    efficiency_pct: p.efficiency_pct,
+    npshr_m: p.npshr_m * r2,
+  }));
+}
+
+/**
+ * 回転数比で多項式近似係数を換算する
+ *
+ * H₂(Q) = r² H₁(Q/r) より揚程・NPSHr の k 次係数は r^(2−k) 倍、
+ * η₂(Q) = η₁(Q/r) より効率の k 次係数は r^(−k) 倍となる。
+ *
+ * @param coefficients - 定格回転数の近似係数
+ * @param speedRatio - 回転数比 n₂/n₁
+ */
+export function scalePumpCurveCoefficientsBySpeed(coefficients: PumpCurveCoefficients, speedRatio: number): PumpCurveCoefficients {
+  if (speedRatio <= 0) throw new Error('Speed ratio must be positive');
+  const scale = (c: readonly number[], power: number) => c.map((a, k) => a * Math.pow(speedRatio, power - k));
+  return {
+    head: scale(coefficients.head, 2),
+    efficiency: scale(coefficients.efficiency, 0),
+    npshr: scale(coefficients.npshr, 2),
+    minFlow_m3h: coefficients.minFlow_m3h * speedRatio,
+    maxFlow_m3h: coefficients.maxFlow_m3h * speedRatio,
+  };
+}
+
+/**
+ * 外径比で性能曲線を換算する（一定回転数）
+ *
+ * @param curve - 定格外径の性能曲線
+ * @param diameterRatio - 外径比 D₂/D₁ (0, 1]
+ */
+export function scalePumpCurveByDiameter(curve: readonly PumpCurvePoint[], diameterRatio: number): PumpCurvePoint[] {
+  if (diameterRatio <= 0 || diameterRatio > 1) throw new Error('Diameter ratio must be in (0, 1]');
+  const r2 = diameterRatio * diameterRatio;
+  return curve.map(p => ({
+    flow_m3h: p.flow_m3h * diameterRatio,
+    head_m: p.head_m * r2,
+    efficiency_pct: p.efficiency_pct,
+    npshr_m: p.npshr_m,
+  }));
+}
+
+/**
+ * 換算後の曲線が点 (Q, H) を通る相似比 r を求める
+ *
+ * r² H₁(Q/r) = H を二分法で解く。H₁ は流量に対して単調減少を前提とし、
+ * Q/r が元の曲線の流量範囲に収まる r のみを探索する。
+ * 範囲 [r_min, maxRatio] で解がなければ null を返す。
+ */
+function findAffinityRatio(curve: readonly PumpCurvePoint[], flow_m3h: number, head_m: number, maxRatio: number): number | null {
+  if (curve.length < 2) return null;
+  if (flow_m3h <= 0) throw new Error('Design flow must be positive');
+  if (head_m <= 0) throw new Error('Design head must be positive');
+
+  const headTable: TablePoint[] = curve.map(p => ({ x: p.flow_m3h, y: p.head_m }));
+  const maxCurveFlow = curve[curve.length - 1].flow_m3h;
+  const residual = (r: number) => r * r * linearInterpolate(Math.min(flow_m3h / r, maxCurveFlow), headTable) - head_m;
+
+  let lo = flow_m3h / maxCurveFlow;
+  let hi = maxRatio;
+  if (lo >= hi) return null;
+  if (residual(lo) > 0 || residual(hi) < 0) return null;
+
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (residual(mid) < 0) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * 設計点 (Q, H) を満たす回転数を求める（インバータ運転）
+ *
+ * 設計点は系統の抵抗曲線上の点とする。実揚程がある系統でも
+ * 換算曲線を設計点に直接通すため、相似放物線による近似誤差を生じない。
+ *
+ * @param curve - 定格回転数の性能曲線
+ * @param ratedSpeed_rpm - 定格回転数 [rpm]
+ * @param designFlow_m3h - 設計流量 [m³/h]
+ * @param designHead_m - 設計流量での系統揚程 [m]
+ * @returns 必要回転数 [rpm]（定格の 1.5 倍以内で解がなければ null）
+ */
+export function calcRequiredSpeed(
+  curve: readonly PumpCurvePoint[],
+  ratedSpeed_rpm: number,
+  designFlow_m3h: number,
+  designHead_m: number
+): number | null {
+  if (ratedSpeed_rpm <= 0) throw new Error('Rated speed must be positive');
+  const ratio = findAffinityRatio(curve, designFlow_m3h, designHead_m, MAX_SPEED_RATIO);
+  return ratio !== null ? ratio * ratedSpeed_rpm : null;
+}
+
+/**
+ * 設計点 (Q, H) を満たすインペラ外径を求める（外径カット）
+ *
+ * @param curve - 定格外径の性能曲線
+ * @param ratedDiameter_mm - 定格インペラ外径 [mm]
+ * @param designFlow_m3h - 設計流量 [m³/h]
+ * @param designHead_m - 設計流量での系統揚程 [m]
+ * @returns カット後の外径 [mm]（定格外径で設計点に届かなければ null）
+ */
+export function calcTrimDiameter(
+  curve: readonly PumpCurvePoint[],
+  ratedDiameter_mm: number,
+  designFlow_m3h: number,
+  designHead_m: number
+): number | null {
+  if (ratedDiameter_mm <= 0) throw new Error('Rated impeller diameter must be positive');
+  const ratio = findAffinityRatio(curve, designFlow_m3h, designHead_m, 1);
+  return ratio !== null ? ratio * ratedDiameter_mm : null;
+}
@@ -0,0 +1,305 @@
+/**
+ * ポンプ性能曲線の多項式近似 — 最小二乗法によるフィッティングと運転点の求根
+ *
+ * 揚程・効率・NPSHr をそれぞれ流量の多項式 y = a₀ + a₁Q + … + aₙQⁿ で近似する。
+ * 係数は昇べき順で、ポンプカーブデータに保存できる。
+ *
+ * 運転点は H_pump(Q) − H_system(Q) = 0 を走査と二分法で解く。
+ * カタログ最大流量の EXTRAPOLATION_LIMIT 倍までは外挿を許し、その場合は警告する。
+ * BEP 流量の SHUTOFF_REGION_BEP_RATIO 倍未満は締切運転域として警告する。
+ *
+ * 外部ライブラリ依存なし（domain/ レイヤールール遵守）
+ */
+
+import { CalcWarning } from '../types';
+import { linearInterpolate, TablePoint } from '../fluid/interpolate';
+import { PumpCurvePoint, OperatingPoint, ResistanceCurvePoint } from './pumpSelection';
+import { generatePumpCurveWarnings, generatePumpExtrapolationLimitWarnings } from './calcWarnings';
+
+/** 外挿を許すカタログ最大流量に対する比 */
+export const EXTRAPOLATION_LIMIT = 1.2;
+
+/** 締切運転域とみなす BEP 流量に対する比（最小連続流量の目安） */
+export const SHUTOFF_REGION_BEP_RATIO = 0.3;
+
+/** 運転点探索の走査分割数 */
+const SCAN_STEPS = 200;
+
+/** 二分法の反復回数 */
+const BISECTION_ITERATIONS = 60;
+
+// ── 型 ──
+
+export interface FitStatistics {
+  /** 決定係数 R² */
+  readonly rSquared: number;
+  /** 残差の二乗平均平方根（目的変数の単位） */
+  readonly rmse: number;
+}
+
+export interface PolynomialFit extends FitStatistics {
+  /** 昇べき順の係数 [a₀, a₁, …, aₙ] */
+  readonly coefficients: readonly number[];
+}
+
+/** ポンプカーブデータに保存する近似係数（流量 m³/h 基準、昇べき順） */
+export interface PumpCurveCoefficients {
+  readonly head: readonly number[];
+  readonly efficiency: readonly number[];
+  readonly npshr: readonly number[];
+  /** 近似に用いたカタログ点の流量範囲 */
+  readonly minFlow_m3h: number;
+  readonly maxFlow_m3h: number;
+}
+
+export interface PumpCurveFit {
+  readonly coefficients: PumpCurveCoefficients;
+  readonly head: FitStatistics;
+  readonly efficiency: FitStatistics;
+  readonly npshr: FitStatistics;
+}
+
+export interface FittedOperatingPoint extends OperatingPoint {
+  /** カタログ最大流量を超えて外挿した運転点か */
+  readonly extrapolated: boolean;
+}
+
+export interface FittedOperatingPointSearch {
+  /** 運転点（探索範囲に交点がなければ null） */
+  readonly operatingPoint: FittedOperatingPoint | null;
+  /** 運転点の外挿・締切運転域の警告、または交点が外挿の上限を超える場合の警告 */
+  readonly warnings: readonly CalcWarning[];
+}
+
+// ── 多項式 ──
+
+/**
+ * 多項式の値（Horner 法）
+ *
+ * @param coefficients - 昇べき順の係数
+ */
+export function evaluatePolynomial(coefficients: readonly number[], x: number): number {
+  let y = 0;
+  for (let k = coefficients.length - 1; k >= 0; k--) {
+    y = y * x + coefficients[k];
+  }
+  return y;
+}
+
+/**
+ * 最小二乗法で多項式を当てはめる
+ *
+ * 条件数を抑えるため x を最大絶対値で正規化して正規方程式を解き、係数を元の尺度に戻す。
+ *
+ * @param points - 標本点
+ * @param degree - 次数
+ */
+export function fitPolynomial(points: readonly TablePoint[], degree: number): PolynomialFit {
+  if (!Number.isInteger(degree) || degree < 1) throw new Error('Polynomial degree must be a positive integer');
+  if (points.length < degree + 1) throw new Error(`At least ${degree + 1} points are required for degree ${degree}`);
+
+  const scale = Math.max(...points.map(p => Math.abs(p.x))) || 1;
+  const n = degree + 1;
+
+  // 正規方程式 (XᵀX) b = Xᵀy
+  const matrix: number[][] = Array.from({ length: n }, () => new Array<number>(n + 1).fill(0));
+  for (const p of points) {
+    const u = p.x / scale;
+    const powers = Array.from({ length: n }, (_, k) => Math.pow(u, k));
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) matrix[i][j] += powers[i] * powers[j];
+      matrix[i][n] += powers[i] * p.y;
+    }
+  }
+
+  const scaled = solveLinearSystem(matrix);
+  const coefficients = scaled.map((b, k) => b / Math.pow(scale, k));
+  return { coefficients, ...calcFitStatistics(coefficients, points) };
+}
+
+/**
+ * 多項式の標本点に対する当てはまり（R²・RMSE）
+ */
+export function calcFitStatistics(coefficients: readonly number[], points: readonly TablePoint[]): FitStatistics {
+  const mean = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let ssRes = 0;
+  let ssTot = 0;
+  for (const p of points) {
+    ssRes += Math.pow(p.y - evaluatePolynomial(coefficients, p.x), 2);
+    ssTot += Math.pow(p.y - mean, 2);
+  }
+  return {
+    rSquared: ssTot > 0 ? 1 - ssRes / ssTot : 1,
+    rmse: Math.sqrt(ssRes / points.length),
+  };
+}
+
+/**
+ * 拡大係数行列の連立一次方程式を部分ピボット付きガウス消去で解く
+ */
+function solveLinearSystem(augmented: number[][]): number[] {
+  const n = augmented.length;
+  const a = augmented.map(row => [...row]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) throw new Error('Polynomial fit is singular (too few distinct flow points)');
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+// ── ポンプ性能曲線 ──
+
+/**
+ * カタログ性能曲線の揚程・効率・NPSHr を多項式で近似する
+ *
+ * @param curve - カタログ性能曲線（流量昇順）
+ * @param degree - 次数
+ */
+export function fitPumpCurve(curve: readonly PumpCurvePoint[], degree: number = 3): PumpCurveFit {
+  const fit = (key: keyof PumpCurvePoint) =>
+    fitPolynomial(curve.map(p => ({ x: p.flow_m3h, y: p[key] })), degree).coefficients;
+  return evaluatePumpCurveCoefficients({
+    head: fit('head_m'),
+    efficiency: fit('efficiency_pct'),
+    npshr: fit('npshr_m'),
+    minFlow_m3h: curve[0].flow_m3h,
+    maxFlow_m3h: curve[curve.length - 1].flow_m3h,
+  }, curve);
+}
+
+/**
+ * 保存済みの近似係数のカタログ点に対する当てはまりを評価する
+ */
+export function evaluatePumpCurveCoefficients(coefficients: PumpCurveCoefficients, curve: readonly PumpCurvePoint[]): PumpCurveFit {
+  const stats = (c: readonly number[], key: keyof PumpCurvePoint) =>
+    calcFitStatistics(c, curve.map(p => ({ x: p.flow_m3h, y: p[key] })));
+  return {
+    coefficients,
+    head: stats(coefficients.head, 'head_m'),
+    efficiency: stats(coefficients.efficiency, 'efficiency_pct'),
+    npshr: stats(coefficients.npshr, 'npshr_m'),
+  };
+}
+
+/**
+ * 近似曲線上の運転状態（効率・NPSHr は負にならないよう 0 で打ち切る）
+ */
+export function evaluatePumpCurveFit(coefficients: PumpCurveCoefficients, flow_m3h: number): OperatingPoint {
+  return {
+    flow_m3h,
+    head_m: evaluatePolynomial(coefficients.head, flow_m3h),
+    efficiency_pct: Math.max(evaluatePolynomial(coefficients.efficiency, flow_m3h), 0),
+    npshr_m: Math.max(evaluatePolynomial(coefficients.npshr, flow_m3h), 0),
+  };
+}
+
+/**
+ * 近似曲線をカタログ流量範囲で等間隔に標本化する（描画・合成曲線用）
+ */
+export function sampleFittedPumpCurve(coefficients: PumpCurveCoefficients, numPoints: number = 40): PumpCurvePoint[] {
+  const { minFlow_m3h, maxFlow_m3h } = coefficients;
+  return Array.from({ length: numPoints + 1 }, (_, i) =>
+    evaluatePumpCurveFit(coefficients, minFlow_m3h + ((maxFlow_m3h - minFlow_m3h) * i) / numPoints)
+  );
+}
+
+/**
+ * 近似効率曲線が最大となる流量（BEP 流量、カタログ範囲内）
+ */
+export function calcBestEfficiencyFlow(coefficients: PumpCurveCoefficients): number {
+  let best = coefficients.minFlow_m3h;
+  let bestEff = -Infinity;
+  for (const p of sampleFittedPumpCurve(coefficients, SCAN_STEPS)) {
+    if (p.efficiency_pct > bestEff) {
+      bestEff = p.efficiency_pct;
+      best = p.flow_m3h;
+    }
+  }
+  return best;
+}
+
+/**
+ * 近似曲線と抵抗曲線の交点（運転点）を求根で求める
+ *
+ * max(カタログ最小流量, 抵抗曲線の最小流量) から
+ * min(抵抗曲線の最大流量, カタログ最大流量 × EXTRAPOLATION_LIMIT) までを走査し、
+ * 最初に符号が変わる区間を二分法で詰める。
+ * 外挿の上限でもポンプ揚程が系統揚程を上回る場合は、交点が上限の先にあるものとして警告する。
+ *
+ * @param coefficients - 近似係数
+ * @param resistanceCurve - 配管抵抗曲線（区間内は線形補間）
+ * @returns 運転点（交点がなければ null）と警告
+ */
+export function findFittedOperatingPoint(
+  coefficients: PumpCurveCoefficients,
+  resistanceCurve: readonly ResistanceCurvePoint[]
+): FittedOperatingPointSearch {
+  const notFound: FittedOperatingPointSearch = { operatingPoint: null, warnings: [] };
+  if (resistanceCurve.length < 2) return notFound;
+
+  const resistanceTable: TablePoint[] = resistanceCurve.map(p => ({ x: p.flow_m3h, y: p.head_m }));
+  const lo = Math.max(coefficients.minFlow_m3h, resistanceTable[0].x);
+  const limitFlow_m3h = coefficients.maxFlow_m3h * EXTRAPOLATION_LIMIT;
+  const hi = Math.min(resistanceTable[resistanceTable.length - 1].x, limitFlow_m3h);
+  if (hi <= lo) return notFound;
+
+  const residual = (q: number) => evaluatePolynomial(coefficients.head, q) - linearInterpolate(q, resistanceTable);
+
+  let q1 = lo;
+  let r1 = residual(q1);
+  for (let i = 1; i <= SCAN_STEPS; i++) {
+    const q2 = lo + ((hi - lo) * i) / SCAN_STEPS;
+    const r2 = residual(q2);
+    if (r1 * r2 <= 0) {
+      let a = q1;
+      let b = q2;
+      let ra = r1;
+      for (let k = 0; k < BISECTION_ITERATIONS && ra !== 0; k++) {
+        const mid = (a + b) / 2;
+        const rm = residual(mid);
+        if (ra * rm <= 0) {
+          b = mid;
+        } else {
+          a = mid;
+          ra = rm;
+        }
+      }
+      const flow_m3h = ra === 0 ? a : (a + b) / 2;
+      const state = evaluatePumpCurveFit(coefficients, flow_m3h);
+      return {
+        operatingPoint: { ...state, extrapolated: flow_m3h > coefficients.maxFlow_m3h },
+        warnings: generatePumpCurveWarnings({
+          flow_m3h,
+          maxCatalogFlow_m3h: coefficients.maxFlow_m3h,
+          bepFlow_m3h: calcBestEfficiencyFlow(coefficients),
+          shutoffRegionRatio: SHUTOFF_REGION_BEP_RATIO,
+        }),
+      };
+    }
+    q1 = q2;
+    r1 = r2;
+  }
+
+  // 外挿の上限で打ち切った走査の終端でもポンプ揚程が上回る: 交点は上限より大流量側
+  if (hi === limitFlow_m3h && r1 > 0) {
+    return {
+      operatingPoint: null,
+      warnings: generatePumpExtrapolationLimitWarnings({ maxCatalogFlow_m3h: coefficients.maxFlow_m3h, limitFlow_m3h }),
+    };
+  }
+  return notFound;
+}
@@ -0,0 +1,106 @@
+/**
+ * 電動機選定 — 標準定格出力からの選定と性能曲線末端での過負荷判定
+ *
+ *   必要出力  P_req = SF × P_duty   （SF: 余裕係数、運転点の軸動力に対して）
+ *   選定      P_req 以上で最小の標準定格出力 P_motor
+ *   過負荷    P_max = max ρgQH / η（性能曲線上の全点）> P_motor で曲線末端の過負荷
+ *
+ * 非過負荷（non-overloading）選定では、弁全開・抵抗減少で運転点が大流量側へ
+ * 移っても電動機が定格を超えないことを確認する。
+ *
+ * 外部ライブラリ依存なし（domain/ レイヤールール遵守）
+ */
+
+import { CalcWarning, Reference } from '../types';
+import { PumpCurvePoint } from './pumpSelection';
+import { calcPumpPower } from './pumpRequirements';
+import { generateMotorWarnings } from './calcWarnings';
+
+/** 運転点の軸動力に対する既定の余裕係数 */
+export const DEFAULT_MOTOR_SERVICE_FACTOR = 1.15;
+
+// ── 型 ──
+
+/** 標準定格出力と全負荷効率（JSON からロード） */
+export interface MotorRating {
+  readonly rating_kW: number;
+  readonly efficiency_pct: number;
+}
+
+export interface MotorSizingInput {
+  /** 運転点の軸動力 [kW] */
+  readonly dutyPower_kW: number;
+  /** 性能曲線上の最大軸動力 [kW]（省略時は過負荷を判定しない） */
+  readonly maxPower_kW?: number;
+  /** 余裕係数（省略時は DEFAULT_MOTOR_SERVICE_FACTOR） */
+  readonly serviceFactor?: number;
+}
+
+export interface MotorSelection {
+  readonly dutyPower_kW: number;
+  readonly serviceFactor: number;
+  /** 必要出力 SF × P_duty [kW] */
+  readonly requiredPower_kW: number;
+  readonly motor: MotorRating;
+  /** 運転点での負荷率 P_duty / P_motor */
+  readonly loadFactor: number;
+  readonly maxPower_kW: number | null;
+  /** 性能曲線の全域で定格出力以内か（maxPower_kW がなければ null） */
+  readonly nonOverloading: boolean | null;
+  readonly warnings: readonly CalcWarning[];
+  readonly references: Reference[];
+}
+
+const REFERENCE_MOTOR: Reference = {
+  source: 'IEC 60072-1 / IEC 60034-30-1:2014',
+  equation: 'P_motor ≥ SF × P_duty,  IE3 nominal efficiency',
+};
+
+/**
+ * 性能曲線上の最大軸動力 [kW]
+ *
+ * 効率が 0 の点（締切点など）は除く。
+ *
+ * @param curve - 性能曲線
+ * @param density_kg_m3 - 流体密度 [kg/m³]
+ */
+export function calcMaxShaftPower(curve: readonly PumpCurvePoint[], density_kg_m3: number): number {
+  let max = 0;
+  for (const p of curve) {
+    if (p.flow_m3h <= 0 || p.efficiency_pct <= 0) continue;
+    max = Math.max(max, calcPumpPower(density_kg_m3, p.flow_m3h / 3600, p.head_m, p.efficiency_pct / 100));
+  }
+  return max;
+}
+
+/**
+ * 運転点の軸動力に余裕係数を掛け、標準定格出力から電動機を選定する
+ *
+ * @param input - 運転点・最大軸動力・余裕係数
+ * @param ratings - 標準定格出力の一覧
+ * @returns 選定結果（曲線末端で過負荷となる場合は警告を含む）
+ */
+export function selectMotor(input: MotorSizingInput, ratings: readonly MotorRating[]): MotorSelection {
+  const serviceFactor = input.serviceFactor ?? DEFAULT_MOTOR_SERVICE_FACTOR;
+  if (input.dutyPower_kW <= 0) throw new Error('Duty power must be positive');
+  if (serviceFactor < 1) throw new Error('Service factor must be at least 1');
+
+  const requiredPower_kW = input.dutyPower_kW * serviceFactor;
+  const motor = [...ratings]
+    .sort((a, b) => a.rating_kW - b.rating_kW)
+    .find(r => r.rating_kW >= requiredPower_kW);
+  if (!motor) throw new Error('Required motor power exceeds the largest standard rating');
+
+  const maxPower_kW = input.maxPower_kW ?? null;
+  return {
+    dutyPower_kW: input.dutyPower_kW,
+    serviceFactor,
+    requiredPower_kW,
+    motor,
+    loadFactor: input.dutyPower_kW / motor.rating_kW,
+    maxPower_kW,
+    nonOverloading: maxPower_kW !== null ? maxPower_kW <= motor.rating_kW : null,
+    warnings: generateMotorWarnings({ maxPower_kW, rating_kW: motor.rating_kW }),
+    references: [REFERENCE_MOTOR],
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * ポンプ比較選定 — 複数のポンプ性能曲線を同一の抵抗曲線で評価して適合順に並べる
+ *
+ * 各ポンプを定格回転数・単独運転として運転点を求め、
+ * BEP からの乖離・NPSH 余裕比・軸動力を評価する。
+ *
+ * 適合度の区分:
+ *   unsuitable — 運転点がない、または NPSHa < NPSHr（キャビテーション）
+ *   marginal   — 推奨運転範囲（BEP 流量の 70〜120%）外、または NPSH 余裕比が下限未満
+ *   suitable   — 上記以外
+ *
+ * 並び順は区分 → BEP 流量比の 1 からの乖離 → 軸動力の順とする。
+ *
+ * 外部ライブラリ依存なし（domain/ レイヤールール遵守）
+ */
+
+import {
+  PumpCurvePoint, ResistanceCurvePoint, OperatingPoint, NPSHMargin,
+  findOperatingPoint, findBestEfficiencyPoint, calcNPSHMargin, HI_MIN_NPSH_MARGIN_RATIO,
+} from './pumpSelection';
+import { calcPumpPower } from './pumpRequirements';
+
+/** 推奨運転範囲（BEP 流量に対する比） */
+export const PREFERRED_OPERATING_REGION = { min: 0.7, max: 1.2 } as const;
+
+// ── 型 ──
+
+export type PumpSuitability = 'suitable' | 'marginal' | 'unsuitable';
+
+const SUITABILITY_ORDER: Record<PumpSuitability, number> = {
+  suitable: 0,
+  marginal: 1,
+  unsuitable: 2,
+};
+
+export interface PumpCandidate {
+  readonly id: string;
+  /** 定格回転数の性能曲線（流量昇順） */
+  readonly curve: readonly PumpCurvePoint[];
+}
+
+export interface PumpRankingConditions {
+  readonly resistanceCurve: readonly ResistanceCurvePoint[];
+  /** 有効 NPSH [m]（省略時は NPSH を評価しない） */
+  readonly npsha_m?: number;
+  /** 流体密度 [kg/m³]（省略時は軸動力を評価しない） */
+  readonly density_kg_m3?: number;
+  /** NPSH 余裕比の下限 */
+  readonly minMarginRatio?: number;
+}
+
+export interface PumpRankingEntry {
+  readonly id: string;
+  readonly operatingPoint: OperatingPoint | null;
+  /** カタログ点の最高効率流量 [m³/h] */
+  readonly bepFlow_m3h: number;
+  /** 運転点流量 / BEP 流量 */
+  readonly bepRatio: number | null;
+  readonly npshMargin: NPSHMargin | null;
+  readonly shaftPower_kW: number | null;
+  readonly suitability: PumpSuitability;
+}
+
+// ── 評価 ──
+
+function classifySuitability(
+  operatingPoint: OperatingPoint | null,
+  bepRatio: number | null,
+  npshMargin: NPSHMargin | null,
+  minMarginRatio: number
+): PumpSuitability {
+  if (!operatingPoint || (npshMargin && npshMargin.ratio < 1)) return 'unsuitable';
+  const inRegion = bepRatio !== null
+    && bepRatio >= PREFERRED_OPERATING_REGION.min
+    && bepRatio <= PREFERRED_OPERATING_REGION.max;
+  if (!inRegion || (npshMargin && npshMargin.ratio < minMarginRatio)) return 'marginal';
+  return 'suitable';
+}
+
+/**
+ * 1 台のポンプを抵抗曲線に対して評価する
+ */
+export function evaluatePumpCandidate(candidate: PumpCandidate, conditions: PumpRankingConditions): PumpRankingEntry {
+  if (candidate.curve.length < 2) throw new Error(`Pump ${candidate.id} needs at least 2 curve points`);
+  const minMarginRatio = conditions.minMarginRatio ?? HI_MIN_NPSH_MARGIN_RATIO;
+
+  const operatingPoint = findOperatingPoint(candidate.curve, conditions.resistanceCurve);
+  const bepFlow_m3h = findBestEfficiencyPoint(candidate.curve).flow_m3h;
+  const bepRatio = operatingPoint && bepFlow_m3h > 0 ? operatingPoint.flow_m3h / bepFlow_m3h : null;
+  const npshMargin = operatingPoint && conditions.npsha_m !== undefined && operatingPoint.npshr_m > 0
+    ? calcNPSHMargin(conditions.npsha_m, operatingPoint.npshr_m, minMarginRatio)
+    : null;
+  const shaftPower_kW = operatingPoint && conditions.density_kg_m3 !== undefined && operatingPoint.efficiency_pct > 0
+    ? calcPumpPower(conditions.density_kg_m3, operatingPoint.flow_m3h / 3600, operatingPoint.head_m, operatingPoint.efficiency_pct / 100)
+    : null;
+
+  return {
+    id: candidate.id,
+    operatingPoint,
+    bepFlow_m3h,
+    bepRatio,
+    npshMargin,
+    shaftPower_kW,
+    suitability: classifySuitability(operatingPoint, bepRatio, npshMargin, minMarginRatio),
+  };
+}
+
+/**
+ * 複数のポンプを評価して適合順に並べる
+ *
+ * @param candidates - 比較するポンプ
+ * @param conditions - 抵抗曲線・NPSHa・密度
+ * @returns 適合順の評価結果
+ */
+export function rankPumps(candidates: readonly PumpCandidate[], conditions: PumpRankingConditions): PumpRankingEntry[] {
+  const deviation = (e: PumpRankingEntry) => (e.bepRatio !== null ? Math.abs(e.bepRatio - 1) : Infinity);
+  return candidates
+    .map(c => evaluatePumpCandidate(c, conditions))
+    .sort((a, b) =>
+      SUITABILITY_ORDER[a.suitability] - SUITABILITY_ORDER[b.suitability]
+      || deviation(a) - deviation(b)
+      || (a.shaftPower_kW ?? Infinity) - (b.shaftPower_kW ?? Infinity)
+    );
+}
@@ -141,6 +141,19 @@ export function calcBEPRecommendation(designFlow_m3h: number): BEPRecommendation
   };
 }
 
+/**
+ * ポンプ軸動力 P = ρgQH / (η × 1000) [kW]
+ *
+ * @param density 流体密度 (kg/m³)
+ * @param flow_m3s 流量 (m³/s)
+ * @param head_m 揚程 (m)
+ * @param efficiency ポンプ効率 (−)
+ */
+export function calcPumpPower(density: number, flow_m3s: number, head_m: number, efficiency: number): number {
+  if (efficiency <= 0 || efficiency > 1) throw new Error('Pump efficiency must be in (0, 1]');
+  return (density * GRAVITY * flow_m3s * head_m) / (efficiency * 1000);
+}
+
 /**
  * ポンプ推奨特性を総合的に算出する
  */
@@ -161,8 +174,7 @@ export function calcPumpSuggestion(
   // η = 典型効率の中央値を使用
   const effRange = specificSpeed.typicalEfficiency_pct;
   const eta = (effRange.min + effRange.max) / 2 / 100;
-  const flow_m3s = designFlow_m3h / 3600;
-  const estimatedPower_kW = (density * GRAVITY * flow_m3s * totalHead_m) / (eta * 1000);
+  const estimatedPower_kW = calcPumpPower(density, designFlow_m3h / 3600, totalHead_m, eta);
 
   return {
     specificSpeed,
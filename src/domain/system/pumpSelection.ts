@@ -1,11 +1,18 @@
 /**
  * ポンプ選定補助 — TDH計算・抵抗曲線・運転点算出・NPSHa計算
  *
+ * 複数台運転は合成曲線で扱う。並列は同一揚程で流量を加算し、
+ * 直列は同一流量で揚程を加算する（吐出側逆止弁により締切揚程を超える並列ポンプは流量 0）。
+ *
+ * NPSHa の入力は吸込み側区間の計算結果（calcSuctionLine）と標高からの大気圧
+ * （calcAtmosphericPressure）から求められる。NPSH 余裕比は HI 9.6.1 に従い評価する。
+ *
  * 外部ライブラリ依存なし（domain/ レイヤールール遵守）
  */
 
-import { GRAVITY } from '../types';
+import { GRAVITY, SegmentResult, CalcWarning } from '../types';
 import { linearInterpolate, TablePoint } from '../fluid/interpolate';
+import { generateNPSHWarnings } from './calcWarnings';
 
 // ── ポンプカーブ型 ──
 
@@ -32,6 +39,25 @@ export interface OperatingPoint {
   readonly npshr_m: number;
 }
 
+// ── 複数台運転 ──
+
+export type PumpArrangement = 'parallel' | 'series';
+
+export interface CombinedCurvePoint {
+  readonly flow_m3h: number;
+  readonly head_m: number;
+}
+
+/**
+ * 複数台運転の運転点
+ *
+ * efficiency_pct は合成効率（総水動力 / 総軸動力）、npshr_m は吸込み条件を支配する NPSHr
+ * （並列は各ポンプの最大値、直列は 1 台目）とする。
+ */
+export interface CombinedOperatingPoint extends OperatingPoint {
+  readonly pumps: readonly OperatingPoint[];
+}
+
 // ── NPSHa ──
 
 export interface NPSHaInput {
@@ -58,6 +84,82 @@ export function calcNPSHa(input: NPSHaInput): number {
     - suctionFrictionLoss_m;
 }
 
+// ── 大気圧 ──
+
+/** 海面における標準大気圧 (kPa) */
+export const STANDARD_ATMOSPHERIC_PRESSURE_KPA = 101.325;
+
+/** 標準大気の対流圏上端 (m) */
+const TROPOPAUSE_ALTITUDE_M = 11000;
+
+/**
+ * 標高から大気圧を求める（ISO 2533 標準大気・対流圏）
+ *
+ * p = p₀ (1 − 2.25577×10⁻⁵ h)^5.25588
+ *
+ * @param altitude_m - 海抜標高 [m]
+ * @returns 大気圧 [kPa]
+ */
+export function calcAtmosphericPressure(altitude_m: number): number {
+  if (altitude_m > TROPOPAUSE_ALTITUDE_M) throw new Error('Altitude must be within the troposphere (≤ 11000 m)');
+  return STANDARD_ATMOSPHERIC_PRESSURE_KPA * Math.pow(1 - 2.25577e-5 * altitude_m, 5.25588);
+}
+
+// ── 吸込み配管 ──
+
+export interface SuctionLine {
+  readonly staticHead_m: number;
+  readonly frictionLoss_m: number;
+}
+
+/**
+ * 吸込み側区間の計算結果から NPSHa の吸込み実揚程・摩擦損失を求める
+ *
+ * hs = h_level − Σ Δz（区間の高低差は流れ方向の上昇を正とするため符号を反転）
+ * hf = Σ (h_friction + h_fittings)
+ *
+ * @param suctionSegments - 吸込み側区間の計算結果（液面側から順）
+ * @param liquidLevel_m - 吸込み配管入口に対する液面の高さ [m]
+ */
+export function calcSuctionLine(suctionSegments: readonly SegmentResult[], liquidLevel_m: number = 0): SuctionLine {
+  if (suctionSegments.length === 0) throw new Error('At least one suction segment is required');
+  let elevation_m = 0;
+  let frictionLoss_m = 0;
+  for (const seg of suctionSegments) {
+    elevation_m += seg.head_elevation_m;
+    frictionLoss_m += seg.head_friction_m + seg.head_fittings_m;
+  }
+  return { staticHead_m: liquidLevel_m - elevation_m, frictionLoss_m };
+}
+
+// ── NPSH 余裕 ──
+
+/** HI 9.6.1 の NPSH 余裕比の最小推奨値（一般用途） */
+export const HI_MIN_NPSH_MARGIN_RATIO = 1.1;
+
+export interface NPSHMargin {
+  readonly margin_m: number;
+  /** NPSHa / NPSHr */
+  readonly ratio: number;
+  readonly warnings: readonly CalcWarning[];
+}
+
+/**
+ * NPSH 余裕 (NPSHa − NPSHr) と余裕比 (NPSHa/NPSHr) を評価する（HI 9.6.1）
+ *
+ * @param npsha_m - 有効 NPSH [m]
+ * @param npshr_m - 必要 NPSH [m]（運転点）
+ * @param minMarginRatio - 必要な余裕比の下限
+ */
+export function calcNPSHMargin(npsha_m: number, npshr_m: number, minMarginRatio: number = HI_MIN_NPSH_MARGIN_RATIO): NPSHMargin {
+  if (npshr_m <= 0) throw new Error('NPSHr must be positive');
+  return {
+    margin_m: npsha_m - npshr_m,
+    ratio: npsha_m / npshr_m,
+    warnings: generateNPSHWarnings({ npsha_m, npshr_m, minMarginRatio }),
+  };
+}
+
 /**
  * 配管抵抗曲線を生成する
  *
@@ -96,16 +198,15 @@ export function calcResistanceCurve(
 }
 
 /**
- * ポンプカーブと抵抗曲線の交点（運転点）を求める
+ * 揚程曲線と抵抗曲線の交点を線形補間で求める
  *
- * 線形補間で交差点を探索する。
- * 交点が見つからない場合は null を返す。
+ * @returns 交点の流量・揚程（交点がなければ null）
  */
-export function findOperatingPoint(
-  pumpCurve: readonly PumpCurvePoint[],
+function findCurveIntersection(
+  curve: readonly CombinedCurvePoint[],
   resistanceCurve: readonly ResistanceCurvePoint[]
-): OperatingPoint | null {
-  if (pumpCurve.length < 2 || resistanceCurve.length < 2) return null;
+): CombinedCurvePoint | null {
+  if (curve.length < 2 || resistanceCurve.length < 2) return null;
 
   // 抵抗曲線を補間テーブルに変換
   const resistanceTable: TablePoint[] = resistanceCurve.map(p => ({
@@ -114,11 +215,11 @@ export function findOperatingPoint(
   }));
 
   // ポンプ曲線上の各区間で交差を探す
-  for (let i = 0; i < pumpCurve.length - 1; i++) {
-    const q1 = pumpCurve[i].flow_m3h;
-    const q2 = pumpCurve[i + 1].flow_m3h;
-    const hp1 = pumpCurve[i].head_m;
-    const hp2 = pumpCurve[i + 1].head_m;
+  for (let i = 0; i < curve.length - 1; i++) {
+    const q1 = curve[i].flow_m3h;
+    const q2 = curve[i + 1].flow_m3h;
+    const hp1 = curve[i].head_m;
+    const hp2 = curve[i + 1].head_m;
 
     // 抵抗曲線の対応する揚程を取得
     let hr1: number;
@@ -137,32 +238,167 @@ export function findOperatingPoint(
     // 符号が変わる = 交差
     if (diff1 * diff2 <= 0) {
       // 線形補間で交差点の流量を求める
-      const t = Math.abs(diff1) / (Math.abs(diff1) + Math.abs(diff2));
-      const opFlow = q1 + t * (q2 - q1);
-      const opHead = hp1 + t * (hp2 - hp1);
-
-      // 効率とNPSHrを補間
-      const effTable: TablePoint[] = pumpCurve.map(p => ({ x: p.flow_m3h, y: p.efficiency_pct }));
-      const npshrTable: TablePoint[] = pumpCurve.map(p => ({ x: p.flow_m3h, y: p.npshr_m }));
-
-      let efficiency: number;
-      let npshr: number;
-      try {
-        efficiency = linearInterpolate(opFlow, effTable);
-        npshr = linearInterpolate(opFlow, npshrTable);
-      } catch {
-        efficiency = pumpCurve[i].efficiency_pct;
-        npshr = pumpCurve[i].npshr_m;
-      }
-
+      const t = diff1 === diff2 ? 0 : Math.abs(diff1) / (Math.abs(diff1) + Math.abs(diff2));
       return {
-        flow_m3h: opFlow,
-        head_m: opHead,
-        efficiency_pct: efficiency,
-        npshr_m: npshr,
+        flow_m3h: q1 + t * (q2 - q1),
+        head_m: hp1 + t * (hp2 - hp1),
       };
     }
   }
 
   return null;
 }
+
+/**
+ * 性能曲線上の流量における運転状態（揚程・効率・NPSHr を補間）
+ */
+function pumpStateAtFlow(pumpCurve: readonly PumpCurvePoint[], flow_m3h: number): OperatingPoint {
+  const at = (key: keyof PumpCurvePoint) =>
+    linearInterpolate(flow_m3h, pumpCurve.map(p => ({ x: p.flow_m3h, y: p[key] })));
+  return {
+    flow_m3h,
+    head_m: at('head_m'),
+    efficiency_pct: at('efficiency_pct'),
+    npshr_m: at('npshr_m'),
+  };
+}
+
+/**
+ * カタログ点のうち効率が最大となる点（BEP）
+ */
+export function findBestEfficiencyPoint(curve: readonly PumpCurvePoint[]): PumpCurvePoint {
+  if (curve.length === 0) throw new Error('Pump curve must not be empty');
+  let best = curve[0];
+  for (const p of curve) {
+    if (p.efficiency_pct > best.efficiency_pct) best = p;
+  }
+  return best;
+}
+
+/**
+ * ポンプカーブと抵抗曲線の交点（運転点）を求める
+ *
+ * 線形補間で交差点を探索する。
+ * 交点が見つからない場合は null を返す。
+ */
+export function findOperatingPoint(
+  pumpCurve: readonly PumpCurvePoint[],
+  resistanceCurve: readonly ResistanceCurvePoint[]
+): OperatingPoint | null {
+  const intersection = findCurveIntersection(pumpCurve, resistanceCurve);
+  if (!intersection) return null;
+
+  // 効率とNPSHrを補間
+  const { efficiency_pct, npshr_m } = pumpStateAtFlow(pumpCurve, intersection.flow_m3h);
+  return {
+    flow_m3h: intersection.flow_m3h,
+    head_m: intersection.head_m,
+    efficiency_pct,
+    npshr_m,
+  };
+}
+
+/**
+ * 揚程 H を与える流量（性能曲線の逆引き、大流量側の解を採用）
+ *
+ * 締切揚程を超える場合は 0（逆止弁により吐出しない）、
+ * 曲線の最大流量点の揚程を下回る場合は null を返す。
+ */
+function flowAtHead(pumpCurve: readonly PumpCurvePoint[], head_m: number): number | null {
+  const maxHead = Math.max(...pumpCurve.map(p => p.head_m));
+  if (head_m > maxHead) return 0;
+  for (let i = pumpCurve.length - 1; i > 0; i--) {
+    const hi = pumpCurve[i - 1];
+    const lo = pumpCurve[i];
+    if ((hi.head_m - head_m) * (lo.head_m - head_m) <= 0) {
+      if (hi.head_m === lo.head_m) return lo.flow_m3h;
+      return hi.flow_m3h + (lo.flow_m3h - hi.flow_m3h) * (hi.head_m - head_m) / (hi.head_m - lo.head_m);
+    }
+  }
+  return null;
+}
+
+/**
+ * 複数台のポンプの合成曲線を生成する
+ *
+ * 並列: Q(H) = Σ Qᵢ(H)（締切揚程から、全ポンプが曲線内に収まる最低揚程まで）
+ * 直列: H(Q) = Σ Hᵢ(Q)（流量 0 から、最小の最大流量まで）
+ *
+ * @param pumpCurves - 各ポンプの性能曲線（同一機種の N 台は同じ曲線を N 回渡す）
+ * @param arrangement - 並列 / 直列
+ * @param numPoints - 曲線の分割数
+ * @returns 流量昇順の合成曲線
+ */
+export function calcCombinedPumpCurve(
+  pumpCurves: readonly (readonly PumpCurvePoint[])[],
+  arrangement: PumpArrangement,
+  numPoints: number = 40
+): CombinedCurvePoint[] {
+  if (pumpCurves.length === 0) throw new Error('At least one pump curve is required');
+  if (pumpCurves.some(c => c.length < 2)) throw new Error('Each pump curve must have at least 2 points');
+
+  const points: CombinedCurvePoint[] = [];
+  if (arrangement === 'parallel') {
+    const maxHead = Math.max(...pumpCurves.map(c => Math.max(...c.map(p => p.head_m))));
+    const minHead = Math.max(...pumpCurves.map(c => c[c.length - 1].head_m));
+    for (let i = 0; i <= numPoints; i++) {
+      const head = maxHead - ((maxHead - minHead) * i) / numPoints;
+      let flow = 0;
+      for (const c of pumpCurves) flow += flowAtHead(c, head) ?? c[c.length - 1].flow_m3h;
+      points.push({ flow_m3h: flow, head_m: head });
+    }
+  } else {
+    const maxFlow = Math.min(...pumpCurves.map(c => c[c.length - 1].flow_m3h));
+    for (let i = 0; i <= numPoints; i++) {
+      const flow = (maxFlow * i) / numPoints;
+      let head = 0;
+      for (const c of pumpCurves) head += pumpStateAtFlow(c, flow).head_m;
+      points.push({ flow_m3h: flow, head_m: head });
+    }
+  }
+  return points;
+}
+
+/**
+ * 複数台運転の運転点と各ポンプの分担を求める
+ *
+ * 合成曲線と抵抗曲線の交点から、並列は共通揚程での各ポンプ流量、
+ * 直列は共通流量での各ポンプ揚程を逆算し、効率・NPSHr を補間する。
+ *
+ * @param pumpCurves - 各ポンプの性能曲線（直列は吸込み側から順）
+ * @param arrangement - 並列 / 直列
+ * @param resistanceCurve - 配管抵抗曲線
+ * @returns 運転点（交点がなければ null）
+ */
+export function findCombinedOperatingPoint(
+  pumpCurves: readonly (readonly PumpCurvePoint[])[],
+  arrangement: PumpArrangement,
+  resistanceCurve: readonly ResistanceCurvePoint[]
+): CombinedOperatingPoint | null {
+  const combined = calcCombinedPumpCurve(pumpCurves, arrangement);
+  const intersection = findCurveIntersection(combined, resistanceCurve);
+  if (!intersection) return null;
+
+  const pumps: OperatingPoint[] = pumpCurves.map(c => {
+    if (arrangement === 'series') return pumpStateAtFlow(c, intersection.flow_m3h);
+    const flow = flowAtHead(c, intersection.head_m) ?? c[c.length - 1].flow_m3h;
+    return { ...pumpStateAtFlow(c, flow), head_m: intersection.head_m };
+  });
+
+  // 合成効率 = Σ QᵢHᵢ / Σ (QᵢHᵢ/ηᵢ)（流量 0 のポンプは動力に含めない）
+  let hydraulic = 0;
+  let shaft = 0;
+  for (const p of pumps) {
+    if (p.flow_m3h <= 0 || p.efficiency_pct <= 0) continue;
+    hydraulic += p.flow_m3h * p.head_m;
+    shaft += (p.flow_m3h * p.head_m) / p.efficiency_pct;
+  }
+
+  return {
+    flow_m3h: intersection.flow_m3h,
+    head_m: intersection.head_m,
+    efficiency_pct: shaft > 0 ? hydraulic / shaft : 0,
+    npshr_m: arrangement === 'parallel' ? Math.max(...pumps.map(p => p.npshr_m)) : pumps[0].npshr_m,
+    pumps,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * ポンプ性能の粘度補正 — ANSI/HI 9.6.7 (Effects of Liquid Viscosity on Rotodynamic Pump Performance)
+ *
+ * 水で試験した性能曲線を、粘性液を扱う場合の性能に換算する。
+ *
+ *   B   = 16.5 · ν^0.5 · H_BEP^0.0625 / (Q_BEP^0.375 · N^0.25)   (ν: cSt, H: m, Q: m³/h, N: rpm)
+ *   C_Q = 2.71^(−0.165 · (log₁₀ B)^3.15)
+ *   C_H = 1 − (1 − C_Q) · (Q_W / Q_BEP)^0.75   （BEP で C_H = C_Q、締切で C_H = 1）
+ *   C_η = B^(−0.0547 · B^0.69)
+ *
+ * Q_vis = C_Q · Q_W、H_vis = C_H · H_W、η_vis = C_η · η_W。
+ * B ≤ 1、または動粘度が清水試験の範囲（WATER_TEST_MAX_VISCOSITY_CST 以下）では補正しない（C = 1）。
+ * カタログ曲線は清水で試験した性能そのものであり、水や水と同程度の粘度の液には補正を重ねない。
+ * B ≥ 40 は補正法の適用範囲外として警告する。
+ * NPSHr は水の値をそのまま用いる（対応する流量は C_Q 倍に移る）。
+ *
+ * 外部ライブラリ依存なし（domain/ レイヤールール遵守）
+ */
+
+import { CalcWarning } from '../types';
+import { PumpCurvePoint, findBestEfficiencyPoint } from './pumpSelection';
+import { generateViscosityCorrectionWarnings } from './calcWarnings';
+
+/** 補正法の適用上限とする B */
+export const HI_VISCOSITY_B_MAX = 40;
+
+/** 清水試験（HI 14.6、0〜40 °C）の動粘度の上限 [cSt]（0 °C の水 ≈ 1.79 cSt） */
+export const WATER_TEST_MAX_VISCOSITY_CST = 1.8;
+
+export interface ViscosityCorrection {
+  /** 動粘度 [cSt] */
+  readonly kinematicViscosity_cSt: number;
+  /** 水性能曲線の回転数 [rpm] */
+  readonly speed_rpm: number;
+  /** 水性能の BEP 流量・揚程 */
+  readonly bepFlow_m3h: number;
+  readonly bepHead_m: number;
+  readonly parameterB: number;
+  /** 補正を適用するか（B > 1 かつ清水試験の動粘度を超える） */
+  readonly required: boolean;
+  /** 流量補正係数 C_Q（BEP の揚程補正係数 C_BEP-H と等しい） */
+  readonly cQ: number;
+  /** 効率補正係数 C_η */
+  readonly cEta: number;
+  readonly warnings: readonly CalcWarning[];
+}
+
+/**
+ * 粘度 [Pa·s] と密度 [kg/m³] から動粘度 [cSt] を求める
+ */
+export function calcKinematicViscosity_cSt(viscosity_Pas: number, density_kg_m3: number): number {
+  if (density_kg_m3 <= 0) throw new Error('Density must be positive');
+  return (viscosity_Pas / density_kg_m3) * 1e6;
+}
+
+/**
+ * 水性能曲線の BEP から HI 9.6.7 の補正係数を求める
+ *
+ * @param waterCurve - 水の性能曲線（回転数 speed_rpm）
+ * @param speed_rpm - 回転数 [rpm]
+ * @param kinematicViscosity_cSt - 液の動粘度 [cSt]
+ */
+export function calcViscosityCorrection(
+  waterCurve: readonly PumpCurvePoint[],
+  speed_rpm: number,
+  kinematicViscosity_cSt: number
+): ViscosityCorrection {
+  if (speed_rpm <= 0) throw new Error('Pump speed must be positive');
+  if (kinematicViscosity_cSt <= 0) throw new Error('Kinematic viscosity must be positive');
+  const bep = findBestEfficiencyPoint(waterCurve);
+  if (bep.flow_m3h <= 0 || bep.head_m <= 0) throw new Error('Water BEP must have positive flow and head');
+
+  const parameterB = 16.5 * Math.sqrt(kinematicViscosity_cSt) * Math.pow(bep.head_m, 0.0625)
+    / (Math.pow(bep.flow_m3h, 0.375) * Math.pow(speed_rpm, 0.25));
+
+  const required = parameterB > 1 && kinematicViscosity_cSt > WATER_TEST_MAX_VISCOSITY_CST;
+  return {
+    kinematicViscosity_cSt,
+    speed_rpm,
+    bepFlow_m3h: bep.flow_m3h,
+    bepHead_m: bep.head_m,
+    parameterB,
+    required,
+    cQ: required ? Math.pow(2.71, -0.165 * Math.pow(Math.log10(parameterB), 3.15)) : 1,
+    cEta: required ? Math.pow(parameterB, -0.0547 * Math.pow(parameterB, 0.69)) : 1,
+    warnings: generateViscosityCorrectionWarnings({ parameterB, maxParameterB: HI_VISCOSITY_B_MAX }),
+  };
+}
+
+/**
+ * 水の流量 Q_W での揚程補正係数 C_H
+ */
+export function calcHeadCorrectionFactor(correction: ViscosityCorrection, waterFlow_m3h: number): number {
+  return 1 - (1 - correction.cQ) * Math.pow(waterFlow_m3h / correction.bepFlow_m3h, 0.75);
+}
+
+/**
+ * 水性能曲線に粘度補正を適用する
+ *
+ * @returns 粘性液の性能曲線（流量昇順）
+ */
+export function applyViscosityCorrection(
+  waterCurve: readonly PumpCurvePoint[],
+  correction: ViscosityCorrection
+): PumpCurvePoint[] {
+  return waterCurve.map(p => ({
+    flow_m3h: p.flow_m3h * correction.cQ,
+    head_m: p.head_m * calcHeadCorrectionFactor(correction, p.flow_m3h),
+    efficiency_pct: p.efficiency_pct * correction.cEta,
+    npshr_m: p.npshr_m,
+  }));
+}
@@ -4,14 +4,20 @@
  * 複数の SegmentInput を直列に接続し、
  * 系統全体の合計圧損・揚程を算出する。
  *
- * 前提: 直列接続では流量は全セグメント共通（質量保存）
- * 温度変化なし（断熱系）→ 流体物性は全セグメント共通
+ * 前提: 直列接続では質量流量は全セグメント共通（質量保存）
+ * 熱損失モデルなし（断熱系）→ 温度変化なし、流体物性は全セグメント共通
+ * 熱損失モデルあり → 区間ごとに温度を逐次計算し、平均温度で流体物性を再取得する。
+ *   体積流量は先頭区間の入口条件で与え、各区間では質量流量一定として密度から換算する。
  */
 
-import { SystemInput, SystemResult, SegmentResult, Reference, CalcWarning } from '../types';
+import {
+  SystemInput, SystemResult, SegmentInput, SegmentResult, Reference, CalcWarning,
+  SystemThermalInput, SegmentThermalResult,
+} from '../types';
 import { calcSegmentPressureDrop } from './pressureDrop';
-import { Darby3KData, EntranceExitData } from '../fittings/fittingLoss';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '../fittings/fittingLoss';
 import { pressureToHead } from '../pipe/straightPipeLoss';
+import { marchSegmentTemperature } from './heatLoss';
 
 /**
  * 系統全体の圧損を計算する
@@ -19,12 +25,16 @@ import { pressureToHead } from '../pipe/straightPipeLoss';
  * @param input - 系統入力（セグメント配列）
  * @param darby3kData - Darby 3-K 継手データ
  * @param entranceExitData - 入口/出口K値データ
+ * @param craneData - Crane L/D 継手データ（fittingMethod = 'l_over_d' のセグメントで使用）
+ * @param hooperData - Hooper 2-K 継手データ（fittingMethod = '2k' のセグメントで使用）
  * @returns SystemResult
  */
 export function calcSystemPressureDrop(
   input: SystemInput,
   darby3kData: Darby3KData,
-  entranceExitData: EntranceExitData
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
 ): SystemResult {
   const { segments } = input;
 
@@ -44,24 +54,20 @@ export function calcSystemPressureDrop(
     };
   }
 
-  // セグメント間の流体密度一致チェック（直列接続の前提条件）
-  const baseDensity = segments[0].fluid.density;
-  const DENSITY_TOLERANCE = 0.01; // 1%
-  for (let i = 1; i < segments.length; i++) {
-    const diff = Math.abs(segments[i].fluid.density - baseDensity) / baseDensity;
-    if (diff > DENSITY_TOLERANCE) {
-      throw new Error(
-        `Segment ${i} fluid density (${segments[i].fluid.density} kg/m³) differs from ` +
-        `segment 0 (${baseDensity} kg/m³) by ${(diff * 100).toFixed(1)}%. ` +
-        `Series connection assumes uniform fluid properties.`
-      );
-    }
-  }
+  // 熱損失モデルあり: 温度を逐次計算して各区間の流体物性を更新
+  // 熱損失モデルなし: セグメント間の流体密度一致チェック（直列接続の前提条件）
+  if (!input.thermal) checkUniformDensity(segments);
+  const resolved: { seg: SegmentInput; thermal?: SegmentThermalResult }[] = input.thermal
+    ? marchSegments(segments, input.thermal)
+    : segments.map(seg => ({ seg }));
 
-  // 各セグメントを個別に計算
-  const segmentResults: SegmentResult[] = segments.map(seg =>
-    calcSegmentPressureDrop(seg, darby3kData, entranceExitData)
-  );
+  // 各セグメントを個別に計算（前区間と内径が異なる場合は縮小・拡大損失を入口に付加）
+  const segmentResults: SegmentResult[] = resolved.map(({ seg, thermal }, i) => {
+    const result = calcSegmentPressureDrop(
+      withInletTransition(seg, resolved[i - 1]?.seg), darby3kData, entranceExitData, craneData, hooperData
+    );
+    return thermal ? { ...result, thermal } : result;
+  });
 
   // 圧力損失の集計（直列: 単純加算）
   const dp_friction_total = segmentResults.reduce((sum, r) => sum + r.dp_friction, 0);
@@ -102,6 +108,15 @@ export function calcSystemPressureDrop(
     }
   }
 
+  // 熱損失の集計
+  const thermalResults = segmentResults.flatMap(r => r.thermal ? [r.thermal] : []);
+  const thermalSummary = input.thermal
+    ? {
+        outletTemperature_c: thermalResults[thermalResults.length - 1].outletTemperature_c,
+        heatLoss_total_w: thermalResults.reduce((sum, th) => sum + th.heatLoss_w, 0),
+      }
+    : {};
+
   return {
     segmentResults,
     dp_friction_total,
@@ -112,7 +127,64 @@ export function calcSystemPressureDrop(
     head_fittings_total_m,
     head_elevation_total_m,
     head_total_m,
+    ...thermalSummary,
     references,
     warnings,
   };
 }
+
+/**
+ * セグメント間の流体密度一致チェック（断熱系の直列接続の前提条件）
+ */
+function checkUniformDensity(segments: SegmentInput[]): void {
+  const baseDensity = segments[0].fluid.density;
+  const DENSITY_TOLERANCE = 0.01; // 1%
+  for (let i = 1; i < segments.length; i++) {
+    const diff = Math.abs(segments[i].fluid.density - baseDensity) / baseDensity;
+    if (diff > DENSITY_TOLERANCE) {
+      throw new Error(
+        `Segment ${i} fluid density (${segments[i].fluid.density} kg/m³) differs from ` +
+        `segment 0 (${baseDensity} kg/m³) by ${(diff * 100).toFixed(1)}%. ` +
+        `Series connection assumes uniform fluid properties.`
+      );
+    }
+  }
+}
+
+/**
+ * 先頭区間の入口温度から区間ごとに温度を逐次計算し、流体物性と体積流量を更新する
+ *
+ * 質量流量は先頭区間の体積流量 × 密度で固定し、各区間の体積流量は平均温度の密度から換算する。
+ * レオロジーなど温度に依存しない指定は resolveFluid の戻り値に含める。
+ */
+function marchSegments(
+  segments: SegmentInput[],
+  thermal: SystemThermalInput
+): { seg: SegmentInput; thermal: SegmentThermalResult }[] {
+  const massFlow_kg_s = segments[0].flowRate_m3s * segments[0].fluid.density;
+  let temperature_c = segments[0].fluid.temperature;
+  return segments.map(seg => {
+    const marched = marchSegmentTemperature(temperature_c, massFlow_kg_s, seg.length_m, seg.pipe.od_mm, thermal);
+    temperature_c = marched.thermal.outletTemperature_c;
+    return {
+      seg: { ...seg, fluid: marched.fluid, flowRate_m3s: massFlow_kg_s / marched.fluid.density },
+      thermal: marched.thermal,
+    };
+  });
+}
+
+/**
+ * 前区間との内径差から入口側の口径変化を設定する
+ * 全頂角はセグメント側の指定を優先し、上流内径は常に前区間から取る。
+ * 先頭区間は入力をそのまま使う。
+ */
+function withInletTransition(seg: SegmentInput, prev: SegmentInput | undefined): SegmentInput {
+  if (!prev) return seg;
+  if (prev.pipe.id_mm === seg.pipe.id_mm) {
+    return seg.inletTransition ? { ...seg, inletTransition: undefined } : seg;
+  }
+  return {
+    ...seg,
+    inletTransition: { upstream_id_mm: prev.pipe.id_mm, angle_deg: seg.inletTransition?.angle_deg },
+  };
+}
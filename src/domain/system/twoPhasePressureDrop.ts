@@ -0,0 +1,153 @@
+/**
+ * 気液二相区間の圧損計算 — 分離流モデル
+ *
+ * ΔP_total = ΔP_friction + ΔP_fittings + ΔP_elevation + ΔP_acceleration
+ *
+ * - 摩擦: 全量液相流れの Darcy 圧損 × φ²_LO（Lockhart-Martinelli または Friedel）。
+ *   出口クオリティが異なる場合はクオリティが管長方向に線形変化するとして
+ *   入口・中点・出口の勾配を Simpson 則で積分する。
+ * - 継手: 均質流モデル ΔP = K·G²/(2ρ_H)（入口クオリティ）
+ * - 高低差: ボイド率に基づく二相密度 ρ_TP = αρ_G + (1−α)ρ_L の入口・出口平均
+ * - 加速: ΔP_acc = G²(ψ_out − ψ_in)、ψ = x²/(ρ_G α) + (1−x)²/(ρ_L(1−α))
+ *
+ * 各相の物性は区間内で一定とする（フラッシュによる気相密度変化は無視）。
+ */
+
+import { TwoPhaseSegmentInput, TwoPhaseSegmentResult, Reference } from '../types';
+import { classifyFlow } from '../pipe/pipeGeometry';
+import {
+  calcTwoPhaseFriction,
+  calcHomogeneousDensity,
+  calcVoidFraction,
+  calcMomentumDensityTerm,
+  TwoPhaseConditions,
+} from '../pipe/twoPhaseFlow';
+import { pressureToHead } from '../pipe/straightPipeLoss';
+import { resolveFittings, Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '../fittings/fittingLoss';
+import { calcElevationLoss } from './headLoss';
+import { generateTwoPhaseWarnings } from './calcWarnings';
+
+const VOID_FRACTION_REF: Reference = {
+  source: 'Steiner, 1993 (Rouhani-Axelsson)',
+  equation: 'α = (x/ρ_G)[(1+0.12(1−x))(x/ρ_G+(1−x)/ρ_L) + 1.18(1−x)(gσΔρ)^0.25/(Gρ_L^0.5)]⁻¹',
+};
+
+const HOMOGENEOUS_FITTING_REF: Reference = {
+  source: 'Collier & Thome, 1994',
+  equation: 'ΔP = K·G²/(2ρ_H)',
+};
+
+/**
+ * 気液二相区間の圧損を計算する
+ */
+export function calcTwoPhaseSegmentPressureDrop(
+  input: TwoPhaseSegmentInput,
+  darby3kData: Darby3KData,
+  entranceExitData: EntranceExitData,
+  craneData?: CraneData,
+  hooperData?: Hooper2KData
+): TwoPhaseSegmentResult {
+  const { pipe, material, liquid, gas, massFlux_kg_m2s: G, quality, length_m, elevation_m, fittings } = input;
+  const method = input.method ?? 'friedel';
+  const frictionMethod = input.frictionMethod ?? 'churchill';
+  const outletQuality = input.outletQuality ?? quality;
+
+  const conditionsAt = (x: number): TwoPhaseConditions => ({
+    massFlux: G,
+    quality: x,
+    liquidDensity: liquid.density,
+    gasDensity: gas.density,
+    liquidViscosity: liquid.viscosity,
+    gasViscosity: gas.viscosity,
+    surfaceTension: input.surfaceTension_n_m,
+  });
+  const frictionAt = (x: number) =>
+    calcTwoPhaseFriction(method, conditionsAt(x), frictionMethod, material.roughness_mm, pipe.id_mm);
+
+  // 摩擦（入口・中点・出口の Simpson 積分。クオリティ一定なら入口勾配 × L に一致）
+  const inlet = frictionAt(quality);
+  const mid = frictionAt((quality + outletQuality) / 2);
+  const outlet = frictionAt(outletQuality);
+  const meanGradient = (inlet.pressureGradient + 4 * mid.pressureGradient + outlet.pressureGradient) / 6;
+  const dp_friction = meanGradient * length_m;
+  const reynolds = inlet.liquidOnlyReynolds;
+  const flowRegime = classifyFlow(reynolds);
+
+  // 密度・ボイド率
+  const homogeneousDensity = calcHomogeneousDensity(quality, liquid.density, gas.density);
+  const voidAt = (x: number) => calcVoidFraction(x, G, liquid.density, gas.density, input.surfaceTension_n_m);
+  const voidIn = voidAt(quality);
+  const voidOut = voidAt(outletQuality);
+  const densityIn = voidIn * gas.density + (1 - voidIn) * liquid.density;
+  const densityOut = voidOut * gas.density + (1 - voidOut) * liquid.density;
+
+  // 継手（均質流モデル、3-K 法の K₁/Re 項は Re_LO）
+  const velocity = G / homogeneousDensity;
+  const fittingDetails = resolveFittings(
+    fittings, darby3kData, entranceExitData, reynolds, pipe.id_mm, homogeneousDensity, velocity,
+    input.fittingMethod ?? '3k', craneData, hooperData
+  );
+  const dp_fittings = fittingDetails.reduce((sum, fd) => sum + fd.dp_pa, 0);
+
+  // 高低差・加速
+  const dp_elevation = calcElevationLoss((densityIn + densityOut) / 2, elevation_m);
+  const dp_acceleration = G * G * (
+    calcMomentumDensityTerm(outletQuality, voidOut, liquid.density, gas.density)
+    - calcMomentumDensityTerm(quality, voidIn, liquid.density, gas.density)
+  );
+
+  const dp_total = dp_friction + dp_fittings + dp_elevation + dp_acceleration;
+
+  const warnings = generateTwoPhaseWarnings({
+    method,
+    massFlux: G,
+    liquidDensity: liquid.density,
+    viscosityRatio: liquid.viscosity / gas.viscosity,
+    id_mm: pipe.id_mm,
+  });
+
+  const references: Reference[] = [
+    inlet.reference,
+    VOID_FRACTION_REF,
+    inlet.liquidOnlyFriction.reference,
+    liquid.reference,
+    gas.reference,
+    material.reference,
+    ...(fittingDetails.length > 0 ? [HOMOGENEOUS_FITTING_REF] : []),
+    ...fittingDetails.map(fd => fd.reference),
+  ];
+
+  return {
+    velocity_m_s: velocity,
+    reynolds,
+    flowRegime,
+    frictionFactor: inlet.liquidOnlyFriction.f,
+    frictionFactorMethod: inlet.liquidOnlyFriction.method,
+
+    dp_friction,
+    dp_fittings,
+    dp_elevation,
+    dp_total,
+
+    // 水頭換算は入口の二相密度基準
+    head_friction_m: pressureToHead(dp_friction, densityIn),
+    head_fittings_m: pressureToHead(dp_fittings, densityIn),
+    head_elevation_m: pressureToHead(dp_elevation, densityIn),
+    head_total_m: pressureToHead(dp_total, densityIn),
+
+    fittingDetails,
+    references,
+    warnings,
+
+    method,
+    massFlux_kg_m2s: G,
+    quality,
+    outletQuality,
+    voidFraction: voidIn,
+    homogeneousDensity,
+    twoPhaseDensity: densityIn,
+    martinelliParameter: inlet.martinelliParameter,
+    twoPhaseMultiplier: meanGradient / inlet.liquidOnlyGradient,
+    dp_acceleration,
+  };
+}
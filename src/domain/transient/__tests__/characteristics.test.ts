@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { buildTransientGrid, valveOpening, simulateTransient } from '../characteristics';
+import { calcWaveSpeed } from '../waterHammer';
+import { PipeWallElasticity, TransientInput, TransientSettings, ValveClosureScenario, PumpTripScenario } from '../types';
+import { PipeSpec, FluidProperties, GRAVITY } from '../../types';
+import { RouteNode } from '../../route/types';
+import { calcFlowArea } from '../../pipe/pipeGeometry';
+
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const steel: PipeWallElasticity = {
+  elasticModulus_pa: 207e9,
+  poissonRatio: 0.3,
+  reference: { source: 'Wylie & Streeter, 1993' },
+};
+
+const water20C: FluidProperties = {
+  density: 998.2,
+  viscosity: 1.002e-3,
+  temperature: 20,
+  pressure: 2.339,
+  reference: { source: 'IAPWS-IF97' },
+};
+
+function node(x: number, y: number, z: number): RouteNode {
+  return { id: `N${x}_${y}_${z}`, position: { x, y, z }, additionalFittings: [] };
+}
+
+const area = calcFlowArea(pipe2inch.id_mm);
+const waveSpeed = calcWaveSpeed(2.19e9, 998.2, 60.3, 3.91, steel, 'anchored');
+
+const valveScenario: ValveClosureScenario = {
+  type: 'valve_closure', upstreamHead_m: 50, downstreamHead_m: 0, closureTime_s: 0, closureExponent: 1,
+};
+
+const valveSettings: TransientSettings = {
+  scenario: valveScenario,
+  duration_s: 3,
+  bulkModulus_gpa: 2.19,
+  anchorage: 'anchored',
+  designPressure_kpa: 5000,
+};
+
+const baseInput: TransientInput = {
+  route: { nodes: [node(0, 0, 0), node(1000, 0, 0)] },
+  pipe: pipe2inch,
+  wall: steel,
+  fluid: water20C,
+  vaporPressure_kpa: water20C.pressure,
+  flowRate_m3s: area * 1.0,
+  frictionFactor: 1e-6,
+  settings: valveSettings,
+};
+
+describe('buildTransientGrid', () => {
+  it('should split runs into integer reaches of a·Δt', () => {
+    const grid = buildTransientGrid([100, 300], 1000);
+    expect(grid.timeStep_s).toBeCloseTo(0.004, 10);
+    expect(grid.reaches).toEqual([25, 75]);
+    expect(grid.waveSpeeds[0]).toBeCloseTo(1000, 6);
+    expect(grid.waveSpeeds[1]).toBeCloseTo(1000, 6);
+  });
+
+  it('should keep very short runs as one reach with an adjusted wave speed', () => {
+    const grid = buildTransientGrid([0.01, 1000], 1000);
+    expect(grid.reaches[0]).toBe(1);
+    expect(grid.reaches[1]).toBeLessThanOrEqual(1000);
+    expect(grid.waveSpeeds[0]).toBeLessThan(1000);
+  });
+});
+
+describe('valveOpening', () => {
+  it('should follow (1 − t/tc)^m and stay closed after tc', () => {
+    expect(valveOpening(0, 2, 1)).toBe(1);
+    expect(valveOpening(1, 2, 2)).toBeCloseTo(0.25, 10);
+    expect(valveOpening(3, 2, 1)).toBe(0);
+  });
+});
+
+describe('simulateTransient', () => {
+  it('should reproduce the Joukowsky rise aV/g at the valve for instant closure', () => {
+    const r = simulateTransient(baseInput);
+    const valve = r.nodes[r.nodes.length - 1];
+    expect(valve.maxHead_m - valve.steadyHead_m).toBeCloseTo(waveSpeed * 1.0 / GRAVITY, 0);
+    // 反射後の負圧波（摩擦ほぼゼロ）
+    expect(valve.steadyHead_m - valve.minHead_m).toBeCloseTo(waveSpeed * 1.0 / GRAVITY, 0);
+    expect(r.period_s).toBeCloseTo(2000 / waveSpeed, 6);
+  });
+
+  it('should hold the steady state when the valve does not move', () => {
+    const r = simulateTransient({
+      ...baseInput,
+      frictionFactor: 0.02,
+      settings: { ...valveSettings, scenario: { ...valveScenario, closureTime_s: 1e9 } },
+    });
+    for (const n of r.nodes) {
+      expect(n.maxHead_m - n.minHead_m).toBeLessThan(1e-3);
+    }
+    // 定常水頭は上流水槽から摩擦損失分だけ低下
+    const V = 1.0;
+    const hf = 0.02 * 1000 / 0.0525 * V * V / (2 * GRAVITY);
+    expect(r.nodes[0].steadyHead_m - r.nodes[r.nodes.length - 1].steadyHead_m).toBeCloseTo(hf, 6);
+  });
+
+  it('should give a lower peak for slow closure', () => {
+    const rapid = simulateTransient(baseInput);
+    const slow = simulateTransient({
+      ...baseInput,
+      settings: { ...valveSettings, duration_s: 20, scenario: { ...valveScenario, closureTime_s: 10 } },
+    });
+    expect(slow.maxPressure_pa).toBeLessThan(rapid.maxPressure_pa * 0.5);
+  });
+
+  it('should mark route nodes on the grid', () => {
+    const r = simulateTransient({ ...baseInput, route: { nodes: [node(0, 0, 0), node(300, 0, 0), node(300, 700, 0)] } });
+    const marked = r.nodes.filter(n => n.routeNodeIndex !== undefined);
+    expect(marked.map(n => n.routeNodeIndex)).toEqual([0, 1, 2]);
+    expect(marked[1].distance_m).toBeCloseTo(300, 6);
+    expect(marked[2].distance_m).toBeCloseTo(1000, 6);
+  });
+
+  it('should warn of column separation and design pressure exceedance', () => {
+    const r = simulateTransient({
+      ...baseInput,
+      settings: {
+        ...valveSettings,
+        designPressure_kpa: 500,
+        scenario: { ...valveScenario, upstreamHead_m: 10 },
+      },
+    });
+    const keys = r.warnings.map(w => w.messageKey);
+    expect(keys).toContain('warn.surge_exceeds_design');
+    expect(keys).toContain('warn.column_separation');
+    expect(r.minPressure_pa).toBeLessThan(r.vaporPressure_pa);
+  });
+
+  it('should judge column separation against the given vapor pressure, not fluid.pressure', () => {
+    // 水溶液の物性は pressure に大気圧を持つ
+    const solution = { ...water20C, pressure: 101.325 };
+    const input: TransientInput = {
+      ...baseInput,
+      fluid: solution,
+      vaporPressure_kpa: 2.2,
+      settings: { ...valveSettings, scenario: { ...valveScenario, upstreamHead_m: 136 } },
+    };
+    const r = simulateTransient(input);
+    expect(r.vaporPressure_pa).toBeCloseTo((2.2 - 101.325) * 1000, 6);
+    expect(r.minPressure_pa).toBeLessThan(0);
+    expect(r.minPressure_pa).toBeGreaterThan(r.vaporPressure_pa);
+    expect(r.warnings.map(w => w.messageKey)).not.toContain('warn.column_separation');
+
+    // 大気圧を蒸気圧とみなすと負圧のノードをすべて水柱分離と判定する
+    const atmospheric = simulateTransient({ ...input, vaporPressure_kpa: solution.pressure });
+    expect(atmospheric.warnings.map(w => w.messageKey)).toContain('warn.column_separation');
+  });
+
+  it('should reject a valve whose steady head is below the discharge head', () => {
+    expect(() => simulateTransient({
+      ...baseInput,
+      settings: { ...valveSettings, scenario: { ...valveScenario, downstreamHead_m: 60 } },
+    })).toThrow('valve');
+  });
+
+  describe('pump trip', () => {
+    const pumpScenario: PumpTripScenario = {
+      type: 'pump_trip', suctionHead_m: 0, downstreamHead_m: 20, shutoffHead_m: 80,
+      ratedSpeed_rpm: 2900, efficiency: 0.7, inertia_kgm2: 0.05,
+    };
+    const pumpSettings: TransientSettings = { ...valveSettings, duration_s: 10, scenario: pumpScenario };
+    const pumpInput: TransientInput = {
+      ...baseInput,
+      route: { nodes: [node(0, 0, 0), node(500, 0, 0)] },
+      flowRate_m3s: area * 1.5,
+      frictionFactor: 0.02,
+      settings: pumpSettings,
+    };
+
+    it('should produce a downsurge at the pump and keep the downstream reservoir level', () => {
+      const r = simulateTransient(pumpInput);
+      const pump = r.nodes[0];
+      const outlet = r.nodes[r.nodes.length - 1];
+      expect(pump.minHead_m).toBeLessThan(pump.steadyHead_m - 20);
+      expect(outlet.maxHead_m).toBeCloseTo(20, 10);
+      expect(outlet.minHead_m).toBeCloseTo(20, 10);
+    });
+
+    it('should reject a shutoff head below the steady pump head', () => {
+      const scenario = { ...pumpScenario, shutoffHead_m: 30 };
+      expect(() => simulateTransient({ ...pumpInput, settings: { ...pumpSettings, scenario } })).toThrow('Shutoff head');
+    });
+  });
+});
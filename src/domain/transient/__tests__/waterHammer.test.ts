@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  anchorageFactor, calcWaveSpeed, calcJoukowskySurge, calcClosureSurge, calcWaterHammer,
+} from '../waterHammer';
+import { PipeWallElasticity, SurgeConditions, WaterHammerInput } from '../types';
+import { PipeSpec, FluidProperties } from '../../types';
+
+const pipe2inch: PipeSpec = {
+  standard: 'ASME B36.10M',
+  nps: '2',
+  dn: 50,
+  od_mm: 60.3,
+  wall_mm: 3.91,
+  id_mm: 52.50,
+  schedule: '40',
+};
+
+const steel: PipeWallElasticity = {
+  elasticModulus_pa: 207e9,
+  poissonRatio: 0.3,
+  reference: { source: 'Wylie & Streeter, 1993' },
+};
+
+const pvc: PipeWallElasticity = { ...steel, elasticModulus_pa: 2.9e9, poissonRatio: 0.46 };
+
+const water20C: FluidProperties = {
+  density: 998.2,
+  viscosity: 1.002e-3,
+  temperature: 20,
+  pressure: 2.339,
+  reference: { source: 'IAPWS-IF97' },
+};
+
+const K_WATER = 2.19e9;
+
+const conditions: SurgeConditions = {
+  closureTime_s: 0.1,
+  operatingPressure_kpa: 500,
+  designPressure_kpa: 1000,
+  bulkModulus_gpa: 2.19,
+  anchorage: 'anchored',
+};
+
+const baseInput: WaterHammerInput = {
+  pipe: pipe2inch,
+  wall: steel,
+  fluid: water20C,
+  length_m: 200,
+  velocity_m_s: 1.5,
+  conditions,
+};
+
+describe('anchorageFactor', () => {
+  it('should reduce to the thin-wall c1 as e/D → 0', () => {
+    expect(anchorageFactor('upstream', 0.3, 1000, 1e-6)).toBeCloseTo(0.85, 6);
+    expect(anchorageFactor('anchored', 0.3, 1000, 1e-6)).toBeCloseTo(0.91, 6);
+    expect(anchorageFactor('expansion_joints', 0.3, 1000, 1e-6)).toBeCloseTo(1, 6);
+  });
+
+  it('should apply the thick-wall correction', () => {
+    // D/e = 10, ν = 0.3: 0.2·1.3 + (10/11)·0.91
+    expect(anchorageFactor('anchored', 0.3, 100, 10)).toBeCloseTo(0.26 + 0.91 * 10 / 11, 10);
+  });
+});
+
+describe('calcWaveSpeed', () => {
+  it('should approach the acoustic speed √(K/ρ) for a rigid pipe', () => {
+    const rigid = { ...steel, elasticModulus_pa: 1e20 };
+    const a = calcWaveSpeed(K_WATER, 998.2, 60.3, 3.91, rigid, 'anchored');
+    expect(a).toBeCloseTo(Math.sqrt(K_WATER / 998.2), 3);
+  });
+
+  it('should give about 1390 m/s for water in 2" Sch40 steel', () => {
+    const a = calcWaveSpeed(K_WATER, 998.2, 60.3, 3.91, steel, 'anchored');
+    const D = 60.3 - 2 * 3.91;
+    const c1 = anchorageFactor('anchored', 0.3, D, 3.91);
+    const expected = Math.sqrt(K_WATER / 998.2 / (1 + c1 * K_WATER * D / (207e9 * 3.91)));
+    expect(a).toBeCloseTo(expected, 6);
+    expect(a).toBeGreaterThan(1380);
+    expect(a).toBeLessThan(1400);
+  });
+
+  it('should be much slower in a flexible PVC pipe', () => {
+    const a = calcWaveSpeed(K_WATER, 998.2, 60.3, 3.91, pvc, 'anchored');
+    expect(a).toBeGreaterThan(450);
+    expect(a).toBeLessThan(550);
+  });
+
+  it('should reject a wall thicker than the radius', () => {
+    expect(() => calcWaveSpeed(K_WATER, 998.2, 60.3, 31, steel, 'anchored')).toThrow('Wall thickness');
+  });
+});
+
+describe('calcClosureSurge', () => {
+  it('should equal Joukowsky for closure within 2L/a', () => {
+    const jouk = calcJoukowskySurge(998.2, 1400, 1.5);
+    expect(calcClosureSurge(998.2, 1400, 1.5, 200, 0.2)).toBeCloseTo(jouk, 6);
+  });
+
+  it('should follow Michaud 2ρLV/tc for slow closure', () => {
+    expect(calcClosureSurge(998.2, 1400, 1.5, 200, 5)).toBeCloseTo(2 * 998.2 * 200 * 1.5 / 5, 6);
+  });
+
+  it('should be continuous at tc = 2L/a', () => {
+    const tc = 2 * 200 / 1400;
+    expect(calcClosureSurge(998.2, 1400, 1.5, 200, tc * 1.000001))
+      .toBeCloseTo(calcJoukowskySurge(998.2, 1400, 1.5), -1);
+  });
+});
+
+describe('calcWaterHammer', () => {
+  it('should report rapid closure with Joukowsky surge and peak pressure', () => {
+    const r = calcWaterHammer(baseInput);
+    expect(r.closureType).toBe('rapid');
+    expect(r.period_s).toBeCloseTo(400 / r.waveSpeed_m_s, 10);
+    expect(r.surge_pa).toBeCloseTo(998.2 * r.waveSpeed_m_s * 1.5, 6);
+    expect(r.peakPressure_pa).toBeCloseTo(500e3 + r.surge_pa, 6);
+    expect(r.references[1].source).toBe('Joukowsky, 1900');
+  });
+
+  it('should warn when the peak pressure exceeds the design pressure', () => {
+    const r = calcWaterHammer(baseInput);
+    // ≈ 2.09 MPa surge + 0.5 MPa > 1.0 MPa
+    expect(r.warnings.some(w => w.messageKey === 'warn.surge_exceeds_design')).toBe(true);
+    expect(r.warnings.some(w => w.messageKey === 'warn.surge_rapid_closure')).toBe(true);
+  });
+
+  it('should use Michaud for slow closure without warnings', () => {
+    const r = calcWaterHammer({ ...baseInput, conditions: { ...conditions, closureTime_s: 30 } });
+    expect(r.closureType).toBe('slow');
+    expect(r.surge_pa).toBeCloseTo(2 * 998.2 * 200 * 1.5 / 30, 6);
+    expect(r.surge_pa).toBeLessThan(r.joukowskySurge_pa);
+    expect(r.references[1].source).toBe('Michaud, 1878');
+    expect(r.warnings).toHaveLength(0);
+  });
+
+  it('should reject a non-positive pipeline length', () => {
+    expect(() => calcWaterHammer({ ...baseInput, length_m: 0 })).toThrow('length');
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * 特性曲線法 (MOC) による 1 次元水撃解析
+ *
+ * 特性方程式（準定常摩擦、Wylie & Streeter, 1993）:
+ *   C⁺: H_P = C_P − B·Q_P,  C_P = H_A + B·Q_A − R·Q_A|Q_A|
+ *   C⁻: H_P = C_M + B·Q_P,  C_M = H_B − B·Q_B + R·Q_B|Q_B|
+ *   B = a/(gA),  R = f·Δx/(2gDA²)
+ *
+ * ルートの各直管区間 (calcStraightRuns) を Δx = a·Δt の要素に分割する。
+ * 区間長が Δt の整数倍にならない分は区間ごとに伝播速度を補正する。
+ * H はルート座標 z を基準とするピエゾ水頭で、圧力は ρg(H − z)。
+ *
+ * 境界条件:
+ * - 上流水槽（水位一定） / 下流水槽（水位一定）
+ * - 弁閉鎖: Q = C_v·τ(t)·√(H − H_d)、τ = (1 − t/t_c)^m
+ * - ポンプ停止: H = H_s + α²H₀ − kQ²（逆止弁で逆流なし）、
+ *   回転数は慣性の運動エネルギー収支 d(½Iω²)/dt = −ρgQH/η で減衰
+ *
+ * 水柱分離（蒸気圧以下）後の挙動はモデル化しない。
+ */
+
+import { GRAVITY, Reference } from '../types';
+import { calcFlowArea } from '../pipe/pipeGeometry';
+import { calcStraightRuns } from '../route/routeGeometry';
+import { generateTransientWarnings } from '../system/calcWarnings';
+import { calcWaveSpeed, KORTEWEG_REF } from './waterHammer';
+import { TransientInput, TransientResult, TransientNodeResult, TransientScenario } from './types';
+
+/** 標準大気圧 (kPa)。蒸気圧（絶対圧）のゲージ圧換算に使用 */
+const ATMOSPHERIC_PRESSURE_KPA = 101.325;
+
+/** ルート全長に対する目標要素数 */
+const TARGET_REACHES = 100;
+
+/** 要素数の上限（短い区間が長い区間と混在する場合の計算量抑制） */
+const MAX_REACHES = 1000;
+
+const MOC_REF: Reference = {
+  source: 'Wylie & Streeter, 1993',
+  equation: 'H_P = C_P − BQ_P, H_P = C_M + BQ_P',
+};
+
+/** 時間刻みと区間ごとの要素分割 */
+export interface TransientGrid {
+  readonly timeStep_s: number;
+  /** 区間ごとの要素数 */
+  readonly reaches: number[];
+  /** 区間ごとの補正後伝播速度 (m/s) */
+  readonly waveSpeeds: number[];
+}
+
+/**
+ * 直管区間長から時間刻みと要素分割を決める
+ *
+ * Δt は全長を約 TARGET_REACHES 要素、かつ最短区間が 1 要素以上となるように選ぶ。
+ * ただし総要素数が MAX_REACHES を超える場合は Δt を広げ、短い区間は 1 要素として伝播速度を補正する。
+ *
+ * @param runLengths 直管区間長 (m)
+ * @param waveSpeed_m_s 伝播速度 a (m/s)
+ */
+export function buildTransientGrid(runLengths: readonly number[], waveSpeed_m_s: number): TransientGrid {
+  const lengths = runLengths.filter(l => l > 0);
+  if (lengths.length === 0) throw new Error('Route has no straight runs with positive length');
+  const total = lengths.reduce((s, l) => s + l, 0);
+  const shortest = Math.min(...lengths);
+
+  const dt = Math.max(
+    Math.min(total / (waveSpeed_m_s * TARGET_REACHES), shortest / waveSpeed_m_s),
+    total / (waveSpeed_m_s * MAX_REACHES),
+  );
+  const reaches = runLengths.map(l => l > 0 ? Math.max(1, Math.round(l / (waveSpeed_m_s * dt))) : 0);
+  const waveSpeeds = runLengths.map((l, i) => reaches[i] > 0 ? l / (reaches[i] * dt) : waveSpeed_m_s);
+  return { timeStep_s: dt, reaches, waveSpeeds };
+}
+
+/**
+ * 弁の有効開度 τ(t) = (1 − t/t_c)^m（t ≥ t_c で全閉）
+ */
+export function valveOpening(time_s: number, closureTime_s: number, exponent: number): number {
+  if (time_s >= closureTime_s) return 0;
+  return Math.pow(1 - time_s / closureTime_s, exponent);
+}
+
+/**
+ * 特性曲線法で過渡解析を行い、ノードごとの水頭包絡線を返す
+ */
+export function simulateTransient(input: TransientInput): TransientResult {
+  const { pipe, wall, fluid, settings, flowRate_m3s: Q0 } = input;
+  const { scenario } = settings;
+  if (Q0 <= 0) throw new Error('Initial flow rate must be positive');
+  if (settings.duration_s <= 0) throw new Error('Duration must be positive');
+  if (input.frictionFactor < 0) throw new Error('Friction factor must be non-negative');
+  if (input.vaporPressure_kpa < 0) throw new Error('Vapor pressure must be non-negative');
+
+  const nodes = input.route.nodes;
+  const runs = calcStraightRuns(nodes);
+  const waveSpeed = calcWaveSpeed(
+    settings.bulkModulus_gpa * 1e9, fluid.density, pipe.od_mm, pipe.wall_mm, wall, settings.anchorage
+  );
+  const grid = buildTransientGrid(runs.map(r => r.length_m), waveSpeed);
+  const dt = grid.timeStep_s;
+
+  // ── 格子の構築（要素ごとの B, R と格子点の位置・標高） ──
+  const area = calcFlowArea(pipe.id_mm);
+  const id_m = pipe.id_mm / 1000;
+  const B: number[] = [];
+  const R: number[] = [];
+  const distance: number[] = [0];
+  const elevation: number[] = [nodes[0].position.z];
+  const routeNodeIndex: (number | undefined)[] = [0];
+  runs.forEach((run, i) => {
+    const n = grid.reaches[i];
+    if (n === 0) return;
+    const dx = run.length_m / n;
+    const from = nodes[run.fromNodeIndex].position.z;
+    for (let k = 1; k <= n; k++) {
+      B.push(grid.waveSpeeds[i] / (GRAVITY * area));
+      R.push(input.frictionFactor * dx / (2 * GRAVITY * id_m * area * area));
+      distance.push(distance[distance.length - 1] + dx);
+      elevation.push(from + run.elevation_m * k / n);
+      routeNodeIndex.push(k === n ? run.toNodeIndex : undefined);
+    }
+  });
+  const N = B.length;  // 要素数（格子点は N + 1）
+
+  // ── 初期定常状態 ──
+  const H = new Array<number>(N + 1);
+  const Q = new Array<number>(N + 1).fill(Q0);
+  const boundary = createBoundaries(scenario, H, R, Q0, fluid.density);
+
+  const steadyHead = [...H];
+  const maxHead = [...H];
+  const minHead = [...H];
+
+  // ── 時間発展 ──
+  const steps = Math.ceil(settings.duration_s / dt);
+  const Hn = new Array<number>(N + 1);
+  const Qn = new Array<number>(N + 1);
+  for (let step = 1; step <= steps; step++) {
+    const t = step * dt;
+    for (let k = 1; k < N; k++) {
+      const cp = H[k - 1] + B[k - 1] * Q[k - 1] - R[k - 1] * Q[k - 1] * Math.abs(Q[k - 1]);
+      const cm = H[k + 1] - B[k] * Q[k + 1] + R[k] * Q[k + 1] * Math.abs(Q[k + 1]);
+      Hn[k] = (cp / B[k - 1] + cm / B[k]) / (1 / B[k - 1] + 1 / B[k]);
+      Qn[k] = (cp - Hn[k]) / B[k - 1];
+    }
+    const cm0 = H[1] - B[0] * Q[1] + R[0] * Q[1] * Math.abs(Q[1]);
+    [Hn[0], Qn[0]] = boundary.upstream(cm0, B[0], t, dt);
+    const cpN = H[N - 1] + B[N - 1] * Q[N - 1] - R[N - 1] * Q[N - 1] * Math.abs(Q[N - 1]);
+    [Hn[N], Qn[N]] = boundary.downstream(cpN, B[N - 1], t);
+
+    for (let k = 0; k <= N; k++) {
+      H[k] = Hn[k];
+      Q[k] = Qn[k];
+      if (H[k] > maxHead[k]) maxHead[k] = H[k];
+      if (H[k] < minHead[k]) minHead[k] = H[k];
+    }
+  }
+
+  // ── 結果の集計 ──
+  const rhoG = fluid.density * GRAVITY;
+  const resultNodes: TransientNodeResult[] = distance.map((x, k) => ({
+    distance_m: x,
+    elevation_m: elevation[k],
+    ...(routeNodeIndex[k] !== undefined ? { routeNodeIndex: routeNodeIndex[k] } : {}),
+    steadyHead_m: steadyHead[k],
+    maxHead_m: maxHead[k],
+    minHead_m: minHead[k],
+    maxPressure_pa: rhoG * (maxHead[k] - elevation[k]),
+    minPressure_pa: rhoG * (minHead[k] - elevation[k]),
+  }));
+
+  const maxPressure = Math.max(...resultNodes.map(n => n.maxPressure_pa));
+  const minPressure = Math.min(...resultNodes.map(n => n.minPressure_pa));
+  const vaporPressure = (input.vaporPressure_kpa - ATMOSPHERIC_PRESSURE_KPA) * 1000;
+  const cavitating = resultNodes.filter(n => n.minPressure_pa < vaporPressure);
+  const waveSpeedAdjustment = Math.max(
+    ...grid.waveSpeeds.filter((_, i) => grid.reaches[i] > 0).map(a => Math.abs(a - waveSpeed) / waveSpeed)
+  );
+  const totalLength = distance[N];
+
+  const warnings = generateTransientWarnings({
+    maxPressure_pa: maxPressure,
+    minPressure_pa: minPressure,
+    vaporPressure_pa: vaporPressure,
+    designPressure_pa: settings.designPressure_kpa * 1000,
+    columnSeparationDistance_m: cavitating.length > 0 ? cavitating[0].distance_m : undefined,
+    waveSpeedAdjustment,
+  });
+
+  return {
+    waveSpeed_m_s: waveSpeed,
+    waveSpeedAdjustment,
+    timeStep_s: dt,
+    reachCount: N,
+    period_s: 2 * totalLength / waveSpeed,
+    nodes: resultNodes,
+    maxPressure_pa: maxPressure,
+    minPressure_pa: minPressure,
+    vaporPressure_pa: vaporPressure,
+    vaporPressureHead_m: vaporPressure / rhoG,
+    references: [MOC_REF, KORTEWEG_REF, wall.reference, fluid.reference],
+    warnings,
+  };
+}
+
+// ── 境界条件 ──
+
+/** 境界条件: 特性値 (C_M または C_P) と B から [H, Q] を返す */
+interface Boundaries {
+  upstream(cm: number, b: number, time_s: number, dt: number): [number, number];
+  downstream(cp: number, b: number, time_s: number): [number, number];
+}
+
+/**
+ * シナリオから境界条件を構築し、配列 H に初期定常水頭を設定する
+ */
+function createBoundaries(
+  scenario: TransientScenario,
+  H: number[],
+  R: number[],
+  Q0: number,
+  density: number
+): Boundaries {
+  const N = R.length;
+  const loss = (k: number) => R[k] * Q0 * Q0;
+
+  if (scenario.type === 'valve_closure') {
+    const { upstreamHead_m: Hu, downstreamHead_m: Hd } = scenario;
+    if (scenario.closureTime_s < 0) throw new Error('Closure time must be non-negative');
+    H[0] = Hu;
+    for (let k = 0; k < N; k++) H[k + 1] = H[k] - loss(k);
+    if (H[N] <= Hd) {
+      throw new Error('Steady head at the valve must exceed the downstream head; raise the upstream reservoir level');
+    }
+    const cv = Q0 / Math.sqrt(H[N] - Hd);
+    return {
+      upstream: (cm, b) => [Hu, (Hu - cm) / b],
+      downstream: (cp, b, t) => {
+        const tau = valveOpening(t, scenario.closureTime_s, scenario.closureExponent);
+        const c = (cv * tau) ** 2;
+        const delta = cp - Hd;
+        const q = c === 0 ? 0 : Math.sign(delta) * (-c * b + Math.sqrt((c * b) ** 2 + 4 * c * Math.abs(delta))) / 2;
+        return [cp - b * q, q];
+      },
+    };
+  }
+
+  // ポンプ停止
+  const { suctionHead_m: Hs, downstreamHead_m: Hd, shutoffHead_m: H0 } = scenario;
+  if (scenario.efficiency <= 0 || scenario.efficiency > 1) throw new Error('Pump efficiency must be between 0 and 1');
+  if (scenario.inertia_kgm2 <= 0) throw new Error('Pump inertia must be positive');
+  if (scenario.ratedSpeed_rpm <= 0) throw new Error('Pump speed must be positive');
+  H[N] = Hd;
+  for (let k = N - 1; k >= 0; k--) H[k] = H[k + 1] + loss(k);
+  const pumpHead = H[0] - Hs;
+  if (pumpHead <= 0) throw new Error('Steady pump head must be positive; check the suction and downstream levels');
+  if (H0 <= pumpHead) throw new Error('Shutoff head must exceed the steady pump head');
+
+  const k = (H0 - pumpHead) / (Q0 * Q0);
+  const omega0 = scenario.ratedSpeed_rpm * 2 * Math.PI / 60;
+  // 回転エネルギー ½Iω² の減衰率係数: d(α²)/dt = −2P/(ηIω₀²)
+  const decay = 2 / (scenario.efficiency * scenario.inertia_kgm2 * omega0 * omega0);
+  let alphaSq = 1;
+  let lastPower = density * GRAVITY * Q0 * pumpHead;
+
+  return {
+    upstream: (cm, b, _t, dt) => {
+      alphaSq = Math.max(0, alphaSq - decay * Math.max(lastPower, 0) * dt);
+      // k·Q² + B·Q + (C_M − H_s − α²H₀) = 0
+      const c = cm - Hs - alphaSq * H0;
+      if (c >= 0) {
+        // 逆止弁閉
+        lastPower = 0;
+        return [cm, 0];
+      }
+      const q = (-b + Math.sqrt(b * b - 4 * k * c)) / (2 * k);
+      const head = cm + b * q;
+      lastPower = density * GRAVITY * q * (head - Hs);
+      return [head, q];
+    },
+    downstream: (cp, b) => [Hd, (cp - Hd) / b],
+  };
+}
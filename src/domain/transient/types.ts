@@ -0,0 +1,188 @@
+/**
+ * 過渡現象（水撃）型定義
+ *
+ * 弁急閉鎖による圧力上昇の簡易評価（Joukowsky / Michaud）と、
+ * 特性曲線法 (MOC) による過渡解析の入出力。
+ * 圧力はゲージ圧。水頭はルート座標 z を基準とするピエゾ水頭。
+ * 内部値は SI 単位系 (m, Pa, s)。
+ */
+
+import { PipeSpec, FluidProperties, Reference, CalcWarning } from '@domain/types';
+import { PipeRoute } from '@domain/route/types';
+
+// ── 管壁の弾性 ──
+
+/**
+ * 管の軸方向拘束条件（Wylie & Streeter の係数 c₁ を決める。以下は薄肉管の値）
+ *
+ * - upstream: 上流端のみ固定 c₁ = 1 − ν/2
+ * - anchored: 全長で軸方向拘束 c₁ = 1 − ν²
+ * - expansion_joints: 全長に伸縮継手 c₁ = 1
+ */
+export type PipeAnchorage = 'upstream' | 'anchored' | 'expansion_joints';
+
+/** 全拘束条件（UI 選択肢・入力検証用） */
+export const PIPE_ANCHORAGES: readonly PipeAnchorage[] = ['upstream', 'anchored', 'expansion_joints'];
+
+/** 管壁材料の弾性定数 */
+export interface PipeWallElasticity {
+  /** 縦弾性係数 E (Pa) */
+  readonly elasticModulus_pa: number;
+  /** ポアソン比 ν (−) */
+  readonly poissonRatio: number;
+  readonly reference: Reference;
+}
+
+// ── 弁閉鎖条件 ──
+
+/** 弁閉鎖による水撃評価の条件（UI 入力単位） */
+export interface SurgeConditions {
+  /** 弁閉鎖時間 t_c (s) */
+  readonly closureTime_s: number;
+  /** 定常運転圧力 (kPa, ゲージ) */
+  readonly operatingPressure_kpa: number;
+  /** 設計圧力 (kPa, ゲージ) */
+  readonly designPressure_kpa: number;
+  /** 流体の体積弾性係数 K (GPa) */
+  readonly bulkModulus_gpa: number;
+  readonly anchorage: PipeAnchorage;
+}
+
+// ── 水撃評価 ──
+
+export interface WaterHammerInput {
+  readonly pipe: PipeSpec;
+  readonly wall: PipeWallElasticity;
+  readonly fluid: FluidProperties;
+  /** 弁から圧力一定端（水槽）までの管路長 L (m) */
+  readonly length_m: number;
+  /** 閉鎖前の定常流速 (m/s)。全閉で ΔV = V */
+  readonly velocity_m_s: number;
+  readonly conditions: SurgeConditions;
+}
+
+/** 急閉鎖 (t_c ≤ 2L/a) / 緩閉鎖 (t_c > 2L/a) */
+export type ClosureType = 'rapid' | 'slow';
+
+export interface WaterHammerResult {
+  /** 圧力波伝播速度 a (m/s) */
+  readonly waveSpeed_m_s: number;
+  /** 管路の往復時間 2L/a (s) */
+  readonly period_s: number;
+  readonly closureType: ClosureType;
+  /** Joukowsky 圧力上昇 ρaΔV (Pa) */
+  readonly joukowskySurge_pa: number;
+  /** 閉鎖時間を考慮した圧力上昇 (Pa)。急閉鎖は Joukowsky、緩閉鎖は Michaud */
+  readonly surge_pa: number;
+  /** 圧力上昇の水頭換算 (m) */
+  readonly surge_m: number;
+  /** 最大圧力 = 運転圧力 + 圧力上昇 (Pa, ゲージ) */
+  readonly peakPressure_pa: number;
+  /** 設計圧力 (Pa, ゲージ) */
+  readonly designPressure_pa: number;
+
+  readonly references: Reference[];
+  readonly warnings: readonly CalcWarning[];
+}
+
+// ── 特性曲線法 (MOC) 過渡解析 ──
+
+/** 弁閉鎖: 上流水槽 → 管路 → ルート末端の弁 → 放出先 */
+export interface ValveClosureScenario {
+  readonly type: 'valve_closure';
+  /** 上流水槽の水位 (m) */
+  readonly upstreamHead_m: number;
+  /** 弁の放出先の水頭 (m)。大気開放なら弁位置の標高 */
+  readonly downstreamHead_m: number;
+  /** 弁閉鎖時間 t_c (s) */
+  readonly closureTime_s: number;
+  /** 閉鎖則の指数 m: 有効開度 τ = (1 − t/t_c)^m */
+  readonly closureExponent: number;
+}
+
+/** ポンプ停止: 吸込水槽 → ポンプ（吐出逆止弁付き）→ 管路 → 下流水槽 */
+export interface PumpTripScenario {
+  readonly type: 'pump_trip';
+  /** 吸込水槽の水位 (m) */
+  readonly suctionHead_m: number;
+  /** 下流水槽の水位 (m) */
+  readonly downstreamHead_m: number;
+  /** 定格回転数での締切揚程 (m) */
+  readonly shutoffHead_m: number;
+  readonly ratedSpeed_rpm: number;
+  /** 運転点のポンプ効率 (−) */
+  readonly efficiency: number;
+  /** 回転部の慣性モーメント (kg·m²)。電動機を含む */
+  readonly inertia_kgm2: number;
+}
+
+export type TransientScenario = ValveClosureScenario | PumpTripScenario;
+
+export type TransientScenarioType = TransientScenario['type'];
+
+/** 全シナリオ種別（UI 選択肢・入力検証用） */
+export const TRANSIENT_SCENARIO_TYPES: readonly TransientScenarioType[] = ['valve_closure', 'pump_trip'];
+
+/** 過渡解析の条件（UI 入力単位） */
+export interface TransientSettings {
+  readonly scenario: TransientScenario;
+  /** 解析時間 (s) */
+  readonly duration_s: number;
+  /** 流体の体積弾性係数 K (GPa) */
+  readonly bulkModulus_gpa: number;
+  readonly anchorage: PipeAnchorage;
+  /** 設計圧力 (kPa, ゲージ) */
+  readonly designPressure_kpa: number;
+}
+
+export interface TransientInput {
+  readonly route: PipeRoute;
+  readonly pipe: PipeSpec;
+  readonly wall: PipeWallElasticity;
+  readonly fluid: FluidProperties;
+  /** 飽和蒸気圧 (kPa, 絶対圧)。水柱分離の判定に使用（水溶液の fluid.pressure は大気圧のため別に与える） */
+  readonly vaporPressure_kpa: number;
+  /** 初期定常流量 (m³/s) */
+  readonly flowRate_m3s: number;
+  /** Darcy 摩擦係数（継手損失を含む等価値、準定常摩擦として使用） */
+  readonly frictionFactor: number;
+  readonly settings: TransientSettings;
+}
+
+/** 計算格子のノードごとの結果 */
+export interface TransientNodeResult {
+  /** ルート始点からの管路長 (m) */
+  readonly distance_m: number;
+  /** 管中心標高 (m) */
+  readonly elevation_m: number;
+  /** ルートノード上の格子点ならそのインデックス */
+  readonly routeNodeIndex?: number;
+  readonly steadyHead_m: number;
+  readonly maxHead_m: number;
+  readonly minHead_m: number;
+  /** 最大・最小圧力 (Pa, ゲージ) */
+  readonly maxPressure_pa: number;
+  readonly minPressure_pa: number;
+}
+
+export interface TransientResult {
+  /** Korteweg 式による伝播速度 a (m/s) */
+  readonly waveSpeed_m_s: number;
+  /** 格子に合わせた伝播速度の最大補正率 |a_i − a|/a */
+  readonly waveSpeedAdjustment: number;
+  readonly timeStep_s: number;
+  readonly reachCount: number;
+  /** 管路の往復時間 2L/a (s) */
+  readonly period_s: number;
+  readonly nodes: TransientNodeResult[];
+  /** 全ノード・全時刻の最大・最小圧力 (Pa, ゲージ) */
+  readonly maxPressure_pa: number;
+  readonly minPressure_pa: number;
+  /** 飽和蒸気圧 (Pa, ゲージ) */
+  readonly vaporPressure_pa: number;
+  /** 蒸気圧の水頭換算 p_v/(ρg) (m, ゲージ)。管中心標高に加えると水柱分離の限界水頭 */
+  readonly vaporPressureHead_m: number;
+
+  readonly references: Reference[];
+  readonly warnings: readonly CalcWarning[];
+}
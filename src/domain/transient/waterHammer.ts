@@ -0,0 +1,150 @@
+/**
+ * 水撃圧の簡易評価 — 弁閉鎖による圧力上昇
+ *
+ * 圧力波伝播速度（Korteweg 式）:
+ *   a = √[(K/ρ) / (1 + c₁·K·D/(E·e))]
+ *   c₁ は管の拘束条件で決まる係数。Wylie & Streeter の厚肉管の式を用い、
+ *   薄肉 (e/D → 0) では 1 − ν/2, 1 − ν², 1 に一致する。
+ *
+ * 圧力上昇:
+ *   急閉鎖 t_c ≤ 2L/a: ΔP = ρ·a·ΔV（Joukowsky）
+ *   緩閉鎖 t_c > 2L/a: ΔP = 2ρ·L·ΔV/t_c（Michaud）
+ *
+ * 摩擦による減衰（line packing）は考慮しない保守側の評価。
+ */
+
+import { Reference, GRAVITY } from '../types';
+import { generateWaterHammerWarnings } from '../system/calcWarnings';
+import { PipeAnchorage, PipeWallElasticity, WaterHammerInput, WaterHammerResult } from './types';
+
+/** 圧力波速度（Korteweg 式）の出典 */
+export const KORTEWEG_REF: Reference = {
+  source: 'Korteweg, 1878; Wylie & Streeter, 1993',
+  equation: 'a = √[(K/ρ)/(1 + c₁KD/(Ee))]',
+};
+
+const JOUKOWSKY_REF: Reference = {
+  source: 'Joukowsky, 1900',
+  equation: 'ΔP = ρaΔV',
+};
+
+const MICHAUD_REF: Reference = {
+  source: 'Michaud, 1878',
+  equation: 'ΔP = 2ρLΔV/t_c',
+};
+
+/**
+ * 管の軸方向拘束係数 c₁ — 厚肉管 (Wylie & Streeter, 1993)
+ *
+ * c₁ = (2e/D)(1 + ν) + D/(D + e)·c₁'
+ * c₁' は薄肉管の係数（上流端固定 1 − ν/2、全長拘束 1 − ν²、伸縮継手 1）
+ *
+ * @param id_mm 管内径 D (mm)
+ * @param wall_mm 管肉厚 e (mm)
+ */
+export function anchorageFactor(anchorage: PipeAnchorage, poissonRatio: number, id_mm: number, wall_mm: number): number {
+  const nu = poissonRatio;
+  const thin = anchorage === 'upstream' ? 1 - nu / 2
+    : anchorage === 'anchored' ? 1 - nu * nu
+    : 1;
+  return 2 * wall_mm / id_mm * (1 + nu) + id_mm / (id_mm + wall_mm) * thin;
+}
+
+/**
+ * 圧力波伝播速度 a (m/s) — Korteweg 式
+ *
+ * D は内径 (OD − 2e)。
+ *
+ * @param bulkModulus_pa 流体の体積弾性係数 K (Pa)
+ * @param density 流体密度 (kg/m³)
+ * @param od_mm 管外径 (mm)
+ * @param wall_mm 管肉厚 (mm)
+ * @param wall 管壁材料の弾性定数
+ * @param anchorage 管の軸方向拘束条件
+ */
+export function calcWaveSpeed(
+  bulkModulus_pa: number,
+  density: number,
+  od_mm: number,
+  wall_mm: number,
+  wall: PipeWallElasticity,
+  anchorage: PipeAnchorage
+): number {
+  if (bulkModulus_pa <= 0) throw new Error('Bulk modulus must be positive');
+  if (density <= 0) throw new Error('Density must be positive');
+  if (wall_mm <= 0 || od_mm <= 2 * wall_mm) throw new Error('Wall thickness must be positive and less than half the outer diameter');
+  if (wall.elasticModulus_pa <= 0) throw new Error('Elastic modulus must be positive');
+
+  const id_mm = od_mm - 2 * wall_mm;
+  const c1 = anchorageFactor(anchorage, wall.poissonRatio, id_mm, wall_mm);
+  const stiffnessRatio = bulkModulus_pa * id_mm / (wall.elasticModulus_pa * wall_mm);
+  return Math.sqrt(bulkModulus_pa / density / (1 + c1 * stiffnessRatio));
+}
+
+/**
+ * Joukowsky 圧力上昇 ΔP = ρ·a·ΔV (Pa)
+ */
+export function calcJoukowskySurge(density: number, waveSpeed_m_s: number, velocityChange_m_s: number): number {
+  return density * waveSpeed_m_s * velocityChange_m_s;
+}
+
+/**
+ * 閉鎖時間を考慮した圧力上昇 (Pa)
+ *
+ * t_c ≤ 2L/a では Joukowsky、t_c > 2L/a では Michaud 式（= Joukowsky × (2L/a)/t_c）。
+ */
+export function calcClosureSurge(
+  density: number,
+  waveSpeed_m_s: number,
+  velocityChange_m_s: number,
+  length_m: number,
+  closureTime_s: number
+): number {
+  const period = 2 * length_m / waveSpeed_m_s;
+  if (closureTime_s <= period) return calcJoukowskySurge(density, waveSpeed_m_s, velocityChange_m_s);
+  return 2 * density * length_m * velocityChange_m_s / closureTime_s;
+}
+
+/**
+ * 弁閉鎖による水撃圧を評価する
+ */
+export function calcWaterHammer(input: WaterHammerInput): WaterHammerResult {
+  const { pipe, wall, fluid, length_m, velocity_m_s, conditions } = input;
+  if (length_m <= 0) throw new Error('Pipeline length must be positive');
+  if (conditions.closureTime_s < 0) throw new Error('Closure time must be non-negative');
+
+  const waveSpeed = calcWaveSpeed(
+    conditions.bulkModulus_gpa * 1e9, fluid.density, pipe.od_mm, pipe.wall_mm, wall, conditions.anchorage
+  );
+  const period = 2 * length_m / waveSpeed;
+  const closureType = conditions.closureTime_s <= period ? 'rapid' : 'slow';
+  const joukowskySurge = calcJoukowskySurge(fluid.density, waveSpeed, velocity_m_s);
+  const surge = calcClosureSurge(fluid.density, waveSpeed, velocity_m_s, length_m, conditions.closureTime_s);
+  const peakPressure = conditions.operatingPressure_kpa * 1000 + surge;
+  const designPressure = conditions.designPressure_kpa * 1000;
+
+  const warnings = generateWaterHammerWarnings({
+    peakPressure_pa: peakPressure,
+    designPressure_pa: designPressure,
+    closureType,
+    period_s: period,
+  });
+
+  return {
+    waveSpeed_m_s: waveSpeed,
+    period_s: period,
+    closureType,
+    joukowskySurge_pa: joukowskySurge,
+    surge_pa: surge,
+    surge_m: surge / (fluid.density * GRAVITY),
+    peakPressure_pa: peakPressure,
+    designPressure_pa: designPressure,
+    references: [
+      KORTEWEG_REF,
+      closureType === 'rapid' ? JOUKOWSKY_REF : MICHAUD_REF,
+      wall.reference,
+      fluid.reference,
+    ],
+    warnings,
+  };
+}
@@ -26,7 +26,7 @@ export interface Reference {
 // ── 計算警告 ──
 
 export type WarningSeverity = 'info' | 'warning' | 'caution';
-export type WarningCategory = 'fluid' | 'friction' | 'fittings' | 'elevation' | 'velocity';
+export type WarningCategory = 'fluid' | 'friction' | 'fittings' | 'elevation' | 'velocity' | 'network' | 'transient' | 'sprinkler' | 'valve' | 'pump';
 
 export interface CalcWarning {
   readonly severity: WarningSeverity;
@@ -47,8 +47,50 @@ export interface FluidProperties {
   readonly temperature: number;   // °C
   readonly pressure: number;      // kPa
   readonly reference: Reference;
+  /** 定圧比熱 (J/(kg·K))。熱損失計算に使用（テーブルに比熱がない流体では省略） */
+  readonly specificHeat?: number;
+  /** 非ニュートン流体のレオロジー（省略時はニュートン流体として viscosity を使用） */
+  readonly rheology?: Rheology;
 }
 
+// ── レオロジー（非ニュートン流体） ──
+
+/** べき乗則流体 τ = K γ̇ⁿ */
+export interface PowerLawRheology {
+  readonly model: 'power_law';
+  /** 稠度係数 K (Pa·sⁿ) */
+  readonly k: number;
+  /** 流動指数 n (−) */
+  readonly n: number;
+}
+
+/** ビンガム塑性流体 τ = τ_y + μ_p γ̇ */
+export interface BinghamRheology {
+  readonly model: 'bingham';
+  /** 降伏応力 τ_y (Pa) */
+  readonly yieldStress_pa: number;
+  /** 塑性粘度 μ_p (Pa·s) */
+  readonly plasticViscosity: number;
+}
+
+/** Herschel-Bulkley 流体 τ = τ_y + K γ̇ⁿ */
+export interface HerschelBulkleyRheology {
+  readonly model: 'herschel_bulkley';
+  /** 降伏応力 τ_y (Pa) */
+  readonly yieldStress_pa: number;
+  /** 稠度係数 K (Pa·sⁿ) */
+  readonly k: number;
+  /** 流動指数 n (−) */
+  readonly n: number;
+}
+
+export type Rheology = PowerLawRheology | BinghamRheology | HerschelBulkleyRheology;
+
+export type RheologyModel = Rheology['model'];
+
+/** 全レオロジーモデル（UI 選択肢・入力検証用） */
+export const RHEOLOGY_MODELS: readonly RheologyModel[] = ['power_law', 'bingham', 'herschel_bulkley'];
+
 // ── 配管仕様 ──
 
 export interface PipeSpec {
@@ -67,12 +109,54 @@ export interface PipeMaterial {
   readonly id: string;
   readonly name: string;
   readonly roughness_mm: number;
+  /** Hazen-Williams 流速係数 C（水配管用。未定義の材質では Hazen-Williams 式を選択できない） */
+  readonly hazenWilliamsC?: number;
+  /** C 係数表の出典（Hazen-Williams 式を用いた結果に加える） */
+  readonly hazenWilliamsReference?: Reference;
   readonly reference: Reference;
 }
 
+// ── 摩擦係数 ──
+
+/**
+ * 摩擦係数の計算手法
+ *
+ * 'hazen-williams' は水専用の経験式による損失水頭を等価な Darcy 摩擦係数に換算する。
+ */
+export type FrictionFactorMethod = 'churchill' | 'colebrook' | 'swamee-jain' | 'haaland' | 'serghides' | 'hazen-williams';
+
+/** 全摩擦係数手法（UI 選択肢・入力検証用） */
+export const FRICTION_FACTOR_METHODS: readonly FrictionFactorMethod[] = [
+  'churchill', 'colebrook', 'swamee-jain', 'haaland', 'serghides', 'hazen-williams',
+];
+
+/** Re と相対粗度から Darcy 摩擦係数を求める手法（水専用の Hazen-Williams を除く。気体・二相流用） */
+export type DarcyFrictionFactorMethod = Exclude<FrictionFactorMethod, 'hazen-williams'>;
+
 // ── 継手情報（計算済み） ──
 
-export type KValueMethod = '3k' | 'fixed_k' | 'cv';
+export type KValueMethod = '3k' | '2k' | 'l_over_d' | 'fixed_k' | 'cv' | 'size_change' | 'iso5167';
+
+/** 継手 K 値の算出手法（データベース継手に適用。入口・出口は常に固定K） */
+export type FittingMethod = '3k' | '2k' | 'l_over_d';
+
+/** 全継手手法（UI 選択肢・入力検証用） */
+export const FITTING_METHODS: readonly FittingMethod[] = ['3k', '2k', 'l_over_d'];
+
+/** 手法別 K 値（比較用） */
+export interface FittingKComparison {
+  readonly method: FittingMethod;
+  readonly k_value: number;
+  readonly reference: Reference;
+}
+
+/** 同一継手の手法間比較（データベース継手のみ） */
+export interface FittingKComparisonSet {
+  /** データが存在する手法の K 値（FITTING_METHODS の順） */
+  readonly values: readonly FittingKComparison[];
+  /** 手法間のばらつき K_max / K_min − 1（2 手法未満では null） */
+  readonly spread: number | null;
+}
 
 export interface FittingResult {
   readonly id: string;
@@ -82,8 +166,40 @@ export interface FittingResult {
   readonly method: KValueMethod;
   readonly dp_pa: number;
   readonly head_loss_m: number;
+  /** K 値の基準管内径 (mm)。ΔP = K × ρV²/2 の V はこの内径での流速 */
+  readonly basis_id_mm: number;
+  /** K 値の基準流速 (m/s) */
+  readonly basis_velocity_m_s: number;
   readonly reference: Reference;
   readonly warning?: string;
+  /** 差圧式流量計（ISO 5167）の計算詳細。流量計継手のみ */
+  readonly flowElement?: FlowElementDetail;
+  /** 手法間の K 値比較。resolveFittings の比較オプション指定時、データベース継手のみ */
+  readonly kComparison?: FittingKComparisonSet;
+}
+
+/** 差圧式流量計（オリフィス・ノズル・ベンチュリ）の計算詳細（1 個あたり） */
+export interface FlowElementDetail {
+  /** 絞り径 d (mm) */
+  readonly bore_mm: number;
+  /** 絞り直径比 β = d/D */
+  readonly beta: number;
+  /** 流出係数 C */
+  readonly dischargeCoefficient: number;
+  /** 取出し口間の測定差圧 Δp (Pa) */
+  readonly measuredDp_pa: number;
+  /** 永久圧力損失 Δϖ (Pa)。区間の継手損失に計上される */
+  readonly permanentLoss_pa: number;
+  /** ISO 5167 の適用範囲外警告 */
+  readonly warnings: readonly CalcWarning[];
+}
+
+/** 上流区間との口径変化（縮小・拡大） */
+export interface PipeTransition {
+  /** 上流側の管内径 (mm) */
+  readonly upstream_id_mm: number;
+  /** 円錐部の全頂角 (deg)。省略時は 180°（急縮小・急拡大） */
+  readonly angle_deg?: number;
 }
 
 // ── 計算結果（区間別） ──
@@ -96,6 +212,14 @@ export interface SegmentInput {
   readonly length_m: number;
   readonly elevation_m: number;
   readonly fittings: FittingInput[];
+  /** 摩擦係数の計算手法（省略時は Churchill） */
+  readonly frictionMethod?: FrictionFactorMethod;
+  /** 継手 K 値の算出手法（省略時は Darby 3-K） */
+  readonly fittingMethod?: FittingMethod;
+  /** 継手ごとに全手法の K 値を併記する（FittingResult.kComparison） */
+  readonly compareFittingMethods?: boolean;
+  /** 入口側の口径変化（系統計算では前区間の内径から自動設定） */
+  readonly inletTransition?: PipeTransition;
 }
 
 export interface FittingInput {
@@ -103,6 +227,8 @@ export interface FittingInput {
   readonly quantity: number;
   readonly cvOverride?: number;
   readonly kOverride?: number;
+  /** 差圧式流量計の絞り径 d (mm)。流量計継手では必須 */
+  readonly boreDiameter_mm?: number;
 }
 
 export interface SegmentResult {
@@ -125,6 +251,186 @@ export interface SegmentResult {
   readonly fittingDetails: FittingResult[];
   readonly references: Reference[];
   readonly warnings: readonly CalcWarning[];
+
+  /** 熱損失モデル使用時の温度変化（断熱系では省略） */
+  readonly thermal?: SegmentThermalResult;
+}
+
+// ── 熱損失（非等温系統） ──
+
+/**
+ * 保温管の熱損失モデル
+ *
+ * 管内側境膜・管壁の熱抵抗は無視し、保温材の伝導と外表面の境膜のみを考慮する（熱損失は安全側）。
+ */
+export interface HeatLossModel {
+  readonly ambientTemperature_c: number;
+  /** 保温厚さ (mm)。0 は裸管 */
+  readonly insulationThickness_mm: number;
+  /** 保温材の熱伝導率 (W/(m·K)) */
+  readonly insulationConductivity_w_mk: number;
+  /** 外表面熱伝達率（対流 + 放射） (W/(m²·K)) */
+  readonly outerFilmCoefficient_w_m2k: number;
+  /** 定圧比熱 (J/(kg·K))。流体物性に比熱がない場合（水溶液など）に使用 */
+  readonly specificHeat_j_kgk?: number;
+}
+
+/** 温度 (°C) から流体物性を再取得する関数（区間ごとの物性更新に使用） */
+export type FluidPropertyResolver = (temperature_c: number) => FluidProperties;
+
+/** 系統計算の熱損失オプション */
+export interface SystemThermalInput {
+  readonly heatLoss: HeatLossModel;
+  readonly resolveFluid: FluidPropertyResolver;
+}
+
+/** 区間の温度変化と熱損失 */
+export interface SegmentThermalResult {
+  readonly inletTemperature_c: number;
+  readonly outletTemperature_c: number;
+  /** 物性評価温度（入口・出口の平均） */
+  readonly meanTemperature_c: number;
+  /** 熱損失 (W)。周囲へ放熱する向きを正 */
+  readonly heatLoss_w: number;
+  /** 管長あたりの熱抵抗 R' (m·K/W) */
+  readonly thermalResistance_mk_w: number;
+}
+
+// ── 気体区間（圧縮性流れ） ──
+
+/** 気体流れのモデル（等温流れ / 断熱流れ = Fanno 流れ） */
+export type GasFlowModel = 'isothermal' | 'adiabatic';
+
+/** 全気体流れモデル（UI 選択肢・入力検証用） */
+export const GAS_FLOW_MODELS: readonly GasFlowModel[] = ['isothermal', 'adiabatic'];
+
+/** 指定温度・圧力における気体物性（密度は理想気体） */
+export interface GasProperties {
+  readonly molarMass: number;         // kg/kmol
+  readonly gamma: number;             // 比熱比 cp/cv
+  readonly gasConstant: number;       // 気体定数 R = R₀/M (J/(kg·K))
+  readonly viscosity: number;         // Pa·s
+  readonly density: number;           // kg/m³（理想気体 ρ = P/(RT)）
+  /** 圧縮係数 Z の推算値（Pitzer 第 2 ビリアル相関。理想気体仮定の妥当性判定用） */
+  readonly compressibility: number;
+  readonly temperature: number;       // °C
+  readonly pressure_kpa: number;      // kPa（絶対圧）
+  readonly reference: Reference;
+}
+
+export interface GasSegmentInput {
+  readonly pipe: PipeSpec;
+  readonly material: PipeMaterial;
+  /** 入口条件の気体物性 */
+  readonly gas: GasProperties;
+  readonly massFlow_kg_s: number;
+  readonly length_m: number;
+  readonly elevation_m: number;
+  readonly fittings: FittingInput[];
+  readonly flowModel: GasFlowModel;
+  /** 摩擦係数の計算手法（省略時は Churchill） */
+  readonly frictionMethod?: DarcyFrictionFactorMethod;
+  /** 継手 K 値の算出手法（省略時は Darby 3-K） */
+  readonly fittingMethod?: FittingMethod;
+}
+
+export interface GasSegmentResult {
+  readonly flowModel: GasFlowModel;
+  readonly massFlow_kg_s: number;
+
+  readonly inletPressure_kpa: number;     // kPa（絶対圧）
+  /** 出口圧力 (kPa 絶対圧)。閉塞時は閉塞点（管端）の臨界圧力 */
+  readonly outletPressure_kpa: number;
+  readonly inletTemperature_c: number;
+  readonly outletTemperature_c: number;
+  readonly inletDensity: number;          // kg/m³
+  readonly outletDensity: number;         // kg/m³
+  readonly inletVelocity_m_s: number;
+  readonly outletVelocity_m_s: number;
+  readonly inletMach: number;
+  readonly outletMach: number;
+
+  readonly reynolds: number;
+  readonly flowRegime: FlowRegime;
+  readonly frictionFactor: number;
+  readonly frictionFactorMethod: string;
+  /** 継手 K 値の合計 ΣK（入口流速基準） */
+  readonly sumK: number;
+  /** 全抵抗 fL/D + ΣK */
+  readonly totalResistance: number;
+  /** 閉塞に至る全抵抗の上限 (fL/D)_max（入口マッハ数で決まる） */
+  readonly maxResistance: number;
+
+  /** 閉塞流れ（所定の質量流量を流せない） */
+  readonly choked: boolean;
+
+  readonly dp_flow: number;       // Pa — 摩擦・継手・加速による圧力降下
+  readonly dp_elevation: number;  // Pa — 平均密度による位置圧
+  readonly dp_total: number;      // Pa
+
+  readonly fittingDetails: FittingResult[];
+  readonly references: Reference[];
+  readonly warnings: readonly CalcWarning[];
+}
+
+// ── 気液二相区間 ──
+
+/** 二相摩擦損失倍率の相関式 */
+export type TwoPhaseMethod = 'lockhart-martinelli' | 'friedel';
+
+/** 全二相相関式（UI 選択肢・入力検証用） */
+export const TWO_PHASE_METHODS: readonly TwoPhaseMethod[] = ['lockhart-martinelli', 'friedel'];
+
+export interface TwoPhaseSegmentInput {
+  readonly pipe: PipeSpec;
+  readonly material: PipeMaterial;
+  /** 液相物性（飽和液） */
+  readonly liquid: FluidProperties;
+  /** 気相物性（飽和蒸気・非凝縮性ガス） */
+  readonly gas: FluidProperties;
+  /** 表面張力 (N/m) */
+  readonly surfaceTension_n_m: number;
+  /** 質量流束 G (kg/(m²·s)) */
+  readonly massFlux_kg_m2s: number;
+  /** 入口クオリティ x（気相質量分率, 0 ≤ x ≤ 1） */
+  readonly quality: number;
+  /** 出口クオリティ（フラッシュ・凝縮による加速損失用。省略時は入口と同じ） */
+  readonly outletQuality?: number;
+  readonly length_m: number;
+  readonly elevation_m: number;
+  readonly fittings: FittingInput[];
+  /** 二相摩擦損失倍率の相関式（省略時は Friedel） */
+  readonly method?: TwoPhaseMethod;
+  /** 単相摩擦係数の計算手法（省略時は Churchill） */
+  readonly frictionMethod?: DarcyFrictionFactorMethod;
+  /** 継手 K 値の算出手法（省略時は Darby 3-K） */
+  readonly fittingMethod?: FittingMethod;
+}
+
+/**
+ * 気液二相区間の計算結果
+ *
+ * SegmentResult の各項目は二相流として次のように読み替える:
+ * velocity は均質流速 G/ρ_H、reynolds・frictionFactor は全量液相流れ (liquid only)、
+ * 水頭換算はボイド率に基づく二相密度による。
+ */
+export interface TwoPhaseSegmentResult extends SegmentResult {
+  readonly method: TwoPhaseMethod;
+  readonly massFlux_kg_m2s: number;
+  readonly quality: number;
+  readonly outletQuality: number;
+  /** ボイド率 α（入口） */
+  readonly voidFraction: number;
+  /** 均質流密度 ρ_H = [x/ρ_G + (1−x)/ρ_L]⁻¹ (kg/m³) */
+  readonly homogeneousDensity: number;
+  /** ボイド率に基づく二相密度 ρ_TP = αρ_G + (1−α)ρ_L (kg/m³) */
+  readonly twoPhaseDensity: number;
+  /** Lockhart-Martinelli パラメータ X */
+  readonly martinelliParameter: number;
+  /** 全量液相基準の二相摩擦損失倍率 φ²_LO */
+  readonly twoPhaseMultiplier: number;
+  /** 加速損失 (Pa) — クオリティ変化による運動量変化 */
+  readonly dp_acceleration: number;
 }
 
 // ── 系統入力・結果（直列マルチセグメント） ──
@@ -132,6 +438,11 @@ export interface SegmentResult {
 /** 系統全体の入力（複数セグメントの直列接続） */
 export interface SystemInput {
   readonly segments: SegmentInput[];
+  /**
+   * 熱損失モデル（省略時は断熱系 = 全区間で流体物性共通）。
+   * 指定時は先頭区間の流体温度から区間ごとに温度を逐次計算し、各区間の平均温度で物性を再取得する。
+   */
+  readonly thermal?: SystemThermalInput;
 }
 
 /** 系統全体の計算結果 */
@@ -148,6 +459,11 @@ export interface SystemResult {
   readonly head_elevation_total_m: number;
   readonly head_total_m: number;
 
+  /** 系統出口温度 (°C)（熱損失モデル使用時のみ） */
+  readonly outletTemperature_c?: number;
+  /** 系統全体の熱損失 (W)（熱損失モデル使用時のみ） */
+  readonly heatLoss_total_w?: number;
+
   readonly references: Reference[];
   readonly warnings: readonly CalcWarning[];
 }
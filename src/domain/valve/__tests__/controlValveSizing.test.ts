@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcLiquidCriticalPressureRatio, calcChokedPressureDrop, calcRequiredCv, calcInherentFlowFraction,
+  calcValveOpening, calcInstalledCharacteristic, sizeControlValve,
+} from '../controlValveSizing';
+import { ControlValveCatalog, ControlValveSizingInput } from '../types';
+import { calcKFromCv, calcFittingLoss } from '../../fittings/kValue';
+import catalogJson from '../../../../data/valve-specs/sample-control-valves.json';
+
+const catalog = catalogJson as unknown as ControlValveCatalog;
+
+/** 20 °C の水、10 m³/h、弁差圧 100 kPa、系統損失 100 kPa */
+const baseInput: ControlValveSizingInput = {
+  flowRate_m3h: 10,
+  density: 998.2,
+  vaporPressure_kpa: 2.339,
+  systemDp_kpa: 100,
+  conditions: {
+    inletPressure_kpa: 500,
+    valveDp_kpa: 100,
+    criticalPressure_kpa: 22064,
+    characteristic: 'equal_percentage',
+    maxOpening: 0.8,
+  },
+};
+
+describe('calcLiquidCriticalPressureRatio', () => {
+  it('should give F_F = 0.96 − 0.28√(p_v/p_c)', () => {
+    expect(calcLiquidCriticalPressureRatio(2.339, 22064)).toBeCloseTo(0.96 - 0.28 * Math.sqrt(2.339 / 22064), 12);
+    expect(calcLiquidCriticalPressureRatio(0, 22064)).toBe(0.96);
+  });
+});
+
+describe('calcChokedPressureDrop', () => {
+  it('should give F_L²(p₁ − F_F p_v)', () => {
+    expect(calcChokedPressureDrop(0.9, 500, 0.95, 10)).toBeCloseTo(0.81 * (500 - 9.5), 10);
+  });
+});
+
+describe('calcRequiredCv', () => {
+  it('should give (Q/N₁)√(SG/Δp) with N₁ = 0.0865', () => {
+    expect(calcRequiredCv(10, 1, 100)).toBeCloseTo(10 / 0.0865 / 10, 10);
+  });
+
+  it('should be consistent with the Cv → K conversion', () => {
+    // 2" Sch 40, Cv = 50, 20 m³/h: ΔP = K·ρV²/2 と SG(Q/(N₁Cv))² が 1% 以内で一致
+    const id_mm = 52.5;
+    const velocity = (20 / 3600) / (Math.PI * Math.pow(id_mm / 1000, 2) / 4);
+    const dp_kpa = calcFittingLoss(calcKFromCv(50, id_mm), 1000, velocity).dp_pa / 1000;
+    expect(Math.abs(calcRequiredCv(20, 1, dp_kpa) / 50 - 1)).toBeLessThan(0.01);
+  });
+
+  it('should reject a non-positive pressure drop', () => {
+    expect(() => calcRequiredCv(10, 1, 0)).toThrow('Sizing pressure drop');
+  });
+});
+
+describe('inherent characteristic', () => {
+  it('should give φ = R^(x−1) for equal percentage', () => {
+    expect(calcInherentFlowFraction('equal_percentage', 1, 50)).toBe(1);
+    expect(calcInherentFlowFraction('equal_percentage', 0, 50)).toBeCloseTo(1 / 50, 12);
+    expect(calcInherentFlowFraction('linear', 0.3, 50)).toBe(0.3);
+  });
+
+  it('should invert the characteristic to an opening', () => {
+    for (const x of [0.2, 0.5, 0.9]) {
+      expect(calcValveOpening('equal_percentage', calcInherentFlowFraction('equal_percentage', x, 50), 50)).toBeCloseTo(x, 10);
+      expect(calcValveOpening('linear', x, 50)).toBe(x);
+    }
+    expect(calcValveOpening('equal_percentage', 0.001, 50)).toBe(0);
+  });
+});
+
+describe('calcInstalledCharacteristic', () => {
+  it('should equal the inherent characteristic at full authority', () => {
+    const points = calcInstalledCharacteristic('equal_percentage', 1, 50);
+    expect(points).toHaveLength(21);
+    for (const p of points) expect(p.installed).toBeCloseTo(p.inherent, 12);
+  });
+
+  it('should distort a linear trim toward quick opening at low authority', () => {
+    const points = calcInstalledCharacteristic('linear', 0.2, 50);
+    const half = points.find(p => p.opening === 0.5)!;
+    // 1/√(0.8 + 0.2/0.25) = 1/√1.6
+    expect(half.installed).toBeCloseTo(1 / Math.sqrt(1.6), 12);
+    expect(half.installed).toBeGreaterThan(0.5);
+    expect(points[0].installed).toBe(0);
+    expect(points[points.length - 1].installed).toBeCloseTo(1, 12);
+  });
+});
+
+describe('sizeControlValve', () => {
+  it('should select the smallest catalog valve within the maximum opening', () => {
+    const result = sizeControlValve(baseInput, catalog);
+    const requiredCv = calcRequiredCv(10, 0.9982, 100);
+
+    expect(result.candidates.every(c => c.valve.characteristic === 'equal_percentage')).toBe(true);
+    expect(result.selectedIndex).not.toBeNull();
+    const selected = result.candidates[result.selectedIndex!];
+    expect(selected.requiredCv).toBeCloseTo(requiredCv, 10);
+    expect(selected.opening).toBeLessThanOrEqual(0.8);
+    // 1 つ小さい弁は開度超過
+    expect(result.candidates[result.selectedIndex! - 1].acceptable).toBe(false);
+    expect(selected.opening).toBeCloseTo(1 + Math.log(requiredCv / selected.valve.ratedCv) / Math.log(50), 10);
+
+    expect(result.authority).toBeCloseTo(0.5, 12);
+    // 全開時: Δp_full = SG (Q/(N₁ Cv_rated))²、N₀ = Δp_full / (Δp_full + Δp_system)
+    const fullOpenDp = 0.9982 * Math.pow(10 / (0.0865 * selected.valve.ratedCv), 2);
+    expect(result.fullOpenAuthority).toBeCloseTo(fullOpenDp / (fullOpenDp + 100), 12);
+    expect(result.fullOpenAuthority).toBeLessThan(result.authority);
+    expect(result.installedCharacteristics?.linear).toHaveLength(21);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should size on the choked pressure drop and warn', () => {
+    const result = sizeControlValve({
+      ...baseInput,
+      conditions: { ...baseInput.conditions, inletPressure_kpa: 150, valveDp_kpa: 140 },
+    }, catalog);
+    const selected = result.candidates[result.selectedIndex!];
+    expect(selected.choked).toBe(true);
+    expect(selected.sizingDp_kpa).toBeCloseTo(calcChokedPressureDrop(selected.valve.fl, 150, result.ff, 2.339), 10);
+    expect(result.warnings.map(w => w.messageKey)).toContain('warn.valve_choked');
+  });
+
+  it('should warn about flashing when the outlet pressure is below the vapor pressure', () => {
+    const result = sizeControlValve({
+      ...baseInput,
+      density: 958.4,
+      vaporPressure_kpa: 101.4,
+      conditions: { ...baseInput.conditions, inletPressure_kpa: 150, valveDp_kpa: 60 },
+    }, catalog);
+    expect(result.outletPressure_kpa).toBe(90);
+    const keys = result.warnings.map(w => w.messageKey);
+    expect(keys).toContain('warn.valve_flashing');
+    expect(keys).not.toContain('warn.valve_choked');
+  });
+
+  it('should report no selection when the catalog valves are too small', () => {
+    const result = sizeControlValve({ ...baseInput, flowRate_m3h: 500 }, catalog);
+    expect(result.selectedIndex).toBeNull();
+    expect(result.installedCharacteristics).toBeUndefined();
+    expect(result.warnings.find(w => w.messageKey === 'warn.valve_no_catalog_match')).toBeDefined();
+  });
+
+  it('should warn about low valve authority', () => {
+    const result = sizeControlValve({ ...baseInput, systemDp_kpa: 400 }, catalog);
+    expect(result.authority).toBeCloseTo(0.2, 12);
+    expect(result.warnings.find(w => w.messageKey === 'warn.valve_low_authority')?.messageParams)
+      .toEqual({ n: 0.2, min: 0.25 });
+  });
+
+  it('should reject a valve pressure drop not below the inlet pressure', () => {
+    expect(() => sizeControlValve({
+      ...baseInput, conditions: { ...baseInput.conditions, valveDp_kpa: 500 },
+    }, catalog)).toThrow('less than the inlet pressure');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * 調節弁サイジング（IEC 60534-2-1 非圧縮性流体）
+ *
+ * 必要 Cv:      C = (Q/N₁) √((ρ₁/ρ₀)/Δp_sizing),  N₁ = 0.0865 (Q: m³/h, Δp: kPa)
+ * 閉塞流れ:    Δp_max = F_L² (p₁ − F_F p_v),  F_F = 0.96 − 0.28 √(p_v/p_c)
+ *              Δp_sizing = min(Δp, Δp_max)
+ * 固有特性:    リニア φ = x、イコールパーセント φ = R^(x−1)
+ * 据付特性:    Q/Q_max = 1 / √(1 − N₀ + N₀/φ²)  （N₀: 全開時の弁オーソリティ）
+ *
+ * 弁口径 = 配管口径（配管形状係数 F_P = 1）を前提とする。
+ * 据付特性は供給側の全差圧が一定、系統損失が流量の 2 乗に比例すると仮定する。
+ */
+
+import { Reference } from '../types';
+import { generateControlValveWarnings } from '../system/calcWarnings';
+import {
+  ValveCharacteristic, VALVE_CHARACTERISTICS, ControlValveCatalog, ControlValveCandidate,
+  ControlValveSizingInput, ControlValveSizingResult, InstalledCharacteristicPoint,
+} from './types';
+
+/** IEC 60534-2-1 の数値定数 N₁（Cv, m³/h, kPa） */
+const N1 = 0.0865;
+
+/** 比重の基準密度 ρ₀ (kg/m³) — 15 °C の水 */
+const REFERENCE_DENSITY = 1000;
+
+/** 据付特性曲線の開度刻み数 */
+const CHARACTERISTIC_STEPS = 20;
+
+const IEC_60534_REF: Reference = {
+  source: 'IEC 60534-2-1:2011',
+  equation: 'C = (Q/N₁)√((ρ₁/ρ₀)/Δp), Δp_max = F_L²(p₁ − F_F p_v)',
+};
+
+/**
+ * 液体臨界圧力比係数 F_F = 0.96 − 0.28 √(p_v/p_c)
+ *
+ * @param vaporPressure_kpa - 蒸気圧 (kPa abs)
+ * @param criticalPressure_kpa - 臨界圧力 (kPa abs)
+ */
+export function calcLiquidCriticalPressureRatio(vaporPressure_kpa: number, criticalPressure_kpa: number): number {
+  if (criticalPressure_kpa <= 0) throw new Error('Critical pressure must be positive');
+  if (vaporPressure_kpa < 0) throw new Error('Vapor pressure must be non-negative');
+  return 0.96 - 0.28 * Math.sqrt(vaporPressure_kpa / criticalPressure_kpa);
+}
+
+/**
+ * 閉塞流れとなる限界差圧 Δp_max = F_L² (p₁ − F_F p_v) (kPa)
+ */
+export function calcChokedPressureDrop(fl: number, inletPressure_kpa: number, ff: number, vaporPressure_kpa: number): number {
+  return fl * fl * (inletPressure_kpa - ff * vaporPressure_kpa);
+}
+
+/**
+ * 必要 Cv = (Q/N₁) √(SG/Δp)
+ *
+ * @param flowRate_m3h - 体積流量 (m³/h)
+ * @param specificGravity - 比重 ρ₁/ρ₀
+ * @param dp_kpa - サイジング差圧 (kPa)
+ */
+export function calcRequiredCv(flowRate_m3h: number, specificGravity: number, dp_kpa: number): number {
+  if (dp_kpa <= 0) throw new Error('Sizing pressure drop must be positive');
+  return (flowRate_m3h / N1) * Math.sqrt(specificGravity / dp_kpa);
+}
+
+/**
+ * 固有流量特性 φ(x) = Cv(x)/Cv_rated
+ *
+ * @param characteristic - 固有流量特性
+ * @param opening - 開度 x (0–1)
+ * @param rangeability - レンジアビリティ R（イコールパーセントで使用）
+ */
+export function calcInherentFlowFraction(characteristic: ValveCharacteristic, opening: number, rangeability: number): number {
+  switch (characteristic) {
+    case 'linear':
+      return opening;
+    case 'equal_percentage':
+      return Math.pow(rangeability, opening - 1);
+  }
+}
+
+/**
+ * 相対 Cv φ を得る開度 x（固有特性の逆関数、0 未満は 0 とする）
+ */
+export function calcValveOpening(characteristic: ValveCharacteristic, cvRatio: number, rangeability: number): number {
+  switch (characteristic) {
+    case 'linear':
+      return Math.max(cvRatio, 0);
+    case 'equal_percentage':
+      return cvRatio > 0 ? Math.max(1 + Math.log(cvRatio) / Math.log(rangeability), 0) : 0;
+  }
+}
+
+/**
+ * 据付特性曲線 Q/Q_max = 1 / √(1 − N₀ + N₀/φ²)
+ *
+ * @param characteristic - 固有流量特性
+ * @param fullOpenAuthority - 全開時の弁オーソリティ N₀ (0–1]
+ * @param rangeability - レンジアビリティ R
+ */
+export function calcInstalledCharacteristic(
+  characteristic: ValveCharacteristic,
+  fullOpenAuthority: number,
+  rangeability: number
+): InstalledCharacteristicPoint[] {
+  const points: InstalledCharacteristicPoint[] = [];
+  for (let i = 0; i <= CHARACTERISTIC_STEPS; i++) {
+    const opening = i / CHARACTERISTIC_STEPS;
+    const inherent = calcInherentFlowFraction(characteristic, opening, rangeability);
+    const installed = inherent > 0
+      ? 1 / Math.sqrt(1 - fullOpenAuthority + fullOpenAuthority / (inherent * inherent))
+      : 0;
+    points.push({ opening, inherent, installed });
+  }
+  return points;
+}
+
+/**
+ * 液体用調節弁をサイジングし、カタログから弁を選定する
+ *
+ * 指定特性のカタログ弁ごとに F_L を用いて閉塞判定・必要 Cv・設計開度を求め、
+ * 設計開度が最大開度以下となる最小の弁を選定する。
+ *
+ * @param input - 流量・流体・系統損失・設計条件
+ * @param catalog - 調節弁カタログ
+ * @returns ControlValveSizingResult
+ */
+export function sizeControlValve(input: ControlValveSizingInput, catalog: ControlValveCatalog): ControlValveSizingResult {
+  const { flowRate_m3h, density, vaporPressure_kpa, systemDp_kpa, conditions } = input;
+  const { inletPressure_kpa, valveDp_kpa, criticalPressure_kpa, characteristic, maxOpening } = conditions;
+
+  if (flowRate_m3h <= 0) throw new Error('Flow rate must be positive');
+  if (density <= 0) throw new Error('Density must be positive');
+  if (valveDp_kpa <= 0) throw new Error('Valve pressure drop must be positive');
+  if (valveDp_kpa >= inletPressure_kpa) throw new Error('Valve pressure drop must be less than the inlet pressure');
+  if (systemDp_kpa < 0) throw new Error('System pressure drop must be non-negative');
+  if (maxOpening <= 0 || maxOpening > 1) throw new Error('Maximum opening must be in (0, 1]');
+  if (!VALVE_CHARACTERISTICS.includes(characteristic)) throw new Error(`Unknown valve characteristic: ${characteristic}`);
+
+  const specificGravity = density / REFERENCE_DENSITY;
+  const ff = calcLiquidCriticalPressureRatio(vaporPressure_kpa, criticalPressure_kpa);
+  const outletPressure_kpa = inletPressure_kpa - valveDp_kpa;
+
+  const valves = catalog.valves
+    .filter(v => v.characteristic === characteristic)
+    .sort((a, b) => a.ratedCv - b.ratedCv);
+  if (valves.length === 0) throw new Error(`No control valves with characteristic: ${characteristic}`);
+
+  const candidates: ControlValveCandidate[] = valves.map(valve => {
+    const chokedDp_kpa = calcChokedPressureDrop(valve.fl, inletPressure_kpa, ff, vaporPressure_kpa);
+    const choked = valveDp_kpa >= chokedDp_kpa;
+    const sizingDp_kpa = Math.min(valveDp_kpa, chokedDp_kpa);
+    const requiredCv = calcRequiredCv(flowRate_m3h, specificGravity, sizingDp_kpa);
+    const opening = requiredCv <= valve.ratedCv
+      ? calcValveOpening(characteristic, requiredCv / valve.ratedCv, valve.rangeability)
+      : requiredCv / valve.ratedCv;
+    return { valve, chokedDp_kpa, choked, sizingDp_kpa, requiredCv, opening, acceptable: opening <= maxOpening };
+  });
+
+  const found = candidates.findIndex(c => c.acceptable);
+  const selectedIndex = found >= 0 ? found : null;
+  const selected = selectedIndex !== null ? candidates[selectedIndex] : undefined;
+
+  // 弁オーソリティ（設計流量時）と、選定弁の全開時オーソリティ
+  // 弁・系統の差圧はいずれも Q² に比例するため、全開時の比は設計流量での値から求まる
+  const authority = valveDp_kpa / (valveDp_kpa + systemDp_kpa);
+  let fullOpenAuthority: number | undefined;
+  let installedCharacteristics: ControlValveSizingResult['installedCharacteristics'];
+  if (selected) {
+    const fullOpenDp_kpa = specificGravity * Math.pow(flowRate_m3h / (N1 * selected.valve.ratedCv), 2);
+    fullOpenAuthority = fullOpenDp_kpa / (fullOpenDp_kpa + systemDp_kpa);
+    installedCharacteristics = {
+      linear: calcInstalledCharacteristic('linear', fullOpenAuthority, selected.valve.rangeability),
+      equal_percentage: calcInstalledCharacteristic('equal_percentage', fullOpenAuthority, selected.valve.rangeability),
+    };
+  }
+
+  const governing = selected ?? candidates[candidates.length - 1];
+  const warnings = generateControlValveWarnings({
+    valveDp_kpa,
+    chokedDp_kpa: governing.chokedDp_kpa,
+    outletPressure_kpa,
+    vaporPressure_kpa,
+    authority,
+    requiredCv: governing.requiredCv,
+    selected: selected !== undefined,
+  });
+
+  return {
+    specificGravity,
+    ff,
+    outletPressure_kpa,
+    candidates,
+    selectedIndex,
+    authority,
+    fullOpenAuthority,
+    installedCharacteristics,
+    references: [IEC_60534_REF, { source: catalog.referenceId }],
+    warnings,
+  };
+}
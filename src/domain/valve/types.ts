@@ -0,0 +1,112 @@
+/**
+ * 調節弁サイジング型定義（IEC 60534-2-1 液体）
+ *
+ * 圧力は絶対圧 (kPa)、流量は m³/h、流量係数は Cv (US gal/min @ 1 psi) で扱う。
+ */
+
+import { Reference, CalcWarning } from '@domain/types';
+
+// ── 弁特性 ──
+
+/** 固有流量特性（リニア / イコールパーセント） */
+export type ValveCharacteristic = 'linear' | 'equal_percentage';
+
+/** 全固有流量特性（UI 選択肢・入力検証用） */
+export const VALVE_CHARACTERISTICS: readonly ValveCharacteristic[] = ['linear', 'equal_percentage'];
+
+// ── 弁カタログ ──
+
+export interface ControlValveCatalogEntry {
+  readonly id: string;
+  readonly name: string;
+  readonly name_ja: string;
+  /** 弁呼び径 DN */
+  readonly dn: number;
+  readonly characteristic: ValveCharacteristic;
+  /** 全開時の定格 Cv */
+  readonly ratedCv: number;
+  /** 液体圧力回復係数 F_L (−) */
+  readonly fl: number;
+  /** レンジアビリティ R = Cv_max / Cv_min (−) */
+  readonly rangeability: number;
+}
+
+export interface ControlValveCatalog {
+  readonly referenceId: string;
+  readonly valves: readonly ControlValveCatalogEntry[];
+}
+
+// ── 入力 ──
+
+/** 調節弁の設計条件 */
+export interface ControlValveConditions {
+  /** 弁入口圧力 p₁ (kPa 絶対圧) */
+  readonly inletPressure_kpa: number;
+  /** 設計流量での弁差圧 Δp (kPa) */
+  readonly valveDp_kpa: number;
+  /** 流体の熱力学的臨界圧力 p_c (kPa 絶対圧)。F_F の算出に用いる */
+  readonly criticalPressure_kpa: number;
+  readonly characteristic: ValveCharacteristic;
+  /** 設計流量で許容する最大開度 (0–1) */
+  readonly maxOpening: number;
+}
+
+export interface ControlValveSizingInput {
+  readonly flowRate_m3h: number;
+  /** 流体密度 ρ₁ (kg/m³) */
+  readonly density: number;
+  /** 蒸気圧 p_v (kPa 絶対圧) */
+  readonly vaporPressure_kpa: number;
+  /** 弁以外の系統の流量依存損失（直管 + 継手）(kPa)。弁オーソリティの算出に用いる */
+  readonly systemDp_kpa: number;
+  readonly conditions: ControlValveConditions;
+}
+
+// ── 計算結果 ──
+
+/** カタログ候補 1 件のサイジング結果 */
+export interface ControlValveCandidate {
+  readonly valve: ControlValveCatalogEntry;
+  /** 閉塞流れの限界差圧 Δp_max = F_L²(p₁ − F_F p_v) (kPa) */
+  readonly chokedDp_kpa: number;
+  readonly choked: boolean;
+  /** サイジング差圧 min(Δp, Δp_max) (kPa) */
+  readonly sizingDp_kpa: number;
+  /** 必要 Cv */
+  readonly requiredCv: number;
+  /** 設計流量での開度 (0–1)。必要 Cv が定格を超える場合は 1 を超える */
+  readonly opening: number;
+  /** 必要 Cv が定格 Cv 以下かつ開度が最大開度以下 */
+  readonly acceptable: boolean;
+}
+
+/** 据付特性曲線上の 1 点 */
+export interface InstalledCharacteristicPoint {
+  /** 開度 (0–1) */
+  readonly opening: number;
+  /** 固有特性の相対 Cv φ = Cv/Cv_rated (−) */
+  readonly inherent: number;
+  /** 据付特性の相対流量 Q/Q_max (−) */
+  readonly installed: number;
+}
+
+export interface ControlValveSizingResult {
+  /** 比重 ρ₁/ρ₀ (ρ₀ = 1000 kg/m³) */
+  readonly specificGravity: number;
+  /** 液体臨界圧力比係数 F_F = 0.96 − 0.28√(p_v/p_c) */
+  readonly ff: number;
+  /** 弁出口圧力 p₂ = p₁ − Δp (kPa 絶対圧) */
+  readonly outletPressure_kpa: number;
+  /** 指定特性のカタログ候補（定格 Cv 昇順） */
+  readonly candidates: ControlValveCandidate[];
+  /** 選定弁（候補中で条件を満たす最小の弁）のインデックス。該当なしは null */
+  readonly selectedIndex: number | null;
+  /** 弁オーソリティ N = Δp_valve / (Δp_valve + Δp_system) */
+  readonly authority: number;
+  /** 選定弁の全開時オーソリティ（据付特性の算出に用いる）。選定なしは undefined */
+  readonly fullOpenAuthority?: number;
+  /** 選定弁の定格 Cv・レンジアビリティで評価した特性別の据付特性曲線 */
+  readonly installedCharacteristics?: Record<ValveCharacteristic, InstalledCharacteristicPoint[]>;
+  readonly references: Reference[];
+  readonly warnings: CalcWarning[];
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getAvailableMaterials, resolveMaterial } from '../materialResolver';
+import { getAvailableMaterials, resolveMaterial, resolvePipeWall } from '../materialResolver';
 
 describe('getAvailableMaterials', () => {
   it('should return all 16 materials', () => {
@@ -26,8 +26,35 @@ describe('resolveMaterial', () => {
     expect(mat!.reference.source).toBe('Moody, 1944');
   });
 
+  it('should resolve a Hazen-Williams C-factor for every material', () => {
+    for (const m of getAvailableMaterials()) {
+      expect(resolveMaterial(m.id)!.hazenWilliamsC).toBeGreaterThan(0);
+    }
+    expect(resolveMaterial('carbon_steel_new')!.hazenWilliamsC).toBe(120);
+    expect(resolveMaterial('carbon_steel_new')!.hazenWilliamsReference?.source).toBe('nfpa-13-2022');
+  });
+
   it('should return null for nonexistent material', () => {
     const mat = resolveMaterial('nonexistent');
     expect(mat).toBeNull();
   });
 });
+
+describe('resolvePipeWall', () => {
+  it('should have elastic constants for every roughness material', () => {
+    for (const m of getAvailableMaterials()) {
+      expect(resolvePipeWall(m.id)).not.toBeNull();
+    }
+  });
+
+  it('should resolve carbon steel modulus in Pa', () => {
+    const wall = resolvePipeWall('carbon_steel_new');
+    expect(wall!.elasticModulus_pa).toBe(207e9);
+    expect(wall!.poissonRatio).toBe(0.3);
+    expect(wall!.reference.source).toBe('Wylie & Streeter, 1993');
+  });
+
+  it('should return null for nonexistent material', () => {
+    expect(resolvePipeWall('nonexistent')).toBeNull();
+  });
+});
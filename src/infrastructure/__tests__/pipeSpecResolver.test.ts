@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getAvailableSizes, getAvailableSchedules, resolvePipeSpec } from '../pipeSpecResolver';
+import { getAvailableSizes, getAvailableSchedules, resolvePipeSpec, resolvePipeSpecsForSizing, resolveInstalledCost } from '../pipeSpecResolver';
 
 describe('getAvailableSizes', () => {
   it('should return all ANSI sizes', () => {
@@ -63,3 +63,44 @@ describe('resolvePipeSpec', () => {
     expect(spec).toBeNull();
   });
 });
+
+describe('resolvePipeSpecsForSizing', () => {
+  it('should resolve every ANSI size with Sch40 in ascending order', () => {
+    const specs = resolvePipeSpecsForSizing('ansi', '40');
+    expect(specs.length).toBe(19);
+    expect(specs.every(s => s.schedule === '40')).toBe(true);
+    for (let i = 1; i < specs.length; i++) {
+      expect(specs[i].id_mm).toBeGreaterThan(specs[i - 1].id_mm);
+    }
+  });
+
+  it('should skip ANSI sizes without the requested schedule', () => {
+    const specs = resolvePipeSpecsForSizing('ansi', '20');
+    expect(specs.length).toBe(8);
+    expect(specs[0].nps).toBe('8');
+  });
+
+  it('should resolve every JIS SGP size', () => {
+    const specs = resolvePipeSpecsForSizing('jis-sgp');
+    expect(specs.length).toBe(22);
+    expect(specs[0].standard).toBe('JIS G 3452 SGP');
+  });
+});
+
+describe('resolveInstalledCost', () => {
+  it('should cover every ANSI and JIS nominal diameter', () => {
+    for (const standard of ['ansi', 'jis-sgp'] as const) {
+      for (const size of getAvailableSizes(standard)) {
+        expect(resolveInstalledCost(size.dn)).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('should increase with nominal diameter', () => {
+    expect(resolveInstalledCost(100)!).toBeGreaterThan(resolveInstalledCost(50)!);
+  });
+
+  it('should return null for unknown DN', () => {
+    expect(resolveInstalledCost(999)).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@ import {
   SingleSegmentProjectData,
   MultiSegmentProjectData,
   RouteProjectData,
+  SprinklerProjectData,
 } from '../persistence/projectFile';
 
 // ── テストデータ ──
@@ -67,6 +68,23 @@ const routeData: RouteProjectData = {
   ],
 };
 
+const sprinklerData: SprinklerProjectData = {
+  temperature_c: 15,
+  pipeStandard: 'ansi',
+  schedule: '40',
+  materialId: 'carbon_steel_new',
+  nodes: [
+    { id: 'S', elevation_m: 0 },
+    { id: 'A', elevation_m: 4 },
+  ],
+  pipes: [
+    { id: 'P1', upstreamNodeId: 'S', downstreamNodeId: 'A', nominalSize: '1', length_m: 6, fittings: [{ type: 'elbow_90', quantity: 2 }] },
+  ],
+  heads: [{ id: 'H1', nodeId: 'A', kFactor: 80, minPressure_kpa: 50, coverageArea_m2: 12 }],
+  supplyNodeId: 'S',
+  design: { density_mm_min: 5, areaOfOperation_m2: 139, hoseAllowance_lpm: 950 },
+};
+
 function makeSingleProject(): ProjectFile {
   return {
     version: PROJECT_FILE_VERSION,
@@ -100,6 +118,17 @@ function makeRouteProject(): ProjectFile {
   };
 }
 
+function makeSprinklerProject(): ProjectFile {
+  return {
+    version: PROJECT_FILE_VERSION,
+    type: 'sprinkler',
+    name: 'Test Sprinkler',
+    createdAt: '2026-02-25T00:00:00.000Z',
+    updatedAt: '2026-02-25T00:00:00.000Z',
+    data: sprinklerData,
+  };
+}
+
 // ── ラウンドトリップテスト ──
 
 describe('projectFile', () => {
@@ -144,6 +173,14 @@ describe('projectFile', () => {
       expect(data.segments[1].fittings).toHaveLength(0);
     });
 
+    it('flow element bore diameter survives round-trip', () => {
+      const original = makeMultiProject();
+      const segments = [{ ...multiData.segments[0], fittings: [{ fittingId: 'orifice_flange', quantity: 1, boreDiameter_mm: 62.5 }] }];
+      const json = serializeProjectFile({ ...original, data: { ...multiData, segments } });
+      const data = parseProjectFile(json).data as MultiSegmentProjectData;
+      expect(data.segments[0].fittings[0]).toEqual({ fittingId: 'orifice_flange', quantity: 1, boreDiameter_mm: 62.5 });
+    });
+
     it('route data survives round-trip', () => {
       const original = makeRouteProject();
       const json = serializeProjectFile(original);
@@ -162,6 +199,133 @@ describe('projectFile', () => {
       expect(data.nodes[2]).toEqual({ id: 'n3', x: 10, y: 5, z: 3, fittings: [] });
     });
 
+    it('frictionMethod survives round-trip and is optional', () => {
+      const original: ProjectFile = { ...makeMultiProject(), data: { ...multiData, frictionMethod: 'serghides' } };
+      const parsed = parseProjectFile(serializeProjectFile(original));
+      expect((parsed.data as MultiSegmentProjectData).frictionMethod).toBe('serghides');
+
+      const legacy = parseProjectFile(serializeProjectFile(makeSingleProject()));
+      expect((legacy.data as SingleSegmentProjectData).frictionMethod).toBeUndefined();
+    });
+
+    it('fittingMethod survives round-trip and is optional', () => {
+      const original: ProjectFile = { ...makeSingleProject(), data: { ...makeSingleProject().data as SingleSegmentProjectData, fittingMethod: 'l_over_d' } };
+      const parsed = parseProjectFile(serializeProjectFile(original));
+      expect((parsed.data as SingleSegmentProjectData).fittingMethod).toBe('l_over_d');
+
+      const hooper: ProjectFile = { ...makeMultiProject(), data: { ...makeMultiProject().data as MultiSegmentProjectData, fittingMethod: '2k' } };
+      expect((parseProjectFile(serializeProjectFile(hooper)).data as MultiSegmentProjectData).fittingMethod).toBe('2k');
+
+      const legacy = parseProjectFile(serializeProjectFile(makeMultiProject()));
+      expect((legacy.data as MultiSegmentProjectData).fittingMethod).toBeUndefined();
+    });
+
+    it('rheology survives round-trip and is optional', () => {
+      const rheology = { model: 'herschel_bulkley', yieldStress_pa: 5, k: 0.3, n: 0.6 } as const;
+      const original: ProjectFile = { ...makeRouteProject(), data: { ...makeRouteProject().data as RouteProjectData, rheology } };
+      const parsed = parseProjectFile(serializeProjectFile(original));
+      expect((parsed.data as RouteProjectData).rheology).toEqual(rheology);
+
+      const legacy = parseProjectFile(serializeProjectFile(makeSingleProject()));
+      expect((legacy.data as SingleSegmentProjectData).rheology).toBeUndefined();
+    });
+
+    it('heatLoss survives round-trip and is optional', () => {
+      const heatLoss = {
+        ambientTemperature_c: -5, insulationThickness_mm: 40, insulationConductivity_w_mk: 0.04,
+        outerFilmCoefficient_w_m2k: 12, specificHeat_j_kgk: 3600,
+      };
+      const original: ProjectFile = { ...makeRouteProject(), data: { ...makeRouteProject().data as RouteProjectData, heatLoss } };
+      const parsed = parseProjectFile(serializeProjectFile(original));
+      expect((parsed.data as RouteProjectData).heatLoss).toEqual(heatLoss);
+
+      const legacy = parseProjectFile(serializeProjectFile(makeRouteProject()));
+      expect((legacy.data as RouteProjectData).heatLoss).toBeUndefined();
+    });
+
+    it('surge conditions survive round-trip and are optional', () => {
+      const surge = {
+        closureTime_s: 3, operatingPressure_kpa: 400, designPressure_kpa: 1000,
+        bulkModulus_gpa: 2.19, anchorage: 'upstream' as const,
+      };
+      const original: ProjectFile = { ...makeRouteProject(), data: { ...makeRouteProject().data as RouteProjectData, surge } };
+      const parsed = parseProjectFile(serializeProjectFile(original));
+      expect((parsed.data as RouteProjectData).surge).toEqual(surge);
+
+      const legacy = parseProjectFile(serializeProjectFile(makeRouteProject()));
+      expect((legacy.data as RouteProjectData).surge).toBeUndefined();
+    });
+
+    it('suction-side segments and pump inlet node survive round-trip', () => {
+      const segments = [{ ...multiData.segments[0], suction: true }, multiData.segments[1]];
+      const multi = parseProjectFile(serializeProjectFile({ ...makeMultiProject(), data: { ...multiData, segments } }));
+      expect((multi.data as MultiSegmentProjectData).segments.map(s => s.suction)).toEqual([true, undefined]);
+
+      const route = parseProjectFile(serializeProjectFile({ ...makeRouteProject(), data: { ...routeData, pumpInletNodeId: 'n2' } }));
+      expect((route.data as RouteProjectData).pumpInletNodeId).toBe('n2');
+    });
+
+    it('control valve conditions survive round-trip and are optional', () => {
+      const controlValve = {
+        inletPressure_kpa: 500, valveDp_kpa: 100, criticalPressure_kpa: 22064,
+        characteristic: 'equal_percentage' as const, maxOpening: 0.8,
+      };
+      const original: ProjectFile = { ...makeMultiProject(), data: { ...multiData, controlValve } };
+      const parsed = parseProjectFile(serializeProjectFile(original));
+      expect((parsed.data as MultiSegmentProjectData).controlValve).toEqual(controlValve);
+
+      const legacy = parseProjectFile(serializeProjectFile(makeMultiProject()));
+      expect((legacy.data as MultiSegmentProjectData).controlValve).toBeUndefined();
+    });
+
+    it('transient settings survive round-trip for each scenario', () => {
+      const base = { duration_s: 20, bulkModulus_gpa: 2.19, anchorage: 'anchored' as const, designPressure_kpa: 1000 };
+      const scenarios = [
+        { type: 'valve_closure' as const, upstreamHead_m: 30, downstreamHead_m: 0, closureTime_s: 2, closureExponent: 1.5 },
+        {
+          type: 'pump_trip' as const, suctionHead_m: 2, downstreamHead_m: 25, shutoffHead_m: 45,
+          ratedSpeed_rpm: 1450, efficiency: 0.75, inertia_kgm2: 0.4,
+        },
+      ];
+      for (const scenario of scenarios) {
+        const transient = { ...base, scenario };
+        const original: ProjectFile = { ...makeRouteProject(), data: { ...makeRouteProject().data as RouteProjectData, transient } };
+        const parsed = parseProjectFile(serializeProjectFile(original));
+        expect((parsed.data as RouteProjectData).transient).toEqual(transient);
+      }
+    });
+
+    it('sprinkler data survives round-trip with an optional water supply', () => {
+      const parsed = parseProjectFile(serializeProjectFile(makeSprinklerProject()));
+      expect(parsed.type).toBe('sprinkler');
+      expect(parsed.data).toEqual(sprinklerData);
+
+      const supply = { staticPressure_kpa: 500, residualPressure_kpa: 350, residualFlow_lpm: 2000 };
+      const original: ProjectFile = { ...makeSprinklerProject(), data: { ...sprinklerData, supply } };
+      expect((parseProjectFile(serializeProjectFile(original)).data as SprinklerProjectData).supply).toEqual(supply);
+    });
+
+    it('user pump curves survive round-trip and are omitted when absent', () => {
+      const pumpCurves = [{
+        referenceId: 'user-import',
+        pumpId: 'user-1',
+        manufacturer: '',
+        model: 'Imported',
+        description: 'imported.csv',
+        rated_speed_rpm: 1450,
+        suction_nps: '',
+        discharge_nps: '',
+        performance_curve: [
+          { flow_m3h: 0, head_m: 20, efficiency_pct: 0, npshr_m: 1 },
+          { flow_m3h: 10, head_m: 15, efficiency_pct: 60, npshr_m: 1.5 },
+        ],
+        curve_fit: { head: [20, -0.5], efficiency: [0, 6], npshr: [1, 0.05], minFlow_m3h: 0, maxFlow_m3h: 10 },
+      }];
+      const parsed = parseProjectFile(serializeProjectFile({ ...makeSingleProject(), pumpCurves }));
+      expect(parsed.pumpCurves).toEqual(pumpCurves);
+      expect(parseProjectFile(serializeProjectFile(makeSingleProject()))).not.toHaveProperty('pumpCurves');
+    });
+
     it('JSON output is human-readable (pretty-printed)', () => {
       const json = serializeProjectFile(makeSingleProject());
       expect(json).toContain('\n');
@@ -221,6 +385,121 @@ describe('projectFile', () => {
       expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('elbowConnection');
     });
 
+    it('rejects unknown frictionMethod', () => {
+      const base = makeRouteProject();
+      const obj = JSON.parse(serializeProjectFile(base));
+      obj.data.frictionMethod = 'moody';
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('frictionMethod');
+    });
+
+    it('rejects out-of-range transitionAngle_deg', () => {
+      const base = makeMultiProject();
+      const obj = JSON.parse(serializeProjectFile(base));
+      obj.data.segments[0].transitionAngle_deg = 270;
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('transitionAngle_deg');
+    });
+
+    it('rejects a non-boolean suction flag and an unknown pump inlet node', () => {
+      const multi = JSON.parse(serializeProjectFile(makeMultiProject()));
+      multi.data.segments[0].suction = 'yes';
+      expect(() => parseProjectFile(JSON.stringify(multi))).toThrow('segments[0].suction');
+
+      const route = JSON.parse(serializeProjectFile(makeRouteProject()));
+      route.data.pumpInletNodeId = 'n9';
+      expect(() => parseProjectFile(JSON.stringify(route))).toThrow('pumpInletNodeId');
+    });
+
+    it('rejects unknown fittingMethod', () => {
+      const base = makeMultiProject();
+      const obj = JSON.parse(serializeProjectFile(base));
+      obj.data.fittingMethod = 'crane';
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('fittingMethod');
+    });
+
+    it('rejects unknown rheology model and invalid parameters', () => {
+      const base = makeSingleProject();
+      const obj = JSON.parse(serializeProjectFile(base));
+      obj.data.rheology = { model: 'casson', yieldStress_pa: 5 };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('rheology.model');
+
+      obj.data.rheology = { model: 'power_law', k: 0.5, n: 0 };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('rheology.n');
+    });
+
+    it('rejects invalid heat-loss parameters', () => {
+      const obj = JSON.parse(serializeProjectFile(makeRouteProject()));
+      obj.data.heatLoss = { ambientTemperature_c: 0, insulationThickness_mm: -1, insulationConductivity_w_mk: 0.04, outerFilmCoefficient_w_m2k: 10 };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('heatLoss.insulationThickness_mm');
+    });
+
+    it('rejects invalid surge conditions', () => {
+      const obj = JSON.parse(serializeProjectFile(makeRouteProject()));
+      obj.data.surge = { closureTime_s: 3, operatingPressure_kpa: 400, designPressure_kpa: 1000, bulkModulus_gpa: 2.19, anchorage: 'welded' };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('surge.anchorage');
+
+      obj.data.surge = { closureTime_s: -1, operatingPressure_kpa: 400, designPressure_kpa: 1000, bulkModulus_gpa: 2.19, anchorage: 'anchored' };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('surge.closureTime_s');
+    });
+
+    it('rejects invalid control valve conditions', () => {
+      const obj = JSON.parse(serializeProjectFile(makeMultiProject()));
+      obj.data.controlValve = { inletPressure_kpa: 500, valveDp_kpa: 100, criticalPressure_kpa: 22064, characteristic: 'quick_opening', maxOpening: 0.8 };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('controlValve.characteristic');
+
+      obj.data.controlValve = { inletPressure_kpa: 500, valveDp_kpa: 100, criticalPressure_kpa: 22064, characteristic: 'linear', maxOpening: 1.2 };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('controlValve.maxOpening');
+    });
+
+    it('rejects invalid transient settings', () => {
+      const obj = JSON.parse(serializeProjectFile(makeRouteProject()));
+      const base = { duration_s: 20, bulkModulus_gpa: 2.19, anchorage: 'anchored', designPressure_kpa: 1000 };
+      obj.data.transient = { ...base, scenario: { type: 'water_column' } };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('scenario.type');
+
+      obj.data.transient = {
+        ...base,
+        scenario: { type: 'pump_trip', suctionHead_m: 0, downstreamHead_m: 20, shutoffHead_m: 40, ratedSpeed_rpm: 1450, efficiency: 1.5, inertia_kgm2: 0.4 },
+      };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('scenario.efficiency');
+    });
+
+    it('rejects invalid sprinkler heads, fittings and water supply', () => {
+      const obj = JSON.parse(serializeProjectFile(makeSprinklerProject()));
+      obj.data.heads[0].kFactor = 0;
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('heads[0].kFactor');
+
+      obj.data.heads[0].kFactor = 80;
+      obj.data.pipes[0].fittings[0].type = 'elbow_180';
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('pipes[0].fittings[0].type');
+
+      obj.data.pipes[0].fittings[0].type = 'elbow_90';
+      obj.data.supply = { staticPressure_kpa: 300, residualPressure_kpa: 400, residualFlow_lpm: 2000 };
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('supply.residualPressure_kpa');
+    });
+
+    it('rejects a non-positive flow element bore diameter', () => {
+      const obj = JSON.parse(serializeProjectFile(makeMultiProject()));
+      obj.data.segments[0].fittings = [{ fittingId: 'orifice_corner', quantity: 1, boreDiameter_mm: 0 }];
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('boreDiameter_mm');
+    });
+
+    it('rejects user pump curves with non-increasing flow or missing fields', () => {
+      const obj = JSON.parse(serializeProjectFile(makeSingleProject()));
+      const pump = {
+        referenceId: 'user-import', pumpId: 'user-1', manufacturer: '', model: 'Imported', description: '',
+        rated_speed_rpm: 2900, suction_nps: '', discharge_nps: '',
+        performance_curve: [
+          { flow_m3h: 5, head_m: 20, efficiency_pct: 0, npshr_m: 1 },
+          { flow_m3h: 5, head_m: 15, efficiency_pct: 60, npshr_m: 1.5 },
+        ],
+      };
+      obj.pumpCurves = [pump];
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('pumpCurves[0].performance_curve[1].flow_m3h');
+
+      obj.pumpCurves = [{ ...pump, rated_speed_rpm: undefined }];
+      expect(() => parseProjectFile(JSON.stringify(obj))).toThrow('pumpCurves[0].rated_speed_rpm');
+    });
+
     it('rejects fitting with non-numeric quantity', () => {
       const base = makeSingleProject();
       const obj = JSON.parse(serializeProjectFile(base));
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parsePumpCurveCsv } from '../persistence/pumpCurveCsv';
+
+describe('parsePumpCurveCsv', () => {
+  it('parses rows after a header line', () => {
+    const csv = 'flow_m3h,head_m,efficiency_pct,npshr_m\n0,25,0,1.0\n12,20,63,1.5\n27,3,40,4.5\n';
+    expect(parsePumpCurveCsv(csv)).toEqual([
+      { flow_m3h: 0, head_m: 25, efficiency_pct: 0, npshr_m: 1.0 },
+      { flow_m3h: 12, head_m: 20, efficiency_pct: 63, npshr_m: 1.5 },
+      { flow_m3h: 27, head_m: 3, efficiency_pct: 40, npshr_m: 4.5 },
+    ]);
+  });
+
+  it('accepts tab and semicolon delimiters, CRLF, comments and blank lines', () => {
+    const csv = '# catalog CP-50-200\r\n0\t25\t0\t1.0\r\n\r\n12;20;63;1.5\r\n';
+    expect(parsePumpCurveCsv(csv)).toHaveLength(2);
+  });
+
+  it('reports the line number of invalid rows', () => {
+    expect(() => parsePumpCurveCsv('0,25,0,1\n12,20,63\n')).toThrow('Line 2: expected 4 columns');
+    expect(() => parsePumpCurveCsv('0,25,0,1\n12,abc,63,1.5\n')).toThrow('Line 2: all columns must be numbers');
+    expect(() => parsePumpCurveCsv('0,25,0,1\n12,20,130,1.5\n')).toThrow('Line 2: efficiency');
+    expect(() => parsePumpCurveCsv('0,25,0,1\n12,20,63,1.5\n12,18,65,1.7\n')).toThrow('Line 3: flow must be strictly increasing');
+  });
+
+  it('requires at least two points', () => {
+    expect(() => parsePumpCurveCsv('flow,head,eff,npshr\n0,25,0,1\n')).toThrow('At least 2 curve points');
+  });
+});
@@ -7,7 +7,13 @@
 
 import { WaterData } from '@domain/fluid/waterProperties';
 import { FluidTableData } from '@domain/fluid/fluidProperties';
-import { Darby3KData, EntranceExitData } from '@domain/fittings/fittingLoss';
+import { GasData } from '@domain/fluid/gasProperties';
+import { Darby3KData, EntranceExitData, CraneData, Hooper2KData } from '@domain/fittings/fittingLoss';
+import { FittingMethod } from '@domain/types';
+import { SprinklerFittingData } from '@domain/sprinkler/types';
+import { ControlValveCatalog } from '@domain/valve/types';
+import { FLOW_ELEMENTS } from '@domain/fittings/flowElement';
+import type { PumpCurveCoefficients } from '@domain/system/pumpCurveFit';
 import type {
   ConcentrationUnit,
   SolutionMethod,
@@ -17,17 +23,28 @@ import type {
   MethanolWaterData,
   EthanolWaterData,
 } from '@domain/fluid/solutionTypes';
-import type { SolutionInput } from '@domain/fluid/aqueousSolution';
+import type { SolutionInput, NonVolatileSolute } from '@domain/fluid/aqueousSolution';
 
 import waterJson from '@data/fluid-properties/water.json';
 import seawaterJson from '@data/fluid-properties/seawater.json';
+import gasesJson from '@data/fluid-properties/gases.json';
 import darby3kJson from '@data/fittings-db/darby-3k.json';
 import entranceExitJson from '@data/fittings-db/entrance-exit-k.json';
+import craneJson from '@data/fittings-db/crane-tp410.json';
+import hooperJson from '@data/fittings-db/hooper-2k.json';
+import sprinklerFittingJson from '@data/fittings-db/nfpa13-equivalent-length.json';
 import roughnessJson from '@data/pipe-specs/surface-roughness.json';
+import elasticModulusJson from '@data/pipe-specs/elastic-modulus.json';
+import hazenWilliamsJson from '@data/pipe-specs/hazen-williams-c.json';
+import pipeCostJson from '@data/pipe-specs/pipe-installed-cost.json';
 import ansiJson from '@data/pipe-specs/ansi-b36.10m.json';
 import jisJson from '@data/pipe-specs/jis-g3452-sgp.json';
+import controlValveJson from '@data/valve-specs/sample-control-valves.json';
 import pumpJson from '@data/pump-curves/sample-centrifugal.json';
+import pump3inchJson from '@data/pump-curves/sample-centrifugal-3inch.json';
+import pumpHighHeadJson from '@data/pump-curves/sample-centrifugal-high-head.json';
 import pumpTypeJson from '@data/pump-specs/pump-type-classification.json';
+import motorRatingsJson from '@data/pump-specs/iec-motor-ratings.json';
 
 // 水溶液データ
 import laliberteJson from '@data/fluid-properties/laliberte-coefficients.json';
@@ -86,6 +103,40 @@ export interface RoughnessData {
   readonly materials: readonly RoughnessMaterial[];
 }
 
+export interface ElasticModulusMaterial {
+  readonly id: string;
+  readonly elasticModulus_gpa: number;
+  readonly poissonRatio: number;
+}
+
+export interface ElasticModulusData {
+  readonly referenceId: string;
+  readonly materials: readonly ElasticModulusMaterial[];
+}
+
+export interface HazenWilliamsMaterial {
+  readonly id: string;
+  readonly c: number;
+}
+
+export interface HazenWilliamsData {
+  readonly referenceId: string;
+  readonly materials: readonly HazenWilliamsMaterial[];
+}
+
+// ── 配管据付費型 ──
+
+export interface PipeCostSize {
+  readonly dn: number;
+  readonly installedCost_per_m: number;
+}
+
+export interface PipeCostData {
+  readonly referenceId: string;
+  readonly currency: string;
+  readonly sizes: readonly PipeCostSize[];
+}
+
 // ── ポンプカーブ型 ──
 
 export interface PumpCurvePoint {
@@ -103,9 +154,13 @@ export interface PumpCurveData {
   readonly description: string;
   readonly description_ja?: string;
   readonly rated_speed_rpm: number;
+  /** 定格インペラ外径 (mm) — 外径カットの計算に使用 */
+  readonly impeller_diameter_mm?: number;
   readonly suction_nps: string;
   readonly discharge_nps: string;
   readonly performance_curve: readonly PumpCurvePoint[];
+  /** 性能曲線の多項式近似係数（保存済みの場合は再計算せずに用いる） */
+  readonly curve_fit?: PumpCurveCoefficients;
 }
 
 // ── 型キャスト済みデータエクスポート ──
@@ -113,11 +168,26 @@ export interface PumpCurveData {
 export const waterData = waterJson as unknown as WaterData;
 export const darby3kData = darby3kJson as unknown as Darby3KData;
 export const entranceExitData = entranceExitJson as unknown as EntranceExitData;
+export const craneData = craneJson as unknown as CraneData;
+export const hooperData = hooperJson as unknown as Hooper2KData;
+export const sprinklerFittingData = sprinklerFittingJson as unknown as SprinklerFittingData;
+export const gasData = gasesJson as unknown as GasData;
 export const roughnessData = roughnessJson as unknown as RoughnessData;
+export const elasticModulusData = elasticModulusJson as unknown as ElasticModulusData;
+export const hazenWilliamsData = hazenWilliamsJson as unknown as HazenWilliamsData;
+export const pipeCostData = pipeCostJson as unknown as PipeCostData;
 export const ansiData = ansiJson as unknown as AnsiData;
 export const jisData = jisJson as unknown as JisData;
+export const controlValveCatalog = controlValveJson as unknown as ControlValveCatalog;
 export const samplePumpData = pumpJson as unknown as PumpCurveData;
 
+/** 同梱のポンプ性能曲線ライブラリ（先頭は samplePumpData） */
+export const pumpLibrary: readonly PumpCurveData[] = [
+  samplePumpData,
+  pump3inchJson as unknown as PumpCurveData,
+  pumpHighHeadJson as unknown as PumpCurveData,
+];
+
 // ── ポンプタイプ分類データ ──
 
 import type { PumpTypeClassification } from '@domain/system/pumpRequirements';
@@ -131,6 +201,20 @@ interface PumpTypeClassificationData {
 const pumpTypeData = pumpTypeJson as unknown as PumpTypeClassificationData;
 export const pumpTypeClassifications = pumpTypeData.classifications;
 
+// ── 電動機標準定格データ ──
+
+import type { MotorRating } from '@domain/system/pumpMotor';
+
+interface MotorRatingData {
+  readonly referenceId: string;
+  readonly efficiencyClass: string;
+  readonly ratings: readonly MotorRating[];
+}
+
+const motorRatingData = motorRatingsJson as unknown as MotorRatingData;
+export const motorRatings = motorRatingData.ratings;
+export const motorEfficiencyClass = motorRatingData.efficiencyClass;
+
 // ── 水溶液データの型キャスト ──
 
 export const laliberteData = laliberteJson as unknown as LaliberteData;
@@ -490,16 +574,60 @@ export function getSolutionInput(fluidId: SolutionId): SolutionInput {
   }
 }
 
+// ── 水溶液の蒸気圧（ラウール則）用の溶質データ ──
+
+/** 非電解質の不揮発性溶質の分子量 (g/mol) */
+const nonElectrolyteMolarMass: Partial<Record<SolutionId, number>> = {
+  eg_water: 62.07,
+  pg_water: 76.09,
+  sucrose: 342.30,
+};
+
+/**
+ * 強電解質の解離数（分子量は Laliberté データを使用）
+ * 揮発性の hcl、解離が濃度に強く依存する h2so4・h3po4 は対象外
+ */
+const electrolyteDissociation: Partial<Record<SolutionId, number>> = {
+  nacl: 2,
+  cacl2: 3,
+  naoh: 2,
+  koh: 2,
+  k2co3: 3,
+  na2co3: 3,
+  mgcl2: 3,
+  kcl: 2,
+};
+
+/**
+ * ラウール則で蒸気圧を推算できる溶質データを返す
+ * 対象外（アルコール類などの揮発性溶質）の場合は null
+ */
+export function getNonVolatileSolute(fluidId: SolutionId): NonVolatileSolute | null {
+  const molarMass = nonElectrolyteMolarMass[fluidId];
+  if (molarMass !== undefined) return { molarMass_g_mol: molarMass, dissociation: 1 };
+  const dissociation = electrolyteDissociation[fluidId];
+  if (dissociation === undefined) return null;
+  return { molarMass_g_mol: laliberteData.solutes[laliberteFormulaMap[fluidId]].molar_mass, dissociation };
+}
+
 // ── 継手セレクタ用ヘルパー ──
 
 /**
  * 利用可能な継手一覧を返す（UI ドロップダウン用）
+ * fittingMethod = 'l_over_d' の場合は Crane の L/D、'2k' の場合は Hooper の K∞ を参考値として表示する
  */
-export function getAvailableFittings(): { id: string; description: string; description_ja?: string; refValue: string }[] {
+export function getAvailableFittings(fittingMethod: FittingMethod = '3k'): { id: string; description: string; description_ja?: string; refValue: string }[] {
   const items: { id: string; description: string; description_ja?: string; refValue: string }[] = [];
-  for (const f of darby3kData.fittings) items.push({ id: f.id, description: f.description, description_ja: f.description_ja, refValue: `Ki=${f.ki}` });
+  if (fittingMethod === 'l_over_d') {
+    for (const f of craneData.fittings) items.push({ id: f.id, description: f.description, description_ja: f.description_ja, refValue: `L/D=${f.l_over_d}` });
+  } else if (fittingMethod === '2k') {
+    for (const f of hooperData.fittings) items.push({ id: f.id, description: f.description, description_ja: f.description_ja, refValue: `K\u221E=${f.k_inf}` });
+  } else {
+    for (const f of darby3kData.fittings) items.push({ id: f.id, description: f.description, description_ja: f.description_ja, refValue: `Ki=${f.ki}` });
+  }
   for (const e of entranceExitData.entrances) items.push({ id: e.id, description: e.description, description_ja: e.description_ja, refValue: `K=${e.k}` });
   for (const x of entranceExitData.exits) items.push({ id: x.id, description: x.description, description_ja: x.description_ja, refValue: `K=${x.k}` });
+  for (const el of FLOW_ELEMENTS) items.push({ id: el.id, description: el.description, description_ja: el.description_ja, refValue: el.reference.source });
   items.push({ id: 'custom_k', description: 'Custom (K value)', description_ja: 'カスタム (K値入力)', refValue: '' });
   items.push({ id: 'custom_cv', description: 'Custom (Cv)', description_ja: 'カスタム (Cv)', refValue: '' });
   return items;
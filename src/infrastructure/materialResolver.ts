@@ -3,10 +3,13 @@
  *
  * surface-roughness.json から材質を検索し、
  * PipeMaterial ドメイン型に変換する。
+ * Hazen-Williams 係数 C は hazen-williams-c.json から、
+ * 水撃計算用の管壁弾性定数は elastic-modulus.json から解決する。
  */
 
 import { PipeMaterial } from '@domain/types';
-import { roughnessData } from './dataLoader';
+import { PipeWallElasticity } from '@domain/transient/types';
+import { roughnessData, elasticModulusData, hazenWilliamsData } from './dataLoader';
 
 /**
  * 利用可能な材質一覧を返す（UI ドロップダウン用）
@@ -26,10 +29,25 @@ export function getAvailableMaterials(): readonly { id: string; name: string; na
 export function resolveMaterial(materialId: string): PipeMaterial | null {
   const mat = roughnessData.materials.find(m => m.id === materialId);
   if (!mat) return null;
+  const hw = hazenWilliamsData.materials.find(m => m.id === materialId);
   return {
     id: mat.id,
     name: mat.name,
     roughness_mm: mat.roughness_mm,
+    ...(hw ? { hazenWilliamsC: hw.c, hazenWilliamsReference: { source: hazenWilliamsData.referenceId } } : {}),
     reference: { source: 'Moody, 1944' },
   };
 }
+
+/**
+ * 材質 ID → 管壁弾性定数 (PipeWallElasticity) 解決
+ */
+export function resolvePipeWall(materialId: string): PipeWallElasticity | null {
+  const mat = elasticModulusData.materials.find(m => m.id === materialId);
+  if (!mat) return null;
+  return {
+    elasticModulus_pa: mat.elasticModulus_gpa * 1e9,
+    poissonRatio: mat.poissonRatio,
+    reference: { source: 'Wylie & Streeter, 1993' },
+  };
+}
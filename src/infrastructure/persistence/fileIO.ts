@@ -12,12 +12,15 @@ import {
   SingleSegmentProjectData,
   MultiSegmentProjectData,
   RouteProjectData,
+  SprinklerProjectData,
   ProjectListFile,
   serializeProjectFile,
   parseProjectFile,
   serializeProjectListFile,
   parseProjectListFile,
 } from './projectFile';
+import { parsePumpCurveCsv } from './pumpCurveCsv';
+import { PumpCurvePoint } from '@domain/system/pumpSelection';
 
 // ── Export (download) ──
 
@@ -143,6 +146,47 @@ export function openProjectListFile(): Promise<ProjectListFile | null> {
   });
 }
 
+// ── ポンプ性能曲線 CSV Import ──
+
+export interface ImportedPumpCurve {
+  /** 拡張子を除いたファイル名 */
+  readonly name: string;
+  readonly points: PumpCurvePoint[];
+}
+
+/**
+ * ファイル選択ダイアログを開き、ポンプ性能曲線 CSV を読み込む。
+ *
+ * ユーザーがキャンセルした場合は null を返す。
+ */
+export function openPumpCurveCsvFile(): Promise<ImportedPumpCurve | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.txt,text/csv,text/plain';
+
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) { resolve(null); return; }
+
+      const reader = new FileReader();
+      reader.onload = () => {
+        try {
+          const points = parsePumpCurveCsv(reader.result as string);
+          resolve({ name: file.name.replace(/\.[^.]+$/, ''), points });
+        } catch (e) {
+          reject(e instanceof Error ? e : new Error(String(e)));
+        }
+      };
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsText(file);
+    });
+
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
+
 // ── ヘルパー: ProjectFile 生成 ──
 
 /**
@@ -198,3 +242,21 @@ export function createRouteProject(
     data,
   };
 }
+
+/**
+ * スプリンクラー水理計算の状態から ProjectFile を生成する。
+ */
+export function createSprinklerProject(
+  name: string,
+  data: SprinklerProjectData,
+): ProjectFile {
+  const now = new Date().toISOString();
+  return {
+    version: PROJECT_FILE_VERSION,
+    type: 'sprinkler' as ProjectType,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    data,
+  };
+}
@@ -2,10 +2,24 @@
  * プロジェクトファイル型定義とバリデーション
  *
  * JSON 形式のプロジェクトファイルの読み書きに使う型。
- * 3 つの計算モード（単セグメント / マルチセグメント / ルート）の
+ * 4 つの計算モード（単セグメント / マルチセグメント / ルート / スプリンクラー）の
  * UI フォーム状態をシリアライズ可能な形で定義する。
+ * ユーザーが取り込んだポンプ性能曲線は計算モードによらずプロジェクトに保存する。
  */
 
+import { FrictionFactorMethod, FRICTION_FACTOR_METHODS, FittingMethod, FITTING_METHODS, Rheology, RHEOLOGY_MODELS, HeatLossModel } from '@domain/types';
+import {
+  SurgeConditions, PipeAnchorage, PIPE_ANCHORAGES, TransientSettings, TransientScenario,
+} from '@domain/transient/types';
+import {
+  SprinklerFittingInput, SprinklerFittingType, SPRINKLER_FITTING_TYPES,
+  SprinklerNode, SprinklerHead, SprinklerDesignBasis, WaterSupplyTest,
+} from '@domain/sprinkler/types';
+import { ControlValveConditions, ValveCharacteristic, VALVE_CHARACTERISTICS } from '@domain/valve/types';
+import { PumpCurvePoint } from '@domain/system/pumpSelection';
+import { PumpCurveCoefficients } from '@domain/system/pumpCurveFit';
+import type { PumpCurveData } from '../dataLoader';
+
 // ── ファイルフォーマットバージョン ──
 
 export const PROJECT_FILE_VERSION = '1.0' as const;
@@ -17,6 +31,8 @@ export interface FittingRowData {
   readonly quantity: number;
   readonly kOverride?: number;
   readonly cvOverride?: number;
+  /** 差圧式流量計の絞り径 (mm) */
+  readonly boreDiameter_mm?: number;
 }
 
 // ── 単セグメント ──
@@ -32,6 +48,10 @@ export interface SingleSegmentProjectData {
   readonly length_m: number;
   readonly elevation_m: number;
   readonly fittings: FittingRowData[];
+  readonly frictionMethod?: FrictionFactorMethod;
+  readonly fittingMethod?: FittingMethod;
+  /** 非ニュートン流体のレオロジー（省略時はニュートン流体） */
+  readonly rheology?: Rheology;
 }
 
 // ── マルチセグメント ──
@@ -44,6 +64,10 @@ export interface MultiSegmentEntryData {
   readonly length_m: number;
   readonly elevation_m: number;
   readonly fittings: FittingRowData[];
+  /** 前区間との口径変化部の全頂角 (deg)。省略時は 180°（急縮小・急拡大） */
+  readonly transitionAngle_deg?: number;
+  /** ポンプ吸込み側の区間（NPSHa の吸込み損失・実揚程に算入） */
+  readonly suction?: boolean;
 }
 
 export interface MultiSegmentProjectData {
@@ -51,6 +75,14 @@ export interface MultiSegmentProjectData {
   readonly temperature_c: number;
   readonly flowRate_m3h: number;
   readonly segments: MultiSegmentEntryData[];
+  readonly frictionMethod?: FrictionFactorMethod;
+  readonly fittingMethod?: FittingMethod;
+  /** 非ニュートン流体のレオロジー（省略時はニュートン流体） */
+  readonly rheology?: Rheology;
+  /** 熱損失モデル（省略時は断熱系） */
+  readonly heatLoss?: HeatLossModel;
+  /** 調節弁サイジングの設計条件（省略時はサイジングしない） */
+  readonly controlValve?: ControlValveConditions;
 }
 
 // ── ルート ──
@@ -74,11 +106,48 @@ export interface RouteProjectData {
   readonly elbowConnection: 'welded' | 'threaded';
   readonly use90LongRadius: boolean;
   readonly nodes: RouteNodeData[];
+  readonly frictionMethod?: FrictionFactorMethod;
+  readonly fittingMethod?: FittingMethod;
+  /** 非ニュートン流体のレオロジー（省略時はニュートン流体） */
+  readonly rheology?: Rheology;
+  /** 熱損失モデル（省略時は断熱系） */
+  readonly heatLoss?: HeatLossModel;
+  /** 水撃評価の弁閉鎖条件（省略時は評価しない） */
+  readonly surge?: SurgeConditions;
+  /** 特性曲線法による過渡解析の条件（省略時は解析しない） */
+  readonly transient?: TransientSettings;
+  /** ポンプ入口ノード ID（これより上流の区間を吸込み側とする。省略時は指定なし） */
+  readonly pumpInletNodeId?: string;
+}
+
+// ── スプリンクラー ──
+
+export interface SprinklerPipeData {
+  readonly id: string;
+  readonly upstreamNodeId: string;
+  readonly downstreamNodeId: string;
+  readonly nominalSize: string;
+  readonly length_m: number;
+  readonly fittings: SprinklerFittingInput[];
+}
+
+export interface SprinklerProjectData {
+  readonly temperature_c: number;
+  readonly pipeStandard: string;
+  readonly schedule: string;
+  readonly materialId: string;
+  readonly nodes: SprinklerNode[];
+  readonly pipes: SprinklerPipeData[];
+  readonly heads: SprinklerHead[];
+  readonly supplyNodeId: string;
+  readonly design: SprinklerDesignBasis;
+  /** 水源の放水試験結果（省略時は供給曲線と比較しない） */
+  readonly supply?: WaterSupplyTest;
 }
 
 // ── プロジェクトファイル（統合型） ──
 
-export type ProjectType = 'single' | 'multi' | 'route';
+export type ProjectType = 'single' | 'multi' | 'route' | 'sprinkler';
 
 export interface ProjectFile {
   readonly version: typeof PROJECT_FILE_VERSION;
@@ -86,7 +155,9 @@ export interface ProjectFile {
   readonly name: string;
   readonly createdAt: string;
   readonly updatedAt: string;
-  readonly data: SingleSegmentProjectData | MultiSegmentProjectData | RouteProjectData;
+  readonly data: SingleSegmentProjectData | MultiSegmentProjectData | RouteProjectData | SprinklerProjectData;
+  /** ユーザーが取り込んだポンプ性能曲線（省略時はなし） */
+  readonly pumpCurves?: PumpCurveData[];
 }
 
 // ── バリデーション ──
@@ -111,6 +182,7 @@ function validateFittingRows(arr: unknown): FittingRowData[] {
     if (!isNumber(item.quantity)) throw new Error(`fittings[${i}].quantity must be a number`);
     let kOverride: number | undefined;
     let cvOverride: number | undefined;
+    let boreDiameter_mm: number | undefined;
     if (item.kOverride !== undefined) {
       if (!isNumber(item.kOverride)) throw new Error(`fittings[${i}].kOverride must be a number`);
       kOverride = item.kOverride;
@@ -119,10 +191,181 @@ function validateFittingRows(arr: unknown): FittingRowData[] {
       if (!isNumber(item.cvOverride)) throw new Error(`fittings[${i}].cvOverride must be a number`);
       cvOverride = item.cvOverride;
     }
-    return { fittingId: item.fittingId, quantity: item.quantity, kOverride, cvOverride };
+    if (item.boreDiameter_mm !== undefined) {
+      if (!isNumber(item.boreDiameter_mm) || item.boreDiameter_mm <= 0) {
+        throw new Error(`fittings[${i}].boreDiameter_mm must be a positive number`);
+      }
+      boreDiameter_mm = item.boreDiameter_mm;
+    }
+    return { fittingId: item.fittingId, quantity: item.quantity, kOverride, cvOverride, boreDiameter_mm };
   });
 }
 
+function validateFrictionMethod(v: unknown): FrictionFactorMethod | undefined {
+  if (v === undefined) return undefined;
+  if (!FRICTION_FACTOR_METHODS.includes(v as FrictionFactorMethod)) {
+    throw new Error(`data.frictionMethod must be one of ${FRICTION_FACTOR_METHODS.join(', ')}`);
+  }
+  return v as FrictionFactorMethod;
+}
+
+function validateFittingMethod(v: unknown): FittingMethod | undefined {
+  if (v === undefined) return undefined;
+  if (!FITTING_METHODS.includes(v as FittingMethod)) {
+    throw new Error(`data.fittingMethod must be one of ${FITTING_METHODS.join(', ')}`);
+  }
+  return v as FittingMethod;
+}
+
+function validateRheology(v: unknown): Rheology | undefined {
+  if (v === undefined) return undefined;
+  if (!isObject(v)) throw new Error('data.rheology must be an object');
+  if (!RHEOLOGY_MODELS.includes(v.model as Rheology['model'])) {
+    throw new Error(`data.rheology.model must be one of ${RHEOLOGY_MODELS.join(', ')}`);
+  }
+  const positive = (key: string): number => {
+    const x = v[key];
+    if (!isNumber(x) || x <= 0) throw new Error(`data.rheology.${key} must be a positive number`);
+    return x;
+  };
+  const nonNegative = (key: string): number => {
+    const x = v[key];
+    if (!isNumber(x) || x < 0) throw new Error(`data.rheology.${key} must be a non-negative number`);
+    return x;
+  };
+  switch (v.model as Rheology['model']) {
+    case 'power_law':
+      return { model: 'power_law', k: positive('k'), n: positive('n') };
+    case 'bingham':
+      return { model: 'bingham', yieldStress_pa: nonNegative('yieldStress_pa'), plasticViscosity: positive('plasticViscosity') };
+    case 'herschel_bulkley':
+      return { model: 'herschel_bulkley', yieldStress_pa: nonNegative('yieldStress_pa'), k: positive('k'), n: positive('n') };
+  }
+}
+
+function validateHeatLoss(v: unknown): HeatLossModel | undefined {
+  if (v === undefined) return undefined;
+  if (!isObject(v)) throw new Error('data.heatLoss must be an object');
+  if (!isNumber(v.ambientTemperature_c)) throw new Error('data.heatLoss.ambientTemperature_c must be a number');
+  const nonNegative = (key: string): number => {
+    const x = v[key];
+    if (!isNumber(x) || x < 0) throw new Error(`data.heatLoss.${key} must be a non-negative number`);
+    return x;
+  };
+  const positive = (key: string): number => {
+    const x = v[key];
+    if (!isNumber(x) || x <= 0) throw new Error(`data.heatLoss.${key} must be a positive number`);
+    return x;
+  };
+  return {
+    ambientTemperature_c: v.ambientTemperature_c,
+    insulationThickness_mm: nonNegative('insulationThickness_mm'),
+    insulationConductivity_w_mk: positive('insulationConductivity_w_mk'),
+    outerFilmCoefficient_w_m2k: positive('outerFilmCoefficient_w_m2k'),
+    ...(v.specificHeat_j_kgk !== undefined ? { specificHeat_j_kgk: positive('specificHeat_j_kgk') } : {}),
+  };
+}
+
+function validateSurge(v: unknown): SurgeConditions | undefined {
+  if (v === undefined) return undefined;
+  if (!isObject(v)) throw new Error('data.surge must be an object');
+  const nonNegative = (key: string): number => {
+    const x = v[key];
+    if (!isNumber(x) || x < 0) throw new Error(`data.surge.${key} must be a non-negative number`);
+    return x;
+  };
+  if (!isNumber(v.bulkModulus_gpa) || v.bulkModulus_gpa <= 0) {
+    throw new Error('data.surge.bulkModulus_gpa must be a positive number');
+  }
+  if (!PIPE_ANCHORAGES.includes(v.anchorage as PipeAnchorage)) {
+    throw new Error(`data.surge.anchorage must be one of: ${PIPE_ANCHORAGES.join(', ')}`);
+  }
+  return {
+    closureTime_s: nonNegative('closureTime_s'),
+    operatingPressure_kpa: nonNegative('operatingPressure_kpa'),
+    designPressure_kpa: nonNegative('designPressure_kpa'),
+    bulkModulus_gpa: v.bulkModulus_gpa,
+    anchorage: v.anchorage as PipeAnchorage,
+  };
+}
+
+function validateControlValve(v: unknown): ControlValveConditions | undefined {
+  if (v === undefined) return undefined;
+  if (!isObject(v)) throw new Error('data.controlValve must be an object');
+  const positive = (key: string): number => {
+    const x = v[key];
+    if (!isNumber(x) || x <= 0) throw new Error(`data.controlValve.${key} must be a positive number`);
+    return x;
+  };
+  if (!VALVE_CHARACTERISTICS.includes(v.characteristic as ValveCharacteristic)) {
+    throw new Error(`data.controlValve.characteristic must be one of: ${VALVE_CHARACTERISTICS.join(', ')}`);
+  }
+  if (!isNumber(v.maxOpening) || v.maxOpening <= 0 || v.maxOpening > 1) {
+    throw new Error('data.controlValve.maxOpening must be a number in (0, 1]');
+  }
+  return {
+    inletPressure_kpa: positive('inletPressure_kpa'),
+    valveDp_kpa: positive('valveDp_kpa'),
+    criticalPressure_kpa: positive('criticalPressure_kpa'),
+    characteristic: v.characteristic as ValveCharacteristic,
+    maxOpening: v.maxOpening,
+  };
+}
+
+function validateTransientScenario(v: unknown): TransientScenario {
+  if (!isObject(v)) throw new Error('data.transient.scenario must be an object');
+  const numberAt = (key: string, check: (x: number) => boolean = () => true): number => {
+    const x = v[key];
+    if (!isNumber(x) || !check(x)) throw new Error(`data.transient.scenario.${key} is invalid`);
+    return x;
+  };
+  const positive = (x: number) => x > 0;
+  if (v.type === 'valve_closure') {
+    return {
+      type: 'valve_closure',
+      upstreamHead_m: numberAt('upstreamHead_m'),
+      downstreamHead_m: numberAt('downstreamHead_m'),
+      closureTime_s: numberAt('closureTime_s', x => x >= 0),
+      closureExponent: numberAt('closureExponent', positive),
+    };
+  }
+  if (v.type === 'pump_trip') {
+    return {
+      type: 'pump_trip',
+      suctionHead_m: numberAt('suctionHead_m'),
+      downstreamHead_m: numberAt('downstreamHead_m'),
+      shutoffHead_m: numberAt('shutoffHead_m', positive),
+      ratedSpeed_rpm: numberAt('ratedSpeed_rpm', positive),
+      efficiency: numberAt('efficiency', x => x > 0 && x <= 1),
+      inertia_kgm2: numberAt('inertia_kgm2', positive),
+    };
+  }
+  throw new Error('data.transient.scenario.type must be "valve_closure" or "pump_trip"');
+}
+
+function validateTransient(v: unknown): TransientSettings | undefined {
+  if (v === undefined) return undefined;
+  if (!isObject(v)) throw new Error('data.transient must be an object');
+  const positive = (key: string): number => {
+    const x = v[key];
+    if (!isNumber(x) || x <= 0) throw new Error(`data.transient.${key} must be a positive number`);
+    return x;
+  };
+  if (!PIPE_ANCHORAGES.includes(v.anchorage as PipeAnchorage)) {
+    throw new Error(`data.transient.anchorage must be one of: ${PIPE_ANCHORAGES.join(', ')}`);
+  }
+  if (!isNumber(v.designPressure_kpa) || v.designPressure_kpa < 0) {
+    throw new Error('data.transient.designPressure_kpa must be a non-negative number');
+  }
+  return {
+    scenario: validateTransientScenario(v.scenario),
+    duration_s: positive('duration_s'),
+    bulkModulus_gpa: positive('bulkModulus_gpa'),
+    anchorage: v.anchorage as PipeAnchorage,
+    designPressure_kpa: v.designPressure_kpa,
+  };
+}
+
 function validateSingleData(data: unknown): SingleSegmentProjectData {
   if (!isObject(data)) throw new Error('data must be an object');
   if (!isNumber(data.temperature_c)) throw new Error('data.temperature_c must be a number');
@@ -134,6 +377,9 @@ function validateSingleData(data: unknown): SingleSegmentProjectData {
   if (!isNumber(data.length_m)) throw new Error('data.length_m must be a number');
   if (!isNumber(data.elevation_m)) throw new Error('data.elevation_m must be a number');
   const fittings = validateFittingRows(data.fittings);
+  const frictionMethod = validateFrictionMethod(data.frictionMethod);
+  const fittingMethod = validateFittingMethod(data.fittingMethod);
+  const rheology = validateRheology(data.rheology);
   return {
     temperature_c: data.temperature_c,
     pipeStandard: data.pipeStandard,
@@ -144,6 +390,9 @@ function validateSingleData(data: unknown): SingleSegmentProjectData {
     length_m: data.length_m,
     elevation_m: data.elevation_m,
     fittings,
+    frictionMethod,
+    fittingMethod,
+    rheology,
   };
 }
 
@@ -156,6 +405,16 @@ function validateMultiSegmentEntry(entry: unknown, index: number): MultiSegmentE
   if (!isNumber(entry.length_m)) throw new Error(`segments[${index}].length_m must be a number`);
   if (!isNumber(entry.elevation_m)) throw new Error(`segments[${index}].elevation_m must be a number`);
   const fittings = validateFittingRows(entry.fittings);
+  let transitionAngle_deg: number | undefined;
+  if (entry.transitionAngle_deg !== undefined) {
+    if (!isNumber(entry.transitionAngle_deg) || entry.transitionAngle_deg <= 0 || entry.transitionAngle_deg > 180) {
+      throw new Error(`segments[${index}].transitionAngle_deg must be a number in (0, 180]`);
+    }
+    transitionAngle_deg = entry.transitionAngle_deg;
+  }
+  if (entry.suction !== undefined && typeof entry.suction !== 'boolean') {
+    throw new Error(`segments[${index}].suction must be a boolean`);
+  }
   return {
     pipeStandard: entry.pipeStandard,
     nominalSize: entry.nominalSize,
@@ -164,6 +423,8 @@ function validateMultiSegmentEntry(entry: unknown, index: number): MultiSegmentE
     length_m: entry.length_m,
     elevation_m: entry.elevation_m,
     fittings,
+    transitionAngle_deg,
+    suction: entry.suction,
   };
 }
 
@@ -174,7 +435,15 @@ function validateMultiData(data: unknown): MultiSegmentProjectData {
   if (!Array.isArray(data.segments)) throw new Error('data.segments must be an array');
   if (data.segments.length === 0) throw new Error('data.segments must not be empty');
   const segments = data.segments.map((s: unknown, i: number) => validateMultiSegmentEntry(s, i));
-  return { temperature_c: data.temperature_c, flowRate_m3h: data.flowRate_m3h, segments };
+  const frictionMethod = validateFrictionMethod(data.frictionMethod);
+  const fittingMethod = validateFittingMethod(data.fittingMethod);
+  const rheology = validateRheology(data.rheology);
+  const heatLoss = validateHeatLoss(data.heatLoss);
+  const controlValve = validateControlValve(data.controlValve);
+  return {
+    temperature_c: data.temperature_c, flowRate_m3h: data.flowRate_m3h, segments,
+    frictionMethod, fittingMethod, rheology, heatLoss, controlValve,
+  };
 }
 
 function validateRouteNode(node: unknown, index: number): RouteNodeData {
@@ -204,6 +473,16 @@ function validateRouteData(data: unknown): RouteProjectData {
   if (!Array.isArray(data.nodes)) throw new Error('data.nodes must be an array');
   if (data.nodes.length < 2) throw new Error('data.nodes must have at least 2 nodes');
   const nodes = data.nodes.map((n: unknown, i: number) => validateRouteNode(n, i));
+  const frictionMethod = validateFrictionMethod(data.frictionMethod);
+  const fittingMethod = validateFittingMethod(data.fittingMethod);
+  const rheology = validateRheology(data.rheology);
+  const heatLoss = validateHeatLoss(data.heatLoss);
+  const surge = validateSurge(data.surge);
+  const transient = validateTransient(data.transient);
+  if (data.pumpInletNodeId !== undefined
+    && (!isString(data.pumpInletNodeId) || !nodes.some(n => n.id === data.pumpInletNodeId))) {
+    throw new Error('data.pumpInletNodeId must be the id of a route node');
+  }
   return {
     temperature_c: data.temperature_c,
     flowRate_m3h: data.flowRate_m3h,
@@ -214,9 +493,211 @@ function validateRouteData(data: unknown): RouteProjectData {
     elbowConnection: data.elbowConnection,
     use90LongRadius: data.use90LongRadius,
     nodes,
+    frictionMethod,
+    fittingMethod,
+    rheology,
+    heatLoss,
+    surge,
+    transient,
+    pumpInletNodeId: data.pumpInletNodeId,
   };
 }
 
+function validateSprinklerNode(node: unknown, index: number): SprinklerNode {
+  if (!isObject(node)) throw new Error(`nodes[${index}] must be an object`);
+  if (!isString(node.id)) throw new Error(`nodes[${index}].id must be a string`);
+  if (!isNumber(node.elevation_m)) throw new Error(`nodes[${index}].elevation_m must be a number`);
+  return { id: node.id, elevation_m: node.elevation_m };
+}
+
+function validateSprinklerFittings(arr: unknown, path: string): SprinklerFittingInput[] {
+  if (!Array.isArray(arr)) throw new Error(`${path} must be an array`);
+  return arr.map((item, i) => {
+    if (!isObject(item)) throw new Error(`${path}[${i}] must be an object`);
+    if (!SPRINKLER_FITTING_TYPES.includes(item.type as SprinklerFittingType)) {
+      throw new Error(`${path}[${i}].type must be one of ${SPRINKLER_FITTING_TYPES.join(', ')}`);
+    }
+    if (!isNumber(item.quantity) || item.quantity < 0) {
+      throw new Error(`${path}[${i}].quantity must be a non-negative number`);
+    }
+    return { type: item.type as SprinklerFittingType, quantity: item.quantity };
+  });
+}
+
+function validateSprinklerPipe(pipe: unknown, index: number): SprinklerPipeData {
+  if (!isObject(pipe)) throw new Error(`pipes[${index}] must be an object`);
+  if (!isString(pipe.id)) throw new Error(`pipes[${index}].id must be a string`);
+  if (!isString(pipe.upstreamNodeId)) throw new Error(`pipes[${index}].upstreamNodeId must be a string`);
+  if (!isString(pipe.downstreamNodeId)) throw new Error(`pipes[${index}].downstreamNodeId must be a string`);
+  if (!isString(pipe.nominalSize)) throw new Error(`pipes[${index}].nominalSize must be a string`);
+  if (!isNumber(pipe.length_m) || pipe.length_m < 0) {
+    throw new Error(`pipes[${index}].length_m must be a non-negative number`);
+  }
+  return {
+    id: pipe.id,
+    upstreamNodeId: pipe.upstreamNodeId,
+    downstreamNodeId: pipe.downstreamNodeId,
+    nominalSize: pipe.nominalSize,
+    length_m: pipe.length_m,
+    fittings: validateSprinklerFittings(pipe.fittings, `pipes[${index}].fittings`),
+  };
+}
+
+function validateSprinklerHead(head: unknown, index: number): SprinklerHead {
+  if (!isObject(head)) throw new Error(`heads[${index}] must be an object`);
+  if (!isString(head.id)) throw new Error(`heads[${index}].id must be a string`);
+  if (!isString(head.nodeId)) throw new Error(`heads[${index}].nodeId must be a string`);
+  const positive = (key: string): number => {
+    const x = head[key];
+    if (!isNumber(x) || x <= 0) throw new Error(`heads[${index}].${key} must be a positive number`);
+    return x;
+  };
+  return {
+    id: head.id,
+    nodeId: head.nodeId,
+    kFactor: positive('kFactor'),
+    minPressure_kpa: positive('minPressure_kpa'),
+    coverageArea_m2: positive('coverageArea_m2'),
+  };
+}
+
+function validateSprinklerDesign(v: unknown): SprinklerDesignBasis {
+  if (!isObject(v)) throw new Error('data.design must be an object');
+  const nonNegative = (key: string): number => {
+    const x = v[key];
+    if (!isNumber(x) || x < 0) throw new Error(`data.design.${key} must be a non-negative number`);
+    return x;
+  };
+  return {
+    density_mm_min: nonNegative('density_mm_min'),
+    areaOfOperation_m2: nonNegative('areaOfOperation_m2'),
+    hoseAllowance_lpm: nonNegative('hoseAllowance_lpm'),
+  };
+}
+
+function validateWaterSupply(v: unknown): WaterSupplyTest | undefined {
+  if (v === undefined) return undefined;
+  if (!isObject(v)) throw new Error('data.supply must be an object');
+  if (!isNumber(v.staticPressure_kpa) || v.staticPressure_kpa < 0) {
+    throw new Error('data.supply.staticPressure_kpa must be a non-negative number');
+  }
+  if (!isNumber(v.residualPressure_kpa) || v.residualPressure_kpa < 0 || v.residualPressure_kpa > v.staticPressure_kpa) {
+    throw new Error('data.supply.residualPressure_kpa must be between 0 and staticPressure_kpa');
+  }
+  if (!isNumber(v.residualFlow_lpm) || v.residualFlow_lpm <= 0) {
+    throw new Error('data.supply.residualFlow_lpm must be a positive number');
+  }
+  return {
+    staticPressure_kpa: v.staticPressure_kpa,
+    residualPressure_kpa: v.residualPressure_kpa,
+    residualFlow_lpm: v.residualFlow_lpm,
+  };
+}
+
+function validateSprinklerData(data: unknown): SprinklerProjectData {
+  if (!isObject(data)) throw new Error('data must be an object');
+  if (!isNumber(data.temperature_c)) throw new Error('data.temperature_c must be a number');
+  if (!isString(data.pipeStandard)) throw new Error('data.pipeStandard must be a string');
+  if (!isString(data.schedule)) throw new Error('data.schedule must be a string');
+  if (!isString(data.materialId)) throw new Error('data.materialId must be a string');
+  if (!isString(data.supplyNodeId)) throw new Error('data.supplyNodeId must be a string');
+  if (!Array.isArray(data.nodes)) throw new Error('data.nodes must be an array');
+  if (!Array.isArray(data.pipes)) throw new Error('data.pipes must be an array');
+  if (!Array.isArray(data.heads)) throw new Error('data.heads must be an array');
+  if (data.heads.length === 0) throw new Error('data.heads must not be empty');
+  const nodes = data.nodes.map((n: unknown, i: number) => validateSprinklerNode(n, i));
+  const pipes = data.pipes.map((p: unknown, i: number) => validateSprinklerPipe(p, i));
+  const heads = data.heads.map((h: unknown, i: number) => validateSprinklerHead(h, i));
+  const design = validateSprinklerDesign(data.design);
+  const supply = validateWaterSupply(data.supply);
+  return {
+    temperature_c: data.temperature_c,
+    pipeStandard: data.pipeStandard,
+    schedule: data.schedule,
+    materialId: data.materialId,
+    nodes,
+    pipes,
+    heads,
+    supplyNodeId: data.supplyNodeId,
+    design,
+    supply,
+  };
+}
+
+function validateNumberArray(v: unknown, path: string): number[] {
+  if (!Array.isArray(v) || v.length === 0 || !v.every(isNumber)) throw new Error(`${path} must be a non-empty array of numbers`);
+  return v;
+}
+
+function validatePumpCurvePoints(v: unknown, path: string): PumpCurvePoint[] {
+  if (!Array.isArray(v) || v.length < 2) throw new Error(`${path} must be an array of at least 2 points`);
+  return v.map((p, i) => {
+    if (!isObject(p)) throw new Error(`${path}[${i}] must be an object`);
+    for (const key of ['flow_m3h', 'head_m', 'efficiency_pct', 'npshr_m']) {
+      if (!isNumber(p[key]) || (p[key] as number) < 0) throw new Error(`${path}[${i}].${key} must be a non-negative number`);
+    }
+    if (i > 0 && (p.flow_m3h as number) <= (v[i - 1] as { flow_m3h: number }).flow_m3h) {
+      throw new Error(`${path}[${i}].flow_m3h must be greater than the previous point`);
+    }
+    return {
+      flow_m3h: p.flow_m3h as number,
+      head_m: p.head_m as number,
+      efficiency_pct: p.efficiency_pct as number,
+      npshr_m: p.npshr_m as number,
+    };
+  });
+}
+
+function validateCurveFit(v: unknown, path: string): PumpCurveCoefficients | undefined {
+  if (v === undefined) return undefined;
+  if (!isObject(v)) throw new Error(`${path} must be an object`);
+  if (!isNumber(v.minFlow_m3h) || !isNumber(v.maxFlow_m3h) || v.maxFlow_m3h <= v.minFlow_m3h) {
+    throw new Error(`${path} must have a flow range with maxFlow_m3h > minFlow_m3h`);
+  }
+  return {
+    head: validateNumberArray(v.head, `${path}.head`),
+    efficiency: validateNumberArray(v.efficiency, `${path}.efficiency`),
+    npshr: validateNumberArray(v.npshr, `${path}.npshr`),
+    minFlow_m3h: v.minFlow_m3h,
+    maxFlow_m3h: v.maxFlow_m3h,
+  };
+}
+
+function validatePumpCurves(v: unknown): PumpCurveData[] | undefined {
+  if (v === undefined) return undefined;
+  if (!Array.isArray(v)) throw new Error('pumpCurves must be an array');
+  return v.map((pump, i) => {
+    const path = `pumpCurves[${i}]`;
+    if (!isObject(pump)) throw new Error(`${path} must be an object`);
+    for (const key of ['referenceId', 'pumpId', 'manufacturer', 'model', 'description', 'suction_nps', 'discharge_nps']) {
+      if (!isString(pump[key])) throw new Error(`${path}.${key} must be a string`);
+    }
+    if (pump.description_ja !== undefined && !isString(pump.description_ja)) {
+      throw new Error(`${path}.description_ja must be a string`);
+    }
+    if (!isNumber(pump.rated_speed_rpm) || pump.rated_speed_rpm <= 0) {
+      throw new Error(`${path}.rated_speed_rpm must be a positive number`);
+    }
+    if (pump.impeller_diameter_mm !== undefined && (!isNumber(pump.impeller_diameter_mm) || pump.impeller_diameter_mm <= 0)) {
+      throw new Error(`${path}.impeller_diameter_mm must be a positive number`);
+    }
+    return {
+      referenceId: pump.referenceId as string,
+      pumpId: pump.pumpId as string,
+      manufacturer: pump.manufacturer as string,
+      model: pump.model as string,
+      description: pump.description as string,
+      description_ja: pump.description_ja,
+      rated_speed_rpm: pump.rated_speed_rpm,
+      impeller_diameter_mm: pump.impeller_diameter_mm,
+      suction_nps: pump.suction_nps as string,
+      discharge_nps: pump.discharge_nps as string,
+      performance_curve: validatePumpCurvePoints(pump.performance_curve, `${path}.performance_curve`),
+      curve_fit: validateCurveFit(pump.curve_fit, `${path}.curve_fit`),
+    };
+  });
+}
+
 /**
  * JSON 文字列をパースしてバリデーション済みの ProjectFile を返す。
  * 不正な入力は Error をスローする。
@@ -238,11 +719,11 @@ export function parseProjectFile(jsonString: string): ProjectFile {
   if (!isString(parsed.updatedAt)) throw new Error('updatedAt must be a string');
 
   const type = parsed.type;
-  if (type !== 'single' && type !== 'multi' && type !== 'route') {
+  if (type !== 'single' && type !== 'multi' && type !== 'route' && type !== 'sprinkler') {
     throw new Error(`Unknown project type: ${String(type)}`);
   }
 
-  let data: SingleSegmentProjectData | MultiSegmentProjectData | RouteProjectData;
+  let data: SingleSegmentProjectData | MultiSegmentProjectData | RouteProjectData | SprinklerProjectData;
   switch (type) {
     case 'single':
       data = validateSingleData(parsed.data);
@@ -253,7 +734,11 @@ export function parseProjectFile(jsonString: string): ProjectFile {
     case 'route':
       data = validateRouteData(parsed.data);
       break;
+    case 'sprinkler':
+      data = validateSprinklerData(parsed.data);
+      break;
   }
+  const pumpCurves = validatePumpCurves(parsed.pumpCurves);
 
   return {
     version: PROJECT_FILE_VERSION,
@@ -262,6 +747,7 @@ export function parseProjectFile(jsonString: string): ProjectFile {
     createdAt: parsed.createdAt,
     updatedAt: parsed.updatedAt,
     data,
+    ...(pumpCurves ? { pumpCurves } : {}),
   };
 }
 
@@ -0,0 +1,54 @@
+/**
+ * ポンプ性能曲線 CSV の読み込み
+ *
+ * 1 行 1 点で「流量 [m³/h], 揚程 [m], 効率 [%], NPSHr [m]」の 4 列を並べる。
+ * 区切り文字はカンマ・セミコロン・タブのいずれでもよい。
+ * 先頭行が数値でなければ見出し行として読み飛ばす。空行と # で始まる行は無視する。
+ * 不正な入力は行番号を付けた Error をスローする。
+ */
+
+import { PumpCurvePoint } from '@domain/system/pumpSelection';
+
+const DELIMITER = /[,;\t]/;
+
+/** 性能曲線に必要な最小点数 */
+const MIN_POINTS = 2;
+
+/**
+ * CSV 文字列を性能曲線（流量昇順）に変換する
+ */
+export function parsePumpCurveCsv(text: string): PumpCurvePoint[] {
+  const points: PumpCurvePoint[] = [];
+  let headerAllowed = true;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#')) return;
+    const lineNo = index + 1;
+    const fields = line.split(DELIMITER).map(f => f.trim());
+    const values = fields.map(Number);
+
+    if (headerAllowed && values.some(v => isNaN(v))) {
+      headerAllowed = false;
+      return;
+    }
+    headerAllowed = false;
+
+    if (fields.length !== 4) throw new Error(`Line ${lineNo}: expected 4 columns (flow, head, efficiency, NPSHr)`);
+    if (fields.some(f => f === '') || values.some(v => !isFinite(v))) {
+      throw new Error(`Line ${lineNo}: all columns must be numbers`);
+    }
+    const [flow_m3h, head_m, efficiency_pct, npshr_m] = values;
+    if (flow_m3h < 0) throw new Error(`Line ${lineNo}: flow must not be negative`);
+    if (head_m < 0) throw new Error(`Line ${lineNo}: head must not be negative`);
+    if (efficiency_pct < 0 || efficiency_pct > 100) throw new Error(`Line ${lineNo}: efficiency must be in [0, 100] %`);
+    if (npshr_m < 0) throw new Error(`Line ${lineNo}: NPSHr must not be negative`);
+    if (points.length > 0 && flow_m3h <= points[points.length - 1].flow_m3h) {
+      throw new Error(`Line ${lineNo}: flow must be strictly increasing`);
+    }
+    points.push({ flow_m3h, head_m, efficiency_pct, npshr_m });
+  });
+
+  if (points.length < MIN_POINTS) throw new Error(`At least ${MIN_POINTS} curve points are required`);
+  return points;
+}
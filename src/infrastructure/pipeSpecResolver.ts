@@ -3,10 +3,11 @@
  *
  * ANSI B36.10M と JIS G3452 の配管データから
  * ユーザー選択を PipeSpec ドメイン型に変換する。
+ * 経済口径計算用の据付費は pipe-installed-cost.json から解決する。
  */
 
 import { PipeSpec } from '@domain/types';
-import { ansiData, jisData } from './dataLoader';
+import { ansiData, jisData, pipeCostData } from './dataLoader';
 
 export type PipeStandardKey = 'ansi' | 'jis-sgp';
 
@@ -71,3 +72,21 @@ export function resolvePipeSpec(
     id_mm: size.id_mm,
   };
 }
+
+/**
+ * 口径選定用に規格の全サイズを PipeSpec に解決する（小径順）
+ *
+ * ANSI は指定スケジュールを持つサイズのみを返す。JIS は schedule 不要。
+ */
+export function resolvePipeSpecsForSizing(standard: PipeStandardKey, schedule?: string): PipeSpec[] {
+  return getAvailableSizes(standard)
+    .map(s => resolvePipeSpec(standard, s.nps, schedule))
+    .filter((spec): spec is PipeSpec => spec !== null);
+}
+
+/**
+ * 呼び径 DN → 据付費（通貨/m）解決。データにない DN は null
+ */
+export function resolveInstalledCost(dn: number): number | null {
+  return pipeCostData.sizes.find(s => s.dn === dn)?.installedCost_per_m ?? null;
+}
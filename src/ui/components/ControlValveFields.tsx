@@ -0,0 +1,74 @@
+/**
+ * 調節弁入力フィールド — IEC 60534 液体サイジングの設計条件入力
+ *
+ * value が null のときは調節弁をサイジングしない。
+ * 最大開度は UI 上 % で入力し、ドメインには小数で渡す。
+ */
+
+import { useTranslation } from '../i18n/context';
+import { Field, inputStyle } from './FormLayout';
+import { ControlValveConditions, ValveCharacteristic, VALVE_CHARACTERISTICS } from '@domain/valve/types';
+
+/** 有効化時の初期値（入口 500 kPa abs・弁差圧 100 kPa、水の臨界圧力、最大開度 80 %） */
+function createDefaultConditions(characteristic: ValveCharacteristic): ControlValveConditions {
+  return {
+    inletPressure_kpa: 500,
+    valveDp_kpa: 100,
+    criticalPressure_kpa: 22064,
+    characteristic,
+    maxOpening: 0.8,
+  };
+}
+
+interface ControlValveFieldsProps {
+  value: ControlValveConditions | null;
+  onChange: (value: ControlValveConditions | null) => void;
+}
+
+export function ControlValveFields({ value, onChange }: ControlValveFieldsProps) {
+  const { t } = useTranslation();
+
+  const numberInput = (current: number, step: number, apply: (v: number) => ControlValveConditions, max?: number) => (
+    <input type="number" value={current} onChange={e => onChange(apply(Number(e.target.value)))}
+      min={0} max={max} step={step} style={inputStyle} />
+  );
+
+  const handleCharacteristicChange = (characteristic: string) => {
+    if (characteristic === 'off') {
+      onChange(null);
+      return;
+    }
+    const c = characteristic as ValveCharacteristic;
+    onChange(value ? { ...value, characteristic: c } : createDefaultConditions(c));
+  };
+
+  return (
+    <>
+      <Field label={t('valve.characteristic')}>
+        <select value={value ? value.characteristic : 'off'} onChange={e => handleCharacteristicChange(e.target.value)}
+          style={{ ...inputStyle, width: '100%' }}>
+          <option value="off">{t('valve.mode.off')}</option>
+          {VALVE_CHARACTERISTICS.map(c => (
+            <option key={c} value={c}>{t(`valve.characteristic.${c}`)}</option>
+          ))}
+        </select>
+      </Field>
+      {value && (
+        <>
+          <Field label={t('valve.inlet_pressure')}>
+            {numberInput(value.inletPressure_kpa, 10, v => ({ ...value, inletPressure_kpa: v }))} {t('unit.kpa')}
+          </Field>
+          <Field label={t('valve.dp')}>
+            {numberInput(value.valveDp_kpa, 10, v => ({ ...value, valveDp_kpa: v }))} {t('unit.kpa')}
+          </Field>
+          <Field label={t('valve.critical_pressure')}>
+            {numberInput(value.criticalPressure_kpa, 100, v => ({ ...value, criticalPressure_kpa: v }))} {t('unit.kpa')}
+          </Field>
+          <Field label={t('valve.max_opening')}>
+            {numberInput(Number((value.maxOpening * 100).toFixed(4)), 5, v => ({ ...value, maxOpening: v / 100 }), 100)} {t('unit.pct')}
+          </Field>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * 経済口径チャート — 口径ごとの建設費・電力費現在価値・総費用
+ *
+ * 横軸は候補口径（小径順の等間隔）、縦軸は費用。総費用最小の口径を強調表示する。
+ */
+
+import { EconomicDiameterResult } from '@domain/system/economicDiameter';
+import { formatNum, niceStep } from './formatters';
+
+interface EconomicCostChartProps {
+  result: EconomicDiameterResult;
+  currency: string;
+  t: (key: string) => string;
+}
+
+export function EconomicCostChart({ result, currency, t }: EconomicCostChartProps) {
+  const W = 600;
+  const H = 400;
+  const PAD = { top: 30, right: 30, bottom: 50, left: 70 };
+
+  const chartW = W - PAD.left - PAD.right;
+  const chartH = H - PAD.top - PAD.bottom;
+
+  const { rows, optimumIndex } = result;
+
+  // Axis ranges（費用は千単位で表示）
+  const maxCost = Math.max(...rows.map(r => r.totalCost)) / 1000;
+  const yStep = niceStep(Math.max(maxCost, 1e-3), 6);
+  const maxY = Math.ceil(maxCost / yStep) * yStep;
+
+  const scaleX = (i: number) => PAD.left + (rows.length > 1 ? i / (rows.length - 1) : 0.5) * chartW;
+  const scaleY = (cost: number) => PAD.top + chartH - (cost / 1000 / maxY) * chartH;
+
+  const pathOf = (cost: (r: EconomicDiameterResult['rows'][number]) => number) => rows
+    .map((r, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(i)} ${scaleY(cost(r))}`)
+    .join(' ');
+
+  const totalPath = pathOf(r => r.totalCost);
+  const capitalPath = pathOf(r => r.capitalCost);
+  const energyPath = pathOf(r => r.energyPresentValue);
+
+  // Grid lines
+  const yTicks: number[] = [];
+  for (let c = 0; c <= maxY + 1e-9; c += yStep) {
+    yTicks.push(c);
+  }
+
+  const optimum = rows[optimumIndex];
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      style={{ width: '100%', border: '1px solid #ddd', borderRadius: '8px', background: '#fff' }}
+    >
+      {/* Grid */}
+      {rows.map((r, i) => (
+        <line key={`gx${r.pipe.nps}`} x1={scaleX(i)} y1={PAD.top} x2={scaleX(i)} y2={PAD.top + chartH}
+          stroke="#eee" strokeWidth={1} />
+      ))}
+      {yTicks.map(c => (
+        <line key={`gy${c}`} x1={PAD.left} y1={PAD.top + chartH - (c / maxY) * chartH}
+          x2={PAD.left + chartW} y2={PAD.top + chartH - (c / maxY) * chartH}
+          stroke="#eee" strokeWidth={1} />
+      ))}
+
+      {/* Axes */}
+      <line x1={PAD.left} y1={PAD.top + chartH} x2={PAD.left + chartW} y2={PAD.top + chartH}
+        stroke="#333" strokeWidth={1.5} />
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + chartH}
+        stroke="#333" strokeWidth={1.5} />
+
+      {/* X axis labels */}
+      {rows.map((r, i) => (
+        <text key={`lx${r.pipe.nps}`} x={scaleX(i)} y={PAD.top + chartH + 18}
+          textAnchor="middle" fontSize={11} fill={i === optimumIndex ? '#ff6600' : '#555'}>{r.pipe.nps}</text>
+      ))}
+      <text x={PAD.left + chartW / 2} y={H - 8}
+        textAnchor="middle" fontSize={12} fill="#333">{t('pipe.nominal_size')}</text>
+
+      {/* Y axis labels */}
+      {yTicks.map(c => (
+        <text key={`ly${c}`} x={PAD.left - 8} y={PAD.top + chartH - (c / maxY) * chartH + 4}
+          textAnchor="end" fontSize={11} fill="#555">{yStep < 1 ? c.toFixed(1) : c.toFixed(0)}</text>
+      ))}
+      <text x={16} y={PAD.top + chartH / 2}
+        textAnchor="middle" fontSize={12} fill="#333"
+        transform={`rotate(-90, 16, ${PAD.top + chartH / 2})`}>{t('economic.chart_cost')} (k{currency})</text>
+
+      {/* Cost curves */}
+      <path d={capitalPath} fill="none" stroke="#0066cc" strokeWidth={2} strokeDasharray="6,3" />
+      <path d={energyPath} fill="none" stroke="#00aa44" strokeWidth={2} strokeDasharray="3,3" />
+      <path d={totalPath} fill="none" stroke="#cc3300" strokeWidth={2.5} />
+
+      {/* Optimum */}
+      <line x1={scaleX(optimumIndex)} y1={PAD.top} x2={scaleX(optimumIndex)} y2={PAD.top + chartH}
+        stroke="#666" strokeWidth={0.5} strokeDasharray="4,4" />
+      <circle cx={scaleX(optimumIndex)} cy={scaleY(optimum.totalCost)}
+        r={6} fill="#ff6600" stroke="#fff" strokeWidth={2} />
+      <text x={scaleX(optimumIndex) + 10} y={scaleY(optimum.totalCost) - 10}
+        fontSize={11} fill="#ff6600" fontWeight="bold">
+        {optimum.pipe.nps}, {formatNum(optimum.totalCost / 1000, 1)} k{currency}
+      </text>
+
+      {/* Legend */}
+      <g transform={`translate(${PAD.left + chartW - 150}, ${PAD.top + 8})`}>
+        <line x1={0} y1={0} x2={20} y2={0} stroke="#cc3300" strokeWidth={2.5} />
+        <text x={24} y={4} fontSize={10} fill="#333">{t('economic.total_cost')}</text>
+
+        <line x1={0} y1={16} x2={20} y2={16} stroke="#0066cc" strokeWidth={2} strokeDasharray="6,3" />
+        <text x={24} y={20} fontSize={10} fill="#333">{t('economic.capital_cost')}</text>
+
+        <line x1={0} y1={32} x2={20} y2={32} stroke="#00aa44" strokeWidth={2} strokeDasharray="3,3" />
+        <text x={24} y={36} fontSize={10} fill="#333">{t('economic.energy_pv')}</text>
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * 経済口径入力フィールド — ライフサイクルコスト評価の条件入力
+ *
+ * 割引率は UI 上 % で入力し、ドメインには小数で渡す。
+ */
+
+import { useTranslation } from '../i18n/context';
+import { Field, inputStyle } from './FormLayout';
+import { LifecycleCostParams } from '@domain/system/economicDiameter';
+
+/** 初期値（連続運転の送水ポンプ、割引率 5 %・20 年） */
+export const DEFAULT_LIFECYCLE_COSTS: LifecycleCostParams = {
+  pumpEfficiency: 0.7,
+  operatingHours_h_yr: 8000,
+  electricityPrice_per_kwh: 0.15,
+  discountRate: 0.05,
+  lifetime_yr: 20,
+};
+
+interface EconomicDiameterFieldsProps {
+  value: LifecycleCostParams;
+  onChange: (value: LifecycleCostParams) => void;
+  /** 据付費データの通貨 */
+  currency: string;
+}
+
+export function EconomicDiameterFields({ value, onChange, currency }: EconomicDiameterFieldsProps) {
+  const { t } = useTranslation();
+
+  const numberInput = (current: number, step: number, apply: (v: number) => LifecycleCostParams, max?: number) => (
+    <input type="number" value={current} onChange={e => onChange(apply(Number(e.target.value)))}
+      min={0} max={max} step={step} style={inputStyle} />
+  );
+
+  return (
+    <>
+      <Field label={t('economic.pump_efficiency')}>
+        {numberInput(value.pumpEfficiency, 0.01, v => ({ ...value, pumpEfficiency: v }), 1)}
+      </Field>
+      <Field label={t('economic.operating_hours')}>
+        {numberInput(value.operatingHours_h_yr, 100, v => ({ ...value, operatingHours_h_yr: v }), 8760)} h/yr
+      </Field>
+      <Field label={t('economic.electricity_price')}>
+        {numberInput(value.electricityPrice_per_kwh, 0.01, v => ({ ...value, electricityPrice_per_kwh: v }))} {currency}/kWh
+      </Field>
+      <Field label={t('economic.discount_rate')}>
+        {numberInput(Number((value.discountRate * 100).toFixed(4)), 0.5, v => ({ ...value, discountRate: v / 100 }))} {t('unit.pct')}
+      </Field>
+      <Field label={t('economic.lifetime')}>
+        {numberInput(value.lifetime_yr, 1, v => ({ ...value, lifetime_yr: v }))} {t('economic.years')}
+      </Field>
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * 差圧式流量計入力フィールド — 継手行に添える絞り径入力と絞り径選定
+ *
+ * 絞り径は直接入力するか、最大流量・目標差圧から ISO 5167 の流出係数を用いて逆算する。
+ * 最大流量の初期値は計算条件の設計流量とする。
+ * 結果側では継手明細表の下段に β・流出係数・測定差圧・永久圧力損失を表示する。
+ */
+
+import { useState } from 'react';
+import { useTranslation } from '../i18n/context';
+import { inputStyle } from './FormLayout';
+import { formatNum, formatPa } from './formatters';
+import { FlowElementDetail } from '@domain/types';
+
+interface FlowElementFieldsProps {
+  boreDiameter_mm: number | undefined;
+  onBoreChange: (boreDiameter_mm: number) => void;
+  defaultMaxFlow_m3h: number;
+  onSizeBore: (targetDp_kpa: number, maxFlowRate_m3h: number) => void;
+}
+
+export function FlowElementFields({ boreDiameter_mm, onBoreChange, defaultMaxFlow_m3h, onSizeBore }: FlowElementFieldsProps) {
+  const { t } = useTranslation();
+  const [targetDp, setTargetDp] = useState(25);
+  const [maxFlow, setMaxFlow] = useState(defaultMaxFlow_m3h);
+
+  const labelStyle = { fontSize: '0.85em', color: '#555' };
+
+  return (
+    <div style={{ display: 'flex', gap: '6px', alignItems: 'center', flexWrap: 'wrap', width: '100%', paddingLeft: '12px' }}>
+      <span style={labelStyle}>{t('flowmeter.bore')}</span>
+      <input type="number" value={boreDiameter_mm ?? ''} onChange={e => onBoreChange(Number(e.target.value))}
+        placeholder="d" min={0} step={0.1} style={{ ...inputStyle, width: '80px' }} />
+      <span style={labelStyle}>{t('unit.mm')}</span>
+      <span style={labelStyle}>{t('flowmeter.target_dp')}</span>
+      <input type="number" value={targetDp} onChange={e => setTargetDp(Number(e.target.value))}
+        min={0} step={1} style={{ ...inputStyle, width: '70px' }} />
+      <span style={labelStyle}>{t('unit.kpa')}</span>
+      <span style={labelStyle}>{t('flowmeter.max_flow')}</span>
+      <input type="number" value={maxFlow} onChange={e => setMaxFlow(Number(e.target.value))}
+        min={0} step={0.1} style={{ ...inputStyle, width: '70px' }} />
+      <span style={labelStyle}>{t('unit.m3h')}</span>
+      <button onClick={() => onSizeBore(targetDp, maxFlow)} style={{ padding: '4px 8px', cursor: 'pointer' }}>
+        {t('flowmeter.size_bore')}
+      </button>
+    </div>
+  );
+}
+
+interface FlowElementSummaryRowProps {
+  detail: FlowElementDetail;
+  colSpan: number;
+  t: (key: string) => string;
+}
+
+/** 継手明細表の流量計行に続けて表示する ISO 5167 計算値 */
+export function FlowElementSummaryRow({ detail, colSpan, t }: FlowElementSummaryRowProps) {
+  return (
+    <tr style={{ borderBottom: '1px solid #eee' }}>
+      <td colSpan={colSpan} style={{ padding: '2px 4px 4px 16px', color: '#666' }}>
+        d = {formatNum(detail.bore_mm, 2)} mm, {'\u03B2'} = {formatNum(detail.beta, 4)}, C = {formatNum(detail.dischargeCoefficient, 4)}
+        {' / '}{t('flowmeter.measured_dp')}: {formatPa(detail.measuredDp_pa)}
+        {' / '}{t('flowmeter.permanent_loss')}: {formatPa(detail.permanentLoss_pa)}
+      </td>
+    </tr>
+  );
+}
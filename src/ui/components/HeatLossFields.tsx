@@ -0,0 +1,72 @@
+/**
+ * 熱損失入力フィールド — 保温管の放熱モデルの有効化とパラメータ入力
+ *
+ * value が null のときは断熱系（温度変化なし）。
+ * MultiSegmentCalculator / RouteEditor で共通利用。
+ */
+
+import { useTranslation } from '../i18n/context';
+import { Field, inputStyle } from './FormLayout';
+import { HeatLossModel } from '@domain/types';
+
+/** 比熱の初期値（J/(kg·K)）。流体物性に比熱がある場合はそちらが優先される */
+const DEFAULT_SPECIFIC_HEAT = 4000;
+
+/** 有効化時の初期値（屋外・ロックウール保温 50 mm の代表値） */
+const DEFAULT_HEAT_LOSS: HeatLossModel = {
+  ambientTemperature_c: 0,
+  insulationThickness_mm: 50,
+  insulationConductivity_w_mk: 0.045,
+  outerFilmCoefficient_w_m2k: 10,
+  specificHeat_j_kgk: DEFAULT_SPECIFIC_HEAT,
+};
+
+interface HeatLossFieldsProps {
+  value: HeatLossModel | null;
+  onChange: (value: HeatLossModel | null) => void;
+  /** 流体物性に比熱がない（水溶液など）場合に比熱入力を表示する */
+  needsSpecificHeat: boolean;
+}
+
+export function HeatLossFields({ value, onChange, needsSpecificHeat }: HeatLossFieldsProps) {
+  const { t } = useTranslation();
+
+  const numberInput = (current: number, step: number, apply: (v: number) => HeatLossModel, min?: number) => (
+    <input type="number" value={current} onChange={e => onChange(apply(Number(e.target.value)))}
+      min={min} step={step} style={inputStyle} />
+  );
+
+  return (
+    <>
+      <Field label={t('heat_loss.mode')}>
+        <select value={value ? 'insulated' : 'adiabatic'} onChange={e => {
+            onChange(e.target.value === 'adiabatic' ? null : DEFAULT_HEAT_LOSS);
+          }} style={inputStyle}>
+          <option value="adiabatic">{t('heat_loss.mode.adiabatic')}</option>
+          <option value="insulated">{t('heat_loss.mode.insulated')}</option>
+        </select>
+      </Field>
+      {value && (
+        <>
+          <Field label={t('heat_loss.ambient_temperature')}>
+            {numberInput(value.ambientTemperature_c, 1, v => ({ ...value, ambientTemperature_c: v }))} {t('unit.celsius')}
+          </Field>
+          <Field label={t('heat_loss.insulation_thickness')}>
+            {numberInput(value.insulationThickness_mm, 5, v => ({ ...value, insulationThickness_mm: v }), 0)} {t('unit.mm')}
+          </Field>
+          <Field label={t('heat_loss.insulation_conductivity')}>
+            {numberInput(value.insulationConductivity_w_mk, 0.005, v => ({ ...value, insulationConductivity_w_mk: v }), 0)} W/(m·K)
+          </Field>
+          <Field label={t('heat_loss.outer_film')}>
+            {numberInput(value.outerFilmCoefficient_w_m2k, 1, v => ({ ...value, outerFilmCoefficient_w_m2k: v }), 0)} W/(m²·K)
+          </Field>
+          {needsSpecificHeat && (
+            <Field label={t('heat_loss.specific_heat')}>
+              {numberInput(value.specificHeat_j_kgk ?? DEFAULT_SPECIFIC_HEAT, 10, v => ({ ...value, specificHeat_j_kgk: v }), 0)} J/(kg·K)
+            </Field>
+          )}
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * 口径選定パネル — 判定基準の入力と候補口径の一覧表示
+ *
+ * 「口径を提案」で親が calcPipeSizing を実行し、推奨口径を呼び径欄に反映する。
+ * 一覧の行をクリックすると任意の口径を選択できる。
+ * PipeLossCalculator / MultiSegmentCalculator で共通利用。
+ */
+
+import { useTranslation } from '../i18n/context';
+import { Field, inputStyle, smallBtnStyle } from './FormLayout';
+import { formatNum } from './formatters';
+import { WarningBadges } from './WarningPanel';
+import type { PipeSizingCriteria, PipeSizingResult } from '@application/types';
+
+/** 判定基準の初期値（一般的な水配管の目安） */
+export const DEFAULT_SIZING_CRITERIA: PipeSizingCriteria = {
+  maxVelocity_m_s: 3,
+  maxDpPer100m_kpa: 40,
+};
+
+interface PipeSizingPanelProps {
+  criteria: PipeSizingCriteria;
+  onCriteriaChange: (criteria: PipeSizingCriteria) => void;
+  onSuggest: () => void;
+  result: PipeSizingResult | null;
+  /** 現在選択中の呼び径（一覧で強調表示） */
+  selectedNps: string;
+  onSelect: (nps: string) => void;
+}
+
+export function PipeSizingPanel({ criteria, onCriteriaChange, onSuggest, result, selectedNps, onSelect }: PipeSizingPanelProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div style={{ marginTop: '8px', paddingTop: '8px', borderTop: '1px dashed #ddd' }}>
+      <Field label={t('sizing.max_velocity')}>
+        <input type="number" value={criteria.maxVelocity_m_s}
+          onChange={e => onCriteriaChange({ ...criteria, maxVelocity_m_s: Number(e.target.value) })}
+          min={0} step={0.1} style={inputStyle} /> {t('unit.ms')}
+      </Field>
+      <Field label={t('sizing.max_dp_per_100m')}>
+        <input type="number" value={criteria.maxDpPer100m_kpa}
+          onChange={e => onCriteriaChange({ ...criteria, maxDpPer100m_kpa: Number(e.target.value) })}
+          min={0} step={5} style={inputStyle} /> {t('unit.kpa')}/100m
+      </Field>
+      <button onClick={onSuggest} style={{ ...smallBtnStyle, color: '#0066cc', borderColor: '#0066cc' }}>
+        {t('sizing.suggest')}
+      </button>
+
+      {result && (
+        <>
+          {result.recommendedIndex === null && (
+            <div style={{ fontSize: '0.85em', color: '#c00', marginTop: '6px' }}>{t('sizing.none_meets')}</div>
+          )}
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.8em', marginTop: '6px' }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid #ccc' }}>
+                <th style={thStyle}>{t('pipe.nominal_size')}</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>V ({t('unit.ms')})</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>{t('sizing.dp_per_100m')}</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Re</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.rows.map((row, i) => {
+                const recommended = i === result.recommendedIndex;
+                return (
+                  <tr key={row.pipe.nps} onClick={() => onSelect(row.pipe.nps)}
+                    style={{
+                      borderBottom: '1px solid #eee', cursor: 'pointer',
+                      color: row.meetsCriteria ? '#333' : '#999',
+                      background: row.pipe.nps === selectedNps ? '#e8f0fe' : undefined,
+                      fontWeight: recommended ? 'bold' : undefined,
+                    }}>
+                    <td style={tdStyle}>
+                      {recommended && <span style={{ color: '#2e7d32' }}>{'✓'} </span>}
+                      {row.pipe.nps} ({row.pipe.dn}A)
+                    </td>
+                    <td style={{ ...tdStyle, textAlign: 'right' }}>{formatNum(row.velocity_m_s, 2)}</td>
+                    <td style={{ ...tdStyle, textAlign: 'right' }}>{formatNum(row.dpPer100m_pa / 1000, 1)}</td>
+                    <td style={{ ...tdStyle, textAlign: 'right' }}>{formatNum(row.reynolds, 0)}</td>
+                    <td style={tdStyle}><WarningBadges warnings={row.warnings} t={t} /></td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
+const thStyle: React.CSSProperties = {
+  textAlign: 'left',
+  padding: '4px 6px',
+  fontSize: '0.9em',
+  color: '#555',
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: '3px 6px',
+};
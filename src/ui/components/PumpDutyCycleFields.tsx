@@ -0,0 +1,57 @@
+/**
+ * ポンプ運転パターン入力 — 設計流量に対する流量比ごとの年間運転時間
+ */
+
+import { useTranslation } from '../i18n/context';
+import { inputStyle } from './FormLayout';
+import { formatNum } from './formatters';
+import type { DutyCyclePoint } from '@domain/system/pumpEnergy';
+
+/** 初期値（空調・循環系の変流量運転、計 8000 h/yr） */
+export const DEFAULT_DUTY_CYCLE: readonly DutyCyclePoint[] = [
+  { flowPercent: 100, hours_h_yr: 1000 },
+  { flowPercent: 80, hours_h_yr: 3000 },
+  { flowPercent: 60, hours_h_yr: 3000 },
+  { flowPercent: 40, hours_h_yr: 1000 },
+];
+
+interface PumpDutyCycleFieldsProps {
+  value: readonly DutyCyclePoint[];
+  onChange: (value: DutyCyclePoint[]) => void;
+}
+
+export function PumpDutyCycleFields({ value, onChange }: PumpDutyCycleFieldsProps) {
+  const { t } = useTranslation();
+
+  const update = (index: number, patch: Partial<DutyCyclePoint>) =>
+    onChange(value.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  const remove = (index: number) => onChange(value.filter((_, i) => i !== index));
+  const add = () => onChange([...value, { flowPercent: 50, hours_h_yr: 0 }]);
+  const totalHours = value.reduce((sum, d) => sum + d.hours_h_yr, 0);
+
+  return (
+    <>
+      <div style={{ display: 'flex', gap: '8px', fontSize: '0.8em', color: '#555', marginBottom: '2px' }}>
+        <span style={{ width: '80px' }}>{t('pump.duty_flow')} [{t('unit.pct')}]</span>
+        <span style={{ width: '90px' }}>{t('pump.duty_hours')} [h/yr]</span>
+      </div>
+      {value.map((d, i) => (
+        <div key={i} style={{ display: 'flex', gap: '8px', marginBottom: '4px', alignItems: 'center' }}>
+          <input type="number" value={d.flowPercent} onChange={e => update(i, { flowPercent: Number(e.target.value) })}
+            min={1} step={5} style={{ ...inputStyle, width: '80px' }} />
+          <input type="number" value={d.hours_h_yr} onChange={e => update(i, { hours_h_yr: Number(e.target.value) })}
+            min={0} max={8760} step={100} style={{ ...inputStyle, width: '90px' }} />
+          <button onClick={() => remove(i)} style={{ padding: '4px 8px', cursor: 'pointer' }}>{'\u00D7'}</button>
+        </div>
+      ))}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '4px' }}>
+        <button onClick={add} style={{ padding: '4px 12px', cursor: 'pointer' }}>
+          + {t('pump.duty_add')}
+        </button>
+        <span style={{ fontSize: '0.85em', color: totalHours > 8760 ? '#c00' : '#555' }}>
+          {t('pump.duty_total_hours')}: {formatNum(totalHours, 0)} h/yr
+        </span>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * ポンプ比較表 — ライブラリ内の全ポンプを現在の抵抗曲線で評価した適合順の一覧
+ *
+ * 行をクリックするとそのポンプを選定対象に切り替える。
+ */
+
+import { useTranslation } from '../i18n/context';
+import { formatNum } from './formatters';
+import type { PumpRankingEntry, PumpSuitability } from '@domain/system/pumpRanking';
+
+interface PumpRankingTableProps {
+  entries: readonly PumpRankingEntry[];
+  /** ポンプ ID → 表示名 */
+  pumpLabels: Readonly<Record<string, string>>;
+  selectedPumpId: string;
+  onSelect: (pumpId: string) => void;
+}
+
+const SUITABILITY_COLOR: Record<PumpSuitability, string> = {
+  suitable: '#2e7d32',
+  marginal: '#b26a00',
+  unsuitable: '#c00',
+};
+
+const cell = { textAlign: 'right' as const, padding: '2px 4px' };
+
+export function PumpRankingTable({ entries, pumpLabels, selectedPumpId, onSelect }: PumpRankingTableProps) {
+  const { t } = useTranslation();
+
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85em' }}>
+      <thead>
+        <tr style={{ borderBottom: '1px solid #ddd', color: '#555' }}>
+          <th style={{ textAlign: 'left', padding: '2px 4px' }}>#</th>
+          <th style={{ textAlign: 'left', padding: '2px 4px' }}>{t('pump.model')}</th>
+          <th style={cell}>Q [{t('unit.m3h')}]</th>
+          <th style={cell}>H [{t('unit.m')}]</th>
+          <th style={cell}>{'\u03B7'} [{t('unit.pct')}]</th>
+          <th style={cell}>Q/Q<sub>BEP</sub> [{t('unit.pct')}]</th>
+          <th style={cell}>{t('pump.npsh_ratio')}</th>
+          <th style={cell}>{t('pump.shaft_power')} [{t('pump.unit.kw')}]</th>
+          <th style={{ textAlign: 'left', padding: '2px 4px' }}>{t('pump.suitability')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((e, i) => {
+          const op = e.operatingPoint;
+          return (
+            <tr
+              key={e.id}
+              onClick={() => onSelect(e.id)}
+              style={{
+                borderBottom: '1px solid #eee', cursor: 'pointer',
+                background: e.id === selectedPumpId ? '#e8f4fd' : undefined,
+              }}
+            >
+              <td style={{ padding: '2px 4px' }}>{i + 1}</td>
+              <td style={{ padding: '2px 4px' }}>{pumpLabels[e.id] ?? e.id}</td>
+              <td style={cell}>{op ? formatNum(op.flow_m3h, 2) : '-'}</td>
+              <td style={cell}>{op ? formatNum(op.head_m, 2) : '-'}</td>
+              <td style={cell}>{op ? formatNum(op.efficiency_pct, 1) : '-'}</td>
+              <td style={cell}>{e.bepRatio !== null ? formatNum(e.bepRatio * 100, 0) : '-'}</td>
+              <td style={cell}>{e.npshMargin ? formatNum(e.npshMargin.ratio, 2) : '-'}</td>
+              <td style={cell}>{e.shaftPower_kW !== null ? formatNum(e.shaftPower_kW, 2) : '-'}</td>
+              <td style={{ padding: '2px 4px', color: SUITABILITY_COLOR[e.suitability] }}>
+                {t(`pump.suitability_${e.suitability}`)}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * レオロジー入力フィールド — 非ニュートン流体のモデル選択とパラメータ入力
+ *
+ * value が null のときはニュートン流体（流体物性テーブルの粘度を使用）。
+ * PipeLossCalculator / MultiSegmentCalculator / RouteEditor で共通利用。
+ */
+
+import { useTranslation } from '../i18n/context';
+import { Field, inputStyle } from './FormLayout';
+import { Rheology, RheologyModel, RHEOLOGY_MODELS } from '@domain/types';
+
+/** モデル切替時の初期値（スラリー・汚泥の代表的なオーダー） */
+const DEFAULT_RHEOLOGY: Record<RheologyModel, Rheology> = {
+  power_law: { model: 'power_law', k: 0.5, n: 0.6 },
+  bingham: { model: 'bingham', yieldStress_pa: 10, plasticViscosity: 0.05 },
+  herschel_bulkley: { model: 'herschel_bulkley', yieldStress_pa: 5, k: 0.3, n: 0.6 },
+};
+
+interface RheologyFieldsProps {
+  value: Rheology | null;
+  onChange: (value: Rheology | null) => void;
+}
+
+export function RheologyFields({ value, onChange }: RheologyFieldsProps) {
+  const { t } = useTranslation();
+
+  const numberInput = (current: number, step: number, apply: (v: number) => Rheology) => (
+    <input type="number" value={current} onChange={e => onChange(apply(Number(e.target.value)))}
+      min={0} step={step} style={inputStyle} />
+  );
+
+  return (
+    <>
+      <Field label={t('rheology.model')}>
+        <select value={value?.model ?? 'newtonian'} onChange={e => {
+            const model = e.target.value;
+            onChange(model === 'newtonian' ? null : DEFAULT_RHEOLOGY[model as RheologyModel]);
+          }} style={inputStyle}>
+          <option value="newtonian">{t('rheology.model.newtonian')}</option>
+          {RHEOLOGY_MODELS.map(m => (
+            <option key={m} value={m}>{t(`rheology.model.${m}`)}</option>
+          ))}
+        </select>
+      </Field>
+      {value && value.model !== 'power_law' && (
+        <Field label={t('rheology.yield_stress')}>
+          {numberInput(value.yieldStress_pa, 0.1, v => ({ ...value, yieldStress_pa: v }))} {t('unit.pa')}
+        </Field>
+      )}
+      {value?.model === 'bingham' && (
+        <Field label={t('rheology.plastic_viscosity')}>
+          {numberInput(value.plasticViscosity, 0.001, v => ({ ...value, plasticViscosity: v }))} {t('unit.pa_s')}
+        </Field>
+      )}
+      {value && value.model !== 'bingham' && (
+        <>
+          <Field label={t('rheology.consistency')}>
+            {numberInput(value.k, 0.01, v => ({ ...value, k: v }))} Pa·sⁿ
+          </Field>
+          <Field label={t('rheology.flow_index')}>
+            {numberInput(value.n, 0.01, v => ({ ...value, n: v }))}
+          </Field>
+        </>
+      )}
+    </>
+  );
+}
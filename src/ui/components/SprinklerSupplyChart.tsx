@@ -0,0 +1,139 @@
+/**
+ * スプリンクラー供給・需要チャート — 水源の供給曲線と需要点
+ *
+ * 横軸は流量、縦軸は供給点の圧力。スプリンクラー需要点から消火栓加算水量を
+ * 水平に加えた総需要点と、同じ流量での供給可能圧力との差が余裕圧力となる。
+ */
+
+import { SprinklerSystemResult, WaterSupplyTest } from '@domain/sprinkler/types';
+import { calcAvailableSupplyPressure } from '@domain/sprinkler/sprinklerHydraulics';
+import { formatNum, niceStep } from './formatters';
+
+interface SprinklerSupplyChartProps {
+  result: SprinklerSystemResult;
+  supply: WaterSupplyTest;
+  t: (key: string) => string;
+}
+
+export function SprinklerSupplyChart({ result, supply, t }: SprinklerSupplyChartProps) {
+  const W = 600;
+  const H = 400;
+  const PAD = { top: 30, right: 30, bottom: 50, left: 60 };
+
+  const chartW = W - PAD.left - PAD.right;
+  const chartH = H - PAD.top - PAD.bottom;
+
+  const { sprinklerDemand_lpm, totalDemand_lpm, requiredPressure_kpa } = result;
+  const available = calcAvailableSupplyPressure(supply, totalDemand_lpm);
+
+  // Axis ranges
+  const xStep = niceStep(Math.max(supply.residualFlow_lpm, totalDemand_lpm) * 1.2, 6);
+  const maxFlow = Math.ceil(Math.max(supply.residualFlow_lpm, totalDemand_lpm) * 1.2 / xStep) * xStep;
+  const yStep = niceStep(Math.max(supply.staticPressure_kpa, requiredPressure_kpa) * 1.1, 6);
+  const maxPressure = Math.ceil(Math.max(supply.staticPressure_kpa, requiredPressure_kpa) * 1.1 / yStep) * yStep;
+
+  const scaleX = (q: number) => PAD.left + (q / maxFlow) * chartW;
+  const scaleY = (p: number) => PAD.top + chartH - (p / maxPressure) * chartH;
+
+  // 供給曲線は供給圧力が 0 になる流量まで描画する
+  const N = 60;
+  const supplyPoints: string[] = [];
+  for (let i = 0; i <= N; i++) {
+    const q = (maxFlow * i) / N;
+    const p = calcAvailableSupplyPressure(supply, q);
+    if (p < 0) break;
+    supplyPoints.push(`${i === 0 ? 'M' : 'L'} ${scaleX(q)} ${scaleY(p)}`);
+  }
+  const supplyPath = supplyPoints.join(' ');
+
+  // Grid lines
+  const xTicks: number[] = [];
+  for (let q = 0; q <= maxFlow + 1e-9; q += xStep) {
+    xTicks.push(q);
+  }
+  const yTicks: number[] = [];
+  for (let p = 0; p <= maxPressure + 1e-9; p += yStep) {
+    yTicks.push(p);
+  }
+
+  const sufficient = available >= requiredPressure_kpa;
+  const marginColor = sufficient ? '#00aa44' : '#cc0000';
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      style={{ width: '100%', border: '1px solid #ddd', borderRadius: '8px', background: '#fff' }}
+    >
+      {/* Grid */}
+      {xTicks.map(q => (
+        <line key={`gx${q}`} x1={scaleX(q)} y1={PAD.top} x2={scaleX(q)} y2={PAD.top + chartH}
+          stroke="#eee" strokeWidth={1} />
+      ))}
+      {yTicks.map(p => (
+        <line key={`gy${p}`} x1={PAD.left} y1={scaleY(p)} x2={PAD.left + chartW} y2={scaleY(p)}
+          stroke="#eee" strokeWidth={1} />
+      ))}
+
+      {/* Axes */}
+      <line x1={PAD.left} y1={PAD.top + chartH} x2={PAD.left + chartW} y2={PAD.top + chartH}
+        stroke="#333" strokeWidth={1.5} />
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + chartH}
+        stroke="#333" strokeWidth={1.5} />
+
+      {/* X axis labels */}
+      {xTicks.map(q => (
+        <text key={`lx${q}`} x={scaleX(q)} y={PAD.top + chartH + 18}
+          textAnchor="middle" fontSize={11} fill="#555">{q.toFixed(0)}</text>
+      ))}
+      <text x={PAD.left + chartW / 2} y={H - 8}
+        textAnchor="middle" fontSize={12} fill="#333">Q (L/min)</text>
+
+      {/* Y axis labels */}
+      {yTicks.map(p => (
+        <text key={`ly${p}`} x={PAD.left - 8} y={scaleY(p) + 4}
+          textAnchor="end" fontSize={11} fill="#555">{p.toFixed(0)}</text>
+      ))}
+      <text x={16} y={PAD.top + chartH / 2}
+        textAnchor="middle" fontSize={12} fill="#333"
+        transform={`rotate(-90, 16, ${PAD.top + chartH / 2})`}>P (kPa)</text>
+
+      {/* Supply curve */}
+      <path d={supplyPath} fill="none" stroke="#0066cc" strokeWidth={2.5} />
+      <circle cx={scaleX(supply.residualFlow_lpm)} cy={scaleY(supply.residualPressure_kpa)}
+        r={4} fill="#0066cc" />
+
+      {/* Demand: sprinkler demand → hose allowance → total demand */}
+      <line x1={scaleX(sprinklerDemand_lpm)} y1={scaleY(requiredPressure_kpa)}
+        x2={scaleX(totalDemand_lpm)} y2={scaleY(requiredPressure_kpa)}
+        stroke="#cc3300" strokeWidth={2} strokeDasharray="6,3" />
+      <circle cx={scaleX(sprinklerDemand_lpm)} cy={scaleY(requiredPressure_kpa)}
+        r={5} fill="#fff" stroke="#cc3300" strokeWidth={2} />
+      <circle cx={scaleX(totalDemand_lpm)} cy={scaleY(requiredPressure_kpa)}
+        r={6} fill="#cc3300" stroke="#fff" strokeWidth={2} />
+
+      {/* Safety margin */}
+      <line x1={scaleX(totalDemand_lpm)} y1={scaleY(requiredPressure_kpa)}
+        x2={scaleX(totalDemand_lpm)} y2={scaleY(Math.max(available, 0))}
+        stroke={marginColor} strokeWidth={1.5} />
+      <text x={scaleX(totalDemand_lpm) + 8} y={(scaleY(requiredPressure_kpa) + scaleY(Math.max(available, 0))) / 2 + 4}
+        fontSize={11} fill={marginColor} fontWeight="bold">
+        {formatNum(available - requiredPressure_kpa, 1)} kPa
+      </text>
+
+      {/* Legend */}
+      <g transform={`translate(${PAD.left + chartW - 170}, ${PAD.top + 8})`}>
+        <line x1={0} y1={0} x2={20} y2={0} stroke="#0066cc" strokeWidth={2.5} />
+        <text x={24} y={4} fontSize={10} fill="#333">{t('sprinkler.chart_supply')}</text>
+
+        <circle cx={10} cy={16} r={4} fill="#fff" stroke="#cc3300" strokeWidth={2} />
+        <text x={24} y={20} fontSize={10} fill="#333">{t('sprinkler.sprinkler_demand')}</text>
+
+        <line x1={0} y1={32} x2={20} y2={32} stroke="#cc3300" strokeWidth={2} strokeDasharray="6,3" />
+        <text x={24} y={36} fontSize={10} fill="#333">{t('sprinkler.hose_allowance')}</text>
+
+        <circle cx={10} cy={48} r={5} fill="#cc3300" />
+        <text x={24} y={52} fontSize={10} fill="#333">{t('sprinkler.total_demand')}</text>
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * 過渡解析の圧力包絡線チャート — ルート沿いの最大・最小水頭
+ *
+ * 横軸は始点からの管路長、縦軸はピエゾ水頭。
+ * 管中心標高 + 蒸気圧水頭を下回る区間で水柱分離が生じうる。
+ */
+
+import { TransientResult } from '@domain/transient/types';
+import { niceStep } from './formatters';
+
+interface TransientEnvelopeChartProps {
+  result: TransientResult;
+  t: (key: string) => string;
+}
+
+export function TransientEnvelopeChart({ result, t }: TransientEnvelopeChartProps) {
+  const W = 600;
+  const H = 400;
+  const PAD = { top: 30, right: 30, bottom: 50, left: 60 };
+
+  const chartW = W - PAD.left - PAD.right;
+  const chartH = H - PAD.top - PAD.bottom;
+
+  const { nodes, vaporPressureHead_m } = result;
+
+  // Axis ranges
+  const allHeads = nodes.flatMap(n => [n.maxHead_m, n.minHead_m, n.elevation_m, n.elevation_m + vaporPressureHead_m]);
+  const maxDistance = nodes[nodes.length - 1].distance_m;
+  const yStep = niceStep(Math.max(Math.max(...allHeads) - Math.min(...allHeads), 1), 6);
+  const minHead = Math.floor(Math.min(...allHeads) / yStep) * yStep;
+  const maxHead = Math.ceil(Math.max(...allHeads) / yStep) * yStep;
+  const xStep = niceStep(maxDistance, 6);
+
+  const scaleX = (distance: number) => PAD.left + (distance / maxDistance) * chartW;
+  const scaleY = (head: number) => PAD.top + chartH - ((head - minHead) / (maxHead - minHead)) * chartH;
+
+  const pathOf = (head: (n: TransientResult['nodes'][number]) => number) => nodes
+    .map((n, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(n.distance_m)} ${scaleY(head(n))}`)
+    .join(' ');
+
+  const maxPath = pathOf(n => n.maxHead_m);
+  const minPath = pathOf(n => n.minHead_m);
+  const steadyPath = pathOf(n => n.steadyHead_m);
+  const elevationPath = pathOf(n => n.elevation_m);
+  const vaporPath = pathOf(n => n.elevation_m + vaporPressureHead_m);
+
+  // Grid lines
+  const xTicks: number[] = [];
+  for (let x = 0; x <= maxDistance + 1e-9; x += xStep) {
+    xTicks.push(x);
+  }
+  const yTicks: number[] = [];
+  for (let h = minHead; h <= maxHead + 1e-9; h += yStep) {
+    yTicks.push(h);
+  }
+  const tickLabel = (v: number, step: number) => (step < 1 ? v.toFixed(1) : v.toFixed(0));
+
+  const routeNodes = nodes.filter(n => n.routeNodeIndex !== undefined);
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      style={{ width: '100%', border: '1px solid #ddd', borderRadius: '8px', background: '#fff' }}
+    >
+      {/* Grid */}
+      {xTicks.map(x => (
+        <line key={`gx${x}`} x1={scaleX(x)} y1={PAD.top} x2={scaleX(x)} y2={PAD.top + chartH}
+          stroke="#eee" strokeWidth={1} />
+      ))}
+      {yTicks.map(h => (
+        <line key={`gy${h}`} x1={PAD.left} y1={scaleY(h)} x2={PAD.left + chartW} y2={scaleY(h)}
+          stroke="#eee" strokeWidth={1} />
+      ))}
+
+      {/* Route nodes */}
+      {routeNodes.map(n => (
+        <g key={`rn${n.routeNodeIndex}`}>
+          <line x1={scaleX(n.distance_m)} y1={PAD.top} x2={scaleX(n.distance_m)} y2={PAD.top + chartH}
+            stroke="#bbb" strokeWidth={0.5} strokeDasharray="2,3" />
+          <circle cx={scaleX(n.distance_m)} cy={scaleY(n.elevation_m)} r={3} fill="#333" />
+          <text x={scaleX(n.distance_m)} y={PAD.top - 6}
+            textAnchor="middle" fontSize={10} fill="#888">N{n.routeNodeIndex! + 1}</text>
+        </g>
+      ))}
+
+      {/* Axes */}
+      <line x1={PAD.left} y1={PAD.top + chartH} x2={PAD.left + chartW} y2={PAD.top + chartH}
+        stroke="#333" strokeWidth={1.5} />
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + chartH}
+        stroke="#333" strokeWidth={1.5} />
+
+      {/* X axis labels */}
+      {xTicks.map(x => (
+        <text key={`lx${x}`} x={scaleX(x)} y={PAD.top + chartH + 18}
+          textAnchor="middle" fontSize={11} fill="#555">{tickLabel(x, xStep)}</text>
+      ))}
+      <text x={PAD.left + chartW / 2} y={H - 8}
+        textAnchor="middle" fontSize={12} fill="#333">{t('transient.chart_distance')}</text>
+
+      {/* Y axis labels */}
+      {yTicks.map(h => (
+        <text key={`ly${h}`} x={PAD.left - 8} y={scaleY(h) + 4}
+          textAnchor="end" fontSize={11} fill="#555">{tickLabel(h, yStep)}</text>
+      ))}
+      <text x={16} y={PAD.top + chartH / 2}
+        textAnchor="middle" fontSize={12} fill="#333"
+        transform={`rotate(-90, 16, ${PAD.top + chartH / 2})`}>H (m)</text>
+
+      {/* Pipe elevation and column separation limit */}
+      <path d={elevationPath} fill="none" stroke="#333" strokeWidth={1.5} />
+      <path d={vaporPath} fill="none" stroke="#9933cc" strokeWidth={1} strokeDasharray="2,2" />
+
+      {/* Steady HGL */}
+      <path d={steadyPath} fill="none" stroke="#888" strokeWidth={1.5} strokeDasharray="6,3" />
+
+      {/* Envelopes */}
+      <path d={maxPath} fill="none" stroke="#cc3300" strokeWidth={2} />
+      <path d={minPath} fill="none" stroke="#0066cc" strokeWidth={2} />
+
+      {/* Legend */}
+      <g transform={`translate(${PAD.left + 10}, ${PAD.top + 8})`}>
+        <line x1={0} y1={0} x2={20} y2={0} stroke="#cc3300" strokeWidth={2} />
+        <text x={24} y={4} fontSize={10} fill="#333">{t('transient.chart_max_head')}</text>
+
+        <line x1={0} y1={16} x2={20} y2={16} stroke="#0066cc" strokeWidth={2} />
+        <text x={24} y={20} fontSize={10} fill="#333">{t('transient.chart_min_head')}</text>
+
+        <line x1={0} y1={32} x2={20} y2={32} stroke="#888" strokeWidth={1.5} strokeDasharray="6,3" />
+        <text x={24} y={36} fontSize={10} fill="#333">{t('transient.chart_steady_head')}</text>
+
+        <line x1={0} y1={48} x2={20} y2={48} stroke="#333" strokeWidth={1.5} />
+        <text x={24} y={52} fontSize={10} fill="#333">{t('transient.chart_elevation')}</text>
+
+        <line x1={0} y1={64} x2={20} y2={64} stroke="#9933cc" strokeWidth={1} strokeDasharray="2,2" />
+        <text x={24} y={68} fontSize={10} fill="#333">{t('transient.chart_vapor_limit')}</text>
+      </g>
+    </svg>
+  );
+}
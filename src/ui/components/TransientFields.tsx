@@ -0,0 +1,156 @@
+/**
+ * 過渡解析入力フィールド — 特性曲線法による水撃シミュレーションの条件入力
+ *
+ * value が null のときは過渡解析を行わない。
+ * シナリオ（弁閉鎖 / ポンプ停止）ごとに境界条件の入力を切り替える。
+ */
+
+import { useTranslation } from '../i18n/context';
+import { Field, inputStyle } from './FormLayout';
+import {
+  TransientSettings, TransientScenario, TransientScenarioType, TRANSIENT_SCENARIO_TYPES,
+  PipeAnchorage, PIPE_ANCHORAGES, ValveClosureScenario, PumpTripScenario,
+} from '@domain/transient/types';
+
+/** 弁閉鎖シナリオの初期値（上流水槽 30 m、2 秒で直線閉鎖） */
+const DEFAULT_VALVE_CLOSURE: ValveClosureScenario = {
+  type: 'valve_closure',
+  upstreamHead_m: 30,
+  downstreamHead_m: 0,
+  closureTime_s: 2,
+  closureExponent: 1,
+};
+
+/** ポンプ停止シナリオの初期値（4 極電動機直結の小型渦巻ポンプ相当） */
+const DEFAULT_PUMP_TRIP: PumpTripScenario = {
+  type: 'pump_trip',
+  suctionHead_m: 0,
+  downstreamHead_m: 20,
+  shutoffHead_m: 40,
+  ratedSpeed_rpm: 1450,
+  efficiency: 0.75,
+  inertia_kgm2: 0.5,
+};
+
+const DEFAULT_SCENARIOS: Record<TransientScenarioType, TransientScenario> = {
+  valve_closure: DEFAULT_VALVE_CLOSURE,
+  pump_trip: DEFAULT_PUMP_TRIP,
+};
+
+/** 有効化時の共通条件の初期値（水 20 °C の体積弾性係数 2.19 GPa） */
+function createDefaultSettings(scenario: TransientScenario): TransientSettings {
+  return {
+    scenario,
+    duration_s: 20,
+    bulkModulus_gpa: 2.19,
+    anchorage: 'anchored',
+    designPressure_kpa: 1000,
+  };
+}
+
+interface TransientFieldsProps {
+  value: TransientSettings | null;
+  onChange: (value: TransientSettings | null) => void;
+}
+
+export function TransientFields({ value, onChange }: TransientFieldsProps) {
+  const { t } = useTranslation();
+
+  const numberInput = (current: number, step: number, apply: (v: number) => TransientSettings, min?: number) => (
+    <input type="number" value={current} onChange={e => onChange(apply(Number(e.target.value)))}
+      min={min} step={step} style={inputStyle} />
+  );
+
+  const handleScenarioChange = (type: string) => {
+    if (type === 'off') {
+      onChange(null);
+      return;
+    }
+    const scenario = DEFAULT_SCENARIOS[type as TransientScenarioType];
+    onChange(value ? { ...value, scenario } : createDefaultSettings(scenario));
+  };
+
+  const scenarioFields = (settings: TransientSettings) => {
+    const { scenario } = settings;
+    if (scenario.type === 'valve_closure') {
+      const update = (patch: Partial<ValveClosureScenario>): TransientSettings =>
+        ({ ...settings, scenario: { ...scenario, ...patch } });
+      return (
+        <>
+          <Field label={t('transient.upstream_head')}>
+            {numberInput(scenario.upstreamHead_m, 1, v => update({ upstreamHead_m: v }))} {t('unit.m')}
+          </Field>
+          <Field label={t('transient.downstream_head')}>
+            {numberInput(scenario.downstreamHead_m, 1, v => update({ downstreamHead_m: v }))} {t('unit.m')}
+          </Field>
+          <Field label={t('surge.closure_time')}>
+            {numberInput(scenario.closureTime_s, 0.1, v => update({ closureTime_s: v }), 0)} {t('unit.s')}
+          </Field>
+          <Field label={t('transient.closure_exponent')}>
+            {numberInput(scenario.closureExponent, 0.1, v => update({ closureExponent: v }), 0)}
+          </Field>
+        </>
+      );
+    }
+    const update = (patch: Partial<PumpTripScenario>): TransientSettings =>
+      ({ ...settings, scenario: { ...scenario, ...patch } });
+    return (
+      <>
+        <Field label={t('transient.suction_head')}>
+          {numberInput(scenario.suctionHead_m, 1, v => update({ suctionHead_m: v }))} {t('unit.m')}
+        </Field>
+        <Field label={t('transient.downstream_head')}>
+          {numberInput(scenario.downstreamHead_m, 1, v => update({ downstreamHead_m: v }))} {t('unit.m')}
+        </Field>
+        <Field label={t('transient.shutoff_head')}>
+          {numberInput(scenario.shutoffHead_m, 1, v => update({ shutoffHead_m: v }), 0)} {t('unit.m')}
+        </Field>
+        <Field label={t('transient.rated_speed')}>
+          {numberInput(scenario.ratedSpeed_rpm, 10, v => update({ ratedSpeed_rpm: v }), 0)} {t('unit.rpm')}
+        </Field>
+        <Field label={t('transient.efficiency')}>
+          {numberInput(scenario.efficiency, 0.01, v => update({ efficiency: v }), 0)}
+        </Field>
+        <Field label={t('transient.inertia')}>
+          {numberInput(scenario.inertia_kgm2, 0.05, v => update({ inertia_kgm2: v }), 0)} kg·m²
+        </Field>
+      </>
+    );
+  };
+
+  return (
+    <>
+      <Field label={t('transient.scenario')}>
+        <select value={value ? value.scenario.type : 'off'} onChange={e => handleScenarioChange(e.target.value)}
+          style={{ ...inputStyle, width: '100%' }}>
+          <option value="off">{t('transient.scenario.off')}</option>
+          {TRANSIENT_SCENARIO_TYPES.map(type => (
+            <option key={type} value={type}>{t(`transient.scenario.${type}`)}</option>
+          ))}
+        </select>
+      </Field>
+      {value && (
+        <>
+          {scenarioFields(value)}
+          <Field label={t('transient.duration')}>
+            {numberInput(value.duration_s, 1, v => ({ ...value, duration_s: v }), 0)} {t('unit.s')}
+          </Field>
+          <Field label={t('surge.design_pressure')}>
+            {numberInput(value.designPressure_kpa, 10, v => ({ ...value, designPressure_kpa: v }), 0)} {t('unit.kpa')}
+          </Field>
+          <Field label={t('surge.bulk_modulus')}>
+            {numberInput(value.bulkModulus_gpa, 0.01, v => ({ ...value, bulkModulus_gpa: v }), 0)} {t('unit.gpa')}
+          </Field>
+          <Field label={t('surge.anchorage')}>
+            <select value={value.anchorage} onChange={e => onChange({ ...value, anchorage: e.target.value as PipeAnchorage })}
+              style={{ ...inputStyle, width: '100%' }}>
+              {PIPE_ANCHORAGES.map(a => (
+                <option key={a} value={a}>{t(`surge.anchorage.${a}`)}</option>
+              ))}
+            </select>
+          </Field>
+        </>
+      )}
+    </>
+  );
+}
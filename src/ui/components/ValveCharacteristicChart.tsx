@@ -0,0 +1,120 @@
+/**
+ * 調節弁特性チャート — 開度に対する流量（固有特性・据付特性）
+ *
+ * リニア・イコールパーセントそれぞれについて、固有特性を破線、
+ * 選定弁を系統に据え付けたときの据付特性を実線で描き、設計開度の点を示す。
+ */
+
+import { ControlValveSizingResult, ValveCharacteristic, VALVE_CHARACTERISTICS, InstalledCharacteristicPoint } from '@domain/valve/types';
+import { formatNum } from './formatters';
+
+interface ValveCharacteristicChartProps {
+  result: ControlValveSizingResult;
+  t: (key: string) => string;
+}
+
+const COLORS: Record<ValveCharacteristic, string> = {
+  linear: '#0066cc',
+  equal_percentage: '#cc3300',
+};
+
+/** 据付特性曲線上の開度 x における流量比（区間内は直線補間） */
+function interpolateInstalled(points: InstalledCharacteristicPoint[], opening: number): number {
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (opening <= b.opening) {
+      return a.installed + (b.installed - a.installed) * (opening - a.opening) / (b.opening - a.opening);
+    }
+  }
+  return points[points.length - 1].installed;
+}
+
+export function ValveCharacteristicChart({ result, t }: ValveCharacteristicChartProps) {
+  const W = 600;
+  const H = 400;
+  const PAD = { top: 30, right: 30, bottom: 50, left: 60 };
+
+  const chartW = W - PAD.left - PAD.right;
+  const chartH = H - PAD.top - PAD.bottom;
+
+  const curves = result.installedCharacteristics;
+  if (!curves || result.selectedIndex === null) return null;
+  const selected = result.candidates[result.selectedIndex];
+
+  const scaleX = (x: number) => PAD.left + x * chartW;
+  const scaleY = (y: number) => PAD.top + chartH - y * chartH;
+
+  const toPath = (points: InstalledCharacteristicPoint[], key: 'inherent' | 'installed') =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.opening)} ${scaleY(p[key])}`).join(' ');
+
+  const ticks = [0, 0.2, 0.4, 0.6, 0.8, 1];
+
+  const designOpening = Math.min(selected.opening, 1);
+  const designFlow = interpolateInstalled(curves[selected.valve.characteristic], designOpening);
+  const designColor = COLORS[selected.valve.characteristic];
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      style={{ width: '100%', border: '1px solid #ddd', borderRadius: '8px', background: '#fff' }}
+    >
+      {/* Grid */}
+      {ticks.map(v => (
+        <g key={`g${v}`}>
+          <line x1={scaleX(v)} y1={PAD.top} x2={scaleX(v)} y2={PAD.top + chartH} stroke="#eee" strokeWidth={1} />
+          <line x1={PAD.left} y1={scaleY(v)} x2={PAD.left + chartW} y2={scaleY(v)} stroke="#eee" strokeWidth={1} />
+        </g>
+      ))}
+
+      {/* Axes */}
+      <line x1={PAD.left} y1={PAD.top + chartH} x2={PAD.left + chartW} y2={PAD.top + chartH}
+        stroke="#333" strokeWidth={1.5} />
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + chartH}
+        stroke="#333" strokeWidth={1.5} />
+
+      {/* X axis labels */}
+      {ticks.map(v => (
+        <text key={`lx${v}`} x={scaleX(v)} y={PAD.top + chartH + 18}
+          textAnchor="middle" fontSize={11} fill="#555">{(v * 100).toFixed(0)}</text>
+      ))}
+      <text x={PAD.left + chartW / 2} y={H - 8}
+        textAnchor="middle" fontSize={12} fill="#333">{t('valve.chart_opening')}</text>
+
+      {/* Y axis labels */}
+      {ticks.map(v => (
+        <text key={`ly${v}`} x={PAD.left - 8} y={scaleY(v) + 4}
+          textAnchor="end" fontSize={11} fill="#555">{(v * 100).toFixed(0)}</text>
+      ))}
+      <text x={16} y={PAD.top + chartH / 2}
+        textAnchor="middle" fontSize={12} fill="#333"
+        transform={`rotate(-90, 16, ${PAD.top + chartH / 2})`}>{t('valve.chart_flow')}</text>
+
+      {/* Curves */}
+      {VALVE_CHARACTERISTICS.map(c => (
+        <g key={c}>
+          <path d={toPath(curves[c], 'inherent')} fill="none" stroke={COLORS[c]} strokeWidth={1.5} strokeDasharray="6,3" />
+          <path d={toPath(curves[c], 'installed')} fill="none" stroke={COLORS[c]} strokeWidth={2.5} />
+        </g>
+      ))}
+
+      {/* Design point */}
+      <circle cx={scaleX(designOpening)} cy={scaleY(designFlow)} r={6} fill={designColor} stroke="#fff" strokeWidth={2} />
+      <text x={scaleX(designOpening) + 10} y={scaleY(designFlow) + 16} fontSize={11} fill={designColor} fontWeight="bold">
+        {formatNum(designOpening * 100, 0)} %
+      </text>
+
+      {/* Legend */}
+      <g transform={`translate(${PAD.left + chartW - 180}, ${PAD.top + chartH - 64})`}>
+        {VALVE_CHARACTERISTICS.map((c, i) => (
+          <g key={c} transform={`translate(0, ${i * 32})`}>
+            <line x1={0} y1={0} x2={20} y2={0} stroke={COLORS[c]} strokeWidth={2.5} />
+            <text x={24} y={4} fontSize={10} fill="#333">{t(`valve.characteristic.${c}`)} — {t('valve.chart_installed')}</text>
+            <line x1={0} y1={16} x2={20} y2={16} stroke={COLORS[c]} strokeWidth={1.5} strokeDasharray="6,3" />
+            <text x={24} y={20} fontSize={10} fill="#333">{t(`valve.characteristic.${c}`)} — {t('valve.chart_inherent')}</text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * 蒸気圧フィールド — 推算できる流体は結果表示、推算できない流体（揮発性溶質）は手入力
+ */
+
+import { useTranslation } from '../i18n/context';
+import { Field, ResultRow, inputStyle } from './FormLayout';
+import { formatNum } from './formatters';
+import type { VaporPressureState } from '../hooks/useVaporPressure';
+
+export function VaporPressureField({ autoVaporPressure, manualVaporPressure, setManualVaporPressure }: VaporPressureState) {
+  const { t } = useTranslation();
+
+  if (autoVaporPressure !== null) {
+    return <ResultRow label={t('fluid.vapor_pressure')} value={`${formatNum(autoVaporPressure, 3)} ${t('unit.kpa')}`} />;
+  }
+  return (
+    <Field label={t('fluid.vapor_pressure')}>
+      <input type="number" value={manualVaporPressure} onChange={e => setManualVaporPressure(Number(e.target.value))}
+        min={0} step={0.1} style={inputStyle} /> {t('unit.kpa')}
+      <div style={{ fontSize: '0.8em', color: '#888' }}>{t('fluid.vapor_pressure_manual')}</div>
+    </Field>
+  );
+}
@@ -25,6 +25,13 @@ function interpolate(template: string, params?: Record<string, string | number>)
   );
 }
 
+/**
+ * 警告 1 件を翻訳済みの文字列にする（文字列リストで警告を受け渡す画面用）
+ */
+export function formatWarning(warning: CalcWarning, t: (key: string) => string): string {
+  return interpolate(t(warning.messageKey), warning.messageParams);
+}
+
 export function WarningPanel({
   warnings,
   t,
@@ -66,3 +73,28 @@ export function WarningPanel({
     </div>
   );
 }
+
+/**
+ * 警告の簡易表示 — 表のセル用に severity アイコンのみ並べ、本文はツールチップに出す
+ */
+export function WarningBadges({
+  warnings,
+  t,
+}: {
+  warnings: readonly CalcWarning[];
+  t: (key: string) => string;
+}) {
+  if (warnings.length === 0) return null;
+
+  const sorted = [...warnings].sort(
+    (a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity),
+  );
+
+  return (
+    <span title={sorted.map(w => interpolate(t(w.messageKey), w.messageParams)).join('\n')} style={{ cursor: 'help' }}>
+      {sorted.map((w, i) => (
+        <span key={i}>{severityConfig[w.severity].icon}</span>
+      ))}
+    </span>
+  );
+}
@@ -16,3 +16,12 @@ export function formatPa(pa: number): string {
   if (Math.abs(pa) >= 1e3) return `${(pa / 1e3).toFixed(2)} kPa`;
   return `${pa.toFixed(1)} Pa`;
 }
+
+/** チャートの軸目盛間隔を 1, 2, 5 × 10ⁿ に丸める（range を count 分割した値以上） */
+export function niceStep(range: number, count: number): number {
+  const raw = range / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  const factor = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return factor * magnitude;
+}
@@ -1,23 +1,38 @@
-import { useState, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { Fragment, useState, useMemo, useImperativeHandle, forwardRef } from 'react';
 import { useTranslation } from '../i18n/context';
 import { useIsDesktop } from '../hooks/useBreakpoint';
+import { useVaporPressure } from '../hooks/useVaporPressure';
 import { localizedName } from '../i18n/localizedName';
 import { Section, Field, ResultRow, inputStyle, smallBtnStyle } from '../components/FormLayout';
+import { RheologyFields } from '../components/RheologyFields';
+import { HeatLossFields } from '../components/HeatLossFields';
 import { formatNum, formatPa } from '../components/formatters';
 import { WarningPanel } from '../components/WarningPanel';
-import { SystemResult, SegmentResult } from '@domain/types';
+import { PipeSizingPanel, DEFAULT_SIZING_CRITERIA } from '../components/PipeSizingPanel';
+import { ControlValveFields } from '../components/ControlValveFields';
+import { VaporPressureField } from '../components/VaporPressureField';
+import { ValveCharacteristicChart } from '../components/ValveCharacteristicChart';
+import { FlowElementFields, FlowElementSummaryRow } from '../components/FlowElementFields';
+import { SystemResult, SegmentResult, FrictionFactorMethod, FRICTION_FACTOR_METHODS, FittingMethod, FITTING_METHODS, Rheology, HeatLossModel, FluidProperties } from '@domain/types';
+import { SUDDEN_TRANSITION_ANGLE_DEG } from '@domain/fittings/sizeChange';
+import { findFlowElement } from '@domain/fittings/flowElement';
+import { calcSuctionLine, ResistanceCurvePoint } from '@domain/system/pumpSelection';
 import { getFluidProperties } from '@domain/fluid/fluidProperties';
 import { getSolutionProperties } from '@domain/fluid/aqueousSolution';
+import { ControlValveConditions, ControlValveSizingResult } from '@domain/valve/types';
 import {
-  waterData, darby3kData, entranceExitData, getAvailableFittings, getAvailableFluids,
+  waterData, darby3kData, entranceExitData, craneData, hooperData, controlValveCatalog, getAvailableFittings, getAvailableFluids,
   getFluidData, getFluidTempRange, getFluidEntry, getSolutionInput, getFluidRefLabel,
   FluidId, SolutionId,
 } from '@infrastructure/dataLoader';
 import type { SolutionFluidEntry } from '@infrastructure/dataLoader';
-import { getAvailableSizes, getAvailableSchedules, resolvePipeSpec, PipeStandardKey } from '@infrastructure/pipeSpecResolver';
+import { getAvailableSizes, getAvailableSchedules, resolvePipeSpec, resolvePipeSpecsForSizing, PipeStandardKey } from '@infrastructure/pipeSpecResolver';
 import { getAvailableMaterials, resolveMaterial } from '@infrastructure/materialResolver';
-import { calcMultiSegment } from '@application/calcMultiSegment';
-import { SegmentDefinition } from '@application/types';
+import { calcMultiSegment, calcMultiSegmentSystemCurve } from '@application/calcMultiSegment';
+import { calcPipeSizing } from '@application/calcPipeSizing';
+import { calcControlValve } from '@application/calcControlValve';
+import { calcFlowElementBore } from '@application/calcFlowElementBore';
+import { SegmentDefinition, PipeSizingCriteria, PipeSizingResult } from '@application/types';
 import { MultiSegmentProjectData } from '@infrastructure/persistence/projectFile';
 import type { PumpSelectionInput, PumpResultSummary } from './PumpChart';
 import type { ExplanationSnapshot } from './explanation/types';
@@ -29,6 +44,7 @@ interface FittingRow {
   quantity: number;
   customK?: number;
   customCv?: number;
+  boreDiameter?: number;
 }
 
 interface SegmentFormState {
@@ -39,7 +55,9 @@ interface SegmentFormState {
   materialId: string;
   pipeLength: number;
   elevation: number;
+  transitionAngle: number;
   fittingRows: FittingRow[];
+  suction: boolean;
   collapsed: boolean;
 }
 
@@ -53,7 +71,9 @@ function createDefaultSegment(): SegmentFormState {
     materialId: 'carbon_steel_new',
     pipeLength: 10,
     elevation: 0,
+    transitionAngle: SUDDEN_TRANSITION_ANGLE_DEG,
     fittingRows: [],
+    suction: false,
     collapsed: false,
   };
 }
@@ -67,7 +87,9 @@ function createSegmentFromData(entry: MultiSegmentProjectData['segments'][number
     materialId: entry.materialId,
     pipeLength: entry.length_m,
     elevation: entry.elevation_m,
-    fittingRows: entry.fittings.map(f => ({ fittingId: f.fittingId, quantity: f.quantity, customK: f.kOverride, customCv: f.cvOverride })),
+    transitionAngle: entry.transitionAngle_deg ?? SUDDEN_TRANSITION_ANGLE_DEG,
+    fittingRows: entry.fittings.map(f => ({ fittingId: f.fittingId, quantity: f.quantity, customK: f.kOverride, customCv: f.cvOverride, boreDiameter: f.boreDiameter_mm })),
+    suction: entry.suction ?? false,
     collapsed: false,
   };
 }
@@ -97,11 +119,18 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
   const [temperature, setTemperature] = useState(initialData?.temperature_c ?? 20);
   const [concentration, setConcentration] = useState<number>(30);
   const [flowRate, setFlowRate] = useState(initialData?.flowRate_m3h ?? 10);
+  const [frictionMethod, setFrictionMethod] = useState<FrictionFactorMethod>(initialData?.frictionMethod ?? 'churchill');
+  const [fittingMethod, setFittingMethod] = useState<FittingMethod>(initialData?.fittingMethod ?? '3k');
+  const [rheology, setRheology] = useState<Rheology | null>(initialData?.rheology ?? null);
+  const [heatLoss, setHeatLoss] = useState<HeatLossModel | null>(initialData?.heatLoss ?? null);
+  const [controlValve, setControlValve] = useState<ControlValveConditions | null>(initialData?.controlValve ?? null);
   const fluids = useMemo(() => getAvailableFluids(), []);
   const tempRange = useMemo(() => getFluidTempRange(fluidId), [fluidId]);
   const fluidEntry = useMemo(() => getFluidEntry(fluidId), [fluidId]);
   const isSolution = fluidEntry.kind === 'solution';
   const solutionEntry = isSolution ? fluidEntry as SolutionFluidEntry : null;
+  const vaporPressureState = useVaporPressure(fluidId, temperature, concentration);
+  const { vaporPressure } = vaporPressureState;
 
   // Segment array
   const [segments, setSegments] = useState<SegmentFormState[]>(
@@ -109,8 +138,16 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
       ?? [createDefaultSegment()]
   );
 
+  // Pipe sizing (per segment, keyed by segment id)
+  const [sizingCriteria, setSizingCriteria] = useState<PipeSizingCriteria>(DEFAULT_SIZING_CRITERIA);
+  const [sizingResults, setSizingResults] = useState<Record<string, PipeSizingResult>>({});
+
   // Result
   const [result, setResult] = useState<SystemResult | null>(null);
+  // ポンプ選定に渡す実抵抗曲線（再計算できなければ 2 乗近似に任せる）
+  const [systemCurve, setSystemCurve] = useState<ResistanceCurvePoint[] | null>(null);
+  const [systemCurveError, setSystemCurveError] = useState<string | null>(null);
+  const [valveResult, setValveResult] = useState<ControlValveSizingResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [lastCalcSnapshot, setLastCalcSnapshot] = useState<ExplanationSnapshot | null>(null);
 
@@ -127,18 +164,26 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
           materialId: seg.materialId,
           length_m: seg.pipeLength,
           elevation_m: seg.elevation,
+          transitionAngle_deg: seg.transitionAngle,
           fittings: seg.fittingRows.filter(r => r.quantity > 0).map(r => ({
             fittingId: r.fittingId,
             quantity: r.quantity,
             ...(r.customK != null ? { kOverride: r.customK } : {}),
             ...(r.customCv != null ? { cvOverride: r.customCv } : {}),
+            ...(r.boreDiameter != null ? { boreDiameter_mm: r.boreDiameter } : {}),
           })),
+          ...(seg.suction ? { suction: true } : {}),
         })),
+        frictionMethod,
+        fittingMethod,
+        ...(rheology ? { rheology } : {}),
+        ...(heatLoss ? { heatLoss } : {}),
+        ...(controlValve ? { controlValve } : {}),
       };
     },
   }));
 
-  const availableFittings = useMemo(() => getAvailableFittings(), []);
+  const availableFittings = useMemo(() => getAvailableFittings(fittingMethod), [fittingMethod]);
   const materials = useMemo(() => getAvailableMaterials(), []);
   const fittingDescMap = useMemo(() => {
     const map = new Map<string, string>();
@@ -168,6 +213,14 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
   };
 
   const updateSegment = (index: number, updates: Partial<SegmentFormState>) => {
+    if (updates.pipeStandard !== undefined || updates.schedule !== undefined) {
+      const id = segments[index].id;
+      setSizingResults(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    }
     setSegments(prev => {
       const next = [...prev];
       next[index] = { ...next[index], ...updates };
@@ -175,9 +228,98 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
     });
   };
 
+  // 熱損失モデル使用時は区間ごとの平均温度で同じ流体の物性を再取得する
+  const resolveFluid = (temp_c: number): FluidProperties => {
+    let props: FluidProperties;
+    if (isSolution) {
+      const solInput = getSolutionInput(fluidId as SolutionId);
+      props = getSolutionProperties(temp_c, concentration, solutionEntry!.concentrationUnit, solInput);
+    } else {
+      const fluidData = getFluidData(fluidId);
+      props = getFluidProperties(temp_c, fluidData, { source: fluidData.referenceId });
+    }
+    return rheology ? { ...props, rheology } : props;
+  };
+
+  // 吸込み側に指定した区間があれば NPSHa 用の吸込み条件も渡す
+  const buildPumpInput = (
+    res: SystemResult, curve: ResistanceCurvePoint[] | null, curveError: string | null
+  ): PumpSelectionInput => {
+    const suctionSegments = res.segmentResults.filter((_, i) => segments[i]?.suction);
+    return {
+      designFlow_m3h: flowRate,
+      staticHead_m: res.head_elevation_total_m,
+      frictionHead_m: res.head_friction_total_m + res.head_fittings_total_m,
+      fluidId,
+      temperature_c: temperature,
+      ...(isSolution ? { concentration } : {}),
+      ...(suctionSegments.length > 0 ? { suction: calcSuctionLine(suctionSegments) } : {}),
+      ...(curve ? { systemCurve: curve } : {}),
+      ...(curveError ? { systemCurveError: curveError } : {}),
+      sourceTab: 'multi',
+    };
+  };
+
+  const handleSuggestSize = (index: number) => {
+    setError(null);
+    const seg = segments[index];
+
+    try {
+      const material = resolveMaterial(seg.materialId);
+      if (!material) throw new Error(`Segment ${index + 1}: Material not found`);
+
+      const sizing = calcPipeSizing(
+        {
+          temperature_c: temperature,
+          flowRate_m3h: flowRate,
+          candidates: resolvePipeSpecsForSizing(seg.pipeStandard, seg.pipeStandard === 'ansi' ? seg.schedule : undefined),
+          material,
+          criteria: sizingCriteria,
+          fluid: resolveFluid(temperature),
+          frictionMethod,
+        },
+        waterData, darby3kData, entranceExitData
+      );
+      setSizingResults(prev => ({ ...prev, [seg.id]: sizing }));
+      if (sizing.recommendedIndex !== null) {
+        updateSegment(index, { nominalSize: sizing.rows[sizing.recommendedIndex].pipe.nps });
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleSizeBore = (index: number, fittingIndex: number, targetDp_kpa: number, maxFlowRate_m3h: number) => {
+    setError(null);
+    const seg = segments[index];
+
+    try {
+      const pipeSpec = resolvePipeSpec(seg.pipeStandard, seg.nominalSize, seg.schedule);
+      if (!pipeSpec) throw new Error(`Segment ${index + 1}: Pipe specification not found`);
+
+      const detail = calcFlowElementBore(
+        {
+          elementId: seg.fittingRows[fittingIndex].fittingId,
+          pipe: pipeSpec,
+          temperature_c: temperature,
+          maxFlowRate_m3h,
+          targetDp_kpa,
+          fluid: resolveFluid(temperature),
+        },
+        waterData
+      );
+      const fittingRows = [...seg.fittingRows];
+      fittingRows[fittingIndex] = { ...fittingRows[fittingIndex], boreDiameter: Number(detail.bore_mm.toFixed(2)) };
+      updateSegment(index, { fittingRows });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
   const handleCalculate = () => {
     setError(null);
     setResult(null);
+    setValveResult(null);
 
     try {
       const segmentDefs: SegmentDefinition[] = segments.map((seg, i) => {
@@ -194,6 +336,7 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
             quantity: r.quantity,
             ...(r.fittingId === 'custom_k' && r.customK != null ? { kOverride: r.customK } : {}),
             ...(r.fittingId === 'custom_cv' && r.customCv != null ? { cvOverride: r.customCv } : {}),
+            ...(findFlowElement(r.fittingId) && r.boreDiameter != null ? { boreDiameter_mm: r.boreDiameter } : {}),
           }));
 
         return {
@@ -202,23 +345,32 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
           length_m: seg.pipeLength,
           elevation_m: seg.elevation,
           fittings,
+          transitionAngle_deg: i > 0 ? seg.transitionAngle : undefined,
         };
       });
 
-      let fluid;
-      if (isSolution) {
-        const solInput = getSolutionInput(fluidId as SolutionId);
-        fluid = getSolutionProperties(temperature, concentration, solutionEntry!.concentrationUnit, solInput);
-      } else {
-        const fluidData = getFluidData(fluidId);
-        fluid = getFluidProperties(temperature, fluidData, { source: fluidData.referenceId });
-      }
+      const fluid = resolveFluid(temperature);
 
-      const res = calcMultiSegment(
-        { temperature_c: temperature, flowRate_m3h: flowRate, segments: segmentDefs, fluid },
-        waterData, darby3kData, entranceExitData
-      );
+      const calcInput = {
+        temperature_c: temperature, flowRate_m3h: flowRate, segments: segmentDefs, fluid, frictionMethod, fittingMethod, compareFittingMethods: true,
+        ...(heatLoss ? { heatLoss, resolveFluid } : {}),
+      };
+      const res = calcMultiSegment(calcInput, waterData, darby3kData, entranceExitData, craneData, hooperData);
       setResult(res);
+      // 全流量での再計算に失敗した場合は Q² 近似に戻し、その理由をポンプタブに表示する
+      let curve: ResistanceCurvePoint[] | null;
+      let curveError: string | null = null;
+      try {
+        curve = calcMultiSegmentSystemCurve(calcInput, waterData, darby3kData, entranceExitData, craneData, hooperData);
+      } catch (e) {
+        curve = null;
+        curveError = e instanceof Error ? e.message : String(e);
+      }
+      setSystemCurve(curve);
+      setSystemCurveError(curveError);
+      if (controlValve) {
+        setValveResult(calcControlValve({ flowRate_m3h: flowRate, fluid, vaporPressure_kpa: vaporPressure, conditions: controlValve }, res, controlValveCatalog));
+      }
 
       // Snapshot from first segment for explanation tab
       if (segmentDefs.length > 0 && res.segmentResults.length > 0) {
@@ -226,21 +378,14 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
         setLastCalcSnapshot({
           fluid, pipe: seg.pipe, material: seg.material,
           flowRate_m3h: flowRate, length_m: seg.length_m, elevation_m: seg.elevation_m,
-          fittings: seg.fittings, result: res.segmentResults[0],
+          fittings: seg.fittings, frictionMethod, fittingMethod, result: res.segmentResults[0],
         });
       }
       onCalculated?.();
 
       // Auto-update pump if pump result already exists
       if (pumpResult && onUpdatePumpSilently) {
-        onUpdatePumpSilently({
-          designFlow_m3h: flowRate,
-          staticHead_m: res.head_elevation_total_m,
-          frictionHead_m: res.head_friction_total_m + res.head_fittings_total_m,
-          fluidId,
-          temperature_c: temperature,
-          sourceTab: 'multi',
-        });
+        onUpdatePumpSilently(buildPumpInput(res, curve, curveError));
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e));
@@ -283,12 +428,38 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
             </span>
           </Field>
         )}
+        <RheologyFields value={rheology} onChange={setRheology} />
+        <HeatLossFields value={heatLoss} onChange={setHeatLoss} needsSpecificHeat={isSolution} />
         <Field label={t('flow.rate')}>
           <input type="number" value={flowRate} onChange={e => setFlowRate(Number(e.target.value))}
             min={0} step={0.1} style={inputStyle} /> {t('unit.m3h')}
         </Field>
       </Section>
 
+      {/* Calculation method */}
+      <Section title={t('method.title')}>
+        <Field label={t('method.friction')}>
+          <select value={frictionMethod} onChange={e => setFrictionMethod(e.target.value as FrictionFactorMethod)} style={inputStyle}>
+            {FRICTION_FACTOR_METHODS.map(m => (
+              <option key={m} value={m}>{t(`friction.method.${m}`)}</option>
+            ))}
+          </select>
+        </Field>
+        <Field label={t('method.fittings')}>
+          <select value={fittingMethod} onChange={e => setFittingMethod(e.target.value as FittingMethod)} style={inputStyle}>
+            {FITTING_METHODS.map(m => (
+              <option key={m} value={m}>{t(`fitting.method.${m}`)}</option>
+            ))}
+          </select>
+        </Field>
+      </Section>
+
+      {/* Control valve */}
+      <Section title={t('valve.title')}>
+        <ControlValveFields value={controlValve} onChange={setControlValve} />
+        {controlValve && <VaporPressureField {...vaporPressureState} />}
+      </Section>
+
       {/* Segment list */}
       {segments.map((seg, i) => (
         <SegmentEditor
@@ -304,6 +475,12 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
           canRemove={segments.length > 1}
           availableFittings={availableFittings}
           materials={materials}
+          sizingCriteria={sizingCriteria}
+          onSizingCriteriaChange={setSizingCriteria}
+          onSuggestSize={() => handleSuggestSize(i)}
+          sizingResult={sizingResults[seg.id] ?? null}
+          flowRate={flowRate}
+          onSizeBore={(fi, dp, q) => handleSizeBore(i, fi, dp, q)}
           t={t}
           locale={locale}
         />
@@ -332,6 +509,7 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
     <>
       {error && <div style={{ color: 'red', marginTop: isDesktop ? '0' : '12px', padding: '8px' }}>{error}</div>}
       {result && <SystemResultsView result={result} t={t} fittingDescMap={fittingDescMap} />}
+      {result && valveResult && <ControlValveResultsView result={valveResult} t={t} locale={locale} />}
       {!result && !error && isDesktop && (
         <Section title={t('system.summary')}>
           <p style={{ color: '#999', fontSize: '0.9em' }}>{t('action.calculate')}...</p>
@@ -361,14 +539,7 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
       {result && onSendToPump && (
         <button
           onClick={() => {
-            onSendToPump({
-              designFlow_m3h: flowRate,
-              staticHead_m: result.head_elevation_total_m,
-              frictionHead_m: result.head_friction_total_m + result.head_fittings_total_m,
-              fluidId,
-              temperature_c: temperature,
-              sourceTab: 'multi',
-            });
+            onSendToPump(buildPumpInput(result, systemCurve, systemCurveError));
           }}
           style={{
             marginTop: '12px', padding: '8px 20px', fontSize: '0.9em',
@@ -397,6 +568,7 @@ export const MultiSegmentCalculator = forwardRef<MultiSegmentCalculatorHandle, M
         <button
           onClick={() => {
             setResult(null);
+            setValveResult(null);
             setError(null);
             setLastCalcSnapshot(null);
             onReset?.();
@@ -446,11 +618,20 @@ interface SegmentEditorProps {
   canRemove: boolean;
   availableFittings: readonly { id: string; description: string; description_ja?: string; refValue: string }[];
   materials: readonly { id: string; name: string; name_ja: string; roughness_mm: number }[];
+  sizingCriteria: PipeSizingCriteria;
+  onSizingCriteriaChange: (criteria: PipeSizingCriteria) => void;
+  onSuggestSize: () => void;
+  sizingResult: PipeSizingResult | null;
+  flowRate: number;
+  onSizeBore: (fittingIndex: number, targetDp_kpa: number, maxFlowRate_m3h: number) => void;
   t: (key: string) => string;
   locale: 'ja' | 'en';
 }
 
-function SegmentEditor({ index, segment, onUpdate, onRemove, onMoveUp, onMoveDown, isFirst, isLast, canRemove, availableFittings, materials, t, locale }: SegmentEditorProps) {
+function SegmentEditor({
+  index, segment, onUpdate, onRemove, onMoveUp, onMoveDown, isFirst, isLast, canRemove, availableFittings, materials,
+  sizingCriteria, onSizingCriteriaChange, onSuggestSize, sizingResult, flowRate, onSizeBore, t, locale,
+}: SegmentEditorProps) {
   const pipeSizes = useMemo(() => getAvailableSizes(segment.pipeStandard), [segment.pipeStandard]);
   const schedules = useMemo(() => getAvailableSchedules(segment.pipeStandard, segment.nominalSize), [segment.pipeStandard, segment.nominalSize]);
   const pipeSpec = useMemo(() => resolvePipeSpec(segment.pipeStandard, segment.nominalSize, segment.schedule), [segment.pipeStandard, segment.nominalSize, segment.schedule]);
@@ -537,6 +718,14 @@ function SegmentEditor({ index, segment, onUpdate, onRemove, onMoveUp, onMoveDow
               {t('pipe.inner_diameter')}: {pipeSpec.id_mm.toFixed(2)} {t('unit.mm')}
             </div>
           )}
+          <PipeSizingPanel
+            criteria={sizingCriteria}
+            onCriteriaChange={onSizingCriteriaChange}
+            onSuggest={onSuggestSize}
+            result={sizingResult}
+            selectedNps={segment.nominalSize}
+            onSelect={nps => onUpdate({ nominalSize: nps })}
+          />
 
           {/* Geometry */}
           <Field label={t('pipe.length')}>
@@ -547,6 +736,17 @@ function SegmentEditor({ index, segment, onUpdate, onRemove, onMoveUp, onMoveDow
             <input type="number" value={segment.elevation} onChange={e => onUpdate({ elevation: Number(e.target.value) })}
               step={0.1} style={inputStyle} /> {t('unit.m')}
           </Field>
+          {!isFirst && (
+            <Field label={t('segment.transition_angle')}>
+              <input type="number" value={segment.transitionAngle} onChange={e => onUpdate({ transitionAngle: Number(e.target.value) })}
+                min={1} max={180} step={1} style={inputStyle} /> {'\u00B0'}
+            </Field>
+          )}
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '0.9em', marginBottom: '6px' }}>
+            <input type="checkbox" checked={segment.suction} onChange={e => onUpdate({ suction: e.target.checked })} />
+            {t('segment.suction')}
+          </label>
 
           {/* Fittings */}
           <div style={{ marginTop: '8px' }}>
@@ -570,6 +770,14 @@ function SegmentEditor({ index, segment, onUpdate, onRemove, onMoveUp, onMoveDow
                 <input type="number" value={row.quantity} onChange={e => updateFitting(fi, 'quantity', Number(e.target.value))}
                   min={0} style={{ ...inputStyle, width: '60px' }} />
                 <button onClick={() => removeFitting(fi)} style={{ padding: '4px 8px', cursor: 'pointer' }}>&#10005;</button>
+                {findFlowElement(row.fittingId) && (
+                  <FlowElementFields
+                    boreDiameter_mm={row.boreDiameter}
+                    onBoreChange={v => updateFitting(fi, 'boreDiameter', v)}
+                    defaultMaxFlow_m3h={flowRate}
+                    onSizeBore={(dp, q) => onSizeBore(fi, dp, q)}
+                  />
+                )}
               </div>
             ))}
             <button onClick={addFitting} style={{ marginTop: '4px', padding: '4px 12px', cursor: 'pointer' }}>
@@ -606,6 +814,12 @@ function SystemResultsView({ result, t, fittingDescMap }: { result: SystemResult
         <div style={{ borderTop: '2px solid #333', marginTop: '8px', paddingTop: '8px' }}>
           <ResultRow label={t('system.dp_total')} value={formatPa(result.dp_total)} sub={`${formatNum(result.head_total_m, 3)} m`} bold />
         </div>
+        {result.outletTemperature_c !== undefined && (
+          <>
+            <ResultRow label={t('system.outlet_temperature')} value={`${formatNum(result.outletTemperature_c, 2)} ${t('unit.celsius')}`} />
+            <ResultRow label={t('system.heat_loss_total')} value={`${formatNum((result.heatLoss_total_w ?? 0) / 1000, 3)} kW`} />
+          </>
+        )}
       </Section>
 
       {/* Warnings */}
@@ -655,6 +869,70 @@ function SystemResultsView({ result, t, fittingDescMap }: { result: SystemResult
   );
 }
 
+// ── Control Valve Results ──
+
+function ControlValveResultsView({ result, t, locale }: { result: ControlValveSizingResult; t: (key: string) => string; locale: 'ja' | 'en' }) {
+  const selected = result.selectedIndex !== null ? result.candidates[result.selectedIndex] : null;
+  const governing = selected ?? result.candidates[result.candidates.length - 1];
+
+  return (
+    <Section title={t('valve.title')}>
+      <ResultRow label={t('valve.required_cv')} value={`Cv = ${formatNum(governing.requiredCv, 2)}`}
+        sub={governing.choked ? t('valve.choked') : undefined} />
+      <ResultRow label={t('valve.choked_dp')} value={`${formatNum(governing.chokedDp_kpa, 1)} ${t('unit.kpa')}`}
+        sub={`F_L = ${formatNum(governing.valve.fl, 2)}, F_F = ${formatNum(result.ff, 3)}`} />
+      <ResultRow label={t('valve.outlet_pressure')} value={`${formatNum(result.outletPressure_kpa, 1)} ${t('unit.kpa')}`} />
+      <div style={{ borderTop: '2px solid #333', marginTop: '8px', paddingTop: '8px' }}>
+        <ResultRow label={t('valve.selected')}
+          value={selected ? localizedName(locale, selected.valve.name, selected.valve.name_ja) : '—'} bold />
+        {selected && (
+          <ResultRow label={t('valve.opening')} value={`${formatNum(selected.opening * 100, 1)} ${t('unit.pct')}`}
+            sub={`Cv = ${formatNum(selected.valve.ratedCv, 1)}`} />
+        )}
+        <ResultRow label={t('valve.authority')} value={`N = ${formatNum(result.authority, 2)}`}
+          sub={result.fullOpenAuthority !== undefined ? `${t('valve.full_open_authority')} ${formatNum(result.fullOpenAuthority, 2)}` : undefined} />
+      </div>
+
+      <table style={{ width: '100%', fontSize: '0.8em', borderCollapse: 'collapse', marginTop: '8px' }}>
+        <thead>
+          <tr style={{ borderBottom: '1px solid #ccc' }}>
+            <th style={{ textAlign: 'left', padding: '3px' }}>DN</th>
+            <th style={{ textAlign: 'right', padding: '3px' }}>Cv</th>
+            <th style={{ textAlign: 'right', padding: '3px' }}>F_L</th>
+            <th style={{ textAlign: 'right', padding: '3px' }}>{t('valve.opening')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.candidates.map((c, i) => (
+            <tr key={c.valve.id} style={{
+              borderBottom: '1px solid #eee',
+              background: i === result.selectedIndex ? '#e8f0fe' : undefined,
+              color: c.acceptable ? undefined : '#999',
+            }}>
+              <td style={{ padding: '3px' }}>{c.valve.dn}</td>
+              <td style={{ textAlign: 'right', padding: '3px' }}>{formatNum(c.valve.ratedCv, 1)}</td>
+              <td style={{ textAlign: 'right', padding: '3px' }}>{formatNum(c.valve.fl, 2)}</td>
+              <td style={{ textAlign: 'right', padding: '3px' }}>{formatNum(c.opening * 100, 0)} %</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {result.installedCharacteristics && (
+        <div style={{ marginTop: '12px' }}>
+          <ValveCharacteristicChart result={result} t={t} />
+        </div>
+      )}
+      <WarningPanel warnings={result.warnings} t={t} />
+      <ul style={{ fontSize: '0.8em', color: '#666', margin: 0, paddingLeft: '20px' }}>
+        {[...new Set(result.references.map(r => r.source))].map((src, i) => (
+          <li key={i}>{src}</li>
+        ))}
+      </ul>
+    </Section>
+  );
+}
+
 function SegmentResultDetail({ result, t, fittingDescMap }: { result: SegmentResult; t: (key: string) => string; fittingDescMap: Map<string, string> }) {
   return (
     <div>
@@ -662,6 +940,14 @@ function SegmentResultDetail({ result, t, fittingDescMap }: { result: SegmentRes
       <ResultRow label={t('flow.reynolds')} value={formatNum(result.reynolds, 0)} />
       <ResultRow label={t('flow.regime')} value={t(`flow.regime.${result.flowRegime}`)} />
       <ResultRow label={t('results.friction_factor')} value={`f = ${formatNum(result.frictionFactor, 5)}`} />
+      <ResultRow label={t('results.friction_factor_method')} value={t(`friction.method.${result.frictionFactorMethod}`)} />
+      {result.thermal && (
+        <ResultRow
+          label={t('results.temperature_in_out')}
+          value={`${formatNum(result.thermal.inletTemperature_c, 2)} → ${formatNum(result.thermal.outletTemperature_c, 2)} ${t('unit.celsius')}`}
+          sub={`${t('results.heat_loss')} ${formatNum(result.thermal.heatLoss_w / 1000, 3)} kW`}
+        />
+      )}
 
       <hr style={{ margin: '8px 0', border: 'none', borderTop: '1px solid #eee' }} />
 
@@ -680,17 +966,22 @@ function SegmentResultDetail({ result, t, fittingDescMap }: { result: SegmentRes
               <th style={{ textAlign: 'left', padding: '3px' }}>{t('fittings.type')}</th>
               <th style={{ textAlign: 'right', padding: '3px' }}>N</th>
               <th style={{ textAlign: 'right', padding: '3px' }}>K</th>
+              <th style={{ textAlign: 'right', padding: '3px' }}>{t('fittings.basis_d')}</th>
               <th style={{ textAlign: 'right', padding: '3px' }}>{'\u0394'}P</th>
             </tr>
           </thead>
           <tbody>
             {result.fittingDetails.map((fd, i) => (
-              <tr key={i} style={{ borderBottom: '1px solid #eee' }}>
-                <td style={{ padding: '3px' }}>{fd.id.startsWith('custom_') ? fd.description : (fittingDescMap.get(fd.id) ?? fd.description)}</td>
-                <td style={{ textAlign: 'right', padding: '3px' }}>{fd.quantity}</td>
-                <td style={{ textAlign: 'right', padding: '3px' }}>{formatNum(fd.k_value, 4)}</td>
-                <td style={{ textAlign: 'right', padding: '3px' }}>{formatPa(fd.dp_pa)}</td>
-              </tr>
+              <Fragment key={i}>
+                <tr style={{ borderBottom: '1px solid #eee' }}>
+                  <td style={{ padding: '3px' }}>{fd.id.startsWith('custom_') ? fd.description : (fittingDescMap.get(fd.id) ?? fd.description)}</td>
+                  <td style={{ textAlign: 'right', padding: '3px' }}>{fd.quantity}</td>
+                  <td style={{ textAlign: 'right', padding: '3px' }}>{formatNum(fd.k_value, 4)}</td>
+                  <td style={{ textAlign: 'right', padding: '3px' }}>{formatNum(fd.basis_id_mm, 1)}</td>
+                  <td style={{ textAlign: 'right', padding: '3px' }}>{formatPa(fd.dp_pa)}</td>
+                </tr>
+                {fd.flowElement && <FlowElementSummaryRow detail={fd.flowElement} colSpan={5} t={t} />}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -1,22 +1,34 @@
-import { useState, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { Fragment, useState, useMemo, useImperativeHandle, forwardRef } from 'react';
 import { useTranslation } from '../i18n/context';
 import { useIsMobile } from '../hooks/useBreakpoint';
 import { localizedName } from '../i18n/localizedName';
 import { Section, Field, ResultRow, inputStyle } from '../components/FormLayout';
+import { RheologyFields } from '../components/RheologyFields';
 import { formatNum, formatPa } from '../components/formatters';
 import { WarningPanel } from '../components/WarningPanel';
-import { SegmentResult } from '@domain/types';
+import { PipeSizingPanel, DEFAULT_SIZING_CRITERIA } from '../components/PipeSizingPanel';
+import { EconomicDiameterFields, DEFAULT_LIFECYCLE_COSTS } from '../components/EconomicDiameterFields';
+import { EconomicCostChart } from '../components/EconomicCostChart';
+import { FlowElementFields, FlowElementSummaryRow } from '../components/FlowElementFields';
+import { SegmentResult, FrictionFactorMethod, FRICTION_FACTOR_METHODS, FittingMethod, FITTING_METHODS, Rheology, FluidProperties, FittingInput } from '@domain/types';
+import { LifecycleCostParams, EconomicDiameterResult } from '@domain/system/economicDiameter';
+import { findFlowElement } from '@domain/fittings/flowElement';
+import type { ResistanceCurvePoint } from '@domain/system/pumpSelection';
 import { getFluidProperties } from '@domain/fluid/fluidProperties';
 import { getSolutionProperties } from '@domain/fluid/aqueousSolution';
 import {
-  waterData, darby3kData, entranceExitData, getAvailableFittings, getAvailableFluids,
+  waterData, darby3kData, entranceExitData, craneData, hooperData, pipeCostData, getAvailableFittings, getAvailableFluids,
   getFluidData, getFluidTempRange, getFluidEntry, getSolutionInput, getFluidRefLabel,
   FluidId, SolutionId,
 } from '@infrastructure/dataLoader';
 import type { SolutionFluidEntry } from '@infrastructure/dataLoader';
-import { getAvailableSizes, getAvailableSchedules, resolvePipeSpec, PipeStandardKey } from '@infrastructure/pipeSpecResolver';
+import { getAvailableSizes, getAvailableSchedules, resolvePipeSpec, resolvePipeSpecsForSizing, resolveInstalledCost, PipeStandardKey } from '@infrastructure/pipeSpecResolver';
 import { getAvailableMaterials, resolveMaterial } from '@infrastructure/materialResolver';
-import { calcSingleSegment } from '@application/calcSingleSegment';
+import { calcSingleSegment, calcSingleSegmentSystemCurve } from '@application/calcSingleSegment';
+import { calcPipeSizing } from '@application/calcPipeSizing';
+import { calcEconomicPipeSize } from '@application/calcEconomicPipeSize';
+import { calcFlowElementBore } from '@application/calcFlowElementBore';
+import type { PipeSizingCriteria, PipeSizingResult } from '@application/types';
 import { SingleSegmentProjectData } from '@infrastructure/persistence/projectFile';
 import type { PumpSelectionInput, PumpResultSummary } from './PumpChart';
 import type { ExplanationSnapshot } from './explanation/types';
@@ -28,6 +40,7 @@ interface FittingRow {
   quantity: number;
   customK?: number;
   customCv?: number;
+  boreDiameter?: number;
 }
 
 export interface PipeLossCalculatorHandle {
@@ -66,10 +79,17 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
   const [nominalSize, setNominalSize] = useState(initialData?.nominalSize ?? '2');
   const [schedule, setSchedule] = useState(initialData?.schedule ?? '40');
   const [materialId, setMaterialId] = useState(initialData?.materialId ?? 'carbon_steel_new');
+  const [sizingCriteria, setSizingCriteria] = useState<PipeSizingCriteria>(DEFAULT_SIZING_CRITERIA);
+  const [sizingResult, setSizingResult] = useState<PipeSizingResult | null>(null);
 
   // Flow
   const [flowRate, setFlowRate] = useState(initialData?.flowRate_m3h ?? 10);
 
+  // Calculation method
+  const [frictionMethod, setFrictionMethod] = useState<FrictionFactorMethod>(initialData?.frictionMethod ?? 'churchill');
+  const [fittingMethod, setFittingMethod] = useState<FittingMethod>(initialData?.fittingMethod ?? '3k');
+  const [rheology, setRheology] = useState<Rheology | null>(initialData?.rheology ?? null);
+
   // Geometry
   const [pipeLength, setPipeLength] = useState(initialData?.length_m ?? 50);
   const [elevation, setElevation] = useState(initialData?.elevation_m ?? 0);
@@ -81,12 +101,20 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
       quantity: f.quantity,
       customK: f.kOverride,
       customCv: f.cvOverride,
+      boreDiameter: f.boreDiameter_mm,
     }))
       ?? [{ fittingId: 'elbow_90_lr_welded', quantity: 2 }]
   );
 
+  // Economic diameter
+  const [lifecycleCosts, setLifecycleCosts] = useState<LifecycleCostParams>(DEFAULT_LIFECYCLE_COSTS);
+  const [economicResult, setEconomicResult] = useState<EconomicDiameterResult | null>(null);
+
   // Result
   const [result, setResult] = useState<SegmentResult | null>(null);
+  // ポンプ選定に渡す実抵抗曲線（再計算できなければ 2 乗近似に任せる）
+  const [systemCurve, setSystemCurve] = useState<ResistanceCurvePoint[] | null>(null);
+  const [systemCurveError, setSystemCurveError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   // Last calculated snapshot data (for explanation tab)
   const [lastCalcSnapshot, setLastCalcSnapshot] = useState<ExplanationSnapshot | null>(null);
@@ -108,7 +136,11 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
           quantity: r.quantity,
           ...(r.customK != null ? { kOverride: r.customK } : {}),
           ...(r.customCv != null ? { cvOverride: r.customCv } : {}),
+          ...(r.boreDiameter != null ? { boreDiameter_mm: r.boreDiameter } : {}),
         })),
+        frictionMethod,
+        fittingMethod,
+        ...(rheology ? { rheology } : {}),
       };
     },
   }));
@@ -116,7 +148,7 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
   const pipeSizes = useMemo(() => getAvailableSizes(pipeStandard), [pipeStandard]);
   const schedules = useMemo(() => getAvailableSchedules(pipeStandard, nominalSize), [pipeStandard, nominalSize]);
   const pipeSpec = useMemo(() => resolvePipeSpec(pipeStandard, nominalSize, schedule), [pipeStandard, nominalSize, schedule]);
-  const availableFittings = useMemo(() => getAvailableFittings(), []);
+  const availableFittings = useMemo(() => getAvailableFittings(fittingMethod), [fittingMethod]);
   const materials = useMemo(() => getAvailableMaterials(), []);
   const fittingDescMap = useMemo(() => {
     const map = new Map<string, string>();
@@ -126,6 +158,113 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
     return map;
   }, [availableFittings, locale]);
 
+  const resolveFluid = (): FluidProperties => {
+    let fluid: FluidProperties;
+    if (isSolution) {
+      const solInput = getSolutionInput(fluidId as SolutionId);
+      fluid = getSolutionProperties(temperature, concentration, solutionEntry!.concentrationUnit, solInput);
+    } else {
+      const fluidData = getFluidData(fluidId);
+      fluid = getFluidProperties(temperature, fluidData, { source: fluidData.referenceId });
+    }
+    return rheology ? { ...fluid, rheology } : fluid;
+  };
+
+  const buildFittings = (): FittingInput[] => fittingRows
+    .filter(r => r.quantity > 0)
+    .map(r => ({
+      fittingId: r.fittingId,
+      quantity: r.quantity,
+      ...(r.fittingId === 'custom_k' && r.customK != null ? { kOverride: r.customK } : {}),
+      ...(r.fittingId === 'custom_cv' && r.customCv != null ? { cvOverride: r.customCv } : {}),
+      ...(findFlowElement(r.fittingId) && r.boreDiameter != null ? { boreDiameter_mm: r.boreDiameter } : {}),
+    }));
+
+  const handleOptimizeDiameter = () => {
+    setError(null);
+    setEconomicResult(null);
+
+    try {
+      const material = resolveMaterial(materialId);
+      if (!material) throw new Error('Material not found');
+
+      const candidates = resolvePipeSpecsForSizing(pipeStandard, pipeStandard === 'ansi' ? schedule : undefined)
+        .flatMap(pipe => {
+          const installedCost_per_m = resolveInstalledCost(pipe.dn);
+          return installedCost_per_m !== null ? [{ pipe, installedCost_per_m }] : [];
+        });
+
+      setEconomicResult(calcEconomicPipeSize(
+        {
+          temperature_c: temperature,
+          flowRate_m3h: flowRate,
+          candidates,
+          material,
+          length_m: pipeLength,
+          fittings: buildFittings(),
+          costs: lifecycleCosts,
+          fluid: resolveFluid(),
+          frictionMethod,
+          fittingMethod,
+        },
+        waterData, darby3kData, entranceExitData, craneData, hooperData
+      ));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleSizeBore = (index: number, targetDp_kpa: number, maxFlowRate_m3h: number) => {
+    setError(null);
+
+    try {
+      if (!pipeSpec) throw new Error('Pipe specification not found');
+      const detail = calcFlowElementBore(
+        {
+          elementId: fittingRows[index].fittingId,
+          pipe: pipeSpec,
+          temperature_c: temperature,
+          maxFlowRate_m3h,
+          targetDp_kpa,
+          fluid: resolveFluid(),
+        },
+        waterData
+      );
+      updateFitting(index, 'boreDiameter', Number(detail.bore_mm.toFixed(2)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleSuggestSize = () => {
+    setError(null);
+    setSizingResult(null);
+
+    try {
+      const material = resolveMaterial(materialId);
+      if (!material) throw new Error('Material not found');
+
+      const sizing = calcPipeSizing(
+        {
+          temperature_c: temperature,
+          flowRate_m3h: flowRate,
+          candidates: resolvePipeSpecsForSizing(pipeStandard, pipeStandard === 'ansi' ? schedule : undefined),
+          material,
+          criteria: sizingCriteria,
+          fluid: resolveFluid(),
+          frictionMethod,
+        },
+        waterData, darby3kData, entranceExitData
+      );
+      setSizingResult(sizing);
+      if (sizing.recommendedIndex !== null) {
+        setNominalSize(sizing.rows[sizing.recommendedIndex].pipe.nps);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
   const handleCalculate = () => {
     setError(null);
     setResult(null);
@@ -142,32 +281,27 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
         return;
       }
 
-      const fittings = fittingRows
-        .filter(r => r.quantity > 0)
-        .map(r => ({
-          fittingId: r.fittingId,
-          quantity: r.quantity,
-          ...(r.fittingId === 'custom_k' && r.customK != null ? { kOverride: r.customK } : {}),
-          ...(r.fittingId === 'custom_cv' && r.customCv != null ? { cvOverride: r.customCv } : {}),
-        }));
-
-      let fluid;
-      if (isSolution) {
-        const solInput = getSolutionInput(fluidId as SolutionId);
-        fluid = getSolutionProperties(temperature, concentration, solutionEntry!.concentrationUnit, solInput);
-      } else {
-        const fluidData = getFluidData(fluidId);
-        fluid = getFluidProperties(temperature, fluidData, { source: fluidData.referenceId });
-      }
+      const fittings = buildFittings();
 
-      const res = calcSingleSegment(
-        { temperature_c: temperature, pipe: pipeSpec, material, flowRate_m3h: flowRate, length_m: pipeLength, elevation_m: elevation, fittings, fluid },
-        waterData, darby3kData, entranceExitData
-      );
+      const fluid = resolveFluid();
+
+      const calcInput = { temperature_c: temperature, pipe: pipeSpec, material, flowRate_m3h: flowRate, length_m: pipeLength, elevation_m: elevation, fittings, fluid, frictionMethod, fittingMethod, compareFittingMethods: true };
+      const res = calcSingleSegment(calcInput, waterData, darby3kData, entranceExitData, craneData, hooperData);
       setResult(res);
+      // 全流量での再計算に失敗した場合は Q² 近似に戻し、その理由をポンプタブに表示する
+      let curve: ResistanceCurvePoint[] | null;
+      let curveError: string | null = null;
+      try {
+        curve = calcSingleSegmentSystemCurve(calcInput, waterData, darby3kData, entranceExitData, craneData, hooperData);
+      } catch (e) {
+        curve = null;
+        curveError = e instanceof Error ? e.message : String(e);
+      }
+      setSystemCurve(curve);
+      setSystemCurveError(curveError);
       setLastCalcSnapshot({
         fluid, pipe: pipeSpec, material, flowRate_m3h: flowRate,
-        length_m: pipeLength, elevation_m: elevation, fittings, result: res,
+        length_m: pipeLength, elevation_m: elevation, fittings, frictionMethod, fittingMethod, result: res,
       });
       onCalculated?.();
 
@@ -179,6 +313,9 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
           frictionHead_m: res.head_friction_m + res.head_fittings_m,
           fluidId,
           temperature_c: temperature,
+          ...(isSolution ? { concentration } : {}),
+          ...(curve ? { systemCurve: curve } : {}),
+          ...(curveError ? { systemCurveError: curveError } : {}),
           sourceTab: 'single',
         });
       }
@@ -241,12 +378,13 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
                 </span>
               </Field>
             )}
+            <RheologyFields value={rheology} onChange={setRheology} />
           </Section>
 
           {/* Pipe */}
           <Section title={t('pipe.title')}>
             <Field label={t('pipe.standard')}>
-              <select value={pipeStandard} onChange={e => { setPipeStandard(e.target.value as PipeStandardKey); setNominalSize('2'); }} style={inputStyle}>
+              <select value={pipeStandard} onChange={e => { setPipeStandard(e.target.value as PipeStandardKey); setNominalSize('2'); setSizingResult(null); }} style={inputStyle}>
                 <option value="ansi">{t('pipe.standard.ansi')}</option>
                 <option value="jis-sgp">{t('pipe.standard.jis_sgp')}</option>
               </select>
@@ -260,7 +398,7 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
             </Field>
             {pipeStandard === 'ansi' && (
               <Field label={t('pipe.schedule')}>
-                <select value={schedule} onChange={e => setSchedule(e.target.value)} style={inputStyle}>
+                <select value={schedule} onChange={e => { setSchedule(e.target.value); setSizingResult(null); }} style={inputStyle}>
                   {schedules.map(s => <option key={s} value={s}>Sch {s}</option>)}
                 </select>
               </Field>
@@ -277,6 +415,14 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
                 {t('pipe.inner_diameter')}: {pipeSpec.id_mm.toFixed(2)} {t('unit.mm')} | OD: {pipeSpec.od_mm} {t('unit.mm')}
               </div>
             )}
+            <PipeSizingPanel
+              criteria={sizingCriteria}
+              onCriteriaChange={setSizingCriteria}
+              onSuggest={handleSuggestSize}
+              result={sizingResult}
+              selectedNps={nominalSize}
+              onSelect={setNominalSize}
+            />
           </Section>
 
           {/* Flow */}
@@ -295,6 +441,24 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
             </Field>
           </Section>
 
+          {/* Calculation method */}
+          <Section title={t('method.title')}>
+            <Field label={t('method.friction')}>
+              <select value={frictionMethod} onChange={e => setFrictionMethod(e.target.value as FrictionFactorMethod)} style={inputStyle}>
+                {FRICTION_FACTOR_METHODS.map(m => (
+                  <option key={m} value={m}>{t(`friction.method.${m}`)}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label={t('method.fittings')}>
+              <select value={fittingMethod} onChange={e => setFittingMethod(e.target.value as FittingMethod)} style={inputStyle}>
+                {FITTING_METHODS.map(m => (
+                  <option key={m} value={m}>{t(`fitting.method.${m}`)}</option>
+                ))}
+              </select>
+            </Field>
+          </Section>
+
           {/* Fittings */}
           <Section title={t('fittings.title')}>
             {fittingRows.map((row, i) => (
@@ -316,6 +480,14 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
                 <input type="number" value={row.quantity} onChange={e => updateFitting(i, 'quantity', Number(e.target.value))}
                   min={0} style={{ ...inputStyle, width: '60px' }} />
                 <button onClick={() => removeFitting(i)} style={{ padding: '4px 8px', cursor: 'pointer' }}>{'\u00D7'}</button>
+                {findFlowElement(row.fittingId) && (
+                  <FlowElementFields
+                    boreDiameter_mm={row.boreDiameter}
+                    onBoreChange={v => updateFitting(i, 'boreDiameter', v)}
+                    defaultMaxFlow_m3h={flowRate}
+                    onSizeBore={(dp, q) => handleSizeBore(i, dp, q)}
+                  />
+                )}
               </div>
             ))}
             <button onClick={addFitting} style={{ marginTop: '4px', padding: '4px 12px', cursor: 'pointer' }}>
@@ -323,6 +495,14 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
             </button>
           </Section>
 
+          {/* Economic diameter */}
+          <Section title={t('economic.title')}>
+            <EconomicDiameterFields value={lifecycleCosts} onChange={setLifecycleCosts} currency={pipeCostData.currency} />
+            <button onClick={handleOptimizeDiameter} style={{ marginTop: '4px', padding: '4px 12px', cursor: 'pointer' }}>
+              {t('economic.optimize')}
+            </button>
+          </Section>
+
           <button onClick={handleCalculate} style={{
             marginTop: '16px', padding: '10px 24px', fontSize: '1em',
             background: '#0066cc', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer',
@@ -342,6 +522,16 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
             )}
           </Section>
 
+          {economicResult && (
+            <EconomicResultsView
+              result={economicResult}
+              currency={pipeCostData.currency}
+              selectedNps={nominalSize}
+              onApply={setNominalSize}
+              t={t}
+            />
+          )}
+
           {result && pumpResult && onGoToPumpTab && (
             <PumpQuickView
               result={pumpResult}
@@ -371,6 +561,9 @@ export const PipeLossCalculator = forwardRef<PipeLossCalculatorHandle, PipeLossC
                   frictionHead_m: result.head_friction_m + result.head_fittings_m,
                   fluidId,
                   temperature_c: temperature,
+                  ...(isSolution ? { concentration } : {}),
+                  ...(systemCurve ? { systemCurve } : {}),
+                  ...(systemCurveError ? { systemCurveError } : {}),
                   sourceTab: 'single',
                 });
               }}
@@ -427,7 +620,7 @@ function ResultsView({ result, t, fittingDescMap }: { result: SegmentResult; t:
       <ResultRow label={t('flow.reynolds')} value={formatNum(result.reynolds, 0)} />
       <ResultRow label={t('flow.regime')} value={t(`flow.regime.${result.flowRegime}`)} />
       <ResultRow label={t('results.friction_factor')} value={`f = ${formatNum(result.frictionFactor, 5)}`} />
-      <ResultRow label={t('results.friction_factor_method')} value={result.frictionFactorMethod} />
+      <ResultRow label={t('results.friction_factor_method')} value={t(`friction.method.${result.frictionFactorMethod}`)} />
 
       <hr style={{ margin: '12px 0', border: 'none', borderTop: '1px solid #ddd' }} />
 
@@ -470,12 +663,15 @@ function ResultsView({ result, t, fittingDescMap }: { result: SegmentResult; t:
             </thead>
             <tbody>
               {result.fittingDetails.map((fd, i) => (
-                <tr key={i} style={{ borderBottom: '1px solid #eee' }}>
-                  <td style={{ padding: '4px' }}>{fd.id.startsWith('custom_') ? fd.description : (fittingDescMap.get(fd.id) ?? fd.description)}</td>
-                  <td style={{ textAlign: 'right', padding: '4px' }}>{fd.quantity}</td>
-                  <td style={{ textAlign: 'right', padding: '4px' }}>{formatNum(fd.k_value, 4)}</td>
-                  <td style={{ textAlign: 'right', padding: '4px' }}>{formatPa(fd.dp_pa)}</td>
-                </tr>
+                <Fragment key={i}>
+                  <tr style={{ borderBottom: '1px solid #eee' }}>
+                    <td style={{ padding: '4px' }}>{fd.id.startsWith('custom_') ? fd.description : (fittingDescMap.get(fd.id) ?? fd.description)}</td>
+                    <td style={{ textAlign: 'right', padding: '4px' }}>{fd.quantity}</td>
+                    <td style={{ textAlign: 'right', padding: '4px' }}>{formatNum(fd.k_value, 4)}</td>
+                    <td style={{ textAlign: 'right', padding: '4px' }}>{formatPa(fd.dp_pa)}</td>
+                  </tr>
+                  {fd.flowElement && <FlowElementSummaryRow detail={fd.flowElement} colSpan={4} t={t} />}
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -494,3 +690,40 @@ function ResultsView({ result, t, fittingDescMap }: { result: SegmentResult; t:
   );
 }
 
+// ── Economic diameter results ──
+
+function EconomicResultsView({ result, currency, selectedNps, onApply, t }: {
+  result: EconomicDiameterResult;
+  currency: string;
+  selectedNps: string;
+  onApply: (nps: string) => void;
+  t: (key: string) => string;
+}) {
+  const optimum = result.rows[result.optimumIndex];
+  const money = (v: number) => `${formatNum(v / 1000, 1)} k${currency}`;
+
+  return (
+    <Section title={t('economic.title')}>
+      <ResultRow label={t('economic.optimum_size')} value={`${optimum.pipe.nps} (${optimum.pipe.dn}A)`} bold />
+      <ResultRow label={t('flow.velocity')} value={`${formatNum(optimum.velocity_m_s, 2)} ${t('unit.ms')}`} />
+      <ResultRow label={t('economic.pump_power')} value={`${formatNum(optimum.pumpPower_kw, 2)} kW`} />
+      <ResultRow label={t('economic.capital_cost')} value={money(optimum.capitalCost)} />
+      <ResultRow label={t('economic.annual_energy_cost')} value={money(optimum.annualEnergyCost)}
+        sub={`PWF ${formatNum(result.presentWorthFactor, 2)}`} />
+      <ResultRow label={t('economic.total_cost')} value={money(optimum.totalCost)} bold />
+      <div style={{ marginTop: '12px' }}>
+        <EconomicCostChart result={result} currency={currency} t={t} />
+      </div>
+      {optimum.pipe.nps !== selectedNps && (
+        <button onClick={() => onApply(optimum.pipe.nps)} style={{ marginTop: '8px', padding: '4px 12px', cursor: 'pointer' }}>
+          {t('economic.apply_optimum')}
+        </button>
+      )}
+      <ul style={{ fontSize: '0.8em', color: '#666', margin: '8px 0 0', paddingLeft: '20px' }}>
+        {[...new Set(result.references.map(r => r.source))].map((src, i) => (
+          <li key={i}>{src}</li>
+        ))}
+      </ul>
+    </Section>
+  );
+}
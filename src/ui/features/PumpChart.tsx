@@ -4,10 +4,37 @@ import { useIsDesktop } from '../hooks/useBreakpoint';
 import { localizedName } from '../i18n/localizedName';
 import { Section, Field, ResultRow, inputStyle } from '../components/FormLayout';
 import { formatNum } from '../components/formatters';
+import { formatWarning } from '../components/WarningPanel';
 import { getFluidProperties } from '@domain/fluid/fluidProperties';
-import { calcResistanceCurve, findOperatingPoint, calcNPSHa, ResistanceCurvePoint, OperatingPoint } from '@domain/system/pumpSelection';
-import { calcPumpSuggestion, PumpSuggestion } from '@domain/system/pumpRequirements';
-import { PumpCurveData, samplePumpData, getAvailableFluids, getFluidData, getFluidTempRange, FluidId, pumpTypeClassifications } from '@infrastructure/dataLoader';
+import { getSolutionProperties } from '@domain/fluid/aqueousSolution';
+import {
+  calcResistanceCurve, findOperatingPoint, calcNPSHa, calcAtmosphericPressure, calcNPSHMargin,
+  calcCombinedPumpCurve, findCombinedOperatingPoint, HI_MIN_NPSH_MARGIN_RATIO,
+  ResistanceCurvePoint, OperatingPoint, SuctionLine, PumpArrangement, CombinedCurvePoint, PumpCurvePoint,
+} from '@domain/system/pumpSelection';
+import {
+  scalePumpCurveBySpeed, scalePumpCurveCoefficientsBySpeed, calcRequiredSpeed, calcTrimDiameter, MIN_TRIM_RATIO,
+} from '@domain/system/pumpAffinity';
+import {
+  fitPumpCurve, evaluatePumpCurveCoefficients, sampleFittedPumpCurve, findFittedOperatingPoint, FitStatistics,
+} from '@domain/system/pumpCurveFit';
+import { calcPumpSuggestion, calcPumpPower, PumpSuggestion } from '@domain/system/pumpRequirements';
+import { rankPumps, PumpRankingEntry } from '@domain/system/pumpRanking';
+import {
+  calcViscosityCorrection, applyViscosityCorrection, calcKinematicViscosity_cSt, ViscosityCorrection,
+} from '@domain/system/pumpViscosity';
+import { selectMotor, calcMaxShaftPower, DEFAULT_MOTOR_SERVICE_FACTOR, MotorSelection } from '@domain/system/pumpMotor';
+import { calcPumpEnergy, DEFAULT_VFD_EFFICIENCY, DutyCyclePoint, PumpEnergyResult } from '@domain/system/pumpEnergy';
+import {
+  PumpCurveData, pumpLibrary, getAvailableFluids, getFluidEntry, getFluidData, getFluidTempRange,
+  getSolutionInput, FluidId, SolutionId, pumpTypeClassifications,
+  motorRatings, motorEfficiencyClass, pipeCostData,
+} from '@infrastructure/dataLoader';
+import { openPumpCurveCsvFile } from '@infrastructure/persistence/fileIO';
+import { PumpRankingTable } from '../components/PumpRankingTable';
+import { PumpDutyCycleFields, DEFAULT_DUTY_CYCLE } from '../components/PumpDutyCycleFields';
+import { VaporPressureField } from '../components/VaporPressureField';
+import { useVaporPressure } from '../hooks/useVaporPressure';
 import type { PumpExplanationSnapshot } from './explanation/types';
 
 // ── 圧損計算からの受け渡しデータ型 ──
@@ -20,6 +47,14 @@ export interface PumpSelectionInput {
   frictionHead_m: number;
   fluidId: FluidId;
   temperature_c: number;
+  /** 水溶液の濃度（単位は流体の concentrationUnit） */
+  concentration?: number;
+  /** 吸込み側として指定した区間から求めた吸込み実揚程・摩擦損失 */
+  suction?: SuctionLine;
+  /** 計算タブの入力を流量ごとに再計算した系統抵抗曲線 */
+  systemCurve?: ResistanceCurvePoint[];
+  /** 系統抵抗曲線を生成できなかった理由（Q² 近似で代用したことを表示する） */
+  systemCurveError?: string;
   sourceTab: SourceTab;
 }
 
@@ -60,33 +95,152 @@ const SPEED_PRESETS = [
   { value: 1750, label: '1750 rpm (60Hz 4P)' },
 ] as const;
 
+/** 回転数スライダーの範囲（定格回転数に対する比） */
+const SPEED_SLIDER_MIN_RATIO = 0.5;
+const SPEED_SLIDER_MAX_RATIO = 1.2;
+
+/** 多項式近似の次数の選択肢 */
+const FIT_DEGREES = [2, 3, 4] as const;
+
+type CurveModel = 'linear' | 'polynomial';
+
+/** CSV から取り込んだポンプ性能曲線の referenceId */
+const USER_PUMP_REFERENCE_ID = 'user-import';
+
+/** 同一機種の運転台数の上限 */
+const MAX_PUMP_COUNT = 4;
+
 interface PumpChartProps {
   initialInput?: PumpSelectionInput | null;
   onInputConsumed?: () => void;
   onSendPumpToExplanation?: (snapshot: PumpExplanationSnapshot) => void;
   onPumpResultUpdate?: (result: PumpResultSummary) => void;
   onGoToSourceTab?: (tab: SourceTab) => void;
+  /** CSV から取り込んだポンプ性能曲線（プロジェクトに保存される） */
+  userPumps?: readonly PumpCurveData[];
+  onUserPumpsChange?: (pumps: PumpCurveData[]) => void;
 }
 
-export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanation, onPumpResultUpdate, onGoToSourceTab }: PumpChartProps) {
+const NO_USER_PUMPS: readonly PumpCurveData[] = [];
+
+/**
+ * HI 9.6.7 の粘度補正を適用した性能曲線
+ *
+ * 動粘度が不明、または B ≤ 1・清水試験の動粘度以下で補正が不要な場合は水の曲線をそのまま返す（correction は null）。
+ */
+function correctForViscosity(
+  waterCurve: readonly PumpCurvePoint[],
+  speed_rpm: number,
+  kinematicViscosity_cSt: number | null
+): { curve: readonly PumpCurvePoint[]; correction: ViscosityCorrection | null } {
+  if (kinematicViscosity_cSt === null) return { curve: waterCurve, correction: null };
+  try {
+    const correction = calcViscosityCorrection(waterCurve, speed_rpm, kinematicViscosity_cSt);
+    if (!correction.required) return { curve: waterCurve, correction: null };
+    return { curve: applyViscosityCorrection(waterCurve, correction), correction };
+  } catch {
+    return { curve: waterCurve, correction: null };
+  }
+}
+
+export function PumpChart({
+  initialInput, onInputConsumed, onSendPumpToExplanation, onPumpResultUpdate, onGoToSourceTab,
+  userPumps = NO_USER_PUMPS, onUserPumpsChange,
+}: PumpChartProps) {
   const { t, locale } = useTranslation();
   const isDesktop = useIsDesktop();
 
+  // Pump library (catalog + user-imported curves)
+  const allPumps = useMemo(() => [...pumpLibrary, ...userPumps], [userPumps]);
+  const [selectedPumpId, setSelectedPumpId] = useState(pumpLibrary[0].pumpId);
+  const pumpData: PumpCurveData = allPumps.find(p => p.pumpId === selectedPumpId) ?? pumpLibrary[0];
+  const isUserPump = pumpData.referenceId === USER_PUMP_REFERENCE_ID;
+  const [importSpeed, setImportSpeed] = useState(2900);
+  const [csvError, setCsvError] = useState<string | null>(null);
+
   // Fluid
   const [fluidId, setFluidId] = useState<FluidId>('water');
   const [temperature, setTemperature] = useState(20);
+  const [concentration, setConcentration] = useState(30);
   const fluids = useMemo(() => getAvailableFluids(), []);
   const tempRange = useMemo(() => getFluidTempRange(fluidId), [fluidId]);
+  const fluidEntry = useMemo(() => getFluidEntry(fluidId), [fluidId]);
+  const solutionEntry = fluidEntry.kind === 'solution' ? fluidEntry : null;
 
   // System parameters
   const [designFlow, setDesignFlow] = useState(15);
   const [staticHead, setStaticHead] = useState(5);
   const [frictionHead, setFrictionHead] = useState(10);
+  // 計算タブから受け取った実抵抗曲線（系統揚程を手で変更したら破棄して 2 乗近似に戻す）
+  const [fullSystemCurve, setFullSystemCurve] = useState<ResistanceCurvePoint[] | null>(null);
+  const [systemCurveError, setSystemCurveError] = useState<string | null>(null);
 
   // NPSHa parameters
   const [suctionStaticHead, setSuctionStaticHead] = useState(3);
   const [suctionFrictionLoss, setSuctionFrictionLoss] = useState(1);
-  const [atmPressure, setAtmPressure] = useState(101.325);
+  const [suctionFromLine, setSuctionFromLine] = useState(false);
+  const [altitude, setAltitude] = useState(0);
+  const [minMarginRatio, setMinMarginRatio] = useState(HI_MIN_NPSH_MARGIN_RATIO);
+
+  // Operating speed (affinity laws)
+  const ratedSpeed = pumpData.rated_speed_rpm;
+  const [operatingSpeed, setOperatingSpeed] = useState(ratedSpeed);
+  const speedRatio = operatingSpeed / ratedSpeed;
+
+  // Curve model (catalog interpolation / polynomial fit)
+  const [curveModel, setCurveModel] = useState<CurveModel>('linear');
+  const [fitDegree, setFitDegree] = useState(3);
+
+  const selectPump = (pump: PumpCurveData) => {
+    setSelectedPumpId(pump.pumpId);
+    setOperatingSpeed(pump.rated_speed_rpm);
+    // 保存済みの近似係数があればその次数を選択する（選択肢にない次数は当てはめ直す）
+    const storedDegree = pump.curve_fit ? pump.curve_fit.head.length - 1 : null;
+    if (storedDegree !== null && (FIT_DEGREES as readonly number[]).includes(storedDegree)) setFitDegree(storedDegree);
+  };
+
+  const handleImportCsv = async () => {
+    setCsvError(null);
+    try {
+      const imported = await openPumpCurveCsvFile();
+      if (!imported) return;
+      // 近似係数を取り込み時に選択中の次数で求めて保存する（必要な点数がなければ線形補間のみ）
+      const pump: PumpCurveData = {
+        referenceId: USER_PUMP_REFERENCE_ID,
+        pumpId: `user-${Date.now()}`,
+        manufacturer: '',
+        model: imported.name,
+        description: `${imported.name}.csv`,
+        rated_speed_rpm: importSpeed,
+        suction_nps: '',
+        discharge_nps: '',
+        performance_curve: imported.points,
+        curve_fit: imported.points.length > fitDegree ? fitPumpCurve(imported.points, fitDegree).coefficients : undefined,
+      };
+      onUserPumpsChange?.([...userPumps, pump]);
+      selectPump(pump);
+    } catch (e) {
+      setCsvError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleRemoveUserPump = () => {
+    onUserPumpsChange?.(userPumps.filter(p => p.pumpId !== pumpData.pumpId));
+    selectPump(pumpLibrary[0]);
+  };
+
+  // Viscosity correction (HI 9.6.7)
+  const [viscosityCorrectionEnabled, setViscosityCorrectionEnabled] = useState(true);
+
+  // Motor sizing and duty-cycle energy
+  const [serviceFactor, setServiceFactor] = useState(DEFAULT_MOTOR_SERVICE_FACTOR);
+  const [dutyCycle, setDutyCycle] = useState<DutyCyclePoint[]>([...DEFAULT_DUTY_CYCLE]);
+  const [electricityPrice, setElectricityPrice] = useState(0.15);
+  const [vfdEfficiency, setVfdEfficiency] = useState(DEFAULT_VFD_EFFICIENCY);
+
+  // Arrangement (identical pumps)
+  const [pumpCount, setPumpCount] = useState(1);
+  const [arrangement, setArrangement] = useState<PumpArrangement>('parallel');
 
   // Speed selector
   const [speedMode, setSpeedMode] = useState<'preset' | 'custom'>('preset');
@@ -106,50 +260,255 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
 
     setFluidId(initialInput.fluidId);
     setTemperature(initialInput.temperature_c);
+    if (initialInput.concentration !== undefined) setConcentration(initialInput.concentration);
+    if (initialInput.suction) {
+      setSuctionStaticHead(initialInput.suction.staticHead_m);
+      setSuctionFrictionLoss(initialInput.suction.frictionLoss_m);
+    }
+    setSuctionFromLine(initialInput.suction !== undefined);
     setDesignFlow(initialInput.designFlow_m3h);
     setStaticHead(initialInput.staticHead_m);
     setFrictionHead(initialInput.frictionHead_m);
+    setFullSystemCurve(initialInput.systemCurve ?? null);
+    setSystemCurveError(initialInput.systemCurveError ?? null);
     setLastSourceTab(initialInput.sourceTab);
     setShowDataBanner(true);
 
     onInputConsumed?.();
   }, [initialInput, onInputConsumed]);
 
-  const pumpData: PumpCurveData = samplePumpData;
-
   // Compute
-  const fluidData = useMemo(() => getFluidData(fluidId), [fluidId]);
   const fluidProps = useMemo(() => {
     try {
+      if (solutionEntry) {
+        return getSolutionProperties(temperature, concentration, solutionEntry.concentrationUnit, getSolutionInput(solutionEntry.id as SolutionId));
+      }
+      const fluidData = getFluidData(fluidId);
       return getFluidProperties(temperature, fluidData, { source: fluidData.referenceId });
     } catch {
       return null;
     }
-  }, [temperature, fluidData]);
+  }, [temperature, concentration, fluidId, solutionEntry]);
+
+  // 蒸気圧: 単純流体は飽和圧力テーブル、水溶液は不揮発性溶質のみラウール則で推算（それ以外は手入力）
+  const vaporPressureState = useVaporPressure(fluidId, temperature, concentration);
+  const { vaporPressure } = vaporPressureState;
+
+  const atmPressure = useMemo(() => {
+    try {
+      return calcAtmosphericPressure(altitude);
+    } catch {
+      return null;
+    }
+  }, [altitude]);
 
-  const resistanceCurve = useMemo(
+  const quadraticCurve = useMemo(
     () => calcResistanceCurve(staticHead, frictionHead, designFlow, 30, 1.5),
     [staticHead, frictionHead, designFlow]
   );
+  const resistanceCurve = fullSystemCurve ?? quadraticCurve;
+
+  // 2 乗近似と実抵抗曲線の最大差
+  const quadraticDeviation = useMemo(() => {
+    if (!fullSystemCurve || designFlow <= 0) return null;
+    const K = frictionHead / (designFlow * designFlow);
+    return Math.max(...fullSystemCurve.map(p => Math.abs(staticHead + K * p.flow_m3h * p.flow_m3h - p.head_m)));
+  }, [fullSystemCurve, staticHead, frictionHead, designFlow]);
+
+  const catalogCurve = useMemo(
+    () => scalePumpCurveBySpeed(pumpData.performance_curve, speedRatio),
+    [pumpData.performance_curve, speedRatio]
+  );
+
+  // 多項式近似（保存済みの係数と同じ次数ならそれを用い、異なる次数を選んだ場合は当てはめ直す）
+  const storedFitDegree = pumpData.curve_fit ? pumpData.curve_fit.head.length - 1 : null;
+  const usesStoredFit = pumpData.curve_fit !== undefined && fitDegree === storedFitDegree;
+  const curveFit = useMemo(() => {
+    try {
+      return pumpData.curve_fit && usesStoredFit
+        ? evaluatePumpCurveCoefficients(pumpData.curve_fit, pumpData.performance_curve)
+        : fitPumpCurve(pumpData.performance_curve, fitDegree);
+    } catch {
+      return null;
+    }
+  }, [pumpData.curve_fit, pumpData.performance_curve, usesStoredFit, fitDegree]);
+
+  const fittedCoefficients = useMemo(
+    () => (curveModel === 'polynomial' && curveFit ? scalePumpCurveCoefficientsBySpeed(curveFit.coefficients, speedRatio) : null),
+    [curveModel, curveFit, speedRatio]
+  );
 
-  const operatingPoint = useMemo(
-    () => findOperatingPoint(pumpData.performance_curve, resistanceCurve),
-    [pumpData.performance_curve, resistanceCurve]
+  // 水の性能曲線（多項式近似では近似曲線を標本化）
+  const waterCurve = useMemo(
+    () => (fittedCoefficients ? sampleFittedPumpCurve(fittedCoefficients) : catalogCurve),
+    [fittedCoefficients, catalogCurve]
   );
 
+  // 粘性液の動粘度 [cSt]（補正を無効にした場合は null）
+  const kinematicViscosity = useMemo(() => {
+    if (!viscosityCorrectionEnabled || !fluidProps) return null;
+    return calcKinematicViscosity_cSt(fluidProps.viscosity, fluidProps.density);
+  }, [viscosityCorrectionEnabled, fluidProps]);
+
+  // 描画・運転点・合成曲線に用いる性能曲線（HI 9.6.7 の粘度補正を運転回転数で適用）
+  const viscous = useMemo(
+    () => correctForViscosity(waterCurve, operatingSpeed, kinematicViscosity),
+    [waterCurve, operatingSpeed, kinematicViscosity]
+  );
+  const pumpCurve = viscous.curve;
+  const viscosityCorrection = viscous.correction;
+
+  // 粘度補正時は補正後の曲線を同じ次数で当てはめ直し、外挿範囲と BEP も補正後の値で判定する
+  const operatingCoefficients = useMemo(() => {
+    if (!fittedCoefficients || !viscosityCorrection) return fittedCoefficients;
+    try {
+      return fitPumpCurve(pumpCurve, fitDegree).coefficients;
+    } catch {
+      return null;
+    }
+  }, [fittedCoefficients, viscosityCorrection, pumpCurve, fitDegree]);
+
+  // 単独運転の多項式近似は求根で運転点を求め、外挿・締切運転域・外挿上限超過を警告する
+  const fittedSearch = useMemo(
+    () => (operatingCoefficients && pumpCount === 1 ? findFittedOperatingPoint(operatingCoefficients, resistanceCurve) : null),
+    [operatingCoefficients, pumpCount, resistanceCurve]
+  );
+  const fittedOperatingPoint = fittedSearch?.operatingPoint ?? null;
+
+  const pumpCurves = useMemo(
+    () => Array.from({ length: pumpCount }, () => pumpCurve),
+    [pumpCurve, pumpCount]
+  );
+
+  const combinedCurve = useMemo(
+    () => (pumpCount > 1 ? calcCombinedPumpCurve(pumpCurves, arrangement) : null),
+    [pumpCurves, pumpCount, arrangement]
+  );
+
+  // 複数台運転では合成運転点（効率は合成効率、NPSHr は支配的なポンプの値）
+  const combinedOperatingPoint = useMemo(
+    () => (pumpCount > 1 ? findCombinedOperatingPoint(pumpCurves, arrangement, resistanceCurve) : null),
+    [pumpCurves, pumpCount, arrangement, resistanceCurve]
+  );
+
+  const operatingPoint = useMemo((): OperatingPoint | null => {
+    if (pumpCount > 1) return combinedOperatingPoint;
+    if (operatingCoefficients) return fittedOperatingPoint;
+    return findOperatingPoint(pumpCurve, resistanceCurve);
+  }, [pumpCount, combinedOperatingPoint, operatingCoefficients, fittedOperatingPoint, pumpCurve, resistanceCurve]);
+
+  const shaftPower = useMemo(() => {
+    if (!operatingPoint || !fluidProps || operatingPoint.efficiency_pct <= 0) return null;
+    return calcPumpPower(fluidProps.density, operatingPoint.flow_m3h / 3600, operatingPoint.head_m, operatingPoint.efficiency_pct / 100);
+  }, [operatingPoint, fluidProps]);
+
+  // 電動機選定（同一機種は軸動力を等分担、曲線末端の最大軸動力で過負荷を判定）
+  const motorSizing = useMemo((): { selection: MotorSelection | null; error: string | null } => {
+    if (shaftPower === null || !fluidProps) return { selection: null, error: null };
+    try {
+      return {
+        selection: selectMotor({
+          dutyPower_kW: shaftPower / pumpCount,
+          maxPower_kW: calcMaxShaftPower(pumpCurve, fluidProps.density),
+          serviceFactor,
+        }, motorRatings),
+        error: null,
+      };
+    } catch (e) {
+      return { selection: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [shaftPower, fluidProps, pumpCount, pumpCurve, serviceFactor]);
+  const motorSelection = motorSizing.selection;
+
+  // 運転パターンの年間消費電力量（絞り制御 vs インバータ制御）
+  const energyCalc = useMemo((): { result: PumpEnergyResult | null; error: string | null } => {
+    if (!motorSelection || !fluidProps) return { result: null, error: null };
+    try {
+      const result = calcPumpEnergy({
+        curve: pumpCurve,
+        speed_rpm: operatingSpeed,
+        pumpCount,
+        arrangement,
+        resistanceCurve,
+        designFlow_m3h: designFlow,
+        density_kg_m3: fluidProps.density,
+        dutyCycle,
+        motorEfficiency: motorSelection.motor.efficiency_pct / 100,
+        vfdEfficiency,
+        electricityPrice_per_kwh: electricityPrice,
+      });
+      return { result, error: null };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [motorSelection, fluidProps, pumpCurve, operatingSpeed, pumpCount, arrangement, resistanceCurve, designFlow, dutyCycle, vfdEfficiency, electricityPrice]);
+  const pumpEnergy = energyCalc.result;
+
   const npsha = useMemo(() => {
-    if (!fluidProps) return null;
+    if (!fluidProps || atmPressure === null) return null;
     return calcNPSHa({
       atmosphericPressure_kPa: atmPressure,
-      vaporPressure_kPa: fluidProps.pressure,
+      vaporPressure_kPa: vaporPressure,
       suctionStaticHead_m: suctionStaticHead,
       suctionFrictionLoss_m: suctionFrictionLoss,
       density: fluidProps.density,
     });
-  }, [fluidProps, atmPressure, suctionStaticHead, suctionFrictionLoss]);
+  }, [fluidProps, atmPressure, vaporPressure, suctionStaticHead, suctionFrictionLoss]);
+
+  const npshMargin = useMemo(() => {
+    if (npsha === null || !operatingPoint || operatingPoint.npshr_m <= 0) return null;
+    return calcNPSHMargin(npsha, operatingPoint.npshr_m, minMarginRatio);
+  }, [npsha, operatingPoint, minMarginRatio]);
+
+  // ライブラリ全ポンプの比較（定格回転数・単独運転）
+  const pumpRanking = useMemo((): PumpRankingEntry[] => {
+    try {
+      return rankPumps(allPumps.map(p => ({
+        id: p.pumpId,
+        curve: correctForViscosity(p.performance_curve, p.rated_speed_rpm, kinematicViscosity).curve,
+      })), {
+        resistanceCurve,
+        npsha_m: npsha ?? undefined,
+        density_kg_m3: fluidProps?.density,
+        minMarginRatio,
+      });
+    } catch {
+      return [];
+    }
+  }, [allPumps, kinematicViscosity, resistanceCurve, npsha, fluidProps, minMarginRatio]);
+  const pumpLabels = useMemo(
+    () => Object.fromEntries(allPumps.map(p => [p.pumpId, p.model])),
+    [allPumps]
+  );
 
   // Pump suggestion
   const totalHead = staticHead + frictionHead;
+
+  // 設計点（抵抗曲線上）を満たす回転数・インペラ外径
+  // 同一機種の複数台運転は 1 台あたりの分担（並列 Q/N、直列 H/N）で求める
+  const perPumpFlow = pumpCount > 1 && arrangement === 'parallel' ? designFlow / pumpCount : designFlow;
+  const perPumpHead = pumpCount > 1 && arrangement === 'series' ? totalHead / pumpCount : totalHead;
+  // 粘性液では定格回転数で補正した曲線を相似則の基準にする
+  const ratedViscousCurve = useMemo(
+    () => correctForViscosity(pumpData.performance_curve, ratedSpeed, kinematicViscosity).curve,
+    [pumpData.performance_curve, ratedSpeed, kinematicViscosity]
+  );
+  const requiredSpeed = useMemo(() => {
+    try {
+      return calcRequiredSpeed(ratedViscousCurve, ratedSpeed, perPumpFlow, perPumpHead);
+    } catch {
+      return null;
+    }
+  }, [ratedViscousCurve, ratedSpeed, perPumpFlow, perPumpHead]);
+
+  const trimDiameter = useMemo(() => {
+    if (pumpData.impeller_diameter_mm === undefined) return null;
+    try {
+      return calcTrimDiameter(ratedViscousCurve, pumpData.impeller_diameter_mm, perPumpFlow, perPumpHead);
+    } catch {
+      return null;
+    }
+  }, [ratedViscousCurve, pumpData.impeller_diameter_mm, perPumpFlow, perPumpHead]);
   const pumpSuggestion = useMemo((): PumpSuggestion | null => {
     if (designFlow <= 0 || totalHead <= 0 || assumedSpeed <= 0) return null;
     try {
@@ -173,21 +532,34 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
   if (operatingPoint && operatingPoint.efficiency_pct < 50) {
     warnings.push(t('pump.warning_low_efficiency'));
   }
-  if (operatingPoint && npsha !== null && npsha < operatingPoint.npshr_m) {
-    warnings.push(t('pump.warning_npsh'));
+  if (fittedSearch) {
+    warnings.push(...fittedSearch.warnings.map(w => formatWarning(w, t)));
+  }
+  if (viscosityCorrection) {
+    warnings.push(...viscosityCorrection.warnings.map(w => formatWarning(w, t)));
+  }
+  if (motorSelection) {
+    warnings.push(...motorSelection.warnings.map(w => formatWarning(w, t)));
+  }
+  if (pumpEnergy) {
+    warnings.push(...pumpEnergy.warnings.map(w => formatWarning(w, t)));
+  }
+  if (npshMargin) {
+    warnings.push(...npshMargin.warnings.map(w => formatWarning(w, t)));
   }
 
   // ── Mini chart path computation (normalized 0-1 coordinates) ──
   const miniChartPaths = useMemo(() => {
-    const allFlows = [...pumpData.performance_curve.map(p => p.flow_m3h), ...resistanceCurve.map(p => p.flow_m3h)];
-    const allHeads = [...pumpData.performance_curve.map(p => p.head_m), ...resistanceCurve.map(p => p.head_m)];
+    const systemPumpCurve: readonly CombinedCurvePoint[] = combinedCurve ?? pumpCurve;
+    const allFlows = [...systemPumpCurve.map(p => p.flow_m3h), ...resistanceCurve.map(p => p.flow_m3h)];
+    const allHeads = [...systemPumpCurve.map(p => p.head_m), ...resistanceCurve.map(p => p.head_m)];
     const maxF = Math.ceil(Math.max(...allFlows) / 5) * 5;
     const maxH = Math.ceil(Math.max(...allHeads) / 5) * 5;
     if (maxF <= 0 || maxH <= 0) return null;
     const normX = (f: number) => f / maxF;
     const normY = (h: number) => 1 - h / maxH;
 
-    const pumpCurvePath = pumpData.performance_curve
+    const pumpCurvePath = systemPumpCurve
       .map((p, i) => `${i === 0 ? 'M' : 'L'} ${normX(p.flow_m3h)} ${normY(p.head_m)}`)
       .join(' ');
     const resistanceCurvePath = resistanceCurve
@@ -196,7 +568,7 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
     const opPointX = operatingPoint ? normX(operatingPoint.flow_m3h) : 0;
     const opPointY = operatingPoint ? normY(operatingPoint.head_m) : 0;
     return { pumpCurvePath, resistanceCurvePath, opPointX, opPointY };
-  }, [pumpData.performance_curve, resistanceCurve, operatingPoint]);
+  }, [combinedCurve, pumpCurve, resistanceCurve, operatingPoint]);
 
   // ── Emit pump result summary to parent ──
   const prevResultRef = useRef<string>('');
@@ -218,7 +590,7 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
       recommendedType: pumpSuggestion?.specificSpeed.pumpType ?? null,
       estimatedPower_kW: pumpSuggestion?.estimatedPower_kW ?? null,
       npsha_m: npsha,
-      npshMargin_m: (npsha !== null && operatingPoint) ? npsha - operatingPoint.npshr_m : null,
+      npshMargin_m: npshMargin?.margin_m ?? null,
       warnings,
       miniChartPaths,
     };
@@ -227,7 +599,7 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
       prevResultRef.current = key;
       onPumpResultUpdate(summary);
     }
-  }, [operatingPoint, pumpSuggestion, npsha, warnings, designFlow, staticHead, frictionHead, totalHead, lastSourceTab, miniChartPaths, onPumpResultUpdate]);
+  }, [operatingPoint, pumpSuggestion, npsha, npshMargin, warnings, designFlow, staticHead, frictionHead, totalHead, lastSourceTab, miniChartPaths, onPumpResultUpdate]);
 
   // ── Shared sections ──
 
@@ -262,11 +634,55 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
 
   const pumpInfoSection = (
     <Section title={t('pump.title')}>
+      <Field label={t('pump.select_pump')}>
+        <select value={pumpData.pumpId} onChange={e => selectPump(allPumps.find(p => p.pumpId === e.target.value) ?? pumpLibrary[0])} style={inputStyle}>
+          <optgroup label={t('pump.library_catalog')}>
+            {pumpLibrary.map(p => <option key={p.pumpId} value={p.pumpId}>{p.model}</option>)}
+          </optgroup>
+          {userPumps.length > 0 && (
+            <optgroup label={t('pump.library_user')}>
+              {userPumps.map(p => <option key={p.pumpId} value={p.pumpId}>{p.model}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {isUserPump && onUserPumpsChange && (
+          <button onClick={handleRemoveUserPump} style={{ marginLeft: '6px', padding: '2px 8px', cursor: 'pointer' }}>
+            {t('pump.remove_user_curve')}
+          </button>
+        )}
+      </Field>
       <ResultRow label={t('pump.model')} value={pumpData.model} />
-      <ResultRow label={t('pump.manufacturer')} value={pumpData.manufacturer} />
+      {pumpData.manufacturer && <ResultRow label={t('pump.manufacturer')} value={pumpData.manufacturer} />}
       <div style={{ fontSize: '0.85em', color: '#555', marginTop: '4px' }}>
         {localizedName(locale, pumpData.description, pumpData.description_ja)}
       </div>
+      {onUserPumpsChange && (
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center', flexWrap: 'wrap', marginTop: '8px', fontSize: '0.85em' }}>
+          <span style={{ color: '#555' }}>{t('pump.import_rated_speed')}</span>
+          <input type="number" value={importSpeed} onChange={e => setImportSpeed(Number(e.target.value))}
+            min={100} step={50} style={{ ...inputStyle, width: '80px' }} />
+          <span style={{ color: '#555' }}>{t('unit.rpm')}</span>
+          <button onClick={handleImportCsv} style={{ padding: '2px 8px', cursor: 'pointer' }}>
+            {t('pump.import_csv')}
+          </button>
+          <span style={{ color: '#888', fontSize: '0.9em' }}>{t('pump.import_csv_hint')}</span>
+        </div>
+      )}
+      {csvError && (
+        <div style={{ color: '#c00', fontSize: '0.85em', marginTop: '4px' }}>{t('pump.import_csv_error')}: {csvError}</div>
+      )}
+    </Section>
+  );
+
+  const rankingSection = (
+    <Section title={t('pump.ranking')}>
+      <div style={{ fontSize: '0.8em', color: '#888', marginBottom: '6px' }}>{t('pump.ranking_note')}</div>
+      <PumpRankingTable
+        entries={pumpRanking}
+        pumpLabels={pumpLabels}
+        selectedPumpId={pumpData.pumpId}
+        onSelect={id => selectPump(allPumps.find(p => p.pumpId === id) ?? pumpLibrary[0])}
+      />
     </Section>
   );
 
@@ -283,28 +699,52 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
         <input type="number" value={temperature} onChange={e => setTemperature(Number(e.target.value))}
           min={tempRange.min} max={tempRange.max} style={inputStyle} /> {t('unit.celsius')}
       </Field>
+      {solutionEntry && (
+        <Field label={`${t('fluid.concentration')} [${solutionEntry.concentrationUnit}]`}>
+          <input type="number" value={concentration} onChange={e => setConcentration(Number(e.target.value))}
+            min={solutionEntry.concentrationRange.min}
+            max={solutionEntry.concentrationRange.max}
+            step={1} style={inputStyle} /> {solutionEntry.concentrationUnit}
+        </Field>
+      )}
     </Section>
   );
 
   const systemHeadSection = (
     <Section title={t('pump.system_head')}>
       <Field label={t('pump.input_flow')}>
-        <input type="number" value={designFlow} onChange={e => setDesignFlow(Number(e.target.value))}
+        <input type="number" value={designFlow} onChange={e => { setDesignFlow(Number(e.target.value)); setFullSystemCurve(null); setSystemCurveError(null); }}
           min={0} step={0.5} style={inputStyle} /> {t('unit.m3h')}
       </Field>
       <Field label={t('pump.static_head')}>
-        <input type="number" value={staticHead} onChange={e => setStaticHead(Number(e.target.value))}
+        <input type="number" value={staticHead} onChange={e => { setStaticHead(Number(e.target.value)); setFullSystemCurve(null); setSystemCurveError(null); }}
           step={0.5} style={inputStyle} /> {t('unit.m')}
       </Field>
       <Field label={t('pump.friction_head')}>
-        <input type="number" value={frictionHead} onChange={e => setFrictionHead(Number(e.target.value))}
+        <input type="number" value={frictionHead} onChange={e => { setFrictionHead(Number(e.target.value)); setFullSystemCurve(null); setSystemCurveError(null); }}
           min={0} step={0.5} style={inputStyle} /> {t('unit.m')}
       </Field>
+      {fullSystemCurve && (
+        <>
+          <div style={{ fontSize: '0.8em', color: '#2e7d32', margin: '6px 0' }}>{t('pump.full_system_curve')}</div>
+          {quadraticDeviation !== null && (
+            <ResultRow label={t('pump.quadratic_deviation')} value={`${formatNum(quadraticDeviation, 2)} ${t('unit.m')}`} />
+          )}
+        </>
+      )}
+      {systemCurveError && (
+        <div style={{ color: '#c00', fontSize: '0.8em', margin: '6px 0' }}>
+          {t('pump.full_system_curve_failed')}: {systemCurveError}
+        </div>
+      )}
     </Section>
   );
 
   const npshaSection = (
     <Section title={t('pump.npsha_settings')}>
+      {suctionFromLine && (
+        <div style={{ fontSize: '0.8em', color: '#2e7d32', marginBottom: '6px' }}>{t('pump.suction_from_line')}</div>
+      )}
       <Field label={t('pump.suction_static_head')}>
         <input type="number" value={suctionStaticHead} onChange={e => setSuctionStaticHead(Number(e.target.value))}
           step={0.5} style={inputStyle} /> {t('unit.m')}
@@ -313,10 +753,135 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
         <input type="number" value={suctionFrictionLoss} onChange={e => setSuctionFrictionLoss(Number(e.target.value))}
           min={0} step={0.1} style={inputStyle} /> {t('unit.m')}
       </Field>
-      <Field label={t('pump.atm_pressure')}>
-        <input type="number" value={atmPressure} onChange={e => setAtmPressure(Number(e.target.value))}
-          step={0.1} style={inputStyle} /> {t('unit.kpa')}
+      <Field label={t('pump.site_altitude')}>
+        <input type="number" value={altitude} onChange={e => setAltitude(Number(e.target.value))}
+          max={11000} step={10} style={inputStyle} /> {t('unit.m')}
+      </Field>
+      {atmPressure !== null && (
+        <ResultRow label={t('pump.atm_pressure')} value={`${formatNum(atmPressure, 2)} ${t('unit.kpa')}`} />
+      )}
+      <VaporPressureField {...vaporPressureState} />
+      <Field label={t('pump.npsh_min_ratio')}>
+        <input type="number" value={minMarginRatio} onChange={e => setMinMarginRatio(Number(e.target.value))}
+          min={1} step={0.05} style={inputStyle} />
+      </Field>
+    </Section>
+  );
+
+  const fitRow = (label: string, stats: FitStatistics, unit: string) => (
+    <ResultRow label={label} value={`R² = ${formatNum(stats.rSquared, 4)} / RMSE = ${formatNum(stats.rmse, 2)} ${unit}`} />
+  );
+
+  const curveModelSection = (
+    <Section title={t('pump.curve_model')}>
+      <Field label={t('pump.curve_model')}>
+        <select value={curveModel} onChange={e => setCurveModel(e.target.value as CurveModel)} style={inputStyle}>
+          <option value="linear">{t('pump.curve_model_linear')}</option>
+          <option value="polynomial">{t('pump.curve_model_polynomial')}</option>
+        </select>
+      </Field>
+      {curveModel === 'polynomial' && (
+        <>
+          <Field label={t('pump.fit_degree')}>
+            <select value={fitDegree} onChange={e => setFitDegree(Number(e.target.value))} style={inputStyle}>
+              {FIT_DEGREES.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </Field>
+          {usesStoredFit && (
+            <div style={{ fontSize: '0.8em', color: '#888', marginBottom: '6px' }}>{t('pump.fit_stored')}</div>
+          )}
+          {curveFit && (
+            <>
+              <h4 style={{ margin: '12px 0 6px', fontSize: '0.9em', color: '#333' }}>{t('pump.fit_quality')}</h4>
+              {fitRow('H', curveFit.head, t('unit.m'))}
+              {fitRow('\u03B7', curveFit.efficiency, t('unit.pct'))}
+              {fitRow('NPSHr', curveFit.npshr, t('unit.m'))}
+            </>
+          )}
+        </>
+      )}
+    </Section>
+  );
+
+  const viscositySection = (
+    <Section title={t('pump.viscosity_correction')}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '0.9em', marginBottom: '6px' }}>
+        <input type="checkbox" checked={viscosityCorrectionEnabled} onChange={e => setViscosityCorrectionEnabled(e.target.checked)} />
+        {t('pump.viscosity_correction_apply')}
+      </label>
+      {kinematicViscosity !== null && (
+        <ResultRow label={t('pump.kinematic_viscosity')} value={`${formatNum(kinematicViscosity, 2)} cSt`} />
+      )}
+      {viscosityCorrection ? (
+        <>
+          <ResultRow label="B" value={formatNum(viscosityCorrection.parameterB, 2)} />
+          <ResultRow label={'C_Q = C_H,BEP'} value={formatNum(viscosityCorrection.cQ, 3)} />
+          <ResultRow label={'C_\u03B7'} value={formatNum(viscosityCorrection.cEta, 3)} />
+          <div style={{ fontSize: '0.8em', color: '#888', marginTop: '4px' }}>{t('pump.viscosity_correction_note')}</div>
+        </>
+      ) : kinematicViscosity !== null && (
+        <div style={{ fontSize: '0.8em', color: '#888' }}>{t('pump.viscosity_correction_not_required')}</div>
+      )}
+    </Section>
+  );
+
+  const arrangementSection = (
+    <Section title={t('pump.arrangement')}>
+      <Field label={t('pump.pump_count')}>
+        <input type="number" value={pumpCount}
+          onChange={e => setPumpCount(Math.min(Math.max(Math.round(Number(e.target.value)), 1), MAX_PUMP_COUNT))}
+          min={1} max={MAX_PUMP_COUNT} step={1} style={inputStyle} />
+      </Field>
+      {pumpCount > 1 && (
+        <>
+          <Field label={t('pump.arrangement')}>
+            <select value={arrangement} onChange={e => setArrangement(e.target.value as PumpArrangement)} style={inputStyle}>
+              <option value="parallel">{t('pump.arrangement_parallel')}</option>
+              <option value="series">{t('pump.arrangement_series')}</option>
+            </select>
+          </Field>
+          <div style={{ fontSize: '0.8em', color: '#888' }}>{t('pump.arrangement_note')}</div>
+        </>
+      )}
+    </Section>
+  );
+
+  const speedSection = (
+    <Section title={t('pump.speed_control')}>
+      <Field label={t('pump.operating_speed')}>
+        <input type="range" value={operatingSpeed} onChange={e => setOperatingSpeed(Number(e.target.value))}
+          min={Math.round(ratedSpeed * SPEED_SLIDER_MIN_RATIO)} max={Math.round(ratedSpeed * SPEED_SLIDER_MAX_RATIO)}
+          step={10} style={{ width: '100%' }} />
+        <div style={{ fontSize: '0.85em', color: '#555' }}>
+          {formatNum(operatingSpeed, 0)} {t('unit.rpm')} ({t('pump.rated_speed')}: {formatNum(ratedSpeed, 0)} {t('unit.rpm')})
+        </div>
       </Field>
+      <ResultRow label={t('pump.speed_ratio')} value={`${formatNum(speedRatio * 100, 1)} ${t('unit.pct')}`} />
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <div style={{ flex: 1 }}>
+          <ResultRow
+            label={t('pump.required_speed')}
+            value={requiredSpeed !== null ? `${formatNum(requiredSpeed, 0)} ${t('unit.rpm')}` : t('pump.design_point_unreachable')}
+          />
+        </div>
+        {requiredSpeed !== null && (
+          <button onClick={() => setOperatingSpeed(Math.round(requiredSpeed))} style={{ padding: '2px 8px', cursor: 'pointer' }}>
+            {t('pump.apply_required_speed')}
+          </button>
+        )}
+      </div>
+      {pumpData.impeller_diameter_mm !== undefined && (
+        <>
+          <ResultRow label={t('pump.impeller_diameter')} value={`${formatNum(pumpData.impeller_diameter_mm, 0)} ${t('unit.mm')}`} />
+          <ResultRow
+            label={t('pump.trim_diameter')}
+            value={trimDiameter !== null ? `${formatNum(trimDiameter, 1)} ${t('unit.mm')}` : t('pump.design_point_unreachable')}
+          />
+          {trimDiameter !== null && trimDiameter < pumpData.impeller_diameter_mm * MIN_TRIM_RATIO && (
+            <div style={{ color: '#c00', fontSize: '0.8em', marginTop: '4px' }}>{t('pump.trim_below_limit')}</div>
+          )}
+        </>
+      )}
     </Section>
   );
 
@@ -327,11 +892,19 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
           <ResultRow label={t('pump.operating_flow')} value={`${formatNum(operatingPoint.flow_m3h, 2)} ${t('unit.m3h')}`} />
           <ResultRow label={t('pump.operating_head')} value={`${formatNum(operatingPoint.head_m, 2)} ${t('unit.m')}`} />
           <ResultRow label={t('pump.operating_efficiency')} value={`${formatNum(operatingPoint.efficiency_pct, 1)} ${t('unit.pct')}`} />
+          {shaftPower !== null && (
+            <ResultRow label={t('pump.shaft_power')} value={`${formatNum(shaftPower, 2)} ${t('pump.unit.kw')}`} />
+          )}
           <ResultRow label={t('pump.npshr')} value={`${formatNum(operatingPoint.npshr_m, 2)} ${t('unit.m')}`} />
           {npsha !== null && (
             <>
               <ResultRow label={t('pump.npsha')} value={`${formatNum(npsha, 2)} ${t('unit.m')}`} />
-              <ResultRow label={t('pump.npsh_margin')} value={`${formatNum(npsha - operatingPoint.npshr_m, 2)} ${t('unit.m')}`} />
+              {npshMargin && (
+                <>
+                  <ResultRow label={t('pump.npsh_margin')} value={`${formatNum(npshMargin.margin_m, 2)} ${t('unit.m')}`} />
+                  <ResultRow label={t('pump.npsh_ratio')} value={formatNum(npshMargin.ratio, 2)} />
+                </>
+              )}
             </>
           )}
         </>
@@ -339,6 +912,34 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
         <div style={{ color: '#c00', fontSize: '0.9em' }}>{t('pump.no_intersection')}</div>
       )}
 
+      {combinedOperatingPoint && (
+        <>
+          <h4 style={{ margin: '12px 0 6px', fontSize: '0.9em', color: '#333' }}>{t('pump.per_pump')}</h4>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85em' }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid #ddd', color: '#555' }}>
+                <th style={{ textAlign: 'left', padding: '2px 4px' }}>#</th>
+                <th style={{ textAlign: 'right', padding: '2px 4px' }}>Q [{t('unit.m3h')}]</th>
+                <th style={{ textAlign: 'right', padding: '2px 4px' }}>H [{t('unit.m')}]</th>
+                <th style={{ textAlign: 'right', padding: '2px 4px' }}>{'\u03B7'} [{t('unit.pct')}]</th>
+                <th style={{ textAlign: 'right', padding: '2px 4px' }}>NPSHr [{t('unit.m')}]</th>
+              </tr>
+            </thead>
+            <tbody>
+              {combinedOperatingPoint.pumps.map((p, i) => (
+                <tr key={i} style={{ borderBottom: '1px solid #eee' }}>
+                  <td style={{ padding: '2px 4px' }}>{t('pump.pump_n')} {i + 1}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }}>{formatNum(p.flow_m3h, 2)}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }}>{formatNum(p.head_m, 2)}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }}>{formatNum(p.efficiency_pct, 1)}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }}>{formatNum(p.npshr_m, 2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
       {warnings.length > 0 && (
         <div style={{ marginTop: '12px' }}>
           {warnings.map((w, i) => (
@@ -351,6 +952,88 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
     </Section>
   );
 
+  const motorEnergySection = (
+    <Section title={t('pump.motor_energy')}>
+      <Field label={t('pump.service_factor')}>
+        <input type="number" value={serviceFactor} onChange={e => setServiceFactor(Number(e.target.value))}
+          min={1} max={2} step={0.05} style={inputStyle} />
+      </Field>
+      {motorSelection ? (
+        <>
+          <ResultRow label={t('pump.duty_power')} value={`${formatNum(motorSelection.dutyPower_kW, 2)} ${t('pump.unit.kw')}`} />
+          <ResultRow label={t('pump.motor_required_power')} value={`${formatNum(motorSelection.requiredPower_kW, 2)} ${t('pump.unit.kw')}`} />
+          <ResultRow
+            label={t('pump.motor_rating')}
+            value={`${motorSelection.motor.rating_kW} ${t('pump.unit.kw')} (${motorEfficiencyClass}, \u03B7 ${formatNum(motorSelection.motor.efficiency_pct, 1)} ${t('unit.pct')})`}
+          />
+          <ResultRow label={t('pump.motor_load_factor')} value={`${formatNum(motorSelection.loadFactor * 100, 0)} ${t('unit.pct')}`} />
+          {motorSelection.maxPower_kW !== null && (
+            <ResultRow label={t('pump.max_curve_power')} value={`${formatNum(motorSelection.maxPower_kW, 2)} ${t('pump.unit.kw')}`} />
+          )}
+          {motorSelection.nonOverloading !== null && (
+            <ResultRow
+              label={t('pump.non_overloading')}
+              value={t(motorSelection.nonOverloading ? 'pump.non_overloading_yes' : 'pump.non_overloading_no')}
+            />
+          )}
+        </>
+      ) : motorSizing.error && (
+        <div style={{ color: '#c00', fontSize: '0.85em' }}>{t('pump.motor_error')}: {motorSizing.error}</div>
+      )}
+
+      <h4 style={{ margin: '12px 0 6px', fontSize: '0.9em', color: '#333' }}>{t('pump.energy')}</h4>
+      <Field label={t('economic.electricity_price')}>
+        <input type="number" value={electricityPrice} onChange={e => setElectricityPrice(Number(e.target.value))}
+          min={0} step={0.01} style={inputStyle} /> {pipeCostData.currency}/kWh
+      </Field>
+      <Field label={t('pump.vfd_efficiency')}>
+        <input type="number" value={Number((vfdEfficiency * 100).toFixed(4))} onChange={e => setVfdEfficiency(Number(e.target.value) / 100)}
+          min={50} max={100} step={0.5} style={inputStyle} /> {t('unit.pct')}
+      </Field>
+      <PumpDutyCycleFields value={dutyCycle} onChange={setDutyCycle} />
+      {energyCalc.error && (
+        <div style={{ color: '#c00', fontSize: '0.85em', marginTop: '4px' }}>{t('pump.energy_error')}: {energyCalc.error}</div>
+      )}
+      {pumpEnergy && (
+        <>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85em', marginTop: '8px' }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid #ddd', color: '#555' }}>
+                <th style={{ textAlign: 'right', padding: '2px 4px' }}>Q [{t('unit.m3h')}]</th>
+                <th style={{ textAlign: 'right', padding: '2px 4px' }}>{t('pump.control_throttle')} [{t('pump.unit.kw')}]</th>
+                <th style={{ textAlign: 'right', padding: '2px 4px' }}>{t('pump.control_vfd')} [{t('pump.unit.kw')}]</th>
+                <th style={{ textAlign: 'right', padding: '2px 4px' }}>N [rpm]</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pumpEnergy.rows.map((r, i) => (
+                <tr key={i} style={{ borderBottom: '1px solid #eee' }}>
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }}>{formatNum(r.flow_m3h, 2)}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }}>{r.throttle ? formatNum(r.throttle.inputPower_kW, 2) : '-'}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }}>{r.vfd ? formatNum(r.vfd.inputPower_kW, 2) : '-'}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 4px' }}>{r.vfd ? formatNum(r.vfd.speed_rpm, 0) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <ResultRow
+            label={`${t('pump.annual_energy')} (${t('pump.control_throttle')})`}
+            value={`${formatNum(pumpEnergy.throttle.energy_kWh_yr, 0)} kWh/yr (${formatNum(pumpEnergy.throttle.cost_yr, 0)} ${pipeCostData.currency})`}
+          />
+          <ResultRow
+            label={`${t('pump.annual_energy')} (${t('pump.control_vfd')})`}
+            value={`${formatNum(pumpEnergy.vfd.energy_kWh_yr, 0)} kWh/yr (${formatNum(pumpEnergy.vfd.cost_yr, 0)} ${pipeCostData.currency})`}
+          />
+          <ResultRow
+            label={t('pump.vfd_savings')}
+            value={`${formatNum(pumpEnergy.savings_kWh_yr, 0)} kWh/yr (${formatNum(pumpEnergy.savingsCost_yr, 0)} ${pipeCostData.currency})`}
+          />
+          <div style={{ fontSize: '0.8em', color: '#888', marginTop: '4px' }}>{t('pump.energy_note')}</div>
+        </>
+      )}
+    </Section>
+  );
+
   const pumpSuggestionSection = (
     <Section title={t('pump.suggestion_title')}>
       <Field label={t('pump.assumed_speed')}>
@@ -423,19 +1106,22 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
             {t('pump.suggestion_note')}
           </div>
 
-          {onSendPumpToExplanation && fluidProps && (
+          {onSendPumpToExplanation && fluidProps && atmPressure !== null && (
             <button
               onClick={() => onSendPumpToExplanation({
                 designFlow_m3h: designFlow,
                 staticHead_m: staticHead,
                 frictionHead_m: frictionHead,
                 density: fluidProps.density,
-                vaporPressure_kPa: fluidProps.pressure,
+                vaporPressure_kPa: vaporPressure,
                 atmosphericPressure_kPa: atmPressure,
                 suctionStaticHead_m: suctionStaticHead,
                 suctionFrictionLoss_m: suctionFrictionLoss,
                 speed_rpm: assumedSpeed,
                 suggestion: pumpSuggestion,
+                ...(viscosityCorrection ? { viscosity: viscosityCorrection } : {}),
+                ...(motorSelection ? { motor: motorSelection } : {}),
+                ...(pumpEnergy ? { energy: pumpEnergy } : {}),
               })}
               style={{
                 marginTop: '12px', padding: '8px 20px', fontSize: '0.9em',
@@ -458,8 +1144,14 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
   const chartSection = (
     <Section title={t('pump.chart_title')}>
       <PumpPerformanceChart
-        pumpCurve={pumpData.performance_curve}
+        pumpCurve={pumpCurve}
+        catalogPoints={fittedCoefficients ? catalogCurve : undefined}
+        waterCurve={viscosityCorrection ? waterCurve : undefined}
+        ratedCurve={speedRatio !== 1 ? pumpData.performance_curve : undefined}
+        combinedCurve={combinedCurve ?? undefined}
+        pumpPoints={combinedOperatingPoint?.pumps}
         resistanceCurve={resistanceCurve}
+        quadraticCurve={fullSystemCurve ? quadraticCurve : undefined}
         operatingPoint={operatingPoint}
         t={t}
         isDesktop={isDesktop}
@@ -483,7 +1175,12 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
 
           {/* Center column: operating point & suggestion */}
           <div>
+            {curveModelSection}
+            {viscositySection}
+            {arrangementSection}
+            {speedSection}
             {operatingPointSection}
+            {motorEnergySection}
             {pumpSuggestionSection}
           </div>
 
@@ -492,6 +1189,7 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
             {chartSection}
           </div>
         </div>
+        {rankingSection}
       </div>
     );
   }
@@ -504,9 +1202,15 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
       {fluidSection}
       {systemHeadSection}
       {npshaSection}
+      {curveModelSection}
+      {viscositySection}
+      {arrangementSection}
+      {speedSection}
       {operatingPointSection}
+      {motorEnergySection}
       {pumpSuggestionSection}
       {chartSection}
+      {rankingSection}
     </div>
   );
 }
@@ -515,12 +1219,24 @@ export function PumpChart({ initialInput, onInputConsumed, onSendPumpToExplanati
 
 interface ChartProps {
   pumpCurve: readonly { flow_m3h: number; head_m: number; efficiency_pct: number; npshr_m: number }[];
+  /** 回転数を変更した場合の定格回転数の H-Q 曲線（参考表示） */
+  ratedCurve?: readonly { flow_m3h: number; head_m: number }[];
+  /** 粘度補正前の水の性能曲線（補正後の曲線との比較表示） */
+  waterCurve?: readonly { flow_m3h: number; head_m: number; efficiency_pct: number }[];
+  /** 多項式近似の場合のカタログ点（近似曲線との比較表示） */
+  catalogPoints?: readonly { flow_m3h: number; head_m: number }[];
+  /** 複数台運転の合成曲線 */
+  combinedCurve?: readonly CombinedCurvePoint[];
+  /** 複数台運転時の各ポンプの運転点 */
+  pumpPoints?: readonly OperatingPoint[];
   resistanceCurve: ResistanceCurvePoint[];
+  /** 実抵抗曲線を描く場合の 2 乗近似（破線で重ね描き） */
+  quadraticCurve?: ResistanceCurvePoint[];
   operatingPoint: OperatingPoint | null;
   t: (key: string) => string;
 }
 
-function PumpPerformanceChart({ pumpCurve, resistanceCurve, operatingPoint, t, isDesktop }: ChartProps & { isDesktop?: boolean }) {
+function PumpPerformanceChart({ pumpCurve, waterCurve, catalogPoints, ratedCurve, combinedCurve, pumpPoints, resistanceCurve, quadraticCurve, operatingPoint, t, isDesktop }: ChartProps & { isDesktop?: boolean }) {
   const W = 600;
   const H = 400;
   const PAD = { top: 30, right: 80, bottom: 50, left: 60 };
@@ -529,8 +1245,11 @@ function PumpPerformanceChart({ pumpCurve, resistanceCurve, operatingPoint, t, i
   const chartH = H - PAD.top - PAD.bottom;
 
   // Axis ranges
-  const allFlows = [...pumpCurve.map(p => p.flow_m3h), ...resistanceCurve.map(p => p.flow_m3h)];
-  const allHeads = [...pumpCurve.map(p => p.head_m), ...resistanceCurve.map(p => p.head_m)];
+  const referenceCurve = ratedCurve ?? [];
+  const combined = combinedCurve ?? [];
+  const curves = [pumpCurve, referenceCurve, waterCurve ?? [], combined, resistanceCurve, quadraticCurve ?? []];
+  const allFlows = curves.flatMap(c => c.map(p => p.flow_m3h));
+  const allHeads = curves.flatMap(c => c.map(p => p.head_m));
 
   const maxFlow = Math.ceil(Math.max(...allFlows) / 5) * 5;
   const maxHead = Math.ceil(Math.max(...allHeads) / 5) * 5;
@@ -543,6 +1262,22 @@ function PumpPerformanceChart({ pumpCurve, resistanceCurve, operatingPoint, t, i
     .map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.flow_m3h)} ${scaleY(p.head_m)}`)
     .join(' ');
 
+  const ratedPath = referenceCurve
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.flow_m3h)} ${scaleY(p.head_m)}`)
+    .join(' ');
+
+  const waterPath = (waterCurve ?? [])
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.flow_m3h)} ${scaleY(p.head_m)}`)
+    .join(' ');
+
+  const combinedPath = combined
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.flow_m3h)} ${scaleY(p.head_m)}`)
+    .join(' ');
+
+  const quadraticPath = (quadraticCurve ?? [])
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.flow_m3h)} ${scaleY(p.head_m)}`)
+    .join(' ');
+
   // Resistance curve path
   const resistancePath = resistanceCurve
     .map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.flow_m3h)} ${scaleY(p.head_m)}`)
@@ -555,6 +1290,20 @@ function PumpPerformanceChart({ pumpCurve, resistanceCurve, operatingPoint, t, i
     .filter(p => p.efficiency_pct > 0)
     .map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.flow_m3h)} ${scaleYEff(p.efficiency_pct)}`)
     .join(' ');
+  const waterEffPath = (waterCurve ?? [])
+    .filter(p => p.efficiency_pct > 0)
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(p.flow_m3h)} ${scaleYEff(p.efficiency_pct)}`)
+    .join(' ');
+
+  const legend = [
+    { key: 'hq', label: t('pump.curve_hq'), stroke: '#0066cc', width: 2.5 },
+    { key: 'res', label: t('pump.curve_resistance'), stroke: '#cc3300', width: 2, dash: quadraticPath ? undefined : '6,3' },
+    ...(quadraticPath ? [{ key: 'quad', label: t('pump.curve_quadratic'), stroke: '#cc3300', width: 1.5, dash: '6,3' }] : []),
+    { key: 'eff', label: t('pump.curve_efficiency'), stroke: '#00aa44', width: 1.5, dash: '3,3' },
+    ...(waterPath ? [{ key: 'water', label: t('pump.curve_water'), stroke: '#0066cc', width: 1.5, dash: '8,4' }] : []),
+    ...(ratedPath ? [{ key: 'rated', label: t('pump.curve_rated'), stroke: '#99bbdd', width: 1.5 }] : []),
+    ...(combinedPath ? [{ key: 'combined', label: t('pump.curve_combined'), stroke: '#7a3fa0', width: 2.5 }] : []),
+  ];
 
   // Grid lines
   const xTicks: number[] = [];
@@ -612,15 +1361,37 @@ function PumpPerformanceChart({ pumpCurve, resistanceCurve, operatingPoint, t, i
           textAnchor="start" fontSize={10} fill="#888">{e}%</text>
       ))}
 
+      {/* Rated-speed H-Q curve (reference) */}
+      {ratedPath && <path d={ratedPath} fill="none" stroke="#99bbdd" strokeWidth={1.5} />}
+
+      {/* Water-test curves before viscosity correction */}
+      {waterPath && <path d={waterPath} fill="none" stroke="#0066cc" strokeWidth={1.5} strokeDasharray="8,4" opacity={0.6} />}
+      {waterEffPath && <path d={waterEffPath} fill="none" stroke="#00aa44" strokeWidth={1} strokeDasharray="8,4" opacity={0.6} />}
+
       {/* Pump H-Q curve */}
       <path d={pumpPath} fill="none" stroke="#0066cc" strokeWidth={2.5} />
 
-      {/* Resistance curve */}
-      <path d={resistancePath} fill="none" stroke="#cc3300" strokeWidth={2} strokeDasharray="6,3" />
+      {/* Catalog points (polynomial fit) */}
+      {catalogPoints?.map((p, i) => (
+        <circle key={`cp${i}`} cx={scaleX(p.flow_m3h)} cy={scaleY(p.head_m)} r={3} fill="#0066cc" />
+      ))}
+
+      {/* Combined curve (pumps in parallel / series) */}
+      {combinedPath && <path d={combinedPath} fill="none" stroke="#7a3fa0" strokeWidth={2.5} />}
+
+      {/* Resistance curve (solid when re-calculated at each flow, dashed for the quadratic approximation) */}
+      <path d={resistancePath} fill="none" stroke="#cc3300" strokeWidth={2} strokeDasharray={quadraticPath ? undefined : '6,3'} />
+      {quadraticPath && <path d={quadraticPath} fill="none" stroke="#cc3300" strokeWidth={1.5} strokeDasharray="6,3" opacity={0.6} />}
 
       {/* Efficiency curve */}
       {effPath && <path d={effPath} fill="none" stroke="#00aa44" strokeWidth={1.5} strokeDasharray="3,3" />}
 
+      {/* Per-pump duty points */}
+      {pumpPoints?.map((p, i) => (
+        <circle key={`pp${i}`} cx={scaleX(p.flow_m3h)} cy={scaleY(p.head_m)}
+          r={4} fill="#fff" stroke="#0066cc" strokeWidth={2} />
+      ))}
+
       {/* Operating point */}
       {operatingPoint && (
         <>
@@ -643,14 +1414,12 @@ function PumpPerformanceChart({ pumpCurve, resistanceCurve, operatingPoint, t, i
 
       {/* Legend */}
       <g transform={`translate(${PAD.left + 10}, ${PAD.top + 8})`}>
-        <line x1={0} y1={0} x2={20} y2={0} stroke="#0066cc" strokeWidth={2.5} />
-        <text x={24} y={4} fontSize={10} fill="#333">{t('pump.curve_hq')}</text>
-
-        <line x1={0} y1={16} x2={20} y2={16} stroke="#cc3300" strokeWidth={2} strokeDasharray="6,3" />
-        <text x={24} y={20} fontSize={10} fill="#333">{t('pump.curve_resistance')}</text>
-
-        <line x1={0} y1={32} x2={20} y2={32} stroke="#00aa44" strokeWidth={1.5} strokeDasharray="3,3" />
-        <text x={24} y={36} fontSize={10} fill="#333">{t('pump.curve_efficiency')}</text>
+        {legend.map((item, i) => (
+          <g key={item.key}>
+            <line x1={0} y1={i * 16} x2={20} y2={i * 16} stroke={item.stroke} strokeWidth={item.width} strokeDasharray={item.dash} />
+            <text x={24} y={i * 16 + 4} fontSize={10} fill="#333">{item.label}</text>
+          </g>
+        ))}
       </g>
     </svg>
   );
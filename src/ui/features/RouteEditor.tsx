@@ -1,23 +1,37 @@
-import { useState, useMemo, useImperativeHandle, useCallback, useEffect, forwardRef } from 'react';
+import { Fragment, useState, useMemo, useImperativeHandle, useCallback, useEffect, forwardRef } from 'react';
 import { useTranslation } from '../i18n/context';
 import { useIsDesktop } from '../hooks/useBreakpoint';
+import { useVaporPressure } from '../hooks/useVaporPressure';
 import { localizedName } from '../i18n/localizedName';
 import { Section, Field, ResultRow, inputStyle, smallBtnStyle } from '../components/FormLayout';
+import { RheologyFields } from '../components/RheologyFields';
+import { HeatLossFields } from '../components/HeatLossFields';
+import { TransientFields } from '../components/TransientFields';
+import { TransientEnvelopeChart } from '../components/TransientEnvelopeChart';
+import { VaporPressureField } from '../components/VaporPressureField';
+import { FlowElementFields, FlowElementSummaryRow } from '../components/FlowElementFields';
+import { WarningPanel } from '../components/WarningPanel';
 import { formatNum, formatPa } from '../components/formatters';
-import { SystemResult, SegmentResult } from '@domain/types';
+import { SystemResult, SegmentResult, FrictionFactorMethod, FRICTION_FACTOR_METHODS, FittingMethod, FITTING_METHODS, Rheology, HeatLossModel, FluidProperties } from '@domain/types';
 import { getFluidProperties } from '@domain/fluid/fluidProperties';
 import { getSolutionProperties } from '@domain/fluid/aqueousSolution';
 import { RouteNode, RouteConversionConfig, ElbowConnectionType, RouteAnalysis } from '@domain/route/types';
+import { SurgeConditions, PipeAnchorage, PIPE_ANCHORAGES, WaterHammerResult, TransientSettings, TransientResult } from '@domain/transient/types';
 import { analyzeRoute } from '@domain/route/routeToSegments';
+import { findFlowElement } from '@domain/fittings/flowElement';
+import { calcSuctionLine, ResistanceCurvePoint } from '@domain/system/pumpSelection';
 import {
-  waterData, darby3kData, entranceExitData, getAvailableFittings, getAvailableFluids,
+  waterData, darby3kData, entranceExitData, craneData, hooperData, getAvailableFittings, getAvailableFluids,
   getFluidData, getFluidTempRange, getFluidEntry, getSolutionInput, getFluidRefLabel,
   FluidId, SolutionId,
 } from '@infrastructure/dataLoader';
 import type { SolutionFluidEntry } from '@infrastructure/dataLoader';
 import { getAvailableSizes, getAvailableSchedules, resolvePipeSpec, PipeStandardKey } from '@infrastructure/pipeSpecResolver';
-import { getAvailableMaterials, resolveMaterial } from '@infrastructure/materialResolver';
-import { calcRoute } from '@application/calcRoute';
+import { getAvailableMaterials, resolveMaterial, resolvePipeWall } from '@infrastructure/materialResolver';
+import { calcRoute, calcRouteSystemCurve } from '@application/calcRoute';
+import { calcRouteSurge } from '@application/calcRouteSurge';
+import { calcRouteTransient } from '@application/calcRouteTransient';
+import { calcFlowElementBore } from '@application/calcFlowElementBore';
 import { RouteViews } from '../views/RouteViews';
 import { RouteProjectData } from '@infrastructure/persistence/projectFile';
 import type { PumpSelectionInput, PumpResultSummary } from './PumpChart';
@@ -33,6 +47,7 @@ interface FittingRow {
   quantity: number;
   customK?: number;
   customCv?: number;
+  boreDiameter?: number;
 }
 
 interface NodeFormState {
@@ -43,6 +58,15 @@ interface NodeFormState {
   fittingRows: FittingRow[];
 }
 
+/** 水撃評価の有効化時の初期値（水 20 °C の体積弾性係数 2.19 GPa） */
+const DEFAULT_SURGE: SurgeConditions = {
+  closureTime_s: 5,
+  operatingPressure_kpa: 500,
+  designPressure_kpa: 1000,
+  bulkModulus_gpa: 2.19,
+  anchorage: 'anchored',
+};
+
 let nodeIdCounter = 0;
 function createDefaultNode(x = 0, y = 0, z = 0): NodeFormState {
   return { id: `node_${++nodeIdCounter}`, x, y, z, fittingRows: [] };
@@ -55,7 +79,7 @@ function createNodeFromData(nd: RouteProjectData['nodes'][number]): NodeFormStat
     x: nd.x,
     y: nd.y,
     z: nd.z,
-    fittingRows: nd.fittings.map(f => ({ fittingId: f.fittingId, quantity: f.quantity, customK: f.kOverride, customCv: f.cvOverride })),
+    fittingRows: nd.fittings.map(f => ({ fittingId: f.fittingId, quantity: f.quantity, customK: f.kOverride, customCv: f.cvOverride, boreDiameter: f.boreDiameter_mm })),
   };
 }
 
@@ -89,6 +113,8 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
   const fluidEntry = useMemo(() => getFluidEntry(fluidId), [fluidId]);
   const isSolution = fluidEntry.kind === 'solution';
   const solutionEntry = isSolution ? fluidEntry as SolutionFluidEntry : null;
+  const vaporPressureState = useVaporPressure(fluidId, temperature, concentration);
+  const { vaporPressure } = vaporPressureState;
 
   // Pipe specification (route-wide)
   const [pipeStandard, setPipeStandard] = useState<PipeStandardKey>(
@@ -104,6 +130,15 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
   );
   const [use90LR, setUse90LR] = useState(initialData?.use90LongRadius ?? true);
 
+  // Calculation method
+  const [frictionMethod, setFrictionMethod] = useState<FrictionFactorMethod>(initialData?.frictionMethod ?? 'churchill');
+  const [fittingMethod, setFittingMethod] = useState<FittingMethod>(initialData?.fittingMethod ?? '3k');
+  const [rheology, setRheology] = useState<Rheology | null>(initialData?.rheology ?? null);
+  const [heatLoss, setHeatLoss] = useState<HeatLossModel | null>(initialData?.heatLoss ?? null);
+  const [surge, setSurge] = useState<SurgeConditions | null>(initialData?.surge ?? null);
+  const [transient, setTransient] = useState<TransientSettings | null>(initialData?.transient ?? null);
+  const [pumpInletNodeId, setPumpInletNodeId] = useState<string | null>(initialData?.pumpInletNodeId ?? null);
+
   // Node array with undo/redo support
   const initialNodes = useMemo(() =>
     initialData?.nodes.map(n => createNodeFromData(n))
@@ -123,9 +158,17 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
 
   // Result
   const [result, setResult] = useState<SystemResult | null>(null);
+  // ポンプ選定に渡す実抵抗曲線（再計算できなければ 2 乗近似に任せる）
+  const [systemCurve, setSystemCurve] = useState<ResistanceCurvePoint[] | null>(null);
+  const [systemCurveError, setSystemCurveError] = useState<string | null>(null);
+  const [surgeResult, setSurgeResult] = useState<WaterHammerResult | null>(null);
+  const [transientResult, setTransientResult] = useState<TransientResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [lastCalcSnapshot, setLastCalcSnapshot] = useState<ExplanationSnapshot | null>(null);
 
+  // ポンプ入口ノードより上流の区間（ノード i → i+1, i < pumpInletIndex）を吸込み側とする
+  const pumpInletIndex = pumpInletNodeId !== null ? nodes.findIndex(n => n.id === pumpInletNodeId) : -1;
+
   useImperativeHandle(ref, () => ({
     getProjectData(): RouteProjectData {
       return {
@@ -148,13 +191,21 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
             quantity: r.quantity,
             ...(r.customK != null ? { kOverride: r.customK } : {}),
             ...(r.customCv != null ? { cvOverride: r.customCv } : {}),
+            ...(r.boreDiameter != null ? { boreDiameter_mm: r.boreDiameter } : {}),
           })),
         })),
+        frictionMethod,
+        fittingMethod,
+        ...(rheology ? { rheology } : {}),
+        ...(heatLoss ? { heatLoss } : {}),
+        ...(surge ? { surge } : {}),
+        ...(transient ? { transient } : {}),
+        ...(pumpInletIndex > 0 ? { pumpInletNodeId: nodes[pumpInletIndex].id } : {}),
       };
     },
   }));
 
-  const availableFittings = useMemo(() => getAvailableFittings(), []);
+  const availableFittings = useMemo(() => getAvailableFittings(fittingMethod), [fittingMethod]);
   const materials = useMemo(() => getAvailableMaterials(), []);
   const fittingDescMap = useMemo(() => {
     const map = new Map<string, string>();
@@ -184,6 +235,7 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
           quantity: r.quantity,
           ...(r.fittingId === 'custom_k' && r.customK != null ? { kOverride: r.customK } : {}),
           ...(r.fittingId === 'custom_cv' && r.customCv != null ? { cvOverride: r.customCv } : {}),
+          ...(findFlowElement(r.fittingId) && r.boreDiameter != null ? { boreDiameter_mm: r.boreDiameter } : {}),
         })),
     })),
     [nodes]
@@ -307,9 +359,66 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
     return () => window.removeEventListener('keydown', handler);
   }, [undo, redo]);
 
+  // 熱損失モデル使用時は区間ごとの平均温度で同じ流体の物性を再取得する
+  const resolveFluid = (temp_c: number): FluidProperties => {
+    let props: FluidProperties;
+    if (isSolution) {
+      const solInput = getSolutionInput(fluidId as SolutionId);
+      props = getSolutionProperties(temp_c, concentration, solutionEntry!.concentrationUnit, solInput);
+    } else {
+      const fluidData = getFluidData(fluidId);
+      props = getFluidProperties(temp_c, fluidData, { source: fluidData.referenceId });
+    }
+    return rheology ? { ...props, rheology } : props;
+  };
+
+  // ポンプ入口ノードが指定されていれば NPSHa 用の吸込み条件も渡す
+  const buildPumpInput = (
+    res: SystemResult, curve: ResistanceCurvePoint[] | null, curveError: string | null
+  ): PumpSelectionInput => ({
+    designFlow_m3h: flowRate,
+    staticHead_m: res.head_elevation_total_m,
+    frictionHead_m: res.head_friction_total_m + res.head_fittings_total_m,
+    fluidId,
+    temperature_c: temperature,
+    ...(isSolution ? { concentration } : {}),
+    ...(pumpInletIndex > 0 ? { suction: calcSuctionLine(res.segmentResults.slice(0, pumpInletIndex)) } : {}),
+    ...(curve ? { systemCurve: curve } : {}),
+    ...(curveError ? { systemCurveError: curveError } : {}),
+    sourceTab: 'route',
+  });
+
+  const handleSizeBore = (index: number, fittingIndex: number, targetDp_kpa: number, maxFlowRate_m3h: number) => {
+    setError(null);
+
+    try {
+      const pipe = resolvePipeSpec(pipeStandard, nominalSize, schedule);
+      if (!pipe) throw new Error('Pipe specification not found');
+
+      const detail = calcFlowElementBore(
+        {
+          elementId: nodes[index].fittingRows[fittingIndex].fittingId,
+          pipe,
+          temperature_c: temperature,
+          maxFlowRate_m3h,
+          targetDp_kpa,
+          fluid: resolveFluid(temperature),
+        },
+        waterData
+      );
+      const fittingRows = [...nodes[index].fittingRows];
+      fittingRows[fittingIndex] = { ...fittingRows[fittingIndex], boreDiameter: Number(detail.bore_mm.toFixed(2)) };
+      updateNode(index, { fittingRows });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
   const handleCalculate = () => {
     setError(null);
     setResult(null);
+    setSurgeResult(null);
+    setTransientResult(null);
 
     try {
       const pipe = resolvePipeSpec(pipeStandard, nominalSize, schedule);
@@ -319,28 +428,44 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
 
       if (routeNodes.length < 2) throw new Error(t('route.min_nodes'));
 
-      let fluid;
-      if (isSolution) {
-        const solInput = getSolutionInput(fluidId as SolutionId);
-        fluid = getSolutionProperties(temperature, concentration, solutionEntry!.concentrationUnit, solInput);
-      } else {
-        const fluidData = getFluidData(fluidId);
-        fluid = getFluidProperties(temperature, fluidData, { source: fluidData.referenceId });
-      }
+      const fluid = resolveFluid(temperature);
 
-      const res = calcRoute(
-        {
-          temperature_c: temperature,
-          flowRate_m3h: flowRate,
-          route: { nodes: routeNodes },
-          pipe,
-          material,
-          conversionConfig,
-          fluid,
-        },
-        waterData, darby3kData, entranceExitData
-      );
+      const calcInput = {
+        temperature_c: temperature,
+        flowRate_m3h: flowRate,
+        route: { nodes: routeNodes },
+        pipe,
+        material,
+        conversionConfig,
+        fluid,
+        frictionMethod,
+        fittingMethod,
+        ...(heatLoss ? { heatLoss, resolveFluid } : {}),
+      };
+      const res = calcRoute(calcInput, waterData, darby3kData, entranceExitData, craneData, hooperData);
       setResult(res);
+      // 全流量での再計算に失敗した場合は Q² 近似に戻し、その理由をポンプタブに表示する
+      let curve: ResistanceCurvePoint[] | null;
+      let curveError: string | null = null;
+      try {
+        curve = calcRouteSystemCurve(calcInput, waterData, darby3kData, entranceExitData, craneData, hooperData);
+      } catch (e) {
+        curve = null;
+        curveError = e instanceof Error ? e.message : String(e);
+      }
+      setSystemCurve(curve);
+      setSystemCurveError(curveError);
+
+      if (surge || transient) {
+        const wall = resolvePipeWall(materialId);
+        if (!wall) throw new Error('Elastic modulus not found for material');
+        if (surge) {
+          setSurgeResult(calcRouteSurge({ route: { nodes: routeNodes }, pipe, wall, fluid, conditions: surge }, res));
+        }
+        if (transient) {
+          setTransientResult(calcRouteTransient({ route: { nodes: routeNodes }, pipe, wall, fluid, vaporPressure_kpa: vaporPressure, settings: transient }, res));
+        }
+      }
 
       // Snapshot from first segment for explanation tab
       if (res.segmentResults.length > 0) {
@@ -351,6 +476,8 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
           length_m: totalLength > 0 ? res.head_friction_total_m / res.segmentResults.length : 10,
           elevation_m: res.head_elevation_total_m,
           fittings: [],
+          frictionMethod,
+          fittingMethod,
           result: firstSeg,
         });
       }
@@ -358,14 +485,7 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
 
       // Auto-update pump if pump result already exists
       if (pumpResult && onUpdatePumpSilently) {
-        onUpdatePumpSilently({
-          designFlow_m3h: flowRate,
-          staticHead_m: res.head_elevation_total_m,
-          frictionHead_m: res.head_friction_total_m + res.head_fittings_total_m,
-          fluidId,
-          temperature_c: temperature,
-          sourceTab: 'route',
-        });
+        onUpdatePumpSilently(buildPumpInput(res, curve, curveError));
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e));
@@ -408,6 +528,8 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
           </span>
         </Field>
       )}
+      <RheologyFields value={rheology} onChange={setRheology} />
+      <HeatLossFields value={heatLoss} onChange={setHeatLoss} needsSpecificHeat={isSolution} />
       <Field label={t('flow.rate')}>
         <input type="number" value={flowRate} onChange={e => setFlowRate(Number(e.target.value))}
           min={0} step={0.1} style={inputStyle} /> {t('unit.m3h')}
@@ -500,6 +622,8 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
                 fittingRows={node.fittingRows}
                 availableFittings={availableFittings}
                 onChange={fittingRows => updateNode(i, { fittingRows })}
+                flowRate={flowRate}
+                onSizeBore={(fi, dp, q) => handleSizeBore(i, fi, dp, q)}
                 t={t}
                 locale={locale}
               />
@@ -513,6 +637,15 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
       }}>
         + {t('route.add_node')}
       </button>
+      <Field label={t('route.pump_inlet_node')}>
+        <select value={pumpInletIndex > 0 ? nodes[pumpInletIndex].id : ''}
+          onChange={e => setPumpInletNodeId(e.target.value || null)} style={{ ...inputStyle, width: '100%' }}>
+          <option value="">{t('route.pump_inlet_none')}</option>
+          {nodes.slice(1).map((node, i) => (
+            <option key={node.id} value={node.id}>N{i + 2}</option>
+          ))}
+        </select>
+      </Field>
     </Section>
   );
 
@@ -533,6 +666,73 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
     </Section>
   );
 
+  const methodSection = (
+    <Section title={t('method.title')}>
+      <Field label={t('method.friction')}>
+        <select value={frictionMethod} onChange={e => setFrictionMethod(e.target.value as FrictionFactorMethod)} style={{ ...inputStyle, width: '100%' }}>
+          {FRICTION_FACTOR_METHODS.map(m => (
+            <option key={m} value={m}>{t(`friction.method.${m}`)}</option>
+          ))}
+        </select>
+      </Field>
+      <Field label={t('method.fittings')}>
+        <select value={fittingMethod} onChange={e => setFittingMethod(e.target.value as FittingMethod)} style={{ ...inputStyle, width: '100%' }}>
+          {FITTING_METHODS.map(m => (
+            <option key={m} value={m}>{t(`fitting.method.${m}`)}</option>
+          ))}
+        </select>
+      </Field>
+    </Section>
+  );
+
+  const surgeNumberInput = (current: number, step: number, apply: (v: number) => SurgeConditions) => (
+    <input type="number" value={current} onChange={e => setSurge(apply(Number(e.target.value)))}
+      min={0} step={step} style={inputStyle} />
+  );
+
+  const surgeSection = (
+    <Section title={t('surge.title')}>
+      <Field label={t('surge.mode')}>
+        <select value={surge ? 'on' : 'off'} onChange={e => setSurge(e.target.value === 'on' ? DEFAULT_SURGE : null)}
+          style={{ ...inputStyle, width: '100%' }}>
+          <option value="off">{t('surge.mode.off')}</option>
+          <option value="on">{t('surge.mode.on')}</option>
+        </select>
+      </Field>
+      {surge && (
+        <>
+          <Field label={t('surge.closure_time')}>
+            {surgeNumberInput(surge.closureTime_s, 0.1, v => ({ ...surge, closureTime_s: v }))} {t('unit.s')}
+          </Field>
+          <Field label={t('surge.operating_pressure')}>
+            {surgeNumberInput(surge.operatingPressure_kpa, 10, v => ({ ...surge, operatingPressure_kpa: v }))} {t('unit.kpa')}
+          </Field>
+          <Field label={t('surge.design_pressure')}>
+            {surgeNumberInput(surge.designPressure_kpa, 10, v => ({ ...surge, designPressure_kpa: v }))} {t('unit.kpa')}
+          </Field>
+          <Field label={t('surge.bulk_modulus')}>
+            {surgeNumberInput(surge.bulkModulus_gpa, 0.01, v => ({ ...surge, bulkModulus_gpa: v }))} {t('unit.gpa')}
+          </Field>
+          <Field label={t('surge.anchorage')}>
+            <select value={surge.anchorage} onChange={e => setSurge({ ...surge, anchorage: e.target.value as PipeAnchorage })}
+              style={{ ...inputStyle, width: '100%' }}>
+              {PIPE_ANCHORAGES.map(a => (
+                <option key={a} value={a}>{t(`surge.anchorage.${a}`)}</option>
+              ))}
+            </select>
+          </Field>
+        </>
+      )}
+    </Section>
+  );
+
+  const transientSection = (
+    <Section title={t('transient.title')}>
+      <TransientFields value={transient} onChange={setTransient} />
+      {transient && <VaporPressureField {...vaporPressureState} />}
+    </Section>
+  );
+
   const routeViewsSection = (
     <div>
       {analysis && routeNodes.length >= 2 && (
@@ -577,6 +777,8 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
     <>
       {error && <div style={{ color: 'red', marginTop: '12px', padding: '8px' }}>{error}</div>}
       {result && <SystemResultsView result={result} t={t} fittingDescMap={fittingDescMap} />}
+      {result && surgeResult && <SurgeResultsView result={surgeResult} t={t} />}
+      {result && transientResult && <TransientResultsView result={transientResult} t={t} />}
 
       {result && pumpResult && onGoToPumpTab && (
         <PumpQuickView
@@ -601,14 +803,7 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
       {result && onSendToPump && (
         <button
           onClick={() => {
-            onSendToPump({
-              designFlow_m3h: flowRate,
-              staticHead_m: result.head_elevation_total_m,
-              frictionHead_m: result.head_friction_total_m + result.head_fittings_total_m,
-              fluidId,
-              temperature_c: temperature,
-              sourceTab: 'route',
-            });
+            onSendToPump(buildPumpInput(result, systemCurve, systemCurveError));
           }}
           style={{
             marginTop: '12px', padding: '8px 20px', fontSize: '0.9em',
@@ -637,6 +832,8 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
         <button
           onClick={() => {
             setResult(null);
+            setSurgeResult(null);
+            setTransientResult(null);
             setError(null);
             setLastCalcSnapshot(null);
             onReset?.();
@@ -663,6 +860,9 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
           {pipeSettingsSection}
           {nodeTableSection}
           {elbowSettingsSection}
+          {methodSection}
+          {surgeSection}
+          {transientSection}
         </div>
 
         {/* Center column: route views (sticky) */}
@@ -686,6 +886,9 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
       {flowConditionsSection}
       {pipeSettingsSection}
       {elbowSettingsSection}
+      {methodSection}
+      {surgeSection}
+      {transientSection}
       {nodeTableSection}
       {routeViewsSection}
       {routeAnalysisSection}
@@ -697,10 +900,12 @@ export const RouteEditor = forwardRef<RouteEditorHandle, RouteEditorProps>(
 
 // ── Node Fittings (inline) ──
 
-function NodeFittings({ fittingRows, availableFittings, onChange, t, locale }: {
+function NodeFittings({ fittingRows, availableFittings, onChange, flowRate, onSizeBore, t, locale }: {
   fittingRows: FittingRow[];
   availableFittings: readonly { id: string; description: string; description_ja?: string; refValue: string }[];
   onChange: (rows: FittingRow[]) => void;
+  flowRate: number;
+  onSizeBore: (fittingIndex: number, targetDp_kpa: number, maxFlowRate_m3h: number) => void;
   t: (key: string) => string;
   locale: 'ja' | 'en';
 }) {
@@ -739,6 +944,14 @@ function NodeFittings({ fittingRows, availableFittings, onChange, t, locale }: {
           <input type="number" value={row.quantity} onChange={e => updateFitting(fi, 'quantity', Number(e.target.value))}
             min={0} style={{ ...inputStyle, width: '40px', fontSize: '0.8em' }} />
           <button onClick={() => removeFitting(fi)} style={{ padding: '2px 4px', cursor: 'pointer', fontSize: '0.7em' }}>{'\u2715'}</button>
+          {findFlowElement(row.fittingId) && (
+            <FlowElementFields
+              boreDiameter_mm={row.boreDiameter}
+              onBoreChange={v => updateFitting(fi, 'boreDiameter', v)}
+              defaultMaxFlow_m3h={flowRate}
+              onSizeBore={(dp, q) => onSizeBore(fi, dp, q)}
+            />
+          )}
         </div>
       ))}
       <button onClick={addFitting} style={{ padding: '2px 8px', cursor: 'pointer', fontSize: '0.75em', color: '#0066cc', background: 'none', border: '1px solid #0066cc', borderRadius: '3px' }}>
@@ -863,6 +1076,12 @@ function SystemResultsView({ result, t, fittingDescMap }: { result: SystemResult
         <div style={{ borderTop: '2px solid #333', marginTop: '8px', paddingTop: '8px' }}>
           <ResultRow label={t('system.dp_total')} value={formatPa(result.dp_total)} sub={`${formatNum(result.head_total_m, 3)} m`} bold />
         </div>
+        {result.outletTemperature_c !== undefined && (
+          <>
+            <ResultRow label={t('system.outlet_temperature')} value={`${formatNum(result.outletTemperature_c, 2)} ${t('unit.celsius')}`} />
+            <ResultRow label={t('system.heat_loss_total')} value={`${formatNum((result.heatLoss_total_w ?? 0) / 1000, 3)} kW`} />
+          </>
+        )}
       </Section>
 
       <Section title={t('system.per_segment')}>
@@ -905,6 +1124,57 @@ function SystemResultsView({ result, t, fittingDescMap }: { result: SystemResult
   );
 }
 
+// ── Surge (water hammer) Results ──
+
+function SurgeResultsView({ result, t }: { result: WaterHammerResult; t: (key: string) => string }) {
+  return (
+    <Section title={t('surge.title')}>
+      <ResultRow label={t('surge.wave_speed')} value={`${formatNum(result.waveSpeed_m_s, 0)} ${t('unit.ms')}`} />
+      <ResultRow label={t('surge.period')} value={`${formatNum(result.period_s, 3)} ${t('unit.s')}`} />
+      <ResultRow label={t('surge.closure_type')} value={t(`surge.closure.${result.closureType}`)} />
+      <ResultRow label={t('surge.joukowsky')} value={formatPa(result.joukowskySurge_pa)} />
+      <ResultRow label={t('surge.surge')} value={formatPa(result.surge_pa)} sub={`${formatNum(result.surge_m, 1)} m`} />
+      <div style={{ borderTop: '2px solid #333', marginTop: '8px', paddingTop: '8px' }}>
+        <ResultRow label={t('surge.peak_pressure')} value={formatPa(result.peakPressure_pa)} bold />
+        <ResultRow label={t('surge.design_pressure')} value={formatPa(result.designPressure_pa)} />
+      </div>
+      <WarningPanel warnings={result.warnings} t={t} />
+      <ul style={{ fontSize: '0.8em', color: '#666', margin: 0, paddingLeft: '20px' }}>
+        {[...new Set(result.references.map(r => r.source))].map((src, i) => (
+          <li key={i}>{src}</li>
+        ))}
+      </ul>
+    </Section>
+  );
+}
+
+// ── Transient (method of characteristics) Results ──
+
+function TransientResultsView({ result, t }: { result: TransientResult; t: (key: string) => string }) {
+  return (
+    <Section title={t('transient.title')}>
+      <ResultRow label={t('surge.wave_speed')} value={`${formatNum(result.waveSpeed_m_s, 0)} ${t('unit.ms')}`} />
+      <ResultRow label={t('surge.period')} value={`${formatNum(result.period_s, 3)} ${t('unit.s')}`} />
+      <ResultRow label={t('transient.time_step')} value={`${formatNum(result.timeStep_s, 4)} ${t('unit.s')}`}
+        sub={`${result.reachCount} ${t('transient.reaches')}`} />
+      <div style={{ borderTop: '2px solid #333', marginTop: '8px', paddingTop: '8px' }}>
+        <ResultRow label={t('transient.max_pressure')} value={formatPa(result.maxPressure_pa)} bold />
+        <ResultRow label={t('transient.min_pressure')} value={formatPa(result.minPressure_pa)} bold />
+        <ResultRow label={t('transient.vapor_pressure')} value={formatPa(result.vaporPressure_pa)} />
+      </div>
+      <div style={{ marginTop: '12px' }}>
+        <TransientEnvelopeChart result={result} t={t} />
+      </div>
+      <WarningPanel warnings={result.warnings} t={t} />
+      <ul style={{ fontSize: '0.8em', color: '#666', margin: 0, paddingLeft: '20px' }}>
+        {[...new Set(result.references.map(r => r.source))].map((src, i) => (
+          <li key={i}>{src}</li>
+        ))}
+      </ul>
+    </Section>
+  );
+}
+
 function SegmentResultDetail({ result, t, fittingDescMap }: { result: SegmentResult; t: (key: string) => string; fittingDescMap: Map<string, string> }) {
   return (
     <div>
@@ -912,6 +1182,14 @@ function SegmentResultDetail({ result, t, fittingDescMap }: { result: SegmentRes
       <ResultRow label={t('flow.reynolds')} value={formatNum(result.reynolds, 0)} />
       <ResultRow label={t('flow.regime')} value={t(`flow.regime.${result.flowRegime}`)} />
       <ResultRow label={t('results.friction_factor')} value={`f = ${formatNum(result.frictionFactor, 5)}`} />
+      <ResultRow label={t('results.friction_factor_method')} value={t(`friction.method.${result.frictionFactorMethod}`)} />
+      {result.thermal && (
+        <ResultRow
+          label={t('results.temperature_in_out')}
+          value={`${formatNum(result.thermal.inletTemperature_c, 2)} → ${formatNum(result.thermal.outletTemperature_c, 2)} ${t('unit.celsius')}`}
+          sub={`${t('results.heat_loss')} ${formatNum(result.thermal.heatLoss_w / 1000, 3)} kW`}
+        />
+      )}
 
       <hr style={{ margin: '8px 0', border: 'none', borderTop: '1px solid #eee' }} />
 
@@ -935,12 +1213,15 @@ function SegmentResultDetail({ result, t, fittingDescMap }: { result: SegmentRes
           </thead>
           <tbody>
             {result.fittingDetails.map((fd, i) => (
-              <tr key={i} style={{ borderBottom: '1px solid #eee' }}>
-                <td style={{ padding: '3px' }}>{fd.id.startsWith('custom_') ? fd.description : (fittingDescMap.get(fd.id) ?? fd.description)}</td>
-                <td style={{ textAlign: 'right', padding: '3px' }}>{fd.quantity}</td>
-                <td style={{ textAlign: 'right', padding: '3px' }}>{formatNum(fd.k_value, 4)}</td>
-                <td style={{ textAlign: 'right', padding: '3px' }}>{formatPa(fd.dp_pa)}</td>
-              </tr>
+              <Fragment key={i}>
+                <tr style={{ borderBottom: '1px solid #eee' }}>
+                  <td style={{ padding: '3px' }}>{fd.id.startsWith('custom_') ? fd.description : (fittingDescMap.get(fd.id) ?? fd.description)}</td>
+                  <td style={{ textAlign: 'right', padding: '3px' }}>{fd.quantity}</td>
+                  <td style={{ textAlign: 'right', padding: '3px' }}>{formatNum(fd.k_value, 4)}</td>
+                  <td style={{ textAlign: 'right', padding: '3px' }}>{formatPa(fd.dp_pa)}</td>
+                </tr>
+                {fd.flowElement && <FlowElementSummaryRow detail={fd.flowElement} colSpan={4} t={t} />}
+              </Fragment>
             ))}
           </tbody>
         </table>
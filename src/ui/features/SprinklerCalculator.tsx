@@ -0,0 +1,520 @@
+import { useState, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { useTranslation } from '../i18n/context';
+import { useIsMobile } from '../hooks/useBreakpoint';
+import { localizedName } from '../i18n/localizedName';
+import { Section, Field, ResultRow, inputStyle, smallBtnStyle } from '../components/FormLayout';
+import { formatNum } from '../components/formatters';
+import { WarningPanel } from '../components/WarningPanel';
+import { SprinklerSupplyChart } from '../components/SprinklerSupplyChart';
+import {
+  SprinklerFittingType, SPRINKLER_FITTING_TYPES, SprinklerNode, SprinklerHead, SprinklerDesignBasis,
+  WaterSupplyTest, SprinklerPipe, SprinklerSystemResult,
+} from '@domain/sprinkler/types';
+import { waterData, sprinklerFittingData } from '@infrastructure/dataLoader';
+import { getAvailableSizes, getAvailableSchedules, resolvePipeSpec, PipeStandardKey } from '@infrastructure/pipeSpecResolver';
+import { getAvailableMaterials, resolveMaterial } from '@infrastructure/materialResolver';
+import { calcSprinklerDemand } from '@application/calcSprinklerDemand';
+import { SprinklerProjectData, SprinklerPipeData } from '@infrastructure/persistence/projectFile';
+
+export interface SprinklerCalculatorHandle {
+  getProjectData(): SprinklerProjectData;
+}
+
+export interface SprinklerCalculatorProps {
+  initialData?: SprinklerProjectData;
+  onCalculated?: () => void;
+  onReset?: () => void;
+}
+
+// 既定値: 供給点 → 立管 → 分岐点 T → 2 本の枝管にヘッド 3 個
+const DEFAULT_NODES: SprinklerNode[] = [
+  { id: 'S', elevation_m: 0 },
+  { id: 'T', elevation_m: 4 },
+  { id: 'A1', elevation_m: 4 },
+  { id: 'A2', elevation_m: 4 },
+  { id: 'B1', elevation_m: 4 },
+];
+
+const DEFAULT_PIPES: SprinklerPipeData[] = [
+  { id: 'P1', upstreamNodeId: 'S', downstreamNodeId: 'T', nominalSize: '2', length_m: 15, fittings: [{ type: 'elbow_90', quantity: 1 }, { type: 'gate_valve', quantity: 1 }] },
+  { id: 'P2', upstreamNodeId: 'T', downstreamNodeId: 'A1', nominalSize: '1-1/4', length_m: 3, fittings: [{ type: 'tee_branch', quantity: 1 }] },
+  { id: 'P3', upstreamNodeId: 'A1', downstreamNodeId: 'A2', nominalSize: '1', length_m: 3, fittings: [] },
+  { id: 'P4', upstreamNodeId: 'T', downstreamNodeId: 'B1', nominalSize: '1', length_m: 3, fittings: [{ type: 'tee_branch', quantity: 1 }] },
+];
+
+const DEFAULT_HEADS: SprinklerHead[] = [
+  { id: 'H1', nodeId: 'A1', kFactor: 80, minPressure_kpa: 50, coverageArea_m2: 12 },
+  { id: 'H2', nodeId: 'A2', kFactor: 80, minPressure_kpa: 50, coverageArea_m2: 12 },
+  { id: 'H3', nodeId: 'B1', kFactor: 80, minPressure_kpa: 50, coverageArea_m2: 12 },
+];
+
+const DEFAULT_DESIGN: SprinklerDesignBasis = { density_mm_min: 5, areaOfOperation_m2: 36, hoseAllowance_lpm: 0 };
+
+const DEFAULT_SUPPLY: WaterSupplyTest = { staticPressure_kpa: 500, residualPressure_kpa: 350, residualFlow_lpm: 2000 };
+
+/** 次の連番 ID（prefix + 数値）を返す */
+function nextId(prefix: string, existing: readonly { id: string }[]): string {
+  let n = existing.length + 1;
+  while (existing.some(e => e.id === `${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+export const SprinklerCalculator = forwardRef<SprinklerCalculatorHandle, SprinklerCalculatorProps>(
+  function SprinklerCalculator({ initialData, onCalculated, onReset }, ref) {
+  const { t, locale } = useTranslation();
+
+  const [temperature, setTemperature] = useState(initialData?.temperature_c ?? 15);
+
+  // Pipe
+  const [pipeStandard, setPipeStandard] = useState<PipeStandardKey>(
+    (initialData?.pipeStandard as PipeStandardKey) ?? 'ansi'
+  );
+  const [schedule, setSchedule] = useState(initialData?.schedule ?? '40');
+  const [materialId, setMaterialId] = useState(initialData?.materialId ?? 'carbon_steel_new');
+
+  // Network
+  const [nodes, setNodes] = useState<SprinklerNode[]>(initialData?.nodes ?? DEFAULT_NODES);
+  const [pipes, setPipes] = useState<SprinklerPipeData[]>(initialData?.pipes ?? DEFAULT_PIPES);
+  const [heads, setHeads] = useState<SprinklerHead[]>(initialData?.heads ?? DEFAULT_HEADS);
+  const [supplyNodeId, setSupplyNodeId] = useState(initialData?.supplyNodeId ?? 'S');
+
+  // Design basis and water supply
+  const [design, setDesign] = useState<SprinklerDesignBasis>(initialData?.design ?? DEFAULT_DESIGN);
+  const [supplyEnabled, setSupplyEnabled] = useState(initialData ? initialData.supply !== undefined : true);
+  const [supply, setSupply] = useState<WaterSupplyTest>(initialData?.supply ?? DEFAULT_SUPPLY);
+
+  // Result
+  const [result, setResult] = useState<SprinklerSystemResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    getProjectData(): SprinklerProjectData {
+      return {
+        temperature_c: temperature,
+        pipeStandard,
+        schedule,
+        materialId,
+        nodes,
+        pipes: pipes.map(p => ({ ...p, fittings: p.fittings.filter(f => f.quantity > 0) })),
+        heads,
+        supplyNodeId,
+        design,
+        ...(supplyEnabled ? { supply } : {}),
+      };
+    },
+  }));
+
+  const pipeSizes = useMemo(() => getAvailableSizes(pipeStandard), [pipeStandard]);
+  const schedules = useMemo(() => getAvailableSchedules(pipeStandard, '2'), [pipeStandard]);
+  // Hazen-Williams C 係数が定義された材質のみ選択肢とする
+  const materials = useMemo(() => getAvailableMaterials().flatMap(m => {
+    const c = resolveMaterial(m.id)?.hazenWilliamsC;
+    return c !== undefined ? [{ ...m, c }] : [];
+  }), []);
+
+  const handleCalculate = () => {
+    setError(null);
+    setResult(null);
+
+    try {
+      const material = resolveMaterial(materialId);
+      if (!material) throw new Error('Material not found');
+
+      const resolvedPipes: SprinklerPipe[] = pipes.map(p => {
+        const pipe = resolvePipeSpec(pipeStandard, p.nominalSize, schedule);
+        if (!pipe) throw new Error(`Pipe specification not found: ${p.id} (${p.nominalSize})`);
+        return { ...p, pipe, fittings: p.fittings.filter(f => f.quantity > 0) };
+      });
+
+      const res = calcSprinklerDemand(
+        {
+          temperature_c: temperature,
+          nodes,
+          pipes: resolvedPipes,
+          heads,
+          supplyNodeId,
+          material,
+          design,
+          ...(supplyEnabled ? { supply } : {}),
+        },
+        waterData, sprinklerFittingData
+      );
+      setResult(res);
+      onCalculated?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // ── Node / pipe / head editing ──
+
+  const updateNode = (index: number, patch: Partial<SprinklerNode>) => {
+    setNodes(nodes.map((n, i) => (i === index ? { ...n, ...patch } : n)));
+  };
+
+  const updatePipe = (index: number, patch: Partial<SprinklerPipeData>) => {
+    setPipes(pipes.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const updatePipeFitting = (pipeIndex: number, fittingIndex: number, patch: { type?: SprinklerFittingType; quantity?: number }) => {
+    const fittings = pipes[pipeIndex].fittings.map((f, i) => (i === fittingIndex ? { ...f, ...patch } : f));
+    updatePipe(pipeIndex, { fittings });
+  };
+
+  const updateHead = (index: number, patch: Partial<SprinklerHead>) => {
+    setHeads(heads.map((h, i) => (i === index ? { ...h, ...patch } : h)));
+  };
+
+  const addPipe = () => {
+    const last = pipes[pipes.length - 1];
+    setPipes([...pipes, {
+      id: nextId('P', pipes),
+      upstreamNodeId: last?.downstreamNodeId ?? supplyNodeId,
+      downstreamNodeId: nodes[nodes.length - 1]?.id ?? '',
+      nominalSize: last?.nominalSize ?? '1',
+      length_m: 3,
+      fittings: [],
+    }]);
+  };
+
+  const addHead = () => {
+    const last = heads[heads.length - 1];
+    setHeads([...heads, {
+      id: nextId('H', heads),
+      nodeId: nodes[nodes.length - 1]?.id ?? '',
+      kFactor: last?.kFactor ?? 80,
+      minPressure_kpa: last?.minPressure_kpa ?? 50,
+      coverageArea_m2: last?.coverageArea_m2 ?? 12,
+    }]);
+  };
+
+  const nodeOptions = nodes.map(n => <option key={n.id} value={n.id}>{n.id}</option>);
+  const numberInput = (value: number, onChange: (v: number) => void, width: string, step = 1, min?: number) => (
+    <input type="number" value={value} onChange={e => onChange(Number(e.target.value))}
+      step={step} min={min} style={{ ...inputStyle, width }} />
+  );
+
+  const isMobile = useIsMobile();
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr', gap: isMobile ? '12px' : '20px' }}>
+        {/* Left column: inputs */}
+        <div>
+          {/* Water and pipe */}
+          <Section title={t('sprinkler.pipe_settings')}>
+            <Field label={t('fluid.temperature')}>
+              <input type="number" value={temperature} onChange={e => setTemperature(Number(e.target.value))}
+                min={0} max={100} style={inputStyle} /> {t('unit.celsius')}
+            </Field>
+            <Field label={t('pipe.standard')}>
+              <select value={pipeStandard} onChange={e => setPipeStandard(e.target.value as PipeStandardKey)} style={inputStyle}>
+                <option value="ansi">{t('pipe.standard.ansi')}</option>
+                <option value="jis-sgp">{t('pipe.standard.jis_sgp')}</option>
+              </select>
+            </Field>
+            {pipeStandard === 'ansi' && (
+              <Field label={t('pipe.schedule')}>
+                <select value={schedule} onChange={e => setSchedule(e.target.value)} style={inputStyle}>
+                  {schedules.map(s => <option key={s} value={s}>Sch {s}</option>)}
+                </select>
+              </Field>
+            )}
+            <Field label={t('pipe.material')}>
+              <select value={materialId} onChange={e => setMaterialId(e.target.value)} style={inputStyle}>
+                {materials.map(m => (
+                  <option key={m.id} value={m.id}>
+                    {localizedName(locale, m.name, m.name_ja)} (C={m.c})
+                  </option>
+                ))}
+              </select>
+            </Field>
+          </Section>
+
+          {/* Nodes */}
+          <Section title={t('sprinkler.nodes')}>
+            {nodes.map((node, i) => (
+              <div key={i} style={{ display: 'flex', gap: '8px', marginBottom: '4px', alignItems: 'center' }}>
+                <input type="text" value={node.id} onChange={e => updateNode(i, { id: e.target.value })}
+                  style={{ ...inputStyle, width: '70px' }} />
+                <span style={{ fontSize: '0.85em', color: '#555' }}>{t('sprinkler.elevation')}</span>
+                {numberInput(node.elevation_m, v => updateNode(i, { elevation_m: v }), '80px', 0.1)} {t('unit.m')}
+                <button onClick={() => setNodes(nodes.filter((_, j) => j !== i))} style={smallBtnStyle}>{'×'}</button>
+              </div>
+            ))}
+            <button onClick={() => setNodes([...nodes, { id: nextId('N', nodes), elevation_m: nodes[nodes.length - 1]?.elevation_m ?? 0 }])}
+              style={{ marginTop: '4px', padding: '4px 12px', cursor: 'pointer' }}>
+              + {t('sprinkler.add_node')}
+            </button>
+            <div style={{ marginTop: '8px' }}>
+              <Field label={t('sprinkler.supply_node')}>
+                <select value={supplyNodeId} onChange={e => setSupplyNodeId(e.target.value)} style={inputStyle}>
+                  {nodeOptions}
+                </select>
+              </Field>
+            </div>
+          </Section>
+
+          {/* Pipes */}
+          <Section title={t('sprinkler.pipes')}>
+            {pipes.map((p, i) => (
+              <div key={i} style={{ marginBottom: '8px', paddingBottom: '6px', borderBottom: '1px solid #eee' }}>
+                <div style={{ display: 'flex', gap: '6px', alignItems: 'center', flexWrap: 'wrap' }}>
+                  <input type="text" value={p.id} onChange={e => updatePipe(i, { id: e.target.value })}
+                    style={{ ...inputStyle, width: '50px' }} />
+                  <select value={p.upstreamNodeId} onChange={e => updatePipe(i, { upstreamNodeId: e.target.value })} style={inputStyle}>
+                    {nodeOptions}
+                  </select>
+                  {'→'}
+                  <select value={p.downstreamNodeId} onChange={e => updatePipe(i, { downstreamNodeId: e.target.value })} style={inputStyle}>
+                    {nodeOptions}
+                  </select>
+                  <select value={p.nominalSize} onChange={e => updatePipe(i, { nominalSize: e.target.value })} style={inputStyle}>
+                    {pipeSizes.map(s => <option key={s.nps} value={s.nps}>{s.nps} ({s.dn}A)</option>)}
+                  </select>
+                  {numberInput(p.length_m, v => updatePipe(i, { length_m: v }), '60px', 0.1, 0)} {t('unit.m')}
+                  <button onClick={() => setPipes(pipes.filter((_, j) => j !== i))} style={smallBtnStyle}>{'×'}</button>
+                </div>
+                {p.fittings.map((f, j) => (
+                  <div key={j} style={{ display: 'flex', gap: '6px', alignItems: 'center', margin: '4px 0 0 16px' }}>
+                    <select value={f.type} onChange={e => updatePipeFitting(i, j, { type: e.target.value as SprinklerFittingType })}
+                      style={{ ...inputStyle, flex: 1 }}>
+                      {SPRINKLER_FITTING_TYPES.map(type => (
+                        <option key={type} value={type}>{t(`sprinkler.fitting.${type}`)}</option>
+                      ))}
+                    </select>
+                    {numberInput(f.quantity, v => updatePipeFitting(i, j, { quantity: v }), '50px', 1, 0)}
+                    <button onClick={() => updatePipe(i, { fittings: p.fittings.filter((_, k) => k !== j) })}
+                      style={smallBtnStyle}>{'×'}</button>
+                  </div>
+                ))}
+                <button onClick={() => updatePipe(i, { fittings: [...p.fittings, { type: 'elbow_90', quantity: 1 }] })}
+                  style={{ ...smallBtnStyle, margin: '4px 0 0 16px' }}>
+                  + {t('fittings.add')}
+                </button>
+              </div>
+            ))}
+            <button onClick={addPipe} style={{ marginTop: '4px', padding: '4px 12px', cursor: 'pointer' }}>
+              + {t('sprinkler.add_pipe')}
+            </button>
+          </Section>
+
+          {/* Heads */}
+          <Section title={t('sprinkler.heads')}>
+            <div style={{ display: 'flex', gap: '6px', fontSize: '0.8em', color: '#888', marginBottom: '2px' }}>
+              <span style={{ width: '50px' }}>ID</span>
+              <span style={{ width: '70px' }}>{t('sprinkler.node')}</span>
+              <span style={{ width: '60px' }}>K</span>
+              <span style={{ width: '60px' }}>P_min ({t('unit.kpa')})</span>
+              <span style={{ width: '60px' }}>{t('sprinkler.coverage')} (m²)</span>
+            </div>
+            {heads.map((h, i) => (
+              <div key={i} style={{ display: 'flex', gap: '6px', marginBottom: '4px', alignItems: 'center' }}>
+                <input type="text" value={h.id} onChange={e => updateHead(i, { id: e.target.value })}
+                  style={{ ...inputStyle, width: '50px' }} />
+                <select value={h.nodeId} onChange={e => updateHead(i, { nodeId: e.target.value })} style={{ ...inputStyle, width: '70px' }}>
+                  {nodeOptions}
+                </select>
+                {numberInput(h.kFactor, v => updateHead(i, { kFactor: v }), '60px', 1, 0)}
+                {numberInput(h.minPressure_kpa, v => updateHead(i, { minPressure_kpa: v }), '60px', 1, 0)}
+                {numberInput(h.coverageArea_m2, v => updateHead(i, { coverageArea_m2: v }), '60px', 0.5, 0)}
+                <button onClick={() => setHeads(heads.filter((_, j) => j !== i))} style={smallBtnStyle}>{'×'}</button>
+              </div>
+            ))}
+            <div style={{ fontSize: '0.8em', color: '#888' }}>{t('sprinkler.k_hint')}</div>
+            <button onClick={addHead} style={{ marginTop: '4px', padding: '4px 12px', cursor: 'pointer' }}>
+              + {t('sprinkler.add_head')}
+            </button>
+          </Section>
+
+          {/* Design basis */}
+          <Section title={t('sprinkler.design')}>
+            <Field label={t('sprinkler.density')}>
+              {numberInput(design.density_mm_min, v => setDesign({ ...design, density_mm_min: v }), '100px', 0.1, 0)} mm/min
+            </Field>
+            <Field label={t('sprinkler.area_of_operation')}>
+              {numberInput(design.areaOfOperation_m2, v => setDesign({ ...design, areaOfOperation_m2: v }), '100px', 1, 0)} m²
+            </Field>
+            <Field label={t('sprinkler.hose_allowance')}>
+              {numberInput(design.hoseAllowance_lpm, v => setDesign({ ...design, hoseAllowance_lpm: v }), '100px', 10, 0)} {t('unit.lmin')}
+            </Field>
+          </Section>
+
+          {/* Water supply */}
+          <Section title={t('sprinkler.supply')}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '0.9em', marginBottom: '6px' }}>
+              <input type="checkbox" checked={supplyEnabled} onChange={e => setSupplyEnabled(e.target.checked)} />
+              {t('sprinkler.supply_enable')}
+            </label>
+            {supplyEnabled && (
+              <>
+                <Field label={t('sprinkler.static_pressure')}>
+                  {numberInput(supply.staticPressure_kpa, v => setSupply({ ...supply, staticPressure_kpa: v }), '100px', 10, 0)} {t('unit.kpa')}
+                </Field>
+                <Field label={t('sprinkler.residual_pressure')}>
+                  {numberInput(supply.residualPressure_kpa, v => setSupply({ ...supply, residualPressure_kpa: v }), '100px', 10, 0)} {t('unit.kpa')}
+                </Field>
+                <Field label={t('sprinkler.residual_flow')}>
+                  {numberInput(supply.residualFlow_lpm, v => setSupply({ ...supply, residualFlow_lpm: v }), '100px', 10, 0)} {t('unit.lmin')}
+                </Field>
+              </>
+            )}
+          </Section>
+
+          <button onClick={handleCalculate} style={{
+            marginTop: '16px', padding: '10px 24px', fontSize: '1em',
+            background: '#0066cc', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer',
+            width: '100%',
+          }}>
+            {t('action.calculate')}
+          </button>
+        </div>
+
+        {/* Right column: results */}
+        <div>
+          <Section title={t('results.title')}>
+            {error && <div style={{ color: 'red', marginBottom: '8px' }}>{error}</div>}
+            {result && <SprinklerResultsView result={result} supply={supplyEnabled ? supply : undefined} t={t} />}
+            {!result && !error && (
+              <p style={{ color: '#999' }}>{t('action.calculate')}...</p>
+            )}
+          </Section>
+
+          {result && (
+            <button
+              onClick={() => {
+                setResult(null);
+                setError(null);
+                onReset?.();
+              }}
+              style={{
+                marginTop: '8px', padding: '8px 20px', fontSize: '0.9em',
+                background: '#fff', color: '#c00', border: '2px solid #c00',
+                borderRadius: '6px', cursor: 'pointer', width: '100%',
+              }}
+            >
+              {t('action.reset')}
+            </button>
+          )}
+        </div>
+      </div>
+  );
+});
+
+function SprinklerResultsView({ result, supply, t }: {
+  result: SprinklerSystemResult;
+  supply?: WaterSupplyTest;
+  t: (key: string) => string;
+}) {
+  const cell: React.CSSProperties = { textAlign: 'right', padding: '3px 4px', whiteSpace: 'nowrap' };
+  const head: React.CSSProperties = { ...cell, fontWeight: 'normal', color: '#555' };
+
+  return (
+    <div>
+      <ResultRow label={t('sprinkler.most_remote_head')} value={result.mostRemoteHeadId} />
+      <ResultRow label={t('sprinkler.covered_area')} value={`${formatNum(result.coveredArea_m2, 1)} m²`} />
+      <ResultRow label={t('sprinkler.sprinkler_demand')} value={`${formatNum(result.sprinklerDemand_lpm, 1)} ${t('unit.lmin')}`} />
+      <ResultRow label={t('sprinkler.hose_allowance')} value={`${formatNum(result.hoseAllowance_lpm, 1)} ${t('unit.lmin')}`} />
+      <ResultRow label={t('sprinkler.total_demand')} value={`${formatNum(result.totalDemand_lpm, 1)} ${t('unit.lmin')}`} bold />
+      <ResultRow label={t('sprinkler.required_pressure')} value={`${formatNum(result.requiredPressure_kpa, 1)} ${t('unit.kpa')}`} bold />
+      {result.availablePressure_kpa !== undefined && result.safetyMargin_kpa !== undefined && (
+        <>
+          <ResultRow label={t('sprinkler.available_pressure')} value={`${formatNum(result.availablePressure_kpa, 1)} ${t('unit.kpa')}`} />
+          <ResultRow label={t('sprinkler.safety_margin')} value={`${formatNum(result.safetyMargin_kpa, 1)} ${t('unit.kpa')}`} bold />
+        </>
+      )}
+
+      {supply && (
+        <div style={{ marginTop: '12px' }}>
+          <SprinklerSupplyChart result={result} supply={supply} t={t} />
+        </div>
+      )}
+
+      {/* Hydraulic calculation table */}
+      <hr style={{ margin: '12px 0', border: 'none', borderTop: '1px solid #ddd' }} />
+      <h4 style={{ margin: '8px 0' }}>{t('sprinkler.calc_table')}</h4>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', fontSize: '0.8em', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ borderBottom: '1px solid #ccc' }}>
+              <th style={{ ...head, textAlign: 'left' }}>{t('sprinkler.pipe')}</th>
+              <th style={{ ...head, textAlign: 'left' }}>{t('sprinkler.node')}</th>
+              <th style={head}>q</th>
+              <th style={head}>Q</th>
+              <th style={head}>{t('pipe.nominal_size')}</th>
+              <th style={head}>C</th>
+              <th style={head}>L / F / T (m)</th>
+              <th style={head}>p_f (kPa/m)</th>
+              <th style={head}>P_t</th>
+              <th style={head}>P_e</th>
+              <th style={head}>P_f</th>
+              <th style={head}>P</th>
+              <th style={head}>V (m/s)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.rows.map(r => (
+              <tr key={r.pipeId} style={{ borderBottom: '1px solid #eee' }}>
+                <td style={{ ...cell, textAlign: 'left' }}>{r.pipeId}</td>
+                <td style={{ ...cell, textAlign: 'left' }}>{r.downstreamNodeId} {'→'} {r.upstreamNodeId}</td>
+                <td style={cell}>{formatNum(r.addedFlow_lpm, 1)}</td>
+                <td style={cell}>{formatNum(r.flow_lpm, 1)}</td>
+                <td style={cell}>{r.pipe.nps}</td>
+                <td style={cell}>{r.cFactor}</td>
+                <td style={cell}>{formatNum(r.length_m, 2)} / {formatNum(r.fittingLength_m, 2)} / {formatNum(r.totalLength_m, 2)}</td>
+                <td style={cell}>{formatNum(r.frictionLoss_kpa_m, 3)}</td>
+                <td style={cell}>{formatNum(r.pressureDownstream_kpa, 1)}</td>
+                <td style={cell}>{formatNum(r.elevationPressure_kpa, 1)}</td>
+                <td style={cell}>{formatNum(r.frictionPressure_kpa, 1)}</td>
+                <td style={{ ...cell, fontWeight: 'bold' }}>{formatNum(r.pressureUpstream_kpa, 1)}</td>
+                <td style={cell}>{formatNum(r.velocity_m_s, 2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ fontSize: '0.75em', color: '#888', marginTop: '4px' }}>{t('sprinkler.calc_table_hint')}</div>
+
+      {/* Heads */}
+      <h4 style={{ margin: '12px 0 8px' }}>{t('sprinkler.heads')}</h4>
+      <table style={{ width: '100%', fontSize: '0.85em', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ borderBottom: '1px solid #ccc' }}>
+            <th style={{ ...head, textAlign: 'left' }}>ID</th>
+            <th style={{ ...head, textAlign: 'left' }}>{t('sprinkler.node')}</th>
+            <th style={head}>{t('sprinkler.min_flow')} ({t('unit.lmin')})</th>
+            <th style={head}>{t('sprinkler.flow')} ({t('unit.lmin')})</th>
+            <th style={head}>P ({t('unit.kpa')})</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.heads.map(h => (
+            <tr key={h.headId} style={{ borderBottom: '1px solid #eee', fontWeight: h.headId === result.mostRemoteHeadId ? 'bold' : 'normal' }}>
+              <td style={{ ...cell, textAlign: 'left' }}>{h.headId}</td>
+              <td style={{ ...cell, textAlign: 'left' }}>{h.nodeId}</td>
+              <td style={cell}>{formatNum(h.minFlow_lpm, 1)}</td>
+              <td style={cell}>{formatNum(h.flow_lpm, 1)}</td>
+              <td style={cell}>{formatNum(h.pressure_kpa, 1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Warnings */}
+      {result.warnings.length > 0 && (
+        <>
+          <hr style={{ margin: '12px 0', border: 'none', borderTop: '1px solid #ddd' }} />
+          <WarningPanel warnings={result.warnings} t={t} />
+        </>
+      )}
+
+      {/* References */}
+      <hr style={{ margin: '12px 0', border: 'none', borderTop: '1px solid #ddd' }} />
+      <h4 style={{ margin: '8px 0' }}>{t('results.references')}</h4>
+      <ul style={{ fontSize: '0.8em', color: '#666', margin: 0, paddingLeft: '20px' }}>
+        {[...new Set(result.references.map(r => r.source))].map((src, i) => (
+          <li key={i}>{src}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -5,20 +5,27 @@
  *  1. 流体物性  2. 配管ジオメトリ  3. 流速  4. レイノルズ数
  *  5. 摩擦係数  6. 直管圧損  7. 継手圧損  8. 高低差
  *  9. 合計  10. ポンプ選定
+ * 粘性液で補正した場合は 11. ポンプ性能の粘度補正 を、
+ * 電動機を選定した場合は続けて 電動機選定と年間電力量 を追加する。
  */
 
 import { useMemo } from 'react';
 import { useTranslation } from '../../i18n/context';
 import { FormulaBlock } from './FormulaBlock';
 import type { ExplanationSnapshot, PumpExplanationSnapshot } from './types';
-
-import { GRAVITY } from '@domain/types';
-import { calcFlowArea, calcVelocity, calcReynolds, classifyFlow } from '@domain/pipe/pipeGeometry';
-import { churchillFrictionFactor } from '@domain/pipe/frictionFactor';
+import type { ViscosityCorrection } from '@domain/system/pumpViscosity';
+import type { MotorSelection } from '@domain/system/pumpMotor';
+import type { PumpEnergyResult } from '@domain/system/pumpEnergy';
+
+import { GRAVITY, FITTING_METHODS, FittingResult, FittingKComparisonSet, Rheology } from '@domain/types';
+import { calcFlowArea, calcVelocity, calcReynolds, classifyFlow, NEWTONIAN_CRITICAL_RE } from '@domain/pipe/pipeGeometry';
+import { calcNonNewtonianFlow, NonNewtonianFlowResult } from '@domain/pipe/nonNewtonian';
+import { calcFrictionFactor, calcFtFullyTurbulent } from '@domain/pipe/frictionFactor';
+import { calcHazenWilliamsFrictionFactor, calcHazenWilliamsGradient } from '@domain/pipe/hazenWilliams';
 import { calcStraightPipeLoss, pressureToHead } from '@domain/pipe/straightPipeLoss';
 import { calcElevationLoss } from '@domain/system/headLoss';
 import { calcNPSHa } from '@domain/system/pumpSelection';
-import { darby3kData, entranceExitData } from '@infrastructure/dataLoader';
+import { darby3kData, entranceExitData, craneData, hooperData } from '@infrastructure/dataLoader';
 import { formatNum, formatPa } from '../../components/formatters';
 
 interface ExplanationTabProps {
@@ -56,27 +63,33 @@ export function ExplanationTab({ snapshot, pumpSnapshot }: ExplanationTabProps)
     const id_m = id_mm / 1000;
     const area = calcFlowArea(id_mm);
     const velocity = calcVelocity(flowRate_m3s, area);
-    const reynolds = calcReynolds(fluid.density, velocity, id_m, fluid.viscosity);
-    const flowRegime = classifyFlow(reynolds);
+    // 非ニュートン流体は一般化 Re とレオロジー別の摩擦係数式（pressureDrop と同じ分岐）
+    const nonNewtonian = fluid.rheology
+      ? calcNonNewtonianFlow(fluid.rheology, fluid.density, velocity, id_mm)
+      : null;
+    const reynolds = nonNewtonian?.reynolds ?? calcReynolds(fluid.density, velocity, id_m, fluid.viscosity);
+    const criticalReynolds = nonNewtonian?.criticalReynolds ?? NEWTONIAN_CRITICAL_RE;
+    const flowRegime = nonNewtonian?.flowRegime ?? classifyFlow(reynolds);
     const relRoughness = material.roughness_mm / id_mm;
-    const frictionResult = churchillFrictionFactor(reynolds, material.roughness_mm, id_mm);
+    const frictionMethod = snapshot.frictionMethod ?? 'churchill';
+    const hazenWilliamsC = material.hazenWilliamsC;
+    const useHazenWilliams = !nonNewtonian && frictionMethod === 'hazen-williams' && flowRegime !== 'laminar';
+    // pressureDrop と同様、C 係数が未定義の材質では Hazen-Williams を評価できない
+    if (useHazenWilliams && hazenWilliamsC === undefined) return { hazenWilliamsCUnavailable: true as const };
+    const frictionResult = nonNewtonian?.friction
+      ?? (useHazenWilliams && hazenWilliamsC !== undefined
+        ? calcHazenWilliamsFrictionFactor(hazenWilliamsC, velocity, id_mm)
+        : calcFrictionFactor(frictionMethod, reynolds, material.roughness_mm, id_mm));
     const f = frictionResult.f;
     const dp_friction = calcStraightPipeLoss(f, length_m, id_mm, fluid.density, velocity);
     const head_friction = pressureToHead(dp_friction, fluid.density);
     const dp_elevation = calcElevationLoss(fluid.density, elevation_m);
     const dynamicPressure = fluid.density * velocity * velocity / 2;
 
-    // Churchill の中間値
-    const churchill_term1 = Math.pow(8 / reynolds, 12);
-    const churchill_innerA = Math.pow(7 / reynolds, 0.9) + 0.27 * relRoughness;
-    const churchill_A = Math.pow(2.457 * Math.log(1 / churchill_innerA), 16);
-    const churchill_B = Math.pow(37530 / reynolds, 16);
-
     return {
-      flowRate_m3s, id_mm, id_m, area, velocity, reynolds, flowRegime,
-      relRoughness, f, frictionMethod: frictionResult.method,
+      flowRate_m3s, id_mm, id_m, area, velocity, reynolds, criticalReynolds, flowRegime, nonNewtonian,
+      relRoughness, f, frictionMethod: frictionResult.method, frictionReference: frictionResult.reference.source,
       dp_friction, head_friction, dp_elevation, dynamicPressure,
-      churchill_term1, churchill_innerA, churchill_A, churchill_B,
     };
   }, [snapshot]);
 
@@ -116,6 +129,19 @@ export function ExplanationTab({ snapshot, pumpSnapshot }: ExplanationTabProps)
     );
   }
 
+  if ('hazenWilliamsCUnavailable' in calc) {
+    return (
+      <div style={{ padding: '40px 20px', textAlign: 'center', color: '#888' }}>
+        <p style={{ fontSize: '1.2em', marginBottom: '8px' }}>
+          {t('explain.hw_c_unavailable')}
+        </p>
+        <p style={{ fontSize: '0.9em' }}>
+          {t('explain.hw_c_unavailable_hint')}
+        </p>
+      </div>
+    );
+  }
+
   const s = snapshot;
   const c = calc;
 
@@ -137,6 +163,7 @@ export function ExplanationTab({ snapshot, pumpSnapshot }: ExplanationTabProps)
         substitutedTeX={[
           `\\rho = ${formatNum(s.fluid.density, 1)} \\;\\text{kg/m³}`,
           `\\mu = ${fmtE(s.fluid.viscosity)} \\;\\text{Pa·s}`,
+          ...(s.fluid.rheology ? [rheologyTeX(s.fluid.rheology)] : []),
         ]}
         variables={[
           { symbol: '\\rho', name: t('explain.var_density'), value: `${formatNum(s.fluid.density, 1)} kg/m³`, description: t('explain.var_density_desc') },
@@ -178,52 +205,32 @@ export function ExplanationTab({ snapshot, pumpSnapshot }: ExplanationTabProps)
       />
 
       {/* ── Section 4: レイノルズ数 ── */}
-      <FormulaBlock
-        step={4}
-        title={t('explain.s4_title')}
-        description={t('explain.s4_desc')}
-        symbolicTeX="Re = \\frac{\\rho V D}{\\mu}"
-        substitutedTeX={`Re = \\frac{${formatNum(s.fluid.density, 1)} \\times ${formatNum(c.velocity, 3)} \\times ${formatNum(c.id_m, 5)}}{${fmtE(s.fluid.viscosity)}} = ${formatNum(c.reynolds, 0)}`}
-        result={`Re = ${formatNum(c.reynolds, 0)}`}
-        note={`${t('explain.flow_regime')}: ${t(`flow.regime.${c.flowRegime}`)} (${
-          c.flowRegime === 'laminar' ? 'Re < 2,100' :
-          c.flowRegime === 'transitional' ? '2,100 ≤ Re < 4,000' :
-          'Re ≥ 4,000'
-        })`}
-        variables={[
-          { symbol: '\\rho', name: t('explain.var_density'), value: `${formatNum(s.fluid.density, 1)} kg/m³`, description: t('explain.var_density_ref') },
-          { symbol: 'V', name: t('explain.var_velocity'), value: `${formatNum(c.velocity, 3)} m/s`, description: t('explain.var_velocity_ref') },
-          { symbol: 'D', name: t('explain.var_diameter'), value: `${formatNum(c.id_m, 5)} m`, description: t('explain.var_diameter_ref') },
-          { symbol: '\\mu', name: t('explain.var_viscosity'), value: `${fmtSci(s.fluid.viscosity)} Pa·s`, description: t('explain.var_viscosity_ref') },
-        ]}
-      />
+      {c.nonNewtonian ? (
+        <NonNewtonianReynoldsSection snapshot={s} calc={c} flow={c.nonNewtonian} t={t} />
+      ) : (
+        <FormulaBlock
+          step={4}
+          title={t('explain.s4_title')}
+          description={t('explain.s4_desc')}
+          symbolicTeX="Re = \\frac{\\rho V D}{\\mu}"
+          substitutedTeX={`Re = \\frac{${formatNum(s.fluid.density, 1)} \\times ${formatNum(c.velocity, 3)} \\times ${formatNum(c.id_m, 5)}}{${fmtE(s.fluid.viscosity)}} = ${formatNum(c.reynolds, 0)}`}
+          result={`Re = ${formatNum(c.reynolds, 0)}`}
+          note={`${t('explain.flow_regime')}: ${t(`flow.regime.${c.flowRegime}`)} (${
+            c.flowRegime === 'laminar' ? 'Re < 2,100' :
+            c.flowRegime === 'transitional' ? '2,100 ≤ Re < 4,000' :
+            'Re ≥ 4,000'
+          })`}
+          variables={[
+            { symbol: '\\rho', name: t('explain.var_density'), value: `${formatNum(s.fluid.density, 1)} kg/m³`, description: t('explain.var_density_ref') },
+            { symbol: 'V', name: t('explain.var_velocity'), value: `${formatNum(c.velocity, 3)} m/s`, description: t('explain.var_velocity_ref') },
+            { symbol: 'D', name: t('explain.var_diameter'), value: `${formatNum(c.id_m, 5)} m`, description: t('explain.var_diameter_ref') },
+            { symbol: '\\mu', name: t('explain.var_viscosity'), value: `${fmtSci(s.fluid.viscosity)} Pa·s`, description: t('explain.var_viscosity_ref') },
+          ]}
+        />
+      )}
 
       {/* ── Section 5: 摩擦係数 ── */}
-      <FormulaBlock
-        step={5}
-        title={t('explain.s5_title')}
-        description={t('explain.s5_desc')}
-        symbolicTeX={[
-          'f = 8 \\left[ \\left(\\frac{8}{Re}\\right)^{12} + \\left(A + B\\right)^{-3/2} \\right]^{1/12}',
-          'A = \\left[ 2.457 \\ln\\frac{1}{\\left(7/Re\\right)^{0.9} + 0.27\\,(\\varepsilon/D)} \\right]^{16}',
-          'B = \\left( \\frac{37530}{Re} \\right)^{16}',
-        ]}
-        substitutedTeX={[
-          `\\varepsilon/D = ${formatNum(s.material.roughness_mm, 4)} / ${formatNum(c.id_mm, 2)} = ${fmtSci(c.relRoughness)}`,
-          `(7/Re)^{0.9} + 0.27\\,(\\varepsilon/D) = ${fmtE(c.churchill_innerA)}`,
-          `A = ${fmtE(c.churchill_A)}`,
-          `B = ${fmtE(c.churchill_B)}`,
-          `f = ${fmtSci(c.f, 6)}`,
-        ]}
-        result={`f = ${formatNum(c.f, 6)}`}
-        variables={[
-          { symbol: 'Re', name: t('explain.var_reynolds'), value: formatNum(c.reynolds, 0), description: t('explain.var_reynolds_ref') },
-          { symbol: '\\varepsilon', name: t('explain.var_roughness'), value: `${s.material.roughness_mm} mm`, description: `${s.material.name}` },
-          { symbol: 'D', name: t('explain.var_diameter'), value: `${formatNum(c.id_mm, 2)} mm`, description: t('explain.var_diameter_ref') },
-          { symbol: 'f', name: t('explain.var_friction_factor'), value: formatNum(c.f, 6), description: t('explain.var_friction_factor_desc') },
-        ]}
-        reference="Churchill, S.W., 1977"
-      />
+      <FrictionSection snapshot={s} calc={c} t={t} />
 
       {/* ── Section 6: 直管圧損 ── */}
       <FormulaBlock
@@ -274,7 +281,21 @@ export function ExplanationTab({ snapshot, pumpSnapshot }: ExplanationTabProps)
 
       {/* ── Section 10: ポンプ選定 ── */}
       {pumpSnapshot && pumpCalc ? (
-        <PumpSection pump={pumpSnapshot} pc={pumpCalc} t={t} />
+        <>
+          <PumpSection pump={pumpSnapshot} pc={pumpCalc} t={t} />
+          {/* ── Section 11: ポンプ性能の粘度補正 ── */}
+          {pumpSnapshot.viscosity && <PumpViscositySection c={pumpSnapshot.viscosity} t={t} />}
+          {/* ── Section 11/12: 電動機選定と年間電力量 ── */}
+          {pumpSnapshot.motor && (
+            <PumpMotorEnergySection
+              step={pumpSnapshot.viscosity ? 12 : 11}
+              motor={pumpSnapshot.motor}
+              energy={pumpSnapshot.energy}
+              density={pumpSnapshot.density}
+              t={t}
+            />
+          )}
+        </>
       ) : (
         <details style={{ marginBottom: '16px', border: '1px solid #d0d7de', borderRadius: '8px' }}>
           <summary style={{
@@ -300,10 +321,238 @@ export function ExplanationTab({ snapshot, pumpSnapshot }: ExplanationTabProps)
 // Intermediate calculation values type
 interface CalcValues {
   flowRate_m3s: number; id_mm: number; id_m: number; area: number;
-  velocity: number; reynolds: number; flowRegime: string;
-  relRoughness: number; f: number; frictionMethod: string;
+  velocity: number; reynolds: number; criticalReynolds: number; flowRegime: string;
+  nonNewtonian: NonNewtonianFlowResult | null;
+  relRoughness: number; f: number; frictionMethod: string; frictionReference: string;
   dp_friction: number; head_friction: number; dp_elevation: number; dynamicPressure: number;
-  churchill_term1: number; churchill_innerA: number; churchill_A: number; churchill_B: number;
+}
+
+// ── Section 1/4: 非ニュートン流体 ──
+
+function rheologyTeX(rheology: Rheology): string {
+  switch (rheology.model) {
+    case 'power_law':
+      return `\\tau = K\\dot\\gamma^{n},\\; K = ${fmtSci(rheology.k)} \\;\\text{Pa·s}^{n},\\; n = ${formatNum(rheology.n, 3)}`;
+    case 'bingham':
+      return `\\tau = \\tau_y + \\mu_p\\dot\\gamma,\\; \\tau_y = ${fmtSci(rheology.yieldStress_pa)} \\;\\text{Pa},\\; \\mu_p = ${fmtE(rheology.plasticViscosity)} \\;\\text{Pa·s}`;
+    case 'herschel_bulkley':
+      return `\\tau = \\tau_y + K\\dot\\gamma^{n},\\; \\tau_y = ${fmtSci(rheology.yieldStress_pa)} \\;\\text{Pa},\\; K = ${fmtSci(rheology.k)} \\;\\text{Pa·s}^{n},\\; n = ${formatNum(rheology.n, 3)}`;
+  }
+}
+
+function NonNewtonianReynoldsSection({ snapshot, calc, flow, t }: {
+  snapshot: ExplanationSnapshot;
+  calc: CalcValues;
+  flow: NonNewtonianFlowResult;
+  t: (key: string) => string;
+}) {
+  const s = snapshot;
+  const c = calc;
+  const reC = formatNum(flow.criticalReynolds, 0);
+  const reT = formatNum(flow.criticalReynolds * 4000 / NEWTONIAN_CRITICAL_RE, 0);
+  const isBingham = flow.hedstrom !== undefined && flow.plasticReynolds !== undefined;
+
+  return (
+    <FormulaBlock
+      step={4}
+      title={`${t('explain.s4_title')} — Metzner-Reed`}
+      description={t('explain.s4_desc_non_newtonian')}
+      symbolicTeX={[
+        'Re_{MR} = \\frac{8 \\rho V^2}{\\tau_w} = \\frac{\\rho V D}{\\mu_{app}}',
+        isBingham
+          ? '\\frac{x_c}{(1-x_c)^3} = \\frac{He}{16800},\\; He = \\frac{\\rho D^2 \\tau_y}{\\mu_p^2}'
+          : "Re_c = \\frac{6464 n' (2+n')^{(2+n')/(1+n')}}{(1+3n')^2}",
+      ]}
+      substitutedTeX={[
+        `\\tau_w = ${fmtSci(flow.wallShearStress_pa)} \\;\\text{Pa},\\; \\mu_{app} = ${fmtE(flow.apparentViscosity)} \\;\\text{Pa·s}`,
+        `Re_{MR} = \\frac{8 \\times ${formatNum(s.fluid.density, 1)} \\times ${formatNum(c.velocity, 3)}^2}{${fmtSci(flow.wallShearStress_pa)}} = ${formatNum(c.reynolds, 0)}`,
+        ...(isBingham ? [`He = ${fmtE(flow.hedstrom!)},\\; Re_B = ${formatNum(flow.plasticReynolds!, 0)}`] : []),
+        `Re_c = ${reC}`,
+      ]}
+      result={`Re_MR = ${formatNum(c.reynolds, 0)}`}
+      note={`${t('explain.flow_regime')}: ${t(`flow.regime.${c.flowRegime}`)} (${
+        c.flowRegime === 'laminar' ? `Re_MR < ${reC}` :
+        c.flowRegime === 'transitional' ? `${reC} ≤ Re_MR < ${reT}` :
+        `Re_MR ≥ ${reT}`
+      })`}
+      variables={[
+        { symbol: '\\tau_w', name: t('explain.var_wall_shear'), value: `${fmtSci(flow.wallShearStress_pa)} Pa`, description: t('explain.var_wall_shear_desc') },
+        { symbol: "n'", name: t('explain.var_flow_index'), value: formatNum(flow.flowBehaviorIndex, 4), description: t('explain.var_flow_index_desc') },
+        { symbol: '\\mu_{app}', name: t('explain.var_apparent_viscosity'), value: `${fmtSci(flow.apparentViscosity)} Pa·s`, description: t('explain.var_apparent_viscosity_desc') },
+        { symbol: 'Re_c', name: t('explain.var_critical_re'), value: reC, description: t(isBingham ? 'explain.var_critical_re_hanks' : 'explain.var_critical_re_ryan_johnson') },
+      ]}
+      reference={isBingham ? 'Metzner & Reed, 1955; Hanks, 1963' : 'Metzner & Reed, 1955; Ryan & Johnson, 1959'}
+    />
+  );
+}
+
+// ── Section 5: 摩擦係数（実際に用いた相関式を表示） ──
+
+function FrictionSection({ snapshot, calc, t }: {
+  snapshot: ExplanationSnapshot;
+  calc: CalcValues;
+  t: (key: string) => string;
+}) {
+  const s = snapshot;
+  const c = calc;
+  const re = c.reynolds;
+  const eps = c.relRoughness;
+  const relRoughnessTeX = `\\varepsilon/D = ${formatNum(s.material.roughness_mm, 4)} / ${formatNum(c.id_mm, 2)} = ${fmtSci(eps)}`;
+
+  let symbolicTeX: string[];
+  let substitutedTeX: string[];
+  switch (c.frictionMethod) {
+    case 'colebrook':
+      symbolicTeX = [
+        '\\frac{1}{\\sqrt{f}} = -2 \\log_{10}\\left( \\frac{\\varepsilon/D}{3.7} + \\frac{2.51}{Re\\sqrt{f}} \\right)',
+      ];
+      substitutedTeX = [
+        relRoughnessTeX,
+        `\\frac{1}{\\sqrt{f}} = ${formatNum(1 / Math.sqrt(c.f), 5)} \\quad (\\text{iterative})`,
+        `f = ${fmtSci(c.f, 6)}`,
+      ];
+      break;
+    case 'swamee-jain': {
+      const logTerm = Math.log10(eps / 3.7 + 5.74 / Math.pow(re, 0.9));
+      symbolicTeX = [
+        'f = \\frac{0.25}{\\left[ \\log_{10}\\left( \\frac{\\varepsilon/D}{3.7} + \\frac{5.74}{Re^{0.9}} \\right) \\right]^2}',
+      ];
+      substitutedTeX = [
+        relRoughnessTeX,
+        `\\log_{10}(\\ldots) = ${formatNum(logTerm, 5)}`,
+        `f = 0.25 / (${formatNum(logTerm, 5)})^2 = ${fmtSci(c.f, 6)}`,
+      ];
+      break;
+    }
+    case 'haaland': {
+      const inner = Math.pow(eps / 3.7, 1.11) + 6.9 / re;
+      symbolicTeX = [
+        '\\frac{1}{\\sqrt{f}} = -1.8 \\log_{10}\\left[ \\left( \\frac{\\varepsilon/D}{3.7} \\right)^{1.11} + \\frac{6.9}{Re} \\right]',
+      ];
+      substitutedTeX = [
+        relRoughnessTeX,
+        `\\left( \\frac{\\varepsilon/D}{3.7} \\right)^{1.11} + \\frac{6.9}{Re} = ${fmtE(inner)}`,
+        `\\frac{1}{\\sqrt{f}} = ${formatNum(-1.8 * Math.log10(inner), 5)}`,
+        `f = ${fmtSci(c.f, 6)}`,
+      ];
+      break;
+    }
+    case 'serghides': {
+      const e = eps / 3.7;
+      const A = -2 * Math.log10(e + 12 / re);
+      const B = -2 * Math.log10(e + 2.51 * A / re);
+      const C = -2 * Math.log10(e + 2.51 * B / re);
+      symbolicTeX = [
+        'A = -2 \\log_{10}\\left( \\frac{\\varepsilon/D}{3.7} + \\frac{12}{Re} \\right)',
+        'B = -2 \\log_{10}\\left( \\frac{\\varepsilon/D}{3.7} + \\frac{2.51 A}{Re} \\right)',
+        'C = -2 \\log_{10}\\left( \\frac{\\varepsilon/D}{3.7} + \\frac{2.51 B}{Re} \\right)',
+        'f = \\left[ A - \\frac{(B - A)^2}{C - 2B + A} \\right]^{-2}',
+      ];
+      substitutedTeX = [
+        relRoughnessTeX,
+        `A = ${formatNum(A, 5)},\\; B = ${formatNum(B, 5)},\\; C = ${formatNum(C, 5)}`,
+        `f = ${fmtSci(c.f, 6)}`,
+      ];
+      break;
+    }
+    case 'hazen-williams': {
+      symbolicTeX = [
+        '\\frac{h_f}{L} = \\frac{10.67\\, Q^{1.852}}{C^{1.852} D^{4.87}}',
+        'f = \\frac{h_f}{L} \\cdot \\frac{2 g D}{V^2}',
+      ];
+      const hwC = s.material.hazenWilliamsC;
+      if (hwC === undefined) {
+        substitutedTeX = [`\\text{${t('explain.hw_c_unavailable')}}`];
+        break;
+      }
+      const gradient = calcHazenWilliamsGradient(hwC, c.flowRate_m3s, c.id_mm);
+      substitutedTeX = [
+        `C = ${hwC},\\; Q = ${fmtSci(c.flowRate_m3s)}\\;\\text{m}^3/\\text{s},\\; D = ${formatNum(c.id_m, 5)}\\;\\text{m}`,
+        `h_f/L = ${fmtSci(gradient, 5)}\\;\\text{m/m}`,
+        `f = ${fmtSci(gradient, 5)} \\times \\frac{2 \\times ${GRAVITY} \\times ${formatNum(c.id_m, 5)}}{${formatNum(c.velocity, 4)}^2} = ${fmtSci(c.f, 6)}`,
+      ];
+      break;
+    }
+    case 'hagen-poiseuille':
+      symbolicTeX = ['f = \\frac{64}{Re}'];
+      substitutedTeX = [`f = \\frac{64}{${formatNum(re, 0)}} = ${fmtSci(c.f, 6)}`];
+      break;
+    case 'metzner-reed':
+      symbolicTeX = ['f = \\frac{64}{Re_{MR}}'];
+      substitutedTeX = [`f = \\frac{64}{${formatNum(re, 0)}} = ${fmtSci(c.f, 6)}`];
+      break;
+    case 'dodge-metzner': {
+      const n = c.nonNewtonian!.flowBehaviorIndex;
+      symbolicTeX = [
+        "\\frac{1}{\\sqrt{f_F}} = \\frac{4}{n'^{0.75}} \\log_{10}\\left( Re_{MR} f_F^{1-n'/2} \\right) - \\frac{0.4}{n'^{1.2}},\\quad f = 4 f_F",
+      ];
+      substitutedTeX = [
+        `n' = ${formatNum(n, 4)},\\; Re_{MR} = ${formatNum(re, 0)}`,
+        `\\frac{1}{\\sqrt{f_F}} = ${formatNum(2 / Math.sqrt(c.f), 5)} \\quad (\\text{iterative})`,
+        `f = ${fmtSci(c.f, 6)}`,
+      ];
+      break;
+    }
+    case 'darby-melson': {
+      const flow = c.nonNewtonian!;
+      const reB = flow.plasticReynolds!;
+      const he = flow.hedstrom!;
+      const a = -1.47 * (1 + 0.146 * Math.exp(-2.9e-5 * he));
+      const m = 1.7 + 40000 / reB;
+      symbolicTeX = [
+        'f_F = \\left( f_L^m + f_T^m \\right)^{1/m},\\quad f = 4 f_F',
+        'f_L = \\frac{16}{Re_{MR}},\\quad f_T = 10^{a} Re_B^{-0.193},\\quad m = 1.7 + \\frac{40000}{Re_B}',
+        'a = -1.47 \\left[ 1 + 0.146 \\exp\\left( -2.9 \\times 10^{-5} He \\right) \\right]',
+      ];
+      substitutedTeX = [
+        `Re_B = ${formatNum(reB, 0)},\\; He = ${fmtE(he)}`,
+        `a = ${formatNum(a, 4)},\\; m = ${formatNum(m, 3)}`,
+        `f_L = ${fmtSci(16 / re, 4)},\\; f_T = ${fmtSci(Math.pow(10, a) * Math.pow(reB, -0.193), 4)}`,
+        `f = ${fmtSci(c.f, 6)}`,
+      ];
+      break;
+    }
+    default: {
+      // Churchill の中間値
+      const innerA = Math.pow(7 / re, 0.9) + 0.27 * eps;
+      const A = Math.pow(2.457 * Math.log(1 / innerA), 16);
+      const B = Math.pow(37530 / re, 16);
+      symbolicTeX = [
+        'f = 8 \\left[ \\left(\\frac{8}{Re}\\right)^{12} + \\left(A + B\\right)^{-3/2} \\right]^{1/12}',
+        'A = \\left[ 2.457 \\ln\\frac{1}{\\left(7/Re\\right)^{0.9} + 0.27\\,(\\varepsilon/D)} \\right]^{16}',
+        'B = \\left( \\frac{37530}{Re} \\right)^{16}',
+      ];
+      substitutedTeX = [
+        relRoughnessTeX,
+        `(7/Re)^{0.9} + 0.27\\,(\\varepsilon/D) = ${fmtE(innerA)}`,
+        `A = ${fmtE(A)}`,
+        `B = ${fmtE(B)}`,
+        `f = ${fmtSci(c.f, 6)}`,
+      ];
+    }
+  }
+
+  const descKey = c.frictionMethod === 'churchill' ? 'explain.s5_desc' : `explain.s5_desc_${c.frictionMethod}`;
+
+  return (
+    <FormulaBlock
+      step={5}
+      title={`${t('explain.s5_title')} — ${t(`friction.method.${c.frictionMethod}`)}`}
+      description={t(descKey)}
+      symbolicTeX={symbolicTeX}
+      substitutedTeX={substitutedTeX}
+      result={`f = ${formatNum(c.f, 6)}`}
+      variables={[
+        { symbol: 'Re', name: t('explain.var_reynolds'), value: formatNum(c.reynolds, 0), description: t('explain.var_reynolds_ref') },
+        c.frictionMethod === 'hazen-williams'
+          ? { symbol: 'C', name: t('explain.var_hazen_williams_c'), value: s.material.hazenWilliamsC !== undefined ? `${s.material.hazenWilliamsC}` : '—', description: `${s.material.name}` }
+          : { symbol: '\\varepsilon', name: t('explain.var_roughness'), value: `${s.material.roughness_mm} mm`, description: `${s.material.name}` },
+        { symbol: 'D', name: t('explain.var_diameter'), value: `${formatNum(c.id_mm, 2)} mm`, description: t('explain.var_diameter_ref') },
+        { symbol: 'f', name: t('explain.var_friction_factor'), value: formatNum(c.f, 6), description: t('explain.var_friction_factor_desc') },
+      ]}
+      reference={c.frictionReference}
+    />
+  );
 }
 
 // ── Section 7: 継手圧損（個別継手ごとの解説） ──
@@ -319,11 +568,21 @@ function FittingSection({ snapshot, calc, t }: {
   const dp_fittings = result.dp_fittings;
   const head_fittings = result.head_fittings_m;
   const totalK = result.fittingDetails.reduce((sum, fd) => sum + fd.k_value * fd.quantity, 0);
+  const useCrane = s.fittingMethod === 'l_over_d';
+  const useHooper = s.fittingMethod === '2k';
+  const ft = useCrane ? calcFtFullyTurbulent(craneData.ft_roughness_mm, c.id_mm).f : 0;
 
   // Build per-fitting substitution lines
   const fittingLines: string[] = [];
+  if (useCrane) {
+    fittingLines.push(
+      `f_T = \\frac{1}{\\left[2\\log_{10}\\left(\\frac{3.7 \\times ${formatNum(c.id_mm, 2)}}{${craneData.ft_roughness_mm}}\\right)\\right]^2} = ${formatNum(ft, 5)}`
+    );
+  }
   for (const fd of result.fittingDetails) {
     const darbyEntry = darby3kData.fittings.find(f => f.id === fd.id);
+    const craneEntry = craneData.fittings.find(f => f.id === fd.id);
+    const hooperEntry = hooperData.fittings.find(f => f.id === fd.id);
     const entranceEntry = entranceExitData.entrances.find(e => e.id === fd.id);
     const exitEntry = entranceExitData.exits.find(e => e.id === fd.id);
 
@@ -332,6 +591,15 @@ function FittingSection({ snapshot, calc, t }: {
       fittingLines.push(
         `\\text{${fd.description}}: K = \\frac{${darbyEntry.k1}}{${formatNum(c.reynolds, 0)}} + ${darbyEntry.ki}\\left(1 + \\frac{${darbyEntry.kd}}{${formatNum(id_inch, 3)}^{0.3}}\\right) = ${formatNum(fd.k_value, 4)}`
       );
+    } else if (fd.method === '2k' && hooperEntry) {
+      const id_inch = c.id_mm / 25.4;
+      fittingLines.push(
+        `\\text{${fd.description}}: K = \\frac{${hooperEntry.k1}}{${formatNum(c.reynolds, 0)}} + ${hooperEntry.k_inf}\\left(1 + \\frac{1}{${formatNum(id_inch, 3)}}\\right) = ${formatNum(fd.k_value, 4)}`
+      );
+    } else if (fd.method === 'l_over_d' && craneEntry) {
+      fittingLines.push(
+        `\\text{${fd.description}}: K = ${formatNum(ft, 5)} \\times ${craneEntry.l_over_d} = ${formatNum(fd.k_value, 4)}`
+      );
     } else if (fd.method === 'cv') {
       const id_inch = c.id_mm / 25.4;
       const fittingInput = s.fittings.find(fi => fi.fittingId === fd.id);
@@ -342,9 +610,34 @@ function FittingSection({ snapshot, calc, t }: {
     } else if (fd.method === 'fixed_k') {
       const k = entranceEntry?.k ?? exitEntry?.k ?? fd.k_value;
       fittingLines.push(`\\text{${fd.description}}: K = ${formatNum(k, 4)}`);
+    } else if (fd.method === 'size_change') {
+      fittingLines.push(
+        `\\text{${fd.description}}: K = ${formatNum(fd.k_value, 4)} \\quad (D_{\\text{ref}} = ${formatNum(fd.basis_id_mm, 2)}\\;\\text{mm})`
+      );
     }
   }
 
+  const hasSizeChange = result.fittingDetails.some(fd => fd.method === 'size_change');
+
+  // K の基準流速が区間流速と異なる継手（口径変化）がある場合は個別の動圧で合計する
+  const mixedBasis = result.fittingDetails.some(fd => fd.basis_id_mm !== c.id_mm);
+  const sumLines = mixedBasis
+    ? [
+        ...result.fittingDetails.map((fd, i) =>
+          `\\Delta P_{${i + 1}} = ${formatNum(fd.k_value * fd.quantity, 4)} \\times \\frac{${formatNum(s.fluid.density, 1)} \\times ${formatNum(fd.basis_velocity_m_s, 3)}^2}{2} = ${formatPa(fd.dp_pa)} \\quad (D_{\\text{ref}} = ${formatNum(fd.basis_id_mm, 2)}\\;\\text{mm})`
+        ),
+        `\\Delta P_{\\text{fittings}} = \\sum K_i \\frac{\\rho V_i^2}{2} = ${formatPa(dp_fittings)}`,
+      ]
+    : [
+        `\\sum K = ${formatNum(totalK, 4)} \\quad (\\times n)`,
+        `\\Delta P_{\\text{fittings}} = ${formatNum(totalK, 4)} \\times \\frac{${formatNum(s.fluid.density, 1)} \\times ${formatNum(c.velocity, 3)}^2}{2} = ${formatPa(dp_fittings)}`,
+      ];
+
+  // 手法別 K 値の比較（計算時に resolveFittings が付加したもの。データベース継手のみ）
+  const comparisonRows = result.fittingDetails
+    .filter((fd): fd is FittingResult & { kComparison: FittingKComparisonSet } => fd.kComparison !== undefined)
+    .map(fd => ({ fd, comparison: fd.kComparison }));
+
   return (
     <FormulaBlock
       step={7}
@@ -353,18 +646,85 @@ function FittingSection({ snapshot, calc, t }: {
       symbolicTeX={[
         '\\Delta P_{\\text{fitting}} = K \\cdot \\frac{\\rho V^2}{2}',
         'h_{\\text{fitting}} = K \\cdot \\frac{V^2}{2g}',
-        '\\text{Darby 3-K: } K = \\frac{K_1}{Re} + K_i\\left(1 + \\frac{K_d}{D_{\\text{inch}}^{0.3}}\\right)',
+        useCrane
+          ? '\\text{Crane L/D: } K = f_T \\times \\frac{L}{D}'
+          : useHooper
+            ? '\\text{Hooper 2-K: } K = \\frac{K_1}{Re} + K_\\infty\\left(1 + \\frac{1}{D_{\\text{inch}}}\\right)'
+            : '\\text{Darby 3-K: } K = \\frac{K_1}{Re} + K_i\\left(1 + \\frac{K_d}{D_{\\text{inch}}^{0.3}}\\right)',
+        ...(hasSizeChange
+          ? ['\\text{Crane: } K_{\\text{contr}} = 0.5\\sqrt{\\sin\\tfrac{\\theta}{2}}(1-\\beta^2),\\; K_{\\text{exp}} = (1-\\beta^2)^2 \\quad (V = V_{\\text{small}})']
+          : []),
       ]}
       substitutedTeX={[
         ...fittingLines,
-        `\\sum K = ${formatNum(totalK, 4)} \\quad (\\times n)`,
-        `\\Delta P_{\\text{fittings}} = ${formatNum(totalK, 4)} \\times \\frac{${formatNum(s.fluid.density, 1)} \\times ${formatNum(c.velocity, 3)}^2}{2} = ${formatPa(dp_fittings)}`,
+        ...sumLines,
         `h_{\\text{fittings}} = ${formatNum(head_fittings, 3)} \\;\\text{m}`,
       ]}
       result={`${formatPa(dp_fittings)} (${formatNum(head_fittings, 3)} m)`}
       variables={[]}
-      reference="Darby, 2001 / Idelchik, 2007 / ISA-75.01"
-    />
+      reference={`${useCrane ? 'Crane TP-410, 2013' : useHooper ? 'Hooper, 1981' : 'Darby, 2001'} / Idelchik, 2007 / ISA-75.01`}
+    >
+      {comparisonRows.length > 0 && (
+        <KComparisonTable rows={comparisonRows} t={t} />
+      )}
+    </FormulaBlock>
+  );
+}
+
+const comparisonThStyle: React.CSSProperties = {
+  textAlign: 'left',
+  padding: '6px 8px',
+  borderBottom: '2px solid #d0d7de',
+  background: '#f6f8fa',
+  whiteSpace: 'nowrap',
+};
+
+const comparisonTdStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #eee',
+  fontFamily: 'monospace',
+  whiteSpace: 'nowrap',
+};
+
+/** 継手ごとの手法別 K 値とばらつき（使用した手法を太字表示） */
+function KComparisonTable({ rows, t }: {
+  rows: { fd: FittingResult; comparison: FittingKComparisonSet }[];
+  t: (key: string) => string;
+}) {
+  return (
+    <div style={{ marginBottom: '12px' }}>
+      <div style={{ fontSize: '0.9em', fontWeight: 'bold', marginBottom: '4px' }}>{t('explain.s7_compare_title')}</div>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85em' }}>
+        <thead>
+          <tr>
+            <th style={comparisonThStyle}>{t('explain.s7_compare_fitting')}</th>
+            {FITTING_METHODS.map(m => (
+              <th key={m} style={comparisonThStyle}>{t(`fitting.method.${m}`)}</th>
+            ))}
+            <th style={comparisonThStyle}>{t('explain.s7_compare_spread')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ fd, comparison }, i) => (
+            <tr key={i}>
+              <td style={{ ...comparisonTdStyle, fontFamily: 'inherit' }}>{fd.description}</td>
+              {FITTING_METHODS.map(m => {
+                const v = comparison.values.find(x => x.method === m);
+                return (
+                  <td key={m} style={{ ...comparisonTdStyle, fontWeight: fd.method === m ? 'bold' : 'normal' }}>
+                    {v ? formatNum(v.k_value, 3) : '—'}
+                  </td>
+                );
+              })}
+              <td style={comparisonTdStyle}>
+                {comparison.spread !== null ? `${formatNum(comparison.spread * 100, 0)} %` : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ fontSize: '0.8em', color: '#666', marginTop: '4px' }}>{t('explain.s7_compare_note')}</div>
+    </div>
   );
 }
 
@@ -444,3 +804,100 @@ function PumpSection({ pump, pc, t }: {
     />
   );
 }
+
+// ── Section 11: ポンプ性能の粘度補正 ──
+
+function PumpViscositySection({ c, t }: {
+  c: ViscosityCorrection;
+  t: (key: string) => string;
+}) {
+  return (
+    <FormulaBlock
+      step={11}
+      title={t('explain.s11_title')}
+      description={t('explain.s11_desc')}
+      symbolicTeX={[
+        'B = 16.5 \\frac{\\nu^{0.5} \\, H_{\\text{BEP}}^{0.0625}}{Q_{\\text{BEP}}^{0.375} \\, N^{0.25}}',
+        'C_Q = 2.71^{-0.165 (\\log_{10} B)^{3.15}}',
+        'C_H = 1 - (1 - C_Q) \\left( \\frac{Q_W}{Q_{\\text{BEP}}} \\right)^{0.75}',
+        'C_\\eta = B^{-0.0547 \\, B^{0.69}}',
+      ]}
+      substitutedTeX={[
+        `B = 16.5 \\times \\frac{${formatNum(c.kinematicViscosity_cSt, 2)}^{0.5} \\times ${formatNum(c.bepHead_m, 2)}^{0.0625}}{${formatNum(c.bepFlow_m3h, 2)}^{0.375} \\times ${formatNum(c.speed_rpm, 0)}^{0.25}} = ${formatNum(c.parameterB, 2)}`,
+        `C_Q = 2.71^{-0.165 \\times (\\log_{10} ${formatNum(c.parameterB, 2)})^{3.15}} = ${formatNum(c.cQ, 3)}`,
+        `C_H = ${formatNum(c.cQ, 3)} \\;(Q_W = Q_{\\text{BEP}}), \\quad C_H = 1 \\;(Q_W = 0)`,
+        `C_\\eta = ${formatNum(c.parameterB, 2)}^{-0.0547 \\times ${formatNum(c.parameterB, 2)}^{0.69}} = ${formatNum(c.cEta, 3)}`,
+      ]}
+      result={`B = ${formatNum(c.parameterB, 2)} / C_Q = ${formatNum(c.cQ, 3)} / C_\u03B7 = ${formatNum(c.cEta, 3)}`}
+      variables={[
+        { symbol: '\\nu', name: t('pump.kinematic_viscosity'), value: `${formatNum(c.kinematicViscosity_cSt, 2)} cSt`, description: t('explain.var_kinematic_viscosity_desc') },
+        { symbol: 'Q_{\\text{BEP}}', name: 'Q_BEP', value: `${formatNum(c.bepFlow_m3h, 2)} m³/h`, description: t('explain.var_bep_flow_desc') },
+        { symbol: 'H_{\\text{BEP}}', name: 'H_BEP', value: `${formatNum(c.bepHead_m, 2)} m`, description: t('explain.var_bep_head_desc') },
+        { symbol: 'N', name: t('pump.rated_speed'), value: `${formatNum(c.speed_rpm, 0)} rpm`, description: t('explain.var_speed_desc') },
+      ]}
+      reference="ANSI/HI 9.6.7-2015, Effects of Liquid Viscosity on Rotodynamic (Centrifugal and Vertical) Pump Performance"
+    />
+  );
+}
+
+// ── Section 11/12: 電動機選定と年間電力量 ──
+
+function PumpMotorEnergySection({ step, motor, energy, density, t }: {
+  step: number;
+  motor: MotorSelection;
+  energy?: PumpEnergyResult;
+  density: number;
+  t: (key: string) => string;
+}) {
+  // 代入例は運転できる最初の流量比で示す
+  const firstRow = energy?.rows.find(r => r.throttle && r.vfd);
+  const symbolicTeX = [
+    'P_{\\text{req}} = SF \\times P_{\\text{duty}} \\le P_{\\text{motor}}',
+    'P_{\\text{max}} = \\max_{Q} \\frac{\\rho g Q H(Q)}{\\eta(Q) \\times 1000} \\le P_{\\text{motor}}',
+  ];
+  const substitutedTeX = [
+    `P_{\\text{req}} = ${formatNum(motor.serviceFactor, 2)} \\times ${formatNum(motor.dutyPower_kW, 2)} = ${formatNum(motor.requiredPower_kW, 2)} \\;\\text{kW} \\;\\Rightarrow\\; P_{\\text{motor}} = ${motor.motor.rating_kW} \\;\\text{kW}`,
+  ];
+  if (motor.maxPower_kW !== null) {
+    substitutedTeX.push(`P_{\\text{max}} = ${formatNum(motor.maxPower_kW, 2)} \\;\\text{kW} ${motor.nonOverloading ? '\\le' : '>'} ${motor.motor.rating_kW} \\;\\text{kW}`);
+  }
+  if (energy) {
+    symbolicTeX.push(
+      'P_{\\text{in,thr}} = \\frac{\\rho g Q H_p(Q)}{\\eta_p(Q) \\, \\eta_m \\times 1000}',
+      'P_{\\text{in,VFD}} = \\frac{\\rho g Q H_{\\text{sys}}(Q)}{\\eta_p(Q N_0 / N) \\, \\eta_m \\, \\eta_{\\text{VFD}} \\times 1000}',
+      'E = \\sum_i P_{\\text{in},i} \\, t_i',
+    );
+    if (firstRow && firstRow.throttle && firstRow.vfd) {
+      substitutedTeX.push(
+        `P_{\\text{in,thr}} = \\frac{${formatNum(density, 1)} \\times ${formatNum(GRAVITY, 5)} \\times ${fmtE(firstRow.flow_m3h / 3600)} \\times ${formatNum(firstRow.throttle.head_m, 2)}}{${formatNum(firstRow.throttle.efficiency_pct / 100, 3)} \\times ${formatNum(energy.motorEfficiency, 3)} \\times 1000} = ${formatNum(firstRow.throttle.inputPower_kW, 2)} \\;\\text{kW}`,
+        `P_{\\text{in,VFD}} = \\frac{${formatNum(density, 1)} \\times ${formatNum(GRAVITY, 5)} \\times ${fmtE(firstRow.flow_m3h / 3600)} \\times ${formatNum(firstRow.vfd.head_m, 2)}}{${formatNum(firstRow.vfd.efficiency_pct / 100, 3)} \\times ${formatNum(energy.motorEfficiency, 3)} \\times ${formatNum(energy.vfdEfficiency, 3)} \\times 1000} = ${formatNum(firstRow.vfd.inputPower_kW, 2)} \\;\\text{kW}`,
+      );
+    }
+    substitutedTeX.push(
+      `E_{\\text{thr}} = ${formatNum(energy.throttle.energy_kWh_yr, 0)} \\;\\text{kWh/yr}, \\quad E_{\\text{VFD}} = ${formatNum(energy.vfd.energy_kWh_yr, 0)} \\;\\text{kWh/yr}`,
+    );
+  }
+
+  return (
+    <FormulaBlock
+      step={step}
+      title={t('explain.s12_title')}
+      description={t('explain.s12_desc')}
+      symbolicTeX={symbolicTeX}
+      substitutedTeX={substitutedTeX}
+      result={energy
+        ? `P_motor = ${motor.motor.rating_kW} kW / \u0394E = ${formatNum(energy.savings_kWh_yr, 0)} kWh/yr`
+        : `P_motor = ${motor.motor.rating_kW} kW`}
+      variables={[
+        { symbol: 'SF', name: t('pump.service_factor'), value: formatNum(motor.serviceFactor, 2), description: t('explain.var_service_factor_desc') },
+        { symbol: 'P_{\\text{duty}}', name: t('pump.duty_power'), value: `${formatNum(motor.dutyPower_kW, 2)} kW`, description: t('explain.var_duty_power_desc') },
+        { symbol: '\\eta_m', name: t('explain.var_motor_efficiency'), value: `${formatNum(motor.motor.efficiency_pct, 1)}%`, description: t('explain.var_motor_efficiency_desc') },
+        ...(energy ? [
+          { symbol: '\\eta_{\\text{VFD}}', name: t('pump.vfd_efficiency'), value: `${formatNum(energy.vfdEfficiency * 100, 1)}%`, description: t('explain.var_vfd_efficiency_desc') },
+          { symbol: 't_i', name: t('pump.duty_hours'), value: `${formatNum(energy.rows.reduce((s, r) => s + r.hours_h_yr, 0), 0)} h/yr`, description: t('explain.var_duty_hours_desc') },
+        ] : []),
+      ]}
+      reference="IEC 60072-1; IEC 60034-30-1:2014; Hydraulic Institute & Europump, Variable Speed Pumping (2004)"
+    />
+  );
+}
@@ -33,6 +33,8 @@ export interface FormulaBlockProps {
   reference?: string;
   /** 初期状態で開いているか */
   defaultOpen?: boolean;
+  /** 変数解説テーブルの後に表示する追加コンテンツ */
+  children?: React.ReactNode;
 }
 
 function renderTeX(tex: string, displayMode: boolean): string {
@@ -155,6 +157,7 @@ export function FormulaBlock({
   variables,
   reference,
   defaultOpen = true,
+  children,
 }: FormulaBlockProps) {
   const symbolics = Array.isArray(symbolicTeX) ? symbolicTeX : [symbolicTeX];
   const substituteds = Array.isArray(substitutedTeX) ? substitutedTeX : [substitutedTeX];
@@ -223,6 +226,8 @@ export function FormulaBlock({
           </table>
         )}
 
+        {children}
+
         {/* 出典 */}
         {reference && (
           <div style={refStyle}>
@@ -2,8 +2,11 @@
  * 計算解説タブ用の型定義
  */
 
-import type { FluidProperties, PipeSpec, PipeMaterial, FittingInput, SegmentResult } from '@domain/types';
+import type { FluidProperties, PipeSpec, PipeMaterial, FittingInput, SegmentResult, FrictionFactorMethod, FittingMethod } from '@domain/types';
 import type { PumpSuggestion } from '@domain/system/pumpRequirements';
+import type { ViscosityCorrection } from '@domain/system/pumpViscosity';
+import type { MotorSelection } from '@domain/system/pumpMotor';
+import type { PumpEnergyResult } from '@domain/system/pumpEnergy';
 
 /** 圧損計算の入力と結果のスナップショット */
 export interface ExplanationSnapshot {
@@ -14,6 +17,8 @@ export interface ExplanationSnapshot {
   readonly length_m: number;
   readonly elevation_m: number;
   readonly fittings: FittingInput[];
+  readonly frictionMethod?: FrictionFactorMethod;
+  readonly fittingMethod?: FittingMethod;
   readonly result: SegmentResult;
 }
 
@@ -29,4 +34,10 @@ export interface PumpExplanationSnapshot {
   readonly suctionFrictionLoss_m: number;
   readonly speed_rpm: number;
   readonly suggestion: PumpSuggestion | null;
+  /** 粘度補正（B > 1 で補正した場合のみ） */
+  readonly viscosity?: ViscosityCorrection;
+  /** 電動機選定（運転点の軸動力が求まった場合のみ） */
+  readonly motor?: MotorSelection;
+  /** 運転パターンの年間消費電力量 */
+  readonly energy?: PumpEnergyResult;
 }
@@ -0,0 +1,53 @@
+import { useMemo, useState } from 'react';
+import { getFluidProperties } from '@domain/fluid/fluidProperties';
+import { calcSolutionVaporPressure } from '@domain/fluid/aqueousSolution';
+import { getWaterProperties } from '@domain/fluid/waterProperties';
+import {
+  waterData, getFluidEntry, getFluidData, getNonVolatileSolute, FluidId, SolutionId,
+} from '@infrastructure/dataLoader';
+
+/** 手入力の蒸気圧の初期値 [kPa abs]（20 °C の水） */
+const DEFAULT_MANUAL_VAPOR_PRESSURE_KPA = 2.339;
+
+export interface VaporPressureState {
+  /** 物性データから推算した蒸気圧 [kPa abs]（推算できない流体は null） */
+  readonly autoVaporPressure: number | null;
+  readonly manualVaporPressure: number;
+  readonly setManualVaporPressure: (value: number) => void;
+  /** 計算に用いる蒸気圧 [kPa abs] */
+  readonly vaporPressure: number;
+}
+
+/**
+ * 流体の飽和蒸気圧
+ *
+ * 単純流体は飽和圧力テーブル、水溶液は不揮発性溶質のみラウール則で推算し、
+ * それ以外（揮発性溶質）は手入力値を用いる。
+ * 水溶液の FluidProperties.pressure は大気圧であり蒸気圧ではないため用いない。
+ */
+export function useVaporPressure(fluidId: FluidId, temperature_c: number, concentration: number): VaporPressureState {
+  const [manualVaporPressure, setManualVaporPressure] = useState(DEFAULT_MANUAL_VAPOR_PRESSURE_KPA);
+
+  const autoVaporPressure = useMemo((): number | null => {
+    try {
+      const entry = getFluidEntry(fluidId);
+      if (entry.kind !== 'solution') {
+        const fluidData = getFluidData(fluidId);
+        return getFluidProperties(temperature_c, fluidData, { source: fluidData.referenceId }).pressure;
+      }
+      const solute = getNonVolatileSolute(fluidId as SolutionId);
+      if (!solute) return null;
+      const waterVaporPressure = getWaterProperties(temperature_c, waterData).pressure;
+      return calcSolutionVaporPressure(concentration, entry.concentrationUnit, entry.method, waterVaporPressure, solute);
+    } catch {
+      return null;
+    }
+  }, [fluidId, temperature_c, concentration]);
+
+  return {
+    autoVaporPressure,
+    manualVaporPressure,
+    setManualVaporPressure,
+    vaporPressure: autoVaporPressure ?? manualVaporPressure,
+  };
+}
@@ -15,6 +15,25 @@ const en: Record<string, string> = {
   'fluid.temp_range': 'Temperature Range',
   'fluid.density': 'Density',
   'fluid.viscosity': 'Viscosity',
+  'fluid.vapor_pressure': 'Vapor Pressure (abs)',
+  'fluid.vapor_pressure_manual': 'Cannot be estimated for this fluid (volatile solute); enter the vapor pressure.',
+  'rheology.model': 'Rheology',
+  'rheology.model.newtonian': 'Newtonian',
+  'rheology.model.power_law': 'Power law (K, n)',
+  'rheology.model.bingham': 'Bingham plastic (τy, μp)',
+  'rheology.model.herschel_bulkley': 'Herschel-Bulkley (τy, K, n)',
+  'rheology.yield_stress': 'Yield stress τy',
+  'rheology.plastic_viscosity': 'Plastic visc. μp',
+  'rheology.consistency': 'Consistency K',
+  'rheology.flow_index': 'Flow index n',
+  'heat_loss.mode': 'Heat loss',
+  'heat_loss.mode.adiabatic': 'Adiabatic (no temperature change)',
+  'heat_loss.mode.insulated': 'Heat loss to ambient',
+  'heat_loss.ambient_temperature': 'Ambient temp.',
+  'heat_loss.insulation_thickness': 'Insulation thickness',
+  'heat_loss.insulation_conductivity': 'Insulation conductivity',
+  'heat_loss.outer_film': 'Outer film coeff. hₒ',
+  'heat_loss.specific_heat': 'Specific heat cp',
 
   // Pipe
   'pipe.title': 'Pipe Specification',
@@ -28,6 +47,31 @@ const en: Record<string, string> = {
   'pipe.inner_diameter': 'Inner Diameter',
   'pipe.length': 'Pipe Length',
 
+  // Pipe sizing
+  'sizing.max_velocity': 'Max velocity',
+  'sizing.max_dp_per_100m': 'Max friction loss',
+  'sizing.suggest': 'Suggest size',
+  'sizing.dp_per_100m': 'ΔP (kPa/100m)',
+  'sizing.none_meets': 'No size in this standard/schedule meets the criteria',
+
+  // Economic diameter
+  'economic.title': 'Economic Pipe Diameter',
+  'economic.pump_efficiency': 'Pump efficiency',
+  'economic.operating_hours': 'Operating hours',
+  'economic.electricity_price': 'Electricity price',
+  'economic.discount_rate': 'Discount rate',
+  'economic.lifetime': 'Evaluation period',
+  'economic.years': 'years',
+  'economic.optimize': 'Find economic diameter',
+  'economic.optimum_size': 'Economic diameter',
+  'economic.pump_power': 'Pump power (friction + fittings)',
+  'economic.capital_cost': 'Installed pipe cost',
+  'economic.annual_energy_cost': 'Annual energy cost',
+  'economic.energy_pv': 'Energy cost (present value)',
+  'economic.total_cost': 'Lifecycle cost',
+  'economic.chart_cost': 'Cost',
+  'economic.apply_optimum': 'Use this size',
+
   // Flow
   'flow.title': 'Flow Conditions',
   'flow.rate': 'Flow Rate',
@@ -41,6 +85,7 @@ const en: Record<string, string> = {
   // Fittings
   'fittings.title': 'Fittings & Valves',
   'fittings.type': 'Type',
+  'fittings.basis_d': 'K basis ID (mm)',
   'fittings.quantity': 'Quantity',
   'fittings.add': 'Add Fitting',
   'fittings.k_value': 'K Value',
@@ -55,6 +100,24 @@ const en: Record<string, string> = {
   'results.title': 'Results',
   'results.friction_factor': 'Friction Factor',
   'results.friction_factor_method': 'Friction Factor Method',
+  'results.temperature_in_out': 'Temperature (in → out)',
+  'results.heat_loss': 'Heat loss',
+  'method.title': 'Calculation Method',
+  'method.friction': 'Friction factor',
+  'friction.method.churchill': 'Churchill (1977)',
+  'friction.method.colebrook': 'Colebrook-White (iterative)',
+  'friction.method.swamee-jain': 'Swamee-Jain (1976)',
+  'friction.method.haaland': 'Haaland (1983)',
+  'friction.method.serghides': 'Serghides (1984)',
+  'friction.method.hazen-williams': 'Hazen-Williams (water, C-factor)',
+  'friction.method.hagen-poiseuille': 'Hagen-Poiseuille (laminar 64/Re)',
+  'friction.method.metzner-reed': 'Metzner-Reed (laminar 64/Re_MR)',
+  'friction.method.dodge-metzner': 'Dodge-Metzner (non-Newtonian turbulent)',
+  'friction.method.darby-melson': 'Darby-Melson (Bingham plastic)',
+  'method.fittings': 'Fitting K value',
+  'fitting.method.3k': 'Darby 3-K (2001)',
+  'fitting.method.2k': 'Hooper 2-K (1981)',
+  'fitting.method.l_over_d': 'Crane L/D (TP-410)',
   'results.dp_friction': 'Straight Pipe Loss',
   'results.dp_fittings': 'Fitting Loss',
   'results.dp_elevation': 'Elevation Loss',
@@ -80,6 +143,8 @@ const en: Record<string, string> = {
   'segment.move_down': 'Move Down',
   'segment.collapse': 'Collapse',
   'segment.expand': 'Expand',
+  'segment.transition_angle': 'Transition angle θ (180° = sudden)',
+  'segment.suction': 'Suction side (pump inlet)',
 
   // System
   'system.flow_conditions': 'System Fluid Conditions',
@@ -90,6 +155,8 @@ const en: Record<string, string> = {
   'system.dp_total': 'System Total Pressure Drop',
   'system.head_total': 'System Total Head Loss',
   'system.per_segment': 'Per-Segment Results',
+  'system.outlet_temperature': 'System Outlet Temperature',
+  'system.heat_loss_total': 'Total Heat Loss',
 
   // Route
   'tab.route': 'Route Input',
@@ -125,9 +192,133 @@ const en: Record<string, string> = {
   'route.warnings': 'Warnings',
   'route.additional_fittings': 'Additional Fittings',
   'route.add_fitting': 'Add Fitting',
+  'route.pump_inlet_node': 'Pump inlet node',
+  'route.pump_inlet_none': 'Not set',
   'route.no_elbows': 'No elbows',
   'route.min_nodes': 'At least 2 nodes are required',
 
+  // Surge (water hammer)
+  'surge.title': 'Water Hammer (Valve Closure)',
+  'surge.mode': 'Surge check',
+  'surge.mode.off': 'Off',
+  'surge.mode.on': 'Valve closure at route outlet',
+  'surge.closure_time': 'Valve closure time',
+  'surge.operating_pressure': 'Operating pressure (gauge)',
+  'surge.design_pressure': 'Design pressure (gauge)',
+  'surge.bulk_modulus': 'Fluid bulk modulus K',
+  'surge.anchorage': 'Pipe restraint',
+  'surge.anchorage.upstream': 'Anchored at upstream end only',
+  'surge.anchorage.anchored': 'Anchored against axial movement',
+  'surge.anchorage.expansion_joints': 'Expansion joints throughout',
+  'surge.wave_speed': 'Wave speed a',
+  'surge.period': 'Pipeline period 2L/a',
+  'surge.closure_type': 'Closure',
+  'surge.closure.rapid': 'Rapid (tc ≤ 2L/a, Joukowsky)',
+  'surge.closure.slow': 'Slow (tc > 2L/a, Michaud)',
+  'surge.joukowsky': 'Joukowsky surge ρaV',
+  'surge.surge': 'Surge pressure',
+  'surge.peak_pressure': 'Peak pressure (gauge)',
+  'transient.title': 'Transient Analysis (MOC)',
+  'transient.scenario': 'Scenario',
+  'transient.scenario.off': 'Off',
+  'transient.scenario.valve_closure': 'Valve closure at route outlet',
+  'transient.scenario.pump_trip': 'Pump trip at route inlet',
+  'transient.upstream_head': 'Upstream reservoir level',
+  'transient.downstream_head': 'Downstream head',
+  'transient.closure_exponent': 'Closure law exponent m',
+  'transient.suction_head': 'Suction reservoir level',
+  'transient.shutoff_head': 'Pump shutoff head',
+  'transient.rated_speed': 'Rated speed',
+  'transient.efficiency': 'Pump efficiency',
+  'transient.inertia': 'Rotating inertia (pump + motor)',
+  'transient.duration': 'Simulation time',
+  'transient.time_step': 'Time step Δt',
+  'transient.reaches': 'reaches',
+  'transient.max_pressure': 'Maximum pressure (gauge)',
+  'transient.min_pressure': 'Minimum pressure (gauge)',
+  'transient.vapor_pressure': 'Vapor pressure (gauge)',
+  'transient.chart_distance': 'Distance along route (m)',
+  'transient.chart_max_head': 'Max head',
+  'transient.chart_min_head': 'Min head',
+  'transient.chart_steady_head': 'Steady HGL',
+  'transient.chart_elevation': 'Pipe elevation',
+  'transient.chart_vapor_limit': 'Vapor pressure limit',
+
+  // Sprinkler (NFPA 13)
+  'tab.sprinkler': 'Sprinkler',
+  'sprinkler.pipe_settings': 'Water and Pipe',
+  'sprinkler.nodes': 'Nodes',
+  'sprinkler.node': 'Node',
+  'sprinkler.elevation': 'Elevation',
+  'sprinkler.add_node': 'Add node',
+  'sprinkler.supply_node': 'Supply node',
+  'sprinkler.pipes': 'Pipes (upstream → downstream)',
+  'sprinkler.pipe': 'Pipe',
+  'sprinkler.add_pipe': 'Add pipe',
+  'sprinkler.heads': 'Sprinkler Heads',
+  'sprinkler.coverage': 'Coverage',
+  'sprinkler.add_head': 'Add head',
+  'sprinkler.k_hint': 'K-factor in L/min/bar^0.5 (Q = K√P). Minimum flow is the larger of K√P_min and density × coverage.',
+  'sprinkler.design': 'Design Basis',
+  'sprinkler.density': 'Design density',
+  'sprinkler.area_of_operation': 'Area of operation',
+  'sprinkler.hose_allowance': 'Hose allowance',
+  'sprinkler.supply': 'Water Supply',
+  'sprinkler.supply_enable': 'Compare with a flow test',
+  'sprinkler.static_pressure': 'Static pressure',
+  'sprinkler.residual_pressure': 'Residual pressure',
+  'sprinkler.residual_flow': 'Residual flow',
+  'sprinkler.most_remote_head': 'Hydraulically most remote head',
+  'sprinkler.covered_area': 'Area covered by calculated heads',
+  'sprinkler.sprinkler_demand': 'Sprinkler demand',
+  'sprinkler.total_demand': 'Total demand',
+  'sprinkler.required_pressure': 'Required pressure at supply',
+  'sprinkler.available_pressure': 'Available pressure at total demand',
+  'sprinkler.safety_margin': 'Safety margin',
+  'sprinkler.calc_table': 'Hydraulic Calculation',
+  'sprinkler.calc_table_hint': 'Rows run from the most remote head toward the supply. q: flow added at the downstream node, L/F/T: pipe / fitting / total length, P_t: downstream pressure, P_e: elevation, P_f: friction (kPa).',
+  'sprinkler.min_flow': 'Min. flow',
+  'sprinkler.flow': 'Flow',
+  'sprinkler.chart_supply': 'Water supply curve',
+  'sprinkler.fitting.elbow_45': '45° elbow',
+  'sprinkler.fitting.elbow_90': '90° standard elbow',
+  'sprinkler.fitting.elbow_90_long': '90° long-turn elbow',
+  'sprinkler.fitting.tee_branch': 'Tee or cross (flow turned 90°)',
+  'sprinkler.fitting.butterfly_valve': 'Butterfly valve',
+  'sprinkler.fitting.gate_valve': 'Gate valve',
+  'sprinkler.fitting.swing_check': 'Swing check valve',
+
+  // Control valve (IEC 60534)
+  'valve.title': 'Control Valve (IEC 60534)',
+  'valve.mode.off': 'Off',
+  'valve.characteristic': 'Valve trim',
+  'valve.characteristic.linear': 'Linear',
+  'valve.characteristic.equal_percentage': 'Equal percentage',
+  'valve.inlet_pressure': 'Inlet pressure p₁ (abs)',
+  'valve.dp': 'Valve pressure drop Δp',
+  'valve.critical_pressure': 'Critical pressure p_c (abs)',
+  'valve.max_opening': 'Maximum opening at design flow',
+  'valve.required_cv': 'Required Cv',
+  'valve.choked': 'Choked flow',
+  'valve.choked_dp': 'Choked-flow limit Δp_max',
+  'valve.outlet_pressure': 'Outlet pressure p₂ (abs)',
+  'valve.selected': 'Selected valve',
+  'valve.opening': 'Opening',
+  'valve.authority': 'Valve authority',
+  'valve.full_open_authority': 'Fully open',
+  'valve.chart_opening': 'Valve opening (%)',
+  'valve.chart_flow': 'Flow / maximum flow (%)',
+  'valve.chart_installed': 'installed',
+  'valve.chart_inherent': 'inherent',
+
+  // Flow meter (ISO 5167)
+  'flowmeter.bore': 'Bore d',
+  'flowmeter.target_dp': 'Target Δp',
+  'flowmeter.max_flow': 'at max flow',
+  'flowmeter.size_bore': 'Size bore',
+  'flowmeter.measured_dp': 'Measured Δp',
+  'flowmeter.permanent_loss': 'Permanent loss',
+
   // Views
   'view.title': 'Pipe Route Views',
   'view.plan': 'Plan View (X-Y)',
@@ -164,6 +355,8 @@ const en: Record<string, string> = {
   'unit.m': 'm',
   'unit.pa': 'Pa',
   'unit.kpa': 'kPa',
+  'unit.gpa': 'GPa',
+  'unit.s': 's',
   'unit.celsius': '°C',
   'unit.kg_m3': 'kg/m³',
   'unit.pa_s': 'Pa·s',
@@ -186,6 +379,10 @@ const en: Record<string, string> = {
   'pump.npshr': 'NPSHr',
   'pump.npsha': 'NPSHa',
   'pump.npsh_margin': 'NPSH Margin',
+  'pump.npsh_ratio': 'NPSH Margin Ratio (NPSHa/NPSHr)',
+  'pump.npsh_min_ratio': 'Required Margin Ratio (HI 9.6.1)',
+  'pump.site_altitude': 'Site Altitude',
+  'pump.suction_from_line': 'Suction head and friction loss are taken from the suction-side segments.',
   'pump.npsha_settings': 'NPSHa Conditions',
   'pump.suction_static_head': 'Suction Static Head',
   'pump.suction_friction_loss': 'Suction Friction Loss',
@@ -198,7 +395,92 @@ const en: Record<string, string> = {
   'pump.input_flow': 'Design Flow Rate',
   'pump.no_intersection': 'No operating point found (pump and resistance curves do not intersect)',
   'pump.warning_low_efficiency': 'Low efficiency operating point',
-  'pump.warning_npsh': 'NPSHa < NPSHr: Cavitation risk',
+
+  // Pump - affinity laws
+  'pump.speed_control': 'Speed Control (Affinity Laws)',
+  'pump.operating_speed': 'Operating Speed',
+  'pump.speed_ratio': 'Speed Ratio',
+  'pump.required_speed': 'Required Speed for Design Point',
+  'pump.apply_required_speed': 'Apply',
+  'pump.impeller_diameter': 'Impeller Diameter',
+  'pump.trim_diameter': 'Trimmed Diameter for Design Point',
+  'pump.trim_below_limit': 'Trim below 75% of the rated diameter; the affinity laws become unreliable.',
+  'pump.design_point_unreachable': 'Not reachable',
+  'pump.shaft_power': 'Shaft Power',
+  'pump.curve_rated': 'H-Q Curve (rated speed)',
+
+  // Pump - multiple pumps
+  'pump.arrangement': 'Pump Arrangement',
+  'pump.pump_count': 'Number of Pumps',
+  'pump.arrangement_parallel': 'Parallel',
+  'pump.arrangement_series': 'Series',
+  'pump.arrangement_note': 'Identical pumps at the operating speed. The operating point shows the combined efficiency and the governing NPSHr (largest in parallel, first pump in series).',
+  'pump.per_pump': 'Per-Pump Duty',
+  'pump.pump_n': 'Pump',
+  'pump.curve_combined': 'Combined Curve',
+
+  // Pump - system curve
+  'pump.full_system_curve': 'The resistance curve is re-calculated at each flow from the calculation tab inputs.',
+  'pump.quadratic_deviation': 'Max Deviation of H = Hs + K·Q²',
+  'pump.full_system_curve_failed': 'The resistance curve could not be re-calculated over the flow range, so the approximation H = Hs + K·Q² is used',
+  'pump.curve_quadratic': 'Quadratic Approximation',
+
+  // Pump - curve fitting
+  'pump.curve_model': 'Pump Curve Model',
+  'pump.curve_model_linear': 'Linear interpolation of catalog points',
+  'pump.curve_model_polynomial': 'Polynomial fit (least squares)',
+  'pump.fit_degree': 'Polynomial Degree',
+  'pump.fit_stored': 'Using the fit coefficients stored with the pump curve.',
+  'pump.fit_quality': 'Goodness of Fit',
+
+  // Pump - library and comparison
+  'pump.select_pump': 'Pump',
+  'pump.library_catalog': 'Catalog',
+  'pump.library_user': 'Imported',
+  'pump.remove_user_curve': 'Remove',
+  'pump.import_rated_speed': 'Rated speed of imported curve',
+  'pump.import_csv': 'Import Curve CSV',
+  'pump.import_csv_hint': 'Columns: flow [m³/h], head [m], efficiency [%], NPSHr [m]. Imported curves are saved with the project.',
+  'pump.import_csv_error': 'CSV import error',
+  'pump.ranking': 'Pump Comparison',
+  'pump.ranking_note': 'Every pump at rated speed in single operation against the current system curve, sorted by suitability (preferred operating region 70-120% of BEP flow, NPSH margin ratio), then by distance from BEP.',
+  'pump.suitability': 'Suitability',
+  'pump.suitability_suitable': 'Suitable',
+  'pump.suitability_marginal': 'Marginal',
+  'pump.suitability_unsuitable': 'Unsuitable',
+
+  // Pump - viscosity correction
+  'pump.viscosity_correction': 'Viscosity Correction (HI 9.6.7)',
+  'pump.viscosity_correction_apply': 'Correct the water-test curve for the fluid viscosity',
+  'pump.kinematic_viscosity': 'Kinematic viscosity',
+  'pump.viscosity_correction_note': 'Flow and efficiency are scaled by C_Q and C_η; the head factor C_H runs from 1 at shutoff to C_Q at the BEP. The water curve is shown dashed.',
+  'pump.viscosity_correction_not_required': 'B ≤ 1 or water-like viscosity (≤ 1.8 cSt): no correction needed, the water curve applies.',
+  'pump.curve_water': 'Water curve',
+
+  // Pump - motor and energy
+  'pump.motor_energy': 'Motor and Energy',
+  'pump.service_factor': 'Motor sizing factor',
+  'pump.duty_power': 'Shaft power per pump',
+  'pump.motor_required_power': 'Required motor output',
+  'pump.motor_rating': 'Selected motor',
+  'pump.motor_load_factor': 'Load at duty point',
+  'pump.max_curve_power': 'Max shaft power on curve',
+  'pump.non_overloading': 'Non-overloading',
+  'pump.non_overloading_yes': 'Yes (within rating to end of curve)',
+  'pump.non_overloading_no': 'No (overloads at end of curve)',
+  'pump.motor_error': 'Motor selection error',
+  'pump.energy': 'Annual Energy by Duty Cycle',
+  'pump.energy_error': 'Energy calculation error',
+  'pump.vfd_efficiency': 'VFD efficiency',
+  'pump.duty_flow': 'Flow',
+  'pump.duty_hours': 'Hours',
+  'pump.duty_add': 'Add duty point',
+  'pump.duty_total_hours': 'Total',
+  'pump.control_throttle': 'Throttling',
+  'pump.control_vfd': 'VFD',
+  'pump.annual_energy': 'Annual energy',
+  'pump.vfd_savings': 'VFD savings',
+  'pump.energy_note': 'Flow is a percentage of the design flow. Throttling runs at constant speed on the pump curve; the VFD slows the pump onto the system curve (affinity laws). Input power includes motor and VFD losses.',
 
   // Pump - data passing
   'action.send_to_pump': 'Send to Pump Selection',
@@ -240,6 +522,8 @@ const en: Record<string, string> = {
   'explain.subtitle': 'Step-by-step explanation of the calculations performed with your current input values.',
   'explain.no_data': 'No calculation data available',
   'explain.no_data_hint': 'Run a calculation in any tab and click "View Explanation" to see the detailed walkthrough.',
+  'explain.hw_c_unavailable': 'Hazen-Williams C-factor not available',
+  'explain.hw_c_unavailable_hint': 'The selected pipe material has no Hazen-Williams C-factor. Choose a material with a C-factor or a Darcy-Weisbach friction method.',
 
   // Section 1: Fluid
   'explain.s1_title': 'Fluid Properties',
@@ -258,11 +542,21 @@ const en: Record<string, string> = {
   // Section 4: Reynolds
   'explain.s4_title': 'Reynolds Number',
   'explain.s4_desc': 'The Reynolds number Re is a dimensionless number representing the ratio of inertial forces to viscous forces, used to classify the flow regime. Re < 2,100 indicates laminar flow; Re ≥ 4,000 indicates turbulent flow.',
+  'explain.s4_desc_non_newtonian': 'For non-Newtonian fluids, the viscosity depends on shear rate, so the generalized Metzner-Reed Reynolds number Re_MR = 8ρV²/τw is used. The wall shear stress τw is obtained from the laminar Rabinowitsch-Mooney relation for the fluid rheology, so the laminar friction factor is exactly f = 64/Re_MR. The laminar limit Re_c depends on the rheology: Ryan-Johnson for power-law and Herschel-Bulkley fluids, Hanks for Bingham plastics.',
   'explain.flow_regime': 'Flow regime',
 
   // Section 5: Friction factor
-  'explain.s5_title': 'Friction Factor (Churchill Equation)',
+  'explain.s5_title': 'Friction Factor',
   'explain.s5_desc': 'The Churchill (1977) equation is an explicit formula covering laminar, transitional, and turbulent flow regimes in a single expression. It requires no iteration and provides accuracy comparable to the Colebrook-White equation. The relative roughness ε/D is a key parameter.',
+  'explain.s5_desc_colebrook': 'The Colebrook-White (1939) equation is the reference correlation for turbulent friction and the basis of the Moody chart. Because f appears on both sides, it is solved iteratively for 1/√f until convergence.',
+  'explain.s5_desc_swamee-jain': 'The Swamee-Jain (1976) equation is an explicit approximation of Colebrook-White, accurate to about ±1% for 5,000 ≤ Re ≤ 10⁸ and 10⁻⁶ ≤ ε/D ≤ 10⁻².',
+  'explain.s5_desc_haaland': 'The Haaland (1983) equation is an explicit approximation of Colebrook-White, accurate to about ±2% for 4,000 ≤ Re ≤ 10⁸.',
+  'explain.s5_desc_serghides': 'The Serghides (1984) equation applies Steffensen acceleration to Colebrook-White, giving an explicit solution that matches Colebrook to within 0.003% without iteration.',
+  'explain.s5_desc_hazen-williams': 'The Hazen-Williams (1920) formula is an empirical head-loss equation for water in turbulent flow, widely required for water-supply and fire-sprinkler review. It uses a material C-factor instead of roughness and ignores viscosity, so it applies only to water at ordinary temperatures. The head loss is converted to an equivalent Darcy friction factor.',
+  'explain.s5_desc_hagen-poiseuille': 'In the laminar regime (Re < 2,100) turbulent correlations do not apply, so the theoretical Hagen-Poiseuille result f = 64/Re is used. It is independent of pipe roughness.',
+  'explain.s5_desc_metzner-reed': 'In laminar non-Newtonian flow, the Metzner-Reed Reynolds number is defined so that f = 64/Re_MR holds exactly for any rheology. Pipe roughness has no effect.',
+  'explain.s5_desc_dodge-metzner': 'The Dodge-Metzner (1959) equation extends the smooth-pipe Nikuradse equation to power-law fluids through the flow index n\'. It reduces to the Newtonian smooth-pipe law at n\' = 1. Pipe roughness is not considered.',
+  'explain.s5_desc_darby-melson': 'The Darby-Melson (1981) correlation, as revised by Darby, Mun & Boger (1992), blends the Buckingham laminar friction factor and a turbulent correlation in Re_B and the Hedstrom number He. It gives a single explicit expression for Bingham plastics across all flow regimes.',
 
   // Section 6: Pipe loss
   'explain.s6_title': 'Straight Pipe Loss (Darcy-Weisbach)',
@@ -270,7 +564,11 @@ const en: Record<string, string> = {
 
   // Section 7: Fitting loss
   'explain.s7_title': 'Fitting & Valve Loss',
-  'explain.s7_desc': 'Minor losses through elbows, tees, valves, etc. are expressed using a loss coefficient K. The K value calculation method depends on the fitting type: Darby 3-K method (Reynolds and diameter dependent), fixed K (entrances/exits), or Cv conversion (valves).',
+  'explain.s7_desc': 'Minor losses through elbows, tees, valves, etc. are expressed using a loss coefficient K. The K value calculation method depends on the fitting type: Darby 3-K method (Reynolds and diameter dependent) or Crane L/D method (K = f_T × L/D, f_T is the fully turbulent friction factor for the pipe size) as selected for the project, fixed K (entrances/exits), or Cv conversion (valves).',
+  'explain.s7_compare_title': 'K value by method',
+  'explain.s7_compare_fitting': 'Fitting',
+  'explain.s7_compare_spread': 'Spread',
+  'explain.s7_compare_note': 'K values evaluated at the current Re and pipe ID. Bold marks the method used in the calculation. Spread = max/min − 1.',
 
   // Section 8: Elevation
   'explain.s8_title': 'Elevation Pressure Change',
@@ -286,6 +584,14 @@ const en: Record<string, string> = {
   'explain.s10_no_data': 'Please run the pump calculation and click "View Pump Explanation".',
   'explain.pump_type': 'Recommended pump type',
 
+  // Section 11: Pump viscosity correction
+  'explain.s11_title': 'Pump Viscosity Correction',
+  'explain.s11_desc': 'The water-test pump curve is converted to the viscous liquid with the ANSI/HI 9.6.7 method. Parameter B is evaluated at the water BEP, and the flow, head and efficiency correction factors C_Q, C_H and C_η are derived from it.',
+
+  // Section 12: Motor sizing and energy
+  'explain.s12_title': 'Motor Sizing and Annual Energy',
+  'explain.s12_desc': 'The motor is the smallest IEC standard rating above the duty shaft power times the sizing factor, and is checked against the maximum shaft power along the pump curve. Annual energy sums the input power over the duty cycle for throttling and VFD control.',
+
   // Variable descriptions
   'explain.var_density': 'Fluid density',
   'explain.var_density_desc': 'Mass per unit volume of the fluid. Varies with temperature.',
@@ -293,6 +599,15 @@ const en: Record<string, string> = {
   'explain.var_viscosity': 'Viscosity',
   'explain.var_viscosity_desc': 'Measure of fluid resistance to flow. Generally decreases with temperature.',
   'explain.var_viscosity_ref': 'Determined in Step 1',
+  'explain.var_wall_shear': 'Wall shear stress',
+  'explain.var_wall_shear_desc': 'Laminar wall shear stress from the rheology model (Rabinowitsch-Mooney)',
+  'explain.var_flow_index': 'Apparent flow index',
+  'explain.var_flow_index_desc': "n' = d ln τw / d ln(8V/D). Equals n for power-law fluids",
+  'explain.var_apparent_viscosity': 'Apparent viscosity',
+  'explain.var_apparent_viscosity_desc': 'μapp = τw / (8V/D). Viscosity of a Newtonian fluid giving the same pressure drop in laminar flow',
+  'explain.var_critical_re': 'Critical Reynolds number',
+  'explain.var_critical_re_ryan_johnson': 'Ryan-Johnson (1959) criterion (2,100 at n\' = 1)',
+  'explain.var_critical_re_hanks': 'Hanks (1963) criterion for Bingham plastics, converted to Re_MR',
   'explain.var_temperature': 'Fluid temperature',
   'explain.var_temperature_desc': 'Temperature of the fluid. Used to determine properties.',
   'explain.var_diameter': 'Inner diameter',
@@ -302,6 +617,7 @@ const en: Record<string, string> = {
   'explain.var_area_desc': 'Circular cross-sectional area calculated from inner diameter.',
   'explain.var_area_ref': 'Calculated in Step 2',
   'explain.var_roughness': 'Pipe roughness',
+  'explain.var_hazen_williams_c': 'Hazen-Williams C-factor',
   'explain.var_flowrate': 'Volumetric flow rate',
   'explain.var_flowrate_desc': 'Volume of fluid per unit time. Primary design input.',
   'explain.var_velocity': 'Mean flow velocity',
@@ -336,6 +652,15 @@ const en: Record<string, string> = {
   'explain.var_speed_desc': 'Pump rotational speed. Determined by frequency and number of poles.',
   'explain.var_efficiency': 'Estimated efficiency',
   'explain.var_efficiency_desc': 'Mid-range of typical efficiency for the specific speed classification',
+  'explain.var_kinematic_viscosity_desc': 'Kinematic viscosity of the pumped liquid (1 cSt = 1 mm²/s)',
+  'explain.var_bep_flow_desc': 'Best-efficiency flow of the water-test curve',
+  'explain.var_bep_head_desc': 'Head at the best-efficiency flow of the water-test curve',
+  'explain.var_service_factor_desc': 'Margin on the duty shaft power for motor sizing',
+  'explain.var_duty_power_desc': 'Shaft power per pump at the operating point',
+  'explain.var_motor_efficiency': 'Motor efficiency',
+  'explain.var_motor_efficiency_desc': 'IEC 60034-30-1 IE3 nominal full-load efficiency of the selected rating',
+  'explain.var_vfd_efficiency_desc': 'Efficiency of the variable frequency drive',
+  'explain.var_duty_hours_desc': 'Total annual operating hours of the duty cycle',
 
   // Calculation warnings
   'warn.title': 'Warnings',
@@ -347,6 +672,37 @@ const en: Record<string, string> = {
   'warn.3k_diameter_range': 'Pipe ID ({d_inch}") is outside the Darby 3-K method\'s validated range (0.5"–24"). Fitting K-value accuracy may be reduced.',
   'warn.fittings_dominant': 'Fitting losses (\u03A3K = {sum_k}) exceed straight-pipe losses (fL/D = {f_ld}). Verify that all fittings are correctly specified, as they dominate the total pressure drop.',
   'warn.large_elevation': 'Large elevation change (\u0394z = {dz} m). Note that intermediate high points in the pipe route may experience pressures below the fluid vapor pressure, risking flashing. Only the inlet-outlet elevation difference is used in this calculation.',
+  'warn.network_not_converged': 'Pipe network analysis did not converge within {iterations} iterations. Flow split and pressures are approximate. Check boundary conditions and pipe sizes.',
+  'warn.gas_choked': 'Choked flow: the specified mass flow cannot pass through this segment. The gas reaches the limiting Mach number (M = {mach}) before the outlet; outlet values are the critical state at the choke point. Increase the pipe size or the inlet pressure.',
+  'warn.gas_high_mach': 'High Mach number (M = {mach}). Above M ≈ 0.3 the incompressible fitting K-values and the constant-viscosity assumption become less accurate, and flow noise increases. Consider a larger pipe size.',
+  'warn.gas_non_ideal': 'Non-ideal gas conditions (estimated Z = {z} at {p} kPa abs). The ideal-gas density used in this calculation deviates by more than 5%. Use real-gas data for design.',
+  'warn.two_phase_stratified': 'Stratified flow likely (liquid-only Froude number Fr_LO = {fr} < 0.04). In horizontal pipes the phases separate under gravity, where separated-flow correlations have large scatter and slugging may occur. Consider a smaller pipe size or a sloped line.',
+  'warn.two_phase_friedel_range': 'Viscosity ratio μL/μG = {ratio} exceeds 1000, outside the recommended range of the Friedel correlation. Compare with Lockhart–Martinelli.',
+  'warn.two_phase_lm_range': 'Lockhart–Martinelli is recommended for μL/μG > 1000 and G < 100 kg/(m²·s) (here μL/μG = {ratio}, G = {g} kg/(m²·s)). Compare with Friedel.',
+  'warn.surge_exceeds_design': 'Peak pressure {peak} kPa (operating + surge) exceeds the design pressure {design} kPa. Lengthen the valve closure time or provide surge protection.',
+  'warn.surge_rapid_closure': 'The valve closes within the pipeline period 2L/a = {period} s, so the full Joukowsky surge develops.',
+  'warn.column_separation': 'Pressure falls below the vapor pressure ({p_v} kPa gauge) from {x} m along the route (minimum {p_min} kPa gauge). Column separation is likely; results after cavity formation are not physical. Consider surge protection.',
+  'warn.transient_wave_speed_adjusted': 'Wave speed was adjusted by up to {pct}% to fit short runs to the time step. Results near short runs are approximate.',
+  'warn.hazen_williams_scope': 'Hazen-Williams is an empirical formula for water at ordinary temperatures (about 5–30 °C). This fluid is at {t} °C with kinematic viscosity {nu} mm²/s, outside that range, so the head loss may be significantly in error. Use a Darcy-Weisbach friction method.',
+  'warn.sprinkler_design_area': 'The calculated heads cover {covered} m², less than the area of operation {required} m². Add the heads within the design area to the calculation.',
+  'warn.sprinkler_supply_insufficient': 'At the total demand of {q} L/min the water supply provides {available} kPa, below the required {required} kPa. Increase pipe sizes or add a fire pump.',
+  'warn.valve_flashing': 'Outlet pressure {p2} kPa abs is below the vapor pressure {pv} kPa abs. The liquid flashes; raise the outlet pressure or select a flashing-service valve.',
+  'warn.valve_choked': 'Valve pressure drop {dp} kPa exceeds the choked-flow limit {dp_max} kPa. Flow is choked and cavitation is likely; the limit is used for sizing.',
+  'warn.valve_no_catalog_match': 'No catalog valve passes the required Cv {cv} within the maximum opening. Increase the valve pressure drop or add larger valves to the catalog.',
+  'warn.valve_low_authority': 'Valve authority {n} is below {min}. The valve has little control over flow; increase the valve pressure drop.',
+  'warn.flow_element_beta_range': 'Diameter ratio β = {beta} is outside the ISO 5167 range {min}–{max}. The discharge coefficient is extrapolated.',
+  'warn.flow_element_pipe_diameter_range': 'Pipe inside diameter {d} mm is outside the ISO 5167 range {min}–{max} mm for this flow element.',
+  'warn.flow_element_bore_small': 'Bore {d} mm is smaller than the ISO 5167 minimum {min} mm.',
+  'warn.flow_element_reynolds_low': 'Reynolds number {re} is below the ISO 5167 minimum {min}. The discharge coefficient is not validated at this flow.',
+  'warn.flow_element_reynolds_high': 'Reynolds number {re} is above the ISO 5167 maximum {max}. The discharge coefficient is not validated at this flow.',
+  'warn.npsh_insufficient': 'NPSHa {npsha} m is below NPSHr {npshr} m at the operating point. The pump will cavitate; raise the suction head or reduce suction losses.',
+  'warn.npsh_margin_ratio_low': 'NPSH margin ratio {ratio} (margin {margin} m) is below the required {min} (HI 9.6.1). Increase NPSHa or select a pump with lower NPSHr.',
+  'warn.pump_beyond_curve': 'Operating point {flow} m³/h lies beyond the last catalog point ({max} m³/h); the fitted curve is extrapolated. Confirm the duty with the manufacturer.',
+  'warn.pump_beyond_extrapolation_limit': 'The pump curve still lies above the system curve at the extrapolation limit ({limit} m³/h, beyond the last catalog point {max} m³/h); the operating point cannot be located. Check the system curve or select a larger pump.',
+  'warn.pump_shutoff_region': 'Operating point {flow} m³/h is in the shutoff region (below {min} m³/h, 30% of the BEP flow {bep} m³/h). Risk of overheating and recirculation.',
+  'warn.motor_end_of_curve_overload': 'Maximum shaft power on the pump curve {max} kW exceeds the motor rating {rating} kW. The motor overloads if the pump runs out to the end of its curve; select a larger motor or limit the flow.',
+  'warn.duty_point_unreachable': 'Duty point at {pct}% of design flow is outside the pump curve or above its head at constant speed and is excluded from the energy totals.',
+  'warn.viscosity_correction_out_of_range': 'Viscosity parameter B = {b} is outside the HI 9.6.7 range (B < {max}). The corrected pump curve is unreliable; obtain performance data from the manufacturer.',
 
   // Tab lock
   'tab.locked_hint': 'Other calculation tabs are locked. Reset to switch.',
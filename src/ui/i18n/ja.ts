@@ -15,6 +15,25 @@ const ja: Record<string, string> = {
   'fluid.temp_range': '温度範囲',
   'fluid.density': '密度',
   'fluid.viscosity': '粘度',
+  'fluid.vapor_pressure': '蒸気圧（絶対圧）',
+  'fluid.vapor_pressure_manual': 'この流体（揮発性溶質）は蒸気圧を推算できないため、値を入力してください。',
+  'rheology.model': 'レオロジー',
+  'rheology.model.newtonian': 'ニュートン流体',
+  'rheology.model.power_law': 'べき乗則 (K, n)',
+  'rheology.model.bingham': 'ビンガム塑性 (τy, μp)',
+  'rheology.model.herschel_bulkley': 'Herschel-Bulkley (τy, K, n)',
+  'rheology.yield_stress': '降伏応力 τy',
+  'rheology.plastic_viscosity': '塑性粘度 μp',
+  'rheology.consistency': '稠度係数 K',
+  'rheology.flow_index': '流動指数 n',
+  'heat_loss.mode': '熱損失',
+  'heat_loss.mode.adiabatic': '断熱（温度変化なし）',
+  'heat_loss.mode.insulated': '周囲への放熱を考慮',
+  'heat_loss.ambient_temperature': '周囲温度',
+  'heat_loss.insulation_thickness': '保温厚さ',
+  'heat_loss.insulation_conductivity': '保温材熱伝導率',
+  'heat_loss.outer_film': '外表面熱伝達率 hₒ',
+  'heat_loss.specific_heat': '比熱 cp',
 
   // Pipe
   'pipe.title': '配管仕様',
@@ -28,6 +47,31 @@ const ja: Record<string, string> = {
   'pipe.inner_diameter': '内径',
   'pipe.length': '管長',
 
+  // Pipe sizing
+  'sizing.max_velocity': '許容流速',
+  'sizing.max_dp_per_100m': '許容摩擦損失',
+  'sizing.suggest': '口径を提案',
+  'sizing.dp_per_100m': 'ΔP (kPa/100m)',
+  'sizing.none_meets': 'この規格・スケジュールには基準を満たす口径がありません',
+
+  // Economic diameter
+  'economic.title': '経済口径',
+  'economic.pump_efficiency': 'ポンプ効率',
+  'economic.operating_hours': '年間運転時間',
+  'economic.electricity_price': '電力単価',
+  'economic.discount_rate': '割引率',
+  'economic.lifetime': '評価期間',
+  'economic.years': '年',
+  'economic.optimize': '経済口径を求める',
+  'economic.optimum_size': '経済口径',
+  'economic.pump_power': 'ポンプ動力（摩擦＋継手）',
+  'economic.capital_cost': '配管据付費',
+  'economic.annual_energy_cost': '年間電力費',
+  'economic.energy_pv': '電力費（現在価値）',
+  'economic.total_cost': 'ライフサイクルコスト',
+  'economic.chart_cost': '費用',
+  'economic.apply_optimum': 'この口径を使用',
+
   // Flow
   'flow.title': '流量条件',
   'flow.rate': '流量',
@@ -41,6 +85,7 @@ const ja: Record<string, string> = {
   // Fittings
   'fittings.title': '継手・バルブ',
   'fittings.type': '種類',
+  'fittings.basis_d': 'K基準内径 (mm)',
   'fittings.quantity': '数量',
   'fittings.add': '継手を追加',
   'fittings.k_value': 'K値',
@@ -55,6 +100,24 @@ const ja: Record<string, string> = {
   'results.title': '計算結果',
   'results.friction_factor': '摩擦係数',
   'results.friction_factor_method': '摩擦係数算定法',
+  'results.temperature_in_out': '温度 (入口 → 出口)',
+  'results.heat_loss': '熱損失',
+  'method.title': '計算手法',
+  'method.friction': '摩擦係数式',
+  'friction.method.churchill': 'Churchill (1977)',
+  'friction.method.colebrook': 'Colebrook-White (反復解)',
+  'friction.method.swamee-jain': 'Swamee-Jain (1976)',
+  'friction.method.haaland': 'Haaland (1983)',
+  'friction.method.serghides': 'Serghides (1984)',
+  'friction.method.hazen-williams': 'Hazen-Williams（水、C 係数）',
+  'friction.method.hagen-poiseuille': 'Hagen-Poiseuille (層流 64/Re)',
+  'friction.method.metzner-reed': 'Metzner-Reed (層流 64/Re_MR)',
+  'friction.method.dodge-metzner': 'Dodge-Metzner (非ニュートン乱流)',
+  'friction.method.darby-melson': 'Darby-Melson (ビンガム塑性)',
+  'method.fittings': '継手K値',
+  'fitting.method.3k': 'Darby 3-K法 (2001)',
+  'fitting.method.2k': 'Hooper 2-K法 (1981)',
+  'fitting.method.l_over_d': 'Crane L/D法 (TP-410)',
   'results.dp_friction': '直管圧損',
   'results.dp_fittings': '継手圧損',
   'results.dp_elevation': '高低差圧損',
@@ -80,6 +143,8 @@ const ja: Record<string, string> = {
   'segment.move_down': '下へ',
   'segment.collapse': '折りたたむ',
   'segment.expand': '展開',
+  'segment.transition_angle': '口径変化部の全頂角 θ（180° = 急変）',
+  'segment.suction': '吸込み側（ポンプ入口まで）',
 
   // System
   'system.flow_conditions': '系統流体条件',
@@ -90,6 +155,8 @@ const ja: Record<string, string> = {
   'system.dp_total': '系統合計圧損',
   'system.head_total': '系統合計損失水頭',
   'system.per_segment': 'セグメント別結果',
+  'system.outlet_temperature': '系統出口温度',
+  'system.heat_loss_total': '合計熱損失',
 
   // Route
   'tab.route': 'ルート入力',
@@ -125,9 +192,133 @@ const ja: Record<string, string> = {
   'route.warnings': '警告',
   'route.additional_fittings': '追加継手',
   'route.add_fitting': '継手を追加',
+  'route.pump_inlet_node': 'ポンプ入口ノード',
+  'route.pump_inlet_none': '指定なし',
   'route.no_elbows': 'エルボなし',
   'route.min_nodes': 'ルートには2ノード以上が必要です',
 
+  // Surge (water hammer)
+  'surge.title': '水撃圧（弁閉鎖）',
+  'surge.mode': '水撃評価',
+  'surge.mode.off': 'なし',
+  'surge.mode.on': 'ルート出口の弁閉鎖',
+  'surge.closure_time': '弁閉鎖時間',
+  'surge.operating_pressure': '運転圧力（ゲージ）',
+  'surge.design_pressure': '設計圧力（ゲージ）',
+  'surge.bulk_modulus': '流体の体積弾性係数 K',
+  'surge.anchorage': '管の拘束条件',
+  'surge.anchorage.upstream': '上流端のみ固定',
+  'surge.anchorage.anchored': '軸方向に全長拘束',
+  'surge.anchorage.expansion_joints': '全長に伸縮継手',
+  'surge.wave_speed': '圧力波伝播速度 a',
+  'surge.period': '管路往復時間 2L/a',
+  'surge.closure_type': '閉鎖区分',
+  'surge.closure.rapid': '急閉鎖（tc ≤ 2L/a、Joukowsky）',
+  'surge.closure.slow': '緩閉鎖（tc > 2L/a、Michaud）',
+  'surge.joukowsky': 'Joukowsky 圧力上昇 ρaV',
+  'surge.surge': '圧力上昇',
+  'surge.peak_pressure': '最大圧力（ゲージ）',
+  'transient.title': '過渡解析（特性曲線法）',
+  'transient.scenario': 'シナリオ',
+  'transient.scenario.off': 'なし',
+  'transient.scenario.valve_closure': 'ルート出口の弁閉鎖',
+  'transient.scenario.pump_trip': 'ルート入口のポンプ停止',
+  'transient.upstream_head': '上流水槽の水位',
+  'transient.downstream_head': '下流側の水頭',
+  'transient.closure_exponent': '閉鎖則の指数 m',
+  'transient.suction_head': '吸込水槽の水位',
+  'transient.shutoff_head': 'ポンプ締切揚程',
+  'transient.rated_speed': '定格回転数',
+  'transient.efficiency': 'ポンプ効率',
+  'transient.inertia': '回転部慣性モーメント（ポンプ＋電動機）',
+  'transient.duration': '解析時間',
+  'transient.time_step': '時間刻み Δt',
+  'transient.reaches': '分割',
+  'transient.max_pressure': '最大圧力（ゲージ）',
+  'transient.min_pressure': '最小圧力（ゲージ）',
+  'transient.vapor_pressure': '飽和蒸気圧（ゲージ）',
+  'transient.chart_distance': 'ルート始点からの距離 (m)',
+  'transient.chart_max_head': '最大水頭',
+  'transient.chart_min_head': '最小水頭',
+  'transient.chart_steady_head': '定常動水勾配線',
+  'transient.chart_elevation': '管中心標高',
+  'transient.chart_vapor_limit': '蒸気圧限界',
+
+  // Sprinkler (NFPA 13)
+  'tab.sprinkler': 'スプリンクラー',
+  'sprinkler.pipe_settings': '水・配管',
+  'sprinkler.nodes': 'ノード',
+  'sprinkler.node': 'ノード',
+  'sprinkler.elevation': '標高',
+  'sprinkler.add_node': 'ノード追加',
+  'sprinkler.supply_node': '供給点',
+  'sprinkler.pipes': '管路（上流 → 下流）',
+  'sprinkler.pipe': '管路',
+  'sprinkler.add_pipe': '管路追加',
+  'sprinkler.heads': 'スプリンクラーヘッド',
+  'sprinkler.coverage': '防護面積',
+  'sprinkler.add_head': 'ヘッド追加',
+  'sprinkler.k_hint': 'K ファクターは L/min/bar^0.5（Q = K√P）。最低放水量は K√P_min と 散水密度 × 防護面積 の大きい方。',
+  'sprinkler.design': '設計基準',
+  'sprinkler.density': '設計散水密度',
+  'sprinkler.area_of_operation': '作動面積',
+  'sprinkler.hose_allowance': '消火栓加算水量',
+  'sprinkler.supply': '水源',
+  'sprinkler.supply_enable': '放水試験結果と比較する',
+  'sprinkler.static_pressure': '静水圧',
+  'sprinkler.residual_pressure': '残圧',
+  'sprinkler.residual_flow': '残圧時流量',
+  'sprinkler.most_remote_head': '水理的最遠ヘッド',
+  'sprinkler.covered_area': '計算対象ヘッドの防護面積',
+  'sprinkler.sprinkler_demand': 'スプリンクラー需要流量',
+  'sprinkler.total_demand': '総需要流量',
+  'sprinkler.required_pressure': '供給点の必要圧力',
+  'sprinkler.available_pressure': '総需要流量での供給可能圧力',
+  'sprinkler.safety_margin': '余裕圧力',
+  'sprinkler.calc_table': '水理計算表',
+  'sprinkler.calc_table_hint': '最遠ヘッドから供給点へ向かう計算順。q: 下流ノードで加わる流量、L/F/T: 管長 / 継手相当長 / 合計、P_t: 下流端圧力、P_e: 高低差、P_f: 摩擦損失（kPa）。',
+  'sprinkler.min_flow': '最低放水量',
+  'sprinkler.flow': '放水量',
+  'sprinkler.chart_supply': '水源の供給曲線',
+  'sprinkler.fitting.elbow_45': '45° エルボ',
+  'sprinkler.fitting.elbow_90': '90° 標準エルボ',
+  'sprinkler.fitting.elbow_90_long': '90° ロングエルボ',
+  'sprinkler.fitting.tee_branch': 'チーズ・クロス（分岐流）',
+  'sprinkler.fitting.butterfly_valve': 'バタフライ弁',
+  'sprinkler.fitting.gate_valve': '仕切弁',
+  'sprinkler.fitting.swing_check': 'スイング逆止弁',
+
+  // Control valve (IEC 60534)
+  'valve.title': '調節弁（IEC 60534）',
+  'valve.mode.off': 'なし',
+  'valve.characteristic': '弁特性',
+  'valve.characteristic.linear': 'リニア',
+  'valve.characteristic.equal_percentage': 'イコールパーセント',
+  'valve.inlet_pressure': '入口圧力 p₁（絶対圧）',
+  'valve.dp': '弁差圧 Δp',
+  'valve.critical_pressure': '臨界圧力 p_c（絶対圧）',
+  'valve.max_opening': '設計流量時の最大開度',
+  'valve.required_cv': '必要 Cv',
+  'valve.choked': '閉塞流れ',
+  'valve.choked_dp': '閉塞限界差圧 Δp_max',
+  'valve.outlet_pressure': '出口圧力 p₂（絶対圧）',
+  'valve.selected': '選定弁',
+  'valve.opening': '開度',
+  'valve.authority': '弁オーソリティ',
+  'valve.full_open_authority': '全開時',
+  'valve.chart_opening': '弁開度 (%)',
+  'valve.chart_flow': '流量 / 最大流量 (%)',
+  'valve.chart_installed': '据付特性',
+  'valve.chart_inherent': '固有特性',
+
+  // Flow meter (ISO 5167)
+  'flowmeter.bore': '絞り径 d',
+  'flowmeter.target_dp': '目標差圧',
+  'flowmeter.max_flow': '最大流量',
+  'flowmeter.size_bore': '絞り径を選定',
+  'flowmeter.measured_dp': '測定差圧',
+  'flowmeter.permanent_loss': '永久圧力損失',
+
   // Views
   'view.title': '配管ルートビュー',
   'view.plan': '平面図 (X-Y)',
@@ -164,6 +355,8 @@ const ja: Record<string, string> = {
   'unit.m': 'm',
   'unit.pa': 'Pa',
   'unit.kpa': 'kPa',
+  'unit.gpa': 'GPa',
+  'unit.s': 's',
   'unit.celsius': '°C',
   'unit.kg_m3': 'kg/m³',
   'unit.pa_s': 'Pa·s',
@@ -186,6 +379,10 @@ const ja: Record<string, string> = {
   'pump.npshr': '必要 NPSH',
   'pump.npsha': '有効 NPSH',
   'pump.npsh_margin': 'NPSH マージン',
+  'pump.npsh_ratio': 'NPSH 余裕比 (NPSHa/NPSHr)',
+  'pump.npsh_min_ratio': '必要余裕比 (HI 9.6.1)',
+  'pump.site_altitude': '設置場所の標高',
+  'pump.suction_from_line': '吸込み実揚程・摩擦損失は吸込み側区間の計算結果から取得しています。',
   'pump.npsha_settings': 'NPSHa 条件',
   'pump.suction_static_head': '吸込み実揚程',
   'pump.suction_friction_loss': '吸込み側摩擦損失',
@@ -198,7 +395,92 @@ const ja: Record<string, string> = {
   'pump.input_flow': '設計流量',
   'pump.no_intersection': '運転点なし (ポンプ曲線と抵抗曲線の交点が見つかりません)',
   'pump.warning_low_efficiency': '効率が低い運転点です',
-  'pump.warning_npsh': 'NPSHa < NPSHr: キャビテーションのリスクがあります',
+
+  // Pump - affinity laws
+  'pump.speed_control': '回転数制御 (相似則)',
+  'pump.operating_speed': '運転回転数',
+  'pump.speed_ratio': '回転数比',
+  'pump.required_speed': '設計点の必要回転数',
+  'pump.apply_required_speed': '適用',
+  'pump.impeller_diameter': 'インペラ外径',
+  'pump.trim_diameter': '設計点のインペラカット外径',
+  'pump.trim_below_limit': '定格外径の 75% 未満のカットでは相似則の精度が低下します。',
+  'pump.design_point_unreachable': '到達不可',
+  'pump.shaft_power': '軸動力',
+  'pump.curve_rated': 'H-Q 曲線 (定格回転数)',
+
+  // Pump - multiple pumps
+  'pump.arrangement': 'ポンプ台数・配置',
+  'pump.pump_count': '運転台数',
+  'pump.arrangement_parallel': '並列',
+  'pump.arrangement_series': '直列',
+  'pump.arrangement_note': '同一機種を運転回転数で運転します。運転点の効率は合成効率、NPSHr は支配的なポンプの値 (並列は最大値、直列は 1 台目) です。',
+  'pump.per_pump': '各ポンプの分担',
+  'pump.pump_n': 'ポンプ',
+  'pump.curve_combined': '合成曲線',
+
+  // Pump - system curve
+  'pump.full_system_curve': '抵抗曲線は計算タブの入力を流量ごとに再計算したものです。',
+  'pump.quadratic_deviation': '2 乗近似 (H = Hs + K·Q²) の最大誤差',
+  'pump.full_system_curve_failed': '流量範囲全体で抵抗曲線を再計算できなかったため、2 乗近似 (H = Hs + K·Q²) を使用しています',
+  'pump.curve_quadratic': '2 乗近似',
+
+  // Pump - curve fitting
+  'pump.curve_model': 'ポンプ性能曲線のモデル',
+  'pump.curve_model_linear': 'カタログ点の線形補間',
+  'pump.curve_model_polynomial': '多項式近似 (最小二乗法)',
+  'pump.fit_degree': '次数',
+  'pump.fit_stored': 'ポンプカーブに保存された近似係数を使用しています。',
+  'pump.fit_quality': '当てはまり',
+
+  // Pump - library and comparison
+  'pump.select_pump': 'ポンプ',
+  'pump.library_catalog': 'カタログ',
+  'pump.library_user': '取り込み',
+  'pump.remove_user_curve': '削除',
+  'pump.import_rated_speed': '取り込む曲線の定格回転数',
+  'pump.import_csv': '性能曲線 CSV 取り込み',
+  'pump.import_csv_hint': '列: 流量 [m³/h], 揚程 [m], 効率 [%], NPSHr [m]。取り込んだ曲線はプロジェクトに保存されます。',
+  'pump.import_csv_error': 'CSV 取り込みエラー',
+  'pump.ranking': 'ポンプ比較',
+  'pump.ranking_note': '全ポンプを定格回転数・単独運転として現在の抵抗曲線で評価し、適合度 (BEP 流量の 70〜120% の推奨運転範囲、NPSH 余裕比)、BEP からの乖離の順に並べています。',
+  'pump.suitability': '適合度',
+  'pump.suitability_suitable': '適合',
+  'pump.suitability_marginal': '要検討',
+  'pump.suitability_unsuitable': '不適',
+
+  // Pump - viscosity correction
+  'pump.viscosity_correction': '粘度補正 (HI 9.6.7)',
+  'pump.viscosity_correction_apply': '水の性能曲線を流体の粘度で補正する',
+  'pump.kinematic_viscosity': '動粘度',
+  'pump.viscosity_correction_note': '流量・効率を C_Q・C_η 倍し、揚程補正係数 C_H は締切の 1 から BEP の C_Q まで変化します。水の曲線を破線で表示します。',
+  'pump.viscosity_correction_not_required': 'B ≤ 1 または水と同程度の動粘度（1.8 cSt 以下）のため補正不要です（水の曲線をそのまま使用）。',
+  'pump.curve_water': '水の曲線',
+
+  // Pump - motor and energy
+  'pump.motor_energy': '電動機と消費電力量',
+  'pump.service_factor': '電動機の余裕係数',
+  'pump.duty_power': '1 台あたりの軸動力',
+  'pump.motor_required_power': '必要出力',
+  'pump.motor_rating': '選定電動機',
+  'pump.motor_load_factor': '運転点での負荷率',
+  'pump.max_curve_power': '性能曲線上の最大軸動力',
+  'pump.non_overloading': '非過負荷',
+  'pump.non_overloading_yes': 'はい（曲線末端まで定格以内）',
+  'pump.non_overloading_no': 'いいえ（曲線末端で過負荷）',
+  'pump.motor_error': '電動機選定エラー',
+  'pump.energy': '運転パターン別の年間消費電力量',
+  'pump.energy_error': '消費電力量の計算エラー',
+  'pump.vfd_efficiency': 'インバータ効率',
+  'pump.duty_flow': '流量',
+  'pump.duty_hours': '運転時間',
+  'pump.duty_add': '運転点を追加',
+  'pump.duty_total_hours': '合計',
+  'pump.control_throttle': '絞り制御',
+  'pump.control_vfd': 'インバータ',
+  'pump.annual_energy': '年間消費電力量',
+  'pump.vfd_savings': 'インバータによる削減量',
+  'pump.energy_note': '流量は設計流量に対する比です。絞り制御は一定回転数で性能曲線上を運転し、インバータ制御は相似則で抵抗曲線上まで減速します。受電電力は電動機・インバータの損失を含みます。',
 
   // Pump - data passing
   'action.send_to_pump': 'ポンプ選定に送る',
@@ -240,6 +522,8 @@ const ja: Record<string, string> = {
   'explain.subtitle': '現在の入力値に対して、どのような計算が行われているかをステップごとに解説します。',
   'explain.no_data': 'まだ計算データがありません',
   'explain.no_data_hint': 'いずれかの計算タブで計算を実行し、「計算解説を見る」ボタンを押してください。',
+  'explain.hw_c_unavailable': 'Hazen-Williams の流速係数 C がありません',
+  'explain.hw_c_unavailable_hint': '選択した管材には Hazen-Williams の流速係数 C が定義されていません。C 係数のある管材か、Darcy-Weisbach の摩擦係数手法を選択してください。',
 
   // Section 1: Fluid
   'explain.s1_title': '流体物性',
@@ -258,11 +542,21 @@ const ja: Record<string, string> = {
   // Section 4: Reynolds
   'explain.s4_title': 'レイノルズ数',
   'explain.s4_desc': 'レイノルズ数Reは流体の慣性力と粘性力の比を表す無次元数で、流動状態（層流・遷移域・乱流）の判定に用います。Re < 2,100 で層流、Re ≥ 4,000 で乱流と判定されます。',
+  'explain.s4_desc_non_newtonian': '非ニュートン流体は粘度がせん断速度に依存するため、Metzner-Reed の一般化レイノルズ数 Re_MR = 8ρV²/τw を用います。壁面せん断応力τwはレオロジーに応じた層流の Rabinowitsch-Mooney 式から求めるため、層流では f = 64/Re_MR が厳密に成り立ちます。層流限界 Re_c はレオロジーにより異なり、べき乗則・Herschel-Bulkley 流体は Ryan-Johnson、ビンガム塑性流体は Hanks の基準を用います。',
   'explain.flow_regime': '流動状態',
 
   // Section 5: Friction factor
-  'explain.s5_title': '摩擦係数（Churchill式）',
+  'explain.s5_title': '摩擦係数',
   'explain.s5_desc': 'Churchill (1977) の式は、層流・遷移域・乱流のすべてをカバーする単一の陽的式です。反復計算が不要で、Colebrook-White式と同等の精度を持ちます。管の相対粗度ε/Dが重要なパラメータとなります。',
+  'explain.s5_desc_colebrook': 'Colebrook-White (1939) の式は乱流域の摩擦係数を与える基準式で、Moody 線図の元になっています。f が両辺に現れる陰的式のため、1/√f を未知数として収束するまで反復計算します。',
+  'explain.s5_desc_swamee-jain': 'Swamee-Jain (1976) の式は Colebrook-White 式を陽的に近似したもので、5,000 ≤ Re ≤ 10⁸、10⁻⁶ ≤ ε/D ≤ 10⁻² の範囲で誤差 ±1% 程度です。',
+  'explain.s5_desc_haaland': 'Haaland (1983) の式は Colebrook-White 式の陽的近似で、4,000 ≤ Re ≤ 10⁸ の範囲で誤差 ±2% 程度です。',
+  'explain.s5_desc_serghides': 'Serghides (1984) の式は Colebrook-White 式に Steffensen 加速を適用した陽的解で、反復なしで Colebrook とほぼ同一の値 (誤差 0.003% 未満) を与えます。',
+  'explain.s5_desc_hazen-williams': 'Hazen-Williams (1920) 式は乱流域の水の損失水頭を与える経験式で、上水道・スプリンクラー設備の審査で広く求められます。粗度の代わりに材質ごとの流速係数 C を用い、粘度を含まないため常温の水にのみ適用できます。損失水頭を等価な Darcy 摩擦係数に換算しています。',
+  'explain.s5_desc_hagen-poiseuille': '層流域 (Re < 2,100) では乱流用の相関式は適用できないため、理論解である Hagen-Poiseuille 式 f = 64/Re を用いています。管粗度の影響は受けません。',
+  'explain.s5_desc_metzner-reed': '非ニュートン流体の層流域では、Metzner-Reed レイノルズ数を用いるとレオロジーによらず f = 64/Re_MR が厳密に成り立ちます。管粗度の影響は受けません。',
+  'explain.s5_desc_dodge-metzner': 'Dodge-Metzner (1959) の式は、滑らかな管の Nikuradse 式を流動指数 n\' によりべき乗則流体へ拡張したものです。n\' = 1 でニュートン流体の滑面式に一致します。管粗度は考慮されません。',
+  'explain.s5_desc_darby-melson': 'Darby-Melson (1981) の式（Darby, Mun & Boger 1992 改訂）は、Buckingham の層流摩擦係数と Re_B・ヘドストロム数 He による乱流相関を合成したもので、ビンガム塑性流体の全流動領域を単一の陽的式で表します。',
 
   // Section 6: Pipe loss
   'explain.s6_title': '直管圧損（Darcy-Weisbach式）',
@@ -270,7 +564,11 @@ const ja: Record<string, string> = {
 
   // Section 7: Fitting loss
   'explain.s7_title': '継手・バルブ圧損',
-  'explain.s7_desc': 'エルボ・ティー・バルブなどの局部損失を損失係数Kで表現します。K値の算出方法は継手の種類により、Darby 3-K法（レイノルズ数と口径に依存）、固定K値法（入口・出口）、Cv変換法（バルブ）の3種類があります。',
+  'explain.s7_desc': 'エルボ・ティー・バルブなどの局部損失を損失係数Kで表現します。K値の算出方法は継手の種類により、プロジェクトで選択した Darby 3-K法（レイノルズ数と口径に依存）または Crane L/D法（K = f_T × L/D、f_T は管径に応じた完全乱流摩擦係数）、固定K値法（入口・出口）、Cv変換法（バルブ）があります。',
+  'explain.s7_compare_title': '手法別 K 値の比較',
+  'explain.s7_compare_fitting': '継手',
+  'explain.s7_compare_spread': 'ばらつき',
+  'explain.s7_compare_note': '現在の Re と管内径で評価した K 値です。太字は計算に使用した手法です。ばらつき = 最大/最小 − 1。',
 
   // Section 8: Elevation
   'explain.s8_title': '高低差による圧力変化',
@@ -286,6 +584,14 @@ const ja: Record<string, string> = {
   'explain.s10_no_data': 'ポンプ選定タブで計算後、「ポンプ解説を見る」ボタンを押してください。',
   'explain.pump_type': '推奨ポンプ形式',
 
+  // Section 11: Pump viscosity correction
+  'explain.s11_title': 'ポンプ性能の粘度補正',
+  'explain.s11_desc': '水で試験したポンプ性能曲線を ANSI/HI 9.6.7 の方法で粘性液の性能に換算します。水性能の BEP でパラメータ B を求め、流量・揚程・効率の補正係数 C_Q・C_H・C_η を算出します。',
+
+  // Section 12: Motor sizing and energy
+  'explain.s12_title': '電動機選定と年間消費電力量',
+  'explain.s12_desc': '運転点の軸動力に余裕係数を掛けた出力以上で最小の IEC 標準定格を選び、性能曲線上の最大軸動力で過負荷を確認します。年間消費電力量は運転パターンの受電電力を絞り制御・インバータ制御それぞれで積算します。',
+
   // Variable descriptions
   'explain.var_density': '流体密度',
   'explain.var_density_desc': '流体の単位体積あたりの質量。温度により変化する。',
@@ -293,6 +599,15 @@ const ja: Record<string, string> = {
   'explain.var_viscosity': '粘度',
   'explain.var_viscosity_desc': '流体の粘性を表す物性値。温度上昇に伴い一般に低下する。',
   'explain.var_viscosity_ref': 'Step 1 で決定',
+  'explain.var_wall_shear': '壁面せん断応力',
+  'explain.var_wall_shear_desc': 'レオロジーモデルから求めた層流の壁面せん断応力（Rabinowitsch-Mooney 式）',
+  'explain.var_flow_index': '見かけの流動指数',
+  'explain.var_flow_index_desc': "n' = d ln τw / d ln(8V/D)。べき乗則流体では n に等しい",
+  'explain.var_apparent_viscosity': '見かけ粘度',
+  'explain.var_apparent_viscosity_desc': 'μapp = τw / (8V/D)。層流で同じ圧損を与えるニュートン流体の粘度',
+  'explain.var_critical_re': '臨界レイノルズ数',
+  'explain.var_critical_re_ryan_johnson': 'Ryan-Johnson (1959) の基準（n\' = 1 で 2,100）',
+  'explain.var_critical_re_hanks': 'ビンガム塑性流体の Hanks (1963) 基準を Re_MR に換算',
   'explain.var_temperature': '流体温度',
   'explain.var_temperature_desc': '流体の温度。物性値の決定に使用。',
   'explain.var_diameter': '管内径',
@@ -302,6 +617,7 @@ const ja: Record<string, string> = {
   'explain.var_area_desc': '管内径から計算される円形断面の面積。',
   'explain.var_area_ref': 'Step 2 で計算済み',
   'explain.var_roughness': '管内面粗度',
+  'explain.var_hazen_williams_c': 'Hazen-Williams 流速係数',
   'explain.var_flowrate': '体積流量',
   'explain.var_flowrate_desc': '単位時間あたりの流体体積。配管設計の基本入力値。',
   'explain.var_velocity': '管内平均流速',
@@ -336,6 +652,15 @@ const ja: Record<string, string> = {
   'explain.var_speed_desc': 'ポンプの回転数。50Hz/60Hz の極数で決まる。',
   'explain.var_efficiency': '推定効率',
   'explain.var_efficiency_desc': '比速度から推定される典型効率の中央値',
+  'explain.var_kinematic_viscosity_desc': '取り扱う液の動粘度 (1 cSt = 1 mm²/s)',
+  'explain.var_bep_flow_desc': '水性能曲線の最高効率点流量',
+  'explain.var_bep_head_desc': '水性能曲線の最高効率点での揚程',
+  'explain.var_service_factor_desc': '電動機選定で運転点の軸動力に見込む余裕',
+  'explain.var_duty_power_desc': '運転点での 1 台あたりの軸動力',
+  'explain.var_motor_efficiency': '電動機効率',
+  'explain.var_motor_efficiency_desc': '選定定格の IEC 60034-30-1 IE3 全負荷公称効率',
+  'explain.var_vfd_efficiency_desc': 'インバータ（可変周波数駆動装置）の効率',
+  'explain.var_duty_hours_desc': '運転パターンの年間運転時間の合計',
 
   // 計算警告
   'warn.title': '注意事項',
@@ -347,6 +672,37 @@ const ja: Record<string, string> = {
   'warn.3k_diameter_range': '管内径 ({d_inch}") が Darby 3-K法の検証範囲 (0.5"〜24") 外です。継手K値の精度が低下する可能性があります。',
   'warn.fittings_dominant': '継手損失 (\u03A3K = {sum_k}) が直管損失 (fL/D = {f_ld}) を上回っています。継手の指定が正しいか確認してください。全圧損に占める継手の割合が支配的です。',
   'warn.large_elevation': '高低差が大きい (\u0394z = {dz} m)。配管ルートの中間高所で圧力が流体の蒸気圧を下回り、フラッシングが発生するリスクがあります。本計算では入口〜出口の高低差のみを使用しています。',
+  'warn.network_not_converged': '配管網解析が {iterations} 回の反復で収束しませんでした。流量配分と圧力は参考値です。境界条件・管径の設定を確認してください。',
+  'warn.gas_choked': '閉塞流れ: 指定の質量流量はこの区間を流れません。出口に達する前に限界マッハ数 (M = {mach}) に達するため、出口値は閉塞点の臨界状態です。管径を大きくするか入口圧力を上げてください。',
+  'warn.gas_high_mach': '高マッハ数 (M = {mach})。M ≈ 0.3 を超えると非圧縮性の継手 K 値や粘度一定の仮定の精度が低下し、流動騒音も増加します。管径の拡大を検討してください。',
+  'warn.gas_non_ideal': '理想気体からの乖離 ({p} kPa abs で推算 Z = {z})。本計算で用いる理想気体の密度との差が 5% を超えます。設計には実在気体データを使用してください。',
+  'warn.two_phase_stratified': '成層流の可能性 (全量液相フルード数 Fr_LO = {fr} < 0.04)。水平管では重力により気液が分離し、分離流相関式の誤差が大きくスラグ流も生じやすくなります。管径の縮小や勾配配管を検討してください。',
+  'warn.two_phase_friedel_range': '粘度比 μL/μG = {ratio} が 1000 を超え、Friedel 相関の推奨範囲外です。Lockhart–Martinelli と比較してください。',
+  'warn.two_phase_lm_range': 'Lockhart–Martinelli の推奨範囲は μL/μG > 1000 かつ G < 100 kg/(m²·s) です (本条件 μL/μG = {ratio}, G = {g} kg/(m²·s))。Friedel と比較してください。',
+  'warn.surge_exceeds_design': '最大圧力 {peak} kPa（運転圧力 + 圧力上昇）が設計圧力 {design} kPa を超えています。弁閉鎖時間の延長または水撃防止対策を検討してください。',
+  'warn.surge_rapid_closure': '弁閉鎖時間が管路往復時間 2L/a = {period} s 以内のため、Joukowsky の圧力上昇がそのまま発生します。',
+  'warn.column_separation': 'ルート始点から {x} m の位置で圧力が蒸気圧（{p_v} kPa ゲージ）を下回ります（最小 {p_min} kPa ゲージ）。水柱分離のおそれがあり、空洞発生後の結果は物理的に有効ではありません。水撃防止対策を検討してください。',
+  'warn.transient_wave_speed_adjusted': '短い直管区間を時間刻みに合わせるため、伝播速度を最大 {pct}% 補正しました。短い区間付近の結果は概算値です。',
+  'warn.hazen_williams_scope': 'Hazen-Williams 式は常温（約 5–30 °C）の水に対する経験式です。この流体は {t} °C、動粘度 {nu} mm²/s で適用範囲外のため、損失水頭に大きな誤差が生じる可能性があります。Darcy-Weisbach 系の摩擦係数式を使用してください。',
+  'warn.sprinkler_design_area': '計算対象ヘッドの防護面積 {covered} m² が作動面積 {required} m² に達していません。作動面積内のヘッドをすべて計算に含めてください。',
+  'warn.sprinkler_supply_insufficient': '総需要流量 {q} L/min での供給可能圧力 {available} kPa が必要圧力 {required} kPa を下回っています。管径の拡大または消火ポンプの設置を検討してください。',
+  'warn.valve_flashing': '出口圧力 {p2} kPa abs が蒸気圧 {pv} kPa abs を下回っています。液体がフラッシングするため、出口圧力を上げるかフラッシング用の弁を選定してください。',
+  'warn.valve_choked': '弁差圧 {dp} kPa が閉塞限界差圧 {dp_max} kPa を超えています。閉塞流れでキャビテーションのおそれがあり、サイジングには限界差圧を用いています。',
+  'warn.valve_no_catalog_match': '必要 Cv {cv} を最大開度以内で満たすカタログ弁がありません。弁差圧を大きくするか、より大きな弁をカタログに追加してください。',
+  'warn.valve_low_authority': '弁オーソリティ {n} が {min} に達していません。流量制御性が低いため、弁差圧を大きくしてください。',
+  'warn.flow_element_beta_range': '絞り直径比 β = {beta} が ISO 5167 の適用範囲 {min}–{max} 外です。流出係数は外挿値です。',
+  'warn.flow_element_pipe_diameter_range': '管内径 {d} mm がこの流量計の ISO 5167 適用範囲 {min}–{max} mm 外です。',
+  'warn.flow_element_bore_small': '絞り径 {d} mm が ISO 5167 の最小値 {min} mm を下回っています。',
+  'warn.flow_element_reynolds_low': 'レイノルズ数 {re} が ISO 5167 の下限 {min} を下回っています。この流量では流出係数が検証されていません。',
+  'warn.flow_element_reynolds_high': 'レイノルズ数 {re} が ISO 5167 の上限 {max} を超えています。この流量では流出係数が検証されていません。',
+  'warn.npsh_insufficient': '運転点で NPSHa {npsha} m が NPSHr {npshr} m を下回っています。キャビテーションが発生するため、吸込み揚程を上げるか吸込み損失を減らしてください。',
+  'warn.npsh_margin_ratio_low': 'NPSH 余裕比 {ratio}（余裕 {margin} m）が必要値 {min}（HI 9.6.1）を下回っています。NPSHa を増やすか NPSHr の小さいポンプを選定してください。',
+  'warn.pump_beyond_curve': '運転点 {flow} m³/h がカタログの最大流量 ({max} m³/h) を超えており、近似曲線を外挿しています。メーカーに運転可否を確認してください。',
+  'warn.pump_beyond_extrapolation_limit': '外挿の上限 ({limit} m³/h、カタログの最大流量 {max} m³/h の先) でもポンプ揚程が系統揚程を上回っており、運転点を求められません。抵抗曲線を確認するか、大きいポンプを選定してください。',
+  'warn.pump_shutoff_region': '運転点 {flow} m³/h は締切運転域です (BEP 流量 {bep} m³/h の 30% = {min} m³/h 未満)。過熱・再循環のおそれがあります。',
+  'warn.motor_end_of_curve_overload': '性能曲線上の最大軸動力 {max} kW が電動機定格 {rating} kW を超えます。曲線末端まで運転すると過負荷になるため、電動機を大きくするか流量を制限してください。',
+  'warn.duty_point_unreachable': '設計流量の {pct}% の運転点は性能曲線の範囲外、または一定回転数の揚程を超えるため、消費電力量の合計から除外しました。',
+  'warn.viscosity_correction_out_of_range': '粘度パラメータ B = {b} は HI 9.6.7 の適用範囲 (B < {max}) 外です。補正後の性能曲線は信頼できないため、メーカーに性能データを確認してください。',
 
   // Tab lock
   'tab.locked_hint': '計算済みのため他の計算タブはロックされています',